@@ -0,0 +1,66 @@
+import type { Core } from '@strapi/strapi';
+
+import { syncImportedGames } from '../src/api/game-fetcher/services/game-sync';
+import { checkAffiliateLinks } from '../src/api/affiliate-link/services/affiliate-link-health';
+import { cleanupSourceCache } from '../src/ai/articles/source-cache';
+import { retryDueWebhookDeliveries } from '../src/api/webhook-subscription/services/webhook-dispatcher';
+
+/**
+ * Scheduled background tasks (enabled via `cron` in config/server.ts).
+ *
+ * - IGDB re-sync: refreshes ratings, status, media and store links of imported games.
+ *   IGDB_SYNC_CRON overrides the schedule (default: daily at 04:00),
+ *   IGDB_SYNC_BATCH_SIZE caps games per run (default: 50).
+ * - Affiliate link check: marks links unavailable when their store page is gone.
+ *   AFFILIATE_CHECK_CRON overrides the schedule (default: daily at 05:00),
+ *   AFFILIATE_CHECK_BATCH_SIZE caps links per run (default: 100).
+ * - Source cache cleanup: removes rarely used, low-quality cached sources not cited by published posts.
+ *   SOURCE_CACHE_CLEANUP_CRON overrides the schedule (default: Sundays at 03:00),
+ *   SOURCE_CACHE_CLEANUP_BATCH_SIZE caps rows removed per run (default: 500).
+ * - Webhook retries: re-sends failed webhook deliveries whose backoff has elapsed.
+ *   WEBHOOK_RETRY_CRON overrides the schedule (default: every minute).
+ */
+export default {
+  igdbGameSync: {
+    task: async ({ strapi }: { strapi: Core.Strapi }) => {
+      const batchSize = Number.parseInt(process.env.IGDB_SYNC_BATCH_SIZE ?? '', 10);
+      await syncImportedGames(strapi, {
+        trigger: 'scheduled',
+        ...(Number.isFinite(batchSize) && batchSize > 0 && { batchSize }),
+      });
+    },
+    options: {
+      rule: process.env.IGDB_SYNC_CRON || '0 4 * * *',
+    },
+  },
+  affiliateLinkCheck: {
+    task: async ({ strapi }: { strapi: Core.Strapi }) => {
+      const batchSize = Number.parseInt(process.env.AFFILIATE_CHECK_BATCH_SIZE ?? '', 10);
+      await checkAffiliateLinks(strapi, {
+        ...(Number.isFinite(batchSize) && batchSize > 0 && { batchSize }),
+      });
+    },
+    options: {
+      rule: process.env.AFFILIATE_CHECK_CRON || '0 5 * * *',
+    },
+  },
+  sourceCacheCleanup: {
+    task: async ({ strapi }: { strapi: Core.Strapi }) => {
+      const batchSize = Number.parseInt(process.env.SOURCE_CACHE_CLEANUP_BATCH_SIZE ?? '', 10);
+      await cleanupSourceCache(strapi, {
+        ...(Number.isFinite(batchSize) && batchSize > 0 && { batchSize }),
+      });
+    },
+    options: {
+      rule: process.env.SOURCE_CACHE_CLEANUP_CRON || '0 3 * * 0',
+    },
+  },
+  webhookDeliveryRetry: {
+    task: async ({ strapi }: { strapi: Core.Strapi }) => {
+      await retryDueWebhookDeliveries(strapi);
+    },
+    options: {
+      rule: process.env.WEBHOOK_RETRY_CRON || '* * * * *',
+    },
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Records a live article generation run into a replay bundle.
+ * Run with: npx tsx scripts/record-article-run.ts "<game name>" "<instruction>" <output.json>
+ *
+ * Requires OPENROUTER_API_KEY (and TAVILY_API_KEY / EXA_API_KEY for search).
+ * Replay the bundle offline with replayGameArticleRun().
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { recordGameArticleRun, saveReplayBundle } from '../src/ai/articles/record-replay';
+
+async function main() {
+  const [gameName, instruction, outputPath] = process.argv.slice(2);
+  if (!gameName || !outputPath) {
+    console.log('Usage: npx tsx scripts/record-article-run.ts "<game name>" "<instruction>" <output.json>');
+    process.exit(1);
+  }
+
+  console.log(`🎙️  Recording article run for "${gameName}"...`);
+  const { bundle, error } = await recordGameArticleRun({
+    gameName,
+    ...(instruction ? { instruction } : {}),
+  });
+
+  await saveReplayBundle(outputPath, bundle);
+
+  console.log(`\n📦 Saved bundle to ${outputPath}`);
+  console.log(`   LLM calls:  ${bundle.llmCalls.length}`);
+  console.log(`   HTTP calls: ${bundle.httpCalls.length}`);
+  console.log(`   Outcome:    ${bundle.outcome?.status}`);
+  if (error) {
+    console.log(`   ❌ ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+main().catch(console.error);
@@ -1,5 +1,5 @@
 import type { StrapiApp } from '@strapi/strapi/admin';
-import { Download, Feather } from '@strapi/icons';
+import { Download, Feather, Earth, ChartPie } from '@strapi/icons';
 
 export default {
   config: {
@@ -38,6 +38,38 @@ export default {
       position: 6,
       permissions: [],
     });
+
+    // Add Domain Quality dashboard to the main menu
+    app.addMenuLink({
+      to: 'plugins/domain-quality',
+      icon: Earth,
+      intlLabel: {
+        id: 'domain-quality.plugin.name',
+        defaultMessage: 'Domain Quality',
+      },
+      Component: async () => {
+        const component = await import('./pages/DomainQuality');
+        return component.default;
+      },
+      position: 7,
+      permissions: [],
+    });
+
+    // Add Generation Analytics dashboard to the main menu
+    app.addMenuLink({
+      to: 'plugins/generation-analytics',
+      icon: ChartPie,
+      intlLabel: {
+        id: 'generation-analytics.plugin.name',
+        defaultMessage: 'Generation Analytics',
+      },
+      Component: async () => {
+        const component = await import('./pages/GenerationAnalytics');
+        return component.default;
+      },
+      position: 8,
+      permissions: [],
+    });
   },
   bootstrap(app: StrapiApp) {
     // Bootstrap logic can be added here if needed
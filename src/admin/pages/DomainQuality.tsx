@@ -0,0 +1,544 @@
+import React from 'react';
+import {
+  Main,
+  Box,
+  Typography,
+  Button,
+  Field,
+  TextInput,
+  Textarea,
+  Flex,
+  Modal,
+  Loader,
+  Badge,
+  Divider,
+  SingleSelect,
+  SingleSelectOption,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@strapi/design-system';
+import { Search, ArrowClockwise, Pencil, Cross } from '@strapi/icons';
+import { Layouts } from '@strapi/strapi/admin';
+
+type DomainTier = 'excellent' | 'good' | 'average' | 'poor' | 'excluded';
+type ExclusionOverride = 'include' | 'exclude';
+
+const TIERS: DomainTier[] = ['excellent', 'good', 'average', 'poor', 'excluded'];
+
+interface DomainSummary {
+  documentId: string;
+  domain: string;
+  domainType: string;
+  avgQualityScore: number;
+  avgRelevanceScore: number;
+  totalSources: number;
+  tier: DomainTier;
+  isExcluded: boolean;
+  excludeReason: string | null;
+  isExcludedTavily: boolean;
+  isExcludedExa: boolean;
+  failureRates: { tavily: number | null; exa: number | null };
+  tierOverride: DomainTier | null;
+  exclusionOverride: ExclusionOverride | null;
+  overrideReason: string | null;
+  overriddenAt: string | null;
+  staticallyExcluded: boolean;
+}
+
+interface DomainSnapshot {
+  at: string;
+  avgQualityScore: number;
+  avgRelevanceScore: number;
+  totalSources: number;
+  tier: DomainTier;
+  isExcluded: boolean;
+  tavilyFailureRate: number;
+  exaFailureRate: number;
+}
+
+interface CachedSource {
+  documentId: string;
+  url: string;
+  title: string | null;
+  qualityScore: number | null;
+  accessCount: number;
+}
+
+interface DomainDetail extends DomainSummary {
+  scoreHistory: DomainSnapshot[];
+  sources: CachedSource[];
+  sourceCount: number;
+}
+
+interface OverridePreview {
+  staticallyExcluded: boolean;
+  before: { tier: DomainTier; isExcluded: boolean };
+  after: { tier: DomainTier; isExcluded: boolean };
+  cacheEffect: 'stop-serving' | 'start-serving' | 'none';
+  affectedSourceCount: number;
+  affectedSources: CachedSource[];
+}
+
+interface OverrideForm {
+  tierOverride: DomainTier | '';
+  exclusionOverride: ExclusionOverride | '';
+  reason: string;
+}
+
+/**
+ * Get the admin JWT token from Strapi's storage.
+ * Strapi 5 stores the token in sessionStorage with the key 'jwtToken'.
+ */
+function getAdminToken(): string | null {
+  return sessionStorage.getItem('jwtToken') || localStorage.getItem('jwtToken');
+}
+
+async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const adminToken = getAdminToken();
+  const response = await fetch(`/api/domain-quality${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(adminToken ? { Authorization: `Bearer ${adminToken}` } : {}),
+    },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatDate(isoString: string): string {
+  return new Date(isoString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+const TierBadge: React.FC<{ tier: DomainTier; pinned?: boolean }> = ({ tier, pinned }) => {
+  const colors: Record<DomainTier, { bg: string; text: string }> = {
+    excellent: { bg: 'success100', text: 'success700' },
+    good: { bg: 'primary100', text: 'primary700' },
+    average: { bg: 'neutral150', text: 'neutral700' },
+    poor: { bg: 'warning100', text: 'warning700' },
+    excluded: { bg: 'danger100', text: 'danger700' },
+  };
+  return (
+    <Badge backgroundColor={colors[tier].bg} textColor={colors[tier].text}>
+      {tier}
+      {pinned ? ' (pinned)' : ''}
+    </Badge>
+  );
+};
+
+const DomainDetailModal: React.FC<{
+  detail: DomainDetail;
+  onClose: () => void;
+  onChanged: (detail: DomainDetail) => void;
+}> = ({ detail, onClose, onChanged }) => {
+  const [form, setForm] = React.useState<OverrideForm>({
+    tierOverride: detail.tierOverride ?? '',
+    exclusionOverride: detail.exclusionOverride ?? '',
+    reason: detail.overrideReason ?? '',
+  });
+  const [preview, setPreview] = React.useState<OverridePreview | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const hasOverride = form.tierOverride !== '' || form.exclusionOverride !== '';
+  const body = JSON.stringify({
+    tierOverride: form.tierOverride || null,
+    exclusionOverride: form.exclusionOverride || null,
+    reason: form.reason.trim() || null,
+  });
+  const domainPath = `/domains/${encodeURIComponent(detail.domain)}/override`;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = () =>
+    run(async () => {
+      setPreview(await apiRequest<OverridePreview>(`${domainPath}/preview`, { method: 'POST', body }));
+    });
+
+  const handleSave = () =>
+    run(async () => {
+      const result = await apiRequest<{ domain: DomainDetail }>(domainPath, { method: 'PUT', body });
+      setPreview(null);
+      onChanged(result.domain);
+    });
+
+  const handleClear = () =>
+    run(async () => {
+      const result = await apiRequest<{ domain: DomainDetail }>(domainPath, { method: 'DELETE' });
+      setForm({ tierOverride: '', exclusionOverride: '', reason: '' });
+      setPreview(null);
+      onChanged(result.domain);
+    });
+
+  const history = [...detail.scoreHistory].reverse().slice(0, 10);
+
+  return (
+    <Modal.Root open onOpenChange={(open: boolean) => !open && onClose()}>
+      <Modal.Content>
+        <Modal.Header>
+          <Modal.Title>{detail.domain}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Flex direction="column" alignItems="stretch" gap={4}>
+            <Flex gap={2} wrap="wrap">
+              <TierBadge tier={detail.tier} pinned={detail.tierOverride !== null} />
+              {detail.isExcluded && <Badge backgroundColor="danger100" textColor="danger700">excluded</Badge>}
+              {detail.exclusionOverride && (
+                <Badge backgroundColor="secondary100" textColor="secondary700">
+                  forced {detail.exclusionOverride}
+                </Badge>
+              )}
+              {detail.staticallyExcluded && (
+                <Badge backgroundColor="neutral150" textColor="neutral700">hardcoded exclusion</Badge>
+              )}
+            </Flex>
+
+            <Typography variant="omega">
+              Quality {detail.avgQualityScore.toFixed(1)} · Relevance {detail.avgRelevanceScore.toFixed(1)} ·{' '}
+              {detail.totalSources} sources · Tavily failures {formatPercent(detail.failureRates.tavily)} · Exa failures{' '}
+              {formatPercent(detail.failureRates.exa)}
+            </Typography>
+            {detail.excludeReason && (
+              <Typography variant="pi" textColor="neutral600">
+                {detail.excludeReason}
+              </Typography>
+            )}
+
+            <Divider />
+
+            <Typography variant="delta">Score history (computed)</Typography>
+            {history.length === 0 ? (
+              <Typography variant="pi" textColor="neutral600">
+                No history recorded yet.
+              </Typography>
+            ) : (
+              <Table colCount={5} rowCount={history.length + 1}>
+                <Thead>
+                  <Tr>
+                    <Th><Typography variant="sigma">Date</Typography></Th>
+                    <Th><Typography variant="sigma">Quality</Typography></Th>
+                    <Th><Typography variant="sigma">Relevance</Typography></Th>
+                    <Th><Typography variant="sigma">Tier</Typography></Th>
+                    <Th><Typography variant="sigma">Failures (T / E)</Typography></Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {history.map((snapshot) => (
+                    <Tr key={snapshot.at}>
+                      <Td><Typography>{formatDate(snapshot.at)}</Typography></Td>
+                      <Td><Typography>{snapshot.avgQualityScore.toFixed(1)}</Typography></Td>
+                      <Td><Typography>{snapshot.avgRelevanceScore.toFixed(1)}</Typography></Td>
+                      <Td><TierBadge tier={snapshot.tier} /></Td>
+                      <Td>
+                        <Typography>
+                          {formatPercent(snapshot.tavilyFailureRate)} / {formatPercent(snapshot.exaFailureRate)}
+                        </Typography>
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            )}
+
+            <Divider />
+
+            <Typography variant="delta">Manual override</Typography>
+            <Flex gap={4}>
+              <Box flex="1">
+                <Field.Root name="tierOverride">
+                  <Field.Label>Pin tier</Field.Label>
+                  <SingleSelect
+                    value={form.tierOverride}
+                    onChange={(value: string | number) => setForm({ ...form, tierOverride: String(value) as DomainTier | '' })}
+                  >
+                    <SingleSelectOption value="">Computed</SingleSelectOption>
+                    {TIERS.map((tier) => (
+                      <SingleSelectOption key={tier} value={tier}>{tier}</SingleSelectOption>
+                    ))}
+                  </SingleSelect>
+                </Field.Root>
+              </Box>
+              <Box flex="1">
+                <Field.Root name="exclusionOverride">
+                  <Field.Label>Research</Field.Label>
+                  <SingleSelect
+                    value={form.exclusionOverride}
+                    onChange={(value: string | number) =>
+                      setForm({ ...form, exclusionOverride: String(value) as ExclusionOverride | '' })
+                    }
+                  >
+                    <SingleSelectOption value="">Computed</SingleSelectOption>
+                    <SingleSelectOption value="include">Always include</SingleSelectOption>
+                    <SingleSelectOption value="exclude">Always exclude</SingleSelectOption>
+                  </SingleSelect>
+                </Field.Root>
+              </Box>
+            </Flex>
+            <Field.Root name="reason">
+              <Field.Label>Reason</Field.Label>
+              <Textarea
+                value={form.reason}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setForm({ ...form, reason: e.target.value })}
+              />
+            </Field.Root>
+
+            {preview && (
+              <Box padding={4} background="neutral100" hasRadius>
+                <Typography variant="omega">
+                  Tier {preview.before.tier} → {preview.after.tier}; excluded{' '}
+                  {String(preview.before.isExcluded)} → {String(preview.after.isExcluded)}
+                </Typography>
+                <Box paddingTop={2}>
+                  <Typography variant="pi" textColor="neutral600">
+                    {preview.staticallyExcluded
+                      ? 'This domain is on the hardcoded exclusion list; forcing include has no effect.'
+                      : preview.cacheEffect === 'none'
+                        ? 'Cached sources are not affected.'
+                        : `${preview.affectedSourceCount} cached source(s) will ${
+                            preview.cacheEffect === 'stop-serving' ? 'stop being' : 'start being'
+                          } reused in research.`}
+                  </Typography>
+                </Box>
+                {preview.affectedSources.map((source) => (
+                  <Typography key={source.documentId} variant="pi" tag="p" ellipsis>
+                    {source.title || source.url}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+
+            {error && (
+              <Typography variant="omega" textColor="danger600">
+                {error}
+              </Typography>
+            )}
+          </Flex>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button
+            variant="danger-light"
+            startIcon={<Cross />}
+            onClick={handleClear}
+            disabled={isBusy || (detail.tierOverride === null && detail.exclusionOverride === null)}
+          >
+            Clear override
+          </Button>
+          <Flex gap={2}>
+            <Button variant="secondary" onClick={handlePreview} disabled={isBusy || !hasOverride}>
+              Preview
+            </Button>
+            <Button onClick={handleSave} disabled={isBusy || !hasOverride} startIcon={isBusy ? <Loader small /> : undefined}>
+              Save override
+            </Button>
+          </Flex>
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+};
+
+const DomainQuality: React.FC = () => {
+  const [search, setSearch] = React.useState('');
+  // Search text is applied on Enter / button click, not on every keystroke
+  const [appliedSearch, setAppliedSearch] = React.useState('');
+  const [tier, setTier] = React.useState<DomainTier | ''>('');
+  const [status, setStatus] = React.useState<'' | 'excluded' | 'included' | 'overridden'>('');
+  const [page, setPage] = React.useState(1);
+  const [domains, setDomains] = React.useState<DomainSummary[]>([]);
+  const [pageCount, setPageCount] = React.useState(0);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [detail, setDetail] = React.useState<DomainDetail | null>(null);
+
+  const loadDomains = React.useCallback(async () => {
+    const params = new URLSearchParams({ page: String(page), pageSize: '25' });
+    if (appliedSearch) params.set('search', appliedSearch);
+    if (tier) params.set('tier', tier);
+    if (status === 'excluded' || status === 'included') params.set('excluded', String(status === 'excluded'));
+    if (status === 'overridden') params.set('overridden', 'true');
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await apiRequest<{ domains: DomainSummary[]; pagination: { pageCount: number } }>(
+        `/domains?${params}`
+      );
+      setDomains(result.domains);
+      setPageCount(result.pagination.pageCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load domains');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, appliedSearch, tier, status]);
+
+  React.useEffect(() => {
+    loadDomains();
+  }, [loadDomains]);
+
+  const applySearch = () => {
+    const value = search.trim();
+    if (value === appliedSearch && page === 1) {
+      loadDomains();
+      return;
+    }
+    setAppliedSearch(value);
+    setPage(1);
+  };
+
+  const openDetail = async (domain: string) => {
+    try {
+      setDetail(await apiRequest<DomainDetail>(`/domains/${encodeURIComponent(domain)}`));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load domain');
+    }
+  };
+
+  const handleChanged = (updated: DomainDetail) => {
+    setDetail(updated);
+    setDomains((current) => current.map((d) => (d.domain === updated.domain ? updated : d)));
+  };
+
+  return (
+    <Main>
+      <Layouts.Header
+        title="Domain Quality"
+        subtitle="Source domain scores used by AI research, with manual overrides"
+        primaryAction={
+          <Button onClick={loadDomains} disabled={isLoading} startIcon={isLoading ? <Loader small /> : <ArrowClockwise />}>
+            Refresh
+          </Button>
+        }
+      />
+
+      <Layouts.Content>
+        <Box padding={6} background="neutral0" shadow="filterShadow" hasRadius>
+          <Flex gap={4} marginBottom={6} alignItems="flex-end">
+            <Box flex="1">
+              <Field.Root name="search">
+                <Field.Label>Domain</Field.Label>
+                <TextInput
+                  placeholder="Search domains..."
+                  value={search}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+                  onKeyDown={(e: React.KeyboardEvent) => {
+                    if (e.key === 'Enter') applySearch();
+                  }}
+                />
+              </Field.Root>
+            </Box>
+            <Field.Root name="tier">
+              <Field.Label>Tier</Field.Label>
+              <SingleSelect value={tier} onChange={(value: string | number) => { setTier(String(value) as DomainTier | ''); setPage(1); }}>
+                <SingleSelectOption value="">All tiers</SingleSelectOption>
+                {TIERS.map((t) => (
+                  <SingleSelectOption key={t} value={t}>{t}</SingleSelectOption>
+                ))}
+              </SingleSelect>
+            </Field.Root>
+            <Field.Root name="status">
+              <Field.Label>Status</Field.Label>
+              <SingleSelect
+                value={status}
+                onChange={(value: string | number) => { setStatus(String(value) as typeof status); setPage(1); }}
+              >
+                <SingleSelectOption value="">All</SingleSelectOption>
+                <SingleSelectOption value="excluded">Excluded</SingleSelectOption>
+                <SingleSelectOption value="included">Included</SingleSelectOption>
+                <SingleSelectOption value="overridden">Overridden</SingleSelectOption>
+              </SingleSelect>
+            </Field.Root>
+            <Button variant="secondary" startIcon={<Search />} onClick={applySearch}>
+              Search
+            </Button>
+          </Flex>
+
+          {error && (
+            <Box paddingBottom={4}>
+              <Typography textColor="danger600">{error}</Typography>
+            </Box>
+          )}
+
+          <Table colCount={7} rowCount={domains.length + 1}>
+            <Thead>
+              <Tr>
+                <Th><Typography variant="sigma">Domain</Typography></Th>
+                <Th><Typography variant="sigma">Tier</Typography></Th>
+                <Th><Typography variant="sigma">Quality</Typography></Th>
+                <Th><Typography variant="sigma">Sources</Typography></Th>
+                <Th><Typography variant="sigma">Tavily / Exa failures</Typography></Th>
+                <Th><Typography variant="sigma">Status</Typography></Th>
+                <Th><Typography variant="sigma">Actions</Typography></Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {domains.map((d) => (
+                <Tr key={d.documentId}>
+                  <Td><Typography fontWeight="semiBold">{d.domain}</Typography></Td>
+                  <Td><TierBadge tier={d.tier} pinned={d.tierOverride !== null} /></Td>
+                  <Td><Typography>{d.avgQualityScore.toFixed(1)}</Typography></Td>
+                  <Td><Typography>{d.totalSources}</Typography></Td>
+                  <Td>
+                    <Typography>
+                      {formatPercent(d.failureRates.tavily)} / {formatPercent(d.failureRates.exa)}
+                    </Typography>
+                  </Td>
+                  <Td>
+                    <Typography textColor={d.isExcluded ? 'danger600' : 'neutral800'}>
+                      {d.isExcluded ? 'Excluded' : 'Included'}
+                      {d.exclusionOverride ? ' (forced)' : ''}
+                    </Typography>
+                  </Td>
+                  <Td>
+                    <Button variant="tertiary" size="S" startIcon={<Pencil />} onClick={() => openDetail(d.domain)}>
+                      Manage
+                    </Button>
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+
+          {pageCount > 1 && (
+            <Flex justifyContent="space-between" paddingTop={4}>
+              <Button variant="tertiary" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Typography variant="pi">
+                Page {page} of {pageCount}
+              </Typography>
+              <Button variant="tertiary" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </Flex>
+          )}
+        </Box>
+      </Layouts.Content>
+
+      {detail && <DomainDetailModal detail={detail} onClose={() => setDetail(null)} onChanged={handleChanged} />}
+    </Main>
+  );
+};
+
+export default DomainQuality;
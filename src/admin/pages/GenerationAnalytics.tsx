@@ -0,0 +1,452 @@
+import React from 'react';
+import {
+  Main,
+  Box,
+  Typography,
+  Button,
+  Field,
+  TextInput,
+  Flex,
+  Grid,
+  Loader,
+  SingleSelect,
+  SingleSelectOption,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@strapi/design-system';
+import { ArrowClockwise, Download } from '@strapi/icons';
+import { Layouts } from '@strapi/strapi/admin';
+
+type ExportView = 'posts' | 'models' | 'phases' | 'categories' | 'games' | 'months' | 'search';
+
+const EXPORT_VIEWS: Array<{ value: ExportView; label: string }> = [
+  { value: 'posts', label: 'Posts' },
+  { value: 'models', label: 'Models' },
+  { value: 'phases', label: 'Phases' },
+  { value: 'search', label: 'Search engines' },
+  { value: 'categories', label: 'Categories' },
+  { value: 'games', label: 'Games' },
+  { value: 'months', label: 'Months' },
+];
+
+interface SeverityCounts {
+  critical: number;
+  major: number;
+  minor: number;
+  total: number;
+}
+
+interface GroupSummary {
+  key: string;
+  label: string;
+  posts: number;
+  totalCostUsd: number;
+  avgCostUsd: number | null;
+  avgDurationMs: number;
+}
+
+interface ModelSummary {
+  model: string;
+  phases: string[];
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalCostUsd: number;
+  unpricedRuns: number;
+  avgCostPerRunUsd: number | null;
+}
+
+interface PhaseSummary {
+  phase: string;
+  runs: number;
+  totalCostUsd: number;
+  avgCostUsd: number | null;
+  avgDurationMs: number | null;
+  maxDurationMs: number | null;
+}
+
+interface SearchSummary {
+  engine: 'tavily' | 'exa';
+  posts: number;
+  queries: number;
+  totalCostUsd: number;
+  avgCostPerQueryUsd: number | null;
+  usefulSources: number;
+  costPerUsefulSourceUsd: number | null;
+  postsWithSourceCounts: number;
+}
+
+interface Analytics {
+  totals: {
+    posts: number;
+    totalCostUsd: number;
+    avgCostUsd: number | null;
+    avgDurationMs: number | null;
+    unpricedPosts: number;
+  };
+  byModel: ModelSummary[];
+  byPhase: PhaseSummary[];
+  byCategory: GroupSummary[];
+  byGame: GroupSummary[];
+  byMonth: GroupSummary[];
+  search: SearchSummary[];
+  quality: {
+    reviewer: {
+      reviewedPosts: number;
+      avgInitialIssues: number | null;
+      avgRemainingIssues: number | null;
+      approvalRate: number | null;
+    };
+    fixer: {
+      fixedPosts: number;
+      avgIterations: number | null;
+      postsWithOutcomes: number;
+      operationsAttempted: number;
+      operationsSucceeded: number;
+      operationSuccessRate: number | null;
+      avgIssuesBefore: SeverityCounts | null;
+      avgIssuesAfter: SeverityCounts | null;
+      approvalRate: number | null;
+    };
+  };
+}
+
+interface Filters {
+  from: string;
+  to: string;
+}
+
+/**
+ * Get the admin JWT token from Strapi's storage.
+ * Strapi 5 stores the token in sessionStorage with the key 'jwtToken'.
+ */
+function getAdminToken(): string | null {
+  return sessionStorage.getItem('jwtToken') || localStorage.getItem('jwtToken');
+}
+
+function authHeaders(): Record<string, string> {
+  const adminToken = getAdminToken();
+  return adminToken ? { Authorization: `Bearer ${adminToken}` } : {};
+}
+
+function buildParams(filters: Filters, extra: Record<string, string> = {}): URLSearchParams {
+  const params = new URLSearchParams(extra);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  return params;
+}
+
+async function fetchAnalytics(filters: Filters): Promise<Analytics> {
+  const response = await fetch(`/api/article-generator/analytics?${buildParams(filters)}`, { headers: authHeaders() });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || `Request failed (${response.status})`);
+  }
+  return data as Analytics;
+}
+
+/**
+ * Download a CSV export (fetched with the admin token, then saved via a blob URL).
+ */
+async function downloadCsv(filters: Filters, view: ExportView): Promise<void> {
+  const response = await fetch(`/api/article-generator/analytics/export?${buildParams(filters, { view })}`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error?.message || `Export failed (${response.status})`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? `generation-analytics-${view}.csv`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatUsd(value: number | null): string {
+  if (value === null) return '—';
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  return ms >= 60000 ? `${(ms / 60000).toFixed(1)}m` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatNumber(value: number | null, digits = 1): string {
+  return value === null ? '—' : value.toFixed(digits);
+}
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <Box padding={4} background="neutral100" hasRadius>
+    <Typography variant="sigma" textColor="neutral600">
+      {label}
+    </Typography>
+    <Typography variant="beta" tag="p">
+      {value}
+    </Typography>
+    {hint && (
+      <Typography variant="pi" textColor="neutral600">
+        {hint}
+      </Typography>
+    )}
+  </Box>
+);
+
+const DataTable: React.FC<{ title: string; headers: string[]; rows: React.ReactNode[][] }> = ({ title, headers, rows }) => (
+  <Box paddingTop={6}>
+    <Box paddingBottom={2}>
+      <Typography variant="delta">{title}</Typography>
+    </Box>
+    {rows.length === 0 ? (
+      <Typography variant="pi" textColor="neutral600">
+        No data.
+      </Typography>
+    ) : (
+      <Table colCount={headers.length} rowCount={rows.length + 1}>
+        <Thead>
+          <Tr>
+            {headers.map((header) => (
+              <Th key={header}><Typography variant="sigma">{header}</Typography></Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map((cells, rowIndex) => (
+            <Tr key={rowIndex}>
+              {cells.map((cell, cellIndex) => (
+                <Td key={cellIndex}><Typography>{cell}</Typography></Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    )}
+  </Box>
+);
+
+const groupRows = (groups: GroupSummary[]) =>
+  groups.map((g) => [g.label, g.posts, formatUsd(g.totalCostUsd), formatUsd(g.avgCostUsd), formatDuration(g.avgDurationMs)]);
+
+const GROUP_HEADERS = ['Name', 'Posts', 'Total cost', 'Avg cost', 'Avg duration'];
+
+const GenerationAnalytics: React.FC = () => {
+  // Date inputs edit the draft; Apply copies it to the filters the data is loaded with
+  const [draftFilters, setDraftFilters] = React.useState<Filters>({ from: '', to: '' });
+  const [filters, setFilters] = React.useState<Filters>(draftFilters);
+  const [exportView, setExportView] = React.useState<ExportView>('posts');
+  const [analytics, setAnalytics] = React.useState<Analytics | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAnalytics(await fetchAnalytics(filters));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await downloadCsv(filters, exportView);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const { reviewer, fixer } = analytics?.quality ?? { reviewer: null, fixer: null };
+
+  return (
+    <Main>
+      <Layouts.Header
+        title="Generation Analytics"
+        subtitle="AI article generation spend and quality across posts"
+        primaryAction={
+          <Button onClick={load} disabled={isLoading} startIcon={isLoading ? <Loader small /> : <ArrowClockwise />}>
+            Refresh
+          </Button>
+        }
+      />
+
+      <Layouts.Content>
+        <Box padding={6} background="neutral0" shadow="filterShadow" hasRadius>
+          <Flex gap={4} marginBottom={6} alignItems="flex-end" wrap="wrap">
+            <Field.Root name="from">
+              <Field.Label>From</Field.Label>
+              <TextInput
+                type="date"
+                value={draftFilters.from}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftFilters({ ...draftFilters, from: e.target.value })}
+              />
+            </Field.Root>
+            <Field.Root name="to">
+              <Field.Label>To</Field.Label>
+              <TextInput
+                type="date"
+                value={draftFilters.to}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftFilters({ ...draftFilters, to: e.target.value })}
+              />
+            </Field.Root>
+            <Button variant="secondary" onClick={() => setFilters({ ...draftFilters })} disabled={isLoading}>
+              Apply
+            </Button>
+            <Box flex="1" />
+            <Field.Root name="exportView">
+              <Field.Label>Export</Field.Label>
+              <SingleSelect value={exportView} onChange={(value: string | number) => setExportView(String(value) as ExportView)}>
+                {EXPORT_VIEWS.map((view) => (
+                  <SingleSelectOption key={view.value} value={view.value}>{view.label}</SingleSelectOption>
+                ))}
+              </SingleSelect>
+            </Field.Root>
+            <Button
+              variant="tertiary"
+              onClick={handleExport}
+              disabled={isExporting}
+              startIcon={isExporting ? <Loader small /> : <Download />}
+            >
+              Download CSV
+            </Button>
+          </Flex>
+
+          {error && (
+            <Box paddingBottom={4}>
+              <Typography textColor="danger600">{error}</Typography>
+            </Box>
+          )}
+
+          {analytics && reviewer && fixer && (
+            <>
+              <Grid.Root gap={4}>
+                <Grid.Item col={3} s={6}>
+                  <StatCard
+                    label="Posts"
+                    value={String(analytics.totals.posts)}
+                    hint={analytics.totals.unpricedPosts > 0 ? `${analytics.totals.unpricedPosts} without cost data` : undefined}
+                  />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard label="Total spend" value={formatUsd(analytics.totals.totalCostUsd)} />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard label="Avg cost / post" value={formatUsd(analytics.totals.avgCostUsd)} />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard label="Avg duration" value={formatDuration(analytics.totals.avgDurationMs)} />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard
+                    label="Reviewer issues"
+                    value={`${formatNumber(reviewer.avgInitialIssues)} → ${formatNumber(reviewer.avgRemainingIssues)}`}
+                    hint={`Avg per reviewed post (${reviewer.reviewedPosts}), first review → final`}
+                  />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard
+                    label="Approval rate"
+                    value={formatPercent(reviewer.approvalRate)}
+                    hint={`Fixed posts: ${formatPercent(fixer.approvalRate)}`}
+                  />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard
+                    label="Fixer operations"
+                    value={`${fixer.operationsSucceeded} / ${fixer.operationsAttempted}`}
+                    hint={`${formatPercent(fixer.operationSuccessRate)} changed the article · ${formatNumber(fixer.avgIterations)} avg iterations`}
+                  />
+                </Grid.Item>
+                <Grid.Item col={3} s={6}>
+                  <StatCard
+                    label="Fixer issue change"
+                    value={
+                      fixer.avgIssuesBefore && fixer.avgIssuesAfter
+                        ? `${formatNumber(fixer.avgIssuesBefore.total)} → ${formatNumber(fixer.avgIssuesAfter.total)}`
+                        : '—'
+                    }
+                    hint={
+                      fixer.avgIssuesBefore && fixer.avgIssuesAfter
+                        ? `Critical ${formatNumber(fixer.avgIssuesBefore.critical)} → ${formatNumber(fixer.avgIssuesAfter.critical)} (${fixer.postsWithOutcomes} posts)`
+                        : 'No Fixer outcomes recorded'
+                    }
+                  />
+                </Grid.Item>
+              </Grid.Root>
+
+              <DataTable
+                title="Search engines"
+                headers={['Engine', 'Posts', 'Queries', 'Total cost', 'Cost / query', 'Useful sources', 'Cost / useful source']}
+                rows={analytics.search.map((s) => [
+                  s.engine,
+                  s.posts,
+                  s.queries,
+                  formatUsd(s.totalCostUsd),
+                  formatUsd(s.avgCostPerQueryUsd),
+                  `${s.usefulSources} (${s.postsWithSourceCounts} posts)`,
+                  formatUsd(s.costPerUsefulSourceUsd),
+                ])}
+              />
+
+              <DataTable
+                title="Phases"
+                headers={['Phase', 'Runs', 'Total cost', 'Avg cost', 'Avg duration', 'Max duration']}
+                rows={analytics.byPhase.map((p) => [
+                  p.phase,
+                  p.runs,
+                  formatUsd(p.totalCostUsd),
+                  formatUsd(p.avgCostUsd),
+                  formatDuration(p.avgDurationMs),
+                  formatDuration(p.maxDurationMs),
+                ])}
+              />
+
+              <DataTable
+                title="Models"
+                headers={['Model', 'Phases', 'Runs', 'Tokens (in / out)', 'Total cost', 'Avg cost / run']}
+                rows={analytics.byModel.map((m) => [
+                  m.model,
+                  m.phases.join(', '),
+                  m.unpricedRuns > 0 ? `${m.runs} (${m.unpricedRuns} unpriced)` : m.runs,
+                  `${m.inputTokens.toLocaleString()} / ${m.outputTokens.toLocaleString()}`,
+                  formatUsd(m.totalCostUsd),
+                  formatUsd(m.avgCostPerRunUsd),
+                ])}
+              />
+
+              <DataTable title="By month" headers={GROUP_HEADERS} rows={groupRows(analytics.byMonth)} />
+              <DataTable title="By category" headers={GROUP_HEADERS} rows={groupRows(analytics.byCategory)} />
+              <DataTable title="By game" headers={GROUP_HEADERS} rows={groupRows(analytics.byGame)} />
+            </>
+          )}
+        </Box>
+      </Layouts.Content>
+    </Main>
+  );
+};
+
+export default GenerationAnalytics;
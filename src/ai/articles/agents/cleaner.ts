@@ -105,6 +105,8 @@ export interface CleanerDeps {
   readonly signal?: AbortSignal;
   /** Game name for relevance scoring context */
   readonly gameName?: string;
+  /** Optional temperature override for cleaning calls (default: CLEANER_CONFIG.TEMPERATURE) */
+  readonly temperature?: number;
 }
 
 /**
@@ -339,7 +341,7 @@ export async function cleanSingleSource(
           output: Output.object({
             schema: CleanerOutputSchema,
           }),
-          temperature: CLEANER_CONFIG.TEMPERATURE,
+          temperature: deps.temperature ?? CLEANER_CONFIG.TEMPERATURE,
           abortSignal: signal,
           system: getCleanerSystemPrompt(),
           prompt: getCleanerUserPrompt(source, deps.gameName),
@@ -507,6 +509,7 @@ export async function cleanSourcesBatch(
             logger: deps.logger,
             signal: deps.signal,
             gameName: deps.gameName,
+            temperature: deps.temperature,
           };
           return cleanSourceTwoStep(source, twoStepDeps).then((r) => ({
             source: r.source,
@@ -1088,7 +1091,7 @@ export async function extractSummariesFromCleanedContent(
           output: Output.object({
             schema: SummaryExtractionSchema,
           }),
-          temperature: CLEANER_CONFIG.TEMPERATURE,
+          temperature: deps.temperature ?? CLEANER_CONFIG.TEMPERATURE,
           abortSignal: signal,
           system: getSummaryExtractionSystemPrompt(),
           prompt: getSummaryExtractionUserPrompt(title, cleanedContent, gameName),
@@ -1135,6 +1138,8 @@ export interface TwoStepCleanerDeps {
   readonly logger?: Logger;
   readonly signal?: AbortSignal;
   readonly gameName?: string;
+  /** Optional temperature override for step 1 (default: CLEANER_CONFIG.TEMPERATURE) */
+  readonly temperature?: number;
 }
 
 /**
@@ -1199,7 +1204,7 @@ async function cleanContentOnly(
           output: Output.object({
             schema: PureCleanerOutputSchema,
           }),
-          temperature: CLEANER_CONFIG.TEMPERATURE,
+          temperature: deps.temperature ?? CLEANER_CONFIG.TEMPERATURE,
           abortSignal: signal,
           system: getPureCleanerSystemPrompt(),
           prompt: getPureCleanerUserPrompt(source, deps.gameName),
@@ -58,6 +58,8 @@ export interface EditorDeps {
    * Contains error messages to help the Editor fix issues.
    */
   readonly validationFeedback?: readonly string[];
+  /** Registered Editor prompt version (default: 'v1') */
+  readonly promptVersion?: string;
 }
 
 /**
@@ -131,10 +133,11 @@ export async function runEditor(
     topSourcesSummary,
     sourceSummariesSection,
     draftTitle: scoutOutput.queryPlan.draftTitle,
+    promptVersion: deps.promptVersion,
   };
 
   // Build prompts and log sizes for debugging
-  const systemPrompt = getEditorSystemPrompt(localeInstruction, effectiveCategorySlug);
+  const systemPrompt = getEditorSystemPrompt(localeInstruction, effectiveCategorySlug, deps.promptVersion);
   const userPrompt = getEditorUserPrompt(promptContext);
   
   log.info(`Generating article plan...`);
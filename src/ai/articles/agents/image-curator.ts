@@ -149,6 +149,8 @@ export interface ImageCuratorDeps {
   readonly generateText: typeof generateText;
   readonly logger?: Logger;
   readonly signal?: AbortSignal;
+  /** Optional temperature override (default: IMAGE_CURATOR_CONFIG.TEMPERATURE) */
+  readonly temperature?: number;
 }
 
 // ============================================================================
@@ -397,7 +399,7 @@ async function runHeroSelection(
     }),
     system: buildHeroSystemPrompt(),
     prompt: buildHeroUserPrompt(articleTitle, gameName, candidates),
-    temperature: IMAGE_CURATOR_CONFIG.TEMPERATURE,
+    temperature: deps.temperature ?? IMAGE_CURATOR_CONFIG.TEMPERATURE,
     abortSignal: signal,
   });
 
@@ -448,7 +450,7 @@ async function runSectionRelevanceScoring(
     }),
     system: buildSectionSystemPrompt(),
     prompt: buildSectionUserPrompt(gameName, sectionHeadline, sectionGoal, candidates),
-    temperature: IMAGE_CURATOR_CONFIG.TEMPERATURE,
+    temperature: deps.temperature ?? IMAGE_CURATOR_CONFIG.TEMPERATURE,
     abortSignal: signal,
   });
 
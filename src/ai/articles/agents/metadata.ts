@@ -15,6 +15,7 @@
  * - excerpt: Meta description for search engines (120-160 chars)
  * - description: Card preview for site visitors (80-150 chars)
  * - tags: Relevant topic tags (3-5)
+ * - verdict: Structured review verdict (reviews only)
  */
 
 import type { LanguageModel } from 'ai';
@@ -22,8 +23,16 @@ import { Output } from 'ai';
 import type { z } from 'zod';
 
 import { createPrefixedLogger, type Logger } from '../../../utils/logger';
-import { ArticleMetadataSchema, type ArticleCategorySlug, type ArticleMetadata } from '../article-plan';
+import {
+  ArticleMetadataSchema,
+  ReviewMetadataSchema,
+  type ArticleCategorySlug,
+  type ArticleMetadata,
+  type ReviewVerdict,
+} from '../article-plan';
 import { METADATA_CONFIG, ARTICLE_PLAN_CONSTRAINTS } from '../config';
+import { getContentH2Sections } from '../markdown-utils';
+import { buildReviewVerdictPrompt } from '../prompts/reviews/verdict';
 import { withRetry } from '../retry';
 import { createEmptyTokenUsage, createTokenUsageFromResult, type SourceSummary, type TokenUsage } from '../types';
 
@@ -66,6 +75,8 @@ export interface MetadataContext {
  */
 export interface MetadataOutput {
   readonly metadata: ArticleMetadata;
+  /** Structured verdict, for reviews only */
+  readonly verdict?: ReviewVerdict;
   readonly tokenUsage: TokenUsage;
 }
 
@@ -141,8 +152,17 @@ Title patterns by type:
 - Include category-relevant tags
 - Example: ["clair-obscur", "simon-boss", "boss-guide", "expedition-33"]
 
+${ctx.categorySlug === 'reviews' ? buildReviewVerdictPrompt(getVerdictSection(ctx.articleMarkdown)) : ''}
 === OUTPUT ===
-Return JSON with: title, excerpt, description, tags`;
+Return JSON with: title, excerpt, description, tags${ctx.categorySlug === 'reviews' ? ', verdict' : ''}`;
+}
+
+/**
+ * The last content section of a review, as markdown.
+ */
+function getVerdictSection(articleMarkdown: string): string | undefined {
+  const last = getContentH2Sections(articleMarkdown).at(-1);
+  return last ? `## ${last.heading}\n\n${last.content}` : undefined;
 }
 
 // ============================================================================
@@ -182,7 +202,8 @@ export async function runMetadata(
       : timeoutSignal;
   };
 
-  let rawMetadata: z.infer<typeof ArticleMetadataSchema>;
+  const isReview = ctx.categorySlug === 'reviews';
+  let rawMetadata: z.infer<typeof ArticleMetadataSchema> & { verdict?: ReviewVerdict };
   let generationResult: {
     usage?: { inputTokens?: number; outputTokens?: number };
     providerMetadata?: Record<string, unknown>;
@@ -196,7 +217,7 @@ export async function runMetadata(
           model: deps.model,
           temperature,
           output: Output.object({
-            schema: ArticleMetadataSchema,
+            schema: isReview ? ReviewMetadataSchema : ArticleMetadataSchema,
           }),
           system: systemPrompt,
           prompt: userPrompt,
@@ -205,7 +226,7 @@ export async function runMetadata(
       },
       { context: 'Metadata generation', signal: deps.signal }
     );
-    rawMetadata = result.output;
+    rawMetadata = result.output as typeof rawMetadata;
     generationResult = { usage: result.usage, providerMetadata: result.providerMetadata };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -227,14 +248,19 @@ export async function runMetadata(
   log.info(`  generateText completed in ${elapsed}ms`);
   log.info(`  Title: "${rawMetadata.title}" (${rawMetadata.title.length} chars)`);
   log.info(`  Tags: ${rawMetadata.tags.join(', ')}`);
+  if (rawMetadata.verdict) {
+    log.info(`  Verdict: ${rawMetadata.verdict.score}/10 (${rawMetadata.verdict.pros.length} pros, ${rawMetadata.verdict.cons.length} cons)`);
+  }
 
   // Track token usage and actual cost from OpenRouter
   const tokenUsage: TokenUsage = generationResult
     ? createTokenUsageFromResult(generationResult)
     : createEmptyTokenUsage();
 
+  const { verdict, ...metadata } = rawMetadata;
   return {
-    metadata: rawMetadata,
+    metadata,
+    ...(verdict && { verdict }),
     tokenUsage,
   };
 }
@@ -15,9 +15,11 @@ import { z } from 'zod';
 
 import { createPrefixedLogger, type Logger } from '../../../utils/logger';
 import type { ArticlePlan } from '../article-plan';
-import { REVIEWER_CONFIG } from '../config';
+import { buildCitationMap, extractCitationIds, indexCitationSources } from '../citations';
+import { CITATION_CONFIG, REVIEWER_CONFIG } from '../config';
 import { withRetry } from '../retry';
 import {
+  buildCitedClaimsForReviewer,
   buildResearchSummaryForReviewer,
   getReviewerSystemPrompt,
   getReviewerUserPrompt,
@@ -26,6 +28,7 @@ import {
   createEmptyTokenUsage,
   createTokenUsageFromResult,
   type FixStrategy,
+  type ResearchPool,
   type ScoutOutput,
   type TokenUsage,
 } from '../types';
@@ -101,6 +104,15 @@ export interface ReviewerDeps {
   readonly signal?: AbortSignal;
   /** Optional temperature override (default: REVIEWER_CONFIG.TEMPERATURE) */
   readonly temperature?: number;
+  /** Optional output token limit (default: REVIEWER_CONFIG.MAX_OUTPUT_TOKENS) */
+  readonly maxOutputTokens?: number;
+  /** Registered Reviewer prompt version (default: 'v1') */
+  readonly promptVersion?: string;
+  /**
+   * Research pool that citation markers resolve against
+   * (default: scoutOutput.researchPool). Pass the Specialist's enriched pool.
+   */
+  readonly researchPool?: ResearchPool;
 }
 
 // ============================================================================
@@ -346,6 +358,18 @@ export async function runReviewer(
     REVIEWER_CONFIG.MAX_RESEARCH_CONTEXT_LENGTH
   );
 
+  // Cited claims with their sources' evidence, for a per-claim accuracy check
+  const researchPool = deps.researchPool ?? scoutOutput.researchPool;
+  const citedClaims =
+    researchPool && extractCitationIds(truncatedMarkdown).length > 0
+      ? buildCitedClaimsForReviewer(
+          buildCitationMap(truncatedMarkdown, researchPool),
+          indexCitationSources(researchPool),
+          CITATION_CONFIG.MAX_REVIEW_CLAIMS,
+          CITATION_CONFIG.REVIEW_SOURCE_EXCERPT_LENGTH
+        )
+      : '';
+
   // Create a plan-like object with the extracted title for prompt context
   // This maintains backwards compatibility with prompts that expect plan.title
   const planWithTitle = {
@@ -357,8 +381,10 @@ export async function runReviewer(
     plan: planWithTitle,
     markdown: truncatedMarkdown,
     researchSummary,
+    citedClaims,
     categorySlug: plan.categorySlug,
     sourceSummaries: scoutOutput.sourceSummaries,
+    promptVersion: deps.promptVersion,
   };
 
   log.debug('Executing review with AI model...');
@@ -371,8 +397,8 @@ export async function runReviewer(
           schema: ReviewerOutputSchema,
         }),
         temperature,
-        maxOutputTokens: REVIEWER_CONFIG.MAX_OUTPUT_TOKENS,
-        system: getReviewerSystemPrompt(plan.categorySlug),
+        maxOutputTokens: deps.maxOutputTokens ?? REVIEWER_CONFIG.MAX_OUTPUT_TOKENS,
+        system: getReviewerSystemPrompt(plan.categorySlug, deps.promptVersion),
         prompt: getReviewerUserPrompt(promptContext),
       }),
     { context: 'Reviewer analysis', signal: deps.signal }
@@ -22,7 +22,8 @@ import type { LanguageModel } from 'ai';
 
 import { createPrefixedLogger, type Logger } from '../../../utils/logger';
 import { exaSearch, isExaConfigured, type ExaSearchOptions } from '../../tools/exa';
-import { SCOUT_CONFIG } from '../config';
+import { BUDGET_CONFIG, SCOUT_CONFIG } from '../config';
+import { chargeExaSearch, isBudgetExceededError, type CostBudget } from '../cost-budget';
 import {
   runScoutQueryPlanner,
   generateFallbackQueryPlan,
@@ -124,6 +125,12 @@ export interface ScoutDeps {
    * and cached in the database for future reuse.
    */
   readonly cleaningDeps?: CleaningDeps;
+  /**
+   * Optional cost budget. Exa searches are charged to it, and the query plan
+   * is trimmed to the queries that fit in BUDGET_CONFIG.SCOUT_MAX_SHARE.
+   * (LLM and Tavily calls are budgeted through the injected functions.)
+   */
+  readonly costBudget?: CostBudget;
 }
 
 // ============================================================================
@@ -163,6 +170,8 @@ export interface ExecuteExaSearchOptions {
   readonly signal?: AbortSignal;
   /** Optional cleaning dependencies for content cleaning and caching */
   readonly cleaningDeps?: CleaningDeps;
+  /** Optional cost budget the search is charged to */
+  readonly costBudget?: CostBudget;
 }
 
 /**
@@ -281,7 +290,7 @@ export async function executeExaSearch(
   };
 
   const result = await withRetry(
-    () => exaSearch(query, exaOptions),
+    () => chargeExaSearch(options.costBudget, () => exaSearch(query, exaOptions)),
     { context: `Scout Exa search (${category}): "${query.slice(0, 40)}..."`, signal: options.signal }
   );
 
@@ -665,7 +674,7 @@ export async function runScout(
           discoverySearchResult = await executeExaSearch(
             discoveryCheck.discoveryQuery,
             'overview',
-            { numResults: 5, signal, cleaningDeps: cleaningDepsWithTracker }
+            { numResults: 5, signal, cleaningDeps: cleaningDepsWithTracker, costBudget: deps.costBudget }
           );
         } else {
           discoverySearchResult = await executeSearch(
@@ -696,6 +705,7 @@ export async function runScout(
       
       log.info(`Query plan: "${queryPlan.draftTitle}" with ${queryPlan.queries.length} queries`);
     } catch (error) {
+      if (isBudgetExceededError(error)) throw error;
       const message = error instanceof Error ? error.message : String(error);
       log.warn(`Query planner failed, using fallback: ${message}`);
       queryPlan = generateFallbackQueryPlan(context);
@@ -705,6 +715,19 @@ export async function runScout(
     queryPlan = generateFallbackQueryPlan(context);
   }
 
+  // Trim the plan to what the cost budget allows (planned order is priority order)
+  if (deps.costBudget) {
+    const affordable = Math.max(
+      BUDGET_CONFIG.MIN_SCOUT_QUERIES,
+      deps.costBudget.affordableCount(BUDGET_CONFIG.ESTIMATED_QUERY_COST_USD, BUDGET_CONFIG.SCOUT_MAX_SHARE)
+    );
+    if (queryPlan.queries.length > affordable) {
+      log.warn(`Cost budget: running ${affordable} of ${queryPlan.queries.length} planned queries`);
+      queryPlan = { ...queryPlan, queries: queryPlan.queries.slice(0, affordable) };
+      deps.costBudget.degrade('fewer-queries');
+    }
+  }
+
   // Separate queries by engine
   const tavilyQueries = queryPlan.queries.filter(q => q.engine === 'tavily');
   const exaQueries = queryPlan.queries.filter(q => q.engine === 'exa');
@@ -770,6 +793,7 @@ export async function runScout(
             numResults: SCOUT_CONFIG.EXA_SEARCH_RESULTS,
             signal,
             cleaningDeps: cleaningDepsWithTracker,
+            costBudget: deps.costBudget,
           })
         )
       )
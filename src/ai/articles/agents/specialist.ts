@@ -17,9 +17,11 @@ import { createPrefixedLogger, type Logger } from '../../../utils/logger';
 import { exaSearch, isExaConfigured, type ExaSearchOptions } from '../../tools/exa';
 import type { ArticlePlan, ArticleSectionPlan } from '../article-plan';
 import { SPECIALIST_CONFIG } from '../config';
+import { chargeExaSearch, isBudgetExceededError, type CostBudget } from '../cost-budget';
 import { sleep, withRetry } from '../retry';
 import {
   buildResearchContext,
+  buildSourceSummaryMarkers,
   getCategoryToneGuide,
   getSpecialistSectionUserPrompt,
   getSpecialistSystemPrompt,
@@ -87,6 +89,10 @@ export interface SpecialistDeps {
   readonly signal?: AbortSignal;
   /** Optional temperature override (default: SPECIALIST_CONFIG.TEMPERATURE) */
   readonly temperature?: number;
+  /** Optional output token limit per section (default: SPECIALIST_CONFIG.MAX_OUTPUT_TOKENS_PER_SECTION) */
+  readonly maxOutputTokensPerSection?: number;
+  /** Registered Specialist prompt version (default: 'v1') */
+  readonly promptVersion?: string;
   /**
    * Target word count for the article.
    * Used to dynamically adjust paragraph counts per section.
@@ -98,6 +104,11 @@ export interface SpecialistDeps {
    * and cached in the database for future reuse.
    */
   readonly cleaningDeps?: CleaningDeps;
+  /**
+   * Optional cost budget Exa searches are charged to.
+   * (LLM and Tavily calls are budgeted through the injected functions.)
+   */
+  readonly costBudget?: CostBudget;
 }
 
 export interface SpecialistOutput {
@@ -216,8 +227,8 @@ async function executeSingleSearch(
       filteredSources: [],
     };
   } catch (error) {
-    // Re-throw if cancelled - we don't want to gracefully degrade cancellation
-    if (signal?.aborted) {
+    // Re-throw if cancelled or over budget - we don't want to gracefully degrade those
+    if (signal?.aborted || isBudgetExceededError(error)) {
       throw error;
     }
 
@@ -247,6 +258,7 @@ async function executeSingleSearch(
  * @param log - Logger for warnings
  * @param gracefulDegradation - If true, returns failure info instead of throwing
  * @param cleaningDeps - Optional cleaning dependencies for content cleaning
+ * @param costBudget - Optional cost budget the search is charged to
  * @returns Search result
  */
 async function executeSingleExaSearch(
@@ -254,7 +266,8 @@ async function executeSingleExaSearch(
   signal?: AbortSignal,
   log?: Logger,
   gracefulDegradation = false,
-  cleaningDeps?: CleaningDeps
+  cleaningDeps?: CleaningDeps,
+  costBudget?: CostBudget
 ): Promise<SearchOperationResult> {
   // Use Exa-specific exclusions if available (includes engine-specific scrape failures),
   // fallback to generic excludedDomains, then to static config list
@@ -273,7 +286,7 @@ async function executeSingleExaSearch(
     };
 
     const result = await withRetry(
-      () => exaSearch(query, exaOptions),
+      () => chargeExaSearch(costBudget, () => exaSearch(query, exaOptions)),
       { context: `Specialist Exa search: "${query.slice(0, 50)}..."`, signal }
     );
 
@@ -318,8 +331,8 @@ async function executeSingleExaSearch(
       filteredSources: [],
     };
   } catch (error) {
-    // Re-throw if cancelled
-    if (signal?.aborted) {
+    // Re-throw if cancelled or over budget
+    if (signal?.aborted || isBudgetExceededError(error)) {
       throw error;
     }
 
@@ -395,6 +408,8 @@ interface BatchResearchOptions {
   readonly useExaForSemanticQueries?: boolean;
   /** Optional cleaning dependencies for content cleaning and caching */
   readonly cleaningDeps?: CleaningDeps;
+  /** Optional cost budget Exa searches are charged to */
+  readonly costBudget?: CostBudget;
 }
 
 /**
@@ -416,7 +431,7 @@ async function batchResearchForSections(
   log: Logger,
   options?: BatchResearchOptions
 ): Promise<BatchResearchResult> {
-  const { signal, onProgress, useExaForSemanticQueries, cleaningDeps } = options ?? {};
+  const { signal, onProgress, useExaForSemanticQueries, cleaningDeps, costBudget } = options ?? {};
   // Collect ALL research queries from all sections
   const allQueries = plan.sections.flatMap((section) => section.researchQueries);
 
@@ -584,7 +599,7 @@ async function batchResearchForSections(
         `queries ${batchStart + 1}-${batchEnd} of ${exaQueries.length}`
     );
 
-    await processBatch(batch, (query) => executeSingleExaSearch(query, signal, log, true, cleaningDeps), true);
+    await processBatch(batch, (query) => executeSingleExaSearch(query, signal, log, true, cleaningDeps, costBudget), true);
 
     if (batchDelay > 0 && batchEnd < exaQueries.length) {
       await sleep(batchDelay);
@@ -687,7 +702,7 @@ async function writeSection(
   section: ArticleSectionPlan,
   sectionIndex: number,
   enrichedPool: ResearchPool,
-  deps: Pick<SpecialistDeps, 'generateText' | 'model' | 'logger' | 'signal' | 'temperature'>,
+  deps: Pick<SpecialistDeps, 'generateText' | 'model' | 'logger' | 'signal' | 'temperature' | 'maxOutputTokensPerSection' | 'promptVersion'>,
   previousContext: string,
   options: WriteSectionOptions
 ): Promise<WriteSectionResult> {
@@ -730,12 +745,16 @@ async function writeSection(
     isFirst,
     isLast,
     previousContext,
-    researchContext: researchResult.context,
+    // Markers let the Specialist cite the source summaries as well as the research results
+    researchContext: [researchResult.context, buildSourceSummaryMarkers(scoutOutput.sourceSummaries)]
+      .filter(Boolean)
+      .join('\n\n'),
     isThinResearch,
     researchContentLength,
     crossReferenceContext: options.crossReferenceContext,
     mustCover: section.mustCover,
     sourceSummaries: scoutOutput.sourceSummaries,
+    promptVersion: deps.promptVersion,
   };
 
   log.debug(`Writing section ${sectionIndex + 1}/${plan.sections.length}: ${section.headline}`);
@@ -745,8 +764,8 @@ async function writeSection(
       deps.generateText({
         model: deps.model,
         temperature,
-        maxOutputTokens: SPECIALIST_CONFIG.MAX_OUTPUT_TOKENS_PER_SECTION,
-        system: getSpecialistSystemPrompt(localeInstruction, categoryToneGuide, plan.categorySlug),
+        maxOutputTokens: deps.maxOutputTokensPerSection ?? SPECIALIST_CONFIG.MAX_OUTPUT_TOKENS_PER_SECTION,
+        system: getSpecialistSystemPrompt(localeInstruction, categoryToneGuide, plan.categorySlug, deps.promptVersion),
         prompt: getSpecialistSectionUserPrompt(
           sectionContext,
           plan,
@@ -807,7 +826,7 @@ export async function runSpecialist(
     scoutOutput.researchPool,
     deps.search,
     log,
-    { signal, onProgress: deps.onResearchProgress, useExaForSemanticQueries, cleaningDeps }
+    { signal, onProgress: deps.onResearchProgress, useExaForSemanticQueries, cleaningDeps, costBudget: deps.costBudget }
   );
 
   if (successCount > 0 || failureCount > 0) {
@@ -826,6 +845,8 @@ export async function runSpecialist(
     logger: deps.logger,
     signal,
     temperature: deps.temperature,
+    maxOutputTokensPerSection: deps.maxOutputTokensPerSection,
+    promptVersion: deps.promptVersion,
   };
 
   if (parallelSections) {
@@ -966,6 +987,10 @@ export interface SingleSectionDeps {
   readonly signal?: AbortSignal;
   /** Optional temperature override (default: SPECIALIST_CONFIG.TEMPERATURE) */
   readonly temperature?: number;
+  /** Optional output token limit per section (default: SPECIALIST_CONFIG.MAX_OUTPUT_TOKENS_PER_SECTION) */
+  readonly maxOutputTokensPerSection?: number;
+  /** Registered Specialist prompt version (default: 'v1') */
+  readonly promptVersion?: string;
 }
 
 /**
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-import { ARTICLE_PLAN_CONSTRAINTS } from './config';
+import { ARTICLE_PLAN_CONSTRAINTS, REVIEW_VERDICT_CONFIG } from './config';
 
 // Re-export for consumers that import from article-plan
 export { ARTICLE_PLAN_CONSTRAINTS } from './config';
@@ -111,6 +111,45 @@ export const ArticleMetadataSchema = z.object({
  */
 export type ArticleMetadata = z.infer<typeof ArticleMetadataSchema>;
 
+// ============================================================================
+// Review Verdict Schema (generated by Metadata Agent for reviews)
+// ============================================================================
+
+const verdictItem = z.string().min(1).max(REVIEW_VERDICT_CONFIG.ITEM_MAX_LENGTH);
+
+/**
+ * Structured verdict of a review, rendered as the verdict box and used to
+ * aggregate our scores per game. The score must match the one the article
+ * states (validation checks it against the body text).
+ */
+export const ReviewVerdictSchema = z.object({
+  /** Score out of REVIEW_VERDICT_CONFIG.SCORE_MAX, in steps of 0.5 */
+  score: z
+    .number()
+    .min(0)
+    .max(REVIEW_VERDICT_CONFIG.SCORE_MAX)
+    .refine((score) => Number.isInteger(score * 2), 'Score must be a multiple of 0.5'),
+  /** One-sentence verdict */
+  summary: z.string().min(REVIEW_VERDICT_CONFIG.SUMMARY_MIN_LENGTH).max(REVIEW_VERDICT_CONFIG.SUMMARY_MAX_LENGTH),
+  pros: z.array(verdictItem).min(REVIEW_VERDICT_CONFIG.MIN_PROS).max(REVIEW_VERDICT_CONFIG.MAX_PROS),
+  cons: z.array(verdictItem).min(REVIEW_VERDICT_CONFIG.MIN_CONS).max(REVIEW_VERDICT_CONFIG.MAX_CONS),
+  /** Who should play it ("you loved Hollow Knight's exploration") */
+  playItIf: z.array(verdictItem).min(REVIEW_VERDICT_CONFIG.MIN_PLAY_IT_IF).max(REVIEW_VERDICT_CONFIG.MAX_PLAY_IT_IF),
+  /** Per-platform notes (performance, exclusive content), only for platforms the article covers */
+  platformNotes: z
+    .array(z.object({ platform: z.string().min(1).max(60), note: verdictItem }))
+    .max(REVIEW_VERDICT_CONFIG.MAX_PLATFORM_NOTES),
+});
+
+export type ReviewVerdict = z.infer<typeof ReviewVerdictSchema>;
+
+/**
+ * Metadata Agent output for reviews: the usual metadata plus the verdict.
+ */
+export const ReviewMetadataSchema = ArticleMetadataSchema.extend({
+  verdict: ReviewVerdictSchema,
+});
+
 // ============================================================================
 // Article Plan Schema
 // ============================================================================
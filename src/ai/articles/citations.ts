@@ -0,0 +1,254 @@
+/**
+ * Inline Citations
+ *
+ * Links article claims to the research sources they came from. The Specialist
+ * (and the Fixer, when it rewrites sections) places a marker such as
+ * `[^src-1a2b3c4d]` after each sentence drawn from a source. Marker IDs are
+ * derived from the normalized source URL, so the same source gets the same
+ * marker in every section and on every run.
+ *
+ * Markers stay in the stored article (the frontend renders them as footnotes)
+ * and are resolved into a claim-to-source map saved alongside the post.
+ * They are stripped wherever plain prose is needed (metadata, audio, validation).
+ */
+
+import { createHash } from 'node:crypto';
+
+import { CITATION_CONFIG } from './config';
+import { getContentH2Sections } from './markdown-utils';
+import type { CategorizedSearchResult, ResearchPool, SearchResultItem } from './types';
+import { normalizeUrl } from './utils/url-utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A research source that article claims can cite.
+ */
+export interface CitationSource {
+  /** Marker ID (`src-` + 8 hex chars) */
+  readonly id: string;
+  readonly url: string;
+  readonly title: string;
+}
+
+/**
+ * One sentence of the article and the sources it cites.
+ */
+export interface CitedClaim {
+  /** Section headline */
+  readonly section: string;
+  /** Sentence text without markers */
+  readonly text: string;
+  readonly sourceIds: readonly string[];
+}
+
+/**
+ * Claim-to-source map for an article.
+ */
+export interface CitationMap {
+  /** Sources cited at least once, in order of first citation */
+  readonly sources: readonly CitationSource[];
+  readonly claims: readonly CitedClaim[];
+  /** Marker IDs that matched no known source */
+  readonly unresolvedIds: readonly string[];
+}
+
+/**
+ * A factual sentence without a citation.
+ */
+export interface UnsupportedClaim {
+  readonly section: string;
+  readonly text: string;
+}
+
+// ============================================================================
+// Markers
+// ============================================================================
+
+const MARKER_SOURCE = String.raw`\[\^(src-[0-9a-f]{8})\]`;
+
+/** Sentence boundary: end punctuation (plus closing quotes/emphasis and markers) followed by whitespace */
+const SENTENCE_BOUNDARY = new RegExp(String.raw`(?<=[.!?]["'”’*_)]*(?: ?\[\^src-[0-9a-f]{8}\])*)\s+(?!\[\^src-)`);
+
+/** Wording that marks a sentence as reported fact even without numbers */
+const REPORTING_PATTERN = /\b(announced|confirmed|revealed|reported|according to|released|launched|patched|priced)\b/i;
+
+/**
+ * Returns the stable citation ID for a source URL.
+ */
+export function getCitationId(url: string): string {
+  const key = normalizeUrl(url) ?? url;
+  return `src-${createHash('sha256').update(key).digest('hex').slice(0, 8)}`;
+}
+
+/**
+ * Formats the inline marker for a citation ID.
+ */
+export function formatCitationMarker(id: string): string {
+  return `[^${id}]`;
+}
+
+/**
+ * Lists the citation IDs in text, in order, without duplicates.
+ */
+export function extractCitationIds(text: string): string[] {
+  return [...new Set([...text.matchAll(new RegExp(MARKER_SOURCE, 'g'))].map((match) => match[1]))];
+}
+
+/**
+ * Removes citation markers (and the space before a marker, if any).
+ */
+export function stripCitationMarkers(markdown: string): string {
+  return markdown.replace(new RegExp(String.raw` ?${MARKER_SOURCE}`, 'g'), '');
+}
+
+/**
+ * Splits a prose block into sentences. Markers stay with their sentence.
+ */
+function splitSentences(block: string): string[] {
+  return block
+    .split(SENTENCE_BOUNDARY)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Splits section content into prose sentences, skipping headings, images and tables.
+ */
+function getProseSentences(content: string): string[] {
+  return content
+    .split(/\n\s*\n|\n(?=\s*(?:[-*+]|\d+\.|>)\s)/)
+    .map((block) => block.replace(/^\s*(?:[-*+]|\d+\.|>)\s+/gm, '').replace(/\s*\n\s*/g, ' ').trim())
+    .filter((block) => block && !/^(#{1,6}\s|!\[|\|)/.test(block))
+    .flatMap(splitSentences);
+}
+
+/**
+ * Plain sentence text: markers and emphasis removed.
+ */
+function toClaimText(sentence: string): string {
+  return stripCitationMarkers(sentence).replace(/\*\*|__|\*/g, '').trim();
+}
+
+/**
+ * Whether a sentence states a checkable fact (numbers, dates, reported events).
+ */
+export function isFactualSentence(text: string): boolean {
+  if (text.endsWith('?')) return false;
+  if (text.split(/\s+/).length < CITATION_CONFIG.MIN_CLAIM_WORDS) return false;
+  return /\d/.test(text) || REPORTING_PATTERN.test(text);
+}
+
+/**
+ * Puts back markers the new content dropped from sentences it kept verbatim.
+ *
+ * Rewrites often copy unchanged sentences without their markers. Every cited
+ * sentence of the previous content that appears unchanged (minus markers) in
+ * the new content gets its markers back. Rewritten sentences are left alone.
+ */
+export function restoreCitationMarkers(previousContent: string, newContent: string): string {
+  let restored = newContent;
+
+  for (const sentence of getProseSentences(previousContent)) {
+    const ids = extractCitationIds(sentence);
+    if (ids.length === 0) continue;
+
+    const prose = stripCitationMarkers(sentence);
+    const index = restored.indexOf(prose);
+    if (index === -1) continue;
+
+    const end = index + prose.length;
+    if (restored.startsWith('[^', end) || restored.startsWith(' [^', end)) continue;
+
+    restored = restored.slice(0, end) + ids.map(formatCitationMarker).join('') + restored.slice(end);
+  }
+
+  return restored;
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+function collectPoolResults(pool: ResearchPool): SearchResultItem[] {
+  const groups: CategorizedSearchResult[] = [
+    ...pool.scoutFindings.overview,
+    ...pool.scoutFindings.categorySpecific,
+    ...pool.scoutFindings.recent,
+    ...pool.queryCache.values(),
+  ];
+  return groups.flatMap((group) => group.results);
+}
+
+/**
+ * Indexes the research pool by citation ID.
+ */
+export function indexCitationSources(pool: ResearchPool): Map<string, SearchResultItem> {
+  const index = new Map<string, SearchResultItem>();
+  for (const result of collectPoolResults(pool)) {
+    const id = getCitationId(result.url);
+    if (!index.has(id)) index.set(id, result);
+  }
+  return index;
+}
+
+/**
+ * Builds the claim-to-source map for an article.
+ * Sources without a title fall back to their URL.
+ *
+ * @param markdown - Article markdown with citation markers
+ * @param pool - Research pool the markers resolve against
+ * @param knownSources - Sources from an earlier map (e.g. before a refresh) that may still be cited
+ */
+export function buildCitationMap(
+  markdown: string,
+  pool: ResearchPool,
+  knownSources: readonly CitationSource[] = []
+): CitationMap {
+  const poolIndex = indexCitationSources(pool);
+  const knownIndex = new Map(knownSources.map((source) => [source.id, source]));
+
+  const claims: CitedClaim[] = [];
+  const sources = new Map<string, CitationSource>();
+  const unresolved = new Set<string>();
+
+  for (const section of getContentH2Sections(markdown)) {
+    for (const sentence of getProseSentences(section.content)) {
+      const sourceIds = extractCitationIds(sentence);
+      if (sourceIds.length === 0) continue;
+
+      claims.push({ section: section.heading, text: toClaimText(sentence), sourceIds });
+      for (const id of sourceIds) {
+        if (sources.has(id) || unresolved.has(id)) continue;
+        const result = poolIndex.get(id);
+        const source = result
+          ? { id, url: normalizeUrl(result.url) ?? result.url, title: result.title || result.url }
+          : knownIndex.get(id);
+        if (source) {
+          sources.set(id, source);
+        } else {
+          unresolved.add(id);
+        }
+      }
+    }
+  }
+
+  return { sources: [...sources.values()], claims, unresolvedIds: [...unresolved] };
+}
+
+/**
+ * Lists factual sentences that cite no source.
+ */
+export function findUnsupportedClaims(markdown: string): UnsupportedClaim[] {
+  const unsupported: UnsupportedClaim[] = [];
+  for (const section of getContentH2Sections(markdown)) {
+    for (const sentence of getProseSentences(section.content)) {
+      if (extractCitationIds(sentence).length > 0) continue;
+      const text = toClaimText(sentence);
+      if (isFactualSentence(text)) unsupported.push({ section: section.heading, text });
+    }
+  }
+  return unsupported;
+}
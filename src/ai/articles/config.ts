@@ -679,6 +679,115 @@ export const FIXER_CONFIG = {
   STRATEGY_PRIORITY: ['regenerate', 'add_section', 'inline_insert', 'direct_edit', 'expand'] as const,
 } as const;
 
+// ============================================================================
+// Refresh Configuration (Updating Existing Articles)
+// ============================================================================
+
+export const REFRESH_CONFIG = {
+  /**
+   * Reviewer issue categories that justify touching a section during a refresh.
+   * Style/SEO nits are left alone so a refresh only changes what went stale.
+   */
+  ISSUE_CATEGORIES: ['factual', 'coverage'] as const,
+  /**
+   * Maximum number of sections changed in one refresh.
+   * Keeps a refresh a focused update rather than a rewrite.
+   */
+  MAX_SECTION_UPDATES: 4,
+  /**
+   * Look-back window (days) when the post has no aiGeneratedAt timestamp.
+   */
+  DEFAULT_LOOKBACK_DAYS: 90,
+} as const;
+
+// ============================================================================
+// Citation Configuration (Inline Source Markers)
+// ============================================================================
+
+export const CITATION_CONFIG = {
+  /**
+   * Minimum words for a sentence to count as a claim.
+   * Shorter sentences are hooks and transitions, not checkable facts.
+   */
+  MIN_CLAIM_WORDS: 6,
+  /** Unsupported sentences quoted in the validation warning */
+  MAX_UNSUPPORTED_IN_WARNING: 3,
+  /** Cited claims listed in the Reviewer prompt */
+  MAX_REVIEW_CLAIMS: 40,
+  /** Evidence excerpt per cited source in the Reviewer prompt (chars) */
+  REVIEW_SOURCE_EXCERPT_LENGTH: 600,
+} as const;
+
+// ============================================================================
+// Internal Linking Configuration (Related Posts and Link Weaving)
+// ============================================================================
+
+export const INTERNAL_LINK_CONFIG = {
+  /** Maximum related posts stored on a post */
+  MAX_RELATED_POSTS: 5,
+  /**
+   * Minimum score for a related post.
+   * One shared game or franchise qualifies; a shared category alone does not.
+   */
+  MIN_RELATED_SCORE: 3,
+  /** Score per shared signal */
+  SCORE_WEIGHTS: {
+    game: 5,
+    franchise: 3,
+    tag: 2,
+    category: 1,
+  },
+  /** Published posts considered per run (most recent first) */
+  MAX_CANDIDATES: 200,
+  /**
+   * Maximum internal links woven into one article.
+   * Links to posts and game pages share this budget.
+   */
+  MAX_LINKS: 5,
+  /** Maximum internal links per section, so links spread through the article */
+  MAX_LINKS_PER_SECTION: 1,
+  /** Anchors shorter than this (chars) are ignored - too likely to match by accident */
+  MIN_ANCHOR_LENGTH: 4,
+} as const;
+
+// ============================================================================
+// Review Verdict Configuration (Structured Verdict for Reviews)
+// ============================================================================
+
+export const REVIEW_VERDICT_CONFIG = {
+  /** Review scores are out of 10, in steps of 0.5 */
+  SCORE_MAX: 10,
+  /** One-sentence verdict shown at the top of the verdict box (chars) */
+  SUMMARY_MIN_LENGTH: 20,
+  SUMMARY_MAX_LENGTH: 200,
+  /** Max length of a pro, con, "play it if" or platform note (chars) */
+  ITEM_MAX_LENGTH: 160,
+  MIN_PROS: 2,
+  MAX_PROS: 5,
+  MIN_CONS: 1,
+  MAX_CONS: 5,
+  MIN_PLAY_IT_IF: 1,
+  MAX_PLAY_IT_IF: 3,
+  MAX_PLATFORM_NOTES: 6,
+  /**
+   * Largest gap between the verdict score and the score stated in the
+   * article before validation fails (score points out of 10).
+   */
+  MAX_STATED_SCORE_DIFF: 0.5,
+  /**
+   * Tone check: the article's tone (-1 = all criticism, 1 = all praise,
+   * from a praise/criticism word count) is compared with the score.
+   * Praise above HIGH_TONE with a score at or below LOW_SCORE, or criticism
+   * below LOW_TONE with a score at or above HIGH_SCORE, is flagged.
+   */
+  HIGH_TONE: 0.4,
+  LOW_TONE: -0.2,
+  LOW_SCORE: 5,
+  HIGH_SCORE: 8,
+  /** Praise/criticism words needed before the tone is judged at all */
+  MIN_TONE_WORDS: 8,
+} as const;
+
 // ============================================================================
 // Image Curator Agent Configuration (Autonomous Image Selection)
 // ============================================================================
@@ -987,15 +1096,57 @@ export const TTS_CONFIG = {
    * Useful for debugging or emergency shutoff if API is down.
    */
   ENABLED: process.env.TTS_ENABLED !== 'false',
+  /**
+   * Default TTS provider ('inworld' or 'silent').
+   * 'silent' runs offline and produces silent MP3s with evenly spaced word
+   * timestamps - useful for tests and local development.
+   */
+  DEFAULT_PROVIDER: process.env.TTS_PROVIDER || 'inworld',
+  /**
+   * Per-locale provider overrides, e.g. TTS_PROVIDER_BY_LOCALE="es:silent".
+   * Locales not listed use DEFAULT_PROVIDER.
+   */
+  PROVIDER_BY_LOCALE: Object.fromEntries(
+    (process.env.TTS_PROVIDER_BY_LOCALE ?? '')
+      .split(',')
+      .map((entry) => entry.split(':').map((part) => part.trim()))
+      .filter(([locale, provider]) => locale && provider)
+  ) as Readonly<Record<string, string>>,
   /**
    * Inworld TTS API endpoint.
    */
   API_URL: 'https://api.inworld.ai/tts/v1/voice',
+  /**
+   * Inworld voice catalogue endpoint.
+   */
+  VOICES_API_URL: 'https://api.inworld.ai/tts/v1/voices',
+  /**
+   * Speech rate used by the silent provider to space fake word timestamps.
+   */
+  SILENT_WORDS_PER_MINUTE: 150,
   /**
    * Default voice ID for Inworld AI TTS.
    * Dennis is a natural-sounding male voice suitable for gaming content.
    */
   DEFAULT_VOICE_ID: 'Dennis',
+  /**
+   * Inworld voice per content locale, used for translated narration.
+   * Override with TTS_VOICE_BY_LOCALE="es:Lupita,fr:Hélène".
+   * Locales not listed use DEFAULT_VOICE_ID.
+   */
+  VOICE_BY_LOCALE: {
+    en: 'Dennis',
+    es: 'Diego',
+    fr: 'Alain',
+    de: 'Josef',
+    'pt-BR': 'Heitor',
+    ...Object.fromEntries(
+      (process.env.TTS_VOICE_BY_LOCALE ?? '')
+        .split(',')
+        .map((entry) => entry.split(':').map((part) => part.trim()))
+        .filter(([locale, voice]) => locale && voice)
+    ),
+  } as Readonly<Record<string, string>>,
   /**
    * Default model ID for Inworld AI TTS.
    * inworld-tts-1-max is the highest quality model.
@@ -1021,6 +1172,15 @@ export const TTS_CONFIG = {
    * Initial retry delay in milliseconds.
    */
   RETRY_DELAY_MS: 1000,
+  /**
+   * Maximum characters per caption cue (two 42-character lines).
+   * Cues also break at sentence ends.
+   */
+  CAPTION_MAX_CHARS: 84,
+  /**
+   * Maximum duration of a caption cue in seconds.
+   */
+  CAPTION_MAX_SECONDS: 7,
 } as const;
 
 // ============================================================================
@@ -1147,6 +1307,11 @@ export const CLEANER_CONFIG = {
    * 0.70 = exclude if >70% of attempts fail.
    */
   SCRAPE_FAILURE_RATE_THRESHOLD: 0.70,
+  /**
+   * Recomputes kept in a domain's score history (oldest dropped first).
+   * A snapshot is only added when the computed values change.
+   */
+  DOMAIN_SCORE_HISTORY_LIMIT: 50,
   /**
    * Maximum input characters to process.
    * Skip processing huge pages to save costs.
@@ -1232,6 +1397,47 @@ export const CLEANER_CONFIG = {
   } as const,
 } as const;
 
+// ============================================================================
+// Source Cache Retention Configuration
+// ============================================================================
+
+export const SOURCE_CACHE_CONFIG = {
+  /**
+   * Days a cached source stays fresh, by content type.
+   * contentType is free text from the cleaner ("news article", "strategy guide"),
+   * so each entry is a case-insensitive substring match; the first match wins.
+   * Stale hits are re-cleaned when the search returned fresh content for the URL,
+   * otherwise the stale copy is still used.
+   */
+  TTL_DAYS_BY_CONTENT_TYPE: [
+    { match: 'patch', ttlDays: 14 },
+    { match: 'news', ttlDays: 14 },
+    { match: 'announcement', ttlDays: 14 },
+    { match: 'tier list', ttlDays: 30 },
+    { match: 'build', ttlDays: 45 },
+    { match: 'walkthrough', ttlDays: 180 },
+    { match: 'review', ttlDays: 365 },
+    { match: 'guide', ttlDays: 90 },
+    { match: 'wiki', ttlDays: 90 },
+  ] as const,
+  /** TTL for content types without a matching entry */
+  DEFAULT_TTL_DAYS: 90,
+  /**
+   * Cleanup: rows not accessed for this many days are candidates.
+   * Rows never accessed count from their creation date.
+   */
+  CLEANUP_MIN_IDLE_DAYS: 60,
+  /** Cleanup: only rows used at most this many times are removed */
+  CLEANUP_MAX_ACCESS_COUNT: 2,
+  /**
+   * Cleanup: only rows scoring below this are removed.
+   * Matches MIN_QUALITY_FOR_RESULTS - these rows are never given to the LLM anyway.
+   */
+  CLEANUP_MAX_QUALITY_SCORE: 35,
+  /** Cleanup: maximum rows removed per run */
+  CLEANUP_BATCH_SIZE: 500,
+} as const;
+
 // ============================================================================
 // Retry Configuration
 // ============================================================================
@@ -1264,6 +1470,39 @@ export const GENERATOR_CONFIG = {
   SPECIALIST_PROGRESS_END: 90,
 } as const;
 
+// ============================================================================
+// Cost Budget Configuration
+// ============================================================================
+
+/**
+ * Settings for runs with a `maxCostUsd` budget.
+ * Projections are deliberately rough: they decide whether the next call can
+ * still fit, while actual costs are recorded from API responses.
+ */
+export const BUDGET_CONFIG = {
+  /**
+   * Share of the budget after which the run degrades
+   * (fewer Scout queries, no Reviewer, capped Fixer, no images).
+   */
+  DEGRADE_AT_RATIO: 0.8,
+  /** Share of the budget the Scout search plan may use */
+  SCOUT_MAX_SHARE: 0.4,
+  /** Minimum Scout queries kept when trimming the plan */
+  MIN_SCOUT_QUERIES: 2,
+  /** Projected cost of one research query including cleaning (USD) */
+  ESTIMATED_QUERY_COST_USD: 0.02,
+  /** Projected cost of one Exa search when the response has no cost (USD) */
+  EXA_SEARCH_COST_USD: 0.015,
+  /** Projected cost of the image phase (USD) */
+  ESTIMATED_IMAGE_PHASE_COST_USD: 0.02,
+  /** Output tokens assumed for LLM calls without maxOutputTokens */
+  DEFAULT_OUTPUT_TOKENS: 2000,
+  /** Characters per token when estimating prompt size */
+  CHARS_PER_TOKEN: 4,
+  /** Prompt size assumed for phases that read the research pool (chars) */
+  RESEARCH_PROMPT_CHARS: 40000,
+} as const;
+
 // ============================================================================
 // Model Pricing Configuration
 // ============================================================================
@@ -1370,10 +1609,15 @@ export const CONFIG = {
   specialist: SPECIALIST_CONFIG,
   reviewer: REVIEWER_CONFIG,
   fixer: FIXER_CONFIG,
+  refresh: REFRESH_CONFIG,
+  citation: CITATION_CONFIG,
+  internalLinks: INTERNAL_LINK_CONFIG,
+  reviewVerdict: REVIEW_VERDICT_CONFIG,
   tts: TTS_CONFIG,
   cleaner: CLEANER_CONFIG,
   retry: RETRY_CONFIG,
   generator: GENERATOR_CONFIG,
+  budget: BUDGET_CONFIG,
   seo: SEO_CONSTRAINTS,
 } as const;
 
@@ -1464,6 +1708,10 @@ function validateConfiguration(): void {
   validatePositive(FIXER_CONFIG.MAX_FIXES_PER_ITERATION, 'FIXER_CONFIG.MAX_FIXES_PER_ITERATION');
   validatePositive(FIXER_CONFIG.MAX_OUTPUT_TOKENS_SMART_FIX, 'FIXER_CONFIG.MAX_OUTPUT_TOKENS_SMART_FIX');
 
+  // Refresh Config
+  validatePositive(REFRESH_CONFIG.MAX_SECTION_UPDATES, 'REFRESH_CONFIG.MAX_SECTION_UPDATES');
+  validatePositive(REFRESH_CONFIG.DEFAULT_LOOKBACK_DAYS, 'REFRESH_CONFIG.DEFAULT_LOOKBACK_DAYS');
+
   // Cleaner Config
   validateTemperature(CLEANER_CONFIG.TEMPERATURE, 'CLEANER_CONFIG.TEMPERATURE');
   validatePositive(CLEANER_CONFIG.MAX_OUTPUT_TOKENS, 'CLEANER_CONFIG.MAX_OUTPUT_TOKENS');
@@ -1489,9 +1737,24 @@ function validateConfiguration(): void {
       `SCRAPE_FAILURE_RATE_THRESHOLD must be between 0 and 1 (got ${CLEANER_CONFIG.SCRAPE_FAILURE_RATE_THRESHOLD})`
     );
   }
+  validatePositive(CLEANER_CONFIG.DOMAIN_SCORE_HISTORY_LIMIT, 'CLEANER_CONFIG.DOMAIN_SCORE_HISTORY_LIMIT');
   validatePositive(CLEANER_CONFIG.MAX_INPUT_CHARS, 'CLEANER_CONFIG.MAX_INPUT_CHARS');
   validatePositive(CLEANER_CONFIG.MIN_CLEANED_CHARS, 'CLEANER_CONFIG.MIN_CLEANED_CHARS');
 
+  // Source Cache Retention Config
+  for (const { match, ttlDays } of SOURCE_CACHE_CONFIG.TTL_DAYS_BY_CONTENT_TYPE) {
+    validatePositive(ttlDays, `SOURCE_CACHE_CONFIG.TTL_DAYS_BY_CONTENT_TYPE[${match}]`);
+  }
+  validatePositive(SOURCE_CACHE_CONFIG.DEFAULT_TTL_DAYS, 'SOURCE_CACHE_CONFIG.DEFAULT_TTL_DAYS');
+  validatePositive(SOURCE_CACHE_CONFIG.CLEANUP_MIN_IDLE_DAYS, 'SOURCE_CACHE_CONFIG.CLEANUP_MIN_IDLE_DAYS');
+  validateNonNegative(SOURCE_CACHE_CONFIG.CLEANUP_MAX_ACCESS_COUNT, 'SOURCE_CACHE_CONFIG.CLEANUP_MAX_ACCESS_COUNT');
+  if (SOURCE_CACHE_CONFIG.CLEANUP_MAX_QUALITY_SCORE < 0 || SOURCE_CACHE_CONFIG.CLEANUP_MAX_QUALITY_SCORE > 100) {
+    throw new ConfigValidationError(
+      `SOURCE_CACHE_CONFIG.CLEANUP_MAX_QUALITY_SCORE must be between 0 and 100 (got ${SOURCE_CACHE_CONFIG.CLEANUP_MAX_QUALITY_SCORE})`
+    );
+  }
+  validatePositive(SOURCE_CACHE_CONFIG.CLEANUP_BATCH_SIZE, 'SOURCE_CACHE_CONFIG.CLEANUP_BATCH_SIZE');
+
   // Retry Config
   validatePositive(RETRY_CONFIG.MAX_RETRIES, 'RETRY_CONFIG.MAX_RETRIES');
   validatePositive(RETRY_CONFIG.INITIAL_DELAY_MS, 'RETRY_CONFIG.INITIAL_DELAY_MS');
@@ -1512,6 +1775,23 @@ function validateConfiguration(): void {
     'GENERATOR_CONFIG.SPECIALIST_PROGRESS_END'
   );
 
+  // Budget Config
+  for (const [name, ratio] of [
+    ['DEGRADE_AT_RATIO', BUDGET_CONFIG.DEGRADE_AT_RATIO],
+    ['SCOUT_MAX_SHARE', BUDGET_CONFIG.SCOUT_MAX_SHARE],
+  ] as const) {
+    if (ratio <= 0 || ratio > 1) {
+      throw new ConfigValidationError(`BUDGET_CONFIG.${name} must be in (0, 1] (got ${ratio})`);
+    }
+  }
+  validatePositive(BUDGET_CONFIG.MIN_SCOUT_QUERIES, 'BUDGET_CONFIG.MIN_SCOUT_QUERIES');
+  validatePositive(BUDGET_CONFIG.ESTIMATED_QUERY_COST_USD, 'BUDGET_CONFIG.ESTIMATED_QUERY_COST_USD');
+  validatePositive(BUDGET_CONFIG.EXA_SEARCH_COST_USD, 'BUDGET_CONFIG.EXA_SEARCH_COST_USD');
+  validatePositive(BUDGET_CONFIG.ESTIMATED_IMAGE_PHASE_COST_USD, 'BUDGET_CONFIG.ESTIMATED_IMAGE_PHASE_COST_USD');
+  validatePositive(BUDGET_CONFIG.DEFAULT_OUTPUT_TOKENS, 'BUDGET_CONFIG.DEFAULT_OUTPUT_TOKENS');
+  validatePositive(BUDGET_CONFIG.CHARS_PER_TOKEN, 'BUDGET_CONFIG.CHARS_PER_TOKEN');
+  validatePositive(BUDGET_CONFIG.RESEARCH_PROMPT_CHARS, 'BUDGET_CONFIG.RESEARCH_PROMPT_CHARS');
+
   // Word Count Constraints
   validateMinMax(
     WORD_COUNT_CONSTRAINTS.MIN_WORD_COUNT,
@@ -1619,8 +1899,19 @@ function validateConfiguration(): void {
       `TTS_CONFIG.MAX_CHUNK_SIZE (${TTS_CONFIG.MAX_CHUNK_SIZE}) cannot exceed Inworld API limit of 2000 characters`
     );
   }
-  // Validate INWORLD_API_KEY is set when TTS is enabled
-  if (TTS_CONFIG.ENABLED && !process.env.INWORLD_API_KEY) {
+  validatePositive(TTS_CONFIG.SILENT_WORDS_PER_MINUTE, 'TTS_CONFIG.SILENT_WORDS_PER_MINUTE');
+  validatePositive(TTS_CONFIG.CAPTION_MAX_CHARS, 'TTS_CONFIG.CAPTION_MAX_CHARS');
+  validatePositive(TTS_CONFIG.CAPTION_MAX_SECONDS, 'TTS_CONFIG.CAPTION_MAX_SECONDS');
+  const ttsProviders = [TTS_CONFIG.DEFAULT_PROVIDER, ...Object.values(TTS_CONFIG.PROVIDER_BY_LOCALE)];
+  for (const provider of ttsProviders) {
+    if (provider !== 'inworld' && provider !== 'silent') {
+      throw new ConfigValidationError(
+        `Unknown TTS provider "${provider}" (expected "inworld" or "silent")`
+      );
+    }
+  }
+  // Validate INWORLD_API_KEY is set when TTS is enabled and Inworld is used
+  if (TTS_CONFIG.ENABLED && ttsProviders.includes('inworld') && !process.env.INWORLD_API_KEY) {
     throw new ConfigValidationError(
       'TTS_CONFIG.ENABLED is true but INWORLD_API_KEY is not set in environment'
     );
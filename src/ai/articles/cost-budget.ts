@@ -0,0 +1,346 @@
+/**
+ * Cost Budget
+ *
+ * Enforces a hard `maxCostUsd` budget during article generation.
+ *
+ * Every LLM and search call goes through `CostBudget.charge()`, which checks the
+ * call's projected cost against what is already spent (plus calls still in
+ * flight) before it runs, then records the actual cost from the response.
+ * The generator consults the budget before each phase and degrades as the run
+ * approaches the limit (fewer Scout queries, no Reviewer, capped Fixer, no
+ * images). An unaffordable call throws ArticleGenerationError('BUDGET_EXCEEDED')
+ * carrying a partial-cost report.
+ *
+ * Once exceeded, the budget stays exceeded: callers that swallow search errors
+ * for graceful degradation cannot hide it, because `assertNotExceeded()` and
+ * every later `charge()` rethrow the original error.
+ *
+ * @example
+ * const budget = new CostBudget(0.5);
+ * const generateText = wrapGenerateTextWithBudget(aiGenerateText, budget);
+ * const search = wrapSearchWithBudget(tavilySearch, budget);
+ */
+
+import type { generateText as aiGenerateText } from 'ai';
+
+import { BUDGET_CONFIG, getModelPricing } from './config';
+import {
+  ArticleGenerationError,
+  extractOpenRouterCost,
+  TAVILY_COST_PER_CREDIT,
+  type ArticleGenerationPhase,
+  type BudgetDegradation,
+  type CostBudgetReport,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type GenerateTextFn = typeof aiGenerateText;
+type GenerateTextParams = Parameters<GenerateTextFn>[0];
+
+/** Phase that spend is attributed to */
+export type BudgetPhase = ArticleGenerationPhase | 'images';
+
+/** Kind of billable call */
+export type BudgetChargeKind = 'llm' | 'search';
+
+/**
+ * Minimal search signature that can be budgeted (Tavily-compatible).
+ */
+type BudgetableSearch = (
+  query: string,
+  options?: { searchDepth?: 'basic' | 'advanced' }
+) => Promise<{ costUsd?: number }>;
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Projects the cost of one LLM call from MODEL_PRICING.
+ *
+ * @param modelId - OpenRouter model ID
+ * @param inputChars - Prompt size in characters
+ * @param outputTokens - Expected output tokens (default: BUDGET_CONFIG.DEFAULT_OUTPUT_TOKENS)
+ */
+export function estimateLLMCallCost(
+  modelId: string,
+  inputChars: number,
+  outputTokens: number = BUDGET_CONFIG.DEFAULT_OUTPUT_TOKENS
+): number {
+  const pricing = getModelPricing(modelId);
+  const inputTokens = Math.ceil(inputChars / BUDGET_CONFIG.CHARS_PER_TOKEN);
+  return (inputTokens / 1000) * pricing.inputPer1k + (outputTokens / 1000) * pricing.outputPer1k;
+}
+
+/**
+ * Returns the model ID of a generateText `model` parameter.
+ */
+function getModelId(model: GenerateTextParams['model']): string {
+  return typeof model === 'string' ? model : model.modelId;
+}
+
+/**
+ * Measures the prompt of a generateText call in characters.
+ */
+function getPromptChars(params: GenerateTextParams): number {
+  const measure = (value: unknown): number =>
+    value === undefined ? 0 : typeof value === 'string' ? value.length : JSON.stringify(value).length;
+  return measure(params.system) + measure(params.prompt) + measure(params.messages);
+}
+
+/**
+ * Projects the cost of a generateText call from its parameters.
+ */
+export function estimateGenerateTextCost(params: GenerateTextParams): number {
+  return estimateLLMCallCost(getModelId(params.model), getPromptChars(params), params.maxOutputTokens);
+}
+
+/**
+ * Cost of a finished generateText call: the OpenRouter-reported cost when
+ * available, otherwise reported token usage priced with MODEL_PRICING.
+ */
+function getGenerateTextCost(
+  params: GenerateTextParams,
+  result: Awaited<ReturnType<GenerateTextFn>>
+): number | undefined {
+  const actual = extractOpenRouterCost(result as { providerMetadata?: Record<string, unknown> });
+  if (actual !== undefined) return actual;
+
+  const usage = result.usage;
+  if (!usage || (usage.inputTokens === undefined && usage.outputTokens === undefined)) return undefined;
+  const pricing = getModelPricing(getModelId(params.model));
+  return ((usage.inputTokens ?? 0) / 1000) * pricing.inputPer1k + ((usage.outputTokens ?? 0) / 1000) * pricing.outputPer1k;
+}
+
+// ============================================================================
+// CostBudget Class
+// ============================================================================
+
+/**
+ * Tracks spend against a hard budget for a single generation run.
+ */
+export class CostBudget {
+  private phase: BudgetPhase | undefined;
+  private llmCostUsd = 0;
+  private searchCostUsd = 0;
+  private llmCallCount = 0;
+  private searchCallCount = 0;
+  /** Projected cost of calls that have started but not finished */
+  private reservedUsd = 0;
+  private readonly costByPhase: Partial<Record<BudgetPhase, number>> = {};
+  private readonly appliedDegradations: BudgetDegradation[] = [];
+  private exceededError: ArticleGenerationError | undefined;
+
+  constructor(
+    readonly maxCostUsd: number,
+    private readonly label = 'Article generation'
+  ) {
+    if (!Number.isFinite(maxCostUsd) || maxCostUsd <= 0) {
+      throw new ArticleGenerationError('CONFIG_ERROR', `maxCostUsd must be a positive number (got ${maxCostUsd})`);
+    }
+  }
+
+  /** Total spent so far (LLM + search) in USD */
+  get spentUsd(): number {
+    return this.llmCostUsd + this.searchCostUsd;
+  }
+
+  /** Budget left after spent and in-flight calls, in USD */
+  get remainingUsd(): number {
+    return Math.max(0, this.maxCostUsd - this.spentUsd - this.reservedUsd);
+  }
+
+  /** Degradations applied so far, in order */
+  get degradations(): readonly BudgetDegradation[] {
+    return this.appliedDegradations;
+  }
+
+  /** Whether an operation has already been rejected */
+  get exceeded(): boolean {
+    return this.exceededError !== undefined;
+  }
+
+  /**
+   * Sets the phase that subsequent spend is attributed to,
+   * after checking that the phase's projected cost still fits.
+   *
+   * @throws ArticleGenerationError with 'BUDGET_EXCEEDED' if it does not
+   */
+  enterPhase(phase: BudgetPhase, projectedUsd = 0): void {
+    this.phase = phase;
+    this.assertCanAfford(projectedUsd, `${phase} phase`);
+  }
+
+  /**
+   * Whether spending `projectedUsd` more would cross the degrade threshold
+   * (BUDGET_CONFIG.DEGRADE_AT_RATIO of the budget).
+   */
+  isNearLimit(projectedUsd = 0): boolean {
+    return this.spentUsd + this.reservedUsd + projectedUsd > this.maxCostUsd * BUDGET_CONFIG.DEGRADE_AT_RATIO;
+  }
+
+  /**
+   * Number of items of `unitCostUsd` that fit in `share` of the budget,
+   * counting what has already been spent.
+   */
+  affordableCount(unitCostUsd: number, share = 1): number {
+    const available = this.maxCostUsd * share - this.spentUsd - this.reservedUsd;
+    return Math.max(0, Math.floor(available / unitCostUsd));
+  }
+
+  /**
+   * Records a degradation applied to stay within budget (each kind once).
+   */
+  degrade(degradation: BudgetDegradation): void {
+    if (!this.appliedDegradations.includes(degradation)) {
+      this.appliedDegradations.push(degradation);
+    }
+  }
+
+  /**
+   * Throws if an earlier operation exceeded the budget.
+   */
+  assertNotExceeded(): void {
+    if (this.exceededError) throw this.exceededError;
+  }
+
+  /**
+   * Throws if spending `projectedUsd` more would exceed the budget.
+   *
+   * @throws ArticleGenerationError with 'BUDGET_EXCEEDED' and a partial-cost report
+   */
+  assertCanAfford(projectedUsd: number, operation: string): void {
+    this.assertNotExceeded();
+    if (this.spentUsd + this.reservedUsd + projectedUsd <= this.maxCostUsd) return;
+
+    const costReport = this.getReport({ phase: this.phase, operation, projectedUsd });
+    this.exceededError = new ArticleGenerationError(
+      'BUDGET_EXCEEDED',
+      `${this.label} stopped before ${operation}: projected $${projectedUsd.toFixed(4)} would exceed ` +
+        `the $${this.maxCostUsd.toFixed(4)} budget ($${this.spentUsd.toFixed(4)} spent)`,
+      undefined,
+      costReport
+    );
+    throw this.exceededError;
+  }
+
+  /**
+   * Runs a billable call: checks its projected cost, then records its actual
+   * cost (or the projection when the response reports none).
+   * Failed calls release their reservation without being charged.
+   */
+  async charge<T>(
+    kind: BudgetChargeKind,
+    operation: string,
+    projectedUsd: number,
+    fn: () => Promise<T>,
+    getActualUsd: (result: T) => number | undefined
+  ): Promise<T> {
+    this.assertCanAfford(projectedUsd, operation);
+    this.reservedUsd += projectedUsd;
+    const phase = this.phase;
+
+    let result: T;
+    try {
+      result = await fn();
+    } finally {
+      this.reservedUsd -= projectedUsd;
+    }
+
+    this.record(kind, getActualUsd(result) ?? projectedUsd, phase);
+    return result;
+  }
+
+  /**
+   * Records spend from a call made outside `charge()` (e.g. the image curator).
+   *
+   * @param phase - Phase to attribute the spend to (default: current phase)
+   */
+  record(kind: BudgetChargeKind, costUsd: number, phase: BudgetPhase | undefined = this.phase): void {
+    if (kind === 'llm') {
+      this.llmCostUsd += costUsd;
+      this.llmCallCount++;
+    } else {
+      this.searchCostUsd += costUsd;
+      this.searchCallCount++;
+    }
+    if (phase) {
+      this.costByPhase[phase] = (this.costByPhase[phase] ?? 0) + costUsd;
+    }
+  }
+
+  /**
+   * Builds the cost report for metadata or a BUDGET_EXCEEDED error.
+   */
+  getReport(exceededBy?: CostBudgetReport['exceededBy']): CostBudgetReport {
+    return {
+      maxCostUsd: this.maxCostUsd,
+      spentUsd: this.spentUsd,
+      llmCostUsd: this.llmCostUsd,
+      searchCostUsd: this.searchCostUsd,
+      llmCallCount: this.llmCallCount,
+      searchCallCount: this.searchCallCount,
+      costByPhase: { ...this.costByPhase },
+      degradations: [...this.appliedDegradations],
+      ...(exceededBy ? { exceededBy } : {}),
+    };
+  }
+}
+
+// ============================================================================
+// Dependency Wrappers
+// ============================================================================
+
+/**
+ * Wraps generateText so every LLM call is checked against and charged to the budget.
+ */
+export function wrapGenerateTextWithBudget(generateText: GenerateTextFn, budget: CostBudget): GenerateTextFn {
+  const budgeted = (params: GenerateTextParams) =>
+    budget.charge(
+      'llm',
+      `LLM call (${getModelId(params.model)})`,
+      estimateGenerateTextCost(params),
+      () => generateText(params),
+      (result) => getGenerateTextCost(params, result)
+    );
+  return budgeted as GenerateTextFn;
+}
+
+/**
+ * Wraps a Tavily-compatible search so every search is checked against and
+ * charged to the budget (basic = 1 credit, advanced = 2 credits).
+ */
+export function wrapSearchWithBudget<T extends BudgetableSearch>(search: T, budget: CostBudget): T {
+  const budgeted = (query: string, options?: Parameters<T>[1]) => {
+    const credits = options?.searchDepth === 'advanced' ? 2 : 1;
+    return budget.charge(
+      'search',
+      'Tavily search',
+      credits * TAVILY_COST_PER_CREDIT,
+      () => search(query, options),
+      (result) => result.costUsd
+    );
+  };
+  return budgeted as T;
+}
+
+/**
+ * Runs an Exa search through the budget when one is provided.
+ */
+export function chargeExaSearch<T extends { costDollars?: { total?: number } }>(
+  budget: CostBudget | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!budget) return fn();
+  return budget.charge('search', 'Exa search', BUDGET_CONFIG.EXA_SEARCH_COST_USD, fn, (result) => result.costDollars?.total);
+}
+
+/**
+ * Type guard for errors raised by an exhausted budget.
+ */
+export function isBudgetExceededError(error: unknown): error is ArticleGenerationError {
+  return error instanceof ArticleGenerationError && error.code === 'BUDGET_EXCEEDED';
+}
@@ -20,6 +20,7 @@ import { createPrefixedLogger, type Logger } from '../../utils/logger';
 import type { ArticlePlan, ArticleSectionPlan } from './article-plan';
 import { writeSingleSection, type SingleSectionDeps } from './agents/specialist';
 import type { ReviewIssue } from './agents/reviewer';
+import { restoreCitationMarkers } from './citations';
 import { FIXER_CONFIG } from './config';
 import { parseMarkdownH2Sections, isSourcesSectionHeading } from './markdown-utils';
 import { withRetry } from './retry';
@@ -50,6 +51,10 @@ export interface FixerDeps {
   readonly signal?: AbortSignal;
   /** Optional temperature override (default: FIXER_CONFIG.TEMPERATURE) */
   readonly temperature?: number;
+  /** Optional output token limit for smart fixes (default: FIXER_CONFIG.MAX_OUTPUT_TOKENS_SMART_FIX) */
+  readonly maxOutputTokens?: number;
+  /** Specialist prompt version used when regenerating sections (default: 'v1') */
+  readonly specialistPromptVersion?: string;
 }
 
 /**
@@ -165,7 +170,8 @@ function findSectionInMarkdown(
 
 /**
  * Replaces a section's content in markdown.
- * Keeps the heading, replaces the body.
+ * Keeps the heading, replaces the body. Citation markers the new content
+ * dropped from sentences it kept unchanged are put back.
  *
  * @param markdown - Original markdown
  * @param headline - Section headline to find
@@ -184,9 +190,10 @@ export function replaceSection(
 
   const before = markdown.slice(0, location.start);
   const after = markdown.slice(location.end);
+  const previousContent = markdown.slice(location.start, location.end);
 
   // Ensure proper spacing
-  const formattedContent = newContent.trim() + '\n\n';
+  const formattedContent = restoreCitationMarkers(previousContent, newContent.trim()) + '\n\n';
 
   return before + formattedContent + after;
 }
@@ -320,7 +327,7 @@ export async function rewriteSectionWithFixes(
             schema: ParagraphRewriteSchema,
           }),
           temperature,
-          maxOutputTokens: FIXER_CONFIG.MAX_OUTPUT_TOKENS_SMART_FIX,
+          maxOutputTokens: deps.maxOutputTokens ?? FIXER_CONFIG.MAX_OUTPUT_TOKENS_SMART_FIX,
           system: `You are an expert gaming guide editor. Your job is to REWRITE sections to fix issues.
 
 CRITICAL: DO NOT PATCH - REWRITE PARAGRAPHS
@@ -345,6 +352,7 @@ GUIDELINES:
 - Preserve all original important information
 - Don't add fluff - be informative and concise
 - Keep markdown formatting (bold, lists, subheadings)
+- Keep citation markers like [^src-1a2b3c4d] after the sentences they support; when you move a fact, move its marker with it
 
 CRITICAL - DO NOT INCLUDE SECTION HEADER:
 - The section heading (## Section Name) is handled separately
@@ -614,6 +622,7 @@ export async function regenerateSection(
     logger: deps.logger,
     signal: deps.signal,
     temperature: deps.temperature,
+    promptVersion: deps.specialistPromptVersion,
   };
 
   try {
@@ -717,6 +726,7 @@ export async function addSection(
     logger: deps.logger,
     signal: deps.signal,
     temperature: deps.temperature,
+    promptVersion: deps.specialistPromptVersion,
   };
 
   try {
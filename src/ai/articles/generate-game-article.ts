@@ -36,6 +36,12 @@
  * });
  *
  * @example
+ * // With a hard cost budget (degrades near the limit, throws BUDGET_EXCEEDED past it)
+ * const draft = await generateGameArticleDraft(context, undefined, {
+ *   maxCostUsd: 0.5,
+ * });
+ *
+ * @example
  * // With AbortController for cancellation
  * const controller = new AbortController();
  * setTimeout(() => controller.abort(), 60000); // Cancel after 60s
@@ -64,10 +70,30 @@ import type { CleaningDeps } from './research-pool';
 import { getAllExcludedDomains, getAllExcludedDomainsForEngine } from './source-cache';
 import type { SpecialistOutput } from './agents/specialist';
 import type { ArticlePlan, ArticleCategorySlug, ArticleMetadata } from './article-plan';
-import { GENERATOR_CONFIG, WORD_COUNT_DEFAULTS, WORD_COUNT_CONSTRAINTS, METADATA_CONFIG, REVIEWER_CONFIG, FIXER_CONFIG, IMAGE_CURATOR_CONFIG } from './config';
+import { GENERATOR_CONFIG, WORD_COUNT_DEFAULTS, WORD_COUNT_CONSTRAINTS, METADATA_CONFIG, REVIEWER_CONFIG, FIXER_CONFIG, IMAGE_CURATOR_CONFIG, BUDGET_CONFIG } from './config';
+import {
+  CostBudget,
+  estimateLLMCallCost,
+  wrapGenerateTextWithBudget,
+  wrapSearchWithBudget,
+} from './cost-budget';
 import { runImagePhase, shouldRunImagePhase, extractImagesFromResearchPool, type ImagePhaseResult } from './image-phase';
+import { buildCitationMap, stripCitationMarkers } from './citations';
 import { runFixer, type FixerContext, type FixerDeps } from './fixer';
+import {
+  assertValidTemperature,
+  resolveAgentModel,
+  resolveAgentSettings,
+  validateGenerationProfileSettings,
+  type GenerationProfileSettings,
+} from './generation-profile';
 import { countContentH2Sections } from './markdown-utils';
+import {
+  resolvePromptVersions,
+  validatePromptVersions,
+  type PromptAgent,
+  type PromptVersions,
+} from './prompts/registry';
 import { withRetry } from './retry';
 import {
   addSourceUsage,
@@ -120,12 +146,6 @@ export interface ArticleGeneratorDeps {
   readonly strapi?: Core.Strapi;
 }
 
-/**
- * Valid temperature range for LLM calls.
- * Most models support 0-2, with 0 being deterministic and 2 being highly creative.
- */
-const TEMPERATURE_RANGE = { min: 0, max: 2 } as const;
-
 /**
  * Temperature overrides for individual agents.
  * Useful for experimentation or tuning specific phases.
@@ -156,18 +176,7 @@ function validateTemperatureOverrides(overrides?: TemperatureOverrides): void {
 
   for (const [agent, temp] of entries) {
     if (temp !== undefined) {
-      if (typeof temp !== 'number' || Number.isNaN(temp)) {
-        throw new ArticleGenerationError(
-          'CONFIG_ERROR',
-          `Invalid temperature for ${agent}: ${temp} (must be a number)`
-        );
-      }
-      if (temp < TEMPERATURE_RANGE.min || temp > TEMPERATURE_RANGE.max) {
-        throw new ArticleGenerationError(
-          'CONFIG_ERROR',
-          `Invalid temperature for ${agent}: ${temp} (must be between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max})`
-        );
-      }
+      assertValidTemperature(agent, temp);
     }
   }
 }
@@ -313,6 +322,42 @@ export interface ArticleGeneratorOptions {
    * });
    */
   readonly enableImages?: boolean;
+
+  /**
+   * Optional hard cost budget in USD (LLM + search APIs).
+   *
+   * Every LLM and search call is checked against the budget using its
+   * projected cost before it runs. Near the limit (BUDGET_CONFIG.DEGRADE_AT_RATIO)
+   * the run degrades: fewer Scout queries, no Reviewer, capped Fixer
+   * iterations, no images. If a call still would not fit, generation stops with
+   * ArticleGenerationError('BUDGET_EXCEEDED'), whose `costReport` holds the
+   * partial costs. The final report is in `draft.metadata.budget`.
+   *
+   * Default: no budget.
+   */
+  readonly maxCostUsd?: number;
+
+  /**
+   * Optional generation profile settings (see generation-profile.ts).
+   *
+   * Overrides model, temperature and output token limit per agent, optionally
+   * per category. Scout and Editor run before the plan exists, so they use the
+   * category override only when `context.categorySlug` is set.
+   * `temperatureOverrides` take precedence over profile temperatures.
+   *
+   * @example
+   * const draft = await generateGameArticleDraft(context, undefined, {
+   *   profile: { agents: { specialist: { model: 'anthropic/claude-sonnet-4', temperature: 0.7 } } },
+   * });
+   */
+  readonly profile?: GenerationProfileSettings;
+
+  /**
+   * Optional prompt version per agent (see prompts/registry.ts), typically
+   * chosen by a prompt experiment. Unset agents use 'v1'. The versions used
+   * are recorded in `draft.promptVersions`.
+   */
+  readonly promptVersions?: PromptVersions;
 }
 
 // ============================================================================
@@ -448,6 +493,8 @@ interface RunPhaseOptions {
   readonly gameName: string;
   readonly modelName: string;
   readonly clock: Clock;
+  /** Optional cost budget; a budget error raised inside the phase is re-thrown as-is */
+  readonly costBudget?: CostBudget;
   /**
    * If true, skip top-level retry wrapper.
    * Use for long-running phases where retry is applied internally to individual operations.
@@ -500,18 +547,23 @@ async function runPhase<T>(
       options.clock
     );
 
+    // Surface budget errors the phase degraded around (e.g. failed searches)
+    options.costBudget?.assertNotExceeded();
+
     return {
       output,
       durationMs: options.clock.now() - phaseStartTime,
     };
   } catch (error) {
-    // Re-throw timeout/cancellation errors directly
+    // Re-throw timeout/cancellation/budget errors directly
     if (
       error instanceof ArticleGenerationError &&
-      (error.code === 'TIMEOUT' || error.code === 'CANCELLED')
+      (error.code === 'TIMEOUT' || error.code === 'CANCELLED' || error.code === 'BUDGET_EXCEEDED')
     ) {
       throw error;
     }
+    // A budget error wrapped by an agent still ends the run as BUDGET_EXCEEDED
+    options.costBudget?.assertNotExceeded();
 
     throw new ArticleGenerationError(
       errorCode,
@@ -534,6 +586,7 @@ interface BasePhaseOptions {
   readonly timeoutMs: number;
   readonly gameName: string;
   readonly clock: Clock;
+  readonly costBudget?: CostBudget;
 }
 
 /**
@@ -547,6 +600,10 @@ interface PhaseContext {
   readonly progressTracker: ProgressTracker;
   readonly phaseTimer: PhaseTimer;
   readonly temperatureOverrides?: TemperatureOverrides;
+  /** Generation profile settings (already validated) */
+  readonly profile?: GenerationProfileSettings;
+  /** Prompt version per agent (already validated) */
+  readonly promptVersions: Record<PromptAgent, string>;
   /**
    * Target word count for the article.
    * If provided by context, used directly; otherwise category defaults apply after Editor phase.
@@ -559,6 +616,21 @@ interface PhaseContext {
   readonly cleaningDeps?: CleaningDeps;
 }
 
+/**
+ * Temperature for Scout, Editor or Specialist: explicit override, then profile.
+ * Undefined lets the agent use its config default.
+ */
+function getPhaseTemperature(
+  phaseContext: PhaseContext,
+  agent: keyof TemperatureOverrides,
+  categorySlug: ArticleCategorySlug | undefined
+): number | undefined {
+  return (
+    phaseContext.temperatureOverrides?.[agent] ??
+    resolveAgentSettings(phaseContext.profile, agent, categorySlug).temperature
+  );
+}
+
 /**
  * Executes the Scout phase: gathers research from multiple sources.
  */
@@ -566,7 +638,7 @@ async function executeScoutPhase(
   phaseContext: PhaseContext,
   scoutModel: string
 ): Promise<PhaseResult<ScoutOutput>> {
-  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, temperatureOverrides, cleaningDeps } = phaseContext;
+  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, cleaningDeps } = phaseContext;
 
   progressTracker.startPhase('scout', `Phase 1: Scout - Deep multi-query research (model: ${scoutModel})...`);
   phaseTimer.start('scout');
@@ -581,8 +653,9 @@ async function executeScoutPhase(
         model: deps.openrouter(scoutModel),
         logger: createForwardingLogger('[Scout]', progressTracker.createLogForwarder('scout')),
         signal: basePhaseOptions.signal,
-        temperature: temperatureOverrides?.scout,
+        temperature: getPhaseTemperature(phaseContext, 'scout', context.categorySlug),
         cleaningDeps,
+        costBudget: basePhaseOptions.costBudget,
         onProgress: (step, current, total) => {
           if (step === 'search') {
             const pct = Math.round(10 + (current / total) * 80); // 10-90%
@@ -622,7 +695,7 @@ async function executeEditorPhase(
   scoutOutput: ScoutOutput,
   editorModel: string
 ): Promise<EditorPhaseResult> {
-  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, temperatureOverrides, targetWordCount } = phaseContext;
+  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, targetWordCount } = phaseContext;
 
   progressTracker.startPhase('editor', `Phase 2: Editor - Planning article (model: ${editorModel})...`);
   phaseTimer.start('editor');
@@ -636,8 +709,9 @@ async function executeEditorPhase(
         model: deps.openrouter(editorModel),
         logger: createForwardingLogger('[Editor]', progressTracker.createLogForwarder('editor')),
         signal: basePhaseOptions.signal,
-        temperature: temperatureOverrides?.editor,
+        temperature: getPhaseTemperature(phaseContext, 'editor', context.categorySlug),
         targetWordCount,
+        promptVersion: phaseContext.promptVersions.editor,
       }),
     { ...basePhaseOptions, modelName: editorModel }
   );
@@ -706,7 +780,7 @@ async function executeEditorPhaseWithRetry(
   editorModel: string,
   maxRetries: number = FIXER_CONFIG.MAX_PLAN_RETRIES
 ): Promise<EditorPhaseWithRetryResult> {
-  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, temperatureOverrides, targetWordCount } = phaseContext;
+  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, targetWordCount } = phaseContext;
 
   let lastErrors: string[] = [];
   let totalTokenUsage = createEmptyTokenUsage();
@@ -733,9 +807,10 @@ async function executeEditorPhaseWithRetry(
             model: deps.openrouter!(editorModel),
             logger: createForwardingLogger('[Editor]', progressTracker.createLogForwarder('editor')),
             signal: basePhaseOptions.signal,
-            temperature: temperatureOverrides?.editor,
+            temperature: getPhaseTemperature(phaseContext, 'editor', context.categorySlug),
             targetWordCount,
             validationFeedback: isRetry ? lastErrors : undefined,
+            promptVersion: phaseContext.promptVersions.editor,
           }),
         { ...basePhaseOptions, modelName: editorModel }
       );
@@ -785,10 +860,10 @@ async function executeEditorPhaseWithRetry(
       lastErrors = errorMessages;
       attempt++;
     } catch (error) {
-      // If error is timeout/cancelled, don't retry
+      // If error is timeout/cancelled/over budget, don't retry
       if (
         error instanceof ArticleGenerationError &&
-        (error.code === 'TIMEOUT' || error.code === 'CANCELLED')
+        (error.code === 'TIMEOUT' || error.code === 'CANCELLED' || error.code === 'BUDGET_EXCEEDED')
       ) {
         throw error;
       }
@@ -840,7 +915,7 @@ async function executeSpecialistPhase(
   parallelSections: boolean,
   effectiveWordCount: number
 ): Promise<PhaseResult<SpecialistOutput>> {
-  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, temperatureOverrides, cleaningDeps } = phaseContext;
+  const { context, deps, basePhaseOptions, log, progressTracker, phaseTimer, cleaningDeps } = phaseContext;
 
   const modeLabel = parallelSections ? 'parallel' : 'sequential';
   progressTracker.startPhase(
@@ -862,9 +937,12 @@ async function executeSpecialistPhase(
         logger: createForwardingLogger('[Specialist]', progressTracker.createLogForwarder('specialist')),
         parallelSections,
         signal: basePhaseOptions.signal,
-        temperature: temperatureOverrides?.specialist,
+        temperature: getPhaseTemperature(phaseContext, 'specialist', plan.categorySlug),
+        maxOutputTokensPerSection: resolveAgentSettings(phaseContext.profile, 'specialist', plan.categorySlug).maxOutputTokens,
+        promptVersion: phaseContext.promptVersions.specialist,
         targetWordCount: effectiveWordCount,
         cleaningDeps,
+        costBudget: basePhaseOptions.costBudget,
         onSectionProgress: (current, total, headline) => {
           // Delegate to ProgressTracker for consistent progress calculation (logs to both terminal and UI)
           progressTracker.reportSectionProgress(current, total, headline);
@@ -887,7 +965,13 @@ async function executeSpecialistPhase(
 // Default Dependencies
 // ============================================================================
 
-function createDefaultDeps(): ArticleGeneratorDeps {
+/**
+ * Production dependencies (OpenRouter + Tavily).
+ * Shared with the refresh pipeline so both use the same provider setup.
+ *
+ * @throws ArticleGenerationError with code 'CONFIG_ERROR' if OPENROUTER_API_KEY is not configured
+ */
+export function createDefaultDeps(): ArticleGeneratorDeps {
   if (!process.env.OPENROUTER_API_KEY) {
     throw new ArticleGenerationError(
       'CONFIG_ERROR',
@@ -944,7 +1028,10 @@ function createDefaultDeps(): ArticleGeneratorDeps {
  * @throws ArticleGenerationError with code 'VALIDATION_FAILED' if validation fails
  * @throws ArticleGenerationError with code 'TIMEOUT' if timeoutMs is exceeded
  * @throws ArticleGenerationError with code 'CANCELLED' if signal is aborted
+ * @throws ArticleGenerationError with code 'BUDGET_EXCEEDED' if maxCostUsd would be exceeded
  * @throws ArticleGenerationError with code 'CONFIG_ERROR' if OPENROUTER_API_KEY is not configured
+ *   or maxCostUsd is not a positive number, a temperature override or profile setting is invalid,
+ *   or a prompt version is not registered
  *
  * @example
  * // Production usage
@@ -991,18 +1078,30 @@ export async function generateGameArticleDraft(
 
   // Validate temperature overrides early (before expensive operations)
   validateTemperatureOverrides(options?.temperatureOverrides);
+  const profile = options?.profile ? validateGenerationProfileSettings(options.profile) : undefined;
+  validatePromptVersions(options?.promptVersions, context.categorySlug);
+  const promptVersions = resolvePromptVersions(options?.promptVersions);
+
+  // Cost budget (throws CONFIG_ERROR for a non-positive budget)
+  const costBudget =
+    options?.maxCostUsd !== undefined
+      ? new CostBudget(options.maxCostUsd, `Article generation for "${context.gameName}"`)
+      : undefined;
 
   // Use provided deps merged with defaults
   // This allows passing just { strapi } without replacing all deps
   const mergedDeps = { ...createDefaultDeps(), ...deps };
-  const { openrouter, search, generateText: genText, strapi } = mergedDeps;
-
-  const scoutModel = getModel('ARTICLE_SCOUT');
-  const editorModel = getModel('ARTICLE_EDITOR');
-  const specialistModel = getModel('ARTICLE_SPECIALIST');
+  const { openrouter, strapi } = mergedDeps;
+  // Route every LLM and search call through the budget when one is set
+  const genText = costBudget ? wrapGenerateTextWithBudget(mergedDeps.generateText, costBudget) : mergedDeps.generateText;
+  const search = costBudget ? wrapSearchWithBudget(mergedDeps.search, costBudget) : mergedDeps.search;
+
+  // Scout, Editor and Cleaner run before the plan picks a category
+  const scoutModel = resolveAgentModel(profile, 'scout', context.categorySlug);
+  const editorModel = resolveAgentModel(profile, 'editor', context.categorySlug);
   const metadataModel = getModel('ARTICLE_METADATA');
-  const fixerModel = getModel('ARTICLE_FIXER');
-  const cleanerModel = getModel('ARTICLE_CLEANER');
+  const cleanerSettings = resolveAgentSettings(profile, 'cleaner', context.categorySlug);
+  const cleanerModel = cleanerSettings.model ?? getModel('ARTICLE_CLEANER');
   const summarizerModel = getModel('ARTICLE_SUMMARIZER');
   const prefilterModel = getModel('ARTICLE_PREFILTER');
 
@@ -1029,15 +1128,25 @@ export async function generateGameArticleDraft(
     timeoutMs,
     gameName: context.gameName,
     clock,
+    costBudget,
   };
 
   log.info(`=== Starting Multi-Agent Article Generation for "${context.gameName}" ===`);
   if (timeoutMs > 0) {
     log.info(`Timeout configured: ${timeoutMs}ms`);
   }
+  if (costBudget) {
+    log.info(`Cost budget: $${costBudget.maxCostUsd.toFixed(4)} USD`);
+  }
   if (temperatureOverrides) {
     log.info(`Temperature overrides: ${JSON.stringify(temperatureOverrides)}`);
   }
+  if (profile) {
+    log.info(`Generation profile: ${JSON.stringify(profile)}`);
+  }
+  if (options?.promptVersions) {
+    log.info(`Prompt versions: ${JSON.stringify(promptVersions)}`);
+  }
 
   // Build shared phase context
   const resolvedDeps: ArticleGeneratorDeps = {
@@ -1065,6 +1174,7 @@ export async function generateGameArticleDraft(
       model: openrouter(cleanerModel),
       summarizerModel: openrouter(summarizerModel),
       prefilterModel: openrouter(prefilterModel),
+      temperature: cleanerSettings.temperature,
       // Forward cleaner logs to scout phase (where most cleaning happens)
       logger: createForwardingLogger('[Cleaner]', progressTracker.createLogForwarder('scout')),
       signal,
@@ -1086,15 +1196,19 @@ export async function generateGameArticleDraft(
     progressTracker,
     phaseTimer,
     temperatureOverrides,
+    profile,
+    promptVersions,
     targetWordCount: context.targetWordCount,
     cleaningDeps,
   };
 
   // ===== PHASE 1: SCOUT =====
+  costBudget?.enterPhase('scout', BUDGET_CONFIG.ESTIMATED_QUERY_COST_USD);
   const scoutResult = await executeScoutPhase(phaseContext, scoutModel);
   const scoutOutput = scoutResult.output;
 
   // ===== PHASE 2: EDITOR (with retry) =====
+  costBudget?.enterPhase('editor', estimateLLMCallCost(editorModel, BUDGET_CONFIG.RESEARCH_PROMPT_CHARS));
   const {
     result: editorResult,
     plan,
@@ -1112,6 +1226,20 @@ export async function generateGameArticleDraft(
   // Calculate effective word count based on context or category defaults
   const effectiveWordCount = getEffectiveWordCount(context.targetWordCount, plan.categorySlug);
 
+  // Remaining agents resolve profile settings against the planned category
+  const specialistSettings = resolveAgentSettings(profile, 'specialist', plan.categorySlug);
+  const specialistModel = specialistSettings.model ?? getModel('ARTICLE_SPECIALIST');
+  const reviewerSettings = resolveAgentSettings(profile, 'reviewer', plan.categorySlug);
+  const fixerSettings = resolveAgentSettings(profile, 'fixer', plan.categorySlug);
+  const fixerModel = fixerSettings.model ?? getModel('ARTICLE_FIXER');
+  const imageCuratorSettings = resolveAgentSettings(profile, 'imageCurator', plan.categorySlug);
+
+  // Every section needs at least one writing call
+  costBudget?.enterPhase(
+    'specialist',
+    plan.sections.length *
+      estimateLLMCallCost(specialistModel, BUDGET_CONFIG.RESEARCH_PROMPT_CHARS, specialistSettings.maxOutputTokens)
+  );
   const specialistResult = await executeSpecialistPhase(
     phaseContext,
     scoutOutput,
@@ -1127,6 +1255,7 @@ export async function generateGameArticleDraft(
 
   // ===== PHASE 4: METADATA =====
   // Generate SEO-optimized metadata now that the article is written
+  costBudget?.enterPhase('metadata', estimateLLMCallCost(metadataModel, currentMarkdown.length));
   progressTracker.startPhase('metadata', `Phase 4: Metadata - Generating SEO-optimized metadata (model: ${metadataModel})...`);
   phaseTimer.start('metadata');
 
@@ -1139,7 +1268,7 @@ export async function generateGameArticleDraft(
     () =>
       runMetadata(
         {
-          articleMarkdown: currentMarkdown,
+          articleMarkdown: stripCitationMarkers(currentMarkdown),
           gameName: context.gameName,
           instruction: context.instruction,
           categorySlug: plan.categorySlug,
@@ -1156,7 +1285,7 @@ export async function generateGameArticleDraft(
   );
 
   phaseTimer.end('metadata');
-  const { metadata: articleMetadata, tokenUsage: metadataTokenUsage } = metadataResult.output;
+  const { metadata: articleMetadata, verdict, tokenUsage: metadataTokenUsage } = metadataResult.output;
   progressTracker.log('metadata', 90, `Generated title: "${articleMetadata.title}" (${articleMetadata.title.length} chars)`);
   progressTracker.completePhase('metadata', `Metadata complete: ${articleMetadata.tags.length} tags, ${articleMetadata.excerpt.length} char excerpt`);
 
@@ -1177,11 +1306,27 @@ export async function generateGameArticleDraft(
   // Determine if reviewer should run:
   // 1. If enableReviewer is explicitly set, use that value (takes precedence)
   // 2. Otherwise, use default from REVIEWER_CONFIG.ENABLED_BY_CATEGORY based on article category
-  const shouldRunReviewer =
+  // 3. Skip it when a review would push a budgeted run past the degrade threshold
+  const reviewerRequested =
     options?.enableReviewer !== undefined
       ? options.enableReviewer
       : REVIEWER_CONFIG.ENABLED_BY_CATEGORY[plan.categorySlug];
-  const reviewerModel = getModel('ARTICLE_REVIEWER');
+  const reviewerModel = reviewerSettings.model ?? getModel('ARTICLE_REVIEWER');
+  const projectedReviewCost = estimateLLMCallCost(
+    reviewerModel,
+    currentMarkdown.length + REVIEWER_CONFIG.MAX_RESEARCH_CONTEXT_LENGTH,
+    reviewerSettings.maxOutputTokens ?? REVIEWER_CONFIG.MAX_OUTPUT_TOKENS
+  );
+  const skipReviewerForBudget = reviewerRequested && costBudget !== undefined && costBudget.isNearLimit(projectedReviewCost);
+  const shouldRunReviewer = reviewerRequested && !skipReviewerForBudget;
+  if (skipReviewerForBudget) {
+    costBudget?.degrade('reviewer-skipped');
+    progressTracker.warn(
+      'reviewer',
+      0,
+      `Reviewer skipped to stay within the cost budget ($${costBudget?.spentUsd.toFixed(4)} of $${costBudget?.maxCostUsd.toFixed(4)} spent)`
+    );
+  }
 
   let reviewerOutput: ReviewerOutput | undefined;
   let reviewerTokenUsage: TokenUsage = { input: 0, output: 0 };
@@ -1189,6 +1334,7 @@ export async function generateGameArticleDraft(
   let initialReviewerIssues: ReviewerOutput['issues'] | undefined;
 
   if (shouldRunReviewer) {
+    costBudget?.enterPhase('reviewer', projectedReviewCost);
     progressTracker.startPhase('reviewer', `Phase 5: Reviewer - Quality control check (model: ${reviewerModel})...`);
     phaseTimer.start('reviewer');
 
@@ -1205,11 +1351,13 @@ export async function generateGameArticleDraft(
       model: resolvedDeps.openrouter(fixerModel),
       logger: createForwardingLogger('[Fixer]', progressTracker.createLogForwarder('reviewer')),
       signal: basePhaseOptions.signal,
-      temperature: FIXER_CONFIG.TEMPERATURE,
+      temperature: fixerSettings.temperature ?? FIXER_CONFIG.TEMPERATURE,
+      maxOutputTokens: fixerSettings.maxOutputTokens,
+      specialistPromptVersion: promptVersions.specialist,
     };
 
     // Initial review
-    // Note: Reviewer uses its own config temperature, NOT specialist override.
+    // Note: Reviewer uses its own config temperature (or the profile's), NOT specialist override.
     // Reviewer should be consistent and analytical, not creative.
     let reviewerResult = await runPhase(
       'Reviewer',
@@ -1220,7 +1368,10 @@ export async function generateGameArticleDraft(
           model: resolvedDeps.openrouter(reviewerModel),
           logger: createForwardingLogger('[Reviewer]', progressTracker.createLogForwarder('reviewer')),
           signal: basePhaseOptions.signal,
-          // Don't pass temperature override - let Reviewer use its default (REVIEWER_CONFIG.TEMPERATURE)
+          temperature: reviewerSettings.temperature,
+          maxOutputTokens: reviewerSettings.maxOutputTokens,
+          promptVersion: promptVersions.reviewer,
+          researchPool: finalResearchPool,
         }),
       { ...basePhaseOptions, modelName: reviewerModel }
     );
@@ -1255,6 +1406,29 @@ export async function generateGameArticleDraft(
       originalMarkdownBeforeFixer = currentMarkdown;
     }
 
+    // Helper to check that a fix + re-review cycle stays below the degrade threshold
+    const fixCycleFitsBudget = (issueCount: number): boolean => {
+      if (!costBudget) return true;
+      const fixCalls = Math.min(issueCount, FIXER_CONFIG.MAX_FIXES_PER_ITERATION);
+      const projected =
+        fixCalls *
+          estimateLLMCallCost(
+            fixerModel,
+            currentMarkdown.length,
+            fixerSettings.maxOutputTokens ?? FIXER_CONFIG.MAX_OUTPUT_TOKENS_SMART_FIX
+          ) +
+        projectedReviewCost;
+      if (!costBudget.isNearLimit(projected)) return true;
+
+      costBudget.degrade('fixer-capped');
+      progressTracker.warn(
+        'reviewer',
+        55,
+        `Fixer stopped after ${fixerIterations} iteration(s) to stay within the cost budget`
+      );
+      return false;
+    };
+
     // Helper to count critical issues
     const countCritical = (issues: readonly { severity: string }[]) =>
       issues.filter((i) => i.severity === 'critical').length;
@@ -1289,6 +1463,10 @@ export async function generateGameArticleDraft(
             model: resolvedDeps.openrouter(reviewerModel),
             logger: createForwardingLogger('[Reviewer]', progressTracker.createLogForwarder('reviewer')),
             signal: basePhaseOptions.signal,
+            temperature: reviewerSettings.temperature,
+            maxOutputTokens: reviewerSettings.maxOutputTokens,
+            promptVersion: promptVersions.reviewer,
+            researchPool: finalResearchPool,
           }),
         { ...basePhaseOptions, modelName: reviewerModel }
       );
@@ -1314,6 +1492,7 @@ export async function generateGameArticleDraft(
       actionableIssues.length > 0 &&
       fixerIterations < FIXER_CONFIG.MAX_FIXER_ITERATIONS
     ) {
+      if (!fixCycleFitsBudget(actionableIssues.length)) break;
       fixerIterations++;
       progressTracker.log('reviewer', 40, `Fixer iteration ${fixerIterations}/${FIXER_CONFIG.MAX_FIXER_ITERATIONS}...`);
 
@@ -1340,6 +1519,7 @@ export async function generateGameArticleDraft(
       criticalIssues.length > 0 &&
       fixerIterations < FIXER_CONFIG.MAX_CRITICAL_FIX_ITERATIONS
     ) {
+      if (!fixCycleFitsBudget(criticalIssues.length)) break;
       fixerIterations++;
       progressTracker.log(
         'reviewer',
@@ -1397,7 +1577,9 @@ export async function generateGameArticleDraft(
         : `${fixerIterations} fix iterations, ${reviewerOutput.issues.length} remaining issues`
     );
   } else {
-    progressTracker.debug('Reviewer phase skipped (not enabled for this article type)');
+    if (!skipReviewerForBudget) {
+      progressTracker.debug('Reviewer phase skipped (not enabled for this article type)');
+    }
     phaseTimer.start('reviewer');
     phaseTimer.end('reviewer'); // Record 0 duration
   }
@@ -1406,6 +1588,12 @@ export async function generateGameArticleDraft(
   progressTracker.startPhase('validation', 'Phase 6: Validation - Final quality checks...');
   phaseTimer.start('validation');
 
+  // Resolve citation markers into the claim-to-source map
+  const citations = buildCitationMap(currentMarkdown, finalResearchPool);
+  progressTracker.debug(
+    `Citations: ${citations.claims.length} cited claims from ${citations.sources.length} sources`
+  );
+
   // Validate markdown content before images are added
   const draftForValidation = {
     title: articleMetadata.title,
@@ -1416,6 +1604,8 @@ export async function generateGameArticleDraft(
     markdown: currentMarkdown,
     sources,
     plan,
+    citations,
+    ...(verdict && { verdict }),
   };
 
   // Pass gameName to enable SEO validation (game name in title, keyword density, etc.)
@@ -1447,18 +1637,27 @@ export async function generateGameArticleDraft(
 
   // ===== PHASE 7: IMAGE PHASE (OPTIONAL) =====
   // Runs after validation to work with final article content
-  // Save markdown WITHOUT images for audio generation (clean content only)
-  const markdownWithoutImages = currentMarkdown;
+  // Save markdown WITHOUT images or citation markers for audio generation (clean content only)
+  const markdownWithoutImages = stripCitationMarkers(currentMarkdown);
   let finalMarkdown = currentMarkdown;
   let imagePhaseResult: ImagePhaseResult | undefined;
   let imagePhaseTokenUsage: TokenUsage = createEmptyTokenUsage();
 
-  const shouldProcessImages = strapi && shouldRunImagePhase(context, plan.categorySlug, options?.enableImages);
-  
+  const imagesRequested = strapi && shouldRunImagePhase(context, plan.categorySlug, options?.enableImages);
+  // The image curator calls its model directly, so the budget is checked once up front
+  const skipImagesForBudget =
+    Boolean(imagesRequested) && costBudget !== undefined && costBudget.isNearLimit(BUDGET_CONFIG.ESTIMATED_IMAGE_PHASE_COST_USD);
+  const shouldProcessImages = imagesRequested && !skipImagesForBudget;
+  if (skipImagesForBudget) {
+    costBudget?.degrade('images-skipped');
+    log.warn('[ArticleGen] Image Phase skipped to stay within the cost budget');
+  }
+
   if (shouldProcessImages) {
+    costBudget?.enterPhase('images', BUDGET_CONFIG.ESTIMATED_IMAGE_PHASE_COST_USD);
     progressTracker.debug('Image Phase: Starting autonomous image selection...');
     
-    const imageCuratorModel = getModel('ARTICLE_IMAGE_CURATOR');
+    const imageCuratorModel = imageCuratorSettings.model ?? getModel('ARTICLE_IMAGE_CURATOR');
     
     // Extract images from research pool (Tavily/Exa images)
     const searchImagePool = extractImagesFromResearchPool(finalResearchPool);
@@ -1495,11 +1694,13 @@ export async function generateGameArticleDraft(
           strapi,
           logger: log,
           signal: imagePhaseController.signal,
+          temperature: imageCuratorSettings.temperature,
         }
       );
 
       // Always track token usage (curator uses tokens even if no images are added)
       imagePhaseTokenUsage = imagePhaseResult.tokenUsage;
+      costBudget?.record('llm', imagePhaseTokenUsage.actualCostUsd ?? BUDGET_CONFIG.ESTIMATED_IMAGE_PHASE_COST_USD);
       
       if (imagePhaseResult.imagesAdded) {
         finalMarkdown = imagePhaseResult.markdown;
@@ -1518,7 +1719,7 @@ export async function generateGameArticleDraft(
       clearTimeout(timeoutId);
       signal?.removeEventListener('abort', externalAbortHandler);
     }
-  } else {
+  } else if (!skipImagesForBudget) {
     progressTracker.debug('Image Phase skipped (not enabled or no Strapi instance)');
   }
 
@@ -1536,6 +1737,8 @@ export async function generateGameArticleDraft(
     markdownWithoutImages, // Clean content for audio generation
     sources,
     plan,
+    citations,
+    ...(verdict && { verdict }),
   };
 
   // Build ScoutTokenUsage with sub-phase breakdown
@@ -1732,10 +1935,22 @@ export async function generateGameArticleDraft(
     ...(scoutOutput.queryStats && scoutOutput.queryStats.length > 0
       ? { queryStats: scoutOutput.queryStats }
       : {}),
+    ...(costBudget ? { budget: costBudget.getReport() } : {}),
+    validationWarnings: warnings.length,
   };
 
+  if (costBudget) {
+    const { degradations } = costBudget;
+    log.info(
+      `Cost budget: $${costBudget.spentUsd.toFixed(4)} of $${costBudget.maxCostUsd.toFixed(4)} USD spent` +
+        (degradations.length > 0 ? ` (degraded: ${degradations.join(', ')})` : '')
+    );
+  }
+
   // Get image curator model name if images were processed
-  const imageCuratorModel = shouldProcessImages ? getModel('ARTICLE_IMAGE_CURATOR') : undefined;
+  const imageCuratorModel = shouldProcessImages
+    ? imageCuratorSettings.model ?? getModel('ARTICLE_IMAGE_CURATOR')
+    : undefined;
 
   // Build image metadata for debugging/analytics (only if images were processed)
   const imageMetadata: DraftImageMetadata | undefined = imagePhaseResult?.imagesAdded
@@ -1772,6 +1987,7 @@ export async function generateGameArticleDraft(
       ...(cleaningDeps ? { cleaner: cleanerModel, summarizer: summarizerModel } : {}),
       ...(imageCuratorModel ? { imageCurator: imageCuratorModel } : {}),
     },
+    promptVersions,
     metadata,
     ...(shouldRunReviewer && reviewerOutput
       ? {
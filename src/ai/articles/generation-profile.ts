@@ -0,0 +1,266 @@
+/**
+ * Generation Profiles
+ *
+ * A generation profile overrides the model, temperature and output token limit
+ * of individual agents, optionally per article category, without a redeploy.
+ * Profiles are stored in the `api::generation-profile.generation-profile`
+ * content type and selected per request; anything a profile leaves unset falls
+ * back to `getModel()` and the agent `*_CONFIG` constants.
+ *
+ * Resolution order for one agent: category override → profile agent settings → defaults.
+ * Explicit `temperatureOverrides` passed to the generator still win over a profile.
+ *
+ * @example
+ * const settings: GenerationProfileSettings = {
+ *   agents: { specialist: { model: 'anthropic/claude-sonnet-4', temperature: 0.7 } },
+ *   categories: { news: { specialist: { temperature: 0.4, maxOutputTokens: 1000 } } },
+ * };
+ * validateGenerationProfileSettings(settings);
+ * resolveAgentSettings(settings, 'specialist', 'news');
+ * // → { model: 'anthropic/claude-sonnet-4', temperature: 0.4, maxOutputTokens: 1000 }
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+
+import { getModel, type AITaskKey } from '../config';
+import type { ArticleCategorySlug } from './article-plan';
+import { ArticleGenerationError } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Valid temperature range for LLM calls.
+ * Most models support 0-2, with 0 being deterministic and 2 being highly creative.
+ */
+export const TEMPERATURE_RANGE = { min: 0, max: 2 } as const;
+
+/**
+ * Agents a profile can configure, mapped to their `getModel()` task key.
+ */
+export const GENERATION_PROFILE_AGENTS = {
+  scout: 'ARTICLE_SCOUT',
+  editor: 'ARTICLE_EDITOR',
+  specialist: 'ARTICLE_SPECIALIST',
+  reviewer: 'ARTICLE_REVIEWER',
+  fixer: 'ARTICLE_FIXER',
+  cleaner: 'ARTICLE_CLEANER',
+  imageCurator: 'ARTICLE_IMAGE_CURATOR',
+} as const satisfies Record<string, AITaskKey>;
+
+export type GenerationProfileAgent = keyof typeof GENERATION_PROFILE_AGENTS;
+
+/**
+ * Agents whose output token limit can be overridden.
+ * The others either do not set a limit or size it from their input.
+ */
+const TOKEN_LIMIT_AGENTS: readonly GenerationProfileAgent[] = ['specialist', 'reviewer', 'fixer'];
+
+/** Upper bound for a profile's maxOutputTokens */
+const MAX_OUTPUT_TOKENS_LIMIT = 64000;
+
+const CATEGORY_SLUGS = ['news', 'reviews', 'guides', 'lists'] as const satisfies readonly ArticleCategorySlug[];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Overrides for a single agent. Unset fields keep their defaults.
+ */
+export interface AgentSettings {
+  /** OpenRouter model ID, e.g. 'google/gemini-3-flash-preview' */
+  readonly model?: string;
+  readonly temperature?: number;
+  /** Only honoured for specialist (per section), reviewer and fixer (smart fix) */
+  readonly maxOutputTokens?: number;
+}
+
+export type AgentSettingsMap = Partial<Record<GenerationProfileAgent, AgentSettings>>;
+
+/**
+ * Settings JSON stored on a generation profile.
+ */
+export interface GenerationProfileSettings {
+  /** Overrides applied to every category */
+  readonly agents?: AgentSettingsMap;
+  /** Per-category overrides, merged over `agents` */
+  readonly categories?: Partial<Record<ArticleCategorySlug, AgentSettingsMap>>;
+}
+
+/**
+ * A profile selected for a generation run.
+ */
+export interface SelectedGenerationProfile {
+  readonly slug: string;
+  readonly settings: GenerationProfileSettings;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Checks that a temperature is a number within TEMPERATURE_RANGE.
+ *
+ * @param label - Agent or field name used in the error message
+ * @throws ArticleGenerationError with 'CONFIG_ERROR' if the temperature is invalid
+ */
+export function assertValidTemperature(label: string, temp: unknown): void {
+  if (typeof temp !== 'number' || Number.isNaN(temp)) {
+    throw new ArticleGenerationError(
+      'CONFIG_ERROR',
+      `Invalid temperature for ${label}: ${temp} (must be a number)`
+    );
+  }
+  if (temp < TEMPERATURE_RANGE.min || temp > TEMPERATURE_RANGE.max) {
+    throw new ArticleGenerationError(
+      'CONFIG_ERROR',
+      `Invalid temperature for ${label}: ${temp} (must be between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max})`
+    );
+  }
+}
+
+// Temperatures are checked separately so the messages match validateTemperatureOverrides
+const agentSettingsSchema = z
+  .object({
+    model: z
+      .string()
+      .regex(/^[a-z0-9][\w.-]*\/[\w.:-]+$/i, 'must be an OpenRouter model ID like "provider/model"')
+      .optional(),
+    temperature: z.unknown().optional(),
+    maxOutputTokens: z.number().int().positive().max(MAX_OUTPUT_TOKENS_LIMIT).optional(),
+  })
+  .strict();
+
+const agentSettingsMapSchema = z
+  .object(
+    Object.fromEntries(
+      Object.keys(GENERATION_PROFILE_AGENTS).map((agent) => [agent, agentSettingsSchema.optional()])
+    ) as Record<GenerationProfileAgent, z.ZodOptional<typeof agentSettingsSchema>>
+  )
+  .strict();
+
+const generationProfileSettingsSchema = z
+  .object({
+    agents: agentSettingsMapSchema.optional(),
+    categories: z
+      .object(
+        Object.fromEntries(CATEGORY_SLUGS.map((slug) => [slug, agentSettingsMapSchema.optional()])) as Record<
+          ArticleCategorySlug,
+          z.ZodOptional<typeof agentSettingsMapSchema>
+        >
+      )
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Validates generation profile settings (shape, model IDs, temperatures and token limits).
+ *
+ * @returns The settings, typed
+ * @throws ArticleGenerationError with 'CONFIG_ERROR' describing the first invalid field
+ */
+export function validateGenerationProfileSettings(settings: unknown): GenerationProfileSettings {
+  const parsed = generationProfileSettingsSchema.safeParse(settings);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join('.') : 'settings';
+    throw new ArticleGenerationError('CONFIG_ERROR', `Invalid generation profile ${path}: ${issue.message}`);
+  }
+
+  const maps: Array<[string, AgentSettingsMap | undefined]> = [
+    ['agents', parsed.data.agents as AgentSettingsMap | undefined],
+    ...Object.entries(parsed.data.categories ?? {}).map(
+      ([slug, map]): [string, AgentSettingsMap | undefined] => [`categories.${slug}`, map as AgentSettingsMap | undefined]
+    ),
+  ];
+
+  for (const [prefix, map] of maps) {
+    for (const [agent, agentSettings] of Object.entries(map ?? {}) as Array<[GenerationProfileAgent, AgentSettings]>) {
+      if (!agentSettings) continue;
+      if (agentSettings.temperature !== undefined) {
+        assertValidTemperature(`${prefix}.${agent}`, agentSettings.temperature);
+      }
+      if (agentSettings.maxOutputTokens !== undefined && !TOKEN_LIMIT_AGENTS.includes(agent)) {
+        throw new ArticleGenerationError(
+          'CONFIG_ERROR',
+          `Invalid generation profile ${prefix}.${agent}.maxOutputTokens: only ${TOKEN_LIMIT_AGENTS.join(', ')} support a token limit`
+        );
+      }
+    }
+  }
+
+  return parsed.data as GenerationProfileSettings;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolves the overrides for one agent, merging the category override over the profile's agent settings.
+ *
+ * @param categorySlug - Article category; category overrides are skipped when unknown
+ */
+export function resolveAgentSettings(
+  settings: GenerationProfileSettings | undefined,
+  agent: GenerationProfileAgent,
+  categorySlug?: ArticleCategorySlug
+): AgentSettings {
+  const base = settings?.agents?.[agent];
+  const categoryOverride = categorySlug ? settings?.categories?.[categorySlug]?.[agent] : undefined;
+  return { ...base, ...categoryOverride };
+}
+
+/**
+ * Resolves the model for one agent: profile override, otherwise `getModel()`.
+ */
+export function resolveAgentModel(
+  settings: GenerationProfileSettings | undefined,
+  agent: GenerationProfileAgent,
+  categorySlug?: ArticleCategorySlug
+): string {
+  return resolveAgentSettings(settings, agent, categorySlug).model ?? getModel(GENERATION_PROFILE_AGENTS[agent]);
+}
+
+// ============================================================================
+// Traceability
+// ============================================================================
+
+/**
+ * Serializes a value with sorted object keys so equal settings hash equally.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Short fingerprint of profile settings, so a post can be traced to the exact
+ * settings that produced it even after the profile is edited.
+ */
+export function hashGenerationProfileSettings(settings: GenerationProfileSettings): string {
+  return createHash('sha256').update(stableStringify(settings)).digest('hex').slice(0, 8);
+}
+
+/**
+ * Builds the `aiWorkflow` value stored on a post.
+ *
+ * @example
+ * formatProfileWorkflow('deep-dive-v1', { slug: 'creative', settings })
+ * // → 'deep-dive-v1+profile:creative@1a2b3c4d'
+ */
+export function formatProfileWorkflow(workflow: string, profile?: SelectedGenerationProfile): string {
+  if (!profile) return workflow;
+  return `${workflow}+profile:${profile.slug}@${hashGenerationProfileSettings(profile.settings)}`;
+}
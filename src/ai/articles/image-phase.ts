@@ -212,6 +212,8 @@ export interface ImagePhaseDeps {
   readonly logger?: Logger;
   /** Abort signal for cancellation */
   readonly signal?: AbortSignal;
+  /** Optional Image Curator temperature override (default: IMAGE_CURATOR_CONFIG.TEMPERATURE) */
+  readonly temperature?: number;
 }
 
 /**
@@ -368,6 +370,7 @@ export async function runImagePhase(
         generateText,
         logger: log,
         signal,
+        temperature: deps.temperature,
       }
     );
     log?.info(`${logPrefix} Curator returned: ${curatorOutput.heroCandidates.length} hero candidates, ${curatorOutput.sectionSelections.length} section selections`);
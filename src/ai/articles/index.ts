@@ -21,6 +21,17 @@ export {
   type TemperatureOverrides,
 } from './generate-game-article';
 
+// Refresh existing articles
+export {
+  refreshGameArticle,
+  selectRefreshIssues,
+  type ArticleRefreshInput,
+  type ArticleRefreshOptions,
+  type ArticleRefreshResult,
+  type ArticleRefreshChange,
+  type ArticleRefreshAction,
+} from './refresh-article';
+
 // Types and error classes
 export {
   ArticleGenerationError,
@@ -49,6 +60,9 @@ export {
   type QueryPlan,
   type SourceSummary,
   type SourceContentType,
+  // Cost budget types
+  type BudgetDegradation,
+  type CostBudgetReport,
 } from './types';
 
 // Unified configuration
@@ -59,6 +73,11 @@ export {
   EDITOR_CONFIG,
   SPECIALIST_CONFIG,
   RETRY_CONFIG,
+  REFRESH_CONFIG,
+  CITATION_CONFIG,
+  INTERNAL_LINK_CONFIG,
+  REVIEW_VERDICT_CONFIG,
+  BUDGET_CONFIG,
 } from './config';
 
 // Article plan types and utilities
@@ -68,10 +87,12 @@ export {
   normalizeArticleCategorySlug,
   ARTICLE_PLAN_CONSTRAINTS,
   DEFAULT_ARTICLE_SAFETY,
+  ReviewVerdictSchema,
   type ArticlePlan,
   type ArticleCategorySlug,
   type ArticleCategorySlugInput,
   type ArticleSectionPlan,
+  type ReviewVerdict,
 } from './article-plan';
 
 // Markdown utilities
@@ -83,6 +104,38 @@ export {
   type MarkdownH2Section,
 } from './markdown-utils';
 
+// Inline citations
+export {
+  buildCitationMap,
+  findUnsupportedClaims,
+  getCitationId,
+  stripCitationMarkers,
+  type CitationMap,
+  type CitationSource,
+  type CitedClaim,
+} from './citations';
+
+// Review verdicts
+export {
+  extractReviewScore,
+  formatReviewScoreLine,
+  measureReviewTone,
+  normalizeReviewScore,
+  type ReviewScore,
+  type ReviewTone,
+} from './review-verdict';
+
+// Related posts and internal links
+export {
+  scoreRelatedPost,
+  selectRelatedPosts,
+  stripInternalLinks,
+  weaveInternalLinks,
+  type InsertedInternalLink,
+  type InternalLinkTarget,
+  type RelatedPostSignals,
+} from './internal-links';
+
 // Validation
 export {
   validateArticleDraft,
@@ -104,6 +157,29 @@ export {
   processSearchResults,
 } from './research-pool';
 
+// Cost budget
+export {
+  CostBudget,
+  estimateLLMCallCost,
+  isBudgetExceededError,
+  wrapGenerateTextWithBudget,
+  wrapSearchWithBudget,
+} from './cost-budget';
+
+// Generation profiles (stored per-agent model/temperature overrides)
+export {
+  GENERATION_PROFILE_AGENTS,
+  TEMPERATURE_RANGE,
+  formatProfileWorkflow,
+  resolveAgentModel,
+  resolveAgentSettings,
+  validateGenerationProfileSettings,
+  type AgentSettings,
+  type GenerationProfileAgent,
+  type GenerationProfileSettings,
+  type SelectedGenerationProfile,
+} from './generation-profile';
+
 // Retry utilities
 export {
   withRetry,
@@ -112,6 +188,24 @@ export {
   type RetryOptions,
 } from './retry';
 
+// Record/replay harness (offline regression runs)
+export {
+  recordGameArticleRun,
+  replayGameArticleRun,
+  createGenerationRecorder,
+  createGenerationReplayer,
+  saveReplayBundle,
+  loadReplayBundle,
+  parseReplayBundle,
+  ReplayMismatchError,
+  REPLAY_BUNDLE_VERSION,
+  type ReplayBundle,
+  type ReplayReport,
+  type ReplayDivergence,
+  type RecordedLlmCall,
+  type RecordedHttpCall,
+} from './record-replay';
+
 // Agents (for advanced usage / testing)
 export {
   runScout,
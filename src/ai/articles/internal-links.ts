@@ -0,0 +1,237 @@
+/**
+ * Internal Links
+ *
+ * Related-post scoring and internal-link weaving for finished articles.
+ *
+ * - Related posts are scored by shared games, franchises, tags and category.
+ * - Links to related posts and game pages are woven into existing prose: the
+ *   first mention of an anchor phrase becomes a link. No text is added, so the
+ *   article reads the same with or without links.
+ *
+ * Weaving is idempotent: targets that are already linked are skipped, so it
+ * can be re-run as new posts are published. Links stay within a per-article
+ * and per-section budget so they spread through the article.
+ */
+
+import { INTERNAL_LINK_CONFIG } from './config';
+import { buildH2LineMap, normalizeHeadline } from './utils/headline-utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Signals a post shares with other posts (document IDs, category slug).
+ */
+export interface RelatedPostSignals {
+  readonly gameIds: readonly string[];
+  readonly franchiseIds: readonly string[];
+  readonly tagIds: readonly string[];
+  readonly categorySlug: string | null;
+}
+
+/**
+ * A page the article can link to.
+ */
+export interface InternalLinkTarget {
+  /** Site-relative URL (e.g. `/en/games/elden-ring`) */
+  readonly url: string;
+  readonly kind: 'post' | 'game';
+  /** Phrases that may become the link text, in order of preference */
+  readonly anchors: readonly string[];
+}
+
+/**
+ * A link woven into the article.
+ */
+export interface InsertedInternalLink {
+  readonly url: string;
+  readonly kind: InternalLinkTarget['kind'];
+  /** Link text as it appears in the article */
+  readonly anchor: string;
+  /** Section headline ('' for the introduction) */
+  readonly section: string;
+}
+
+export interface InternalLinkOptions {
+  /** Maximum links in the article (default: INTERNAL_LINK_CONFIG.MAX_LINKS) */
+  readonly maxLinks?: number;
+  /** Maximum links per section (default: INTERNAL_LINK_CONFIG.MAX_LINKS_PER_SECTION) */
+  readonly maxLinksPerSection?: number;
+}
+
+export interface InternalLinkResult {
+  readonly markdown: string;
+  readonly links: readonly InsertedInternalLink[];
+}
+
+// ============================================================================
+// Related Posts
+// ============================================================================
+
+function countShared(a: readonly string[], b: readonly string[]): number {
+  const set = new Set(a);
+  return new Set(b.filter((id) => set.has(id))).size;
+}
+
+/**
+ * Scores how related a candidate post is (0 = nothing in common).
+ */
+export function scoreRelatedPost(post: RelatedPostSignals, candidate: RelatedPostSignals): number {
+  const weights = INTERNAL_LINK_CONFIG.SCORE_WEIGHTS;
+  return (
+    countShared(post.gameIds, candidate.gameIds) * weights.game +
+    countShared(post.franchiseIds, candidate.franchiseIds) * weights.franchise +
+    countShared(post.tagIds, candidate.tagIds) * weights.tag +
+    (post.categorySlug && post.categorySlug === candidate.categorySlug ? weights.category : 0)
+  );
+}
+
+/**
+ * Picks the most related candidates: highest score first, newer posts on ties.
+ * Candidates below INTERNAL_LINK_CONFIG.MIN_RELATED_SCORE are dropped.
+ */
+export function selectRelatedPosts<T extends RelatedPostSignals & { readonly publishedAt?: string | null }>(
+  post: RelatedPostSignals,
+  candidates: readonly T[],
+  limit: number = INTERNAL_LINK_CONFIG.MAX_RELATED_POSTS
+): Array<{ candidate: T; score: number }> {
+  return candidates
+    .map((candidate) => ({ candidate, score: scoreRelatedPost(post, candidate) }))
+    .filter(({ score }) => score >= INTERNAL_LINK_CONFIG.MIN_RELATED_SCORE)
+    .sort(
+      (a, b) =>
+        b.score - a.score || (b.candidate.publishedAt ?? '').localeCompare(a.candidate.publishedAt ?? '')
+    )
+    .slice(0, limit);
+}
+
+// ============================================================================
+// Link Weaving
+// ============================================================================
+
+/** Spans a new link must not overlap: links, images, inline code, citation markers, HTML, bare URLs */
+const PROTECTED_SPAN = /!?\[[^\]]*\]\([^)]*\)|`[^`]*`|\[\^[^\]]+\]|<[^>]+>|https?:\/\/\S+/g;
+
+/** Markdown links to site-relative URLs (not images) */
+const INTERNAL_LINK = /(?<!!)\[([^\]]+)\]\((\/[^)\s]*)\)/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a line is prose that may hold a link (not a heading, image,
+ * caption, table row or HTML).
+ */
+function isLinkableLine(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed) return false;
+  return !/^(#{1,6}\s|!\[|\||<)/.test(trimmed) && !/^\*[^*]+\*$/.test(trimmed);
+}
+
+/**
+ * Finds the first whole-word, case-insensitive match of an anchor outside
+ * protected spans.
+ */
+function findAnchor(line: string, anchor: string): { index: number; text: string } | null {
+  const protectedSpans = [...line.matchAll(PROTECTED_SPAN)].map((m) => [m.index, m.index + m[0].length]);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(anchor)}(?![\\p{L}\\p{N}])`, 'giu');
+
+  for (const match of line.matchAll(pattern)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (protectedSpans.some(([from, to]) => start < to && end > from)) continue;
+    return { index: start, text: match[0] };
+  }
+  return null;
+}
+
+/**
+ * Section headline for each line ('' before the first H2).
+ */
+function mapLineSections(lines: readonly string[]): string[] {
+  // buildH2LineMap is 1-indexed
+  const starts = [...buildH2LineMap(lines)].map(([headline, line]) => ({ headline, index: line - 1 }));
+  starts.sort((a, b) => a.index - b.index);
+
+  const sections: string[] = [];
+  let current = '';
+  for (let i = 0; i < lines.length; i++) {
+    const start = starts.find((s) => s.index === i);
+    if (start) current = start.headline;
+    sections.push(current);
+  }
+  return sections;
+}
+
+/**
+ * Links the first mention of each target in the article's prose.
+ *
+ * Targets are tried in order until the link budget is spent; put the most
+ * useful ones first. A target already linked anywhere in the article is
+ * skipped. Headings, images, tables, code and the Sources section are never linked.
+ */
+export function weaveInternalLinks(
+  markdown: string,
+  targets: readonly InternalLinkTarget[],
+  options: InternalLinkOptions = {}
+): InternalLinkResult {
+  const maxLinks = options.maxLinks ?? INTERNAL_LINK_CONFIG.MAX_LINKS;
+  const maxPerSection = options.maxLinksPerSection ?? INTERNAL_LINK_CONFIG.MAX_LINKS_PER_SECTION;
+
+  const lines = markdown.split('\n');
+  const sections = mapLineSections(lines);
+  const linksPerSection = new Map<string, number>();
+  const links: InsertedInternalLink[] = [];
+
+  // Lines inside fenced code blocks are never linked
+  const inCode: boolean[] = [];
+  let fenceOpen = false;
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      fenceOpen = !fenceOpen;
+      inCode.push(true);
+    } else {
+      inCode.push(fenceOpen);
+    }
+  }
+
+  for (const target of targets) {
+    if (links.length >= maxLinks) break;
+    if (markdown.includes(`](${target.url})`)) continue;
+
+    const anchors = target.anchors.filter((a) => a.trim().length >= INTERNAL_LINK_CONFIG.MIN_ANCHOR_LENGTH);
+
+    search: for (const anchor of anchors) {
+      for (let i = 0; i < lines.length; i++) {
+        const section = sections[i];
+        if (inCode[i] || !isLinkableLine(lines[i])) continue;
+        if (normalizeHeadline(section) === 'sources') continue;
+        if ((linksPerSection.get(section) ?? 0) >= maxPerSection) continue;
+
+        const match = findAnchor(lines[i], anchor.trim());
+        if (!match) continue;
+
+        const line = lines[i];
+        lines[i] =
+          line.slice(0, match.index) +
+          `[${match.text}](${target.url})` +
+          line.slice(match.index + match.text.length);
+        linksPerSection.set(section, (linksPerSection.get(section) ?? 0) + 1);
+        links.push({ url: target.url, kind: target.kind, anchor: match.text, section });
+        break search;
+      }
+    }
+  }
+
+  return { markdown: lines.join('\n'), links };
+}
+
+/**
+ * Removes links to site-relative URLs, keeping their text.
+ * Used before translating, since links point to pages in the source locale.
+ */
+export function stripInternalLinks(markdown: string): string {
+  return markdown.replace(INTERNAL_LINK, '$1');
+}
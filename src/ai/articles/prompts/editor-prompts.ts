@@ -12,12 +12,10 @@ import {
 import type { EditorPromptContext, EditorPrompts } from './shared/editor';
 import { ArticleCategorySlug } from '../article-plan';
 
-// Import strategies
-import { editorPrompts as guidesPrompts } from './guides/editor';
-import { editorPrompts as reviewsPrompts } from './reviews/editor';
-import { editorPrompts as newsPrompts } from './news/editor';
-import { editorPrompts as listsPrompts } from './lists/editor';
+// Category strategies are versioned in the prompt registry
+import { getPromptStrategy } from './registry';
 import { genericEditorPrompts } from './shared/generic-editor';
+import { REVIEW_EDITOR_VERDICT_RULES } from './reviews/verdict';
 
 // Re-export utils
 export { 
@@ -29,32 +27,36 @@ export {
 };
 export type { EditorPromptContext };
 
-const strategies: Record<ArticleCategorySlug, EditorPrompts> = {
-  guides: guidesPrompts,
-  reviews: reviewsPrompts,
-  news: newsPrompts,
-  lists: listsPrompts,
-};
-
-function getStrategy(categorySlug?: ArticleCategorySlug): EditorPrompts {
-  if (categorySlug && strategies[categorySlug]) {
-    return strategies[categorySlug];
+/**
+ * Uncategorized articles use the generic prompts, which are not versioned.
+ */
+function getStrategy(categorySlug?: ArticleCategorySlug, promptVersion?: string): EditorPrompts {
+  if (categorySlug) {
+    return getPromptStrategy('editor', categorySlug, promptVersion);
   }
   return genericEditorPrompts;
 }
 
 /**
  * System prompt for the Editor agent.
+ *
+ * @param promptVersion - Registered prompt version (default: 'v1')
  */
-export function getEditorSystemPrompt(localeInstruction: string, categorySlug?: ArticleCategorySlug): string {
-  const strategy = getStrategy(categorySlug);
+export function getEditorSystemPrompt(
+  localeInstruction: string,
+  categorySlug?: ArticleCategorySlug,
+  promptVersion?: string
+): string {
+  const strategy = getStrategy(categorySlug, promptVersion);
   return strategy.getSystemPrompt(localeInstruction);
 }
 
 /**
  * User prompt for the Editor agent.
+ * Reviews get the verdict planning rules for every prompt version.
  */
 export function getEditorUserPrompt(ctx: EditorPromptContext): string {
-  const strategy = getStrategy(ctx.categorySlug);
-  return strategy.getUserPrompt(ctx);
+  const strategy = getStrategy(ctx.categorySlug, ctx.promptVersion);
+  const userPrompt = strategy.getUserPrompt(ctx);
+  return ctx.categorySlug === 'reviews' ? `${userPrompt}\n\n${REVIEW_EDITOR_VERDICT_RULES}` : userPrompt;
 }
\ No newline at end of file
@@ -8,4 +8,4 @@ export * from './scout-prompts';
 export * from './editor-prompts';
 export * from './specialist-prompts';
 export * from './reviewer-prompts';
-
+export * from './registry';
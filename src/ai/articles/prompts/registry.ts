@@ -0,0 +1,181 @@
+/**
+ * Prompt Registry
+ *
+ * Versioned prompt strategies for the agents with per-category prompts
+ * (Editor, Specialist, Reviewer). Version 'v1' of each is the current
+ * category module; further versions are variants compared through prompt
+ * experiments. The facades resolve a strategy through `getPromptStrategy()`.
+ *
+ * Adding a variant: build it (usually with `withSystemPromptAddendum()` from
+ * the v1 strategy) and add it under a new version key below. Never change what
+ * an existing version produces — posts record the versions that wrote them.
+ *
+ * Scout prompts are not registered: the Scout uses the query planner
+ * (query-optimizer.ts), not the category modules.
+ */
+
+import type { ArticleCategorySlug } from '../article-plan';
+import { ArticleGenerationError } from '../types';
+import type { EditorPrompts } from './shared/editor';
+import type { ReviewerPrompts } from './shared/reviewer';
+import type { SpecialistPrompts } from './shared/specialist';
+
+import { editorPrompts as guidesEditor } from './guides/editor';
+import { editorPrompts as reviewsEditor } from './reviews/editor';
+import { editorPrompts as newsEditor } from './news/editor';
+import { editorPrompts as listsEditor } from './lists/editor';
+import { specialistPrompts as guidesSpecialist } from './guides/specialist';
+import { specialistPrompts as reviewsSpecialist } from './reviews/specialist';
+import { specialistPrompts as newsSpecialist } from './news/specialist';
+import { specialistPrompts as listsSpecialist } from './lists/specialist';
+import { reviewerPrompts as guidesReviewer } from './guides/reviewer';
+import { reviewerPrompts as reviewsReviewer } from './reviews/reviewer';
+import { reviewerPrompts as newsReviewer } from './news/reviewer';
+import { reviewerPrompts as listsReviewer } from './lists/reviewer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Agents with versioned prompts */
+export const PROMPT_AGENTS = ['editor', 'specialist', 'reviewer'] as const;
+
+export type PromptAgent = (typeof PROMPT_AGENTS)[number];
+
+/** Version used when none is selected */
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+interface PromptStrategies {
+  editor: EditorPrompts;
+  specialist: SpecialistPrompts;
+  reviewer: ReviewerPrompts;
+}
+
+/**
+ * Prompt version per agent. Unset agents use DEFAULT_PROMPT_VERSION.
+ * A version applies to whichever category the article ends up in.
+ */
+export type PromptVersions = Partial<Record<PromptAgent, string>>;
+
+type PromptRegistry = {
+  readonly [A in PromptAgent]: Record<ArticleCategorySlug, Readonly<Record<string, PromptStrategies[A]>>>;
+};
+
+// ============================================================================
+// Variant Helpers
+// ============================================================================
+
+/**
+ * Builds a variant that appends instructions to a strategy's system prompt
+ * and keeps its user prompts.
+ */
+export function withSystemPromptAddendum<T extends { getSystemPrompt(...args: never[]): string }>(
+  base: T,
+  addendum: string
+): T {
+  return {
+    ...base,
+    getSystemPrompt: (...args: Parameters<T['getSystemPrompt']>) =>
+      `${base.getSystemPrompt(...args)}\n\n${addendum}`,
+  };
+}
+
+/**
+ * Specialist v2: opens each section with its most useful fact instead of a lead-in.
+ */
+const LEAD_FIRST_ADDENDUM = `SECTION OPENINGS:
+- Open every section with its single most useful fact, number or instruction
+- Never restate the headline or announce what the section will cover
+- Save context and background for after the key point`;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const PROMPT_REGISTRY: PromptRegistry = {
+  editor: {
+    guides: { v1: guidesEditor },
+    reviews: { v1: reviewsEditor },
+    news: { v1: newsEditor },
+    lists: { v1: listsEditor },
+  },
+  specialist: {
+    guides: { v1: guidesSpecialist, v2: withSystemPromptAddendum(guidesSpecialist, LEAD_FIRST_ADDENDUM) },
+    reviews: { v1: reviewsSpecialist, v2: withSystemPromptAddendum(reviewsSpecialist, LEAD_FIRST_ADDENDUM) },
+    news: { v1: newsSpecialist, v2: withSystemPromptAddendum(newsSpecialist, LEAD_FIRST_ADDENDUM) },
+    lists: { v1: listsSpecialist, v2: withSystemPromptAddendum(listsSpecialist, LEAD_FIRST_ADDENDUM) },
+  },
+  reviewer: {
+    guides: { v1: guidesReviewer },
+    reviews: { v1: reviewsReviewer },
+    news: { v1: newsReviewer },
+    lists: { v1: listsReviewer },
+  },
+};
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Lists the registered versions of an agent's prompt for a category.
+ */
+export function listPromptVersions(agent: PromptAgent, categorySlug: ArticleCategorySlug): string[] {
+  return Object.keys(PROMPT_REGISTRY[agent][categorySlug]);
+}
+
+/**
+ * Returns the prompt strategy for an agent, category and version.
+ *
+ * @param version - Prompt version (default: DEFAULT_PROMPT_VERSION)
+ * @throws ArticleGenerationError with 'CONFIG_ERROR' if the version is not registered for the category
+ */
+export function getPromptStrategy<A extends PromptAgent>(
+  agent: A,
+  categorySlug: ArticleCategorySlug,
+  version: string = DEFAULT_PROMPT_VERSION
+): PromptStrategies[A] {
+  const strategy = PROMPT_REGISTRY[agent][categorySlug]?.[version] as PromptStrategies[A] | undefined;
+  if (!strategy) {
+    throw new ArticleGenerationError(
+      'CONFIG_ERROR',
+      `Unknown ${agent} prompt version "${version}" for ${categorySlug} ` +
+        `(available: ${listPromptVersions(agent, categorySlug).join(', ')})`
+    );
+  }
+  return strategy;
+}
+
+/**
+ * Checks that every selected version exists for the category, or for every
+ * category when the article's category is not known yet.
+ *
+ * @throws ArticleGenerationError with 'CONFIG_ERROR' for an unknown agent or version
+ */
+export function validatePromptVersions(versions: PromptVersions | undefined, categorySlug?: ArticleCategorySlug): void {
+  const categorySlugs = categorySlug
+    ? [categorySlug]
+    : (Object.keys(PROMPT_REGISTRY.editor) as ArticleCategorySlug[]);
+
+  for (const [agent, version] of Object.entries(versions ?? {})) {
+    if (!(PROMPT_AGENTS as readonly string[]).includes(agent)) {
+      throw new ArticleGenerationError(
+        'CONFIG_ERROR',
+        `Unknown prompt agent "${agent}" (must be one of: ${PROMPT_AGENTS.join(', ')})`
+      );
+    }
+    if (version === undefined) continue;
+    for (const slug of categorySlugs) {
+      getPromptStrategy(agent as PromptAgent, slug, version);
+    }
+  }
+}
+
+/**
+ * Fills in DEFAULT_PROMPT_VERSION for unset agents (recorded on the draft).
+ */
+export function resolvePromptVersions(versions: PromptVersions | undefined): Record<PromptAgent, string> {
+  return Object.fromEntries(
+    PROMPT_AGENTS.map((agent) => [agent, versions?.[agent] ?? DEFAULT_PROMPT_VERSION])
+  ) as Record<PromptAgent, string>;
+}
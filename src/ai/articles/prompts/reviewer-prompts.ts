@@ -3,48 +3,46 @@
  */
 
 import { 
+  buildCitedClaimsForReviewer,
   buildResearchSummaryForReviewer,
 } from './shared/reviewer-utils';
 import type { ReviewerPromptContext, ReviewerPrompts } from './shared/reviewer';
 import type { ArticleCategorySlug } from '../article-plan';
 
-// Import strategies
-import { reviewerPrompts as guidesPrompts } from './guides/reviewer';
-import { reviewerPrompts as reviewsPrompts } from './reviews/reviewer';
-import { reviewerPrompts as newsPrompts } from './news/reviewer';
-import { reviewerPrompts as listsPrompts } from './lists/reviewer';
+// Category strategies are versioned in the prompt registry
+import { getPromptStrategy } from './registry';
 
 // Re-export utils
-export { buildResearchSummaryForReviewer };
+export { buildCitedClaimsForReviewer, buildResearchSummaryForReviewer };
 export type { ReviewerPromptContext };
 
-const strategies: Record<ArticleCategorySlug, ReviewerPrompts> = {
-  guides: guidesPrompts,
-  reviews: reviewsPrompts,
-  news: newsPrompts,
-  lists: listsPrompts,
-};
-
-function getStrategy(categorySlug: ArticleCategorySlug): ReviewerPrompts {
-  if (strategies[categorySlug]) {
-    return strategies[categorySlug];
-  }
-  // Default fallback (though category should always be valid)
-  return guidesPrompts;
+function getStrategy(categorySlug: ArticleCategorySlug, promptVersion?: string): ReviewerPrompts {
+  return getPromptStrategy('reviewer', categorySlug, promptVersion);
 }
 
 /**
  * System prompt for the Reviewer agent.
+ *
+ * @param promptVersion - Registered prompt version (default: 'v1')
  */
-export function getReviewerSystemPrompt(categorySlug?: ArticleCategorySlug): string {
-  const strategy = getStrategy(categorySlug || 'guides');
+export function getReviewerSystemPrompt(categorySlug?: ArticleCategorySlug, promptVersion?: string): string {
+  // Default fallback (though category should always be valid)
+  const strategy = getStrategy(categorySlug || 'guides', promptVersion);
   return strategy.getSystemPrompt();
 }
 
 /**
  * User prompt for the Reviewer agent.
+ * Cited claims, when present, are appended for a per-claim accuracy check.
  */
 export function getReviewerUserPrompt(ctx: ReviewerPromptContext): string {
-  const strategy = getStrategy(ctx.categorySlug);
-  return strategy.getUserPrompt(ctx);
+  const strategy = getStrategy(ctx.categorySlug, ctx.promptVersion);
+  const prompt = strategy.getUserPrompt(ctx);
+  if (!ctx.citedClaims) return prompt;
+
+  return `${prompt}
+
+${ctx.citedClaims}
+
+Check each cited claim against the sources it cites. Report a claim the cited evidence does not support (wrong number, date, name or overstated certainty) as a "factual" issue quoting the claim.`;
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Review Verdict Prompts
+ *
+ * Rules for the structured verdict, appended by the prompt facades to every
+ * reviews prompt version (versions themselves stay unchanged).
+ */
+
+import { REVIEW_VERDICT_CONFIG } from '../../config';
+import { formatReviewScoreLine } from '../../review-verdict';
+
+const {
+  SCORE_MAX,
+  SUMMARY_MIN_LENGTH,
+  SUMMARY_MAX_LENGTH,
+  ITEM_MAX_LENGTH,
+  MIN_PROS,
+  MAX_PROS,
+  MIN_CONS,
+  MAX_CONS,
+  MIN_PLAY_IT_IF,
+  MAX_PLAY_IT_IF,
+  MAX_PLATFORM_NOTES,
+} = REVIEW_VERDICT_CONFIG;
+
+/**
+ * Appended to the Editor's user prompt for reviews.
+ */
+export const REVIEW_EDITOR_VERDICT_RULES = `=== VERDICT PLANNING ===
+- The LAST section is the verdict (e.g. "Verdict"); no section may follow it
+- Its mustCover lists the main pros and cons the verdict weighs, and the kind of player it suits
+- If the game is on several platforms, plan where each version stands (performance, controls, exclusives)`;
+
+/**
+ * Appended to the Specialist's user prompt for the last section of a review.
+ */
+export const REVIEW_SPECIALIST_VERDICT_RULES = `=== VERDICT SECTION ===
+This is the verdict. Weigh the strengths and weaknesses covered in the earlier sections and give a clear recommendation.
+- End the section with the score on its own line, exactly in this form: ${formatReviewScoreLine(8.5)}
+- Score out of ${SCORE_MAX} in steps of 0.5
+- The score must match the tone of the review: mostly praise means a high score, mostly criticism a low one
+- Do not introduce pros or cons the earlier sections didn't discuss`;
+
+/**
+ * Verdict requirements for the Metadata agent, which returns the structured
+ * verdict alongside the SEO metadata.
+ *
+ * @param verdictSection - The article's verdict section, which may fall past
+ *   the truncated article preview
+ */
+export function buildReviewVerdictPrompt(verdictSection: string | undefined): string {
+  const section = verdictSection ? `\n=== VERDICT SECTION (Full) ===\n${verdictSection}\n` : '';
+
+  return `${section}
+=== VERDICT REQUIREMENTS ===
+Also return "verdict", summarizing the review's conclusion. Take everything from the article—never add opinions it doesn't state.
+
+**score**: 0-${SCORE_MAX} in steps of 0.5. Use the score stated in the verdict section (e.g. ${formatReviewScoreLine(8.5)}) unchanged
+**summary** (${SUMMARY_MIN_LENGTH}-${SUMMARY_MAX_LENGTH} chars): the verdict in one or two sentences
+**pros** (${MIN_PROS}-${MAX_PROS}) and **cons** (${MIN_CONS}-${MAX_CONS}): short phrases, max ${ITEM_MAX_LENGTH} chars each, e.g. "Tight, responsive parry system"
+**playItIf** (${MIN_PLAY_IT_IF}-${MAX_PLAY_IT_IF}): who should play it, e.g. "You enjoy turn-based combat with real-time timing"
+**platformNotes** (0-${MAX_PLATFORM_NOTES}): { platform, note } for platforms the article says something specific about; empty when it doesn't`;
+}
@@ -30,6 +30,8 @@ export interface EditorPromptContext {
    * Editor can use this as a starting point or create a new one.
    */
   readonly draftTitle: string;
+  /** Registered prompt version (default: 'v1') */
+  readonly promptVersion?: string;
 }
 
 export interface EditorPrompts {
@@ -1,5 +1,6 @@
 import type { ArticleCategorySlug } from '../../article-plan';
-import type { SourceSummary } from '../../types';
+import type { CitationMap } from '../../citations';
+import type { SearchResultItem, SourceSummary } from '../../types';
 import type { ReviewerPromptContext as BaseReviewerPromptContext } from './reviewer';
 
 // Re-export base type and extend with sourceSummaries
@@ -73,3 +74,46 @@ export function buildResearchSummaryForReviewer(
   
   return '';
 }
+
+/**
+ * Builds the per-claim evidence block for the Reviewer: each cited sentence
+ * with what its sources say (key facts or summary, else a content excerpt).
+ *
+ * @param citations - Claim-to-source map of the article
+ * @param sources - Research results by citation ID
+ * @param maxClaims - Maximum claims to include
+ * @param excerptLength - Maximum characters of evidence per source
+ */
+export function buildCitedClaimsForReviewer(
+  citations: CitationMap,
+  sources: ReadonlyMap<string, SearchResultItem>,
+  maxClaims: number,
+  excerptLength: number
+): string {
+  if (citations.claims.length === 0) return '';
+
+  const parts: string[] = ['=== CITED CLAIMS ==='];
+
+  citations.claims.slice(0, maxClaims).forEach((claim, index) => {
+    const lines = [`${index + 1}. [${claim.section}] "${claim.text}"`];
+    for (const id of claim.sourceIds) {
+      const source = sources.get(id);
+      if (!source) {
+        lines.push(`   [^${id}] (unknown source)`);
+        continue;
+      }
+      const evidence =
+        source.keyFacts && source.keyFacts.length > 0
+          ? source.keyFacts.join(' • ')
+          : source.detailedSummary || source.summary || source.content;
+      lines.push(`   [^${id}] ${source.title}: ${evidence.replace(/\s+/g, ' ').slice(0, excerptLength)}`);
+    }
+    parts.push(lines.join('\n'));
+  });
+
+  if (citations.claims.length > maxClaims) {
+    parts.push(`...(${citations.claims.length - maxClaims} more cited claims not shown)`);
+  }
+
+  return parts.join('\n');
+}
@@ -14,7 +14,11 @@ export interface ReviewerPromptContext {
   readonly plan: ArticlePlanWithTitle;
   readonly markdown: string;
   readonly researchSummary: string;
+  /** Cited sentences with the evidence of their sources (empty if the article has no citations) */
+  readonly citedClaims?: string;
   readonly categorySlug: ArticleCategorySlug;
+  /** Registered prompt version (default: 'v1') */
+  readonly promptVersion?: string;
 }
 
 export interface ReviewerPrompts {
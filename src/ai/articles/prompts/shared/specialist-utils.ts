@@ -1,5 +1,6 @@
-import type { CategorizedSearchResult, ContentType, SearchResultItem, SearchSource, SourceUsageItem } from '../../types';
+import type { CategorizedSearchResult, ContentType, SearchResultItem, SourceSummary, SourceUsageItem } from '../../types';
 import { SPECIALIST_CONFIG } from '../../config';
+import { formatCitationMarker, getCitationId } from '../../citations';
 
 /**
  * Result of content selection.
@@ -128,7 +129,7 @@ export function buildResearchContext(
             ...(result.wasCached !== undefined ? { wasCached: result.wasCached } : {}),
           });
 
-          return `  - ${result.title} (${result.url})\n    ${source.content}`;
+          return `  - ${formatCitationMarker(getCitationId(result.url))} ${result.title} (${result.url})\n    ${source.content}`;
         })
         .join('\n');
 
@@ -141,3 +142,27 @@ ${topResults}`;
 
   return { context, sourceUsage: allSourceUsage };
 }
+
+/**
+ * Citation rules appended to every Specialist system prompt
+ * (all categories and prompt versions).
+ */
+export const SPECIALIST_CITATION_RULES = `CITATIONS (Required):
+- After every sentence that uses a fact from the research, add the marker of its source right after the closing punctuation: "The boss has two phases.[^src-1a2b3c4d]"
+- A sentence drawing on two sources gets both markers: "...phases.[^src-1a2b3c4d][^src-5e6f7a8b]"
+- Cite numbers, dates, names, stats and announcements; hooks, opinions and transitions need no marker
+- Only use markers shown in the research—never invent one`;
+
+/**
+ * Lists the citation markers of the source summaries shown to the Specialist
+ * (research results carry their marker inline).
+ *
+ * @returns Marker list, or an empty string without summaries
+ */
+export function buildSourceSummaryMarkers(sourceSummaries?: readonly SourceSummary[]): string {
+  const markers = (sourceSummaries ?? [])
+    .slice(0, SPECIALIST_CONFIG.MAX_SOURCE_SUMMARIES_IN_PROMPT)
+    .map((s) => `  - ${formatCitationMarker(getCitationId(s.url))} ${s.title}`);
+
+  return markers.length > 0 ? `Source summary markers:\n${markers.join('\n')}` : '';
+}
@@ -27,6 +27,8 @@ export interface SpecialistSectionContext {
    * Used for writing with high specificity.
    */
   readonly sourceSummaries?: readonly SourceSummary[];
+  /** Registered prompt version (default: 'v1') */
+  readonly promptVersion?: string;
 }
 
 export interface SpecialistPrompts {
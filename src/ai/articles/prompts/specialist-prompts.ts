@@ -2,58 +2,50 @@
  * Specialist Agent Prompts - Facade
  */
 
-import { buildResearchContext } from './shared/specialist-utils';
+import { buildResearchContext, buildSourceSummaryMarkers, SPECIALIST_CITATION_RULES } from './shared/specialist-utils';
 import type { SpecialistPrompts, SpecialistSectionContext } from './shared/specialist';
 import type { ArticlePlan, ArticleCategorySlug } from '../article-plan';
 
-// Import strategies
-import { specialistPrompts as guidesPrompts } from './guides/specialist';
-import { specialistPrompts as reviewsPrompts } from './reviews/specialist';
-import { specialistPrompts as newsPrompts } from './news/specialist';
-import { specialistPrompts as listsPrompts } from './lists/specialist';
+// Category strategies are versioned in the prompt registry
+import { getPromptStrategy } from './registry';
 import { genericSpecialistPrompts } from './shared/generic-specialist';
+import { REVIEW_SPECIALIST_VERDICT_RULES } from './reviews/verdict';
 
 // Re-export utils
-export { buildResearchContext };
+export { buildResearchContext, buildSourceSummaryMarkers };
 export type { SpecialistSectionContext };
 
 // Re-export getCategoryToneGuide for backwards compatibility if needed, 
 // though strategies handle this internally now.
 export { getCategoryToneGuide } from './shared/generic-specialist'; 
 
-const strategies: Record<ArticleCategorySlug, SpecialistPrompts> = {
-  guides: guidesPrompts,
-  reviews: reviewsPrompts,
-  news: newsPrompts,
-  lists: listsPrompts,
-};
-
-function getStrategy(categorySlug: ArticleCategorySlug): SpecialistPrompts {
-  if (strategies[categorySlug]) {
-    return strategies[categorySlug];
-  }
-  return genericSpecialistPrompts;
+function getStrategy(categorySlug: ArticleCategorySlug, promptVersion?: string): SpecialistPrompts {
+  return getPromptStrategy('specialist', categorySlug, promptVersion);
 }
 
 /**
  * System prompt for the Specialist agent.
+ * Citation rules are appended for every category and prompt version.
+ *
+ * @param promptVersion - Registered prompt version (default: 'v1')
  */
 export function getSpecialistSystemPrompt(
   localeInstruction: string,
   // Note: We ignore the old categoryToneGuide param if strategy is used, 
   // but keep it for signature compatibility if we fallback to generic.
   categoryToneGuide: string, 
-  categorySlug?: ArticleCategorySlug
+  categorySlug?: ArticleCategorySlug,
+  promptVersion?: string
 ): string {
-  if (categorySlug) {
-    const strategy = getStrategy(categorySlug);
-    return strategy.getSystemPrompt(localeInstruction);
-  }
-  return genericSpecialistPrompts.getSystemPrompt(localeInstruction);
+  const systemPrompt = categorySlug
+    ? getStrategy(categorySlug, promptVersion).getSystemPrompt(localeInstruction)
+    : genericSpecialistPrompts.getSystemPrompt(localeInstruction);
+  return `${systemPrompt}\n\n${SPECIALIST_CITATION_RULES}`;
 }
 
 /**
  * User prompt for the Specialist agent.
+ * The last section of a review gets the verdict rules for every prompt version.
  */
 export function getSpecialistSectionUserPrompt(
   ctx: SpecialistSectionContext,
@@ -61,6 +53,9 @@ export function getSpecialistSectionUserPrompt(
   gameName: string
 ): string {
   // Plan always has the categorySlug
-  const strategy = getStrategy(plan.categorySlug);
-  return strategy.getSectionUserPrompt(ctx, plan, gameName);
+  const strategy = getStrategy(plan.categorySlug, ctx.promptVersion);
+  const userPrompt = strategy.getSectionUserPrompt(ctx, plan, gameName);
+  return plan.categorySlug === 'reviews' && ctx.isLast
+    ? `${userPrompt}\n\n${REVIEW_SPECIALIST_VERDICT_RULES}`
+    : userPrompt;
 }
\ No newline at end of file
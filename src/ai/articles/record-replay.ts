@@ -0,0 +1,813 @@
+/**
+ * Record/Replay Harness
+ *
+ * Captures every external call made during a live `generateGameArticleDraft`
+ * run into a JSON fixture bundle, and feeds that bundle back in
+ * deterministically so real-world runs can be regression-tested in CI
+ * without API keys or network access.
+ *
+ * Two layers are intercepted:
+ * - LLM calls via the injectable `generateText` dependency. Prompt, output
+ *   schema, raw response text, usage and provider metadata are stored. On
+ *   replay the recorded text is re-parsed against the *current* schema, so
+ *   schema and validation changes are exercised against real responses.
+ * - Everything else (Tavily, Exa, IGDB, image downloads) via `globalThis.fetch`,
+ *   which the search tools and image downloader call directly. OpenRouter
+ *   traffic is skipped here because it is already captured as LLM calls.
+ *
+ * Replay matches calls by a hash of the full request first. When a prompt or
+ * search query changed since the recording, it falls back to the next unused
+ * recording from the same call site (same model + schema for LLM calls, same
+ * host + path for HTTP) and reports the divergence. Pass `strict: true` to
+ * fail on any divergence instead.
+ *
+ * Database-backed behaviour (source cache, domain exclusions) is not captured.
+ * Record and replay without `deps.strapi` for fully offline bundles.
+ *
+ * @example
+ * // Record a live run
+ * const { bundle } = await recordGameArticleRun(context);
+ * await saveReplayBundle('tests/fixtures/runs/elden-ring-guide.json', bundle);
+ *
+ * @example
+ * // Replay it in CI
+ * const bundle = await loadReplayBundle('tests/fixtures/runs/elden-ring-guide.json');
+ * const { draft, report } = await replayGameArticleRun(bundle);
+ * expect(report.divergences).toEqual([]);
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { generateText as aiGenerateText } from 'ai';
+
+import {
+  generateGameArticleDraft,
+  type ArticleGeneratorDeps,
+  type ArticleGeneratorOptions,
+} from './generate-game-article';
+import {
+  createMockClock,
+  isArticleGenerationError,
+  systemClock,
+  type GameArticleContext,
+  type GameArticleDraft,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type GenerateTextFn = typeof aiGenerateText;
+type GenerateTextParams = Parameters<GenerateTextFn>[0];
+type GenerateTextResult = Awaited<ReturnType<GenerateTextFn>>;
+type FetchFn = typeof fetch;
+type FetchInput = Parameters<FetchFn>[0];
+
+/** Bumped whenever the bundle layout changes incompatibly */
+export const REPLAY_BUNDLE_VERSION = 1;
+
+/** Hosts whose traffic is recorded at the LLM layer instead of the HTTP layer */
+const LLM_HOSTS = ['openrouter.ai'];
+
+/** Query parameters and JSON fields that must never be written to a bundle */
+const SECRET_KEY_PATTERN = /secret|api_?key|access_token|password/i;
+const REDACTED = 'REDACTED';
+
+/**
+ * Serialized error, restored as a plain `Error` with the same name, message
+ * and status so retry logic behaves as it did during recording.
+ */
+export interface RecordedError {
+  readonly name: string;
+  readonly message: string;
+  readonly status?: number;
+}
+
+export interface RecordedLlmCall {
+  /** Call order (assigned when the call started) */
+  readonly seq: number;
+  readonly model: string;
+  /** Hash of model + output schema; identifies the call site */
+  readonly signature: string;
+  /** Hash of the full request; used for exact matching */
+  readonly requestHash: string;
+  readonly request: {
+    readonly system?: unknown;
+    readonly prompt?: unknown;
+    readonly messages?: unknown;
+    readonly temperature?: number;
+    /** JSON schema of the structured output, if any */
+    readonly schema?: unknown;
+  };
+  readonly response?: {
+    readonly text: string;
+    readonly usage?: unknown;
+    readonly providerMetadata?: unknown;
+    readonly finishReason?: string;
+  };
+  readonly error?: RecordedError;
+}
+
+/** Category of a recorded HTTP call, derived from host and content type */
+export type RecordedHttpKind = 'tavily' | 'exa' | 'igdb' | 'image' | 'http';
+
+export interface RecordedHttpCall {
+  readonly seq: number;
+  readonly kind: RecordedHttpKind;
+  /** Method + host + path; identifies the call site */
+  readonly signature: string;
+  readonly requestHash: string;
+  readonly request: {
+    readonly method: string;
+    /** URL with secret query parameters redacted */
+    readonly url: string;
+    readonly body?: string;
+  };
+  readonly response?: {
+    readonly status: number;
+    readonly statusText: string;
+    readonly headers: Record<string, string>;
+    readonly body: string;
+    readonly bodyEncoding: 'utf8' | 'base64';
+  };
+  readonly error?: RecordedError;
+}
+
+/** Final state of the recorded run, for comparing against a replay */
+export type ReplayOutcome =
+  | {
+      readonly status: 'completed';
+      readonly title: string;
+      readonly categorySlug: string;
+      readonly markdown: string;
+    }
+  | {
+      readonly status: 'failed';
+      readonly code?: string;
+      readonly message: string;
+    };
+
+export interface ReplayBundle {
+  readonly version: typeof REPLAY_BUNDLE_VERSION;
+  readonly recordedAt: string;
+  /** Clock value at the start of the run; replays start from the same instant */
+  readonly startTime: number;
+  readonly context?: GameArticleContext;
+  /** Which search API keys were configured (the tools skip the network without them) */
+  readonly searchKeys: { readonly tavily: boolean; readonly exa: boolean };
+  readonly llmCalls: readonly RecordedLlmCall[];
+  readonly httpCalls: readonly RecordedHttpCall[];
+  readonly outcome?: ReplayOutcome;
+}
+
+/** A replayed call whose request differed from the recording it was matched to */
+export interface ReplayDivergence {
+  readonly layer: 'llm' | 'http';
+  readonly seq: number;
+  readonly signature: string;
+  readonly description: string;
+}
+
+export interface ReplayReport {
+  readonly divergences: readonly ReplayDivergence[];
+  /** Recorded LLM calls the replay never asked for */
+  readonly unusedLlmCalls: readonly number[];
+  /** Recorded HTTP calls the replay never asked for */
+  readonly unusedHttpCalls: readonly number[];
+}
+
+/**
+ * Thrown when a replay makes a call with no matching recording
+ * (or any divergence in strict mode).
+ */
+export class ReplayMismatchError extends Error {
+  constructor(
+    message: string,
+    readonly layer: 'llm' | 'http'
+  ) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value ?? null)).digest('hex').slice(0, 16);
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  if (error instanceof Error) {
+    const status = (error as { status?: unknown }).status;
+    return {
+      name: error.name,
+      message: error.message,
+      ...(typeof status === 'number' ? { status } : {}),
+    };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+function fromRecordedError(recorded: RecordedError): Error {
+  const error = new Error(recorded.message) as Error & { status?: number };
+  error.name = recorded.name;
+  if (recorded.status !== undefined) {
+    error.status = recorded.status;
+  }
+  return error;
+}
+
+/**
+ * Redacts secret-looking query parameters (e.g. IGDB's client_secret).
+ */
+export function redactUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return rawUrl;
+  }
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      url.searchParams.set(key, REDACTED);
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * Redacts secret-looking top-level fields of a JSON body (e.g. OAuth tokens).
+ * Non-JSON bodies are returned unchanged.
+ */
+function redactJsonBody(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return body;
+    const record = parsed as Record<string, unknown>;
+    if (!Object.keys(record).some((key) => SECRET_KEY_PATTERN.test(key))) return body;
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      redacted[key] = SECRET_KEY_PATTERN.test(key) ? REDACTED : value;
+    }
+    return JSON.stringify(redacted);
+  } catch {
+    return body;
+  }
+}
+
+function classifyHttpCall(url: URL, contentType: string | null): RecordedHttpKind {
+  if (url.hostname === 'api.tavily.com') return 'tavily';
+  if (url.hostname === 'api.exa.ai') return 'exa';
+  if (url.hostname === 'api.igdb.com' || url.hostname === 'id.twitch.tv') return 'igdb';
+  if (url.hostname === 'images.igdb.com' || contentType?.startsWith('image/')) return 'image';
+  return 'http';
+}
+
+function isTextContentType(contentType: string | null): boolean {
+  if (!contentType) return false;
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+function getModelId(model: GenerateTextParams['model']): string {
+  if (typeof model === 'string') return model;
+  return (model as { modelId?: string }).modelId ?? 'unknown';
+}
+
+/**
+ * Describes an LLM request in a serializable form.
+ * The output schema is resolved from the Output spec's response format.
+ */
+async function describeLlmRequest(params: GenerateTextParams) {
+  const model = getModelId(params.model);
+  const spec = params.output as { responseFormat?: PromiseLike<unknown> } | undefined;
+  const responseFormat = spec?.responseFormat ? await spec.responseFormat : undefined;
+  const schema = (responseFormat as { schema?: unknown } | undefined)?.schema;
+
+  const request: RecordedLlmCall['request'] = {
+    ...(params.system !== undefined ? { system: params.system } : {}),
+    ...(params.prompt !== undefined ? { prompt: params.prompt } : {}),
+    ...(params.messages !== undefined ? { messages: params.messages } : {}),
+    ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+    ...(schema !== undefined ? { schema } : {}),
+  };
+  const signature = hash({ model, schema: schema ?? null });
+
+  return { model, signature, requestHash: hash({ signature, request }), request };
+}
+
+interface NormalizedHttpRequest {
+  readonly url: URL;
+  readonly method: string;
+  readonly body?: string;
+  readonly signature: string;
+  readonly requestHash: string;
+}
+
+async function describeHttpRequest(input: FetchInput, init?: RequestInit): Promise<NormalizedHttpRequest> {
+  const rawUrl = input instanceof Request ? input.url : input.toString();
+  const url = new URL(rawUrl);
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+
+  let body: string | undefined;
+  if (typeof init?.body === 'string') {
+    body = init.body;
+  } else if (init?.body instanceof URLSearchParams) {
+    body = init.body.toString();
+  } else if (input instanceof Request && init?.body === undefined && method !== 'GET' && method !== 'HEAD') {
+    body = await input.clone().text();
+  }
+
+  const redactedUrl = redactUrl(url.toString());
+  const signature = `${method} ${url.host}${url.pathname}`;
+  return {
+    url,
+    method,
+    ...(body ? { body } : {}),
+    signature,
+    requestHash: hash({ method, url: redactedUrl, body: body ?? null }),
+  };
+}
+
+/**
+ * Temporarily replaces `globalThis.fetch` while `fn` runs.
+ * Not safe for concurrent runs in the same process.
+ */
+async function withGlobalFetch<T>(fetchImpl: FetchFn, fn: () => Promise<T>): Promise<T> {
+  const original = globalThis.fetch;
+  globalThis.fetch = fetchImpl;
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+/**
+ * Sets (or unsets) environment variables while `fn` runs.
+ */
+async function withEnv<T>(values: Record<string, string | undefined>, fn: () => Promise<T>): Promise<T> {
+  const previous: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(values)) {
+    previous[key] = process.env[key];
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  }
+}
+
+function toOutcome(draft: GameArticleDraft | null, error: unknown): ReplayOutcome {
+  if (draft) {
+    return {
+      status: 'completed',
+      title: draft.title,
+      categorySlug: draft.categorySlug,
+      markdown: draft.markdown,
+    };
+  }
+  return {
+    status: 'failed',
+    ...(isArticleGenerationError(error) ? { code: error.code } : {}),
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+// ============================================================================
+// Recorder
+// ============================================================================
+
+export interface GenerationRecorderOptions {
+  /** Real generateText to wrap (defaults to the AI SDK's) */
+  readonly generateText?: GenerateTextFn;
+  /** Real fetch to wrap (defaults to the current `globalThis.fetch`) */
+  readonly fetch?: FetchFn;
+}
+
+export interface GenerationRecorder {
+  /** Recording generateText to inject through `ArticleGeneratorDeps` */
+  readonly generateText: GenerateTextFn;
+  /** Recording fetch to install as `globalThis.fetch` for the run */
+  readonly fetch: FetchFn;
+  /** Builds a bundle from everything recorded so far */
+  toBundle(details: {
+    startTime: number;
+    context?: GameArticleContext;
+    outcome?: ReplayOutcome;
+  }): ReplayBundle;
+}
+
+/**
+ * Creates a recorder that passes every call through to the real
+ * implementation and keeps a copy of the request and response.
+ */
+export function createGenerationRecorder(options: GenerationRecorderOptions = {}): GenerationRecorder {
+  const llmCalls: RecordedLlmCall[] = [];
+  const httpCalls: RecordedHttpCall[] = [];
+  let llmSeq = 0;
+  let httpSeq = 0;
+
+  const baseGenerateText = options.generateText ?? aiGenerateText;
+  const baseFetch = options.fetch ?? globalThis.fetch;
+
+  const recordingGenerateText = (async (params: GenerateTextParams) => {
+    const seq = llmSeq++;
+    const described = await describeLlmRequest(params);
+
+    try {
+      const result = await baseGenerateText(params);
+      llmCalls.push({
+        seq,
+        ...described,
+        response: {
+          text: result.text,
+          usage: result.usage,
+          providerMetadata: result.providerMetadata,
+          finishReason: result.finishReason,
+        },
+      });
+      return result;
+    } catch (error) {
+      // Structured-output parse failures carry the raw text. Keep it as a
+      // response so replay re-parses it against the current schema.
+      const rawText = (error as { text?: unknown } | null)?.text;
+      if (params.output && typeof rawText === 'string') {
+        llmCalls.push({
+          seq,
+          ...described,
+          response: {
+            text: rawText,
+            usage: (error as { usage?: unknown }).usage,
+            finishReason: (error as { finishReason?: string }).finishReason,
+          },
+        });
+      } else {
+        llmCalls.push({ seq, ...described, error: toRecordedError(error) });
+      }
+      throw error;
+    }
+  }) as GenerateTextFn;
+
+  const recordingFetch = (async (input: FetchInput, init?: RequestInit) => {
+    const described = await describeHttpRequest(input, init);
+    if (LLM_HOSTS.includes(described.url.hostname)) {
+      return baseFetch(input, init);
+    }
+
+    const seq = httpSeq++;
+    const request: RecordedHttpCall['request'] = {
+      method: described.method,
+      url: redactUrl(described.url.toString()),
+      ...(described.body !== undefined ? { body: described.body } : {}),
+    };
+
+    let response: Response;
+    try {
+      response = await baseFetch(input, init);
+    } catch (error) {
+      httpCalls.push({
+        seq,
+        kind: classifyHttpCall(described.url, null),
+        signature: described.signature,
+        requestHash: described.requestHash,
+        request,
+        error: toRecordedError(error),
+      });
+      throw error;
+    }
+
+    const contentType = response.headers.get('content-type');
+    const buffer = Buffer.from(await response.clone().arrayBuffer());
+    const isText = isTextContentType(contentType);
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!/^set-cookie$/i.test(key)) {
+        headers[key] = value;
+      }
+    });
+
+    httpCalls.push({
+      seq,
+      kind: classifyHttpCall(described.url, contentType),
+      signature: described.signature,
+      requestHash: described.requestHash,
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: isText ? redactJsonBody(buffer.toString('utf8')) : buffer.toString('base64'),
+        bodyEncoding: isText ? 'utf8' : 'base64',
+      },
+    });
+    return response;
+  }) as FetchFn;
+
+  return {
+    generateText: recordingGenerateText,
+    fetch: recordingFetch,
+    toBundle: ({ startTime, context, outcome }) => ({
+      version: REPLAY_BUNDLE_VERSION,
+      recordedAt: new Date().toISOString(),
+      startTime,
+      ...(context ? { context } : {}),
+      searchKeys: {
+        tavily: Boolean(process.env.TAVILY_API_KEY),
+        exa: Boolean(process.env.EXA_API_KEY),
+      },
+      llmCalls: [...llmCalls].sort((a, b) => a.seq - b.seq),
+      httpCalls: [...httpCalls].sort((a, b) => a.seq - b.seq),
+      ...(outcome ? { outcome } : {}),
+    }),
+  };
+}
+
+// ============================================================================
+// Replayer
+// ============================================================================
+
+export interface GenerationReplayerOptions {
+  /** Throw on any divergence instead of falling back to the same call site */
+  readonly strict?: boolean;
+}
+
+export interface GenerationReplayer {
+  /** Replaying generateText to inject through `ArticleGeneratorDeps` */
+  readonly generateText: GenerateTextFn;
+  /** Replaying fetch to install as `globalThis.fetch` for the run */
+  readonly fetch: FetchFn;
+  /** Divergences and unused recordings so far */
+  report(): ReplayReport;
+}
+
+/**
+ * Matches requests to recordings: exact request hash first, then the next
+ * unused recording with the same signature (call site).
+ */
+function createMatcher<T extends { seq: number; signature: string; requestHash: string }>(
+  layer: 'llm' | 'http',
+  calls: readonly T[],
+  strict: boolean,
+  divergences: ReplayDivergence[]
+) {
+  const used = new Set<number>();
+
+  return {
+    take(signature: string, requestHash: string, label: string): T {
+      const exact = calls.find((c) => !used.has(c.seq) && c.requestHash === requestHash);
+      if (exact) {
+        used.add(exact.seq);
+        return exact;
+      }
+
+      const sameSite = calls.find((c) => !used.has(c.seq) && c.signature === signature);
+      if (!sameSite) {
+        throw new ReplayMismatchError(`No recorded ${layer} call matches ${label}`, layer);
+      }
+      if (strict) {
+        throw new ReplayMismatchError(
+          `Request for ${label} differs from recorded ${layer} call #${sameSite.seq}`,
+          layer
+        );
+      }
+
+      used.add(sameSite.seq);
+      divergences.push({
+        layer,
+        seq: sameSite.seq,
+        signature,
+        description: `Request for ${label} differs from the recording; replayed call #${sameSite.seq}`,
+      });
+      return sameSite;
+    },
+    unused(): number[] {
+      return calls.filter((c) => !used.has(c.seq)).map((c) => c.seq);
+    },
+  };
+}
+
+/**
+ * Creates a replayer that answers LLM and HTTP calls from a bundle.
+ * Nothing is forwarded to the network.
+ */
+export function createGenerationReplayer(
+  bundle: ReplayBundle,
+  options: GenerationReplayerOptions = {}
+): GenerationReplayer {
+  const strict = options.strict ?? false;
+  const divergences: ReplayDivergence[] = [];
+  const llm = createMatcher('llm', bundle.llmCalls, strict, divergences);
+  const http = createMatcher('http', bundle.httpCalls, strict, divergences);
+
+  const replayingGenerateText = (async (params: GenerateTextParams) => {
+    const described = await describeLlmRequest(params);
+    const call = llm.take(described.signature, described.requestHash, `model ${described.model}`);
+
+    if (call.error || !call.response) {
+      throw fromRecordedError(call.error ?? { name: 'Error', message: 'Recorded call has no response' });
+    }
+
+    const { text, usage, providerMetadata, finishReason } = call.response;
+    const spec = params.output as
+      | { parseCompleteOutput(options: { text: string }, context: unknown): Promise<unknown> }
+      | undefined;
+    const output = spec
+      ? await spec.parseCompleteOutput(
+          { text },
+          {
+            response: { id: `replay-${call.seq}`, timestamp: new Date(bundle.startTime), modelId: call.model },
+            usage,
+            finishReason: finishReason ?? 'stop',
+          }
+        )
+      : text;
+
+    return {
+      text,
+      output,
+      content: [{ type: 'text', text }],
+      usage,
+      totalUsage: usage,
+      providerMetadata,
+      finishReason: finishReason ?? 'stop',
+      warnings: [],
+      steps: [],
+      toolCalls: [],
+      toolResults: [],
+      sources: [],
+      files: [],
+      reasoning: [],
+      response: { id: `replay-${call.seq}`, timestamp: new Date(bundle.startTime), modelId: call.model, messages: [] },
+    } as unknown as GenerateTextResult;
+  }) as GenerateTextFn;
+
+  const replayingFetch = (async (input: FetchInput, init?: RequestInit) => {
+    const described = await describeHttpRequest(input, init);
+    if (init?.signal?.aborted) {
+      throw init.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const call = http.take(described.signature, described.requestHash, described.signature);
+    if (call.error || !call.response) {
+      throw fromRecordedError(call.error ?? { name: 'Error', message: 'Recorded call has no response' });
+    }
+
+    const { status, statusText, headers, body, bodyEncoding } = call.response;
+    const payload = bodyEncoding === 'base64' ? Buffer.from(body, 'base64') : body;
+    const hasBody = status !== 204 && status !== 304 && described.method !== 'HEAD';
+    return new Response(hasBody ? payload : null, { status, statusText, headers });
+  }) as FetchFn;
+
+  return {
+    generateText: replayingGenerateText,
+    fetch: replayingFetch,
+    report: () => ({
+      divergences: [...divergences],
+      unusedLlmCalls: llm.unused(),
+      unusedHttpCalls: http.unused(),
+    }),
+  };
+}
+
+// ============================================================================
+// Full-Run Helpers
+// ============================================================================
+
+export interface RecordedRun {
+  readonly bundle: ReplayBundle;
+  /** Generated draft, or null when the run failed */
+  readonly draft: GameArticleDraft | null;
+  readonly error: unknown;
+}
+
+export interface ReplayedRun extends RecordedRun {
+  readonly report: ReplayReport;
+}
+
+/**
+ * Runs a live generation and records it into a bundle.
+ * Generation errors are captured in the bundle outcome instead of thrown,
+ * so failed runs can be replayed too.
+ */
+export async function recordGameArticleRun(
+  context: GameArticleContext,
+  deps: ArticleGeneratorDeps = {},
+  options: ArticleGeneratorOptions = {}
+): Promise<RecordedRun> {
+  const recorder = createGenerationRecorder({ generateText: deps.generateText, fetch: globalThis.fetch });
+  const startTime = (options.clock ?? systemClock).now();
+
+  let draft: GameArticleDraft | null = null;
+  let error: unknown = null;
+  await withGlobalFetch(recorder.fetch, async () => {
+    try {
+      draft = await generateGameArticleDraft(
+        context,
+        { ...deps, generateText: recorder.generateText },
+        options
+      );
+    } catch (err) {
+      error = err;
+    }
+  });
+
+  return {
+    bundle: recorder.toBundle({ startTime, context, outcome: toOutcome(draft, error) }),
+    draft,
+    error,
+  };
+}
+
+/**
+ * Replays a recorded run offline.
+ *
+ * Uses a frozen clock at the recorded start time and mirrors which search
+ * API keys were configured (placeholders only, nothing leaves the process).
+ */
+export async function replayGameArticleRun(
+  bundle: ReplayBundle,
+  deps: ArticleGeneratorDeps = {},
+  options: ArticleGeneratorOptions & GenerationReplayerOptions = {}
+): Promise<ReplayedRun> {
+  const context = bundle.context;
+  if (!context) {
+    throw new Error('Replay bundle has no recorded context');
+  }
+
+  const replayer = createGenerationReplayer(bundle, { strict: options.strict });
+  const { strict: _strict, ...generatorOptions } = options;
+  const placeholder = 'replay-placeholder';
+
+  let draft: GameArticleDraft | null = null;
+  let error: unknown = null;
+  await withEnv(
+    {
+      OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY || placeholder,
+      TAVILY_API_KEY: bundle.searchKeys.tavily ? placeholder : undefined,
+      EXA_API_KEY: bundle.searchKeys.exa ? placeholder : undefined,
+    },
+    () =>
+      withGlobalFetch(replayer.fetch, async () => {
+        try {
+          draft = await generateGameArticleDraft(
+            context,
+            { ...deps, generateText: replayer.generateText },
+            { clock: createMockClock(bundle.startTime), ...generatorOptions }
+          );
+        } catch (err) {
+          error = err;
+        }
+      })
+  );
+
+  return {
+    bundle: { ...bundle, outcome: toOutcome(draft, error) },
+    draft,
+    error,
+    report: replayer.report(),
+  };
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Validates a parsed bundle's version and shape.
+ */
+export function parseReplayBundle(json: string): ReplayBundle {
+  const parsed = JSON.parse(json) as Partial<ReplayBundle>;
+  if (parsed.version !== REPLAY_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported replay bundle version ${String(parsed.version)} (expected ${REPLAY_BUNDLE_VERSION})`
+    );
+  }
+  if (!Array.isArray(parsed.llmCalls) || !Array.isArray(parsed.httpCalls)) {
+    throw new Error('Replay bundle is missing llmCalls or httpCalls');
+  }
+  return parsed as ReplayBundle;
+}
+
+export async function saveReplayBundle(path: string, bundle: ReplayBundle): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(bundle, null, 2)}\n`, 'utf8');
+}
+
+export async function loadReplayBundle(path: string): Promise<ReplayBundle> {
+  return parseReplayBundle(await readFile(path, 'utf8'));
+}
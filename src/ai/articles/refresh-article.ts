@@ -0,0 +1,442 @@
+/**
+ * Article Refresh
+ *
+ * Updates an existing AI-written article instead of regenerating it.
+ * Guides and news go stale after patches; a refresh keeps the original plan
+ * and prose and only touches the sections that new research contradicts or
+ * doesn't cover.
+ *
+ * Pipeline:
+ * - Scout: focused research on what changed since the last generation/refresh
+ * - Reviewer: checks the existing article against the fresh research
+ * - Fixer: regenerateSection / expandSection / addSection on affected sections
+ *
+ * @example
+ * const result = await refreshGameArticle({
+ *   context,
+ *   markdown: post.content,
+ *   plan: post.plan,
+ *   since: post.aiGeneratedAt,
+ * });
+ * if (result.changed) {
+ *   console.log(result.changelog);
+ * }
+ */
+
+import { getModel } from '../config';
+import { createPrefixedLogger } from '../../utils/logger';
+import { runScout, runReviewer, type ReviewIssue } from './agents';
+import type { ArticlePlan } from './article-plan';
+import { buildCitationMap, type CitationMap, type CitationSource } from './citations';
+import { FIXER_CONFIG, REFRESH_CONFIG } from './config';
+import {
+  addSection,
+  expandSection,
+  getSectionContent,
+  regenerateSection,
+  type FixerContext,
+  type FixerDeps,
+  type FixResult,
+} from './fixer';
+import { createDefaultDeps, type ArticleGeneratorDeps } from './generate-game-article';
+import type { CleaningDeps } from './research-pool';
+import { getAllExcludedDomains, getAllExcludedDomainsForEngine } from './source-cache';
+import {
+  addTokenUsage,
+  ArticleGenerationError,
+  createEmptyTokenUsage,
+  type GameArticleContext,
+  type ScoutOutput,
+  type TokenUsage,
+} from './types';
+import { getErrors, validateGameArticleContext } from './validation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Existing article to refresh.
+ */
+export interface ArticleRefreshInput {
+  /** Game context (same shape used for generation) */
+  readonly context: GameArticleContext;
+  /** Current article markdown */
+  readonly markdown: string;
+  /** Plan stored with the article when it was generated */
+  readonly plan: ArticlePlan;
+  /**
+   * When the article was last generated or refreshed (ISO string).
+   * Scout looks for changes after this date.
+   */
+  readonly since?: string | null;
+  /**
+   * Sources from the article's stored citation map. Markers kept from the
+   * original article resolve against these; the refresh research only covers new sources.
+   */
+  readonly citationSources?: readonly CitationSource[];
+}
+
+export interface ArticleRefreshOptions {
+  /** Optional AbortSignal for cancellation support */
+  readonly signal?: AbortSignal;
+  /** Current time (for tests); defaults to new Date() */
+  readonly now?: Date;
+}
+
+/**
+ * How a section was updated during a refresh.
+ */
+export type ArticleRefreshAction = 'regenerated' | 'expanded' | 'edited' | 'added';
+
+/**
+ * One changelog entry: which section changed and why.
+ */
+export interface ArticleRefreshChange {
+  /** Section headline */
+  readonly section: string;
+  readonly action: ArticleRefreshAction;
+  /** Reviewer finding that triggered the update */
+  readonly reason: string;
+  readonly severity: ReviewIssue['severity'];
+}
+
+/**
+ * Result of refreshing an article.
+ */
+export interface ArticleRefreshResult {
+  /** Updated markdown (unchanged when no section needed an update) */
+  readonly markdown: string;
+  /** Whether any section was updated */
+  readonly changed: boolean;
+  /** Sections updated, in the order they were applied */
+  readonly changelog: readonly ArticleRefreshChange[];
+  /** Start of the window Scout searched (ISO string) */
+  readonly since: string;
+  /** Source URLs found by the refresh Scout pass */
+  readonly sources: readonly string[];
+  /** Claim-to-source map of the updated markdown */
+  readonly citations: CitationMap;
+  readonly models: {
+    readonly scout: string;
+    readonly reviewer: string;
+    readonly fixer: string;
+  };
+  readonly tokenUsage: {
+    readonly scout: TokenUsage;
+    readonly reviewer: TokenUsage;
+    readonly fixer: TokenUsage;
+  };
+  readonly durationMs: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const SEVERITY_ORDER: Record<ReviewIssue['severity'], number> = {
+  critical: 0,
+  major: 1,
+  minor: 2,
+};
+
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new ArticleGenerationError('CANCELLED', 'Article refresh was cancelled');
+  }
+}
+
+/**
+ * Start of the refresh window: the last generation/refresh date, or
+ * DEFAULT_LOOKBACK_DAYS ago when the article has no usable timestamp.
+ */
+export function resolveRefreshSince(since: string | null | undefined, now: Date): Date {
+  const parsed = since ? new Date(since) : null;
+  if (parsed && !Number.isNaN(parsed.getTime())) {
+    return parsed;
+  }
+  return new Date(now.getTime() - REFRESH_CONFIG.DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Build the Scout instruction for a refresh pass.
+ * Points research at changes since `since`, limited to what the article covers
+ * and narrowed by the refresh request's instruction when there is one.
+ */
+export function buildRefreshInstruction(
+  context: GameArticleContext,
+  plan: ArticlePlan,
+  since: Date
+): string {
+  const sinceDate = since.toISOString().slice(0, 10);
+  const headlines = plan.sections.map((s) => s.headline).join('; ');
+  // context.instruction is the refresh request's own focus, not the post's original brief
+  const focus = context.instruction ? `\nRefresh focus: ${context.instruction}` : '';
+
+  return (
+    `Update an existing ${plan.categorySlug} article about ${context.gameName}. ` +
+    `Find what changed since ${sinceDate}: patches, balance changes, new content, events, ` +
+    `fixes and corrections to earlier information. ` +
+    `Only research topics the article covers: ${headlines}.` +
+    focus
+  );
+}
+
+/**
+ * Pick the Reviewer issues worth acting on during a refresh.
+ *
+ * Only factual/coverage issues count (stale or missing information), each
+ * section is updated at most once (strongest strategy wins) and the total is
+ * capped by REFRESH_CONFIG.MAX_SECTION_UPDATES.
+ */
+export function selectRefreshIssues(issues: readonly ReviewIssue[], markdown: string): ReviewIssue[] {
+  const categories: readonly string[] = REFRESH_CONFIG.ISSUE_CATEGORIES;
+  const strategyPriority: readonly string[] = FIXER_CONFIG.STRATEGY_PRIORITY;
+
+  const candidates = issues
+    .filter((issue) => categories.includes(issue.category))
+    .filter((issue) => strategyPriority.includes(issue.fixStrategy))
+    .filter((issue) =>
+      issue.fixStrategy === 'add_section'
+        ? Boolean(issue.fixInstruction)
+        : Boolean(issue.location && getSectionContent(markdown, issue.location) !== null)
+    )
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        strategyPriority.indexOf(a.fixStrategy) - strategyPriority.indexOf(b.fixStrategy)
+    );
+
+  const selected: ReviewIssue[] = [];
+  const seen = new Set<string>();
+  for (const issue of candidates) {
+    const key =
+      issue.fixStrategy === 'add_section'
+        ? `add:${(issue.location ?? issue.fixInstruction ?? '').toLowerCase()}`
+        : issue.location!.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    selected.push(issue);
+    if (selected.length >= REFRESH_CONFIG.MAX_SECTION_UPDATES) break;
+  }
+
+  return selected;
+}
+
+/**
+ * Apply one issue with the matching Fixer operation.
+ */
+function applyRefreshFix(
+  markdown: string,
+  issue: ReviewIssue,
+  ctx: FixerContext,
+  deps: FixerDeps
+): { action: ArticleRefreshAction; run: Promise<FixResult> } {
+  switch (issue.fixStrategy) {
+    case 'regenerate':
+      return { action: 'regenerated', run: regenerateSection(markdown, issue, ctx, deps) };
+    case 'add_section':
+      return { action: 'added', run: addSection(markdown, issue, ctx, deps) };
+    case 'expand':
+      return { action: 'expanded', run: expandSection(markdown, issue, ctx, deps) };
+    default:
+      // inline_insert / direct_edit: smart fix rewrites the affected paragraphs
+      return { action: 'edited', run: expandSection(markdown, issue, ctx, deps) };
+  }
+}
+
+async function buildCleaningDeps(
+  deps: Required<Pick<ArticleGeneratorDeps, 'openrouter' | 'generateText'>> & ArticleGeneratorDeps,
+  context: GameArticleContext,
+  signal: AbortSignal | undefined
+): Promise<CleaningDeps | undefined> {
+  const { strapi } = deps;
+  if (!strapi) return undefined;
+
+  const [excludedDomains, tavilyExcludedDomains, exaExcludedDomains] = await Promise.all([
+    getAllExcludedDomains(strapi),
+    getAllExcludedDomainsForEngine(strapi, 'tavily'),
+    getAllExcludedDomainsForEngine(strapi, 'exa'),
+  ]);
+
+  return {
+    strapi,
+    generateText: deps.generateText,
+    model: deps.openrouter(getModel('ARTICLE_CLEANER')),
+    summarizerModel: deps.openrouter(getModel('ARTICLE_SUMMARIZER')),
+    prefilterModel: deps.openrouter(getModel('ARTICLE_PREFILTER')),
+    logger: createPrefixedLogger('[Cleaner]'),
+    signal,
+    gameName: context.gameName,
+    gameDocumentId: context.gameDocumentId,
+    excludedDomains,
+    tavilyExcludedDomains,
+    exaExcludedDomains,
+  };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Refresh an existing article with what changed since it was written.
+ *
+ * Runs a focused Scout pass, reviews the current article against the new
+ * research and updates only the affected sections. Sections are never
+ * removed and the plan is not re-run, so the article keeps its structure.
+ *
+ * @param input - Existing article (markdown + stored plan) and game context
+ * @param deps - Optional dependencies for testing (defaults to production deps)
+ * @param options - Optional cancellation signal / clock
+ * @returns Updated markdown and a changelog of the sections that changed
+ *
+ * @throws ArticleGenerationError with code 'CONTEXT_INVALID' if context validation fails
+ * @throws ArticleGenerationError with code 'SCOUT_FAILED' if the research pass fails
+ * @throws ArticleGenerationError with code 'VALIDATION_FAILED' if the review fails
+ * @throws ArticleGenerationError with code 'CANCELLED' if signal is aborted
+ * @throws ArticleGenerationError with code 'CONFIG_ERROR' if OPENROUTER_API_KEY is not configured
+ */
+export async function refreshGameArticle(
+  input: ArticleRefreshInput,
+  deps?: ArticleGeneratorDeps,
+  options: ArticleRefreshOptions = {}
+): Promise<ArticleRefreshResult> {
+  const contextErrors = getErrors(validateGameArticleContext(input.context));
+  if (contextErrors.length > 0) {
+    throw new ArticleGenerationError(
+      'CONTEXT_INVALID',
+      `Invalid article context: ${contextErrors.map((e) => e.message).join('; ')}`
+    );
+  }
+
+  const mergedDeps =
+    deps?.openrouter && deps.search && deps.generateText ? deps : { ...createDefaultDeps(), ...deps };
+  const { openrouter, search, generateText: genText } = mergedDeps;
+  if (!openrouter || !search || !genText) {
+    throw new ArticleGenerationError('CONFIG_ERROR', 'Article refresh dependencies are not configured');
+  }
+
+  const { signal } = options;
+  const now = options.now ?? new Date();
+  const startTime = Date.now();
+  const log = createPrefixedLogger('[ArticleRefresh]');
+  const { plan } = input;
+
+  const scoutModel = getModel('ARTICLE_SCOUT');
+  const reviewerModel = getModel('ARTICLE_REVIEWER');
+  const fixerModel = getModel('ARTICLE_FIXER');
+
+  const since = resolveRefreshSince(input.since, now);
+  const context: GameArticleContext = {
+    ...input.context,
+    categorySlug: plan.categorySlug,
+    instruction: buildRefreshInstruction(input.context, plan, since),
+  };
+
+  log.info(`Refreshing ${plan.categorySlug} article for "${context.gameName}" (changes since ${since.toISOString()})`);
+
+  // ===== SCOUT: what changed =====
+  throwIfCancelled(signal);
+  const cleaningDeps = await buildCleaningDeps({ ...mergedDeps, openrouter, generateText: genText }, context, signal);
+  let scoutOutput: ScoutOutput;
+  try {
+    scoutOutput = await runScout(context, {
+      search,
+      generateText: genText,
+      model: openrouter(scoutModel),
+      logger: createPrefixedLogger('[Scout]'),
+      signal,
+      cleaningDeps,
+    });
+  } catch (error) {
+    if (error instanceof ArticleGenerationError) throw error;
+    throw new ArticleGenerationError(
+      'SCOUT_FAILED',
+      `Refresh research failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  // ===== REVIEWER: check the current article against fresh research =====
+  throwIfCancelled(signal);
+  let issues: readonly ReviewIssue[];
+  let reviewerTokenUsage: TokenUsage;
+  try {
+    const review = await runReviewer(input.markdown, plan, scoutOutput, {
+      generateText: genText,
+      model: openrouter(reviewerModel),
+      logger: createPrefixedLogger('[Reviewer]'),
+      signal,
+    });
+    issues = review.issues;
+    reviewerTokenUsage = review.tokenUsage;
+  } catch (error) {
+    if (error instanceof ArticleGenerationError) throw error;
+    throw new ArticleGenerationError(
+      'VALIDATION_FAILED',
+      `Refresh review failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const selected = selectRefreshIssues(issues, input.markdown);
+  log.info(`Reviewer found ${issues.length} issue(s); ${selected.length} section update(s) selected`);
+
+  // ===== FIXER: update affected sections only =====
+  const fixerContext: FixerContext = {
+    gameContext: context,
+    scoutOutput,
+    plan,
+    enrichedPool: scoutOutput.researchPool,
+  };
+  const fixerDeps: FixerDeps = {
+    generateText: genText,
+    model: openrouter(fixerModel),
+    logger: createPrefixedLogger('[Fixer]'),
+    signal,
+    temperature: FIXER_CONFIG.TEMPERATURE,
+  };
+
+  let markdown = input.markdown;
+  let fixerTokenUsage = createEmptyTokenUsage();
+  const changelog: ArticleRefreshChange[] = [];
+
+  for (const issue of selected) {
+    throwIfCancelled(signal);
+    const { action, run } = applyRefreshFix(markdown, issue, fixerContext, fixerDeps);
+    const result = await run;
+    fixerTokenUsage = addTokenUsage(fixerTokenUsage, result.tokenUsage);
+
+    if (!result.success) {
+      log.warn(`Skipped update: ${result.description}`);
+      continue;
+    }
+
+    markdown = result.markdown;
+    changelog.push({
+      section: issue.location ?? 'Additional Information',
+      action,
+      reason: issue.message,
+      severity: issue.severity,
+    });
+  }
+
+  log.info(`Refresh complete: ${changelog.length} section(s) updated`);
+
+  return {
+    markdown,
+    changed: changelog.length > 0,
+    changelog,
+    since: since.toISOString(),
+    sources: [...scoutOutput.sourceUrls],
+    citations: buildCitationMap(markdown, scoutOutput.researchPool, input.citationSources),
+    models: { scout: scoutModel, reviewer: reviewerModel, fixer: fixerModel },
+    tokenUsage: {
+      scout: scoutOutput.tokenUsage,
+      reviewer: reviewerTokenUsage,
+      fixer: fixerTokenUsage,
+    },
+    durationMs: Date.now() - startTime,
+  };
+}
@@ -815,6 +815,8 @@ export interface CleaningDeps {
    * @example Use 'google/gemini-2.5-flash-lite' for fast/cheap pre-filtering
    */
   readonly prefilterModel?: LanguageModel;
+  /** Optional temperature override for the cleaning step (default: CLEANER_CONFIG.TEMPERATURE) */
+  readonly temperature?: number;
   /** Logger instance */
   readonly logger?: Logger;
   /** AbortSignal for cancellation */
@@ -926,7 +928,7 @@ export interface CacheBypassCheckResult {
   /** The raw source to attach, if found */
   rawSource?: RawSourceInput;
   /** Reason for bypass decision (for debugging) */
-  reason: 'not_cache_hit' | 'excluded_domain' | 'scrape_failure_retry' | 'legacy_reprocessing' | 'cache_disabled' | 'no_raw_content' | 'use_cache';
+  reason: 'not_cache_hit' | 'excluded_domain' | 'scrape_failure_retry' | 'legacy_reprocessing' | 'stale_refresh' | 'cache_disabled' | 'no_raw_content' | 'use_cache';
 }
 
 /**
@@ -941,7 +943,8 @@ export function shouldBypassCacheResult(
   excludedDomainsSet: Set<string>,
   cacheEnabled: boolean,
   scrapeFailureRetryUrls: Set<string>,
-  needsReprocessingUrls: Set<string>
+  needsReprocessingUrls: Set<string>,
+  staleUrls: Set<string> = new Set()
 ): CacheBypassCheckResult {
   // Standard miss (not in cache) - always needs cleaning
   if (!cacheResult.hit) {
@@ -981,6 +984,11 @@ export function shouldBypassCacheResult(
     return { shouldBypass: true, rawSource, reason: 'legacy_reprocessing' };
   }
 
+  // Cached copy older than its content type's TTL, and the search returned fresh content
+  if (staleUrls.has(cacheResult.url) && rawSource) {
+    return { shouldBypass: true, rawSource, reason: 'stale_refresh' };
+  }
+
   // Normal cache hit - use cached data
   return { shouldBypass: false, reason: 'use_cache' };
 }
@@ -1116,6 +1124,8 @@ export async function processSearchResultsWithCleaning(
   const scrapeFailureRetryUrls = new Set<string>();
   // Track URLs that need reprocessing (legacy data with NULL relevance)
   const needsReprocessingUrls = new Set<string>();
+  // Track stale cache hits being re-cleaned from fresh search content
+  const staleUrls = new Set<string>();
 
   // Filter out cache hits from now-excluded domains (domains may have been added to exclusion list after caching)
   // Also handle scrape failure "natural retries" - if cached as failure but raw content now sufficient
@@ -1189,6 +1199,17 @@ export async function processSearchResultsWithCleaning(
       duplicateTracker?.incrementFiltered(query);
       return false;
     }
+
+    // Stale cache entry (older than its content type's TTL) - re-clean from the
+    // fresh search content when there is enough of it, otherwise keep the old copy
+    if (r.stale) {
+      const rawSource = rawSources.find(s => normalizeUrl(s.url) === normalizeUrl(r.url));
+      if (rawSource && rawSource.content.length > CLEANER_CONFIG.MIN_CONTENT_LENGTH) {
+        logger?.debug?.(`Refreshing stale cache entry: ${r.url}`);
+        staleUrls.add(r.url);
+        return false; // Remove from hits, will be added to misses
+      }
+    }
     return true;
   });
 
@@ -1207,7 +1228,8 @@ export async function processSearchResultsWithCleaning(
       excludedDomainsSet,
       cacheEnabled,
       scrapeFailureRetryUrls,
-      needsReprocessingUrls
+      needsReprocessingUrls,
+      staleUrls
     );
     
     if (bypassCheck.shouldBypass && bypassCheck.rawSource) {
@@ -1221,7 +1243,7 @@ export async function processSearchResultsWithCleaning(
 
   // Log cache status (include excluded count if any)
   const cleanerEnabled = CLEANER_CONFIG.ENABLED;
-  const excludedCacheCount = cacheResults.filter((r) => r.hit).length - (cacheEnabled ? hits.length : 0);
+  const excludedCacheCount = cacheResults.filter((r) => r.hit).length - (cacheEnabled ? hits.length + staleUrls.size : 0);
   const bypassedCacheCount = !cacheEnabled ? cacheResults.filter((r) => r.hit).length : 0;
   
   if (hits.length > 0 || misses.length > 0 || excludedCacheCount > 0 || bypassedCacheCount > 0) {
@@ -1232,6 +1254,9 @@ export async function processSearchResultsWithCleaning(
     if (excludedCacheCount > 0) {
       logMsg += ` (${excludedCacheCount} cached sources from excluded domains skipped)`;
     }
+    if (staleUrls.size > 0) {
+      logMsg += ` (${staleUrls.size} stale cache entries refreshed)`;
+    }
     if (!cleanerEnabled) {
       logMsg += ' (cleaner disabled, using raw content for misses)';
     }
@@ -1389,6 +1414,7 @@ export async function processSearchResultsWithCleaning(
       logger,
       signal,
       gameName,
+      temperature: cleaningDeps.temperature,
     });
     cleanedSources = cleanResult.sources;
     // Track extraction token usage separately
@@ -1401,9 +1427,10 @@ export async function processSearchResultsWithCleaning(
     if (cleanedSources.length > 0) {
       // Separate retry sources, reprocessed sources, and new sources
       const retrySources = cleanedSources.filter(s => scrapeFailureRetryUrls.has(s.url));
-      const reprocessedSources = cleanedSources.filter(s => needsReprocessingUrls.has(s.url));
+      // Stale refreshes overwrite the old row the same way reprocessing does
+      const reprocessedSources = cleanedSources.filter(s => needsReprocessingUrls.has(s.url) || staleUrls.has(s.url));
       const newSources = cleanedSources.filter(s => 
-        !scrapeFailureRetryUrls.has(s.url) && !needsReprocessingUrls.has(s.url)
+        !scrapeFailureRetryUrls.has(s.url) && !needsReprocessingUrls.has(s.url) && !staleUrls.has(s.url)
       );
       
       // Update retry sources (previously failed, now succeeded)
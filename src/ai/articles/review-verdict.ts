@@ -0,0 +1,130 @@
+/**
+ * Review Verdict
+ *
+ * Helpers for checking a review's structured verdict against its body text.
+ *
+ * - The Specialist closes the verdict section with the score in the text
+ *   ("**Score: 8.5/10**"); extractReviewScore finds it again.
+ * - measureReviewTone counts praise and criticism words to tell whether the
+ *   prose reads positive or negative, so a score that contradicts the tone
+ *   can be flagged. It is a coarse English-only heuristic: reviews are
+ *   written in English and translated afterwards.
+ */
+
+import { stripCitationMarkers } from './citations';
+import { REVIEW_VERDICT_CONFIG } from './config';
+import { stripSourcesSection } from './markdown-utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A review score stated in the article, on its own scale.
+ */
+export interface ReviewScore {
+  readonly ratingValue: number;
+  readonly bestRating: number;
+}
+
+/**
+ * Praise/criticism balance of a review's prose.
+ */
+export interface ReviewTone {
+  readonly positive: number;
+  readonly negative: number;
+  /** -1 (all criticism) to 1 (all praise); 0 when no tone words were found */
+  readonly tone: number;
+}
+
+// ============================================================================
+// Score
+// ============================================================================
+
+/** Scales a stated score may use */
+const REVIEW_SCALES = [5, 10, 100];
+
+/**
+ * Finds the review score an article states ("8.5/10", "4 out of 5",
+ * "85/100"). The last score wins, since reviews close on their verdict.
+ * Counts followed by a word ("3 out of 5 bosses") are not scores.
+ */
+export function extractReviewScore(markdown: string): ReviewScore | null {
+  const body = stripSourcesSection(stripCitationMarkers(markdown));
+  const scales = REVIEW_SCALES.join('|');
+  const pattern = new RegExp(
+    `(?<![\\d.])(\\d{1,3}(?:[.,]\\d)?)\\s*(?:/|out of|de|sur|von)\\s*(${scales})(?!\\d|[.,]\\d|\\s*\\p{L})`,
+    'giu'
+  );
+
+  let score: ReviewScore | null = null;
+  for (const match of body.matchAll(pattern)) {
+    const ratingValue = Number(match[1].replace(',', '.'));
+    const bestRating = Number(match[2]);
+    if (ratingValue <= bestRating) score = { ratingValue, bestRating };
+  }
+  return score;
+}
+
+/**
+ * A stated score on the verdict scale (out of REVIEW_VERDICT_CONFIG.SCORE_MAX).
+ */
+export function normalizeReviewScore(score: ReviewScore): number {
+  return Math.round((score.ratingValue / score.bestRating) * REVIEW_VERDICT_CONFIG.SCORE_MAX * 10) / 10;
+}
+
+/**
+ * The score line the Specialist ends the verdict section with.
+ */
+export function formatReviewScoreLine(score: number): string {
+  return `**Score: ${score}/${REVIEW_VERDICT_CONFIG.SCORE_MAX}**`;
+}
+
+// ============================================================================
+// Tone
+// ============================================================================
+
+const PRAISE_WORDS = new Set([
+  'amazing', 'beautiful', 'brilliant', 'captivating', 'charming', 'compelling', 'delight', 'delightful',
+  'engaging', 'excellent', 'exceptional', 'fantastic', 'fun', 'gorgeous', 'great', 'immersive',
+  'impressive', 'innovative', 'masterful', 'masterpiece', 'memorable', 'outstanding', 'polished',
+  'rewarding', 'satisfying', 'smooth', 'stellar', 'stunning', 'superb', 'terrific', 'thrilling',
+  'triumph', 'wonderful',
+]);
+
+const CRITICISM_WORDS = new Set([
+  'annoying', 'awful', 'bland', 'boring', 'broken', 'buggy', 'clunky', 'disappointing', 'disappointment',
+  'dull', 'frustrating', 'generic', 'janky', 'lackluster', 'mediocre', 'messy', 'poor', 'repetitive',
+  'shallow', 'sluggish', 'tedious', 'terrible', 'tiresome', 'unfinished', 'uninspired', 'unpolished',
+  'weak', 'worst',
+]);
+
+/** Words that flip the next tone word ("not fun", "never boring") */
+const NEGATIONS = new Set(['not', 'never', 'hardly', 'barely', "isn't", "aren't", "wasn't", "doesn't", "don't", 'no']);
+
+/**
+ * Counts praise and criticism words in the article's prose (headings and
+ * the Sources section excluded). A negation right before a word flips it.
+ */
+export function measureReviewTone(markdown: string): ReviewTone {
+  const prose = stripSourcesSection(stripCitationMarkers(markdown))
+    .split('\n')
+    .filter((line) => !/^\s*#/.test(line))
+    .join(' ')
+    .toLowerCase();
+  const words = prose.match(/[a-z']+/g) ?? [];
+
+  let positive = 0;
+  let negative = 0;
+  words.forEach((word, i) => {
+    const praise = PRAISE_WORDS.has(word);
+    const criticism = CRITICISM_WORDS.has(word);
+    if (!praise && !criticism) return;
+    const negated = i > 0 && NEGATIONS.has(words[i - 1]);
+    if (praise !== negated) positive++;
+    else negative++;
+  });
+
+  const total = positive + negative;
+  return { positive, negative, tone: total > 0 ? (positive - negative) / total : 0 };
+}
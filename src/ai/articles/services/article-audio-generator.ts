@@ -14,7 +14,8 @@ import type { Core } from '@strapi/strapi';
 
 import { generateAudioFromMarkdown } from './tts-generator';
 import { uploadAudioToStrapi } from './audio-uploader';
-import type { AudioUploadResult, TTSConfig, TimestampType } from './tts-types';
+import type { AudioCaptionFiles, AudioChapter, AudioUploadResult, TTSConfig, TimestampType } from './tts-types';
+import { stripCitationMarkers } from '../citations';
 import { TTS_CONFIG } from '../config';
 import type { DocumentService, PostDocument } from '../../../types/strapi';
 
@@ -34,8 +35,10 @@ export interface GenerateArticleAudioInput {
   readonly gameSlug: string;
   /** Article slug (for filename generation) */
   readonly articleSlug: string;
-  /** Optional TTS configuration (voice, model) */
+  /** Optional TTS configuration (provider, voice, model) */
   readonly ttsConfig?: TTSConfig;
+  /** Article locale (selects the TTS provider configured for it) */
+  readonly locale?: string;
   /** Strapi instance for upload */
   readonly strapi: Core.Strapi;
 }
@@ -56,6 +59,14 @@ export interface GenerateArticleAudioResult {
   readonly chunkCount: number;
   /** Chapter file ID (if chapters were generated) */
   readonly chapterFileId?: number;
+  /** Chapter markers derived from the narrated H2 sections */
+  readonly chapters?: readonly AudioChapter[];
+  /** Total audio duration in seconds */
+  readonly audioDurationSeconds?: number;
+  /** Voice ID used for narration */
+  readonly voice: string;
+  /** Caption and timed-transcript files uploaded next to the audio */
+  readonly captionFiles?: AudioCaptionFiles;
 }
 
 // ============================================================================
@@ -107,7 +118,7 @@ export interface GenerateArticleAudioResult {
 export async function generateAndUploadArticleAudio(
   input: GenerateArticleAudioInput
 ): Promise<GenerateArticleAudioResult | null> {
-  const { markdown, articleTitle, gameSlug, articleSlug, ttsConfig, strapi } = input;
+  const { markdown, articleTitle, gameSlug, articleSlug, ttsConfig, locale, strapi } = input;
 
   // Check if TTS is enabled
   if (!TTS_CONFIG.ENABLED) {
@@ -125,9 +136,12 @@ export async function generateAndUploadArticleAudio(
     // Step 1: Generate audio from markdown
     strapi.log.info(`[ArticleAudioGen] Generating audio for "${articleTitle}"...`);
 
-    const audioResult = await generateAudioFromMarkdown(markdown, {
-      voice: ttsConfig?.voice || TTS_CONFIG.DEFAULT_VOICE_ID,
-      model: ttsConfig?.model || TTS_CONFIG.DEFAULT_MODEL_ID,
+    // Citation markers are footnote IDs, not prose - never read them aloud
+    const audioResult = await generateAudioFromMarkdown(stripCitationMarkers(markdown), {
+      provider: ttsConfig?.provider,
+      locale: ttsConfig?.locale ?? locale,
+      voice: ttsConfig?.voice,
+      model: ttsConfig?.model,
       timestampType: ttsConfig?.timestampType || TTS_CONFIG.DEFAULT_TIMESTAMP_TYPE,
       apiKey: ttsConfig?.apiKey,
       strapi,
@@ -149,13 +163,15 @@ export async function generateAndUploadArticleAudio(
       gameSlug,
       articleSlug,
       articleTitle,
-      voice: ttsConfig?.voice || TTS_CONFIG.DEFAULT_VOICE_ID,
-      model: ttsConfig?.model || TTS_CONFIG.DEFAULT_MODEL_ID,
+      provider: audioResult.provider,
+      voice: audioResult.voiceId,
+      model: audioResult.modelId,
       chapters: audioResult.chapters,
       audioDurationSeconds: audioResult.audioDurationSeconds,
       timestampType: audioResult.timestampType,
       wordAlignment: audioResult.wordAlignment,
       characterAlignment: audioResult.characterAlignment,
+      locale,
       strapi,
     });
 
@@ -168,6 +184,10 @@ export async function generateAndUploadArticleAudio(
       durationMs: audioResult.durationMs,
       chunkCount: audioResult.chunkCount,
       ...(uploadResult.chapterFileId && { chapterFileId: uploadResult.chapterFileId }),
+      ...(audioResult.chapters && { chapters: audioResult.chapters }),
+      ...(audioResult.audioDurationSeconds !== undefined && { audioDurationSeconds: audioResult.audioDurationSeconds }),
+      voice: audioResult.voiceId,
+      ...(uploadResult.captionFiles && { captionFiles: uploadResult.captionFiles }),
     };
   } catch (error) {
     // Non-fatal: log and return null (audio is optional)
@@ -238,6 +258,7 @@ export async function generateAudioForExistingArticle(
       gameSlug,
       articleSlug: post.slug || 'untitled',
       ttsConfig,
+      locale,
       strapi,
     });
 
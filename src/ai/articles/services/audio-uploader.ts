@@ -8,7 +8,9 @@
  * - Upload audio buffer to Strapi media library
  * - Automatic S3 upload via Strapi's upload plugin
  * - Store TTS metadata (voice, model)
- * - Organize in folders (/audio/{gameSlug}/{articleSlug}/)
+ * - Upload sidecar files next to the MP3: WebVTT chapters, WebVTT/SRT
+ *   captions and a timed-transcript JSON (from word alignments)
+ * - Organize in folders (/audio/{gameSlug}/{articleSlug}/, translations under /audio/{locale}/)
  */
 
 import * as fs from 'fs';
@@ -16,8 +18,23 @@ import * as os from 'os';
 import * as path from 'path';
 import type { Core } from '@strapi/strapi';
 
-import type { AudioUploadResult, AudioChapter, TimestampType, WordAlignment, CharacterAlignment } from './tts-types';
+import type {
+  AudioUploadResult,
+  AudioCaptionFiles,
+  AudioChapter,
+  TimestampType,
+  WordAlignment,
+  CharacterAlignment,
+  UploadedMediaRef,
+} from './tts-types';
 import { ensureFolderExists, linkFileToFolder } from './folder-service';
+import {
+  buildSRTCaptions,
+  buildTimedTranscript,
+  buildWebVTTCaptions,
+  formatWebVTTTimestamp,
+} from './transcript-builder';
+import { DEFAULT_LOCALE } from '../../../utils/locales';
 
 // ============================================================================
 // Types
@@ -46,6 +63,12 @@ export interface TTSMetadata {
   readonly wordAlignment?: WordAlignment;
   /** Full character alignment data (for karaoke-style captions, lipsync) */
   readonly characterAlignment?: CharacterAlignment;
+  /** URLs of the caption/transcript files uploaded next to the audio */
+  readonly captions?: {
+    readonly vttUrl?: string;
+    readonly srtUrl?: string;
+    readonly transcriptUrl?: string;
+  };
 }
 
 /**
@@ -62,6 +85,10 @@ export interface AudioUploadInput {
   readonly articleSlug: string;
   /** Article title for metadata */
   readonly articleTitle: string;
+  /** Content locale; non-default locales get their own folder under /audio/{locale}/ */
+  readonly locale?: string;
+  /** TTS provider used for generation (default: "inworld") */
+  readonly provider?: string;
   /** Voice ID used for generation */
   readonly voice?: string;
   /** Model ID used for generation */
@@ -110,21 +137,6 @@ function sanitizeFilename(filename: string): string {
     .slice(0, 100);
 }
 
-/**
- * Formats seconds as WebVTT timestamp (HH:MM:SS.mmm).
- *
- * @param seconds - Time in seconds
- * @returns Formatted timestamp
- */
-function formatWebVTTTimestamp(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const milliseconds = Math.floor((seconds % 1) * 1000);
-
-  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(milliseconds).padStart(3, '0')}`;
-}
-
 /**
  * Generates WebVTT chapter file content from chapter markers.
  *
@@ -160,6 +172,123 @@ function generateWebVTTChapters(chapters: readonly AudioChapter[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Internal: context shared by the uploads of one narration.
+ */
+interface SidecarUploadContext {
+  readonly strapi: Core.Strapi;
+  readonly folderId?: number;
+  readonly folderPath: string;
+}
+
+/**
+ * Internal: builds the folder-service context from a Strapi instance.
+ */
+function createFolderContext(strapi: Core.Strapi) {
+  return {
+    strapi,
+    logger: {
+      info: (msg: string) => strapi.log.info(msg),
+      warn: (msg: string) => strapi.log.warn(msg),
+      error: (msg: string) => strapi.log.error(msg),
+      debug: (msg: string) => strapi.log.debug(msg),
+    },
+  };
+}
+
+/**
+ * Uploads a text file next to the audio (same folder).
+ * Non-fatal: failures are logged and return undefined.
+ */
+async function uploadSidecarFile(
+  context: SidecarUploadContext,
+  file: {
+    readonly content: string;
+    readonly filename: string;
+    readonly mimetype: string;
+    readonly alternativeText: string;
+    readonly caption: string;
+  }
+): Promise<UploadedMediaRef | undefined> {
+  const { strapi, folderId, folderPath } = context;
+  const buffer = Buffer.from(file.content, 'utf-8');
+  const tmpFilePath = path.join(os.tmpdir(), `strapi-sidecar-upload-${Date.now()}-${file.filename}`);
+
+  try {
+    await fs.promises.writeFile(tmpFilePath, buffer);
+
+    const [uploaded] = await strapi.plugin('upload').service('upload').upload({
+      data: {},
+      files: {
+        filepath: tmpFilePath,
+        originalFilename: file.filename,
+        mimetype: file.mimetype,
+        size: buffer.length,
+      },
+    });
+    if (!uploaded) {
+      return undefined;
+    }
+
+    await strapi.plugin('upload').service('upload').updateFileInfo(uploaded.id, {
+      alternativeText: file.alternativeText,
+      caption: file.caption,
+    });
+
+    if (folderId) {
+      await linkFileToFolder(createFolderContext(strapi), uploaded.id, folderId, folderPath);
+    }
+
+    strapi.log.info(`[AudioUploader] ${file.caption} uploaded: ${uploaded.url}`);
+    return { id: uploaded.id, url: uploaded.url };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    strapi.log.warn(`[AudioUploader] Failed to upload ${file.filename}: ${errorMsg}`);
+    return undefined;
+  } finally {
+    await fs.promises.unlink(tmpFilePath).catch(() => {});
+  }
+}
+
+/**
+ * Uploads WebVTT/SRT captions and the timed transcript built from word alignments.
+ */
+async function uploadCaptionFiles(
+  context: SidecarUploadContext,
+  baseFilename: string,
+  articleTitle: string,
+  wordAlignment: WordAlignment,
+  audioDurationSeconds?: number
+): Promise<AudioCaptionFiles> {
+  const vtt = await uploadSidecarFile(context, {
+    content: buildWebVTTCaptions(wordAlignment),
+    filename: `${baseFilename}-captions.vtt`,
+    mimetype: 'text/vtt',
+    alternativeText: `Captions for ${articleTitle}`,
+    caption: 'WebVTT captions for audio narration',
+  });
+  const srt = await uploadSidecarFile(context, {
+    content: buildSRTCaptions(wordAlignment),
+    filename: `${baseFilename}-captions.srt`,
+    mimetype: 'application/x-subrip',
+    alternativeText: `Captions for ${articleTitle}`,
+    caption: 'SRT captions for audio narration',
+  });
+  const transcript = await uploadSidecarFile(context, {
+    content: JSON.stringify(buildTimedTranscript(wordAlignment, audioDurationSeconds)),
+    filename: `${baseFilename}-transcript.json`,
+    mimetype: 'application/json',
+    alternativeText: `Timed transcript for ${articleTitle}`,
+    caption: 'Timed transcript for audio narration',
+  });
+
+  return {
+    ...(vtt && { vtt }),
+    ...(srt && { srt }),
+    ...(transcript && { transcript }),
+  };
+}
+
 // ============================================================================
 // Upload Functions
 // ============================================================================
@@ -168,6 +297,7 @@ function generateWebVTTChapters(chapters: readonly AudioChapter[]): string {
  * Uploads audio buffer to Strapi's media library.
  *
  * The audio is organized in folders: /audio/{gameSlug}/{articleSlug}/
+ * (translations: /audio/{locale}/{gameSlug}/{articleSlug}/).
  * TTS metadata is stored in provider_metadata for tracking.
  *
  * @param input - Upload input with buffer, metadata, and folder info
@@ -190,29 +320,22 @@ export async function uploadAudioToStrapi(
   input: AudioUploadInput
 ): Promise<AudioUploadResult> {
   const { buffer, filename, gameSlug, articleSlug, articleTitle, voice, model, strapi } = input;
+  const provider = input.provider ?? 'inworld';
+  const providerLabel = provider === 'inworld' ? 'Inworld AI TTS' : `${provider} TTS`;
 
   const sanitizedFilename = sanitizeFilename(filename);
   const fullFilename = `${sanitizedFilename}.${AUDIO_EXTENSION}`;
 
   strapi.log.info(`[AudioUploader] Uploading: ${fullFilename} (${buffer.length} bytes)`);
 
-  // Create folder structure: /audio/{gameSlug}/{articleSlug}/
-  const folderPath = `/audio/${gameSlug}/${articleSlug}`;
+  // Create folder structure: /audio/{gameSlug}/{articleSlug}/ (or /audio/{locale}/... for translations)
+  const folderPath = input.locale && input.locale !== DEFAULT_LOCALE
+    ? `/audio/${input.locale}/${gameSlug}/${articleSlug}`
+    : `/audio/${gameSlug}/${articleSlug}`;
 
   let folderId: number | undefined;
   try {
-    folderId = await ensureFolderExists(
-      {
-        strapi,
-        logger: {
-          info: (msg: string) => strapi.log.info(msg),
-          warn: (msg: string) => strapi.log.warn(msg),
-          error: (msg: string) => strapi.log.error(msg),
-          debug: (msg: string) => strapi.log.debug(msg),
-        },
-      },
-      folderPath
-    );
+    folderId = await ensureFolderExists(createFolderContext(strapi), folderPath);
   } catch (error) {
     // Non-fatal: continue without folder organization
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -261,21 +384,65 @@ export async function uploadAudioToStrapi(
     // Update file metadata (alternativeText, caption)
     const altText = `Audio narration for ${articleTitle}`;
     const caption = voice && model
-      ? `Generated using Inworld AI TTS (Voice: ${voice}, Model: ${model})`
-      : 'Generated using Inworld AI TTS';
+      ? `Generated using ${providerLabel} (Voice: ${voice}, Model: ${model})`
+      : `Generated using ${providerLabel}`;
 
     await strapi.plugin('upload').service('upload').updateFileInfo(uploadedFile.id, {
       alternativeText: altText,
       caption: caption,
     });
 
+    // Link file to folder if folder was created
+    if (folderId) {
+      try {
+        await linkFileToFolder(createFolderContext(strapi), uploadedFile.id, folderId, folderPath);
+      } catch (error) {
+        // Log but don't fail - file is already uploaded
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        strapi.log.warn(`[AudioUploader] Failed to link file to folder: ${errorMsg}`);
+      }
+    }
+
+    strapi.log.info(`[AudioUploader] Uploaded successfully: ${uploadedFile.url}`);
+
+    const sidecarContext: SidecarUploadContext = { strapi, folderId, folderPath };
+
+    // Generate and upload WebVTT chapter file if chapters exist
+    let chapterFileId: number | undefined;
+    if (input.chapters && input.chapters.length > 0) {
+      const chapterFile = await uploadSidecarFile(sidecarContext, {
+        content: generateWebVTTChapters(input.chapters),
+        filename: `${sanitizedFilename}-chapters.vtt`,
+        mimetype: 'text/vtt',
+        alternativeText: `Chapter markers for ${articleTitle}`,
+        caption: 'WebVTT chapter file for audio narration',
+      });
+      chapterFileId = chapterFile?.id;
+    }
+
+    // Captions and timed transcript from word-level timestamps
+    const captionFiles = input.wordAlignment && input.wordAlignment.words.length > 0
+      ? await uploadCaptionFiles(
+          sidecarContext,
+          sanitizedFilename,
+          articleTitle,
+          input.wordAlignment,
+          input.audioDurationSeconds
+        )
+      : undefined;
+
     // Store TTS metadata in provider_metadata for tracking
     // Uses nested 'ttsInfo' to avoid conflicts with S3 provider metadata
     if (voice && model) {
       try {
         const existingMetadata = uploadedFile.provider_metadata ?? {};
+        const captions = captionFiles && {
+          ...(captionFiles.vtt && { vttUrl: captionFiles.vtt.url }),
+          ...(captionFiles.srt && { srtUrl: captionFiles.srt.url }),
+          ...(captionFiles.transcript && { transcriptUrl: captionFiles.transcript.url }),
+        };
         const ttsMetadata: TTSMetadata = {
-          ttsProvider: 'inworld',
+          ttsProvider: provider,
           voice,
           model,
           generatedAt: new Date().toISOString(),
@@ -284,6 +451,7 @@ export async function uploadAudioToStrapi(
           ...(input.timestampType && { timestampType: input.timestampType }),
           ...(input.wordAlignment && { wordAlignment: input.wordAlignment }),
           ...(input.characterAlignment && { characterAlignment: input.characterAlignment }),
+          ...(captions && Object.keys(captions).length > 0 && { captions }),
         };
 
         await strapi.db.query('plugin::upload.file').update({
@@ -304,99 +472,12 @@ export async function uploadAudioToStrapi(
       }
     }
 
-    // Link file to folder if folder was created
-    if (folderId) {
-      try {
-        await linkFileToFolder(
-          {
-            strapi,
-            logger: {
-              info: (msg: string) => strapi.log.info(msg),
-              warn: (msg: string) => strapi.log.warn(msg),
-              error: (msg: string) => strapi.log.error(msg),
-              debug: (msg: string) => strapi.log.debug(msg),
-            },
-          },
-          uploadedFile.id,
-          folderId,
-          folderPath
-        );
-      } catch (error) {
-        // Log but don't fail - file is already uploaded
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        strapi.log.warn(`[AudioUploader] Failed to link file to folder: ${errorMsg}`);
-      }
-    }
-
-    strapi.log.info(`[AudioUploader] Uploaded successfully: ${uploadedFile.url}`);
-
-    // Generate and upload WebVTT chapter file if chapters exist
-    let chapterFileId: number | undefined;
-    if (input.chapters && input.chapters.length > 0) {
-      try {
-        const vttContent = generateWebVTTChapters(input.chapters);
-        const vttBuffer = Buffer.from(vttContent, 'utf-8');
-        const vttFilename = `${sanitizedFilename}-chapters.vtt`;
-        const vttTmpFilePath = path.join(tmpDir, `strapi-vtt-upload-${Date.now()}-${vttFilename}`);
-
-        await fs.promises.writeFile(vttTmpFilePath, vttBuffer);
-
-        const vttFile = {
-          filepath: vttTmpFilePath,
-          originalFilename: vttFilename,
-          mimetype: 'text/vtt',
-          size: vttBuffer.length,
-        };
-
-        const [uploadedVttFile] = await uploadService.upload({
-          data: {},
-          files: vttFile,
-        });
-
-        // Clean up VTT temp file
-        await fs.promises.unlink(vttTmpFilePath).catch(() => {});
-
-        if (uploadedVttFile) {
-          chapterFileId = uploadedVttFile.id;
-
-          if (folderId) {
-            // Update VTT file metadata
-            await strapi.plugin('upload').service('upload').updateFileInfo(uploadedVttFile.id, {
-              alternativeText: `Chapter markers for ${articleTitle}`,
-              caption: `WebVTT chapter file for audio narration`,
-            });
-
-            // Link VTT file to same folder as audio
-            await linkFileToFolder(
-              {
-                strapi,
-                logger: {
-                  info: (msg: string) => strapi.log.info(msg),
-                  warn: (msg: string) => strapi.log.warn(msg),
-                  error: (msg: string) => strapi.log.error(msg),
-                  debug: (msg: string) => strapi.log.debug(msg),
-                },
-              },
-              uploadedVttFile.id,
-              folderId,
-              folderPath
-            );
-          }
-
-          strapi.log.info(`[AudioUploader] WebVTT chapter file uploaded: ${uploadedVttFile.url}`);
-        }
-      } catch (error) {
-        // Non-fatal: log warning but don't fail audio upload
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        strapi.log.warn(`[AudioUploader] Failed to upload WebVTT chapter file: ${errorMsg}`);
-      }
-    }
-
     return {
       id: uploadedFile.id,
       documentId: uploadedFile.documentId ?? String(uploadedFile.id),
       url: uploadedFile.url,
       ...(chapterFileId && { chapterFileId }),
+      ...(captionFiles && { captionFiles }),
     };
   } finally {
     // Clean up temp file regardless of success or failure
@@ -5,7 +5,7 @@
  * Handles ID3 tag detection, frame header parsing, and audio frame extraction.
  */
 
-import type { MP3FrameInfo, ExtractedMP3Data } from './mp3-types';
+import type { MP3FrameInfo, ExtractedMP3Data, XingHeaderInfo } from './mp3-types';
 import {
   INVALID_FRAME_INFO,
   BITRATE_TABLE_V1_L3,
@@ -17,6 +17,8 @@ import {
   SAMPLES_PER_FRAME_V2_L3,
   XING_MAGIC,
   INFO_MAGIC,
+  XING_FLAG_FRAMES,
+  XING_FLAG_BYTES,
 } from './mp3-types';
 
 // ============================================================================
@@ -200,6 +202,17 @@ export function parseFrameHeader(header: Buffer): MP3FrameInfo {
 // Xing Header Detection
 // ============================================================================
 
+/**
+ * Returns the offset of the Xing/Info magic inside a frame
+ * (side info size, which depends on MPEG version and channel mode, plus the 4-byte header).
+ */
+function getXingOffset(frameInfo: MP3FrameInfo): number {
+  if (frameInfo.mpegVersion === 1) {
+    return (frameInfo.channelMode === 3 ? 21 : 36) + 4; // 3 = mono
+  }
+  return (frameInfo.channelMode === 3 ? 13 : 21) + 4;
+}
+
 /**
  * Checks if a frame contains a Xing or Info header.
  * The Xing header location depends on MPEG version and channel mode:
@@ -213,16 +226,7 @@ export function parseFrameHeader(header: Buffer): MP3FrameInfo {
  * @returns true if frame contains Xing/Info header
  */
 export function isXingFrame(frame: Buffer, frameInfo: MP3FrameInfo): boolean {
-  // Calculate Xing header offset based on version and channel mode
-  let xingOffset: number;
-  if (frameInfo.mpegVersion === 1) {
-    xingOffset = frameInfo.channelMode === 3 ? 21 : 36; // 3 = mono
-  } else {
-    xingOffset = frameInfo.channelMode === 3 ? 13 : 21;
-  }
-
-  // Add 4 bytes for frame header
-  xingOffset += 4;
+  const xingOffset = getXingOffset(frameInfo);
 
   if (frame.length < xingOffset + 4) return false;
 
@@ -231,6 +235,65 @@ export function isXingFrame(frame: Buffer, frameInfo: MP3FrameInfo): boolean {
   return magic.equals(XING_MAGIC) || magic.equals(INFO_MAGIC);
 }
 
+/**
+ * Reads the Xing/Info header from the first frame of an MP3 buffer.
+ * Only the start of the file is needed, so callers can pass a partial
+ * download (e.g. the first few KB from a range request).
+ *
+ * @param buffer - MP3 buffer (complete or a prefix)
+ * @returns Xing header metadata, or null if the first frame has no Xing/Info header
+ */
+export function readXingHeader(buffer: Buffer): XingHeaderInfo | null {
+  const offset = findFirstAudioFrame(buffer, false);
+  if (offset < 0) return null;
+
+  const frameInfo = parseFrameHeader(buffer.subarray(offset, offset + 4));
+  if (offset + frameInfo.frameSize > buffer.length) return null;
+
+  const frame = buffer.subarray(offset, offset + frameInfo.frameSize);
+  if (!isXingFrame(frame, frameInfo)) return null;
+
+  const xingOffset = getXingOffset(frameInfo);
+  if (frame.length < xingOffset + 8) return null;
+  const flags = frame.readUInt32BE(xingOffset + 4);
+
+  let fieldOffset = xingOffset + 8;
+  let frameCount: number | undefined;
+  let audioBytes: number | undefined;
+  if (flags & XING_FLAG_FRAMES && frame.length >= fieldOffset + 4) {
+    frameCount = frame.readUInt32BE(fieldOffset);
+    fieldOffset += 4;
+  }
+  if (flags & XING_FLAG_BYTES && frame.length >= fieldOffset + 4) {
+    audioBytes = frame.readUInt32BE(fieldOffset);
+  }
+
+  return {
+    frameInfo,
+    ...(frameCount !== undefined && {
+      frameCount,
+      duration: (frameCount * frameInfo.samplesPerFrame) / frameInfo.sampleRate,
+    }),
+    ...(audioBytes !== undefined && { audioBytes }),
+  };
+}
+
+/**
+ * Gets the duration of an MP3 buffer in seconds.
+ * Uses the Xing frame count when present, otherwise sums every frame.
+ *
+ * @param buffer - Complete MP3 file buffer
+ * @returns Duration in seconds
+ * @throws Error if no valid MP3 frames found
+ */
+export function getMP3Duration(buffer: Buffer): number {
+  const xing = readXingHeader(buffer);
+  if (xing?.duration !== undefined) {
+    return xing.duration;
+  }
+  return extractAudioFrames(buffer).duration;
+}
+
 // ============================================================================
 // Frame Extraction
 // ============================================================================
@@ -118,3 +118,17 @@ export interface ConcatenatedMP3Result {
   /** Duration of each original chunk in seconds */
   readonly chunkDurations: readonly number[];
 }
+
+/**
+ * Metadata read from a Xing/Info header frame.
+ */
+export interface XingHeaderInfo {
+  /** Audio frame count (if the FRAMES flag is set) */
+  readonly frameCount?: number;
+  /** Audio data size in bytes (if the BYTES flag is set) */
+  readonly audioBytes?: number;
+  /** Duration in seconds derived from the frame count (if available) */
+  readonly duration?: number;
+  /** Header of the Xing frame (sample rate, channel mode, etc.) */
+  readonly frameInfo: MP3FrameInfo;
+}
@@ -0,0 +1,243 @@
+/**
+ * Transcript Builder
+ *
+ * Turns merged TTS word alignments into caption files (WebVTT, SRT) and a
+ * timed-transcript JSON for read-along players and "jump to sentence".
+ *
+ * Words are grouped into sentences (split after ., !, ? and …), and sentences
+ * are split into caption cues that respect TTS_CONFIG.CAPTION_MAX_CHARS and
+ * TTS_CONFIG.CAPTION_MAX_SECONDS.
+ */
+
+import type { WordAlignment } from './tts-types';
+import { TTS_CONFIG } from '../config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A word with its position on the audio timeline.
+ */
+export interface TimedWord {
+  readonly text: string;
+  /** Start time in seconds */
+  readonly start: number;
+  /** End time in seconds */
+  readonly end: number;
+}
+
+/**
+ * A span of words (sentence or caption cue).
+ */
+export interface TimedSegment {
+  readonly text: string;
+  /** Start time in seconds */
+  readonly start: number;
+  /** End time in seconds */
+  readonly end: number;
+  /** Index of the first word in the transcript */
+  readonly firstWordIndex: number;
+  /** Index of the last word in the transcript */
+  readonly lastWordIndex: number;
+}
+
+/**
+ * Timed transcript uploaded next to the narration (`*-transcript.json`).
+ */
+export interface TimedTranscript {
+  readonly version: 1;
+  /** Audio duration in seconds */
+  readonly duration: number;
+  readonly words: readonly TimedWord[];
+  readonly sentences: readonly TimedSegment[];
+}
+
+/**
+ * Caption cue limits.
+ */
+export interface CaptionOptions {
+  readonly maxChars?: number;
+  readonly maxSeconds?: number;
+}
+
+// ============================================================================
+// Timestamp Formatting
+// ============================================================================
+
+/**
+ * Formats seconds as HH:MM:SS{separator}mmm.
+ * WebVTT uses '.', SRT uses ','.
+ */
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(milliseconds).padStart(3, '0')}`;
+}
+
+/**
+ * Formats seconds as WebVTT timestamp (HH:MM:SS.mmm).
+ */
+export function formatWebVTTTimestamp(seconds: number): string {
+  return formatTimestamp(seconds, '.');
+}
+
+/**
+ * Formats seconds as SRT timestamp (HH:MM:SS,mmm).
+ */
+export function formatSRTTimestamp(seconds: number): string {
+  return formatTimestamp(seconds, ',');
+}
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/** Sentence-final punctuation, optionally followed by closing quotes/brackets */
+const SENTENCE_END_PATTERN = /[.!?…]["'”’)\]]*$/;
+
+/**
+ * Converts a word alignment into timed words.
+ */
+export function toTimedWords(alignment: WordAlignment): TimedWord[] {
+  return alignment.words.map((text, i) => ({
+    text,
+    start: alignment.wordStartTimeSeconds[i] ?? 0,
+    end: alignment.wordEndTimeSeconds[i] ?? alignment.wordStartTimeSeconds[i] ?? 0,
+  }));
+}
+
+function toSegment(words: readonly TimedWord[], firstWordIndex: number, lastWordIndex: number): TimedSegment {
+  const span = words.slice(firstWordIndex, lastWordIndex + 1);
+  return {
+    text: span.map((word) => word.text).join(' '),
+    start: span[0].start,
+    end: span[span.length - 1].end,
+    firstWordIndex,
+    lastWordIndex,
+  };
+}
+
+/**
+ * Groups words into sentences.
+ */
+export function groupWordsIntoSentences(words: readonly TimedWord[]): TimedSegment[] {
+  const sentences: TimedSegment[] = [];
+  let first = 0;
+
+  words.forEach((word, i) => {
+    if (SENTENCE_END_PATTERN.test(word.text) || i === words.length - 1) {
+      sentences.push(toSegment(words, first, i));
+      first = i + 1;
+    }
+  });
+
+  return sentences;
+}
+
+/**
+ * Groups words into caption cues.
+ * A cue never spans two sentences and is closed before it would exceed the
+ * character or duration limit (a single over-long word still gets its own cue).
+ */
+export function groupWordsIntoCues(words: readonly TimedWord[], options: CaptionOptions = {}): TimedSegment[] {
+  const maxChars = options.maxChars ?? TTS_CONFIG.CAPTION_MAX_CHARS;
+  const maxSeconds = options.maxSeconds ?? TTS_CONFIG.CAPTION_MAX_SECONDS;
+  const cues: TimedSegment[] = [];
+
+  for (const sentence of groupWordsIntoSentences(words)) {
+    let first = sentence.firstWordIndex;
+    let chars = 0;
+
+    for (let i = sentence.firstWordIndex; i <= sentence.lastWordIndex; i++) {
+      const word = words[i];
+      const nextChars = chars === 0 ? word.text.length : chars + 1 + word.text.length;
+      const tooLong = nextChars > maxChars || word.end - words[first].start > maxSeconds;
+
+      if (i > first && tooLong) {
+        cues.push(toSegment(words, first, i - 1));
+        first = i;
+        chars = word.text.length;
+      } else {
+        chars = nextChars;
+      }
+    }
+
+    cues.push(toSegment(words, first, sentence.lastWordIndex));
+  }
+
+  return cues;
+}
+
+// ============================================================================
+// Output Formats
+// ============================================================================
+
+/**
+ * Escapes cue text for WebVTT, where `&` and `<` start entities and tags and
+ * `-->` is not allowed. SRT players show text as-is, so SRT stays unescaped.
+ */
+function escapeWebVTTText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+}
+
+/**
+ * Builds a WebVTT caption file.
+ *
+ * @example
+ * // WEBVTT
+ * //
+ * // 1
+ * // 00:00:00.000 --> 00:00:02.400
+ * // Getting Started
+ */
+export function buildWebVTTCaptions(alignment: WordAlignment, options?: CaptionOptions): string {
+  const cues = groupWordsIntoCues(toTimedWords(alignment), options);
+  const lines: string[] = ['WEBVTT', ''];
+
+  cues.forEach((cue, i) => {
+    lines.push(String(i + 1));
+    lines.push(`${formatWebVTTTimestamp(cue.start)} --> ${formatWebVTTTimestamp(cue.end)}`);
+    lines.push(escapeWebVTTText(cue.text));
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds an SRT caption file.
+ */
+export function buildSRTCaptions(alignment: WordAlignment, options?: CaptionOptions): string {
+  const cues = groupWordsIntoCues(toTimedWords(alignment), options);
+  const lines: string[] = [];
+
+  cues.forEach((cue, i) => {
+    lines.push(String(i + 1));
+    lines.push(`${formatSRTTimestamp(cue.start)} --> ${formatSRTTimestamp(cue.end)}`);
+    lines.push(cue.text);
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds the timed transcript (every word plus sentence spans).
+ *
+ * @param alignment - Merged word alignment for the whole narration
+ * @param duration - Audio duration in seconds (defaults to the last word's end)
+ */
+export function buildTimedTranscript(alignment: WordAlignment, duration?: number): TimedTranscript {
+  const words = toTimedWords(alignment);
+  return {
+    version: 1,
+    duration: duration ?? words[words.length - 1]?.end ?? 0,
+    words,
+    sentences: groupWordsIntoSentences(words),
+  };
+}
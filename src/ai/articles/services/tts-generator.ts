@@ -1,7 +1,8 @@
 /**
  * TTS Generator Service
  *
- * Converts article markdown to speech using Inworld AI TTS API.
+ * Converts article markdown to speech through a pluggable TTS provider
+ * (Inworld AI by default, see tts-providers.ts).
  *
  * Features:
  * - Markdown to plain text conversion
@@ -9,22 +10,26 @@
  * - Chunk merging via buffer concatenation
  * - Retry logic for transient failures
  * - Chapter marker generation for H2 sections
+ * - Word/character timestamps merged across chunks (shifted by each chunk's
+ *   offset in the concatenated audio) for captions and transcripts
  */
 
 import type {
   TTSConfig,
+  TTSProvider,
+  TTSSynthesisRequest,
+  TTSSynthesisResult,
   AudioGenerationResult,
-  InworldTTSRequest,
-  InworldTTSResponse,
   AudioChapter,
-  TimestampType,
   WordAlignment,
   CharacterAlignment,
+  TimestampInfo,
   SectionAwareChunk,
   MP3ChunkData,
 } from './tts-types';
 import { TTS_CONFIG } from '../config';
 import { concatenateMP3Buffers } from './mp3-builder';
+import { resolveTTSProvider } from './tts-providers';
 
 // ============================================================================
 // Chapter Generation
@@ -528,77 +533,80 @@ export function splitTextIntoSectionAwareChunks(
 }
 
 // ============================================================================
-// Inworld API Integration
+// Timestamp Merging
 // ============================================================================
 
 /**
- * Result from generating a single audio chunk.
+ * Merges per-chunk timestamps into a single timeline.
+ * Provider timestamps are relative to each chunk, so every chunk is shifted by
+ * the summed duration of the chunks before it in the concatenated MP3 (not by
+ * its last word, which would drop trailing silence and drift over long articles).
+ *
+ * @param timestampInfos - Timestamp info per chunk, in order
+ * @param chunkDurations - Duration of each chunk in the concatenated audio (seconds)
+ * @returns Merged alignments (undefined when no chunk had that alignment type)
  */
-interface AudioChunkResult {
-  /** Audio buffer (MP3 format) */
-  readonly buffer: Buffer;
-  /** Timestamp info (if requested) */
-  readonly timestampInfo?: InworldTTSResponse['timestampInfo'];
+export function mergeChunkAlignments(
+  timestampInfos: readonly (TimestampInfo | undefined)[],
+  chunkDurations: readonly number[]
+): { wordAlignment?: WordAlignment; characterAlignment?: CharacterAlignment } {
+  const words: string[] = [];
+  const wordStartTimeSeconds: number[] = [];
+  const wordEndTimeSeconds: number[] = [];
+  const characters: string[] = [];
+  const characterStartTimeSeconds: number[] = [];
+  const characterEndTimeSeconds: number[] = [];
+
+  let offset = 0;
+  timestampInfos.forEach((info, i) => {
+    const word = info?.wordAlignment;
+    if (word) {
+      words.push(...word.words);
+      wordStartTimeSeconds.push(...word.wordStartTimeSeconds.map((t) => t + offset));
+      wordEndTimeSeconds.push(...word.wordEndTimeSeconds.map((t) => t + offset));
+    }
+
+    const character = info?.characterAlignment;
+    if (character) {
+      characters.push(...character.characters);
+      characterStartTimeSeconds.push(...character.characterStartTimeSeconds.map((t) => t + offset));
+      characterEndTimeSeconds.push(...character.characterEndTimeSeconds.map((t) => t + offset));
+    }
+
+    offset += chunkDurations[i] ?? 0;
+  });
+
+  return {
+    ...(words.length > 0 && { wordAlignment: { words, wordStartTimeSeconds, wordEndTimeSeconds } }),
+    ...(characters.length > 0 && {
+      characterAlignment: { characters, characterStartTimeSeconds, characterEndTimeSeconds },
+    }),
+  };
 }
 
+// ============================================================================
+// Chunk Synthesis
+// ============================================================================
+
 /**
- * Calls Inworld TTS API to generate audio for a single chunk of text.
+ * Synthesizes a single chunk of text through the provider.
  * Includes retry logic for transient failures.
  *
- * @param text - Text chunk to convert to speech
- * @param voiceId - Voice ID to use
- * @param modelId - Model ID to use
- * @param apiKey - Inworld API key
- * @param timestampType - Timestamp type for alignment data
+ * @param provider - TTS provider
+ * @param request - Chunk text, voice, model and timestamp type
  * @returns Audio buffer and timestamp info
  * @throws Error if all retries fail
  */
-async function generateAudioChunk(
-  text: string,
-  voiceId: string,
-  modelId: string,
-  apiKey: string,
-  timestampType?: TimestampType
-): Promise<AudioChunkResult> {
+async function synthesizeChunkWithRetry(
+  provider: TTSProvider,
+  request: TTSSynthesisRequest
+): Promise<TTSSynthesisResult> {
   let lastError: Error | null = null;
 
   // Retry logic with exponential backoff
   for (let attempt = 0; attempt < TTS_CONFIG.MAX_RETRIES; attempt++) {
     try {
-      const payload: InworldTTSRequest = {
-        text,
-        voiceId,
-        modelId,
-        ...(timestampType && { timestampType }),
-      };
-
-      const response = await fetch(TTS_CONFIG.API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Inworld API error (${response.status}): ${errorText}`);
-      }
-
-      const result = (await response.json()) as InworldTTSResponse;
-
-      if (!result.audioContent) {
-        throw new Error('Inworld API response missing audioContent field');
-      }
-
-      // Decode base64 audio content to buffer
-      const audioBuffer = Buffer.from(result.audioContent, 'base64');
-
-      return {
-        buffer: audioBuffer,
-        timestampInfo: result.timestampInfo,
-      };
+      return await provider.synthesize(request);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -623,7 +631,7 @@ async function generateAudioChunk(
  * Main entry point for TTS service.
  *
  * @param markdown - Article markdown content
- * @param config - TTS configuration (voice, model, API key, strapi logger)
+ * @param config - TTS configuration (provider or locale, voice, model, API key, strapi logger)
  * @returns Audio generation result with buffer, metadata, and chapters, or null if generation fails
  *
  * @example
@@ -638,6 +646,10 @@ async function generateAudioChunk(
  *   strapi.log.info(`Chapters: ${result.chapters?.length || 0}`);
  *   await uploadAudio(result.buffer);
  * }
+ *
+ * @example
+ * // Offline (no network): silent audio with synthetic timestamps
+ * const result = await generateAudioFromMarkdown(markdown, { provider: 'silent' });
  */
 export async function generateAudioFromMarkdown(
   markdown: string,
@@ -645,14 +657,11 @@ export async function generateAudioFromMarkdown(
 ): Promise<AudioGenerationResult | null> {
   const startTime = Date.now();
 
-  // Get configuration with defaults
-  const apiKey = config.apiKey || process.env.INWORLD_API_KEY;
-  if (!apiKey) {
-    throw new Error('INWORLD_API_KEY not configured (set in .env or pass in config)');
-  }
-
-  const voiceId = config.voice || TTS_CONFIG.DEFAULT_VOICE_ID;
-  const modelId = config.model || TTS_CONFIG.DEFAULT_MODEL_ID;
+  // Resolve provider (throws for unknown providers or a missing Inworld key)
+  const provider = resolveTTSProvider(config);
+  const localeVoice = config.locale ? provider.localeVoices?.[config.locale] : undefined;
+  const voiceId = config.voice || localeVoice || provider.defaultVoiceId;
+  const modelId = config.model || provider.defaultModelId;
   const timestampType = config.timestampType || TTS_CONFIG.DEFAULT_TIMESTAMP_TYPE;
 
   try {
@@ -671,39 +680,25 @@ export async function generateAudioFromMarkdown(
     const sectionChunks = splitTextIntoSectionAwareChunks(plainText, sections);
 
     config.strapi?.log.info(
-      `[TTS] Split into ${sectionChunks.length} chunks (${sectionChunks.filter((c) => c.source === 'section').length} full sections)`
+      `[TTS] Split into ${sectionChunks.length} chunks (${sectionChunks.filter((c) => c.source === 'section').length} full sections), provider: ${provider.id}`
     );
 
     // Generate audio for each chunk
     const mp3ChunkData: MP3ChunkData[] = [];
-    const allWords: string[] = [];
-    const allWordStartTimes: number[] = [];
-    const allWordEndTimes: number[] = [];
-    let cumulativeTime = 0;
 
     for (const chunkMeta of sectionChunks) {
-      const result = await generateAudioChunk(chunkMeta.text, voiceId, modelId, apiKey, timestampType);
+      const result = await synthesizeChunkWithRetry(provider, {
+        text: chunkMeta.text,
+        voiceId,
+        modelId,
+        timestampType,
+      });
 
       mp3ChunkData.push({
         buffer: result.buffer,
         timestampInfo: result.timestampInfo,
         chunkMeta,
       });
-
-      // Collect word alignment data if available
-      if (result.timestampInfo?.wordAlignment) {
-        const { words, wordStartTimeSeconds, wordEndTimeSeconds } = result.timestampInfo.wordAlignment;
-
-        // Adjust timestamps to be cumulative across chunks
-        allWords.push(...words);
-        allWordStartTimes.push(...wordStartTimeSeconds.map((t) => t + cumulativeTime));
-        allWordEndTimes.push(...wordEndTimeSeconds.map((t) => t + cumulativeTime));
-
-        // Update cumulative time to the end of this chunk
-        if (wordEndTimeSeconds.length > 0) {
-          cumulativeTime = allWordEndTimes[allWordEndTimes.length - 1];
-        }
-      }
     }
 
     // Properly concatenate MP3 buffers with accurate Xing header for web seeking
@@ -715,6 +710,15 @@ export async function generateAudioFromMarkdown(
       `[TTS] MP3 concatenation complete: ${concatenated.frameCount} frames, ${concatenated.duration.toFixed(1)}s duration`
     );
 
+    // Merge per-chunk timestamps onto the concatenated timeline
+    const { wordAlignment, characterAlignment } = mergeChunkAlignments(
+      mp3ChunkData.map((d) => d.timestampInfo),
+      concatenated.chunkDurations
+    );
+    const allWords = wordAlignment?.words ?? [];
+    const allWordStartTimes = wordAlignment?.wordStartTimeSeconds ?? [];
+    const allWordEndTimes = wordAlignment?.wordEndTimeSeconds ?? [];
+
     const durationMs = Date.now() - startTime;
 
     // Generate chapter markers if H2 sections exist
@@ -839,15 +843,6 @@ export async function generateAudioFromMarkdown(
       config.strapi?.log.info(`[TTS] Total audio duration: ${totalAudioDuration.toFixed(1)} seconds (${(totalAudioDuration / 60).toFixed(1)} minutes)`);
     }
 
-    // Build word alignment data if available
-    const wordAlignment: WordAlignment | undefined = allWords.length > 0
-      ? {
-          words: allWords,
-          wordStartTimeSeconds: allWordStartTimes,
-          wordEndTimeSeconds: allWordEndTimes,
-        }
-      : undefined;
-
     // Use concatenated duration as fallback if word alignment duration not available
     const finalAudioDuration = totalAudioDuration ?? concatenated.duration;
 
@@ -855,10 +850,14 @@ export async function generateAudioFromMarkdown(
       buffer: finalBuffer,
       durationMs,
       chunkCount: sectionChunks.length,
+      provider: provider.id,
+      voiceId,
+      modelId,
       chapters,
       audioDurationSeconds: finalAudioDuration,
       timestampType,
       wordAlignment,
+      characterAlignment,
     };
   } catch (error) {
     // Log error but return null (non-fatal - audio is optional)
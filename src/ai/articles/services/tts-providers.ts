@@ -0,0 +1,238 @@
+/**
+ * TTS Providers
+ *
+ * Vendor implementations behind the TTSProvider interface:
+ * - inworld: Inworld AI TTS API (production)
+ * - silent: Offline engine that synthesizes silent MP3 frames with evenly
+ *   spaced word timestamps, so the full audio pipeline (chunking,
+ *   concatenation, chapters) runs without network access
+ */
+
+import type {
+  CharacterAlignment,
+  InworldTTSRequest,
+  InworldTTSResponse,
+  TTSConfig,
+  TTSProvider,
+  TTSProviderId,
+  TTSSynthesisRequest,
+  TTSSynthesisResult,
+  TTSVoice,
+  WordAlignment,
+} from './tts-types';
+import { TTS_CONFIG } from '../config';
+
+// ============================================================================
+// Inworld
+// ============================================================================
+
+/**
+ * Internal: voice entry from the Inworld voice catalogue.
+ */
+interface InworldVoice {
+  readonly voiceId: string;
+  readonly displayName?: string;
+  readonly description?: string;
+  readonly languages?: readonly string[];
+}
+
+/**
+ * Creates the Inworld AI provider.
+ *
+ * @param apiKey - Inworld API key (defaults to INWORLD_API_KEY env var)
+ * @throws Error if no API key is configured
+ */
+export function createInworldTTSProvider(apiKey?: string): TTSProvider {
+  const key = apiKey || process.env.INWORLD_API_KEY;
+  if (!key) {
+    throw new Error('INWORLD_API_KEY not configured (set in .env or pass in config)');
+  }
+
+  const headers = {
+    'Authorization': `Basic ${key}`,
+    'Content-Type': 'application/json',
+  };
+
+  return {
+    id: 'inworld',
+    defaultVoiceId: TTS_CONFIG.DEFAULT_VOICE_ID,
+    defaultModelId: TTS_CONFIG.DEFAULT_MODEL_ID,
+    localeVoices: TTS_CONFIG.VOICE_BY_LOCALE,
+
+    async synthesize({ text, voiceId, modelId, timestampType }: TTSSynthesisRequest): Promise<TTSSynthesisResult> {
+      const payload: InworldTTSRequest = {
+        text,
+        voiceId,
+        modelId,
+        ...(timestampType && { timestampType }),
+      };
+
+      const response = await fetch(TTS_CONFIG.API_URL, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Inworld API error (${response.status}): ${errorText}`);
+      }
+
+      const result = (await response.json()) as InworldTTSResponse;
+
+      if (!result.audioContent) {
+        throw new Error('Inworld API response missing audioContent field');
+      }
+
+      // Decode base64 audio content to buffer
+      return {
+        buffer: Buffer.from(result.audioContent, 'base64'),
+        timestampInfo: result.timestampInfo,
+      };
+    },
+
+    async listVoices(language?: string): Promise<readonly TTSVoice[]> {
+      const url = language
+        ? `${TTS_CONFIG.VOICES_API_URL}?filter=${encodeURIComponent(`language=${language}`)}`
+        : TTS_CONFIG.VOICES_API_URL;
+
+      const response = await fetch(url, { headers });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Inworld API error (${response.status}): ${errorText}`);
+      }
+
+      const result = (await response.json()) as { voices?: readonly InworldVoice[] };
+      return (result.voices ?? []).map((voice) => ({
+        id: voice.voiceId,
+        name: voice.displayName || voice.voiceId,
+        languages: voice.languages ?? [],
+        ...(voice.description && { description: voice.description }),
+      }));
+    },
+  };
+}
+
+// ============================================================================
+// Silent (offline)
+// ============================================================================
+
+/**
+ * Silent MPEG-1 Layer III frame: 32kbps, 44.1kHz, mono, no padding.
+ * Zeroed side info and main data decode to silence.
+ */
+const SILENT_FRAME_SIZE = Math.floor((144 * 32 * 1000) / 44100);
+const SILENT_FRAME_DURATION = 1152 / 44100;
+const SILENT_FRAME = (() => {
+  const frame = Buffer.alloc(SILENT_FRAME_SIZE, 0);
+  frame[0] = 0xff;
+  frame[1] = 0xfb; // MPEG-1, Layer III, no CRC
+  frame[2] = 0x10; // 32kbps, 44.1kHz, no padding
+  frame[3] = 0xc0; // Mono
+  return frame;
+})();
+
+/**
+ * Builds evenly spaced alignment data for a chunk.
+ */
+function buildSilentAlignment(
+  words: readonly string[],
+  secondsPerWord: number
+): { wordAlignment: WordAlignment; characterAlignment: CharacterAlignment } {
+  const wordStartTimeSeconds = words.map((_, i) => i * secondsPerWord);
+  const wordEndTimeSeconds = words.map((_, i) => (i + 1) * secondsPerWord);
+
+  const characters: string[] = [];
+  const characterStartTimeSeconds: number[] = [];
+  const characterEndTimeSeconds: number[] = [];
+  words.forEach((word, i) => {
+    const perChar = secondsPerWord / word.length;
+    for (let c = 0; c < word.length; c++) {
+      characters.push(word[c]);
+      characterStartTimeSeconds.push(wordStartTimeSeconds[i] + c * perChar);
+      characterEndTimeSeconds.push(wordStartTimeSeconds[i] + (c + 1) * perChar);
+    }
+  });
+
+  return {
+    wordAlignment: { words, wordStartTimeSeconds, wordEndTimeSeconds },
+    characterAlignment: { characters, characterStartTimeSeconds, characterEndTimeSeconds },
+  };
+}
+
+/**
+ * Creates the offline silent provider.
+ * Audio length follows the word count at TTS_CONFIG.SILENT_WORDS_PER_MINUTE,
+ * and timestamps are spaced evenly so chapter markers line up with sections.
+ *
+ * @param wordsPerMinute - Speech rate for timestamps and duration
+ */
+export function createSilentTTSProvider(
+  wordsPerMinute: number = TTS_CONFIG.SILENT_WORDS_PER_MINUTE
+): TTSProvider {
+  const secondsPerWord = 60 / wordsPerMinute;
+
+  return {
+    id: 'silent',
+    defaultVoiceId: 'silent',
+    defaultModelId: 'silent',
+
+    async synthesize({ text, timestampType }: TTSSynthesisRequest): Promise<TTSSynthesisResult> {
+      const words = text.split(/\s+/).filter((w) => w.length > 0);
+      const duration = words.length * secondsPerWord;
+      // Round up so the audio always covers the last word's end time
+      const frameCount = Math.max(1, Math.ceil(duration / SILENT_FRAME_DURATION));
+      const buffer = Buffer.concat(Array.from({ length: frameCount }, () => SILENT_FRAME));
+
+      if (!timestampType || timestampType === 'TIMESTAMP_TYPE_UNSPECIFIED') {
+        return { buffer };
+      }
+
+      const { wordAlignment, characterAlignment } = buildSilentAlignment(words, secondsPerWord);
+      return {
+        buffer,
+        timestampInfo: timestampType === 'WORD' ? { wordAlignment } : { characterAlignment },
+      };
+    },
+
+    async listVoices(): Promise<readonly TTSVoice[]> {
+      return [{ id: 'silent', name: 'Silent', languages: [], description: 'Offline silent audio with synthetic timestamps' }];
+    },
+  };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Returns the provider ID configured for a locale.
+ *
+ * @param locale - Article locale (uses TTS_CONFIG.DEFAULT_PROVIDER when omitted or not overridden)
+ */
+export function getTTSProviderIdForLocale(locale?: string): TTSProviderId {
+  const configured = (locale && TTS_CONFIG.PROVIDER_BY_LOCALE[locale]) || TTS_CONFIG.DEFAULT_PROVIDER;
+  return configured as TTSProviderId;
+}
+
+/**
+ * Resolves the provider for a TTS configuration.
+ * An explicit provider wins; otherwise the locale's configured provider is used.
+ *
+ * @throws Error for unknown provider IDs or a missing Inworld API key
+ */
+export function resolveTTSProvider(config: Pick<TTSConfig, 'provider' | 'locale' | 'apiKey'> = {}): TTSProvider {
+  if (config.provider && typeof config.provider === 'object') {
+    return config.provider;
+  }
+
+  const providerId = config.provider ?? getTTSProviderIdForLocale(config.locale);
+  switch (providerId) {
+    case 'inworld':
+      return createInworldTTSProvider(config.apiKey);
+    case 'silent':
+      return createSilentTTSProvider();
+    default:
+      throw new Error(`Unknown TTS provider "${String(providerId)}"`);
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * TypeScript Types for TTS (Text-to-Speech) Service
  *
- * Defines interfaces for Inworld AI TTS integration.
+ * Defines interfaces for the pluggable TTS provider layer
+ * (Inworld AI and the offline silent engine).
  */
 
 import type { Core } from '@strapi/strapi';
@@ -16,11 +17,18 @@ export type TimestampType = 'TIMESTAMP_TYPE_UNSPECIFIED' | 'WORD' | 'CHARACTER';
  * Configuration for TTS generation.
  */
 export interface TTSConfig {
-  /** Voice ID to use (e.g., "Dennis", "Ashley") */
+  /**
+   * Provider instance or built-in provider ID.
+   * Defaults to the provider configured for `locale` (see TTS_CONFIG.PROVIDER_BY_LOCALE).
+   */
+  readonly provider?: TTSProvider | TTSProviderId;
+  /** Article locale, used to pick the provider and voice when none is given */
+  readonly locale?: string;
+  /** Voice ID to use (e.g., "Dennis", "Ashley"); defaults to the provider's default voice */
   readonly voice?: string;
-  /** Model ID to use (e.g., "inworld-tts-1-max") */
+  /** Model ID to use (e.g., "inworld-tts-1-max"); defaults to the provider's default model */
   readonly model?: string;
-  /** API key (defaults to INWORLD_API_KEY env var) */
+  /** Inworld API key (defaults to INWORLD_API_KEY env var) */
   readonly apiKey?: string;
   /** Timestamp type for alignment data (default: WORD for chapter tracking) */
   readonly timestampType?: TimestampType;
@@ -28,6 +36,65 @@ export interface TTSConfig {
   readonly strapi?: Core.Strapi;
 }
 
+// ============================================================================
+// Provider Types
+// ============================================================================
+
+/** Built-in TTS provider IDs */
+export type TTSProviderId = 'inworld' | 'silent';
+
+/**
+ * Voice from a provider's catalogue.
+ */
+export interface TTSVoice {
+  /** Voice ID to pass as `voice` */
+  readonly id: string;
+  /** Human-readable name */
+  readonly name: string;
+  /** Language codes the voice supports (empty means any language) */
+  readonly languages: readonly string[];
+  readonly description?: string;
+}
+
+/**
+ * Request to synthesize a single text chunk.
+ */
+export interface TTSSynthesisRequest {
+  /** Plain text, at most TTS_CONFIG.MAX_CHUNK_SIZE characters */
+  readonly text: string;
+  readonly voiceId: string;
+  readonly modelId: string;
+  /** Alignment data to return alongside the audio */
+  readonly timestampType?: TimestampType;
+}
+
+/**
+ * Audio for a single text chunk.
+ */
+export interface TTSSynthesisResult {
+  /** MP3 audio; chunks from one provider must share a format so they can be concatenated */
+  readonly buffer: Buffer;
+  /** Word/character alignment relative to the start of this chunk */
+  readonly timestampInfo?: TimestampInfo;
+}
+
+/**
+ * Text-to-speech vendor used by the TTS generator.
+ * Retries, chunking, concatenation and chapter markers are handled by the
+ * generator, so a provider only synthesizes one chunk at a time.
+ */
+export interface TTSProvider {
+  readonly id: string;
+  readonly defaultVoiceId: string;
+  readonly defaultModelId: string;
+  /** Voice per locale code, used when no voice is configured explicitly */
+  readonly localeVoices?: Readonly<Record<string, string>>;
+  /** Synthesizes one chunk (single attempt; the generator retries) */
+  synthesize(request: TTSSynthesisRequest): Promise<TTSSynthesisResult>;
+  /** Lists available voices, optionally filtered by language code */
+  listVoices(language?: string): Promise<readonly TTSVoice[]>;
+}
+
 /**
  * Chapter marker for audio navigation.
  */
@@ -50,6 +117,12 @@ export interface AudioGenerationResult {
   readonly durationMs: number;
   /** Number of chunks processed */
   readonly chunkCount: number;
+  /** Provider that synthesized the audio */
+  readonly provider: string;
+  /** Voice ID used */
+  readonly voiceId: string;
+  /** Model ID used */
+  readonly modelId: string;
   /** Chapter markers for H2 sections (if available) */
   readonly chapters?: readonly AudioChapter[];
   /** Total audio duration in seconds (actual playback time from timestamps or estimation) */
@@ -74,6 +147,30 @@ export interface AudioUploadResult {
   readonly url: string;
   /** Chapter file ID (if chapters were generated) */
   readonly chapterFileId?: number;
+  /** Caption and transcript files (if word timestamps were available) */
+  readonly captionFiles?: AudioCaptionFiles;
+}
+
+/**
+ * Reference to an uploaded media library file.
+ */
+export interface UploadedMediaRef {
+  /** Strapi media numeric ID */
+  readonly id: number;
+  /** Public CDN URL */
+  readonly url: string;
+}
+
+/**
+ * Caption/transcript files uploaded next to a narration.
+ */
+export interface AudioCaptionFiles {
+  /** WebVTT captions */
+  readonly vtt?: UploadedMediaRef;
+  /** SRT captions */
+  readonly srt?: UploadedMediaRef;
+  /** Timed transcript JSON (words + sentences) */
+  readonly transcript?: UploadedMediaRef;
 }
 
 /**
@@ -16,6 +16,8 @@ import type {
   CachedSourceContent,
   CacheCheckResult,
   CleanedSource,
+  DomainExclusionOverride,
+  DomainQualitySnapshot,
   DomainTier,
   RawSourceInput,
   SearchSource,
@@ -23,7 +25,7 @@ import type {
   StoredDomainQuality,
   StoredSourceContent,
 } from './types';
-import { CLEANER_CONFIG } from './config';
+import { CLEANER_CONFIG, SOURCE_CACHE_CONFIG } from './config';
 
 // ============================================================================
 // Types
@@ -55,6 +57,8 @@ interface SourceContentRow {
   last_accessed_at: string | null;
   search_source: 'tavily' | 'exa';
   scrape_succeeded: boolean;
+  created_at: string;
+  updated_at: string | null;
   published_at: string | null;
 }
 
@@ -155,6 +159,12 @@ interface DomainQualityRow {
   is_excluded_exa: boolean;
   tavily_exclude_reason: string | null;
   exa_exclude_reason: string | null;
+  // Manual overrides (set from the admin API, never touched by recomputes)
+  tier_override: DomainTier | null;
+  exclusion_override: DomainExclusionOverride | null;
+  override_reason: string | null;
+  overridden_at: string | null;
+  score_history: unknown; // JSON (string on SQLite)
   published_at: string | null;
 }
 
@@ -356,6 +366,38 @@ async function getExcludedDomainsFromDb(
 // Cache Operations
 // ============================================================================
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a cached source of this content type stays fresh.
+ *
+ * @param contentType - Free-text content type from the cleaner
+ */
+export function getSourceTtlDays(contentType: string | null | undefined): number {
+  const normalized = (contentType ?? '').toLowerCase();
+  const rule = SOURCE_CACHE_CONFIG.TTL_DAYS_BY_CONTENT_TYPE.find(({ match }) => normalized.includes(match));
+  return rule?.ttlDays ?? SOURCE_CACHE_CONFIG.DEFAULT_TTL_DAYS;
+}
+
+/**
+ * Whether a cached source is older than its content type's TTL.
+ *
+ * @param contentType - Free-text content type from the cleaner
+ * @param fetchedAt - When the content was last cleaned (row updated_at/created_at)
+ * @param now - Current time (for testing)
+ */
+export function isSourceStale(
+  contentType: string | null | undefined,
+  fetchedAt: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const fetchedMs = fetchedAt ? Date.parse(fetchedAt) : NaN;
+  if (Number.isNaN(fetchedMs)) {
+    return false;
+  }
+  return now.getTime() - fetchedMs > getSourceTtlDays(contentType) * DAY_MS;
+}
+
 /**
  * Check cache for multiple URLs in parallel.
  * Returns cache hits and misses with their data.
@@ -437,7 +479,11 @@ export async function checkSourceCache(
 
   // Build lookup map
   const cachedMap = new Map<string, StoredSourceContent>();
+  const staleUrls = new Set<string>();
   for (const row of cachedRows) {
+    if (isSourceStale(row.content_type, row.updated_at ?? row.created_at)) {
+      staleUrls.add(row.url);
+    }
     cachedMap.set(row.url, {
       id: row.id,
       documentId: row.document_id,
@@ -517,6 +563,7 @@ export async function checkSourceCache(
       return {
         url: raw.url,
         hit: true,
+        stale: staleUrls.has(normalized),
         cached: {
           url: cached.url,
           domain: cached.domain,
@@ -1066,6 +1113,162 @@ export async function linkSourceToGame(
   }
 }
 
+// ============================================================================
+// Cache Retention
+// ============================================================================
+
+/**
+ * Options for a cache cleanup run.
+ */
+export interface SourceCacheCleanupOptions {
+  /** Maximum rows removed (default: SOURCE_CACHE_CONFIG.CLEANUP_BATCH_SIZE) */
+  readonly batchSize?: number;
+  /** Report what would be removed without deleting anything */
+  readonly dryRun?: boolean;
+  /** Current time (for testing) */
+  readonly now?: Date;
+}
+
+/**
+ * Result of a cache cleanup run.
+ */
+export interface SourceCacheCleanupResult {
+  /** Rows matching the cleanup criteria that were looked at */
+  readonly candidates: number;
+  /** Candidates kept because a published post cites them */
+  readonly keptForPosts: number;
+  /** Rows removed (or that would be removed on a dry run) */
+  readonly deleted: number;
+  readonly deletedUrls: readonly string[];
+  readonly dryRun: boolean;
+}
+
+/**
+ * Normalized source URLs cited by published posts (post.sources.urls).
+ */
+async function getUrlsCitedByPublishedPosts(strapi: Core.Strapi): Promise<Set<string>> {
+  const posts = (await strapi.db.query('api::post.post').findMany({
+    where: { publishedAt: { $notNull: true } },
+    select: ['sources'],
+  })) as { sources: unknown }[];
+
+  const urls = new Set<string>();
+  for (const post of posts) {
+    let sources = post.sources as { urls?: unknown } | null;
+    if (typeof post.sources === 'string') {
+      try {
+        sources = JSON.parse(post.sources);
+      } catch {
+        continue;
+      }
+    }
+    if (!Array.isArray(sources?.urls)) continue;
+    for (const url of sources.urls) {
+      const normalized = typeof url === 'string' ? normalizeUrl(url) : null;
+      if (normalized) urls.add(normalized);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Maps source URLs to their source-content document IDs.
+ * URLs without a cached row are left out.
+ */
+export async function findSourceContentIds(
+  strapi: Core.Strapi,
+  urls: readonly string[]
+): Promise<Map<string, string>> {
+  const normalizedUrls = [...new Set(urls.map(normalizeUrl).filter((url): url is string => url !== null))];
+  if (normalizedUrls.length === 0) return new Map();
+
+  const rows = await getSourceContentService(strapi).findMany({
+    filters: { url: { $in: normalizedUrls } },
+    fields: ['url'],
+  } as any);
+
+  return new Map(rows.map((row) => [row.url, row.documentId]));
+}
+
+let cleanupRunning = false;
+
+/**
+ * Remove rarely used, low-quality rows from the source cache.
+ *
+ * A row is removed when all of these hold:
+ * - not accessed for SOURCE_CACHE_CONFIG.CLEANUP_MIN_IDLE_DAYS
+ * - accessed at most CLEANUP_MAX_ACCESS_COUNT times
+ * - quality score below CLEANUP_MAX_QUALITY_SCORE
+ * - no published post cites its URL
+ *
+ * Scrape failure rows are kept: they carry no content and drive per-engine
+ * domain exclusion. Domain quality is recomputed for domains that lost rows.
+ * Overlapping runs are skipped.
+ */
+export async function cleanupSourceCache(
+  strapi: Core.Strapi,
+  options: SourceCacheCleanupOptions = {}
+): Promise<SourceCacheCleanupResult> {
+  const batchSize = options.batchSize ?? SOURCE_CACHE_CONFIG.CLEANUP_BATCH_SIZE;
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const empty: SourceCacheCleanupResult = { candidates: 0, keptForPosts: 0, deleted: 0, deletedUrls: [], dryRun };
+
+  if (cleanupRunning) {
+    strapi.log.warn('[SourceCache] Previous cleanup still running, skipping');
+    return empty;
+  }
+
+  cleanupRunning = true;
+  try {
+    const knex = strapi.db.connection;
+    const idleSince = new Date(now.getTime() - SOURCE_CACHE_CONFIG.CLEANUP_MIN_IDLE_DAYS * DAY_MS).toISOString();
+    const citedUrls = await getUrlsCitedByPublishedPosts(strapi);
+
+    const candidates = await knex<SourceContentRow>('source_contents')
+      .where('access_count', '<=', SOURCE_CACHE_CONFIG.CLEANUP_MAX_ACCESS_COUNT)
+      .andWhere('quality_score', '<', SOURCE_CACHE_CONFIG.CLEANUP_MAX_QUALITY_SCORE)
+      .andWhere('scrape_succeeded', true)
+      .andWhere((qb) => {
+        qb.where('last_accessed_at', '<', idleSince).orWhere((inner) => {
+          inner.whereNull('last_accessed_at').andWhere('created_at', '<', idleSince);
+        });
+      })
+      .orderBy('last_accessed_at', 'asc')
+      // Cited rows are skipped below, so look a bit further than the batch
+      .limit(batchSize + citedUrls.size)
+      .select('id', 'document_id', 'url', 'domain');
+
+    const toDelete = candidates.filter((row) => !citedUrls.has(row.url)).slice(0, batchSize);
+    const keptForPosts = candidates.filter((row) => citedUrls.has(row.url)).length;
+
+    if (!dryRun) {
+      const sourceContentService = getSourceContentService(strapi);
+      for (const row of toDelete) {
+        // Document service delete also removes the game relation rows
+        await sourceContentService.delete({ documentId: row.document_id });
+      }
+      for (const domain of new Set(toDelete.map((row) => row.domain))) {
+        await updateDomainQuality(strapi, domain);
+      }
+    }
+
+    strapi.log.info(
+      `[SourceCache] Cleanup${dryRun ? ' (dry run)' : ''}: ${toDelete.length} removed, ${keptForPosts} kept for published posts`
+    );
+
+    return {
+      candidates: candidates.length,
+      keptForPosts,
+      deleted: toDelete.length,
+      deletedUrls: toDelete.map((row) => row.url),
+      dryRun,
+    };
+  } finally {
+    cleanupRunning = false;
+  }
+}
+
 // ============================================================================
 // Domain Quality Operations
 // ============================================================================
@@ -1150,6 +1353,96 @@ function inferDomainType(domain: string): string {
   return 'other';
 }
 
+/**
+ * Exclusion state of a domain, as computed or after overrides.
+ */
+export interface DomainExclusionState {
+  readonly tier: DomainTier;
+  readonly isExcluded: boolean;
+  readonly excludeReason: string | null;
+  readonly isExcludedTavily: boolean;
+  readonly tavilyExcludeReason: string | null;
+  readonly isExcludedExa: boolean;
+  readonly exaExcludeReason: string | null;
+}
+
+/**
+ * Manual overrides stored on a domain quality row.
+ */
+export interface DomainQualityOverrides {
+  readonly tierOverride: DomainTier | null;
+  readonly exclusionOverride: DomainExclusionOverride | null;
+  readonly overrideReason: string | null;
+}
+
+/**
+ * Apply manual overrides on top of the computed state.
+ * A forced include also lifts per-engine exclusions; a forced exclude is global.
+ */
+export function applyDomainQualityOverrides(
+  computed: DomainExclusionState,
+  overrides: DomainQualityOverrides
+): DomainExclusionState {
+  const tier = overrides.tierOverride ?? computed.tier;
+
+  if (overrides.exclusionOverride === 'exclude') {
+    return {
+      ...computed,
+      tier,
+      isExcluded: true,
+      excludeReason: `Manual override: ${overrides.overrideReason || 'excluded by admin'}`,
+    };
+  }
+
+  if (overrides.exclusionOverride === 'include') {
+    return {
+      tier,
+      isExcluded: false,
+      excludeReason: null,
+      isExcludedTavily: false,
+      tavilyExcludeReason: null,
+      isExcludedExa: false,
+      exaExcludeReason: null,
+    };
+  }
+
+  return { ...computed, tier };
+}
+
+/**
+ * Parse a stored score history (JSON column, string on SQLite).
+ */
+export function parseScoreHistory(value: unknown): DomainQualitySnapshot[] {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(parsed) ? (parsed as DomainQualitySnapshot[]) : [];
+}
+
+/**
+ * Append a snapshot unless it matches the latest one, keeping the newest `limit`.
+ */
+export function appendScoreHistory(
+  history: readonly DomainQualitySnapshot[],
+  snapshot: DomainQualitySnapshot,
+  limit: number = CLEANER_CONFIG.DOMAIN_SCORE_HISTORY_LIMIT
+): DomainQualitySnapshot[] {
+  const last = history[history.length - 1];
+  if (last) {
+    const { at: _lastAt, ...lastValues } = last;
+    const { at: _at, ...values } = snapshot;
+    if (JSON.stringify(lastValues) === JSON.stringify(values)) {
+      return [...history];
+    }
+  }
+  return [...history, snapshot].slice(-limit);
+}
+
 /**
  * Aggregate stats from database query.
  */
@@ -1276,54 +1569,79 @@ export async function updateDomainQuality(strapi: Core.Strapi, domain: string):
       ? `Scrape failure rate: ${(exaFailureRate * 100).toFixed(0)}% (${exaStats.failures}/${exaStats.attempts} failed)`
       : null;
 
-    // Use upsert pattern to avoid race conditions between concurrent article generations
-    // The domain column has a unique constraint, so onConflict handles updates atomically
+    // Manual overrides win over the computed values; history records the computed ones
+    const existing = await knex<DomainQualityRow>('domain_qualities')
+      .where('domain', domain)
+      .first('tier_override', 'exclusion_override', 'override_reason', 'score_history');
+    const effective = applyDomainQualityOverrides(
+      {
+        tier,
+        isExcluded: shouldExclude,
+        excludeReason,
+        isExcludedTavily: shouldExcludeTavily,
+        tavilyExcludeReason,
+        isExcludedExa: shouldExcludeExa,
+        exaExcludeReason,
+      },
+      {
+        tierOverride: existing?.tier_override ?? null,
+        exclusionOverride: existing?.exclusion_override ?? null,
+        overrideReason: existing?.override_reason ?? null,
+      }
+    );
+
     const now = new Date().toISOString();
+    const scoreHistory = appendScoreHistory(parseScoreHistory(existing?.score_history), {
+      at: now,
+      avgQualityScore: avgScore,
+      avgRelevanceScore: avgRelevance,
+      totalSources,
+      tier,
+      isExcluded: shouldExclude,
+      tavilyFailureRate,
+      exaFailureRate,
+    });
+
+    const values = {
+      avg_quality_score: avgScore,
+      avg_relevance_score: avgRelevance,
+      total_sources: totalSources,
+      tier: effective.tier,
+      is_excluded: effective.isExcluded,
+      exclude_reason: effective.excludeReason,
+      domain_type: domainType,
+      // Per-engine stats
+      tavily_attempts: tavilyStats.attempts,
+      tavily_scrape_failures: tavilyStats.failures,
+      exa_attempts: exaStats.attempts,
+      exa_scrape_failures: exaStats.failures,
+      is_excluded_tavily: effective.isExcludedTavily,
+      is_excluded_exa: effective.isExcludedExa,
+      tavily_exclude_reason: effective.tavilyExcludeReason,
+      exa_exclude_reason: effective.exaExcludeReason,
+      score_history: JSON.stringify(scoreHistory),
+      updated_at: now,
+    };
+
+    // Use upsert pattern to avoid race conditions between concurrent article generations
+    // The domain column has a unique constraint, so onConflict handles updates atomically.
+    // Override columns are never written here, so they survive recomputes.
     await knex('domain_qualities')
       .insert({
         domain,
-        avg_quality_score: avgScore,
-        avg_relevance_score: avgRelevance,
-        total_sources: totalSources,
-        tier,
-        is_excluded: shouldExclude,
-        exclude_reason: excludeReason,
-        domain_type: domainType,
-        // Per-engine stats
-        tavily_attempts: tavilyStats.attempts,
-        tavily_scrape_failures: tavilyStats.failures,
-        exa_attempts: exaStats.attempts,
-        exa_scrape_failures: exaStats.failures,
-        is_excluded_tavily: shouldExcludeTavily,
-        is_excluded_exa: shouldExcludeExa,
-        tavily_exclude_reason: tavilyExcludeReason,
-        exa_exclude_reason: exaExcludeReason,
+        ...values,
         created_at: now,
-        updated_at: now,
         published_at: now,
       })
       .onConflict('domain')
-      .merge({
-        avg_quality_score: avgScore,
-        avg_relevance_score: avgRelevance,
-        total_sources: totalSources,
-        tier,
-        is_excluded: shouldExclude,
-        exclude_reason: excludeReason,
-        domain_type: domainType,
-        // Per-engine stats
-        tavily_attempts: tavilyStats.attempts,
-        tavily_scrape_failures: tavilyStats.failures,
-        exa_attempts: exaStats.attempts,
-        exa_scrape_failures: exaStats.failures,
-        is_excluded_tavily: shouldExcludeTavily,
-        is_excluded_exa: shouldExcludeExa,
-        tavily_exclude_reason: tavilyExcludeReason,
-        exa_exclude_reason: exaExcludeReason,
-        updated_at: now,
-      });
+      .merge(values);
 
     // Log exclusions
+    if (existing?.exclusion_override || existing?.tier_override) {
+      strapi.log.debug(
+        `[SourceCache] Manual override kept for ${domain} (tier: ${existing.tier_override ?? 'auto'}, exclusion: ${existing.exclusion_override ?? 'auto'})`
+      );
+    }
     if (shouldExclude) {
       strapi.log.info(
         `[SourceCache] Auto-excluded domain (global): ${domain} (quality: ${avgScore.toFixed(1)}, relevance: ${avgRelevance.toFixed(1)}, samples: ${totalSources})`
@@ -1412,6 +1730,11 @@ export async function getDomainQuality(
       isExcludedExa: row.is_excluded_exa ?? false,
       tavilyExcludeReason: row.tavily_exclude_reason ?? null,
       exaExcludeReason: row.exa_exclude_reason ?? null,
+      tierOverride: row.tier_override ?? null,
+      exclusionOverride: row.exclusion_override ?? null,
+      overrideReason: row.override_reason ?? null,
+      overriddenAt: row.overridden_at ?? null,
+      scoreHistory: parseScoreHistory(row.score_history),
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
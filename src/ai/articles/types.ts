@@ -5,7 +5,9 @@
  * Articles are always generated in English; translation to other languages is a separate process.
  */
 
-import type { ArticleCategorySlug, ArticlePlan } from './article-plan';
+import type { ArticleCategorySlug, ArticlePlan, ReviewVerdict } from './article-plan';
+import type { CitationMap } from './citations';
+import type { PromptAgent } from './prompts/registry';
 
 // ============================================================================
 // Phase Constants
@@ -33,7 +35,8 @@ export type ArticleGenerationErrorCode =
   | 'SPECIALIST_FAILED'
   | 'VALIDATION_FAILED'
   | 'TIMEOUT'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'BUDGET_EXCEEDED';
 
 /**
  * Custom error class for article generation failures.
@@ -61,7 +64,9 @@ export class ArticleGenerationError extends Error {
   constructor(
     readonly code: ArticleGenerationErrorCode,
     message: string,
-    readonly cause?: Error
+    readonly cause?: Error,
+    /** Costs spent before the run was stopped (present for 'BUDGET_EXCEEDED') */
+    readonly costReport?: CostBudgetReport
   ) {
     super(message);
     // Maintains proper stack trace for where error was thrown (V8 only)
@@ -735,6 +740,47 @@ export function addTavilySearch(
   };
 }
 
+// ============================================================================
+// Cost Budget Tracking
+// ============================================================================
+
+/**
+ * Ways a run degrades when it approaches its cost budget.
+ * - 'fewer-queries': Scout plan trimmed to the queries the budget allows
+ * - 'reviewer-skipped': Reviewer (and therefore Fixer) not run
+ * - 'fixer-capped': Fixer loop stopped before its configured iteration limit
+ * - 'images-skipped': Image phase not run
+ */
+export type BudgetDegradation = 'fewer-queries' | 'reviewer-skipped' | 'fixer-capped' | 'images-skipped';
+
+/**
+ * Cost report for a run with a `maxCostUsd` budget.
+ * Attached to the draft metadata, and to the error when the budget is exceeded.
+ */
+export interface CostBudgetReport {
+  /** Budget for the run in USD */
+  readonly maxCostUsd: number;
+  /** Total spent so far in USD (LLM + search) */
+  readonly spentUsd: number;
+  /** LLM spend in USD (actual OpenRouter cost, or estimated from MODEL_PRICING) */
+  readonly llmCostUsd: number;
+  /** Search API spend in USD */
+  readonly searchCostUsd: number;
+  readonly llmCallCount: number;
+  readonly searchCallCount: number;
+  /** Spend attributed to each phase in USD */
+  readonly costByPhase: Partial<Record<ArticleGenerationPhase | 'images', number>>;
+  /** Degradations applied to stay within budget, in order */
+  readonly degradations: readonly BudgetDegradation[];
+  /** The operation that would have exceeded the budget (only when exceeded) */
+  readonly exceededBy?: {
+    readonly phase?: ArticleGenerationPhase | 'images';
+    readonly operation: string;
+    /** Projected cost of the rejected operation in USD */
+    readonly projectedUsd: number;
+  };
+}
+
 // ============================================================================
 // Source Content Usage Tracking
 // ============================================================================
@@ -977,6 +1023,10 @@ export interface ArticleGenerationMetadata {
    * Helps understand where results were lost to deduplication or filtering.
    */
   readonly queryStats?: readonly SearchQueryStats[];
+  /** Budget report (present when generation ran with `maxCostUsd`) */
+  readonly budget?: CostBudgetReport;
+  /** Number of warnings from final draft validation (SEO and content checks) */
+  readonly validationWarnings?: number;
 }
 
 /**
@@ -1088,13 +1138,18 @@ export interface GameArticleDraft {
    */
   readonly description: string;
   readonly tags: readonly string[];
+  /** Article markdown, with inline citation markers (see citations.ts) */
   readonly markdown: string;
   /**
-   * Markdown content before images were added.
+   * Markdown content before images were added, without citation markers.
    * Use this for audio generation to avoid reading image URLs.
    */
   readonly markdownWithoutImages: string;
   readonly sources: readonly string[];
+  /** Claim-to-source map for the citation markers in `markdown` */
+  readonly citations?: CitationMap;
+  /** Structured verdict (reviews only), consistent with the verdict section */
+  readonly verdict?: ReviewVerdict;
   readonly plan: ArticlePlan;
   readonly models: {
     readonly scout: string;
@@ -1107,6 +1162,8 @@ export interface GameArticleDraft {
     /** Cleaner model (may be undefined if cleaner was disabled) */
     readonly cleaner?: string;
   };
+  /** Prompt version used by each versioned agent (see prompts/registry.ts) */
+  readonly promptVersions?: Readonly<Record<PromptAgent, string>>;
   /** Generation metadata for debugging and analytics */
   readonly metadata: ArticleGenerationMetadata;
   /**
@@ -1429,6 +1486,29 @@ export function createMockClock(initialTime: number, autoAdvance?: number): Cloc
  */
 export type DomainTier = 'excellent' | 'good' | 'average' | 'poor' | 'excluded';
 
+/**
+ * Include/exclude forced on a domain by an admin.
+ * Survives automatic recomputes until it is cleared.
+ */
+export type DomainExclusionOverride = 'include' | 'exclude';
+
+/**
+ * One automatic domain quality recompute, kept in `scoreHistory`.
+ * Values are the computed ones, before manual overrides are applied.
+ */
+export interface DomainQualitySnapshot {
+  readonly at: string;
+  readonly avgQualityScore: number;
+  readonly avgRelevanceScore: number;
+  readonly totalSources: number;
+  readonly tier: DomainTier;
+  readonly isExcluded: boolean;
+  /** Scrape failure rate via Tavily (0-1) */
+  readonly tavilyFailureRate: number;
+  /** Scrape failure rate via Exa (0-1) */
+  readonly exaFailureRate: number;
+}
+
 /**
  * Raw source input before cleaning.
  */
@@ -1522,6 +1602,11 @@ export interface CacheCheckResult {
   readonly hit: boolean;
   /** Cached content (may be a scrape failure if scrapeSucceeded is false) */
   readonly cached?: CachedSourceContent;
+  /**
+   * Cached copy is older than the TTL for its content type
+   * (SOURCE_CACHE_CONFIG.TTL_DAYS_BY_CONTENT_TYPE). Only set on hits.
+   */
+  readonly stale?: boolean;
   readonly raw?: RawSourceInput;
 }
 
@@ -1597,6 +1682,14 @@ export interface StoredDomainQuality {
   readonly tavilyExcludeReason: string | null;
   /** Reason for Exa exclusion */
   readonly exaExcludeReason: string | null;
+  /** Tier pinned by an admin (null = computed) */
+  readonly tierOverride: DomainTier | null;
+  /** Include/exclude forced by an admin (null = computed) */
+  readonly exclusionOverride: DomainExclusionOverride | null;
+  readonly overrideReason: string | null;
+  readonly overriddenAt: string | null;
+  /** Computed values of past recomputes, oldest first */
+  readonly scoreHistory: readonly DomainQualitySnapshot[];
 }
 
 /**
@@ -7,10 +7,12 @@
 
 import { z } from 'zod';
 
-import { ArticleCategorySlugSchema, type ArticlePlan } from './article-plan';
-import { ARTICLE_PLAN_CONSTRAINTS, SEO_CONSTRAINTS } from './config';
+import { ArticleCategorySlugSchema, type ArticlePlan, type ReviewVerdict } from './article-plan';
+import { findUnsupportedClaims, stripCitationMarkers, type CitationMap } from './citations';
+import { ARTICLE_PLAN_CONSTRAINTS, CITATION_CONFIG, REVIEW_VERDICT_CONFIG, SEO_CONSTRAINTS } from './config';
 import aiClichesData from './data/ai-cliches.json';
 import { countContentH2Sections, getContentH2Sections, stripSourcesSection } from './markdown-utils';
+import { extractReviewScore, measureReviewTone, normalizeReviewScore } from './review-verdict';
 import type { ValidationIssue, ValidationSeverity } from './types';
 
 // ============================================================================
@@ -791,6 +793,113 @@ function validateSectionOverlap(markdown: string): ValidationIssue[] {
   return issues;
 }
 
+// ============================================================================
+// Citation Validation
+// ============================================================================
+
+/**
+ * Flags factual sentences without a citation and markers that match no source.
+ *
+ * @param markdown - The full article markdown, with citation markers
+ * @param citations - Claim-to-source map built from the same markdown
+ * @returns Array of validation issues (warnings)
+ */
+function validateCitations(markdown: string, citations: CitationMap): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  const unsupported = findUnsupportedClaims(markdown);
+  if (unsupported.length > 0) {
+    const examples = unsupported
+      .slice(0, CITATION_CONFIG.MAX_UNSUPPORTED_IN_WARNING)
+      .map((claim) => `"${claim.text}" (${claim.section})`)
+      .join('; ');
+    issues.push(
+      issue(
+        'warning',
+        `${unsupported.length} factual sentence(s) cite no source: ${examples}` +
+          (unsupported.length > CITATION_CONFIG.MAX_UNSUPPORTED_IN_WARNING ? '; ...' : '')
+      )
+    );
+  }
+
+  if (citations.unresolvedIds.length > 0) {
+    issues.push(
+      issue('warning', `Citation markers match no research source: ${citations.unresolvedIds.join(', ')}`)
+    );
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Review Verdict Validation
+// ============================================================================
+
+/**
+ * Checks a review's structured verdict against the article body.
+ *
+ * - Error: the score differs from the one stated in the article
+ * - Warnings: no stated score, a score that contradicts the tone of the
+ *   prose, pros/cons that lean against the score, platform notes for
+ *   platforms the article never mentions
+ *
+ * @param markdown - The article markdown, without citation markers
+ * @param verdict - The verdict from the Metadata agent
+ * @returns Array of validation issues
+ */
+function validateReviewVerdict(markdown: string, verdict: ReviewVerdict): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { score } = verdict;
+
+  const stated = extractReviewScore(markdown);
+  if (!stated) {
+    issues.push(issue('warning', `Review states no score in the text (verdict score: ${score}/10)`));
+  } else {
+    const statedScore = normalizeReviewScore(stated);
+    if (Math.abs(statedScore - score) > REVIEW_VERDICT_CONFIG.MAX_STATED_SCORE_DIFF) {
+      issues.push(
+        issue(
+          'error',
+          `Verdict score ${score}/10 contradicts the score stated in the article ` +
+            `(${stated.ratingValue}/${stated.bestRating})`
+        )
+      );
+    }
+  }
+
+  const tone = measureReviewTone(markdown);
+  if (tone.positive + tone.negative >= REVIEW_VERDICT_CONFIG.MIN_TONE_WORDS) {
+    const toneSummary = `${tone.positive} praise vs ${tone.negative} criticism words`;
+    if (tone.tone >= REVIEW_VERDICT_CONFIG.HIGH_TONE && score <= REVIEW_VERDICT_CONFIG.LOW_SCORE) {
+      issues.push(issue('warning', `Low score ${score}/10 for a review that reads positive (${toneSummary})`));
+    } else if (tone.tone <= REVIEW_VERDICT_CONFIG.LOW_TONE && score >= REVIEW_VERDICT_CONFIG.HIGH_SCORE) {
+      issues.push(issue('warning', `High score ${score}/10 for a review that reads negative (${toneSummary})`));
+    }
+  }
+
+  if (score >= REVIEW_VERDICT_CONFIG.HIGH_SCORE && verdict.cons.length > verdict.pros.length) {
+    issues.push(
+      issue('warning', `High score ${score}/10 with more cons (${verdict.cons.length}) than pros (${verdict.pros.length})`)
+    );
+  } else if (score <= REVIEW_VERDICT_CONFIG.LOW_SCORE && verdict.pros.length > verdict.cons.length) {
+    issues.push(
+      issue('warning', `Low score ${score}/10 with more pros (${verdict.pros.length}) than cons (${verdict.cons.length})`)
+    );
+  }
+
+  const lowerMarkdown = markdown.toLowerCase();
+  const unknownPlatforms = verdict.platformNotes
+    .map((note) => note.platform)
+    .filter((platform) => !lowerMarkdown.includes(platform.toLowerCase()));
+  if (unknownPlatforms.length > 0) {
+    issues.push(
+      issue('warning', `Verdict has notes for platforms the article never mentions: ${unknownPlatforms.join(', ')}`)
+    );
+  }
+
+  return issues;
+}
+
 // ============================================================================
 // SEO Validation
 // ============================================================================
@@ -1131,6 +1240,9 @@ export function validateSEO(
  * Uses Zod schema for structural validation (hard errors), plus manual checks
  * for warnings (advisory issues that don't block publication).
  *
+ * Citation markers are ignored by the other checks. When `draft.citations` is
+ * given, factual sentences without a citation and unresolved markers are warned about.
+ *
  * @param draft - The draft to validate
  * @param gameName - The game name for SEO validation (optional for backwards compatibility)
  * @returns Array of validation issues (empty if valid)
@@ -1150,10 +1262,14 @@ export function validateArticleDraft(
     markdown: string;
     sources: readonly string[];
     plan: ArticlePlan;
+    citations?: CitationMap;
+    verdict?: ReviewVerdict;
   },
   gameName?: string
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
+  const citedMarkdown = draft.markdown;
+  draft = { ...draft, markdown: stripCitationMarkers(draft.markdown) };
 
   // Zod schema validation (errors)
   issues.push(...validateStructureWithSchema(draft));
@@ -1178,6 +1294,16 @@ export function validateArticleDraft(
     issues.push(...validateSEO(draft, gameName));
   }
 
+  // Citation coverage (if the claim-to-source map was built)
+  if (draft.citations) {
+    issues.push(...validateCitations(citedMarkdown, draft.citations));
+  }
+
+  // Review verdict against the body text (reviews only)
+  if (draft.verdict) {
+    issues.push(...validateReviewVerdict(draft.markdown, draft.verdict));
+  }
+
   return issues;
 }
 
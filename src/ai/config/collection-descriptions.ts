@@ -11,15 +11,13 @@
  */
 
 import type { AITaskConfig, CollectionDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for collection description generation
  */
 function buildPrompt(context: CollectionDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -85,7 +83,7 @@ Collection: "${context.name}"${contextSection}${subCollectionNote}
  */
 export const collectionDescriptionsConfig: AITaskConfig<CollectionDescriptionContext> = {
   name: 'Collection Descriptions',
-  description: 'Generates informative collection descriptions for the wiki in English and Spanish',
+  description: 'Generates informative collection descriptions for the wiki in every supported language',
   
   model: getModel('COLLECTION_DESCRIPTIONS'),
   
@@ -96,7 +94,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles of any kind (no #, ##, ###, no "History:", no labels)
 - Use ONLY markdown: **bold** for emphasis, *italics* for game titles
 - Write in flowing prose paragraphs only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Craft informative collection descriptions that help players understand what games are grouped together and why. Collections differ from franchises—they represent specific groupings like trilogies, remasters, spin-offs, or regional bundles.
 
@@ -2,7 +2,7 @@
  * AI Configuration: Company Descriptions
  * 
  * This config defines how AI generates company descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Model configuration:
  * - Default model: Set in AI_DEFAULT_MODELS.COMPANY_DESCRIPTIONS (utils.ts)
@@ -10,15 +10,13 @@
  */
 
 import type { AITaskConfig, CompanyDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for company description generation
  */
 function buildPrompt(context: CompanyDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -85,7 +83,7 @@ Company: "${context.name}"${contextSection}
  */
 export const companyDescriptionsConfig: AITaskConfig<CompanyDescriptionContext> = {
   name: 'Company Descriptions',
-  description: 'Generates informative company descriptions for the wiki in English and Spanish',
+  description: 'Generates informative company descriptions for the wiki in every supported language',
   
   model: getModel('COMPANY_DESCRIPTIONS'),
   
@@ -96,7 +94,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles of any kind (no #, ##, ###, no "History:", no labels)
 - Use ONLY markdown: **bold** for emphasis, *italics* for game titles
 - Write in flowing prose paragraphs only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Craft informative, authoritative company descriptions that serve as the definitive introduction to each gaming company. These descriptions appear on company hub pages—the central authority page for everything about that developer or publisher.
 
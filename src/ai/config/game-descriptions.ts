@@ -2,7 +2,7 @@
  * AI Configuration: Game Descriptions
  * 
  * This config defines how AI generates game descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Model configuration:
  * - Default model: Set in AI_DEFAULT_MODELS.GAME_DESCRIPTIONS (utils.ts)
@@ -10,15 +10,13 @@
  */
 
 import type { AITaskConfig, GameDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for game description generation
  */
 function buildPrompt(context: GameDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -89,7 +87,7 @@ Game: "${context.name}"${contextSection}
  */
 export const gameDescriptionsConfig: AITaskConfig<GameDescriptionContext> = {
   name: 'Game Descriptions',
-  description: 'Generates engaging game descriptions for the wiki in English and Spanish',
+  description: 'Generates engaging game descriptions for the wiki in every supported language',
   
   model: getModel('GAME_DESCRIPTIONS'),
   
@@ -100,7 +98,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles of any kind (no #, ##, ###, no "Story:", no labels)
 - Use ONLY markdown: **bold** for emphasis, *italics* for terminology
 - Write in flowing prose paragraphs only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Craft compelling, authoritative game descriptions that serve as the definitive introduction to each title. These descriptions appear on game hub pages—the central authority page for everything about that game.
 
@@ -2,7 +2,7 @@
  * AI Configuration: Game Mode Descriptions
  * 
  * This config defines how AI generates game mode descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Game modes describe HOW players interact with a game:
  * - Single player, Multiplayer, Co-op, Split screen, MMO, Battle Royale, etc.
@@ -13,15 +13,13 @@
  */
 
 import type { AITaskConfig, GameModeDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for game mode description generation
  */
 function buildPrompt(context: GameModeDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -68,7 +66,7 @@ A brief, clear definition of this game mode—what it means for players and how
  */
 export const gameModeDescriptionsConfig: AITaskConfig<GameModeDescriptionContext> = {
   name: 'Game Mode Descriptions',
-  description: 'Generates brief game mode descriptions for the wiki in English and Spanish',
+  description: 'Generates brief game mode descriptions for the wiki in every supported language',
   
   model: getModel('GAME_MODE_DESCRIPTIONS'),
   
@@ -79,7 +77,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles
 - Use ONLY markdown: **bold** for the game mode name
 - Write one short paragraph only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Write brief, clear definitions of game modes that help players understand what to expect. These appear as quick references on game mode pages.
 
@@ -2,7 +2,7 @@
  * AI Configuration: Genre Descriptions
  * 
  * This config defines how AI generates genre descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Model configuration:
  * - Default model: Set in AI_DEFAULT_MODELS.GENRE_DESCRIPTIONS (utils.ts)
@@ -10,15 +10,13 @@
  */
 
 import type { AITaskConfig, GenreDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for genre description generation
  */
 function buildPrompt(context: GenreDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -75,7 +73,7 @@ Genre: "${context.name}"${contextSection}
  */
 export const genreDescriptionsConfig: AITaskConfig<GenreDescriptionContext> = {
   name: 'Genre Descriptions',
-  description: 'Generates informative genre descriptions for the wiki in English and Spanish',
+  description: 'Generates informative genre descriptions for the wiki in every supported language',
   
   model: getModel('GENRE_DESCRIPTIONS'),
   
@@ -86,7 +84,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles of any kind (no #, ##, ###, no "Definition:", no labels)
 - Use ONLY markdown: **bold** for emphasis, *italics* for game titles
 - Write in flowing prose paragraphs only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Craft concise, authoritative genre definitions that help players understand what to expect from games in this category. These descriptions appear on genre pages—serving as a quick reference for classification.
 
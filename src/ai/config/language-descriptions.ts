@@ -2,7 +2,7 @@
  * AI Configuration: Language Descriptions
  * 
  * This config defines how AI generates language descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Languages represent the languages that games support:
  * - English, Spanish, Japanese, French, German, etc.
@@ -13,15 +13,13 @@
  */
 
 import type { AITaskConfig, LanguageDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for language description generation
  */
 function buildPrompt(context: LanguageDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -71,7 +69,7 @@ A brief description of this language in the context of gaming—its prevalence i
  */
 export const languageDescriptionsConfig: AITaskConfig<LanguageDescriptionContext> = {
   name: 'Language Descriptions',
-  description: 'Generates brief language descriptions for the wiki in English and Spanish',
+  description: 'Generates brief language descriptions for the wiki in every supported language',
   
   model: getModel('LANGUAGE_DESCRIPTIONS'),
   
@@ -82,7 +80,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles
 - Use ONLY markdown: **bold** for the language name
 - Write one short paragraph only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Write brief, informative descriptions of languages that help gamers understand their significance in game localization. These appear as quick references on language support pages.
 
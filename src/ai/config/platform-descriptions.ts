@@ -2,7 +2,7 @@
  * AI Configuration: Platform Descriptions
  * 
  * This config defines how AI generates platform descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Model configuration:
  * - Default model: Set in AI_DEFAULT_MODELS.PLATFORM_DESCRIPTIONS (utils.ts)
@@ -10,15 +10,13 @@
  */
 
 import type { AITaskConfig, PlatformDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for platform description generation
  */
 function buildPrompt(context: PlatformDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -84,7 +82,7 @@ Platform: "${context.name}"${contextSection}
  */
 export const platformDescriptionsConfig: AITaskConfig<PlatformDescriptionContext> = {
   name: 'Platform Descriptions',
-  description: 'Generates informative platform descriptions for the wiki in English and Spanish',
+  description: 'Generates informative platform descriptions for the wiki in every supported language',
   
   model: getModel('PLATFORM_DESCRIPTIONS'),
   
@@ -95,7 +93,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles of any kind (no #, ##, ###, no "History:", no labels)
 - Use ONLY markdown: **bold** for emphasis, *italics* for game titles
 - Write in flowing prose paragraphs only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Craft informative, authoritative platform descriptions that serve as the definitive introduction to each gaming platform. These descriptions appear on platform hub pages—the central authority page for everything about that platform.
 
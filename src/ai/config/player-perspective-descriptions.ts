@@ -2,7 +2,7 @@
  * AI Configuration: Player Perspective Descriptions
  * 
  * This config defines how AI generates player perspective descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Player perspectives describe the camera viewpoint in games:
  * - First person, Third person, Bird's-eye / Isometric, Side view, etc.
@@ -13,15 +13,13 @@
  */
 
 import type { AITaskConfig, PlayerPerspectiveDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for player perspective description generation
  */
 function buildPrompt(context: PlayerPerspectiveDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -68,7 +66,7 @@ A brief, clear definition of this camera perspective—how players view the game
  */
 export const playerPerspectiveDescriptionsConfig: AITaskConfig<PlayerPerspectiveDescriptionContext> = {
   name: 'Player Perspective Descriptions',
-  description: 'Generates brief player perspective descriptions for the wiki in English and Spanish',
+  description: 'Generates brief player perspective descriptions for the wiki in every supported language',
   
   model: getModel('PLAYER_PERSPECTIVE_DESCRIPTIONS'),
   
@@ -79,7 +77,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles
 - Use ONLY markdown: **bold** for the perspective name
 - Write one short paragraph only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Write brief, clear definitions of camera perspectives that help players understand what to expect visually. These appear as quick references on perspective pages.
 
@@ -2,7 +2,7 @@
  * AI Configuration: Theme Descriptions
  * 
  * This config defines how AI generates theme descriptions for the wiki.
- * Descriptions are generated in both English and Spanish.
+ * Descriptions are generated in every supported locale (see src/utils/locales.ts).
  * 
  * Themes are universal concepts that define the setting, atmosphere, or 
  * subject matter of games (e.g., Fantasy, Sci-Fi, Horror, Post-Apocalyptic).
@@ -13,15 +13,13 @@
  */
 
 import type { AITaskConfig, ThemeDescriptionContext, SupportedLocale } from './types';
-import { getModel } from './utils';
+import { getLanguageInstruction, getModel, SUPPORTED_LANGUAGES_TEXT } from './utils';
 
 /**
  * Build the prompt for theme description generation
  */
 function buildPrompt(context: ThemeDescriptionContext, locale: SupportedLocale): string {
-  const languageInstruction = locale === 'es' 
-    ? 'Write the description entirely in Spanish.' 
-    : 'Write the description in English.';
+  const languageInstruction = getLanguageInstruction(locale);
 
   const contextParts: string[] = [];
   
@@ -78,7 +76,7 @@ Theme: "${context.name}"${contextSection}
  */
 export const themeDescriptionsConfig: AITaskConfig<ThemeDescriptionContext> = {
   name: 'Theme Descriptions',
-  description: 'Generates informative theme descriptions for the wiki in English and Spanish',
+  description: 'Generates informative theme descriptions for the wiki in every supported language',
   
   model: getModel('THEME_DESCRIPTIONS'),
   
@@ -93,7 +91,7 @@ IMPORTANT FORMATTING RULES:
 - NEVER use headers or section titles of any kind (no #, ##, ###, no "Definition:", no labels)
 - Use ONLY markdown: **bold** for emphasis, *italics* for game titles
 - Write in flowing prose paragraphs only
-- Always write in the language specified in the prompt (English or Spanish)
+- Always write in the language specified in the prompt (${SUPPORTED_LANGUAGES_TEXT})
 
 **Your Mission:** Craft concise, evocative theme definitions that help players understand the atmosphere and setting of games with this theme. These descriptions appear on theme pages—serving as a quick reference for what to expect thematically.
 
@@ -6,7 +6,21 @@
  * that exports an AITaskConfig object.
  */
 
-export type SupportedLocale = 'en' | 'es';
+import type { SupportedLocale } from '../../utils/locales';
+
+/**
+ * Locales AI content can be generated in (defined in src/utils/locales.ts)
+ */
+export type { SupportedLocale };
+
+/**
+ * Descriptions keyed by locale code: English plus every configured content
+ * locale (see getContentLocales in src/utils/locales.ts)
+ */
+export interface LocalizedDescriptions {
+  en: string;
+  [locale: string]: string;
+}
 
 /**
  * Base configuration for any AI task
@@ -5,6 +5,9 @@
  * Change default models here - no need to modify individual config files.
  */
 
+import type { SupportedLocale } from '../../utils/locales';
+import { DEFAULT_LOCALE, LOCALE_DEFINITIONS, getLanguageName } from '../../utils/locales';
+
 /**
  * Environment variable names for each AI task
  * Set these env vars to override the default models
@@ -36,6 +39,7 @@ export const AI_ENV_KEYS = {
   TAG_GENERATION: 'AI_MODEL_TAG_GENERATION',
   SEO_META: 'AI_MODEL_SEO_META',
   ARTICLE_SUMMARY: 'AI_MODEL_ARTICLE_SUMMARY',
+  ARTICLE_IDEAS: 'AI_MODEL_ARTICLE_IDEAS',
 } as const;
 
 /**
@@ -80,6 +84,7 @@ export const AI_DEFAULT_MODELS = {
   TAG_GENERATION: 'deepseek/deepseek-v3.2',
   SEO_META: 'deepseek/deepseek-v3.2',
   ARTICLE_SUMMARY: 'google/gemini-3-flash-preview',
+  ARTICLE_IDEAS: 'google/gemini-3-flash-preview',
 } as const;
 
 export type AITaskKey = keyof typeof AI_ENV_KEYS;
@@ -110,3 +115,27 @@ export function getModel(taskKey: AITaskKey): string {
 export function getModelFromEnv(envKey: string, defaultModel: string): string {
   return process.env[envKey] || defaultModel;
 }
+
+/**
+ * Build the language line that opens every description prompt
+ *
+ * @example
+ * getLanguageInstruction('en'); // 'Write the description in English.'
+ * getLanguageInstruction('fr'); // 'Write the description entirely in French.'
+ */
+export function getLanguageInstruction(locale: SupportedLocale): string {
+  return locale === DEFAULT_LOCALE
+    ? `Write the description in ${getLanguageName(locale)}.`
+    : `Write the description entirely in ${getLanguageName(locale)}.`;
+}
+
+/**
+ * Human-readable list of every supported language, for system prompts
+ * (e.g. "English, Spanish, French, German or Portuguese")
+ */
+export const SUPPORTED_LANGUAGES_TEXT = (() => {
+  const languages = LOCALE_DEFINITIONS.map(def => def.language);
+  return languages.length > 1
+    ? `${languages.slice(0, -1).join(', ')} or ${languages[languages.length - 1]}`
+    : languages.join('');
+})();
@@ -66,6 +66,7 @@ export {
 // Re-export types and configs for direct access
 export type {
   SupportedLocale,
+  LocalizedDescriptions,
   GameDescriptionContext,
   PlatformDescriptionContext,
   CompanyDescriptionContext,
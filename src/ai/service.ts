@@ -19,6 +19,7 @@ import {
   playerPerspectiveDescriptionsConfig,
   languageDescriptionsConfig,
   type SupportedLocale, 
+  type LocalizedDescriptions,
   type GameDescriptionContext,
   type PlatformDescriptionContext,
   type CompanyDescriptionContext,
@@ -31,6 +32,7 @@ import {
   type LanguageDescriptionContext,
   type AITaskConfig,
 } from './config';
+import { DEFAULT_LOCALE, getContentLocales } from '../utils/locales';
 
 // OpenRouter client configuration
 // Using dedicated @openrouter/ai-sdk-provider for accurate cost tracking
@@ -73,11 +75,31 @@ export async function executeAITask<TContext>(
   return text.trim();
 }
 
+/**
+ * Generate a description in English and in every configured content locale
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts).
+ * 
+ * @param generate - Generates the description for one locale
+ * @returns Descriptions keyed by locale code
+ */
+async function generateLocalizedDescriptions(
+  generate: (locale: SupportedLocale) => Promise<string>
+): Promise<LocalizedDescriptions> {
+  const locales: SupportedLocale[] = [DEFAULT_LOCALE, ...getContentLocales().map(def => def.code as SupportedLocale)];
+
+  // Generate all descriptions in parallel for speed
+  const descriptions = await Promise.all(locales.map(locale => generate(locale)));
+
+  return Object.fromEntries(
+    locales.map((locale, index) => [locale, descriptions[index]])
+  ) as LocalizedDescriptions;
+}
+
 /**
  * Generate a game description using AI
  * 
  * @param context - Game information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateGameDescription(
@@ -88,31 +110,22 @@ export async function generateGameDescription(
 }
 
 /**
- * Generate descriptions for both English and Spanish locales
+ * Generate descriptions for English and every configured content locale
  * 
  * @param context - Game information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateGameDescriptions(
   context: GameDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateGameDescription(context, 'en'),
-    generateGameDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateGameDescription(context, locale));
 }
 
 /**
  * Generate a platform description using AI
  * 
  * @param context - Platform information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generatePlatformDescription(
@@ -123,31 +136,22 @@ export async function generatePlatformDescription(
 }
 
 /**
- * Generate platform descriptions for both English and Spanish locales
+ * Generate platform descriptions for English and every configured content locale
  * 
  * @param context - Platform information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generatePlatformDescriptions(
   context: PlatformDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generatePlatformDescription(context, 'en'),
-    generatePlatformDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generatePlatformDescription(context, locale));
 }
 
 /**
  * Generate a company description using AI
  * 
  * @param context - Company information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateCompanyDescription(
@@ -158,31 +162,22 @@ export async function generateCompanyDescription(
 }
 
 /**
- * Generate company descriptions for both English and Spanish locales
+ * Generate company descriptions for English and every configured content locale
  * 
  * @param context - Company information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateCompanyDescriptions(
   context: CompanyDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateCompanyDescription(context, 'en'),
-    generateCompanyDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateCompanyDescription(context, locale));
 }
 
 /**
  * Generate a franchise description using AI
  * 
  * @param context - Franchise information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateFranchiseDescription(
@@ -193,31 +188,22 @@ export async function generateFranchiseDescription(
 }
 
 /**
- * Generate franchise descriptions for both English and Spanish locales
+ * Generate franchise descriptions for English and every configured content locale
  * 
  * @param context - Franchise information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateFranchiseDescriptions(
   context: FranchiseDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateFranchiseDescription(context, 'en'),
-    generateFranchiseDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateFranchiseDescription(context, locale));
 }
 
 /**
  * Generate a collection description using AI
  * 
  * @param context - Collection information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateCollectionDescription(
@@ -228,31 +214,22 @@ export async function generateCollectionDescription(
 }
 
 /**
- * Generate collection descriptions for both English and Spanish locales
+ * Generate collection descriptions for English and every configured content locale
  * 
  * @param context - Collection information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateCollectionDescriptions(
   context: CollectionDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateCollectionDescription(context, 'en'),
-    generateCollectionDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateCollectionDescription(context, locale));
 }
 
 /**
  * Generate a genre description using AI
  * 
  * @param context - Genre information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateGenreDescription(
@@ -263,31 +240,22 @@ export async function generateGenreDescription(
 }
 
 /**
- * Generate genre descriptions for both English and Spanish locales
+ * Generate genre descriptions for English and every configured content locale
  * 
  * @param context - Genre information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateGenreDescriptions(
   context: GenreDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateGenreDescription(context, 'en'),
-    generateGenreDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateGenreDescription(context, locale));
 }
 
 /**
  * Generate a theme description using AI
  * 
  * @param context - Theme information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateThemeDescription(
@@ -298,31 +266,22 @@ export async function generateThemeDescription(
 }
 
 /**
- * Generate theme descriptions for both English and Spanish locales
+ * Generate theme descriptions for English and every configured content locale
  * 
  * @param context - Theme information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateThemeDescriptions(
   context: ThemeDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateThemeDescription(context, 'en'),
-    generateThemeDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateThemeDescription(context, locale));
 }
 
 /**
  * Generate a game mode description using AI
  * 
  * @param context - Game mode information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateGameModeDescription(
@@ -333,31 +292,22 @@ export async function generateGameModeDescription(
 }
 
 /**
- * Generate game mode descriptions for both English and Spanish locales
+ * Generate game mode descriptions for English and every configured content locale
  * 
  * @param context - Game mode information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateGameModeDescriptions(
   context: GameModeDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateGameModeDescription(context, 'en'),
-    generateGameModeDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateGameModeDescription(context, locale));
 }
 
 /**
  * Generate a player perspective description using AI
  * 
  * @param context - Player perspective information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generatePlayerPerspectiveDescription(
@@ -368,31 +318,22 @@ export async function generatePlayerPerspectiveDescription(
 }
 
 /**
- * Generate player perspective descriptions for both English and Spanish locales
+ * Generate player perspective descriptions for English and every configured content locale
  * 
  * @param context - Player perspective information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generatePlayerPerspectiveDescriptions(
   context: PlayerPerspectiveDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generatePlayerPerspectiveDescription(context, 'en'),
-    generatePlayerPerspectiveDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generatePlayerPerspectiveDescription(context, locale));
 }
 
 /**
  * Generate a language description using AI
  * 
  * @param context - Language information for context
- * @param locale - Target language ('en' or 'es')
+ * @param locale - Target locale (any SupportedLocale)
  * @returns Generated description
  */
 export async function generateLanguageDescription(
@@ -403,24 +344,15 @@ export async function generateLanguageDescription(
 }
 
 /**
- * Generate language descriptions for both English and Spanish locales
+ * Generate language descriptions for English and every configured content locale
  * 
  * @param context - Language information for context
- * @returns Object with 'en' and 'es' descriptions
+ * @returns Descriptions keyed by locale code
  */
 export async function generateLanguageDescriptions(
   context: LanguageDescriptionContext
-): Promise<{ en: string; es: string }> {
-  // Generate both descriptions in parallel for speed
-  const [enDescription, esDescription] = await Promise.all([
-    generateLanguageDescription(context, 'en'),
-    generateLanguageDescription(context, 'es'),
-  ]);
-
-  return {
-    en: enDescription,
-    es: esDescription,
-  };
+): Promise<LocalizedDescriptions> {
+  return generateLocalizedDescriptions(locale => generateLanguageDescription(context, locale));
 }
 
 /**
@@ -0,0 +1,53 @@
+import type { Core } from '@strapi/strapi';
+
+import { isAuthenticated } from '../../article-generator/utils/admin-auth';
+import { discoverAffiliateLinks, AffiliateLinkError } from '../services/affiliate-link-discovery';
+import { checkAffiliateLinks } from '../services/affiliate-link-health';
+
+const MAX_CHECK_BATCH_SIZE = 500;
+
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Create/update affiliate links for a game from its store URLs
+   * POST /api/affiliate-links/discover/:gameDocumentId
+   */
+  async discover(ctx) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    try {
+      const result = await discoverAffiliateLinks(strapi, ctx.params.gameDocumentId);
+      ctx.body = { success: true, ...result };
+    } catch (error) {
+      if (error instanceof AffiliateLinkError) {
+        return error.status === 404 ? ctx.notFound(error.message) : ctx.badRequest(error.message);
+      }
+      strapi.log.error('[AffiliateLinks] Discovery error:', error);
+      return ctx.internalServerError('Failed to discover affiliate links');
+    }
+  },
+
+  /**
+   * Run a health check batch now
+   * POST /api/affiliate-links/check?batchSize=50
+   */
+  async check(ctx) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const batchSize = Number.parseInt(ctx.query?.batchSize ?? '', 10);
+    if (ctx.query?.batchSize !== undefined && (!Number.isFinite(batchSize) || batchSize < 1 || batchSize > MAX_CHECK_BATCH_SIZE)) {
+      return ctx.badRequest(`batchSize must be between 1 and ${MAX_CHECK_BATCH_SIZE}`);
+    }
+
+    try {
+      const result = await checkAffiliateLinks(strapi, Number.isFinite(batchSize) ? { batchSize } : {});
+      ctx.body = { success: true, ...result };
+    } catch (error) {
+      strapi.log.error('[AffiliateLinks] Health check error:', error);
+      return ctx.internalServerError('Failed to check affiliate links');
+    }
+  },
+});
@@ -0,0 +1,28 @@
+/**
+ * Affiliate Link API Routes
+ *
+ * Admin endpoints for link discovery and health checks.
+ * These are available at /api/affiliate-links/*
+ */
+export default {
+  routes: [
+    {
+      method: 'POST',
+      path: '/affiliate-links/discover/:gameDocumentId',
+      handler: 'affiliate-link.discover',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/affiliate-links/check',
+      handler: 'affiliate-link.check',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
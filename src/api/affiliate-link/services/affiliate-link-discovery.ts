@@ -0,0 +1,301 @@
+/**
+ * Affiliate Link Discovery Service
+ *
+ * Creates `api::affiliate-link.affiliate-link` entries for a game from its
+ * IGDB store URLs (steamUrl, gogUrl, epicUrl, itchUrl) and the active
+ * affiliate platforms.
+ *
+ * Each platform's `affiliateProgram` is a link template. Placeholders:
+ * - {url} / {encodedUrl}: the game's store URL on that platform
+ * - {name} / {encodedName}: the game name
+ * - {slug}: the game slug
+ *
+ * Platforms without a template link to the plain store URL. Templates that
+ * only use the game name/slug (e.g. a store search page) work for platforms
+ * IGDB has no store URL for. Links inherit the platform's priority.
+ *
+ * Discovery is idempotent: existing links are updated in place, and links
+ * for platforms that no longer produce a URL are left alone (editors may
+ * have added them by hand).
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import { getContentLocales } from '../../../utils/locales';
+import type { AffiliateLinkDocument, AffiliatePlatformDocument, GameDocument } from '../../../types/strapi';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * IGDB store URL fields on a game and the platform slugs they belong to.
+ */
+export const STORE_URL_FIELDS = {
+  steamUrl: ['steam'],
+  gogUrl: ['gog', 'gog-com'],
+  epicUrl: ['epic-games-store', 'epic-games', 'epic'],
+  itchUrl: ['itch-io', 'itch'],
+} as const satisfies Partial<Record<keyof GameDocument, readonly string[]>>;
+
+const LINK_UID = 'api::affiliate-link.affiliate-link';
+const PLATFORM_UID = 'api::affiliate-platform.affiliate-platform';
+const GAME_UID = 'api::game.game';
+
+const TEMPLATE_PLACEHOLDER = /\{(url|encodedUrl|name|encodedName|slug)\}/g;
+const STORE_URL_PLACEHOLDER = /\{(url|encodedUrl)\}/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StoreUrlField = keyof typeof STORE_URL_FIELDS;
+
+/** Game fields discovery reads */
+export type DiscoveryGame = Pick<GameDocument, 'documentId' | 'name' | 'slug' | StoreUrlField>;
+
+/** Platform fields discovery reads */
+export type DiscoveryPlatform = Pick<AffiliatePlatformDocument, 'documentId' | 'slug' | 'affiliateProgram' | 'priority'>;
+
+/**
+ * A link discovery wants to exist for a game.
+ */
+export interface PlannedAffiliateLink {
+  readonly platformDocumentId: string;
+  readonly platformSlug: string;
+  readonly url: string;
+  readonly priority: number;
+  /** Store URL field the link was built from (null for name/slug templates) */
+  readonly storeField: StoreUrlField | null;
+}
+
+export interface AffiliateDiscoveryResult {
+  readonly gameDocumentId: string;
+  readonly created: readonly PlannedAffiliateLink[];
+  readonly updated: readonly PlannedAffiliateLink[];
+  readonly unchanged: number;
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class AffiliateLinkError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AffiliateLinkError';
+  }
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the game's store URL for a platform, if IGDB has one.
+ */
+export function getStoreUrlForPlatform(
+  game: DiscoveryGame,
+  platformSlug: string
+): { field: StoreUrlField; url: string } | null {
+  for (const [field, slugs] of Object.entries(STORE_URL_FIELDS) as [StoreUrlField, readonly string[]][]) {
+    const url = game[field]?.trim();
+    if (url && slugs.includes(platformSlug)) {
+      return { field, url };
+    }
+  }
+  return null;
+}
+
+/**
+ * Fill an affiliate link template.
+ * Returns null when the template needs a store URL the game doesn't have,
+ * or the result isn't an http(s) URL.
+ */
+export function buildAffiliateUrl(
+  template: string | null,
+  values: { storeUrl: string | null; name: string; slug: string }
+): string | null {
+  const trimmed = template?.trim();
+  if (!trimmed || !trimmed.includes('{')) {
+    return values.storeUrl;
+  }
+  if (STORE_URL_PLACEHOLDER.test(trimmed) && !values.storeUrl) {
+    return null;
+  }
+
+  const replacements: Record<string, string> = {
+    url: values.storeUrl ?? '',
+    encodedUrl: encodeURIComponent(values.storeUrl ?? ''),
+    name: values.name,
+    encodedName: encodeURIComponent(values.name),
+    slug: values.slug,
+  };
+  const url = trimmed.replace(TEMPLATE_PLACEHOLDER, (placeholder, key: string) => replacements[key] ?? placeholder);
+
+  return isHttpUrl(url) ? url : null;
+}
+
+/**
+ * Work out which affiliate links a game should have.
+ */
+export function planAffiliateLinks(
+  game: DiscoveryGame,
+  platforms: readonly DiscoveryPlatform[]
+): PlannedAffiliateLink[] {
+  const planned: PlannedAffiliateLink[] = [];
+
+  for (const platform of platforms) {
+    const store = getStoreUrlForPlatform(game, platform.slug);
+    const url = buildAffiliateUrl(platform.affiliateProgram, {
+      storeUrl: store?.url ?? null,
+      name: game.name,
+      slug: game.slug,
+    });
+    if (!url) continue;
+
+    planned.push({
+      platformDocumentId: platform.documentId,
+      platformSlug: platform.slug,
+      url,
+      priority: platform.priority ?? 0,
+      storeField: store?.field ?? null,
+    });
+  }
+
+  return planned.sort((a, b) => b.priority - a.priority);
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+/**
+ * Create the other locale versions of a new link so localized frontends see it.
+ * Failures are logged only - the English link is what the checker works on.
+ */
+async function createLinkLocales(
+  strapi: Core.Strapi,
+  documentId: string,
+  link: PlannedAffiliateLink,
+  gameDocumentId: string
+): Promise<void> {
+  const linkService = documents(strapi, LINK_UID);
+  for (const { code } of getContentLocales()) {
+    try {
+      await linkService.update({
+        documentId,
+        locale: code,
+        data: {
+          url: link.url,
+          priority: link.priority,
+          game: { connect: [gameDocumentId] },
+          platform: { connect: [link.platformDocumentId] },
+        },
+        status: 'published',
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      strapi.log.warn(`[AffiliateLinks] Failed to create ${code} link for ${link.platformSlug}: ${msg}`);
+    }
+  }
+}
+
+/**
+ * Create or update the affiliate links of a game.
+ *
+ * @throws AffiliateLinkError (404) if the game doesn't exist
+ */
+export async function discoverAffiliateLinks(
+  strapi: Core.Strapi,
+  gameDocumentId: string
+): Promise<AffiliateDiscoveryResult> {
+  const game = (await documents(strapi, GAME_UID).findOne({
+    documentId: gameDocumentId,
+    locale: 'en',
+    fields: ['name', 'slug', ...Object.keys(STORE_URL_FIELDS)],
+  })) as DiscoveryGame | null;
+
+  if (!game) {
+    throw new AffiliateLinkError('Game not found', 404);
+  }
+
+  const platforms = (await documents(strapi, PLATFORM_UID).findMany({
+    locale: 'en',
+    status: 'published',
+    filters: { isActive: true },
+    fields: ['slug', 'affiliateProgram', 'priority'],
+  })) as DiscoveryPlatform[];
+
+  const linkService = documents(strapi, LINK_UID);
+  const existing = (await linkService.findMany({
+    locale: 'en',
+    filters: { game: { documentId: gameDocumentId } },
+    fields: ['url', 'priority', 'publishedAt'],
+    populate: { platform: { fields: ['slug'] } },
+  })) as AffiliateLinkDocument[];
+  const existingByPlatform = new Map(
+    existing
+      .filter((link) => link.platform)
+      .map((link) => [link.platform!.documentId, link])
+  );
+
+  const created: PlannedAffiliateLink[] = [];
+  const updated: PlannedAffiliateLink[] = [];
+  let unchanged = 0;
+
+  for (const link of planAffiliateLinks(game, platforms)) {
+    const current = existingByPlatform.get(link.platformDocumentId);
+
+    if (!current) {
+      const entry = await linkService.create({
+        locale: 'en',
+        data: {
+          url: link.url,
+          priority: link.priority,
+          isAvailable: true,
+          game: { connect: [gameDocumentId] },
+          platform: { connect: [link.platformDocumentId] },
+        },
+        status: 'published',
+      });
+      await createLinkLocales(strapi, entry.documentId, link, gameDocumentId);
+      created.push(link);
+      continue;
+    }
+
+    if (current.url === link.url && (current.priority ?? 0) === link.priority) {
+      unchanged++;
+      continue;
+    }
+
+    // url/priority aren't localized, so the English update reaches every locale
+    await linkService.update({
+      documentId: current.documentId,
+      locale: 'en',
+      data: { url: link.url, priority: link.priority },
+    });
+    if (current.publishedAt) {
+      await linkService.publish({ documentId: current.documentId, locale: 'en' });
+    }
+    updated.push(link);
+  }
+
+  strapi.log.info(
+    `[AffiliateLinks] "${game.name}": ${created.length} created, ${updated.length} updated, ${unchanged} unchanged`
+  );
+
+  return { gameDocumentId, created, updated, unchanged };
+}
@@ -0,0 +1,248 @@
+/**
+ * Affiliate Link Health Checker
+ *
+ * Periodically requests affiliate link URLs and flips `isAvailable` when a
+ * store page stops resolving (404/410, unknown host, or a redirect to the
+ * store front page, which is what Steam does for delisted games) and back
+ * when it resolves again.
+ *
+ * Inconclusive results (timeouts, 5xx, rate limiting, bot walls) never change
+ * `isAvailable`, so a flaky store doesn't hide links. Requests go through a
+ * `LinkHttpClient` so tests can point the checker at a local stub server.
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import type { AffiliateLinkDocument } from '../../../types/strapi';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LINK_UID = 'api::affiliate-link.affiliate-link';
+
+/** Links checked per scheduled run */
+const DEFAULT_BATCH_SIZE = 100;
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Statuses that mean the page is gone */
+const GONE_STATUSES = new Set([404, 410]);
+
+/** Statuses some stores return for HEAD requests they don't support */
+const HEAD_UNSUPPORTED_STATUSES = new Set([403, 405, 501]);
+
+/** Network error code for a host that doesn't resolve */
+const UNRESOLVED_ERROR_CODE = 'ENOTFOUND';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal HTTP abstraction used by the checker.
+ * Implementations follow redirects and report the final URL.
+ */
+export interface LinkHttpClient {
+  request(
+    url: string,
+    options: { method: 'HEAD' | 'GET'; timeoutMs: number }
+  ): Promise<{ status: number; url: string }>;
+}
+
+export type LinkVerdict = 'available' | 'unavailable' | 'unknown';
+
+export interface LinkCheckResult {
+  readonly url: string;
+  readonly verdict: LinkVerdict;
+  /** HTTP status of the final response (null when the request failed) */
+  readonly statusCode: number | null;
+  readonly finalUrl: string | null;
+  readonly reason: string;
+}
+
+export interface LinkCheckOptions {
+  /** HTTP client override (for testing) */
+  readonly http?: LinkHttpClient;
+  readonly timeoutMs?: number;
+}
+
+export interface AffiliateCheckBatchResult {
+  readonly checked: number;
+  readonly available: number;
+  readonly unavailable: number;
+  readonly unknown: number;
+  /** Links whose isAvailable flag was flipped by this run */
+  readonly changed: readonly { documentId: string; url: string; isAvailable: boolean; reason: string }[];
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/**
+ * Default client backed by global fetch.
+ */
+export function createFetchHttpClient(): LinkHttpClient {
+  return {
+    async request(url, { method, timeoutMs }) {
+      const response = await fetch(url, {
+        method,
+        redirect: 'follow',
+        signal: AbortSignal.timeout(timeoutMs),
+        headers: { 'user-agent': 'Mozilla/5.0 (compatible; GamersWikiLinkChecker/1.0)' },
+      });
+      // Only the status matters - drop the body without waiting for it
+      response.body?.cancel().catch(() => undefined);
+      return { status: response.status, url: response.url || url };
+    },
+  };
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  const cause = (error as { cause?: { code?: unknown } })?.cause;
+  const code = cause?.code ?? (error as { code?: unknown })?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * True when a request for a specific page ended on the site's front page.
+ */
+export function isRedirectToFrontPage(requestedUrl: string, finalUrl: string): boolean {
+  try {
+    const requested = new URL(requestedUrl);
+    const final = new URL(finalUrl);
+    const host = (u: URL) => u.hostname.replace(/^www\./, '');
+    const path = (u: URL) => u.pathname.replace(/\/+$/, '');
+    return host(requested) === host(final) && path(requested) !== '' && path(final) === '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Classify a final HTTP response.
+ */
+export function classifyResponse(requestedUrl: string, status: number, finalUrl: string): Omit<LinkCheckResult, 'url'> {
+  const base = { statusCode: status, finalUrl };
+  if (status >= 200 && status < 300) {
+    return isRedirectToFrontPage(requestedUrl, finalUrl)
+      ? { ...base, verdict: 'unavailable', reason: 'Redirected to the store front page' }
+      : { ...base, verdict: 'available', reason: `HTTP ${status}` };
+  }
+  if (GONE_STATUSES.has(status)) {
+    return { ...base, verdict: 'unavailable', reason: `HTTP ${status}` };
+  }
+  return { ...base, verdict: 'unknown', reason: `Inconclusive HTTP ${status}` };
+}
+
+/**
+ * Check whether a single URL still resolves.
+ * Tries HEAD first and falls back to GET for stores that reject HEAD.
+ */
+export async function checkLinkUrl(url: string, options: LinkCheckOptions = {}): Promise<LinkCheckResult> {
+  const http = options.http ?? createFetchHttpClient();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  try {
+    let response = await http.request(url, { method: 'HEAD', timeoutMs });
+    if (HEAD_UNSUPPORTED_STATUSES.has(response.status)) {
+      response = await http.request(url, { method: 'GET', timeoutMs });
+    }
+    return { url, ...classifyResponse(url, response.status, response.url) };
+  } catch (error) {
+    const code = getErrorCode(error);
+    const msg = error instanceof Error ? error.message : String(error);
+    if (code === UNRESOLVED_ERROR_CODE) {
+      return { url, verdict: 'unavailable', statusCode: null, finalUrl: null, reason: `Host not found (${code})` };
+    }
+    return { url, verdict: 'unknown', statusCode: null, finalUrl: null, reason: `Request failed: ${code ?? msg}` };
+  }
+}
+
+// ============================================================================
+// Batch
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+let batchRunning = false;
+
+/**
+ * Check the least recently checked affiliate links (never-checked first) and
+ * update `isAvailable`. Links are checked sequentially; overlapping runs are skipped.
+ */
+export async function checkAffiliateLinks(
+  strapi: Core.Strapi,
+  options: LinkCheckOptions & { batchSize?: number } = {}
+): Promise<AffiliateCheckBatchResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const empty: AffiliateCheckBatchResult = { checked: 0, available: 0, unavailable: 0, unknown: 0, changed: [] };
+
+  if (batchRunning) {
+    strapi.log.warn('[AffiliateLinks] Previous link check still running, skipping');
+    return empty;
+  }
+
+  batchRunning = true;
+  try {
+    const linkService = documents(strapi, LINK_UID);
+    const fields = ['url', 'isAvailable', 'lastCheckedAt'];
+    const neverChecked = (await linkService.findMany({
+      filters: { lastCheckedAt: { $null: true } },
+      locale: 'en',
+      fields,
+      limit: batchSize,
+    })) as AffiliateLinkDocument[];
+    const stale = neverChecked.length < batchSize
+      ? ((await linkService.findMany({
+          filters: { lastCheckedAt: { $notNull: true } },
+          locale: 'en',
+          fields,
+          sort: ['lastCheckedAt:asc'],
+          limit: batchSize - neverChecked.length,
+        })) as AffiliateLinkDocument[])
+      : [];
+
+    const counts: Record<LinkVerdict, number> = { available: 0, unavailable: 0, unknown: 0 };
+    const changed: AffiliateCheckBatchResult['changed'][number][] = [];
+
+    for (const link of [...neverChecked, ...stale]) {
+      const result = await checkLinkUrl(link.url, options);
+      counts[result.verdict]++;
+
+      const data: Record<string, unknown> = {
+        lastCheckedAt: new Date().toISOString(),
+        lastStatusCode: result.statusCode,
+      };
+      if (result.verdict !== 'unknown') {
+        const isAvailable = result.verdict === 'available';
+        data.isAvailable = isAvailable;
+        if (isAvailable !== (link.isAvailable ?? true)) {
+          changed.push({ documentId: link.documentId, url: link.url, isAvailable, reason: result.reason });
+          strapi.log.info(
+            `[AffiliateLinks] ${link.url} is now ${isAvailable ? 'available' : 'unavailable'} (${result.reason})`
+          );
+        }
+      }
+
+      // Health fields aren't localized - write every locale and draft/published row directly
+      await strapi.db.query(LINK_UID as any).updateMany({
+        where: { documentId: link.documentId },
+        data,
+      });
+    }
+
+    const checked = neverChecked.length + stale.length;
+    strapi.log.info(
+      `[AffiliateLinks] Checked ${checked} link(s): ${counts.available} available, ` +
+      `${counts.unavailable} unavailable, ${counts.unknown} inconclusive`
+    );
+
+    return { checked, ...counts, changed };
+  } finally {
+    batchRunning = false;
+  }
+}
@@ -0,0 +1,57 @@
+import type { Core } from '@strapi/strapi';
+import type { AgeRatingLocaleStrategy, AgeRatingLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a age rating locale strategy from a locale definition
+ * Creates localized age rating entries using Strapi Document Service
+ */
+export function createAgeRatingLocaleStrategy(definition: LocaleDefinition): AgeRatingLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[AgeRatingLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: AgeRatingLocaleData): Promise<void> {
+      const service = strapi.documents('api::age-rating.age-rating');
+
+      // Check if this locale already exists for the document
+      const existing = await service.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await service.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          category: data.ageRatingData.category,
+          rating: data.ageRatingData.rating,
+          ratingCoverUrl: data.ageRatingData.ratingCoverUrl,
+          synopsis: data.ageRatingData.synopsis,
+          igdbId: data.ageRatingData.igdbId,
+          contentDescriptions: data.ageRatingData.contentDescriptions,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for: {data.ageRatingData.category} ${data.ageRatingData.rating}`);
+
+      // Publish to sync draft to published
+      await (service as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for: {data.ageRatingData.category} ${data.ageRatingData.rating}`);
+    },
+  };
+}
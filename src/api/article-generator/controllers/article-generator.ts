@@ -1,44 +1,77 @@
 import type { Core } from '@strapi/strapi';
 import { z } from 'zod';
-import type { ServerResponse } from 'http';
 
-import type { GameDocument } from '../../../types/strapi';
 import { isAIConfigured } from '../../../ai';
-import { generateGameArticleDraft } from '../../../ai/articles/generate-game-article';
-import { slugify } from '../../../utils/slug';
-import { importOrGetGameByIgdbId, GameImportError } from '../../game-fetcher/services/import-game-programmatic';
-import { resolveIGDBGameIdFromQuery } from '../../game-fetcher/services/game-resolver';
-import { fetchIGDBImagesForGame } from '../../game-fetcher/services/igdb-images';
+import { ArticleGenerationError } from '../../../ai/articles/types';
 import { isAuthenticated } from '../utils/admin-auth';
-import { generateAndUploadArticleAudio } from '../../../ai/articles/services/article-audio-generator';
-import { extractStoredCosts, extractStoredPlan, extractStoredSources } from '../utils/shared-helpers';
-import type {
-  SSEEvent,
-  CategoryDocument,
-  AuthorDocument,
-  PostDocument,
-  StrapiDocumentService,
-} from '../types';
-
-const bodySchema = z.object({
-  gameDocumentId: z.string().min(1).optional(),
-  igdbId: z.number().int().positive().optional(),
-  gameQuery: z.string().min(2).max(200).optional(),
-  instruction: z.string().min(1).max(5000).optional(),
-  categorySlug: z.enum(['news', 'reviews', 'guides', 'lists']).optional(),
-  publish: z.boolean().optional(),
-  sse: z.boolean().optional(), // Enable SSE streaming
-}).refine((v) => Boolean(v.gameDocumentId || v.igdbId || v.gameQuery), {
-  message: 'Provide one of: gameDocumentId, igdbId, or gameQuery',
+import { openSSEStream, type SSEStream } from '../utils/sse';
+import {
+  generateRequestSchema,
+  runArticleGeneration,
+  buildCompleteEvent,
+  ArticleGenerationRequestError,
+} from '../services/article-generation-runner';
+import {
+  getGenerationJobQueue,
+  isTerminalJobEvent,
+  isTerminalJobStatus,
+} from '../services/generation-job-queue';
+import { refreshRequestSchema, runArticleRefresh } from '../services/article-refresh-runner';
+import {
+  ArticleIdeaError,
+  generateArticleIdeas,
+  ideaGenerationRequestSchema,
+} from '../services/article-idea-generator';
+import { ideaRunRequestSchema, runPendingArticleIdeas } from '../services/article-idea-runner';
+import {
+  analyticsExportQuerySchema,
+  analyticsQuerySchema,
+  buildAnalyticsCsv,
+  getGenerationAnalytics,
+  loadAnalyticsRows,
+} from '../services/generation-analytics';
+import { getPromptExperimentReport } from '../services/prompt-experiments';
+import {
+  linkRelatedPostsForLocales,
+  rebuildRelatedPosts,
+  relatedPostsRequestSchema,
+} from '../../post/services/related-posts';
+import { emitWebhookEvent } from '../../webhook-subscription/services/webhook-dispatcher';
+import type { ArticleIdeaDocument, GenerationJobDocument, GenerationJobStatus, SSEEvent, StrapiDocumentService } from '../types';
+
+const jobListQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
 });
 
-type GenerateBody = z.infer<typeof bodySchema>;
+const ideaListQuerySchema = z.object({
+  gameDocumentId: z.string().min(1).optional(),
+  done: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
 
 /**
- * Format an SSE event for streaming.
+ * Shape a job document for API responses (events are served by the stream/poll endpoints).
  */
-function formatSSE(event: SSEEvent): string {
-  return `data: ${JSON.stringify(event)}\n\n`;
+function serializeJob(job: GenerationJobDocument, options: { includeEvents?: boolean } = {}) {
+  const events = job.events ?? [];
+  return {
+    documentId: job.documentId,
+    status: job.status,
+    request: job.request,
+    currentPhase: job.currentPhase,
+    progress: job.progress ?? 0,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    errorCode: job.errorCode,
+    errorMessage: job.errorMessage,
+    result: job.result,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    createdAt: job.createdAt,
+    eventCount: events.length,
+    ...(options.includeEvents && { events }),
+  };
 }
 
 export default ({ strapi }: { strapi: Core.Strapi }) => ({
@@ -46,11 +79,19 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
    * Generate a new draft Post for a game.
    * POST /api/article-generator/generate
    * Auth: Either x-ai-generation-secret header OR admin JWT token
-   * Body: { gameDocumentId?: string, igdbId?: number, gameQuery?: string, instruction?: string, sse?: boolean }
+   * Body: { gameDocumentId?: string, igdbId?: number, gameQuery?: string, instruction?: string, maxCostUsd?: number, generationProfile?: string, sse?: boolean }
+   *
+   * With `maxCostUsd`, a run that would overspend stops with 422 (code BUDGET_EXCEEDED)
+   * and a partial-cost report in `details.costReport`.
+   *
+   * `generationProfile` is the slug of a Generation Profile (404 if unknown); without it
+   * the profile flagged `isDefault` applies, if any.
    *
    * If `sse` is true (or `?sse=true` query param), streams Server-Sent Events for progress.
    * Otherwise returns JSON response.
    *
+   * Runs inside the request; prefer POST /api/article-generator/jobs for long runs.
+   *
    * NOTE: Content is always generated in English first. Spanish locale is generated after publish.
    */
   async generate(ctx: any) {
@@ -66,424 +107,537 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
 
     // Check for SSE mode: path ends with -sse, query param (?sse=true), or body param (sse: true)
     const path = ctx.request?.path || ctx.path || '';
-    const sseMode = 
+    const sseMode =
       path.endsWith('/generate-sse') ||
-      ctx.query?.sse === 'true' || 
-      ctx.query?.sse === true || 
+      ctx.query?.sse === 'true' ||
+      ctx.query?.sse === true ||
       ctx.request?.body?.sse === true ||
       ctx.request?.body?.sse === 'true';
 
-    const parsed = bodySchema.safeParse(ctx.request?.body ?? {});
+    const { sse: _sse, ...requestBody } = ctx.request?.body ?? {};
+    const parsed = generateRequestSchema.safeParse(requestBody);
     if (!parsed.success) {
       return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
     }
 
-    const body: GenerateBody = parsed.data;
-    // IMPORTANT: We always create content in English first.
-    // Spanish locale is generated automatically after EN publish (Post lifecycle).
-    const locale = 'en' as const;
-
     // ===== SSE SETUP =====
-    let res: ServerResponse | null = null;
-    let isOpen = true;
-    let heartbeatInterval: NodeJS.Timeout | null = null;
-
-    if (sseMode) {
-      // Get the raw Node.js response object to bypass Koa buffering
-      res = ctx.res as ServerResponse;
-      
-      // Tell Koa not to handle the response - we're handling it directly
-      ctx.respond = false;
-
-      // Write SSE headers directly to the response
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no', // Disable nginx buffering
-        'Access-Control-Allow-Origin': '*',
+    const stream: SSEStream | null = sseMode ? openSSEStream(ctx) : null;
+
+    try {
+      const result = await runArticleGeneration(strapi, parsed.data, {
+        // Only stream progress in SSE mode
+        ...(stream && { onEvent: (event: SSEEvent) => stream.send(event) }),
       });
 
-      // Send initial comment to establish connection immediately
-      res.write(':ok\n\n');
+      // ===== RESPONSE =====
+      if (stream) {
+        stream.send(buildCompleteEvent(result));
+        stream.close();
+        return;
+      }
 
-      // Track if response is still writable
-      res.on('close', () => {
-        isOpen = false;
-        if (heartbeatInterval) {
-          clearInterval(heartbeatInterval);
-        }
+      if (result.publishError !== undefined) {
+        return ctx.internalServerError(`Post created but failed to publish: ${result.publishError}`);
+      }
+
+      const { draft } = result;
+      ctx.body = {
+        success: true,
+        post: result.post,
+        // Full draft data for comprehensive validation and debugging
+        draft: {
+          title: draft.title,
+          categorySlug: draft.categorySlug,
+          excerpt: draft.excerpt,
+          description: draft.description,
+          tags: draft.tags,
+          markdown: draft.markdown,
+          sources: draft.sources,
+          plan: draft.plan,
+          metadata: draft.metadata,
+        },
+        models: draft.models,
+        // Reviewer output (only present if reviewer ran)
+        ...(draft.reviewerApproved !== undefined && {
+          reviewerApproved: draft.reviewerApproved,
+          reviewerIssues: draft.reviewerIssues ?? [],
+          // Include initial issues if some were fixed (complete history)
+          ...(draft.reviewerInitialIssues &&
+            draft.reviewerInitialIssues.length > 0 && {
+              reviewerInitialIssues: draft.reviewerInitialIssues,
+            }),
+        }),
+        game: result.game,
+        author: result.author,
+        published: result.published,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = (error as any)?.code ?? 'GENERATION_FAILED';
+      const costReport = error instanceof ArticleGenerationError ? error.costReport : undefined;
+      emitWebhookEvent(strapi, 'article.generation.failed', {
+        jobId: null,
+        code,
+        message,
+        request: parsed.data as Record<string, unknown>,
       });
 
-      // Set up heartbeat to keep connection alive and force buffer flushing
-      heartbeatInterval = setInterval(() => {
-        if (!isOpen) {
-          if (heartbeatInterval) clearInterval(heartbeatInterval);
-          return;
-        }
-        try {
-          res?.write(':heartbeat\n\n');
-        } catch {
-          if (heartbeatInterval) clearInterval(heartbeatInterval);
-          isOpen = false;
-        }
-      }, 15000); // Every 15 seconds
-    }
+      if (stream) {
+        stream.send({ type: 'error', code, message, ...(costReport && { costReport }), timestamp: new Date().toISOString() });
+        stream.close();
+        return;
+      }
 
-    // Helper to send SSE events with immediate flush
-    const sendEvent = (event: SSEEvent) => {
-      if (!sseMode || !isOpen || !res) return;
-      try {
-        res.write(formatSSE(event));
-        // Force flush if available (some Node.js setups)
-        if (typeof (res as any).flush === 'function') {
-          (res as any).flush();
-        }
-      } catch {
-        // Response closed, ignore
-        isOpen = false;
+      if (code === 'BUDGET_EXCEEDED') {
+        return ctx.unprocessableEntity(message, { code, costReport });
       }
-    };
 
-    // Helper to send error and close response (SSE mode)
-    const sendError = (code: string, message: string) => {
-      if (sseMode) {
-        sendEvent({
-          type: 'error',
-          code,
-          message,
-          timestamp: new Date().toISOString(),
-        });
-        if (isOpen && res) {
-          res.end();
-          isOpen = false;
-        }
-        if (heartbeatInterval) {
-          clearInterval(heartbeatInterval);
-        }
-        return ctx;
-      } else {
-        // Non-SSE: use Koa ctx
-        if (code === 'UNAUTHORIZED') {
-          return ctx.unauthorized(message);
-        }
-        if (code === 'GAME_NOT_FOUND') {
+      if (error instanceof ArticleGenerationRequestError) {
+        if (code === 'GAME_NOT_FOUND' || code === 'PROFILE_NOT_FOUND') {
           return ctx.notFound(message);
         }
-        if (code === 'BAD_REQUEST' || code === 'IMPORT_FAILED' || code === 'CATEGORY_NOT_FOUND') {
+        if (code === 'IMPORT_FAILED' || code === 'CATEGORY_NOT_FOUND') {
           return ctx.badRequest(message);
         }
-        return ctx.internalServerError(message);
       }
+      return ctx.internalServerError(message);
+    }
+  },
+
+  /**
+   * Queue a background generation job and return its id immediately.
+   * POST /api/article-generator/jobs
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   * Body: same as /generate (without `sse`)
+   *
+   * Follow progress with GET /jobs/:documentId or GET /jobs/:documentId/events (SSE).
+   */
+  async createJob(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    if (!isAIConfigured()) {
+      return ctx.badRequest('AI is not configured. Set OPENROUTER_API_KEY environment variable.');
+    }
+
+    const { sse: _sse, ...requestBody } = ctx.request?.body ?? {};
+    const parsed = generateRequestSchema.safeParse(requestBody);
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+    }
+
+    const job = await getGenerationJobQueue(strapi).enqueue(parsed.data);
+
+    ctx.status = 202;
+    ctx.body = {
+      success: true,
+      job: serializeJob(job),
     };
+  },
 
-    try {
-      const gameService = strapi.documents('api::game.game') as unknown as StrapiDocumentService<GameDocument>;
-      const categoryService = strapi.documents('api::category.category') as unknown as StrapiDocumentService<CategoryDocument>;
-      const authorService = strapi.documents('api::author.author') as unknown as StrapiDocumentService<AuthorDocument>;
-      const postService = strapi.documents('api::post.post') as unknown as StrapiDocumentService<PostDocument>;
-
-      // Resolve or import the game if needed.
-      let resolvedGameDocumentId = body.gameDocumentId;
-      let game: GameDocument | null = null;
-
-      if (resolvedGameDocumentId) {
-        game = await gameService.findOne({
-          documentId: resolvedGameDocumentId,
-          locale,
-          populate: ['genres', 'platforms', 'developers', 'publishers'],
-        } as any);
-      }
+  /**
+   * List recent generation jobs.
+   * GET /api/article-generator/jobs?status=running&limit=25
+   */
+  async listJobs(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
 
-      if (!game) {
-        try {
-          // If we don't have a valid documentId, use IGDB-based resolution/import.
-          let igdbId = body.igdbId;
-          if (!igdbId && body.gameQuery) {
-            const resolved = await resolveIGDBGameIdFromQuery(strapi, body.gameQuery, 10);
-            igdbId = resolved.igdbId;
-          }
-
-          if (!igdbId) {
-            return sendError('GAME_NOT_FOUND', 'Game not found and no igdbId/gameQuery provided to import it.');
-          }
-
-          const imported = await importOrGetGameByIgdbId(strapi, igdbId);
-          resolvedGameDocumentId = imported.game.documentId;
-
-          game = await gameService.findOne({
-            documentId: resolvedGameDocumentId,
-            locale,
-            populate: ['genres', 'platforms', 'developers', 'publishers'],
-          } as any);
-        } catch (error) {
-          if (error instanceof GameImportError) {
-            return sendError('IMPORT_FAILED', `Failed to import game: ${error.message}`);
-          }
-          const msg = error instanceof Error ? error.message : String(error);
-          return sendError('IMPORT_FAILED', `Failed to resolve/import game: ${msg}`);
-        }
-      }
+    const parsed = jobListQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
 
-      if (!game) {
-        return sendError('GAME_NOT_FOUND', 'Failed to resolve or import game');
-      }
+    const jobs = await getGenerationJobQueue(strapi).list({
+      status: parsed.data.status as GenerationJobStatus | undefined,
+      limit: parsed.data.limit,
+    });
 
-      // Send start event (SSE mode only)
-      if (sseMode) {
-        sendEvent({
-          type: 'start',
-          game: { documentId: game.documentId, name: game.name, slug: game.slug },
-          timestamp: new Date().toISOString(),
-        });
-      }
+    ctx.body = {
+      jobs: jobs.map((job) => serializeJob(job)),
+    };
+  },
 
-      // Choose the first seeded author (as you requested)
-      // Use EN to select the canonical seeded author deterministically (documentId shared across locales).
-      const authors = await authorService.findMany({
-        locale: 'en',
-        sort: ['id:asc'],
-        limit: 1,
-      } as any);
+  /**
+   * Poll a generation job, including every event recorded so far.
+   * GET /api/article-generator/jobs/:documentId
+   */
+  async getJob(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
 
-      if (!authors || authors.length === 0) {
-        return sendError('NO_AUTHOR', 'No authors found. Seed at least one author.');
-      }
+    const job = await getGenerationJobQueue(strapi).get(ctx.params.documentId);
+    if (!job) {
+      return ctx.notFound('Generation job not found');
+    }
 
-      const author = authors[0];
-
-      // Fetch available categories (English slugs), include optional systemPrompt to guide selection.
-      // NOTE: Avoid `fields` projection here to ensure `documentId` is present for relation connects.
-      const categories = await categoryService.findMany({
-        locale: 'en',
-      } as any);
-
-      // Map Strapi game into generator context
-      const genreNames = (game as any).genres?.map((g: { name: string }) => g.name) || [];
-      const platformNames = (game as any).platforms?.map((p: { name: string }) => p.name) || [];
-      const developerName = (game as any).developers?.[0]?.name || null;
-      const publisherName = (game as any).publishers?.[0]?.name || null;
-
-      // Fetch IGDB images for article image pool
-      // The game's igdbId comes from the import process
-      const gameIgdbId = (game as any).igdbId;
-      let screenshotUrls: readonly string[] = [];
-      let artworkUrls: readonly string[] = [];
-      let igdbCoverUrl: string | null = null;
-      if (gameIgdbId) {
-        try {
-          const igdbImages = await fetchIGDBImagesForGame(strapi, gameIgdbId);
-          screenshotUrls = igdbImages.screenshotUrls;
-          artworkUrls = igdbImages.artworkUrls;
-          igdbCoverUrl = igdbImages.coverUrl;
-        } catch (err) {
-          // Non-fatal: log and continue without IGDB images
-          const msg = err instanceof Error ? err.message : String(err);
-          strapi.log.warn(`[ArticleGenerator] Failed to fetch IGDB images: ${msg}`);
-        }
+    ctx.body = {
+      job: serializeJob(job, { includeEvents: true }),
+    };
+  },
+
+  /**
+   * Attach to a job's event stream (SSE).
+   * GET /api/article-generator/jobs/:documentId/events
+   *
+   * Replays stored events, then streams live ones until the job finishes.
+   * Each event carries its index as the SSE id; reconnecting clients can send
+   * `Last-Event-ID` (or `?since=<id>`) to skip events they already have.
+   */
+  async streamJob(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const queue = getGenerationJobQueue(strapi);
+    const documentId: string = ctx.params.documentId;
+
+    const lastEventId = Number.parseInt(
+      String(ctx.get?.('last-event-id') || ctx.query?.since || ''),
+      10
+    );
+    const startIndex = Number.isFinite(lastEventId) ? lastEventId + 1 : 0;
+
+    // Subscribe before loading so no event falls between the snapshot and live updates
+    const buffered: Array<{ event: SSEEvent; index: number }> = [];
+    let forward: ((event: SSEEvent, index: number) => void) | null = null;
+    const unsubscribe = queue.subscribe(documentId, (event, index) => {
+      if (forward) {
+        forward(event, index);
+      } else {
+        buffered.push({ event, index });
       }
+    });
 
-      // Articles are always generated in English; translation is a separate process
-      // Pass strapi to enable content cleaning and caching
-      const draft = await generateGameArticleDraft(
-        {
-          gameName: game.name,
-          gameSlug: game.slug,
-          gameDocumentId: game.documentId,
-          releaseDate: game.releaseDate,
-          genres: genreNames,
-          platforms: platformNames,
-          developer: developerName,
-          publisher: publisherName,
-          igdbDescription: game.description,
-          instruction: body.instruction,
-          // If user explicitly selected a category, use it; otherwise let AI decide
-          ...(body.categorySlug ? { categorySlug: body.categorySlug } : {}),
-          categoryHints: (categories || []).map((c) => ({
-            slug: c.slug as any,
-            systemPrompt: (c as any).systemPrompt ?? null,
-          })),
-          // IGDB images for article image pool
-          screenshotUrls,
-          artworkUrls,
-          coverImageUrl: (game as any).coverImageUrl ?? igdbCoverUrl,
-        },
-        { strapi },
-        // Only provide progress callback in SSE mode
-        sseMode ? {
-          onProgress: (phase, progress, message) => {
-            sendEvent({
-              type: 'progress',
-              phase,
-              progress,
-              message,
-              timestamp: new Date().toISOString(),
-            });
-          },
-        } : undefined
-      );
-
-      // Find the category doc by slug
-      const categoryMatch = (categories || []).find((c) => c.slug === draft.categorySlug);
-      if (!categoryMatch) {
-        return sendError('CATEGORY_NOT_FOUND', `Category not found for slug: ${draft.categorySlug}`);
+    const job = await queue.get(documentId);
+    if (!job) {
+      unsubscribe();
+      return ctx.notFound('Generation job not found');
+    }
+
+    const stream = openSSEStream(ctx);
+    stream.onClose(unsubscribe);
+
+    let nextIndex = startIndex;
+    const sendFrom = (event: SSEEvent, index: number) => {
+      if (index < nextIndex) return;
+      stream.send(event, index);
+      nextIndex = index + 1;
+      if (isTerminalJobEvent(event)) {
+        stream.close();
       }
+    };
 
-      // Extract structured data for DB storage
-      const costs = extractStoredCosts(draft);
-      const plan = extractStoredPlan(draft);
-      const sources = extractStoredSources(draft.sources);
-
-      // ===== AUDIO GENERATION =====
-      // Generate audio from article markdown content (BEFORE images to avoid reading URLs)
-      const audioResult = await generateAndUploadArticleAudio({
-        markdown: draft.markdownWithoutImages,
-        articleTitle: draft.title,
-        gameSlug: game.slug,
-        articleSlug: slugify(draft.title),
-        strapi,
-      });
+    queue.getEvents(job).forEach((event, index) => sendFrom(event, index));
+    for (const { event, index } of buffered) {
+      sendFrom(event, index);
+    }
 
-      const audioFileId = audioResult?.id;
-      const chapterFileId = audioResult?.chapterFileId;
+    // Nothing more will arrive for finished jobs, or for jobs no worker is running
+    if (!stream.isOpen) return;
+    if (isTerminalJobStatus(job.status) || !queue.isActive(documentId)) {
+      stream.close();
+      return;
+    }
 
-      // Create a draft post (Strapi draftAndPublish: true)
-      // Note: Strapi's UID auto-generation doesn't trigger via Document Service API,
-      // so we must generate the slug ourselves.
-      const created = await postService.create({
-        locale,
-        status: 'draft',
-        data: {
-          title: draft.title,
-          slug: slugify(draft.title),
-          excerpt: draft.excerpt,
-          description: draft.description,
-          content: draft.markdown,
-          aiAssisted: true,
-          aiModel: JSON.stringify(draft.models),
-          aiGeneratedAt: new Date().toISOString(),
-          aiWorkflow: 'deep-dive-v1',
-          plan,     // Article plan (sections, goals, research queries)
-          costs,    // All cost/performance data by phase
-          sources,  // Source URLs with domain analysis
-          // Use Document Service relation syntax to avoid ambiguity between
-          // numeric DB IDs vs document IDs (UUIDs).
-          category: { connect: [categoryMatch.documentId] } as any,
-          games: { connect: [game.documentId] } as any,
-          author: { connect: [author.documentId] } as any,
-          // Set featured image from hero image if available
-          // Media relations use the numeric ID directly
-          ...(draft.imageMetadata?.heroImage?.id && {
-            featuredImage: draft.imageMetadata.heroImage.id,
-          }),
-          // Set audio file if audio generation succeeded
-          ...(audioFileId && {
-            audioFile: audioFileId,
-          }),
-          // Set chapter file if chapters were generated
-          ...(chapterFileId && {
-            chapterFile: chapterFileId,
-          }),
-        } as any,
-      } as any);
-
-      // Publish if requested
-      let published = false;
-      if (body.publish) {
-        try {
-          await postService.publish({ documentId: created.documentId, locale } as any);
-          published = true;
-        } catch (error) {
-          // Post created but publish failed - still send complete event
-          const msg = error instanceof Error ? error.message : String(error);
-          if (sseMode) {
-            strapi.log.error(`Publish failed: ${msg}`);
-          } else {
-            return ctx.internalServerError(`Post created but failed to publish: ${msg}`);
-          }
-        }
+    forward = sendFrom;
+  },
+
+  /**
+   * Cancel a queued or running job.
+   * POST /api/article-generator/jobs/:documentId/cancel
+   */
+  async cancelJob(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const job = await getGenerationJobQueue(strapi).cancel(ctx.params.documentId);
+    if (!job) {
+      return ctx.notFound('Generation job not found');
+    }
+
+    ctx.body = {
+      success: true,
+      job: serializeJob(job),
+    };
+  },
+
+  /**
+   * Propose new, non-duplicate article ideas for a game and store them.
+   * POST /api/article-generator/ideas/generate
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   * Body: { gameDocumentId: string, count?: number, categories?: ('guides' | 'lists' | 'news')[] }
+   */
+  async generateIdeas(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    if (!isAIConfigured()) {
+      return ctx.badRequest('AI is not configured. Set OPENROUTER_API_KEY environment variable.');
+    }
+
+    const parsed = ideaGenerationRequestSchema.safeParse(ctx.request?.body ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+    }
+
+    try {
+      const result = await generateArticleIdeas(strapi, parsed.data);
+      ctx.body = {
+        success: true,
+        ideas: result.created,
+        skipped: result.skipped,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ArticleIdeaError && error.code === 'GAME_NOT_FOUND') {
+        return ctx.notFound(message);
       }
+      return ctx.internalServerError(message);
+    }
+  },
 
-      // ===== RESPONSE =====
-      if (sseMode) {
-        // Send complete event
-        sendEvent({
-          type: 'complete',
-          post: { id: created.id, documentId: created.documentId },
-          draft: {
-            title: draft.title,
-            categorySlug: draft.categorySlug,
-            excerpt: draft.excerpt,
-            description: draft.description,
-            markdown: draft.markdown,
-            sources: draft.sources,
-          },
-          metadata: {
-            totalDurationMs: draft.metadata.totalDurationMs,
-            totalCostUsd: draft.metadata.totalEstimatedCostUsd,
-            sourcesCollected: draft.metadata.sourcesCollected,
-            researchConfidence: draft.metadata.researchConfidence,
-          },
-          game: { documentId: game.documentId, name: game.name, slug: game.slug },
-          published,
-          timestamp: new Date().toISOString(),
-        });
-
-        // Clean up and close
-        if (heartbeatInterval) {
-          clearInterval(heartbeatInterval);
+  /**
+   * List article ideas, oldest first.
+   * GET /api/article-generator/ideas?gameDocumentId=...&done=false&limit=25
+   */
+  async listIdeas(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const parsed = ideaListQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
+
+    const { gameDocumentId, done, limit } = parsed.data;
+    const ideaService = strapi.documents('api::article-idea.article-idea') as unknown as StrapiDocumentService<ArticleIdeaDocument>;
+    const ideas = await ideaService.findMany({
+      filters: {
+        ...(gameDocumentId && { game: { documentId: gameDocumentId } }),
+        ...(done && { done: done === 'true' }),
+      },
+      populate: ['game', 'post'],
+      sort: ['createdAt:asc'],
+      limit: limit ?? 25,
+    } as any);
+
+    ctx.body = { ideas };
+  },
+
+  /**
+   * Queue generation jobs for pending ideas.
+   * POST /api/article-generator/ideas/run
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   * Body: { limit?: number, gameDocumentId?: string, ideaDocumentIds?: string[], categorySlug?: string, publish?: boolean }
+   *
+   * Each job links its post back to the idea and marks it done on success.
+   */
+  async runIdeas(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    if (!isAIConfigured()) {
+      return ctx.badRequest('AI is not configured. Set OPENROUTER_API_KEY environment variable.');
+    }
+
+    const parsed = ideaRunRequestSchema.safeParse(ctx.request?.body ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+    }
+
+    const result = await runPendingArticleIdeas(strapi, parsed.data);
+
+    ctx.status = 202;
+    ctx.body = {
+      success: true,
+      queued: result.queued,
+      skipped: result.skipped,
+    };
+  },
+
+  /**
+   * Refresh an existing AI-written post with what changed since it was generated.
+   * POST /api/article-generator/posts/:documentId/refresh
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   * Body: { instruction?: string }
+   *
+   * Saves the updated article as a new EN draft revision (the published version
+   * is unchanged) and returns the revision with its changelog.
+   */
+  async refreshPost(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    if (!isAIConfigured()) {
+      return ctx.badRequest('AI is not configured. Set OPENROUTER_API_KEY environment variable.');
+    }
+
+    const parsed = refreshRequestSchema.safeParse(ctx.request?.body ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+    }
+
+    try {
+      const result = await runArticleRefresh(strapi, ctx.params.documentId, parsed.data);
+      ctx.body = {
+        success: true,
+        post: result.post,
+        revision: result.revision,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof ArticleGenerationRequestError) {
+        if (error.code === 'POST_NOT_FOUND' || error.code === 'GAME_NOT_FOUND') {
+          return ctx.notFound(message);
         }
-        if (isOpen && res) {
-          res.end();
-          isOpen = false;
+        if (error.code === 'NOT_REFRESHABLE') {
+          return ctx.badRequest(message);
         }
-      } else {
-        // JSON response
-        ctx.body = {
-          success: true,
-          post: created,
-          // Full draft data for comprehensive validation and debugging
-          draft: {
-            title: draft.title,
-            categorySlug: draft.categorySlug,
-            excerpt: draft.excerpt,
-            description: draft.description,
-            tags: draft.tags,
-            markdown: draft.markdown,
-            sources: draft.sources,
-            plan: draft.plan,
-            metadata: draft.metadata,
-          },
-          models: draft.models,
-          // Reviewer output (only present if reviewer ran)
-          ...(draft.reviewerApproved !== undefined && {
-            reviewerApproved: draft.reviewerApproved,
-            reviewerIssues: draft.reviewerIssues ?? [],
-            // Include initial issues if some were fixed (complete history)
-            ...(draft.reviewerInitialIssues &&
-              draft.reviewerInitialIssues.length > 0 && {
-                reviewerInitialIssues: draft.reviewerInitialIssues,
-              }),
-          }),
-          game: { documentId: game.documentId, name: game.name, slug: game.slug },
-          author: { documentId: author.documentId, name: author.name },
-          published,
-        };
       }
+      return ctx.internalServerError(message);
+    }
+  },
+
+  /**
+   * Spend and quality analytics across AI-written posts.
+   * GET /api/article-generator/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&categorySlug=&gameSlug=
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   */
+  async analytics(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const parsed = analyticsQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
+
+    try {
+      ctx.body = await getGenerationAnalytics(strapi, parsed.data);
     } catch (error) {
-      // Clean up SSE resources
-      if (heartbeatInterval) {
-        clearInterval(heartbeatInterval);
+      strapi.log.error('[ArticleGenerator] Analytics error:', error);
+      return ctx.internalServerError('Failed to load analytics');
+    }
+  },
+
+  /**
+   * Download one analytics view as CSV.
+   * GET /api/article-generator/analytics/export?view=posts|models|phases|categories|games|months|search&from=&to=
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   */
+  async exportAnalytics(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const parsed = analyticsExportQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
+
+    try {
+      const { view, ...filters } = parsed.data;
+      const rows = await loadAnalyticsRows(strapi, filters);
+      const date = new Date().toISOString().slice(0, 10);
+      ctx.set('Content-Disposition', `attachment; filename="generation-analytics-${view}-${date}.csv"`);
+      ctx.type = 'text/csv; charset=utf-8';
+      ctx.body = buildAnalyticsCsv(rows, view);
+    } catch (error) {
+      strapi.log.error('[ArticleGenerator] Analytics export error:', error);
+      return ctx.internalServerError('Failed to export analytics');
+    }
+  },
+
+  /**
+   * Compare the arms of a prompt experiment.
+   * GET /api/article-generator/experiments/:slug/report
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   */
+  async experimentReport(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    try {
+      const report = await getPromptExperimentReport(strapi, ctx.params.slug);
+      if (!report) {
+        return ctx.notFound('Prompt experiment not found');
       }
-      
-      const message = error instanceof Error ? error.message : String(error);
-      const code = (error as any)?.code ?? 'GENERATION_FAILED';
-      
-      if (sseMode) {
-        sendError(code, message);
-      } else {
-        return ctx.internalServerError(message);
+      ctx.body = report;
+    } catch (error) {
+      strapi.log.error('[ArticleGenerator] Experiment report error:', error);
+      return ctx.internalServerError('Failed to load experiment report');
+    }
+  },
+
+  /**
+   * Refill a post's related posts and weave internal links into its content.
+   * POST /api/article-generator/posts/:documentId/related
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   * Body: { locale?: string }
+   *
+   * Without `locale`, every locale the post exists in is relinked. Drafts only.
+   */
+  async relatePost(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const parsed = relatedPostsRequestSchema.omit({ gameDocumentId: true }).safeParse(ctx.request?.body ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+    }
+
+    try {
+      const results = await linkRelatedPostsForLocales(strapi, ctx.params.documentId, parsed.data.locale);
+      if (results.length === 0) {
+        return ctx.notFound(`Post not found: ${ctx.params.documentId}`);
       }
+      ctx.body = { success: true, results };
+    } catch (error) {
+      strapi.log.error('[ArticleGenerator] Related posts error:', error);
+      return ctx.internalServerError('Failed to update related posts');
+    }
+  },
+
+  /**
+   * Refill related posts and internal links for every post.
+   * POST /api/article-generator/related-posts/rebuild
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   * Body: { locale?: string, gameDocumentId?: string }
+   */
+  async rebuildRelatedPosts(ctx: any) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const parsed = relatedPostsRequestSchema.safeParse(ctx.request?.body ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+    }
+
+    try {
+      const results = await rebuildRelatedPosts(strapi, parsed.data);
+      ctx.body = {
+        success: true,
+        updated: results.filter((r) => r.status === 'updated').length,
+        failed: results.filter((r) => r.status === 'failed').length,
+        results,
+      };
+    } catch (error) {
+      strapi.log.error('[ArticleGenerator] Related posts rebuild error:', error);
+      return ctx.internalServerError('Failed to rebuild related posts');
     }
   },
 });
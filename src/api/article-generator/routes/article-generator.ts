@@ -2,8 +2,25 @@
  * Article Generator API Routes
  *
  * These are available at /api/article-generator/*
- * 
- * Both routes use the same handler - SSE mode is enabled via `?sse=true` query param or `sse: true` in body.
+ *
+ * Both generate routes use the same handler - SSE mode is enabled via `?sse=true` query param or `sse: true` in body.
+ *
+ * The /jobs routes run generation in the background: create a job, then poll it
+ * or attach to its SSE event stream (reattachable after a dropped connection).
+ *
+ * /ideas/generate proposes new article ideas for a game; /ideas/run queues
+ * generation jobs for pending ideas (the created post is linked back to the idea).
+ *
+ * /posts/:documentId/refresh updates an existing AI-written post with what changed
+ * since it was generated and saves the result as a draft revision.
+ *
+ * /analytics aggregates generation spend and quality across AI-written posts;
+ * /analytics/export downloads the same data as CSV.
+ *
+ * /experiments/:slug/report compares the arms of a prompt experiment.
+ *
+ * /posts/:documentId/related refills a post's related posts and internal links;
+ * /related-posts/rebuild does the same for every post (e.g. after new posts are published).
  */
 export default {
   routes: [
@@ -25,5 +42,131 @@ export default {
         policies: [],
       },
     },
+    {
+      method: 'POST',
+      path: '/article-generator/jobs',
+      handler: 'article-generator.createJob',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/jobs',
+      handler: 'article-generator.listJobs',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/jobs/:documentId',
+      handler: 'article-generator.getJob',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/jobs/:documentId/events',
+      handler: 'article-generator.streamJob',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/article-generator/jobs/:documentId/cancel',
+      handler: 'article-generator.cancelJob',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/article-generator/ideas/generate',
+      handler: 'article-generator.generateIdeas',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/ideas',
+      handler: 'article-generator.listIdeas',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/article-generator/ideas/run',
+      handler: 'article-generator.runIdeas',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/article-generator/posts/:documentId/refresh',
+      handler: 'article-generator.refreshPost',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/analytics',
+      handler: 'article-generator.analytics',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/analytics/export',
+      handler: 'article-generator.exportAnalytics',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/article-generator/experiments/:slug/report',
+      handler: 'article-generator.experimentReport',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/article-generator/posts/:documentId/related',
+      handler: 'article-generator.relatePost',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/article-generator/related-posts/rebuild',
+      handler: 'article-generator.rebuildRelatedPosts',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
   ],
 };
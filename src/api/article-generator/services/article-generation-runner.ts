@@ -0,0 +1,519 @@
+/**
+ * Article Generation Runner
+ *
+ * Runs the full article pipeline for one request: resolve/import the game,
+ * generate the draft, generate audio, create the Post, optionally publish.
+ *
+ * Transport-agnostic so it can be driven by the synchronous HTTP endpoint
+ * (JSON or SSE) and by the background job queue. Progress is reported
+ * through `onEvent` using the same SSE event shapes the endpoints stream.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import type { GameDocument } from '../../../types/strapi';
+import { generateGameArticleDraft } from '../../../ai/articles/generate-game-article';
+import { formatProfileWorkflow, type SelectedGenerationProfile } from '../../../ai/articles/generation-profile';
+import { ArticleGenerationError, type GameArticleDraft } from '../../../ai/articles/types';
+import { generateAndUploadArticleAudio } from '../../../ai/articles/services/article-audio-generator';
+import { findSourceContentIds } from '../../../ai/articles/source-cache';
+import { slugify } from '../../../utils/slug';
+import { importOrGetGameByIgdbId, GameImportError } from '../../game-fetcher/services/import-game-programmatic';
+import { resolveIGDBGameIdFromQuery } from '../../game-fetcher/services/game-resolver';
+import { fetchIGDBImagesForGame } from '../../game-fetcher/services/igdb-images';
+import { linkRelatedPosts } from '../../post/services/related-posts';
+import { assignExperimentArm, selectActivePromptExperiment } from './prompt-experiments';
+import { extractStoredCitations, extractStoredCosts, extractStoredPlan, extractStoredSources } from '../utils/shared-helpers';
+import type {
+  SSEEvent,
+  CategoryDocument,
+  AuthorDocument,
+  PostDocument,
+  GenerationProfileDocument,
+  StoredPromptVersions,
+  StrapiDocumentService,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Validation schema for an article generation request.
+ * Shared by `/generate` and `/jobs` so both accept the same body.
+ */
+export const generateRequestSchema = z.object({
+  gameDocumentId: z.string().min(1).optional(),
+  igdbId: z.number().int().positive().optional(),
+  gameQuery: z.string().min(2).max(200).optional(),
+  instruction: z.string().min(1).max(5000).optional(),
+  categorySlug: z.enum(['news', 'reviews', 'guides', 'lists']).optional(),
+  publish: z.boolean().optional(),
+  /** Hard cost budget for the AI pipeline in USD (LLM + search) */
+  maxCostUsd: z.number().positive().max(100).optional(),
+  /** Article idea this request was created from; linked to the post and marked done */
+  articleIdeaDocumentId: z.string().min(1).optional(),
+  /** Slug of the generation profile to use (default: the profile flagged isDefault, if any) */
+  generationProfile: z.string().min(1).max(100).optional(),
+}).refine((v) => Boolean(v.gameDocumentId || v.igdbId || v.gameQuery), {
+  message: 'Provide one of: gameDocumentId, igdbId, or gameQuery',
+});
+
+export type GenerateArticleRequest = z.infer<typeof generateRequestSchema>;
+
+/**
+ * Error codes raised before or after the AI pipeline itself
+ * (pipeline failures surface as ArticleGenerationError).
+ */
+export type ArticleGenerationRequestErrorCode =
+  | 'GAME_NOT_FOUND'
+  | 'IMPORT_FAILED'
+  | 'NO_AUTHOR'
+  | 'CATEGORY_NOT_FOUND'
+  | 'POST_NOT_FOUND'
+  | 'NOT_REFRESHABLE'
+  | 'PROFILE_NOT_FOUND';
+
+/**
+ * Error for request-level failures (game/post resolution, missing seed data).
+ */
+export class ArticleGenerationRequestError extends Error {
+  constructor(
+    readonly code: ArticleGenerationRequestErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ArticleGenerationRequestError';
+  }
+}
+
+/**
+ * Options for a single generation run.
+ */
+export interface ArticleGenerationRunOptions {
+  /** Receives start/progress events as the run advances */
+  readonly onEvent?: (event: SSEEvent) => void;
+  /** Aborts the run; surfaces as ArticleGenerationError('CANCELLED') */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a successful generation run.
+ */
+export interface ArticleGenerationRunResult {
+  readonly post: PostDocument;
+  readonly draft: GameArticleDraft;
+  readonly game: { documentId: string; name: string; slug: string };
+  readonly author: { documentId: string; name: string };
+  readonly published: boolean;
+  /** Set when the post was created but publishing it failed */
+  readonly publishError?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Game relations needed to build the article context */
+export const GAME_POPULATE = ['genres', 'platforms', 'developers', 'publishers'];
+
+/** Pipeline name recorded in `aiWorkflow` on generated posts */
+const ARTICLE_WORKFLOW = 'deep-dive-v1';
+
+/**
+ * Throw a CANCELLED error if the signal has been aborted.
+ * Used between the non-AI steps that don't observe the signal themselves.
+ */
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new ArticleGenerationError('CANCELLED', 'Article generation was cancelled');
+  }
+}
+
+/**
+ * Link the created post back to the idea it was written from and mark the idea done.
+ * Non-fatal: the post already exists, so a failure here is only logged.
+ */
+async function completeArticleIdea(strapi: Core.Strapi, ideaDocumentId: string, postDocumentId: string): Promise<void> {
+  try {
+    await strapi.documents('api::article-idea.article-idea').update({
+      documentId: ideaDocumentId,
+      data: { done: true, post: { connect: [postDocumentId] } },
+    } as any);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    strapi.log.warn(`[ArticleGenerator] Failed to update article idea ${ideaDocumentId}: ${msg}`);
+  }
+}
+
+/**
+ * Load the generation profile for a request: the requested slug, otherwise
+ * the profile flagged `isDefault`. Returns undefined when neither exists.
+ *
+ * @throws ArticleGenerationRequestError('PROFILE_NOT_FOUND') if a requested profile does not exist
+ */
+async function resolveGenerationProfile(
+  strapi: Core.Strapi,
+  slug: string | undefined
+): Promise<SelectedGenerationProfile | undefined> {
+  const profileService = strapi.documents(
+    'api::generation-profile.generation-profile'
+  ) as unknown as StrapiDocumentService<GenerationProfileDocument>;
+
+  const [profile] = await profileService.findMany({
+    filters: slug ? { slug } : { isDefault: true },
+    sort: ['updatedAt:desc'],
+    limit: 1,
+  } as any);
+
+  if (!profile) {
+    if (slug) {
+      throw new ArticleGenerationRequestError('PROFILE_NOT_FOUND', `Generation profile not found: ${slug}`);
+    }
+    return undefined;
+  }
+  return { slug: profile.slug, settings: profile.settings };
+}
+
+/**
+ * Resolve the game for a request, importing it from IGDB if needed.
+ */
+async function resolveGame(
+  strapi: Core.Strapi,
+  request: GenerateArticleRequest,
+  locale: string
+): Promise<GameDocument> {
+  const gameService = strapi.documents('api::game.game') as unknown as StrapiDocumentService<GameDocument>;
+
+  if (request.gameDocumentId) {
+    const game = await gameService.findOne({
+      documentId: request.gameDocumentId,
+      locale,
+      populate: GAME_POPULATE,
+    } as any);
+    if (game) return game;
+  }
+
+  let game: GameDocument | null = null;
+  try {
+    // If we don't have a valid documentId, use IGDB-based resolution/import.
+    let igdbId = request.igdbId;
+    if (!igdbId && request.gameQuery) {
+      const resolved = await resolveIGDBGameIdFromQuery(strapi, request.gameQuery, 10);
+      igdbId = resolved.igdbId;
+    }
+
+    if (!igdbId) {
+      throw new ArticleGenerationRequestError(
+        'GAME_NOT_FOUND',
+        'Game not found and no igdbId/gameQuery provided to import it.'
+      );
+    }
+
+    const imported = await importOrGetGameByIgdbId(strapi, igdbId);
+    game = await gameService.findOne({
+      documentId: imported.game.documentId,
+      locale,
+      populate: GAME_POPULATE,
+    } as any);
+  } catch (error) {
+    if (error instanceof ArticleGenerationRequestError) throw error;
+    if (error instanceof GameImportError) {
+      throw new ArticleGenerationRequestError('IMPORT_FAILED', `Failed to import game: ${error.message}`);
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new ArticleGenerationRequestError('IMPORT_FAILED', `Failed to resolve/import game: ${msg}`);
+  }
+
+  if (!game) {
+    throw new ArticleGenerationRequestError('GAME_NOT_FOUND', 'Failed to resolve or import game');
+  }
+  return game;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Run the article pipeline for a request and create the resulting Post.
+ *
+ * NOTE: Content is always generated in English first. Spanish locale is generated after publish.
+ *
+ * @throws ArticleGenerationRequestError for game/author/category/profile resolution failures
+ * @throws ArticleGenerationError for pipeline failures (including 'CANCELLED')
+ */
+export async function runArticleGeneration(
+  strapi: Core.Strapi,
+  request: GenerateArticleRequest,
+  options: ArticleGenerationRunOptions = {}
+): Promise<ArticleGenerationRunResult> {
+  const { onEvent, signal } = options;
+  // IMPORTANT: We always create content in English first.
+  // Spanish locale is generated automatically after EN publish (Post lifecycle).
+  const locale = 'en' as const;
+
+  const categoryService = strapi.documents('api::category.category') as unknown as StrapiDocumentService<CategoryDocument>;
+  const authorService = strapi.documents('api::author.author') as unknown as StrapiDocumentService<AuthorDocument>;
+  const postService = strapi.documents('api::post.post') as unknown as StrapiDocumentService<PostDocument>;
+
+  throwIfCancelled(signal);
+  // Resolve the profile first so a bad slug fails before any game import
+  const profile = await resolveGenerationProfile(strapi, request.generationProfile);
+  // Enroll the request in the active prompt experiment, if any
+  const promptExperiment = await selectActivePromptExperiment(strapi, request.categorySlug);
+  const experimentArm = promptExperiment
+    ? assignExperimentArm(promptExperiment.arms, `${promptExperiment.experiment.slug}:${randomUUID()}`)
+    : undefined;
+  const game = await resolveGame(strapi, request, locale);
+  const gameSummary = { documentId: game.documentId, name: game.name, slug: game.slug };
+
+  onEvent?.({
+    type: 'start',
+    game: gameSummary,
+    timestamp: new Date().toISOString(),
+  });
+
+  // Choose the first seeded author.
+  // Use EN to select the canonical seeded author deterministically (documentId shared across locales).
+  const authors = await authorService.findMany({
+    locale: 'en',
+    sort: ['id:asc'],
+    limit: 1,
+  } as any);
+
+  if (!authors || authors.length === 0) {
+    throw new ArticleGenerationRequestError('NO_AUTHOR', 'No authors found. Seed at least one author.');
+  }
+
+  const author = authors[0];
+
+  // Fetch available categories (English slugs), include optional systemPrompt to guide selection.
+  // NOTE: Avoid `fields` projection here to ensure `documentId` is present for relation connects.
+  const categories = await categoryService.findMany({
+    locale: 'en',
+  } as any);
+
+  // Map Strapi game into generator context
+  const genreNames = (game as any).genres?.map((g: { name: string }) => g.name) || [];
+  const platformNames = (game as any).platforms?.map((p: { name: string }) => p.name) || [];
+  const developerName = (game as any).developers?.[0]?.name || null;
+  const publisherName = (game as any).publishers?.[0]?.name || null;
+
+  // Fetch IGDB images for article image pool
+  // The game's igdbId comes from the import process
+  const gameIgdbId = (game as any).igdbId;
+  let screenshotUrls: readonly string[] = [];
+  let artworkUrls: readonly string[] = [];
+  let igdbCoverUrl: string | null = null;
+  if (gameIgdbId) {
+    try {
+      const igdbImages = await fetchIGDBImagesForGame(strapi, gameIgdbId);
+      screenshotUrls = igdbImages.screenshotUrls;
+      artworkUrls = igdbImages.artworkUrls;
+      igdbCoverUrl = igdbImages.coverUrl;
+    } catch (err) {
+      // Non-fatal: log and continue without IGDB images
+      const msg = err instanceof Error ? err.message : String(err);
+      strapi.log.warn(`[ArticleGenerator] Failed to fetch IGDB images: ${msg}`);
+    }
+  }
+
+  throwIfCancelled(signal);
+
+  // Articles are always generated in English; translation is a separate process
+  // Pass strapi to enable content cleaning and caching
+  const draft = await generateGameArticleDraft(
+    {
+      gameName: game.name,
+      gameSlug: game.slug,
+      gameDocumentId: game.documentId,
+      releaseDate: game.releaseDate,
+      genres: genreNames,
+      platforms: platformNames,
+      developer: developerName,
+      publisher: publisherName,
+      igdbDescription: game.description,
+      instruction: request.instruction,
+      // If user explicitly selected a category, use it; otherwise let AI decide
+      ...(request.categorySlug ? { categorySlug: request.categorySlug } : {}),
+      categoryHints: (categories || []).map((c) => ({
+        slug: c.slug as any,
+        systemPrompt: (c as any).systemPrompt ?? null,
+      })),
+      // IGDB images for article image pool
+      screenshotUrls,
+      artworkUrls,
+      coverImageUrl: (game as any).coverImageUrl ?? igdbCoverUrl,
+    },
+    { strapi },
+    {
+      signal,
+      ...(request.maxCostUsd !== undefined ? { maxCostUsd: request.maxCostUsd } : {}),
+      ...(profile ? { profile: profile.settings } : {}),
+      ...(experimentArm ? { promptVersions: experimentArm.promptVersions } : {}),
+      // Only provide progress callback when someone is listening
+      ...(onEvent && {
+        onProgress: (phase, progress, message) => {
+          onEvent({
+            type: 'progress',
+            phase,
+            progress,
+            message,
+            timestamp: new Date().toISOString(),
+          });
+        },
+      }),
+    }
+  );
+
+  // Find the category doc by slug
+  const categoryMatch = (categories || []).find((c) => c.slug === draft.categorySlug);
+  if (!categoryMatch) {
+    throw new ArticleGenerationRequestError('CATEGORY_NOT_FOUND', `Category not found for slug: ${draft.categorySlug}`);
+  }
+
+  // Extract structured data for DB storage
+  const costs = extractStoredCosts(draft);
+  const plan = extractStoredPlan(draft);
+  const sources = extractStoredSources(draft.sources);
+  const citations = draft.citations
+    ? extractStoredCitations(
+        draft.citations,
+        await findSourceContentIds(strapi, draft.citations.sources.map((source) => source.url))
+      )
+    : undefined;
+  const promptVersions: StoredPromptVersions | undefined = draft.promptVersions && {
+    versions: { ...draft.promptVersions },
+    ...(promptExperiment && experimentArm && {
+      experiment: { slug: promptExperiment.experiment.slug, arm: experimentArm.name },
+    }),
+  };
+
+  throwIfCancelled(signal);
+
+  // ===== AUDIO GENERATION =====
+  // Generate audio from article markdown content (BEFORE images to avoid reading URLs)
+  const audioResult = await generateAndUploadArticleAudio({
+    markdown: draft.markdownWithoutImages,
+    articleTitle: draft.title,
+    gameSlug: game.slug,
+    articleSlug: slugify(draft.title),
+    strapi,
+  });
+
+  const audioFileId = audioResult?.id;
+  const chapterFileId = audioResult?.chapterFileId;
+
+  // Last chance to cancel before anything is persisted
+  throwIfCancelled(signal);
+
+  // Create a draft post (Strapi draftAndPublish: true)
+  // Note: Strapi's UID auto-generation doesn't trigger via Document Service API,
+  // so we must generate the slug ourselves.
+  const created = await postService.create({
+    locale,
+    status: 'draft',
+    data: {
+      title: draft.title,
+      slug: slugify(draft.title),
+      excerpt: draft.excerpt,
+      description: draft.description,
+      content: draft.markdown,
+      aiAssisted: true,
+      aiModel: JSON.stringify(draft.models),
+      aiGeneratedAt: new Date().toISOString(),
+      // Includes the profile slug and a settings hash so the post traces back to its settings
+      aiWorkflow: formatProfileWorkflow(ARTICLE_WORKFLOW, profile),
+      plan,     // Article plan (sections, goals, research queries)
+      costs,    // All cost/performance data by phase
+      sources,  // Source URLs with domain analysis
+      citations, // Claim-to-source map for the citation markers in content
+      verdict: draft.verdict ?? null, // Structured review verdict (reviews only)
+      promptVersions, // Prompt versions used, with the experiment arm that chose them
+      // Use Document Service relation syntax to avoid ambiguity between
+      // numeric DB IDs vs document IDs (UUIDs).
+      category: { connect: [categoryMatch.documentId] } as any,
+      games: { connect: [game.documentId] } as any,
+      author: { connect: [author.documentId] } as any,
+      // Set featured image from hero image if available
+      // Media relations use the numeric ID directly
+      ...(draft.imageMetadata?.heroImage?.id && {
+        featuredImage: draft.imageMetadata.heroImage.id,
+      }),
+      // Set audio file if audio generation succeeded
+      ...(audioFileId && {
+        audioFile: audioFileId,
+      }),
+      // Set chapter file if chapters were generated
+      ...(chapterFileId && {
+        chapterFile: chapterFileId,
+      }),
+    } as any,
+  } as any);
+
+  if (request.articleIdeaDocumentId) {
+    await completeArticleIdea(strapi, request.articleIdeaDocumentId, created.documentId);
+  }
+
+  // Related posts and internal links (non-fatal: the post is usable without them)
+  try {
+    await linkRelatedPosts(strapi, created.documentId, locale);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    strapi.log.warn(`[ArticleGenerator] Related posts failed (post kept without links): ${msg}`);
+  }
+
+  // Publish if requested
+  let published = false;
+  let publishError: string | undefined;
+  if (request.publish) {
+    try {
+      await postService.publish({ documentId: created.documentId, locale } as any);
+      published = true;
+    } catch (error) {
+      // Post created but publish failed - callers decide how to surface this
+      publishError = error instanceof Error ? error.message : String(error);
+      strapi.log.error(`[ArticleGenerator] Publish failed: ${publishError}`);
+    }
+  }
+
+  return {
+    post: created,
+    draft,
+    game: gameSummary,
+    author: { documentId: author.documentId, name: author.name },
+    published,
+    ...(publishError !== undefined && { publishError }),
+  };
+}
+
+/**
+ * Build the SSE `complete` event for a finished run.
+ */
+export function buildCompleteEvent(result: ArticleGenerationRunResult): SSEEvent {
+  const { draft } = result;
+  return {
+    type: 'complete',
+    post: { id: result.post.id, documentId: result.post.documentId },
+    draft: {
+      title: draft.title,
+      categorySlug: draft.categorySlug,
+      excerpt: draft.excerpt,
+      description: draft.description,
+      markdown: draft.markdown,
+      sources: draft.sources,
+    },
+    metadata: {
+      totalDurationMs: draft.metadata.totalDurationMs,
+      totalCostUsd: draft.metadata.totalEstimatedCostUsd,
+      sourcesCollected: draft.metadata.sourcesCollected,
+      researchConfidence: draft.metadata.researchConfidence,
+    },
+    game: result.game,
+    published: result.published,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Article Idea Generator
+ *
+ * Proposes new article ideas for a game and stores them as
+ * `api::article-idea.article-idea` documents for the batch runner to pick up.
+ *
+ * The model sees the game's IGDB data, the titles of posts and ideas that
+ * already exist for it, and the cached `source-content` research for the
+ * game. Proposals that overlap an existing post/idea (or each other) are
+ * dropped before anything is saved.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { generateText, Output } from 'ai';
+import { z } from 'zod';
+
+import { getModel } from '../../../ai/config/utils';
+import type { GameDocument } from '../../../types/strapi';
+import { slugify } from '../../../utils/slug';
+import { GAME_POPULATE } from './article-generation-runner';
+import type { ArticleIdeaDocument, StrapiDocumentService } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const IDEA_UID = 'api::article-idea.article-idea';
+
+/** Categories the generator proposes (reviews are written on request only) */
+export const IDEA_CATEGORIES = ['guides', 'lists', 'news'] as const;
+
+const DEFAULT_IDEA_COUNT = 5;
+
+/** Cached sources included in the prompt (highest quality first) */
+const MAX_SOURCES_IN_PROMPT = 15;
+
+/** Word-overlap ratio at which two titles count as the same idea */
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'to', 'in', 'for', 'on', 'with', 'how', 'your', 'you', 'every', 'all', 'best',
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Validation schema for an idea generation request.
+ */
+export const ideaGenerationRequestSchema = z.object({
+  gameDocumentId: z.string().min(1),
+  count: z.number().int().min(1).max(20).optional(),
+  categories: z.array(z.enum(IDEA_CATEGORIES)).min(1).optional(),
+});
+
+export type IdeaGenerationRequest = z.infer<typeof ideaGenerationRequestSchema>;
+
+const IdeaProposalSchema = z.object({
+  title: z.string().min(5).max(100),
+  description: z.string().max(300),
+  categorySlug: z.enum(IDEA_CATEGORIES),
+  instruction: z.string().min(10).max(500),
+});
+
+const IdeaProposalListSchema = z.object({
+  ideas: z.array(IdeaProposalSchema),
+});
+
+export type ArticleIdeaProposal = z.infer<typeof IdeaProposalSchema>;
+
+/**
+ * Everything the model knows about a game when proposing ideas.
+ */
+export interface IdeaContext {
+  readonly game: {
+    readonly name: string;
+    readonly releaseDate: string | null;
+    readonly description: string | null;
+    readonly genres: readonly string[];
+    readonly platforms: readonly string[];
+    readonly developer: string | null;
+  };
+  /** Titles of existing posts and ideas (used for the prompt and for dedupe) */
+  readonly existingTitles: readonly string[];
+  readonly sources: readonly { title: string; summary: string | null }[];
+}
+
+export interface IdeaGenerationOptions {
+  /** Idea proposer override (for testing) */
+  readonly propose?: (prompt: string) => Promise<ArticleIdeaProposal[]>;
+}
+
+export interface IdeaGenerationResult {
+  readonly created: ArticleIdeaDocument[];
+  /** Proposals dropped as duplicates */
+  readonly skipped: { title: string; duplicateOf: string }[];
+}
+
+/**
+ * Error for idea requests that reference missing data.
+ */
+export class ArticleIdeaError extends Error {
+  constructor(
+    readonly code: 'GAME_NOT_FOUND',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ArticleIdeaError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function titleWords(title: string, ignored: ReadonlySet<string>): Set<string> {
+  const words = slugify(title)
+    .split('-')
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w) && !ignored.has(w));
+  return new Set(words);
+}
+
+/**
+ * Word-overlap similarity between two titles: shared words over the shorter
+ * title's words. Stop words and the game's name are ignored, since every
+ * title for a game tends to repeat them.
+ */
+export function titleSimilarity(a: string, b: string, gameName = ''): number {
+  const ignored = new Set(slugify(gameName).split('-'));
+  const wordsA = titleWords(a, ignored);
+  const wordsB = titleWords(b, ignored);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+/**
+ * Return the existing title a proposal duplicates, if any.
+ */
+export function findDuplicateTitle(
+  title: string,
+  existingTitles: readonly string[],
+  gameName = ''
+): string | undefined {
+  return existingTitles.find(
+    (existing) => titleSimilarity(title, existing, gameName) >= DUPLICATE_SIMILARITY_THRESHOLD
+  );
+}
+
+/**
+ * Build the idea prompt: game facts, what is already covered, cached research.
+ */
+export function buildIdeaPrompt(
+  context: IdeaContext,
+  count: number,
+  categories: readonly string[]
+): string {
+  const { game } = context;
+  const sources = context.sources
+    .map((s) => `- ${s.title}${s.summary ? `: ${s.summary.slice(0, 300)}` : ''}`)
+    .join('\n');
+
+  return `Propose ${count} new article ideas for ${game.name}.
+
+Game:
+- Release date: ${game.releaseDate || 'unknown'}
+- Genres: ${game.genres.join(', ') || 'unknown'}
+- Platforms: ${game.platforms.join(', ') || 'unknown'}
+- Developer: ${game.developer || 'unknown'}
+- Description: ${game.description || 'n/a'}
+
+Already covered (do NOT propose these or close variations):
+${context.existingTitles.map((t) => `- ${t}`).join('\n') || '- (nothing yet)'}
+
+Research we already have cached (prefer ideas this material can support):
+${sources || '- (none)'}
+
+Rules:
+- categorySlug must be one of: ${categories.join(', ')}.
+- guides: one focused goal per article (a boss, a build, a system), not "complete guide" overviews.
+- lists: a ranked or grouped list with a clear theme.
+- news: only for recent, concrete events (patches, DLC, announcements) visible in the research.
+- title: specific and search-friendly, max 100 characters.
+- description: one sentence on what the article covers.
+- instruction: the brief for the writer (what to cover and for whom), max 500 characters.
+- Every idea must be distinct from the others and from the covered list.
+`;
+}
+
+async function proposeWithModel(prompt: string): Promise<ArticleIdeaProposal[]> {
+  const openrouter = createOpenRouter({
+    apiKey: process.env.OPENROUTER_API_KEY || '',
+  });
+
+  const { output } = await generateText({
+    model: openrouter(getModel('ARTICLE_IDEAS')),
+    output: Output.object({ schema: IdeaProposalListSchema }),
+    system: 'You are the editor of a gaming website planning its content calendar. Output ONLY JSON matching the schema.',
+    prompt,
+  });
+
+  return output.ideas;
+}
+
+/**
+ * Load the game, its existing posts/ideas and its cached research.
+ */
+export async function gatherIdeaContext(strapi: Core.Strapi, gameDocumentId: string): Promise<IdeaContext> {
+  const gameService = strapi.documents('api::game.game') as unknown as StrapiDocumentService<GameDocument>;
+  const postService = strapi.documents('api::post.post') as unknown as StrapiDocumentService<{ title: string }>;
+  const ideaService = strapi.documents(IDEA_UID as any) as unknown as StrapiDocumentService<ArticleIdeaDocument>;
+  const sourceService = strapi.documents('api::source-content.source-content') as unknown as StrapiDocumentService<{
+    title: string;
+    summary: string | null;
+  }>;
+
+  const game = await gameService.findOne({
+    documentId: gameDocumentId,
+    locale: 'en',
+    populate: GAME_POPULATE,
+  } as any);
+
+  if (!game) {
+    throw new ArticleIdeaError('GAME_NOT_FOUND', `Game not found: ${gameDocumentId}`);
+  }
+
+  const gameFilter = { games: { documentId: gameDocumentId } };
+  const [posts, ideas, sources] = await Promise.all([
+    postService.findMany({ locale: 'en', filters: gameFilter, fields: ['title'] } as any),
+    ideaService.findMany({ filters: { game: { documentId: gameDocumentId } }, fields: ['title'] } as any),
+    sourceService.findMany({
+      filters: { ...gameFilter, scrapeSucceeded: true },
+      sort: ['qualityScore:desc'],
+      fields: ['title', 'summary'],
+      limit: MAX_SOURCES_IN_PROMPT,
+    } as any),
+  ]);
+
+  return {
+    game: {
+      name: game.name,
+      releaseDate: game.releaseDate,
+      description: game.description,
+      genres: (game as any).genres?.map((g: { name: string }) => g.name) || [],
+      platforms: (game as any).platforms?.map((p: { name: string }) => p.name) || [],
+      developer: (game as any).developers?.[0]?.name || null,
+    },
+    existingTitles: [...(posts || []), ...(ideas || [])].map((d) => d.title).filter(Boolean),
+    sources: (sources || []).map((s) => ({ title: s.title, summary: s.summary ?? null })),
+  };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Propose and store new, non-duplicate article ideas for a game.
+ *
+ * @throws ArticleIdeaError('GAME_NOT_FOUND') if the game does not exist
+ */
+export async function generateArticleIdeas(
+  strapi: Core.Strapi,
+  request: IdeaGenerationRequest,
+  options: IdeaGenerationOptions = {}
+): Promise<IdeaGenerationResult> {
+  const propose = options.propose ?? proposeWithModel;
+  const count = request.count ?? DEFAULT_IDEA_COUNT;
+  const categories = request.categories ?? IDEA_CATEGORIES;
+
+  const context = await gatherIdeaContext(strapi, request.gameDocumentId);
+  const proposals = await propose(buildIdeaPrompt(context, count, categories));
+
+  const ideaService = strapi.documents(IDEA_UID as any) as unknown as StrapiDocumentService<ArticleIdeaDocument>;
+  const knownTitles = [...context.existingTitles];
+  const created: ArticleIdeaDocument[] = [];
+  const skipped: IdeaGenerationResult['skipped'] = [];
+
+  for (const proposal of proposals) {
+    if (created.length >= count) break;
+    if (!categories.includes(proposal.categorySlug)) continue;
+
+    const duplicateOf = findDuplicateTitle(proposal.title, knownTitles, context.game.name);
+    if (duplicateOf) {
+      skipped.push({ title: proposal.title, duplicateOf });
+      continue;
+    }
+
+    const idea = await ideaService.create({
+      data: {
+        title: proposal.title,
+        description: proposal.description || null,
+        categorySlug: proposal.categorySlug,
+        instruction: proposal.instruction,
+        done: false,
+        game: { connect: [request.gameDocumentId] },
+      } as any,
+    });
+    created.push(idea);
+    knownTitles.push(proposal.title);
+  }
+
+  strapi.log.info(
+    `[ArticleIdeas] ${context.game.name}: ${created.length} idea(s) created, ${skipped.length} duplicate(s) skipped`
+  );
+
+  return { created, skipped };
+}
@@ -0,0 +1,156 @@
+/**
+ * Article Idea Batch Runner
+ *
+ * Turns pending article ideas into background generation jobs. Each job runs
+ * the normal article pipeline with the idea's instruction and category; when
+ * the post is created the runner links it back to the idea and sets `done`
+ * (see `articleIdeaDocumentId` in the generation request).
+ *
+ * Ideas that already have a queued or running job are skipped, so running the
+ * batch twice does not generate the same article twice.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import type { GenerateArticleRequest } from './article-generation-runner';
+import { getGenerationJobQueue, type GenerationJobQueue } from './generation-job-queue';
+import type { ArticleIdeaDocument, GenerationJobDocument, StrapiDocumentService } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const IDEA_UID = 'api::article-idea.article-idea';
+
+const DEFAULT_BATCH_SIZE = 5;
+
+/** How many queued/running jobs to inspect when looking for in-flight ideas */
+const ACTIVE_JOB_SCAN_LIMIT = 100;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Validation schema for a batch run request.
+ */
+export const ideaRunRequestSchema = z.object({
+  limit: z.number().int().min(1).max(25).optional(),
+  gameDocumentId: z.string().min(1).optional(),
+  ideaDocumentIds: z.array(z.string().min(1)).min(1).max(25).optional(),
+  categorySlug: z.enum(['guides', 'news', 'reviews', 'lists']).optional(),
+  publish: z.boolean().optional(),
+});
+
+export type IdeaRunRequest = z.infer<typeof ideaRunRequestSchema>;
+
+export interface IdeaRunOptions {
+  /** Job queue override (for testing) */
+  readonly queue?: Pick<GenerationJobQueue, 'enqueue' | 'list'>;
+}
+
+export interface IdeaRunResult {
+  readonly queued: { idea: { documentId: string; title: string }; job: { documentId: string } }[];
+  readonly skipped: { idea: { documentId: string; title: string }; reason: string }[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Idea documentIds that already have a queued or running generation job.
+ */
+async function getActiveIdeaIds(queue: Pick<GenerationJobQueue, 'list'>): Promise<Set<string>> {
+  const [queued, running] = await Promise.all([
+    queue.list({ status: 'queued', limit: ACTIVE_JOB_SCAN_LIMIT }),
+    queue.list({ status: 'running', limit: ACTIVE_JOB_SCAN_LIMIT }),
+  ]);
+
+  const ids = new Set<string>();
+  for (const job of [...queued, ...running] as GenerationJobDocument[]) {
+    const ideaId = job.request?.articleIdeaDocumentId;
+    if (typeof ideaId === 'string') ids.add(ideaId);
+  }
+  return ids;
+}
+
+/**
+ * Build the generation request for an idea.
+ * Ideas added by hand may have no instruction; the title/description stand in.
+ */
+export function buildIdeaGenerationRequest(
+  idea: ArticleIdeaDocument,
+  gameDocumentId: string,
+  publish?: boolean
+): GenerateArticleRequest {
+  const instruction =
+    idea.instruction?.trim() || [idea.title, idea.description].filter(Boolean).join(' - ');
+
+  return {
+    gameDocumentId,
+    instruction,
+    categorySlug: idea.categorySlug,
+    articleIdeaDocumentId: idea.documentId,
+    ...(publish !== undefined && { publish }),
+  };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Queue generation jobs for pending (not done) article ideas, oldest first.
+ */
+export async function runPendingArticleIdeas(
+  strapi: Core.Strapi,
+  request: IdeaRunRequest = {},
+  options: IdeaRunOptions = {}
+): Promise<IdeaRunResult> {
+  const queue = options.queue ?? getGenerationJobQueue(strapi);
+  const limit = request.ideaDocumentIds?.length ?? request.limit ?? DEFAULT_BATCH_SIZE;
+  const ideaService = strapi.documents(IDEA_UID as any) as unknown as StrapiDocumentService<ArticleIdeaDocument>;
+
+  const activeIdeaIds = await getActiveIdeaIds(queue);
+
+  const ideas = await ideaService.findMany({
+    filters: {
+      done: false,
+      ...(request.gameDocumentId && { game: { documentId: request.gameDocumentId } }),
+      ...(request.ideaDocumentIds && { documentId: { $in: request.ideaDocumentIds } }),
+      ...(request.categorySlug && { categorySlug: request.categorySlug }),
+    },
+    populate: ['game'],
+    sort: ['createdAt:asc'],
+    // Over-fetch so in-flight ideas don't eat into the batch
+    limit: limit + activeIdeaIds.size,
+  } as any);
+
+  const queued: IdeaRunResult['queued'] = [];
+  const skipped: IdeaRunResult['skipped'] = [];
+
+  for (const idea of ideas || []) {
+    if (queued.length >= limit) break;
+    const summary = { documentId: idea.documentId, title: idea.title };
+
+    if (activeIdeaIds.has(idea.documentId)) {
+      skipped.push({ idea: summary, reason: 'A generation job for this idea is already queued or running' });
+      continue;
+    }
+
+    const gameDocumentId = idea.game?.documentId;
+    if (!gameDocumentId) {
+      skipped.push({ idea: summary, reason: 'Idea has no linked game' });
+      continue;
+    }
+
+    const job = await queue.enqueue(buildIdeaGenerationRequest(idea, gameDocumentId, request.publish));
+    queued.push({ idea: summary, job: { documentId: job.documentId } });
+  }
+
+  strapi.log.info(`[ArticleIdeas] Queued ${queued.length} idea(s), skipped ${skipped.length}`);
+
+  return { queued, skipped };
+}
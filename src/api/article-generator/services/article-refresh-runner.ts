@@ -0,0 +1,223 @@
+/**
+ * Article Refresh Runner
+ *
+ * Refreshes an existing AI-written Post: loads the EN post with its stored
+ * plan, runs the refresh pipeline (focused Scout -> Reviewer -> Fixer) and
+ * saves the result as a new draft revision. The published version is left
+ * untouched until someone publishes the draft.
+ *
+ * Every refresh is appended to the post's `revisions` JSON with a changelog
+ * of the sections that changed and why. The latest revision also marks the
+ * start of the next refresh window.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import type { GameDocument } from '../../../types/strapi';
+import {
+  refreshGameArticle,
+  type ArticleRefreshInput,
+  type ArticleRefreshResult,
+} from '../../../ai/articles/refresh-article';
+import { DEFAULT_ARTICLE_SAFETY, normalizeArticleCategorySlug, type ArticlePlan } from '../../../ai/articles/article-plan';
+import type { ArticleGeneratorDeps } from '../../../ai/articles/generate-game-article';
+import { findSourceContentIds } from '../../../ai/articles/source-cache';
+import { extractStoredCitations, extractStoredSources } from '../utils/shared-helpers';
+import { ArticleGenerationRequestError, GAME_POPULATE } from './article-generation-runner';
+import type { StoredCitations, StoredPlan, StoredRevision, StoredSources, StrapiDocumentService } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Validation schema for a refresh request body.
+ */
+export const refreshRequestSchema = z.object({
+  /** Extra guidance for the research pass (e.g. "Patch 1.2 changed the boss order") */
+  instruction: z.string().min(1).max(5000).optional(),
+});
+
+export type RefreshArticleRequest = z.infer<typeof refreshRequestSchema>;
+
+export interface ArticleRefreshRunOptions {
+  /** Aborts the run; surfaces as ArticleGenerationError('CANCELLED') */
+  readonly signal?: AbortSignal;
+  /** Refresh pipeline override (for testing) */
+  readonly refresh?: (
+    input: ArticleRefreshInput,
+    deps?: ArticleGeneratorDeps,
+    options?: { signal?: AbortSignal }
+  ) => Promise<ArticleRefreshResult>;
+}
+
+/**
+ * Outcome of a refresh run.
+ */
+export interface ArticleRefreshRunResult {
+  readonly post: { documentId: string };
+  readonly revision: StoredRevision;
+}
+
+interface RefreshablePost {
+  documentId: string;
+  content: string | null;
+  aiGeneratedAt?: string | null;
+  plan?: StoredPlan | null;
+  sources?: StoredSources | null;
+  citations?: StoredCitations | null;
+  revisions?: StoredRevision[] | null;
+  games?: Array<{ documentId: string }> | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rebuild the ArticlePlan from the plan stored on the post.
+ */
+function toArticlePlan(stored: StoredPlan, game: GameDocument): ArticlePlan {
+  return {
+    gameName: stored.gameName || game.name,
+    gameSlug: game.slug,
+    categorySlug: normalizeArticleCategorySlug(stored.categorySlug as any),
+    sections: stored.sections.map((s) => ({
+      headline: s.headline,
+      goal: s.goal,
+      researchQueries: s.researchQueries ?? [],
+      mustCover: s.mustCover ?? [],
+    })),
+    safety: DEFAULT_ARTICLE_SAFETY,
+    ...(stored.requiredElements?.length ? { requiredElements: stored.requiredElements } : {}),
+  };
+}
+
+/**
+ * Total actual cost of a refresh, when the provider reported any.
+ */
+function getRefreshCost(result: ArticleRefreshResult): number | undefined {
+  const usages = [result.tokenUsage.scout, result.tokenUsage.reviewer, result.tokenUsage.fixer];
+  const costs = usages.map((u) => u.actualCostUsd).filter((c): c is number => c !== undefined);
+  return costs.length > 0 ? costs.reduce((sum, c) => sum + c, 0) : undefined;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Refresh an AI-written post and save the result as a new draft revision.
+ *
+ * @throws ArticleGenerationRequestError for post/game resolution failures
+ * @throws ArticleGenerationError for pipeline failures (including 'CANCELLED')
+ */
+export async function runArticleRefresh(
+  strapi: Core.Strapi,
+  documentId: string,
+  request: RefreshArticleRequest = {},
+  options: ArticleRefreshRunOptions = {}
+): Promise<ArticleRefreshRunResult> {
+  const refresh = options.refresh ?? refreshGameArticle;
+  // Articles are written in English; other locales are translated from EN.
+  const locale = 'en' as const;
+
+  const postService = strapi.documents('api::post.post') as unknown as StrapiDocumentService<RefreshablePost>;
+  const gameService = strapi.documents('api::game.game') as unknown as StrapiDocumentService<GameDocument>;
+
+  const post = await postService.findOne({
+    documentId,
+    locale,
+    status: 'draft',
+    populate: ['games'],
+  } as any);
+
+  if (!post) {
+    throw new ArticleGenerationRequestError('POST_NOT_FOUND', `Post not found: ${documentId}`);
+  }
+
+  if (!post.content || !post.plan?.sections?.length) {
+    throw new ArticleGenerationRequestError(
+      'NOT_REFRESHABLE',
+      'Post has no stored plan or content; only AI-generated posts can be refreshed'
+    );
+  }
+
+  const gameDocId = post.games?.[0]?.documentId;
+  const game = gameDocId
+    ? await gameService.findOne({ documentId: gameDocId, locale, populate: GAME_POPULATE } as any)
+    : null;
+
+  if (!game) {
+    throw new ArticleGenerationRequestError('GAME_NOT_FOUND', `Post ${documentId} has no linked game`);
+  }
+
+  const revisions = Array.isArray(post.revisions) ? post.revisions : [];
+  const since = revisions[revisions.length - 1]?.refreshedAt ?? post.aiGeneratedAt ?? null;
+
+  const result = await refresh(
+    {
+      context: {
+        gameName: game.name,
+        gameSlug: game.slug,
+        gameDocumentId: game.documentId,
+        releaseDate: game.releaseDate,
+        genres: (game as any).genres?.map((g: { name: string }) => g.name) || [],
+        platforms: (game as any).platforms?.map((p: { name: string }) => p.name) || [],
+        developer: (game as any).developers?.[0]?.name || null,
+        publisher: (game as any).publishers?.[0]?.name || null,
+        igdbDescription: game.description,
+        instruction: request.instruction ?? null,
+      },
+      markdown: post.content,
+      plan: toArticlePlan(post.plan, game),
+      since,
+      citationSources: post.citations?.sources ?? [],
+    },
+    { strapi },
+    { signal: options.signal }
+  );
+
+  const totalCostUsd = getRefreshCost(result);
+  const revision: StoredRevision = {
+    refreshedAt: new Date().toISOString(),
+    since: result.since,
+    changed: result.changed,
+    changelog: result.changelog.map((change) => ({ ...change })),
+    models: { ...result.models },
+    durationMs: result.durationMs,
+    ...(totalCostUsd !== undefined && { totalCostUsd }),
+    sources: [...result.sources],
+  };
+
+  // Merge new sources into the stored list so attribution stays complete
+  const sourceUrls = [...new Set([...(post.sources?.urls ?? []), ...(result.changed ? result.sources : [])])];
+
+  const citations = result.changed
+    ? extractStoredCitations(
+        result.citations,
+        await findSourceContentIds(strapi, result.citations.sources.map((source) => source.url))
+      )
+    : undefined;
+
+  // Update the EN draft only; publishing is left to an editor
+  await postService.update({
+    documentId,
+    locale,
+    data: {
+      revisions: [...revisions, revision],
+      ...(result.changed && {
+        content: result.markdown,
+        sources: extractStoredSources(sourceUrls),
+        citations,
+      }),
+    },
+  } as any);
+
+  strapi.log.info(
+    `[ArticleRefresh] Post ${documentId}: ${result.changed ? `${result.changelog.length} section(s) updated` : 'no changes needed'}`
+  );
+
+  return { post: { documentId }, revision };
+}
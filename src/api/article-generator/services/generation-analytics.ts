@@ -0,0 +1,646 @@
+/**
+ * Generation Analytics Service
+ *
+ * Aggregates the `costs` JSON stored on AI-written posts into spend and
+ * quality analytics for the "Generation Analytics" admin page: spend by model,
+ * phase, category, game and month, Tavily vs Exa cost per useful source,
+ * Reviewer issue counts and Fixer outcomes. Every table can be exported as CSV.
+ *
+ * Only the EN draft row of each post is read: `costs`, `plan` and `aiModel`
+ * are not localized and every post has a draft row, so each post is counted once.
+ * Metrics that older posts did not record (useful sources, Fixer outcomes)
+ * are averaged over the posts that have them.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import type { IssueSeverityCounts } from '../../../ai/articles/types';
+import type { StoredCosts, StoredPlan, StoredPromptVersions } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const POST_UID = 'api::post.post';
+
+/** Posts loaded per query */
+const BATCH_SIZE = 200;
+
+/** Phases with a model and duration in StoredCosts.phases */
+const TIMED_PHASES = ['scout', 'editor', 'specialist', 'reviewer', 'fixer'] as const;
+
+/** Fallback bucket for posts without a category or game */
+const UNKNOWN_KEY = '(none)';
+
+export const ANALYTICS_EXPORT_VIEWS = ['posts', 'models', 'phases', 'categories', 'games', 'months', 'search'] as const;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const analyticsFiltersSchema = z.object({
+  /** Inclusive start date (YYYY-MM-DD) */
+  from: z.iso.date().optional(),
+  /** Inclusive end date (YYYY-MM-DD) */
+  to: z.iso.date().optional(),
+  categorySlug: z.string().trim().min(1).max(100).optional(),
+  gameSlug: z.string().trim().min(1).max(255).optional(),
+});
+
+const isValidDateRange = (value: { from?: string; to?: string }) => !value.from || !value.to || value.from <= value.to;
+const DATE_RANGE_ERROR = { message: '`from` must not be after `to`' };
+
+export const analyticsQuerySchema = analyticsFiltersSchema.refine(isValidDateRange, DATE_RANGE_ERROR);
+
+export const analyticsExportQuerySchema = analyticsFiltersSchema
+  .extend({ view: z.enum(ANALYTICS_EXPORT_VIEWS).default('posts') })
+  .refine(isValidDateRange, DATE_RANGE_ERROR);
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type AnalyticsExportView = (typeof ANALYTICS_EXPORT_VIEWS)[number];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type TimedPhase = (typeof TIMED_PHASES)[number];
+type SearchEngine = 'tavily' | 'exa';
+
+/**
+ * One AI-written post flattened for aggregation (and the `posts` CSV).
+ */
+export interface AnalyticsPostRow {
+  readonly documentId: string;
+  readonly title: string;
+  readonly generatedAt: string | null;
+  /** YYYY-MM of generatedAt */
+  readonly month: string;
+  readonly categorySlug: string;
+  readonly gameSlug: string;
+  readonly gameName: string;
+  readonly workflow: string | null;
+  readonly totalCostUsd: number | null;
+  readonly totalDurationMs: number;
+  readonly phases: Partial<Record<TimedPhase, { model: string; durationMs: number; costUsd: number | null; inputTokens: number; outputTokens: number }>>;
+  readonly cleaner: { model: string | null; costUsd: number | null; inputTokens: number; outputTokens: number } | null;
+  readonly search: Partial<Record<SearchEngine, { queries: number; costUsd: number; usefulSources: number | null }>>;
+  readonly sourcesCollected: number;
+  readonly reviewed: boolean;
+  /** Reviewer issues before any fixing (null if the Reviewer did not run) */
+  readonly reviewerIssues: number | null;
+  readonly remainingIssues: number;
+  readonly approved: boolean;
+  readonly fixerIterations: number;
+  readonly fixerOperationsAttempted: number | null;
+  readonly fixerOperationsSucceeded: number | null;
+  readonly issuesBefore: IssueSeverityCounts | null;
+  readonly issuesAfter: IssueSeverityCounts | null;
+  /** Draft validation warnings (null on older posts) */
+  readonly validationWarnings: number | null;
+  /** Prompt experiment arm that generated the post */
+  readonly promptExperiment: { slug: string; arm: string } | null;
+}
+
+/**
+ * Spend for one group of posts (category, game or month).
+ */
+export interface AnalyticsGroupSummary {
+  readonly key: string;
+  readonly label: string;
+  readonly posts: number;
+  readonly totalCostUsd: number;
+  readonly avgCostUsd: number | null;
+  readonly avgDurationMs: number;
+}
+
+export interface AnalyticsModelSummary {
+  readonly model: string;
+  /** Phases the model ran in */
+  readonly phases: readonly string[];
+  /** Phase runs (one per post and phase) */
+  readonly runs: number;
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+  readonly totalCostUsd: number;
+  /** Runs without a reported cost (not included in totalCostUsd) */
+  readonly unpricedRuns: number;
+  readonly avgCostPerRunUsd: number | null;
+}
+
+export interface AnalyticsPhaseSummary {
+  readonly phase: TimedPhase | 'cleaner';
+  readonly runs: number;
+  readonly totalCostUsd: number;
+  readonly avgCostUsd: number | null;
+  /** null for the cleaner (not timed separately) */
+  readonly avgDurationMs: number | null;
+  readonly maxDurationMs: number | null;
+}
+
+export interface AnalyticsSearchSummary {
+  readonly engine: SearchEngine;
+  readonly posts: number;
+  readonly queries: number;
+  readonly totalCostUsd: number;
+  readonly avgCostPerQueryUsd: number | null;
+  /** Useful sources across posts that recorded them */
+  readonly usefulSources: number;
+  /** Cost of those posts' searches divided by their useful sources */
+  readonly costPerUsefulSourceUsd: number | null;
+  readonly postsWithSourceCounts: number;
+}
+
+export interface AnalyticsQualitySummary {
+  readonly reviewer: {
+    readonly reviewedPosts: number;
+    readonly avgInitialIssues: number | null;
+    readonly avgRemainingIssues: number | null;
+    readonly approvalRate: number | null;
+  };
+  readonly fixer: {
+    /** Posts with at least one Fixer iteration */
+    readonly fixedPosts: number;
+    readonly avgIterations: number | null;
+    /** Posts with recorded outcome metrics */
+    readonly postsWithOutcomes: number;
+    readonly operationsAttempted: number;
+    readonly operationsSucceeded: number;
+    readonly operationSuccessRate: number | null;
+    readonly avgIssuesBefore: IssueSeverityCounts | null;
+    readonly avgIssuesAfter: IssueSeverityCounts | null;
+    readonly approvalRate: number | null;
+  };
+}
+
+export interface GenerationAnalytics {
+  readonly filters: AnalyticsQuery;
+  readonly totals: {
+    readonly posts: number;
+    readonly totalCostUsd: number;
+    readonly avgCostUsd: number | null;
+    readonly avgDurationMs: number | null;
+    /** Posts without a recorded total cost */
+    readonly unpricedPosts: number;
+  };
+  readonly byModel: readonly AnalyticsModelSummary[];
+  readonly byPhase: readonly AnalyticsPhaseSummary[];
+  readonly byCategory: readonly AnalyticsGroupSummary[];
+  readonly byGame: readonly AnalyticsGroupSummary[];
+  readonly byMonth: readonly AnalyticsGroupSummary[];
+  readonly search: readonly AnalyticsSearchSummary[];
+  readonly quality: AnalyticsQualitySummary;
+}
+
+/**
+ * Post row as read from the database (JSON columns may come back as strings).
+ */
+interface StoredPostRow {
+  documentId: string;
+  title: string;
+  aiGeneratedAt: string | null;
+  aiWorkflow: string | null;
+  aiModel: string | null;
+  costs: StoredCosts | string | null;
+  plan: StoredPlan | string | null;
+  promptVersions?: StoredPromptVersions | string | null;
+  category?: { slug: string } | null;
+  games?: Array<{ slug: string; name: string }> | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseJson<T>(value: T | string | null | undefined): T | null {
+  if (typeof value !== 'string') return value ?? null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function average(total: number, count: number): number | null {
+  return count > 0 ? total / count : null;
+}
+
+function sum(values: readonly number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function averageSeverity(counts: readonly IssueSeverityCounts[]): IssueSeverityCounts | null {
+  if (counts.length === 0) return null;
+  return {
+    critical: sum(counts.map((c) => c.critical)) / counts.length,
+    major: sum(counts.map((c) => c.major)) / counts.length,
+    minor: sum(counts.map((c) => c.minor)) / counts.length,
+    total: sum(counts.map((c) => c.total)) / counts.length,
+  };
+}
+
+/**
+ * Database `where` clause for the EN draft rows of AI-written posts.
+ */
+function buildWhere(query: AnalyticsQuery): Record<string, unknown> {
+  return {
+    aiAssisted: true,
+    locale: 'en',
+    publishedAt: { $null: true },
+    ...((query.from || query.to) && {
+      aiGeneratedAt: {
+        ...(query.from && { $gte: `${query.from}T00:00:00.000Z` }),
+        ...(query.to && { $lte: `${query.to}T23:59:59.999Z` }),
+      },
+    }),
+    ...(query.categorySlug && { category: { slug: query.categorySlug } }),
+    ...(query.gameSlug && { games: { slug: query.gameSlug } }),
+  };
+}
+
+/**
+ * Flattens a stored post into an analytics row.
+ * Returns null for posts without cost data.
+ */
+export function toAnalyticsPostRow(post: StoredPostRow): AnalyticsPostRow | null {
+  const costs = parseJson(post.costs);
+  if (!costs?.phases) return null;
+
+  const plan = parseJson(post.plan);
+  const models = parseJson<Record<string, string | undefined>>(post.aiModel);
+  const generatedAt = post.aiGeneratedAt ?? costs.generatedAt ?? null;
+  const game = post.games?.[0];
+
+  const phases: AnalyticsPostRow['phases'] = {};
+  for (const phase of TIMED_PHASES) {
+    const cost = costs.phases[phase];
+    if (!cost) continue;
+    phases[phase] = {
+      model: cost.model,
+      durationMs: cost.durationMs ?? 0,
+      costUsd: cost.costUsd ?? null,
+      inputTokens: cost.tokens?.input ?? 0,
+      outputTokens: cost.tokens?.output ?? 0,
+    };
+  }
+
+  const search: AnalyticsPostRow['search'] = {};
+  if (costs.search?.tavily) {
+    search.tavily = {
+      queries: costs.search.tavily.queries,
+      costUsd: costs.search.tavily.estimatedCostUsd,
+      usefulSources: costs.search.tavily.usefulSources ?? null,
+    };
+  }
+  if (costs.search?.exa) {
+    search.exa = {
+      queries: costs.search.exa.queries,
+      costUsd: costs.search.exa.costUsd,
+      usefulSources: costs.search.exa.usefulSources ?? null,
+    };
+  }
+
+  const quality = costs.quality;
+  const outcome = quality?.fixerOutcome;
+  const reviewed = phases.reviewer !== undefined;
+
+  return {
+    documentId: post.documentId,
+    title: post.title,
+    generatedAt,
+    month: generatedAt ? generatedAt.slice(0, 7) : UNKNOWN_KEY,
+    categorySlug: post.category?.slug ?? plan?.categorySlug ?? UNKNOWN_KEY,
+    gameSlug: game?.slug ?? UNKNOWN_KEY,
+    gameName: game?.name ?? plan?.gameName ?? UNKNOWN_KEY,
+    workflow: post.aiWorkflow,
+    totalCostUsd: costs.totalCostUsd ?? null,
+    totalDurationMs: costs.totalDurationMs ?? 0,
+    phases,
+    cleaner: costs.cleaner
+      ? {
+          model: models?.cleaner ?? null,
+          costUsd: costs.cleaner.costUsd ?? null,
+          inputTokens: costs.cleaner.tokens.input,
+          outputTokens: costs.cleaner.tokens.output,
+        }
+      : null,
+    search,
+    sourcesCollected: costs.research?.sourcesCollected ?? 0,
+    reviewed,
+    // Without Fixer outcomes the final review is also the first one
+    reviewerIssues: reviewed ? (outcome?.issuesBefore.total ?? quality?.remainingIssues ?? 0) : null,
+    remainingIssues: quality?.remainingIssues ?? 0,
+    approved: quality?.finalApproved ?? true,
+    fixerIterations: quality?.fixerIterations ?? 0,
+    fixerOperationsAttempted: outcome?.operationsAttempted ?? null,
+    fixerOperationsSucceeded: outcome?.operationsSucceeded ?? null,
+    issuesBefore: outcome?.issuesBefore ?? null,
+    issuesAfter: outcome?.issuesAfter ?? null,
+    validationWarnings: quality?.validationWarnings ?? null,
+    promptExperiment: parseJson(post.promptVersions)?.experiment ?? null,
+  };
+}
+
+/**
+ * Loads analytics rows for all AI-written posts matching the filters.
+ */
+export async function loadAnalyticsRows(strapi: Core.Strapi, query: AnalyticsQuery): Promise<AnalyticsPostRow[]> {
+  const where = buildWhere(query);
+  const rows: AnalyticsPostRow[] = [];
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const posts = (await strapi.db.query(POST_UID).findMany({
+      where,
+      select: ['documentId', 'title', 'aiGeneratedAt', 'aiWorkflow', 'aiModel', 'costs', 'plan', 'promptVersions'],
+      populate: { category: { select: ['slug'] }, games: { select: ['slug', 'name'] } },
+      orderBy: { aiGeneratedAt: 'asc' },
+      offset,
+      limit: BATCH_SIZE,
+    })) as StoredPostRow[];
+
+    for (const post of posts) {
+      const row = toAnalyticsPostRow(post);
+      if (row) rows.push(row);
+    }
+    if (posts.length < BATCH_SIZE) break;
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function summarizeGroups(
+  rows: readonly AnalyticsPostRow[],
+  getKey: (row: AnalyticsPostRow) => string,
+  getLabel: (row: AnalyticsPostRow) => string = getKey
+): AnalyticsGroupSummary[] {
+  const groups = new Map<string, AnalyticsPostRow[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const priced = group.filter((r) => r.totalCostUsd !== null);
+      const totalCostUsd = sum(priced.map((r) => r.totalCostUsd!));
+      return {
+        key,
+        label: getLabel(group[0]),
+        posts: group.length,
+        totalCostUsd,
+        avgCostUsd: average(totalCostUsd, priced.length),
+        avgDurationMs: sum(group.map((r) => r.totalDurationMs)) / group.length,
+      };
+    })
+    .sort((a, b) => b.totalCostUsd - a.totalCostUsd);
+}
+
+function summarizeModels(rows: readonly AnalyticsPostRow[]): AnalyticsModelSummary[] {
+  const models = new Map<
+    string,
+    { phases: Set<string>; runs: number; inputTokens: number; outputTokens: number; costUsd: number; pricedRuns: number }
+  >();
+
+  const add = (model: string, phase: string, costUsd: number | null, inputTokens: number, outputTokens: number) => {
+    const entry = models.get(model) ?? { phases: new Set(), runs: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, pricedRuns: 0 };
+    entry.phases.add(phase);
+    entry.runs++;
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    if (costUsd !== null) {
+      entry.costUsd += costUsd;
+      entry.pricedRuns++;
+    }
+    models.set(model, entry);
+  };
+
+  for (const row of rows) {
+    for (const [phase, cost] of Object.entries(row.phases)) {
+      add(cost.model, phase, cost.costUsd, cost.inputTokens, cost.outputTokens);
+    }
+    if (row.cleaner) {
+      add(row.cleaner.model ?? UNKNOWN_KEY, 'cleaner', row.cleaner.costUsd, row.cleaner.inputTokens, row.cleaner.outputTokens);
+    }
+  }
+
+  return [...models.entries()]
+    .map(([model, entry]) => ({
+      model,
+      phases: [...entry.phases],
+      runs: entry.runs,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      totalCostUsd: entry.costUsd,
+      unpricedRuns: entry.runs - entry.pricedRuns,
+      avgCostPerRunUsd: average(entry.costUsd, entry.pricedRuns),
+    }))
+    .sort((a, b) => b.totalCostUsd - a.totalCostUsd);
+}
+
+function summarizePhases(rows: readonly AnalyticsPostRow[]): AnalyticsPhaseSummary[] {
+  const summaries: AnalyticsPhaseSummary[] = TIMED_PHASES.map((phase) => {
+    const runs = rows.map((r) => r.phases[phase]).filter((p) => p !== undefined);
+    const costs = runs.map((p) => p.costUsd).filter((c): c is number => c !== null);
+    const durations = runs.map((p) => p.durationMs);
+    return {
+      phase,
+      runs: runs.length,
+      totalCostUsd: sum(costs),
+      avgCostUsd: average(sum(costs), costs.length),
+      avgDurationMs: average(sum(durations), durations.length),
+      maxDurationMs: durations.length > 0 ? Math.max(...durations) : null,
+    };
+  });
+
+  const cleanerCosts = rows.map((r) => r.cleaner?.costUsd).filter((c): c is number => c != null);
+  summaries.push({
+    phase: 'cleaner',
+    runs: rows.filter((r) => r.cleaner).length,
+    totalCostUsd: sum(cleanerCosts),
+    avgCostUsd: average(sum(cleanerCosts), cleanerCosts.length),
+    avgDurationMs: null,
+    maxDurationMs: null,
+  });
+
+  return summaries;
+}
+
+function summarizeSearch(rows: readonly AnalyticsPostRow[]): AnalyticsSearchSummary[] {
+  return (['tavily', 'exa'] as const).map((engine) => {
+    const runs = rows.map((r) => r.search[engine]).filter((s) => s !== undefined);
+    const withSources = runs.filter((s) => s.usefulSources !== null);
+    const queries = sum(runs.map((s) => s.queries));
+    const totalCostUsd = sum(runs.map((s) => s.costUsd));
+    const usefulSources = sum(withSources.map((s) => s.usefulSources!));
+    return {
+      engine,
+      posts: runs.length,
+      queries,
+      totalCostUsd,
+      avgCostPerQueryUsd: average(totalCostUsd, queries),
+      usefulSources,
+      costPerUsefulSourceUsd: average(sum(withSources.map((s) => s.costUsd)), usefulSources),
+      postsWithSourceCounts: withSources.length,
+    };
+  });
+}
+
+function summarizeQuality(rows: readonly AnalyticsPostRow[]): AnalyticsQualitySummary {
+  const reviewed = rows.filter((r) => r.reviewed);
+  const fixed = rows.filter((r) => r.fixerIterations > 0);
+  const withOutcomes = fixed.filter((r) => r.fixerOperationsAttempted !== null);
+  const operationsAttempted = sum(withOutcomes.map((r) => r.fixerOperationsAttempted!));
+  const operationsSucceeded = sum(withOutcomes.map((r) => r.fixerOperationsSucceeded!));
+
+  return {
+    reviewer: {
+      reviewedPosts: reviewed.length,
+      avgInitialIssues: average(sum(reviewed.map((r) => r.reviewerIssues!)), reviewed.length),
+      avgRemainingIssues: average(sum(reviewed.map((r) => r.remainingIssues)), reviewed.length),
+      approvalRate: average(reviewed.filter((r) => r.approved).length, reviewed.length),
+    },
+    fixer: {
+      fixedPosts: fixed.length,
+      avgIterations: average(sum(fixed.map((r) => r.fixerIterations)), fixed.length),
+      postsWithOutcomes: withOutcomes.length,
+      operationsAttempted,
+      operationsSucceeded,
+      operationSuccessRate: average(operationsSucceeded, operationsAttempted),
+      avgIssuesBefore: averageSeverity(withOutcomes.map((r) => r.issuesBefore!)),
+      avgIssuesAfter: averageSeverity(withOutcomes.map((r) => r.issuesAfter!)),
+      approvalRate: average(fixed.filter((r) => r.approved).length, fixed.length),
+    },
+  };
+}
+
+/**
+ * Aggregates analytics rows into the dashboard summary.
+ */
+export function summarizeGenerationAnalytics(
+  rows: readonly AnalyticsPostRow[],
+  filters: AnalyticsQuery = {}
+): GenerationAnalytics {
+  const priced = rows.filter((r) => r.totalCostUsd !== null);
+  const totalCostUsd = sum(priced.map((r) => r.totalCostUsd!));
+
+  return {
+    filters,
+    totals: {
+      posts: rows.length,
+      totalCostUsd,
+      avgCostUsd: average(totalCostUsd, priced.length),
+      avgDurationMs: average(sum(rows.map((r) => r.totalDurationMs)), rows.length),
+      unpricedPosts: rows.length - priced.length,
+    },
+    byModel: summarizeModels(rows),
+    byPhase: summarizePhases(rows),
+    byCategory: summarizeGroups(rows, (r) => r.categorySlug),
+    byGame: summarizeGroups(rows, (r) => r.gameSlug, (r) => r.gameName),
+    byMonth: summarizeGroups(rows, (r) => r.month).sort((a, b) => a.key.localeCompare(b.key)),
+    search: summarizeSearch(rows),
+    quality: summarizeQuality(rows),
+  };
+}
+
+/**
+ * Loads and aggregates analytics for AI-written posts.
+ */
+export async function getGenerationAnalytics(strapi: Core.Strapi, query: AnalyticsQuery): Promise<GenerationAnalytics> {
+  return summarizeGenerationAnalytics(await loadAnalyticsRows(strapi, query), query);
+}
+
+// ============================================================================
+// CSV Export
+// ============================================================================
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Escapes one CSV cell (RFC 4180). Text starting with a formula character is
+ * prefixed with a quote so spreadsheets don't evaluate it.
+ */
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: readonly string[], rows: readonly (readonly CsvValue[])[]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+function groupCsv(groups: readonly AnalyticsGroupSummary[]): string {
+  return toCsv(
+    ['key', 'label', 'posts', 'total_cost_usd', 'avg_cost_usd', 'avg_duration_ms'],
+    groups.map((g) => [g.key, g.label, g.posts, g.totalCostUsd, g.avgCostUsd, Math.round(g.avgDurationMs)])
+  );
+}
+
+function postsCsv(rows: readonly AnalyticsPostRow[]): string {
+  const phaseHeaders = TIMED_PHASES.flatMap((phase) => [`${phase}_model`, `${phase}_cost_usd`, `${phase}_duration_ms`]);
+  return toCsv(
+    [
+      'document_id', 'title', 'generated_at', 'category', 'game', 'workflow', 'total_cost_usd', 'total_duration_ms',
+      ...phaseHeaders,
+      'cleaner_model', 'cleaner_cost_usd',
+      'tavily_queries', 'tavily_cost_usd', 'tavily_useful_sources',
+      'exa_queries', 'exa_cost_usd', 'exa_useful_sources',
+      'sources_collected', 'reviewer_issues', 'remaining_issues', 'approved',
+      'fixer_iterations', 'fixer_operations_attempted', 'fixer_operations_succeeded',
+    ],
+    rows.map((r) => [
+      r.documentId, r.title, r.generatedAt, r.categorySlug, r.gameSlug, r.workflow, r.totalCostUsd, r.totalDurationMs,
+      ...TIMED_PHASES.flatMap((phase) => [r.phases[phase]?.model, r.phases[phase]?.costUsd, r.phases[phase]?.durationMs]),
+      r.cleaner?.model, r.cleaner?.costUsd,
+      r.search.tavily?.queries, r.search.tavily?.costUsd, r.search.tavily?.usefulSources,
+      r.search.exa?.queries, r.search.exa?.costUsd, r.search.exa?.usefulSources,
+      r.sourcesCollected, r.reviewerIssues, r.remainingIssues, r.approved,
+      r.fixerIterations, r.fixerOperationsAttempted, r.fixerOperationsSucceeded,
+    ])
+  );
+}
+
+/**
+ * Renders one analytics view as CSV.
+ */
+export function buildAnalyticsCsv(rows: readonly AnalyticsPostRow[], view: AnalyticsExportView): string {
+  if (view === 'posts') return postsCsv(rows);
+
+  const analytics = summarizeGenerationAnalytics(rows);
+  switch (view) {
+    case 'models':
+      return toCsv(
+        ['model', 'phases', 'runs', 'input_tokens', 'output_tokens', 'total_cost_usd', 'unpriced_runs', 'avg_cost_per_run_usd'],
+        analytics.byModel.map((m) => [
+          m.model, m.phases.join(' '), m.runs, m.inputTokens, m.outputTokens, m.totalCostUsd, m.unpricedRuns, m.avgCostPerRunUsd,
+        ])
+      );
+    case 'phases':
+      return toCsv(
+        ['phase', 'runs', 'total_cost_usd', 'avg_cost_usd', 'avg_duration_ms', 'max_duration_ms'],
+        analytics.byPhase.map((p) => [
+          p.phase, p.runs, p.totalCostUsd, p.avgCostUsd, p.avgDurationMs === null ? null : Math.round(p.avgDurationMs), p.maxDurationMs,
+        ])
+      );
+    case 'search':
+      return toCsv(
+        ['engine', 'posts', 'queries', 'total_cost_usd', 'avg_cost_per_query_usd', 'useful_sources', 'cost_per_useful_source_usd', 'posts_with_source_counts'],
+        analytics.search.map((s) => [
+          s.engine, s.posts, s.queries, s.totalCostUsd, s.avgCostPerQueryUsd, s.usefulSources, s.costPerUsefulSourceUsd, s.postsWithSourceCounts,
+        ])
+      );
+    case 'categories':
+      return groupCsv(analytics.byCategory);
+    case 'games':
+      return groupCsv(analytics.byGame);
+    case 'months':
+      return groupCsv(analytics.byMonth);
+  }
+}
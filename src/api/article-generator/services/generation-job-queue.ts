@@ -0,0 +1,459 @@
+/**
+ * Generation Job Queue
+ *
+ * Runs article generation in the background instead of inside the HTTP request.
+ * Each job is persisted as an `api::generation-job.generation-job` document:
+ * every progress event is appended to the job's `events` so clients can poll
+ * the job or reattach to its SSE stream after a dropped connection.
+ *
+ * Jobs run in-process with bounded concurrency. Running jobs can be cancelled
+ * through their AbortSignal. On startup, `recover()` re-queues jobs that a
+ * restart left unfinished (or marks them failed once out of attempts).
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import { ArticleGenerationError, type CostBudgetReport } from '../../../ai/articles/types';
+import {
+  buildCompleteEvent,
+  generateRequestSchema,
+  runArticleGeneration,
+  type ArticleGenerationRunResult,
+  type GenerateArticleRequest,
+} from './article-generation-runner';
+import type {
+  GenerationJobDocument,
+  GenerationJobResult,
+  GenerationJobStatus,
+  SSEEvent,
+  StrapiDocumentService,
+} from '../types';
+import { emitWebhookEvent } from '../../webhook-subscription/services/webhook-dispatcher';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const JOB_UID = 'api::generation-job.generation-job';
+
+/** Jobs run one at a time unless ARTICLE_JOB_CONCURRENCY says otherwise */
+const DEFAULT_CONCURRENCY = 1;
+
+/** A job interrupted by a restart is retried once before being marked failed */
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+const TERMINAL_STATUSES: ReadonlySet<GenerationJobStatus> = new Set(['completed', 'failed', 'cancelled']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Receives each job event as it is recorded.
+ * `index` is the event's position in the job's stored `events` array.
+ */
+export type GenerationJobListener = (event: SSEEvent, index: number) => void;
+
+/**
+ * Dependencies and settings that can be injected for testing.
+ */
+export interface GenerationJobQueueOptions {
+  readonly run?: typeof runArticleGeneration;
+  readonly concurrency?: number;
+  readonly maxAttempts?: number;
+}
+
+/**
+ * Outcome of startup recovery.
+ */
+export interface GenerationJobRecoveryResult {
+  readonly requeued: number;
+  readonly failed: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a job status is final (no more events will be recorded).
+ */
+export function isTerminalJobStatus(status: GenerationJobStatus): boolean {
+  return TERMINAL_STATUSES.has(status);
+}
+
+/**
+ * Whether an event ends a job's event stream.
+ */
+export function isTerminalJobEvent(event: SSEEvent): boolean {
+  return event.type === 'complete' || event.type === 'error';
+}
+
+function toJobResult(result: ArticleGenerationRunResult): GenerationJobResult {
+  return {
+    post: { id: result.post.id, documentId: result.post.documentId },
+    game: result.game,
+    title: result.draft.title,
+    categorySlug: result.draft.categorySlug,
+    published: result.published,
+    ...(result.publishError !== undefined && { publishError: result.publishError }),
+    totalDurationMs: result.draft.metadata.totalDurationMs,
+    totalCostUsd: result.draft.metadata.totalEstimatedCostUsd,
+  };
+}
+
+function errorEvent(code: string, message: string, costReport?: CostBudgetReport): SSEEvent {
+  return { type: 'error', code, message, ...(costReport && { costReport }), timestamp: new Date().toISOString() };
+}
+
+function readConcurrencyFromEnv(): number {
+  const parsed = Number.parseInt(process.env.ARTICLE_JOB_CONCURRENCY ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * In-process worker for persisted article generation jobs.
+ */
+export class GenerationJobQueue {
+  private readonly pending: string[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly listeners = new Map<string, Set<GenerationJobListener>>();
+  /** In-memory events of running jobs (persistence may lag slightly behind) */
+  private readonly liveEvents = new Map<string, SSEEvent[]>();
+  private readonly run: typeof runArticleGeneration;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly strapi: Core.Strapi,
+    options: GenerationJobQueueOptions = {}
+  ) {
+    this.run = options.run ?? runArticleGeneration;
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  }
+
+  private get jobs(): StrapiDocumentService<GenerationJobDocument> {
+    return this.strapi.documents(JOB_UID as any) as unknown as StrapiDocumentService<GenerationJobDocument>;
+  }
+
+  /**
+   * Persist a new job and schedule it. Returns as soon as the job is stored.
+   */
+  async enqueue(request: GenerateArticleRequest): Promise<GenerationJobDocument> {
+    const job = await this.jobs.create({
+      data: {
+        status: 'queued',
+        request: request as Record<string, unknown>,
+        events: [{ type: 'queued', timestamp: new Date().toISOString() }],
+        progress: 0,
+        attempts: 0,
+        maxAttempts: this.maxAttempts,
+      },
+    });
+
+    this.strapi.log.info(`[GenerationJobs] Queued job ${job.documentId}`);
+    this.schedule(job.documentId);
+    return job;
+  }
+
+  /**
+   * Load a job by documentId.
+   */
+  async get(documentId: string): Promise<GenerationJobDocument | null> {
+    return this.jobs.findOne({ documentId, populate: ['post'] } as any);
+  }
+
+  /**
+   * List jobs, newest first.
+   */
+  async list(options: { status?: GenerationJobStatus; limit?: number } = {}): Promise<GenerationJobDocument[]> {
+    return this.jobs.findMany({
+      ...(options.status && { filters: { status: options.status } }),
+      sort: ['createdAt:desc'],
+      limit: options.limit ?? 25,
+    } as any);
+  }
+
+  /**
+   * Subscribe to live events for a job. Returns an unsubscribe function.
+   */
+  subscribe(documentId: string, listener: GenerationJobListener): () => void {
+    let set = this.listeners.get(documentId);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(documentId, set);
+    }
+    set.add(listener);
+
+    return () => {
+      const current = this.listeners.get(documentId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(documentId);
+      }
+    };
+  }
+
+  /**
+   * All events recorded for a job so far, preferring the in-memory copy of a
+   * running job over the stored one.
+   */
+  getEvents(job: GenerationJobDocument): SSEEvent[] {
+    return [...(this.liveEvents.get(job.documentId) ?? job.events ?? [])];
+  }
+
+  /**
+   * Whether this process is running or holding the job in its queue.
+   */
+  isActive(documentId: string): boolean {
+    return this.controllers.has(documentId) || this.pending.includes(documentId);
+  }
+
+  /**
+   * Cancel a job. Running jobs are aborted through their signal and finalized
+   * by the worker; queued jobs are finalized immediately.
+   *
+   * @returns The job as it stands after the request, or null if it doesn't exist
+   */
+  async cancel(documentId: string): Promise<GenerationJobDocument | null> {
+    const job = await this.get(documentId);
+    if (!job || isTerminalJobStatus(job.status)) {
+      return job;
+    }
+
+    const controller = this.controllers.get(documentId);
+    if (controller) {
+      this.strapi.log.info(`[GenerationJobs] Cancelling running job ${documentId}`);
+      controller.abort();
+      return job;
+    }
+
+    const index = this.pending.indexOf(documentId);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+    }
+
+    this.strapi.log.info(`[GenerationJobs] Cancelled job ${documentId} before it started`);
+    return this.finish(documentId, [...(job.events ?? [])], 'cancelled', {
+      event: errorEvent('CANCELLED', 'Job was cancelled before it started'),
+    });
+  }
+
+  /**
+   * Resume jobs left unfinished by a previous process.
+   *
+   * Queued jobs are scheduled again. Jobs that were running are re-queued while
+   * they have attempts left, otherwise marked failed with code `INTERRUPTED`.
+   */
+  async recover(): Promise<GenerationJobRecoveryResult> {
+    const unfinished = await this.jobs.findMany({
+      filters: { status: { $in: ['queued', 'running'] } },
+      sort: ['createdAt:asc'],
+    } as any);
+
+    let requeued = 0;
+    let failed = 0;
+
+    for (const job of unfinished) {
+      if (this.isActive(job.documentId)) continue;
+
+      if (job.status === 'running' && job.attempts >= job.maxAttempts) {
+        await this.finish(job.documentId, [...(job.events ?? [])], 'failed', {
+          event: errorEvent(
+            'INTERRUPTED',
+            `Job was interrupted by a server restart after ${job.attempts} attempt(s)`
+          ),
+        });
+        failed++;
+        continue;
+      }
+
+      if (job.status === 'running') {
+        await this.jobs.update({ documentId: job.documentId, data: { status: 'queued' } });
+      }
+      this.schedule(job.documentId);
+      requeued++;
+    }
+
+    if (requeued > 0 || failed > 0) {
+      this.strapi.log.info(`[GenerationJobs] Recovered jobs: ${requeued} re-queued, ${failed} failed`);
+    }
+
+    return { requeued, failed };
+  }
+
+  // ===== Internals =====
+
+  private schedule(documentId: string): void {
+    if (!this.pending.includes(documentId)) {
+      this.pending.push(documentId);
+    }
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.controllers.size < this.concurrency && this.pending.length > 0) {
+      const documentId = this.pending.shift() as string;
+      // Register before the async work starts so concurrency is respected
+      this.controllers.set(documentId, new AbortController());
+      void this.execute(documentId);
+    }
+  }
+
+  private notify(documentId: string, event: SSEEvent, index: number): void {
+    const set = this.listeners.get(documentId);
+    if (!set) return;
+    for (const listener of set) {
+      try {
+        listener(event, index);
+      } catch {
+        // A broken subscriber must not break the job
+      }
+    }
+  }
+
+  /**
+   * Append a terminal event and write the final job state.
+   */
+  private async finish(
+    documentId: string,
+    events: SSEEvent[],
+    status: GenerationJobStatus,
+    outcome: { event: SSEEvent; result?: GenerationJobResult }
+  ): Promise<GenerationJobDocument> {
+    events.push(outcome.event);
+    this.notify(documentId, outcome.event, events.length - 1);
+
+    const data: Record<string, unknown> = {
+      status,
+      events,
+      finishedAt: new Date().toISOString(),
+    };
+    if (outcome.event.type === 'error') {
+      data.errorCode = outcome.event.code;
+      data.errorMessage = outcome.event.message;
+    }
+    if (outcome.result) {
+      data.result = outcome.result;
+      data.progress = 100;
+      data.post = { connect: [outcome.result.post.documentId] };
+    }
+
+    return this.jobs.update({ documentId, data: data as Partial<GenerationJobDocument> });
+  }
+
+  private async execute(documentId: string): Promise<void> {
+    const controller = this.controllers.get(documentId) as AbortController;
+
+    try {
+      const job = await this.jobs.findOne({ documentId } as any);
+      // Cancelled (or removed) while waiting in the queue
+      if (!job || job.status !== 'queued') return;
+
+      const events: SSEEvent[] = [...(job.events ?? [])];
+      this.liveEvents.set(documentId, events);
+
+      const parsed = generateRequestSchema.safeParse(job.request ?? {});
+      if (!parsed.success) {
+        await this.finish(documentId, events, 'failed', {
+          event: errorEvent('BAD_REQUEST', `Invalid job request: ${parsed.error.message}`),
+        });
+        return;
+      }
+
+      await this.jobs.update({
+        documentId,
+        data: {
+          status: 'running',
+          attempts: job.attempts + 1,
+          startedAt: new Date().toISOString(),
+          errorCode: null,
+          errorMessage: null,
+        },
+      });
+      this.strapi.log.info(`[GenerationJobs] Started job ${documentId} (attempt ${job.attempts + 1}/${job.maxAttempts})`);
+
+      // Writes are chained so events are persisted in order without blocking the pipeline
+      let persisted: Promise<unknown> = Promise.resolve();
+      const record = (event: SSEEvent) => {
+        events.push(event);
+        this.notify(documentId, event, events.length - 1);
+
+        const snapshot = [...events];
+        const progressFields =
+          event.type === 'progress' ? { currentPhase: event.phase, progress: event.progress } : {};
+        persisted = persisted
+          .then(() => this.jobs.update({ documentId, data: { events: snapshot, ...progressFields } }))
+          .catch((err) => {
+            const msg = err instanceof Error ? err.message : String(err);
+            this.strapi.log.warn(`[GenerationJobs] Failed to persist event for ${documentId}: ${msg}`);
+          });
+      };
+
+      try {
+        const result = await this.run(this.strapi, parsed.data, {
+          onEvent: record,
+          signal: controller.signal,
+        });
+        await persisted;
+        await this.finish(documentId, events, 'completed', {
+          event: buildCompleteEvent(result),
+          result: toJobResult(result),
+        });
+        this.strapi.log.info(`[GenerationJobs] Completed job ${documentId} (post ${result.post.documentId})`);
+      } catch (error) {
+        await persisted;
+        const cancelled =
+          controller.signal.aborted ||
+          (error instanceof ArticleGenerationError && error.code === 'CANCELLED');
+        const message = error instanceof Error ? error.message : String(error);
+        const code = cancelled ? 'CANCELLED' : ((error as any)?.code ?? 'GENERATION_FAILED');
+
+        await this.finish(documentId, events, cancelled ? 'cancelled' : 'failed', {
+          event: errorEvent(code, message, error instanceof ArticleGenerationError ? error.costReport : undefined),
+        });
+        if (cancelled) {
+          this.strapi.log.info(`[GenerationJobs] Cancelled job ${documentId}`);
+        } else {
+          this.strapi.log.error(`[GenerationJobs] Job ${documentId} failed (${code}): ${message}`);
+          emitWebhookEvent(this.strapi, 'article.generation.failed', {
+            jobId: documentId,
+            code,
+            message,
+            request: parsed.data as Record<string, unknown>,
+          });
+        }
+      }
+    } catch (error) {
+      // Storage failure - the job stays unfinished and is picked up by recover() on restart
+      const msg = error instanceof Error ? error.message : String(error);
+      this.strapi.log.error(`[GenerationJobs] Could not run job ${documentId}: ${msg}`);
+    } finally {
+      this.controllers.delete(documentId);
+      this.liveEvents.delete(documentId);
+      this.drain();
+    }
+  }
+}
+
+// ============================================================================
+// Shared instance
+// ============================================================================
+
+let sharedQueue: GenerationJobQueue | null = null;
+
+/**
+ * Get the process-wide job queue used by the controller and bootstrap.
+ */
+export function getGenerationJobQueue(strapi: Core.Strapi): GenerationJobQueue {
+  if (!sharedQueue) {
+    sharedQueue = new GenerationJobQueue(strapi, { concurrency: readConcurrencyFromEnv() });
+  }
+  return sharedQueue;
+}
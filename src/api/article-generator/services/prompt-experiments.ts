@@ -0,0 +1,231 @@
+/**
+ * Prompt Experiments Service
+ *
+ * A/B tests prompt versions on live generation traffic. An active experiment
+ * splits matching requests between its arms by weight; each arm runs a set of
+ * prompt versions from the prompt registry. The chosen versions and arm are
+ * stored on the post (`promptVersions`), and the report compares the arms on
+ * Reviewer issues, validation warnings, cost and editor acceptance.
+ *
+ * Editor acceptance is the share of an arm's posts that an editor published.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import type { ArticleCategorySlug } from '../../../ai/articles/article-plan';
+import { validatePromptVersions, type PromptVersions } from '../../../ai/articles/prompts/registry';
+import { ArticleGenerationError, isArticleGenerationError } from '../../../ai/articles/types';
+import { loadAnalyticsRows, type AnalyticsPostRow } from './generation-analytics';
+import type { PromptExperimentArm, PromptExperimentDocument, StrapiDocumentService } from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXPERIMENT_UID = 'api::prompt-experiment.prompt-experiment';
+const POST_UID = 'api::post.post';
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const promptExperimentArmSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50),
+    weight: z.number().positive().default(1),
+    promptVersions: z.record(z.string(), z.string().min(1)),
+  })
+  .strict();
+
+const promptExperimentArmsSchema = z
+  .array(promptExperimentArmSchema)
+  .min(2)
+  .refine((arms) => new Set(arms.map((arm) => arm.name)).size === arms.length, {
+    message: 'Arm names must be unique',
+  });
+
+/**
+ * Validates an experiment's arms: at least two uniquely named arms whose
+ * prompt versions exist for the experiment's category (or every category).
+ *
+ * @returns The arms with default weights applied
+ * @throws ArticleGenerationError with 'CONFIG_ERROR' when the arms are invalid
+ */
+export function validatePromptExperimentArms(
+  arms: unknown,
+  categorySlug?: ArticleCategorySlug | null
+): PromptExperimentArm[] {
+  const result = promptExperimentArmsSchema.safeParse(arms);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `arms.${issue.path.join('.')}` : 'arms';
+    throw new ArticleGenerationError('CONFIG_ERROR', `Invalid prompt experiment ${path}: ${issue.message}`);
+  }
+
+  for (const arm of result.data) {
+    try {
+      validatePromptVersions(arm.promptVersions as PromptVersions, categorySlug ?? undefined);
+    } catch (error) {
+      if (isArticleGenerationError(error)) {
+        throw new ArticleGenerationError('CONFIG_ERROR', `Invalid prompt experiment arm "${arm.name}": ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  return result.data as PromptExperimentArm[];
+}
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+/**
+ * Picks an arm by weight. The same key always gets the same arm.
+ */
+export function assignExperimentArm(arms: readonly PromptExperimentArm[], key: string): PromptExperimentArm {
+  const totalWeight = arms.reduce((total, arm) => total + arm.weight, 0);
+  // First 52 bits of the hash, scaled to [0, 1)
+  const point = (parseInt(createHash('sha256').update(key).digest('hex').slice(0, 13), 16) / 2 ** 52) * totalWeight;
+
+  let cumulative = 0;
+  for (const arm of arms) {
+    cumulative += arm.weight;
+    if (point < cumulative) return arm;
+  }
+  return arms[arms.length - 1];
+}
+
+/**
+ * Finds the active experiment for a request: one targeting the requested
+ * category, or one without a category. The most recently updated wins.
+ * Experiments with invalid stored arms are skipped with a warning.
+ */
+export async function selectActivePromptExperiment(
+  strapi: Core.Strapi,
+  categorySlug?: ArticleCategorySlug
+): Promise<{ experiment: PromptExperimentDocument; arms: PromptExperimentArm[] } | undefined> {
+  const experimentService = strapi.documents(EXPERIMENT_UID) as unknown as StrapiDocumentService<PromptExperimentDocument>;
+
+  const experiments = await experimentService.findMany({
+    filters: {
+      active: true,
+      $or: [{ categorySlug: { $null: true } }, ...(categorySlug ? [{ categorySlug }] : [])],
+    },
+    sort: ['updatedAt:desc'],
+  } as any);
+
+  for (const experiment of experiments) {
+    try {
+      return { experiment, arms: validatePromptExperimentArms(experiment.arms, experiment.categorySlug) };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      strapi.log.warn(`[PromptExperiments] Skipping experiment "${experiment.slug}": ${msg}`);
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+export interface PromptExperimentArmReport {
+  readonly arm: string;
+  /** Versions currently configured for the arm (null if the arm was removed) */
+  readonly promptVersions: PromptVersions | null;
+  readonly posts: number;
+  /** Posts an editor published */
+  readonly published: number;
+  readonly acceptanceRate: number | null;
+  readonly avgReviewerIssues: number | null;
+  readonly avgRemainingIssues: number | null;
+  readonly avgValidationWarnings: number | null;
+  readonly totalCostUsd: number;
+  readonly avgCostUsd: number | null;
+}
+
+export interface PromptExperimentReport {
+  readonly experiment: { slug: string; name: string; active: boolean; categorySlug: string | null };
+  readonly arms: readonly PromptExperimentArmReport[];
+}
+
+function average(values: readonly number[]): number | null {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+}
+
+/**
+ * Compares an experiment's arms. Metrics a post did not record are averaged
+ * over the posts that have them.
+ *
+ * @param publishedDocumentIds - Posts that have a published row
+ */
+export function summarizePromptExperiment(
+  experiment: PromptExperimentDocument,
+  rows: readonly AnalyticsPostRow[],
+  publishedDocumentIds: ReadonlySet<string>
+): PromptExperimentReport {
+  const configuredArms = Array.isArray(experiment.arms) ? experiment.arms : [];
+  const armNames = [...new Set([...configuredArms.map((arm) => arm.name), ...rows.map((r) => r.promptExperiment!.arm)])];
+
+  return {
+    experiment: {
+      slug: experiment.slug,
+      name: experiment.name,
+      active: experiment.active,
+      categorySlug: experiment.categorySlug,
+    },
+    arms: armNames.map((arm) => {
+      const armRows = rows.filter((r) => r.promptExperiment?.arm === arm);
+      const reviewed = armRows.filter((r) => r.reviewerIssues !== null);
+      const costs = armRows.map((r) => r.totalCostUsd).filter((c): c is number => c !== null);
+      const published = armRows.filter((r) => publishedDocumentIds.has(r.documentId)).length;
+      return {
+        arm,
+        promptVersions: configuredArms.find((a) => a.name === arm)?.promptVersions ?? null,
+        posts: armRows.length,
+        published,
+        acceptanceRate: armRows.length > 0 ? published / armRows.length : null,
+        avgReviewerIssues: average(reviewed.map((r) => r.reviewerIssues!)),
+        avgRemainingIssues: average(reviewed.map((r) => r.remainingIssues)),
+        avgValidationWarnings: average(
+          armRows.map((r) => r.validationWarnings).filter((w): w is number => w !== null)
+        ),
+        totalCostUsd: costs.reduce((total, cost) => total + cost, 0),
+        avgCostUsd: average(costs),
+      };
+    }),
+  };
+}
+
+/**
+ * Loads and compares the arms of an experiment.
+ * Returns null if the experiment does not exist.
+ */
+export async function getPromptExperimentReport(
+  strapi: Core.Strapi,
+  slug: string
+): Promise<PromptExperimentReport | null> {
+  const experimentService = strapi.documents(EXPERIMENT_UID) as unknown as StrapiDocumentService<PromptExperimentDocument>;
+  const [experiment] = await experimentService.findMany({ filters: { slug }, limit: 1 } as any);
+  if (!experiment) return null;
+
+  const rows = (await loadAnalyticsRows(strapi, {})).filter((r) => r.promptExperiment?.slug === slug);
+
+  const publishedDocumentIds = new Set<string>();
+  if (rows.length > 0) {
+    const published = (await strapi.db.query(POST_UID).findMany({
+      where: {
+        documentId: { $in: rows.map((r) => r.documentId) },
+        locale: 'en',
+        publishedAt: { $notNull: true },
+      },
+      select: ['documentId'],
+    })) as Array<{ documentId: string }>;
+    for (const post of published) publishedDocumentIds.add(post.documentId);
+  }
+
+  return summarizePromptExperiment(experiment, rows, publishedDocumentIds);
+}
@@ -1,10 +1,25 @@
 import type { DocumentQueryOptions } from '../../types/strapi';
-import type { ArticleGenerationPhase } from '../../ai/articles/types';
+import type {
+  ArticleGenerationPhase,
+  BudgetDegradation,
+  CostBudgetReport,
+  FixerOutcomeMetrics,
+} from '../../ai/articles/types';
+import type { GenerationProfileSettings } from '../../ai/articles/generation-profile';
+import type { PromptAgent, PromptVersions } from '../../ai/articles/prompts/registry';
 
 /**
  * SSE Event Types for article generation progress streaming.
  */
-export type SSEEventType = 'progress' | 'complete' | 'error' | 'start';
+export type SSEEventType = 'queued' | 'progress' | 'complete' | 'error' | 'start';
+
+/**
+ * Emitted once when a background job is accepted into the queue.
+ */
+export interface SSEQueuedEvent {
+  type: 'queued';
+  timestamp: string;
+}
 
 export interface SSEProgressEvent {
   type: 'progress';
@@ -46,10 +61,12 @@ export interface SSEErrorEvent {
   type: 'error';
   code: string;
   message: string;
+  /** Partial costs when the run stopped with BUDGET_EXCEEDED */
+  costReport?: CostBudgetReport;
   timestamp: string;
 }
 
-export type SSEEvent = SSEProgressEvent | SSEStartEvent | SSECompleteEvent | SSEErrorEvent;
+export type SSEEvent = SSEQueuedEvent | SSEProgressEvent | SSEStartEvent | SSECompleteEvent | SSEErrorEvent;
 
 /**
  * Strapi document types used by the article generator.
@@ -89,6 +106,117 @@ export type StrapiDocumentService<T> = {
   publish(options: { documentId: string; locale?: string }): Promise<T>;
 };
 
+/**
+ * Lifecycle status of a background generation job.
+ */
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Summary of a finished job stored on the job record.
+ * The full article lives on the linked Post.
+ */
+export interface GenerationJobResult {
+  post: { id: number; documentId: string };
+  game: { documentId: string; name: string; slug: string };
+  title: string;
+  categorySlug: string;
+  published: boolean;
+  publishError?: string;
+  totalDurationMs: number;
+  totalCostUsd?: number;
+}
+
+/**
+ * Generation job document (api::generation-job.generation-job).
+ */
+export interface GenerationJobDocument {
+  id: number;
+  documentId: string;
+  status: GenerationJobStatus;
+  /** Validated generation request body */
+  request: Record<string, unknown>;
+  /** Every SSE event emitted for the job, in order (index = SSE event id) */
+  events: SSEEvent[] | null;
+  currentPhase: string | null;
+  progress: number | null;
+  attempts: number;
+  maxAttempts: number;
+  errorCode: string | null;
+  errorMessage: string | null;
+  result: GenerationJobResult | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Article idea document (api::article-idea.article-idea).
+ * `post` is the article written from the idea; `sourcePost` the post that inspired it.
+ */
+export interface ArticleIdeaDocument {
+  id: number;
+  documentId: string;
+  title: string;
+  description: string | null;
+  categorySlug: 'guides' | 'news' | 'reviews' | 'lists';
+  instruction: string | null;
+  done: boolean;
+  game?: { documentId: string; name?: string } | null;
+  post?: { documentId: string } | null;
+  createdAt?: string;
+}
+
+/**
+ * Generation profile document (api::generation-profile.generation-profile).
+ * `settings` is validated on save by the content type lifecycles.
+ */
+export interface GenerationProfileDocument {
+  id: number;
+  documentId: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  settings: GenerationProfileSettings;
+  isDefault: boolean;
+  updatedAt?: string;
+}
+
+/**
+ * One arm of a prompt experiment: the prompt versions it runs and its share of traffic.
+ */
+export interface PromptExperimentArm {
+  name: string;
+  /** Relative traffic weight (default: 1) */
+  weight: number;
+  promptVersions: PromptVersions;
+}
+
+/**
+ * Prompt experiment document (api::prompt-experiment.prompt-experiment).
+ * `arms` is validated on save by the content type lifecycles.
+ */
+export interface PromptExperimentDocument {
+  id: number;
+  documentId: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  active: boolean;
+  /** Only requests that select this category are enrolled (null = every request) */
+  categorySlug: 'guides' | 'news' | 'reviews' | 'lists' | null;
+  arms: PromptExperimentArm[];
+  updatedAt?: string;
+}
+
+/**
+ * Prompt versions stored on a post, with the experiment arm that chose them.
+ */
+export interface StoredPromptVersions {
+  versions: Record<PromptAgent, string>;
+  experiment?: { slug: string; arm: string };
+}
+
 /**
  * Cost breakdown by phase stored in the database.
  */
@@ -122,10 +250,13 @@ export interface StoredCosts {
     tokens: { input: number; output: number };
     costUsd?: number;
   };
-  /** Search API costs */
+  /**
+   * Search API costs.
+   * `usefulSources` counts results kept after dedup and filtering (absent on older posts).
+   */
   search?: {
-    tavily?: { queries: number; estimatedCostUsd: number };
-    exa?: { queries: number; costUsd: number };
+    tavily?: { queries: number; estimatedCostUsd: number; usefulSources?: number };
+    exa?: { queries: number; costUsd: number; usefulSources?: number };
   };
   /** Research statistics */
   research: {
@@ -139,6 +270,16 @@ export interface StoredCosts {
     issuesFixed: number;
     finalApproved: boolean;
     remainingIssues: number;
+    /** Fixer outcome (only when the Fixer ran; absent on older posts) */
+    fixerOutcome?: Omit<FixerOutcomeMetrics, 'note'>;
+    /** Draft validation warnings (absent on older posts) */
+    validationWarnings?: number;
+  };
+  /** Cost budget outcome (only for runs with maxCostUsd) */
+  budget?: {
+    maxCostUsd: number;
+    spentUsd: number;
+    degradations: BudgetDegradation[];
   };
   /** ISO timestamp when generation completed */
   generatedAt: string;
@@ -170,3 +311,45 @@ export interface StoredSources {
   domainBreakdown: Record<string, number>;
   urls: string[];
 }
+
+/**
+ * Claim-to-source map stored in the database.
+ * Claims cite sources by marker ID (`[^src-1a2b3c4d]` in the content).
+ */
+export interface StoredCitations {
+  sources: Array<{
+    id: string;
+    url: string;
+    title: string;
+    /** Cached source-content entry for the URL, if any */
+    sourceContentDocumentId?: string;
+  }>;
+  claims: Array<{ section: string; text: string; sourceIds: string[] }>;
+  unresolvedIds: string[];
+}
+
+/**
+ * One refresh of an AI-written post, appended to the post's `revisions` JSON.
+ * The changelog lists which sections changed and why.
+ */
+export interface StoredRevision {
+  refreshedAt: string;
+  /** Start of the window the refresh researched */
+  since: string;
+  changed: boolean;
+  changelog: Array<{
+    section: string;
+    action: 'regenerated' | 'expanded' | 'edited' | 'added';
+    reason: string;
+    severity: string;
+  }>;
+  models: {
+    scout: string;
+    reviewer: string;
+    fixer: string;
+  };
+  durationMs: number;
+  totalCostUsd?: number;
+  /** Source URLs found by the refresh */
+  sources: string[];
+}
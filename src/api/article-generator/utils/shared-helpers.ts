@@ -1,5 +1,6 @@
+import type { CitationMap } from '../../../ai/articles/citations';
 import type { GameArticleDraft } from '../../../ai/articles/types';
-import type { StoredCosts, StoredPlan, StoredSources } from '../types';
+import type { StoredCitations, StoredCosts, StoredPlan, StoredSources } from '../types';
 
 /**
  * Extract costs data from a draft for database storage.
@@ -55,22 +56,35 @@ export function extractStoredCosts(draft: GameArticleDraft): StoredCosts {
     costUsd: tokenUsage.cleaner.total.actualCostUsd,
   } : undefined;
 
+  // Count results each engine contributed after dedup and filtering
+  const usefulSources = (engine: 'tavily' | 'exa') =>
+    meta.queryStats?.filter((q) => q.engine === engine).reduce((sum, q) => sum + q.used, 0);
+
   // Build search costs
   const search = searchCosts ? {
     ...(searchCosts.tavilySearchCount > 0 && { 
       tavily: { 
         queries: searchCosts.tavilySearchCount, 
-        estimatedCostUsd: searchCosts.tavilyCostUsd 
+        estimatedCostUsd: searchCosts.tavilyCostUsd,
+        usefulSources: usefulSources('tavily'),
       } 
     }),
     ...(searchCosts.exaSearchCount > 0 && { 
       exa: { 
         queries: searchCosts.exaSearchCount, 
-        costUsd: searchCosts.exaCostUsd 
+        costUsd: searchCosts.exaCostUsd,
+        usefulSources: usefulSources('exa'),
       } 
     }),
   } : undefined;
 
+  // Fixer outcome without the explanatory note (identical for every post)
+  let fixerOutcome: StoredCosts['quality']['fixerOutcome'];
+  if (meta.recovery?.outcomeMetrics) {
+    const { note: _note, ...outcome } = meta.recovery.outcomeMetrics;
+    fixerOutcome = outcome;
+  }
+
   return {
     generationId: meta.correlationId,
     totalDurationMs: meta.totalDurationMs,
@@ -88,7 +102,16 @@ export function extractStoredCosts(draft: GameArticleDraft): StoredCosts {
       issuesFixed: meta.recovery?.fixesApplied?.filter(f => f.success).length ?? 0,
       finalApproved: draft.reviewerApproved ?? true,
       remainingIssues: draft.reviewerIssues?.length ?? 0,
+      ...(fixerOutcome && { fixerOutcome }),
+      ...(meta.validationWarnings !== undefined && { validationWarnings: meta.validationWarnings }),
     },
+    ...(meta.budget && {
+      budget: {
+        maxCostUsd: meta.budget.maxCostUsd,
+        spentUsd: meta.budget.spentUsd,
+        degradations: [...meta.budget.degradations],
+      },
+    }),
     generatedAt: meta.generatedAt,
   };
 }
@@ -140,3 +163,27 @@ export function extractStoredSources(sources: readonly string[]): StoredSources
     urls: [...sources],
   };
 }
+
+/**
+ * Extract the claim-to-source map for database storage.
+ *
+ * @param sourceContentIds - Source-content document IDs by normalized URL
+ */
+export function extractStoredCitations(
+  citations: CitationMap,
+  sourceContentIds: ReadonlyMap<string, string> = new Map()
+): StoredCitations {
+  return {
+    sources: citations.sources.map((source) => {
+      const sourceContentDocumentId = sourceContentIds.get(source.url);
+      return {
+        id: source.id,
+        url: source.url,
+        title: source.title,
+        ...(sourceContentDocumentId && { sourceContentDocumentId }),
+      };
+    }),
+    claims: citations.claims.map((claim) => ({ ...claim, sourceIds: [...claim.sourceIds] })),
+    unresolvedIds: [...citations.unresolvedIds],
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Server-Sent Events helpers for article generation endpoints.
+ *
+ * Writes directly to the raw Node.js response so Koa doesn't buffer events.
+ * Shared by the synchronous `/generate-sse` endpoint and the job event stream.
+ */
+
+import type { ServerResponse } from 'http';
+
+import type { SSEEvent } from '../types';
+
+/**
+ * Interval between heartbeat comments that keep proxies from closing idle streams.
+ */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * An open SSE stream bound to a Koa context.
+ */
+export interface SSEStream {
+  /** Send an event. `id` is emitted as the SSE event id (used for Last-Event-ID resume). */
+  send(event: SSEEvent, id?: number): void;
+  /** End the response and stop the heartbeat. Safe to call more than once. */
+  close(): void;
+  /** Register a callback for when the client disconnects or the stream is closed. */
+  onClose(callback: () => void): void;
+  /** Whether the response is still writable. */
+  readonly isOpen: boolean;
+}
+
+/**
+ * Format an SSE event for streaming.
+ */
+export function formatSSE(event: SSEEvent, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Take over the Koa response and open an SSE stream.
+ *
+ * Sets `ctx.respond = false`, writes the event-stream headers, and starts a
+ * heartbeat that stops automatically when the client disconnects.
+ */
+export function openSSEStream(ctx: any): SSEStream {
+  // Get the raw Node.js response object to bypass Koa buffering
+  const res = ctx.res as ServerResponse;
+
+  // Tell Koa not to handle the response - we're handling it directly
+  ctx.respond = false;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable nginx buffering
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  // Send initial comment to establish connection immediately
+  res.write(':ok\n\n');
+
+  let isOpen = true;
+  const closeCallbacks: Array<() => void> = [];
+
+  const markClosed = () => {
+    if (!isOpen) return;
+    isOpen = false;
+    clearInterval(heartbeatInterval);
+    for (const callback of closeCallbacks) {
+      callback();
+    }
+  };
+
+  // Heartbeat keeps the connection alive and forces buffer flushing
+  const heartbeatInterval = setInterval(() => {
+    if (!isOpen) return;
+    try {
+      res.write(':heartbeat\n\n');
+    } catch {
+      markClosed();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  res.on('close', markClosed);
+
+  return {
+    send(event: SSEEvent, id?: number) {
+      if (!isOpen) return;
+      try {
+        res.write(formatSSE(event, id));
+        // Force flush if available (some Node.js setups)
+        if (typeof (res as any).flush === 'function') {
+          (res as any).flush();
+        }
+      } catch {
+        // Response closed, ignore
+        markClosed();
+      }
+    },
+    close() {
+      if (!isOpen) return;
+      try {
+        res.end();
+      } finally {
+        markClosed();
+      }
+    },
+    onClose(callback: () => void) {
+      closeCallbacks.push(callback);
+    },
+    get isOpen() {
+      return isOpen;
+    },
+  };
+}
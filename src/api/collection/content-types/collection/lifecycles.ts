@@ -7,11 +7,11 @@
  * When a collection is created:
  * 1. Generate AI description for English locale
  * 2. Update the English entry with the description
- * 3. Generate AI description for Spanish locale
- * 4. Create Spanish locale entry with the description
+ * 3. Generate AI descriptions for each configured content locale
+ * 4. Create an entry per content locale with its description
  * 
  * IMPORTANT: Lifecycle processing is treated as synchronous for reliability.
- * This ensures ES locale entries exist before game locale sync links relations.
+ * This ensures content locale entries exist before game locale sync links relations.
  */
 
 import type { Core } from '@strapi/strapi';
@@ -101,7 +101,7 @@ export default {
     };
     
     // Synchronous: Wait for AI generation and locale sync to complete
-    // This ensures ES locale entries exist before game relations are created
+    // This ensures content locale entries exist before game relations are created
     try {
       await generateCollectionDescriptionsAndSync(
         strapi.db.connection,
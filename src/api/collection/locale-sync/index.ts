@@ -1,17 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { CollectionLocaleData, CollectionLocaleStrategy, CollectionLocaleSyncResult } from './types';
-import { spanishCollectionLocaleStrategy } from './strategies/spanish';
+import { createCollectionLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for collections
- * Add new locales here (e.g., frenchCollectionLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: CollectionLocaleStrategy[] = [
-  spanishCollectionLocaleStrategy,
-  // Future locales:
-  // frenchCollectionLocaleStrategy,
-  // germanCollectionLocaleStrategy,
-];
+const strategyCache = new Map<string, CollectionLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): CollectionLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createCollectionLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a collection
@@ -27,7 +37,7 @@ export async function syncCollectionLocales(
 ): Promise<CollectionLocaleSyncResult[]> {
   const results: CollectionLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -52,14 +62,14 @@ export async function syncCollectionLocales(
  * Get list of configured locale codes for collections
  */
 export function getConfiguredCollectionLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for collection sync
  */
 export function isCollectionLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
@@ -0,0 +1,70 @@
+import type { Core } from '@strapi/strapi';
+import type { CollectionLocaleStrategy, CollectionLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a collection locale strategy from a locale definition
+ * Creates localized collection entries using Strapi Document Service
+ */
+export function createCollectionLocaleStrategy(definition: LocaleDefinition): CollectionLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[CollectionLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: CollectionLocaleData): Promise<void> {
+      const collectionService = strapi.documents('api::collection.collection');
+
+      // Check if this locale already exists for the document
+      const existing = await collectionService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await collectionService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: data.name,
+          slug: data.collectionData.slug,
+          description: aiDescription,
+          igdbId: data.collectionData.igdbId,
+          igdbUrl: data.collectionData.igdbUrl,
+          // Parent collection relation - Strapi handles document-level relations
+          parentCollection: data.collectionData.parentCollectionDocumentId || undefined,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for collection: ${data.name}`);
+
+      // update() when creating new locale may not set all fields properly
+      // Update the description separately if it exists
+      if (aiDescription) {
+        await collectionService.update({
+          documentId: data.documentId,
+          locale,
+          data: { description: aiDescription },
+        } as any);
+      }
+
+      // Publish to sync draft to published
+      await (collectionService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for collection: ${data.name}`);
+    },
+  };
+}
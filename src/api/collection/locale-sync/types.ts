@@ -17,8 +17,8 @@ export interface CollectionLocaleData {
     igdbUrl: string | null;
     parentCollectionDocumentId: string | null;
   };
-  /** AI-generated description for this locale */
-  aiDescription: string;
+  /** AI-generated descriptions keyed by locale code (optional) */
+  aiDescriptions?: Record<string, string | undefined>;
 }
 
 /**
@@ -7,7 +7,7 @@
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { CollectionDescriptionContext } from '../../../ai';
+import type { CollectionDescriptionContext, LocalizedDescriptions } from '../../../ai';
 import type { CollectionLocaleData, CollectionLocaleSyncResult } from '../locale-sync';
 
 /**
@@ -30,7 +30,7 @@ export interface CollectionEventData {
  */
 export interface CollectionDescriptionDependencies {
   isAIConfigured: () => boolean;
-  generateCollectionDescriptions: (context: CollectionDescriptionContext) => Promise<{ en: string; es: string }>;
+  generateCollectionDescriptions: (context: CollectionDescriptionContext) => Promise<LocalizedDescriptions>;
   syncCollectionLocales: (strapi: Core.Strapi, data: CollectionLocaleData) => Promise<CollectionLocaleSyncResult[]>;
   log: {
     info: (message: string) => void;
@@ -67,7 +67,7 @@ export async function generateCollectionDescriptionsAndSync(
   const { isAIConfigured, generateCollectionDescriptions, syncCollectionLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -93,15 +93,17 @@ export async function generateCollectionDescriptionsAndSync(
       // Generate descriptions for both locales in parallel
       const descriptions = await generateCollectionDescriptions(context);
 
-      log.info(`[CollectionDescription] Generated EN description (length: ${descriptions.en.length})`);
-      log.info(`[CollectionDescription] Generated ES description (length: ${descriptions.es.length})`);
+      const { en: englishDescription, ...otherDescriptions } = descriptions;
+      for (const [locale, description] of Object.entries(descriptions)) {
+        log.info(`[CollectionDescription] Generated ${locale.toUpperCase()} description (length: ${description.length})`);
+      }
 
       // Update English entry using Strapi's document service (not raw SQL)
       const collectionService = strapi.documents('api::collection.collection');
       await collectionService.update({
         documentId: collection.documentId,
         locale: 'en',
-        data: { description: descriptions.en },
+        data: { description: englishDescription },
       } as any);
 
       // Publish to sync draft changes to published version
@@ -112,7 +114,7 @@ export async function generateCollectionDescriptionsAndSync(
 
       log.info(`[CollectionDescription] Updated and published English description for: ${collection.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = descriptions.es;
+      localizedDescriptions = otherDescriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[CollectionDescription] AI description error for "${collection.name}": ${errorMessage}`);
@@ -122,7 +124,7 @@ export async function generateCollectionDescriptionsAndSync(
     log.info(`[CollectionDescription] AI not configured, skipping description generation for: ${collection.name}`);
   }
 
-  // ALWAYS sync locales (create Spanish entry) regardless of AI configuration
+  // ALWAYS sync locales (create an entry per content locale) regardless of AI configuration
   // This ensures bidirectional relationships work correctly
   try {
     const localeData: CollectionLocaleData = {
@@ -135,10 +137,10 @@ export async function generateCollectionDescriptionsAndSync(
         igdbUrl: collection.igdbUrl,
         parentCollectionDocumentId: collection.parentCollectionDocumentId,
       },
-      aiDescription: spanishDescription,
+      aiDescriptions: localizedDescriptions,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncCollectionLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
@@ -1,17 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { CompanyLocaleData, CompanyLocaleStrategy, CompanyLocaleSyncResult } from './types';
-import { spanishCompanyLocaleStrategy } from './strategies/spanish';
+import { createCompanyLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for companies
- * Add new locales here (e.g., frenchCompanyLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: CompanyLocaleStrategy[] = [
-  spanishCompanyLocaleStrategy,
-  // Future locales:
-  // frenchCompanyLocaleStrategy,
-  // germanCompanyLocaleStrategy,
-];
+const strategyCache = new Map<string, CompanyLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): CompanyLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createCompanyLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a company
@@ -27,7 +37,7 @@ export async function syncCompanyLocales(
 ): Promise<CompanyLocaleSyncResult[]> {
   const results: CompanyLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -52,14 +62,14 @@ export async function syncCompanyLocales(
  * Get list of configured locale codes for companies
  */
 export function getConfiguredCompanyLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for company sync
  */
 export function isCompanyLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
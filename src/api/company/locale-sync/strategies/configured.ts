@@ -0,0 +1,71 @@
+import type { Core } from '@strapi/strapi';
+import type { CompanyLocaleStrategy, CompanyLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a company locale strategy from a locale definition
+ * Creates localized company entries using Strapi Document Service
+ */
+export function createCompanyLocaleStrategy(definition: LocaleDefinition): CompanyLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[CompanyLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: CompanyLocaleData): Promise<void> {
+      const companyService = strapi.documents('api::company.company');
+
+      // Check if this locale already exists for the document
+      const existing = await companyService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await companyService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: data.name,
+          slug: data.companyData.slug,
+          description: aiDescription,
+          logoUrl: data.companyData.logoUrl,
+          country: data.companyData.country,
+          foundedYear: data.companyData.foundedYear,
+          igdbId: data.companyData.igdbId,
+          igdbUrl: data.companyData.igdbUrl,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for company: ${data.name}`);
+
+      // update() when creating new locale may not set all fields properly
+      // Update the description separately if it exists
+      if (aiDescription) {
+        await companyService.update({
+          documentId: data.documentId,
+          locale,
+          data: { description: aiDescription },
+        } as any);
+      }
+
+      // Publish to sync draft to published
+      await (companyService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for company: ${data.name}`);
+    },
+  };
+}
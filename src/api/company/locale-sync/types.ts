@@ -19,8 +19,8 @@ export interface CompanyLocaleData {
     igdbId: number | null;
     igdbUrl: string | null;
   };
-  /** AI-generated description for this locale */
-  aiDescription: string;
+  /** AI-generated descriptions keyed by locale code (optional) */
+  aiDescriptions?: Record<string, string | undefined>;
 }
 
 /**
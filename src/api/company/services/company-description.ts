@@ -7,7 +7,7 @@
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { CompanyDescriptionContext } from '../../../ai';
+import type { CompanyDescriptionContext, LocalizedDescriptions } from '../../../ai';
 import type { CompanyLocaleData, CompanyLocaleSyncResult } from '../locale-sync';
 
 /**
@@ -32,7 +32,7 @@ export interface CompanyEventData {
  */
 export interface CompanyDescriptionDependencies {
   isAIConfigured: () => boolean;
-  generateCompanyDescriptions: (context: CompanyDescriptionContext) => Promise<{ en: string; es: string }>;
+  generateCompanyDescriptions: (context: CompanyDescriptionContext) => Promise<LocalizedDescriptions>;
   syncCompanyLocales: (strapi: Core.Strapi, data: CompanyLocaleData) => Promise<CompanyLocaleSyncResult[]>;
   log: {
     info: (message: string) => void;
@@ -69,7 +69,7 @@ export async function generateCompanyDescriptionsAndSync(
   const { isAIConfigured, generateCompanyDescriptions, syncCompanyLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -83,18 +83,20 @@ export async function generateCompanyDescriptionsAndSync(
         foundedYear: company.foundedYear,
       };
 
-      // Generate descriptions for both locales
+      // Generate descriptions for English and every configured content locale
       const descriptions = await generateCompanyDescriptions(context);
 
-      log.info(`[CompanyDescription] Generated EN description (length: ${descriptions.en.length})`);
-      log.info(`[CompanyDescription] Generated ES description (length: ${descriptions.es.length})`);
+      const { en: englishDescription, ...otherDescriptions } = descriptions;
+      for (const [locale, description] of Object.entries(descriptions)) {
+        log.info(`[CompanyDescription] Generated ${locale.toUpperCase()} description (length: ${description.length})`);
+      }
 
       // Update English entry using Strapi's document service (not raw SQL)
       const companyService = strapi.documents('api::company.company');
       await companyService.update({
         documentId: company.documentId,
         locale: 'en',
-        data: { description: descriptions.en },
+        data: { description: englishDescription },
       } as any);
 
       // Publish to sync draft changes to published version
@@ -105,7 +107,7 @@ export async function generateCompanyDescriptionsAndSync(
 
       log.info(`[CompanyDescription] Updated and published English description for: ${company.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = descriptions.es;
+      localizedDescriptions = otherDescriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[CompanyDescription] AI description error for "${company.name}": ${errorMessage}`);
@@ -115,7 +117,7 @@ export async function generateCompanyDescriptionsAndSync(
     log.info(`[CompanyDescription] AI not configured, skipping description generation for: ${company.name}`);
   }
 
-  // ALWAYS sync locales (create Spanish entry) regardless of AI configuration
+  // ALWAYS sync locales (create an entry per content locale) regardless of AI configuration
   // This ensures bidirectional relationships work correctly
   try {
     const localeData: CompanyLocaleData = {
@@ -130,10 +132,10 @@ export async function generateCompanyDescriptionsAndSync(
         igdbId: company.igdbId,
         igdbUrl: company.igdbUrl,
       },
-      aiDescription: spanishDescription,
+      aiDescriptions: localizedDescriptions,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncCompanyLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
@@ -0,0 +1,124 @@
+import type { Core } from '@strapi/strapi';
+
+import { isAuthenticated } from '../../article-generator/utils/admin-auth';
+import {
+  clearDomainQualityOverride,
+  domainListQuerySchema,
+  domainOverrideSchema,
+  getDomainQualityDetail,
+  listDomainQualities,
+  previewDomainQualityOverride,
+  setDomainQualityOverride,
+  DomainQualityAdminError,
+} from '../services/domain-quality-admin';
+
+const UNAUTHORIZED_MESSAGE = 'Unauthorized: Provide valid admin JWT token or AI generation secret';
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  function handleError(ctx, error: unknown, action: string) {
+    if (error instanceof DomainQualityAdminError) {
+      return error.status === 404 ? ctx.notFound(error.message) : ctx.badRequest(error.message);
+    }
+    strapi.log.error(`[DomainQuality] ${action} error:`, error);
+    return ctx.internalServerError(`Failed to ${action.toLowerCase()}`);
+  }
+
+  return {
+    /**
+     * List domains with their scores and overrides
+     * GET /api/domain-quality/domains?search=&tier=&excluded=&overridden=&page=&pageSize=
+     */
+    async list(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      const parsed = domainListQuerySchema.safeParse(ctx.query ?? {});
+      if (!parsed.success) {
+        return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+      }
+
+      try {
+        ctx.body = await listDomainQualities(strapi, parsed.data);
+      } catch (error) {
+        return handleError(ctx, error, 'List domains');
+      }
+    },
+
+    /**
+     * Domain detail with score history and cached sources
+     * GET /api/domain-quality/domains/:domain
+     */
+    async findOne(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      try {
+        ctx.body = await getDomainQualityDetail(strapi, ctx.params.domain);
+      } catch (error) {
+        return handleError(ctx, error, 'Load domain');
+      }
+    },
+
+    /**
+     * Show what an override would change without saving it
+     * POST /api/domain-quality/domains/:domain/override/preview
+     */
+    async previewOverride(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      const parsed = domainOverrideSchema.safeParse(ctx.request.body ?? {});
+      if (!parsed.success) {
+        return ctx.badRequest('Invalid override', { issues: parsed.error.issues });
+      }
+
+      try {
+        ctx.body = await previewDomainQualityOverride(strapi, ctx.params.domain, parsed.data);
+      } catch (error) {
+        return handleError(ctx, error, 'Preview override');
+      }
+    },
+
+    /**
+     * Pin a tier and/or force include/exclude
+     * PUT /api/domain-quality/domains/:domain/override
+     */
+    async setOverride(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      const parsed = domainOverrideSchema.safeParse(ctx.request.body ?? {});
+      if (!parsed.success) {
+        return ctx.badRequest('Invalid override', { issues: parsed.error.issues });
+      }
+
+      try {
+        const domain = await setDomainQualityOverride(strapi, ctx.params.domain, parsed.data);
+        ctx.body = { success: true, domain };
+      } catch (error) {
+        return handleError(ctx, error, 'Set override');
+      }
+    },
+
+    /**
+     * Remove overrides and go back to computed values
+     * DELETE /api/domain-quality/domains/:domain/override
+     */
+    async clearOverride(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      try {
+        const domain = await clearDomainQualityOverride(strapi, ctx.params.domain);
+        ctx.body = { success: true, domain };
+      } catch (error) {
+        return handleError(ctx, error, 'Clear override');
+      }
+    },
+  };
+};
@@ -0,0 +1,55 @@
+/**
+ * Domain Quality API Routes
+ *
+ * Admin endpoints for the domain quality dashboard and manual overrides.
+ * These are available at /api/domain-quality/*
+ */
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/domain-quality/domains',
+      handler: 'domain-quality.list',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/domain-quality/domains/:domain',
+      handler: 'domain-quality.findOne',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/domain-quality/domains/:domain/override/preview',
+      handler: 'domain-quality.previewOverride',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'PUT',
+      path: '/domain-quality/domains/:domain/override',
+      handler: 'domain-quality.setOverride',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'DELETE',
+      path: '/domain-quality/domains/:domain/override',
+      handler: 'domain-quality.clearOverride',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
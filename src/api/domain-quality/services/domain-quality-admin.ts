@@ -0,0 +1,410 @@
+/**
+ * Domain Quality Admin Service
+ *
+ * Backs the "Domain Quality" admin page: browse domains with their score
+ * history and scrape failure rates, pin a tier, or force a domain in or out
+ * of research.
+ *
+ * Overrides are stored in their own columns (tierOverride, exclusionOverride)
+ * and applied by `updateDomainQuality` on every recompute, so the effective
+ * `tier`/`isExcluded` columns every reader already uses stay authoritative.
+ * The hardcoded `CLEANER_CONFIG.EXCLUDED_DOMAINS` list always wins over a
+ * forced include.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import { CLEANER_CONFIG } from '../../../ai/articles/config';
+import {
+  applyDomainQualityOverrides,
+  parseScoreHistory,
+  updateDomainQuality,
+} from '../../../ai/articles/source-cache';
+import type { DomainQualitySnapshot, DomainTier } from '../../../ai/articles/types';
+import type { DomainQualityDocument, SourceContentDocument } from '../../../types/strapi';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DOMAIN_QUALITY_UID = 'api::domain-quality.domain-quality';
+const SOURCE_CONTENT_UID = 'api::source-content.source-content';
+
+const DOMAIN_TIERS = ['excellent', 'good', 'average', 'poor', 'excluded'] as const satisfies readonly DomainTier[];
+
+const MAX_PAGE_SIZE = 100;
+
+/** Cached sources listed on the detail view and in previews */
+const SOURCE_SAMPLE_SIZE = 20;
+
+const SOURCE_FIELDS = ['url', 'title', 'qualityScore', 'relevanceScore', 'accessCount', 'lastAccessedAt'];
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const booleanParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+export const domainListQuerySchema = z.object({
+  search: z.string().trim().min(1).max(255).optional(),
+  tier: z.enum(DOMAIN_TIERS).optional(),
+  excluded: booleanParam.optional(),
+  overridden: booleanParam.optional(),
+  sort: z.enum(['domain', 'avgQualityScore', 'totalSources', 'updatedAt']).default('totalSources'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(25),
+});
+
+export const domainOverrideSchema = z
+  .object({
+    tierOverride: z.enum(DOMAIN_TIERS).nullable().default(null),
+    exclusionOverride: z.enum(['include', 'exclude']).nullable().default(null),
+    reason: z.string().trim().max(500).nullable().default(null),
+  })
+  .refine((value) => value.tierOverride !== null || value.exclusionOverride !== null, {
+    message: 'Set tierOverride and/or exclusionOverride (use DELETE to clear overrides)',
+  });
+
+export type DomainListQuery = z.infer<typeof domainListQuerySchema>;
+export type DomainOverrideInput = z.infer<typeof domainOverrideSchema>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DomainFailureRates {
+  /** null until the engine has been used on the domain */
+  readonly tavily: number | null;
+  readonly exa: number | null;
+}
+
+export interface DomainQualitySummary {
+  readonly documentId: string;
+  readonly domain: string;
+  readonly domainType: string;
+  readonly avgQualityScore: number;
+  readonly avgRelevanceScore: number;
+  readonly totalSources: number;
+  readonly tier: DomainTier;
+  readonly isExcluded: boolean;
+  readonly excludeReason: string | null;
+  readonly isExcludedTavily: boolean;
+  readonly isExcludedExa: boolean;
+  readonly failureRates: DomainFailureRates;
+  readonly tierOverride: DomainTier | null;
+  readonly exclusionOverride: 'include' | 'exclude' | null;
+  readonly overrideReason: string | null;
+  readonly overriddenAt: string | null;
+  /** On the hardcoded exclusion list (overrides can't lift it) */
+  readonly staticallyExcluded: boolean;
+  readonly updatedAt: string | null;
+}
+
+export interface DomainCachedSource {
+  readonly documentId: string;
+  readonly url: string;
+  readonly title: string | null;
+  readonly qualityScore: number | null;
+  readonly relevanceScore: number | null;
+  readonly accessCount: number;
+  readonly lastAccessedAt: string | null;
+}
+
+export interface DomainQualityDetail extends DomainQualitySummary {
+  readonly scoreHistory: readonly DomainQualitySnapshot[];
+  readonly sources: readonly DomainCachedSource[];
+  readonly sourceCount: number;
+}
+
+export interface DomainListResult {
+  readonly domains: readonly DomainQualitySummary[];
+  readonly pagination: { page: number; pageSize: number; total: number; pageCount: number };
+}
+
+/**
+ * What an override would change.
+ * `cacheEffect` describes cached source-content rows of the domain: excluded
+ * domains are skipped by the source cache and by search.
+ */
+export interface DomainOverridePreview {
+  readonly domain: string;
+  readonly staticallyExcluded: boolean;
+  readonly before: { tier: DomainTier; isExcluded: boolean };
+  readonly after: { tier: DomainTier; isExcluded: boolean };
+  readonly cacheEffect: 'stop-serving' | 'start-serving' | 'none';
+  readonly affectedSourceCount: number;
+  readonly affectedSources: readonly DomainCachedSource[];
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class DomainQualityAdminError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'DomainQualityAdminError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+export function normalizeDomainParam(value: string): string {
+  return value.trim().toLowerCase().replace(/^www\./, '');
+}
+
+function isStaticallyExcluded(domain: string): boolean {
+  return CLEANER_CONFIG.EXCLUDED_DOMAINS.has(domain) || CLEANER_CONFIG.EXCLUDED_DOMAINS.has(`www.${domain}`);
+}
+
+function failureRate(failures: number | null | undefined, attempts: number | null | undefined): number | null {
+  return attempts ? (failures ?? 0) / attempts : null;
+}
+
+export function toDomainQualitySummary(doc: DomainQualityDocument): DomainQualitySummary {
+  return {
+    documentId: doc.documentId,
+    domain: doc.domain,
+    domainType: doc.domainType,
+    avgQualityScore: Number(doc.avgQualityScore) || 0,
+    avgRelevanceScore: Number(doc.avgRelevanceScore) || 0,
+    totalSources: doc.totalSources,
+    tier: doc.tier,
+    isExcluded: doc.isExcluded,
+    excludeReason: doc.excludeReason,
+    isExcludedTavily: doc.isExcludedTavily ?? false,
+    isExcludedExa: doc.isExcludedExa ?? false,
+    failureRates: {
+      tavily: failureRate(doc.tavilyScrapeFailures, doc.tavilyAttempts),
+      exa: failureRate(doc.exaScrapeFailures, doc.exaAttempts),
+    },
+    tierOverride: doc.tierOverride ?? null,
+    exclusionOverride: doc.exclusionOverride ?? null,
+    overrideReason: doc.overrideReason ?? null,
+    overriddenAt: doc.overriddenAt ?? null,
+    staticallyExcluded: isStaticallyExcluded(doc.domain),
+    updatedAt: doc.updatedAt ?? null,
+  };
+}
+
+function toCachedSource(doc: SourceContentDocument): DomainCachedSource {
+  return {
+    documentId: doc.documentId,
+    url: doc.url,
+    title: doc.title ?? null,
+    qualityScore: doc.qualityScore ?? null,
+    relevanceScore: doc.relevanceScore ?? null,
+    accessCount: doc.accessCount ?? 0,
+    lastAccessedAt: doc.lastAccessedAt ?? null,
+  };
+}
+
+async function findDomain(strapi: Core.Strapi, domain: string): Promise<DomainQualityDocument> {
+  const doc = (await documents(strapi, DOMAIN_QUALITY_UID).findFirst({
+    filters: { domain: normalizeDomainParam(domain) },
+  })) as DomainQualityDocument | null;
+
+  if (!doc) {
+    throw new DomainQualityAdminError(`Domain "${domain}" not found`, 404);
+  }
+  return doc;
+}
+
+async function findCachedSources(
+  strapi: Core.Strapi,
+  domain: string
+): Promise<{ sources: DomainCachedSource[]; total: number }> {
+  const service = documents(strapi, SOURCE_CONTENT_UID);
+  const [rows, total] = await Promise.all([
+    service.findMany({
+      filters: { domain },
+      fields: SOURCE_FIELDS,
+      sort: { accessCount: 'desc' },
+      limit: SOURCE_SAMPLE_SIZE,
+    }) as Promise<SourceContentDocument[]>,
+    service.count({ filters: { domain } }) as Promise<number>,
+  ]);
+  return { sources: rows.map(toCachedSource), total };
+}
+
+/**
+ * Effective state of a domain under the given overrides.
+ * The computed baseline is the latest history snapshot (history stores
+ * computed values); rows that predate history fall back to the stored columns.
+ */
+export function resolveOverrideState(
+  doc: DomainQualityDocument,
+  overrides: Pick<DomainOverrideInput, 'tierOverride' | 'exclusionOverride' | 'reason'>
+): { tier: DomainTier; isExcluded: boolean } {
+  const history = parseScoreHistory(doc.scoreHistory);
+  const latest = history[history.length - 1];
+  const computed = applyDomainQualityOverrides(
+    {
+      tier: latest?.tier ?? doc.tier,
+      isExcluded: latest?.isExcluded ?? doc.isExcluded,
+      excludeReason: doc.excludeReason,
+      isExcludedTavily: doc.isExcludedTavily ?? false,
+      tavilyExcludeReason: doc.tavilyExcludeReason ?? null,
+      isExcludedExa: doc.isExcludedExa ?? false,
+      exaExcludeReason: doc.exaExcludeReason ?? null,
+    },
+    {
+      tierOverride: overrides.tierOverride,
+      exclusionOverride: overrides.exclusionOverride,
+      overrideReason: overrides.reason,
+    }
+  );
+  return {
+    tier: computed.tier,
+    isExcluded: computed.isExcluded || isStaticallyExcluded(doc.domain),
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List domains with filters and pagination.
+ */
+export async function listDomainQualities(strapi: Core.Strapi, query: DomainListQuery): Promise<DomainListResult> {
+  const filters: Record<string, unknown> = {};
+  if (query.search) filters.domain = { $containsi: query.search };
+  if (query.tier) filters.tier = query.tier;
+  if (query.excluded !== undefined) filters.isExcluded = query.excluded;
+  if (query.overridden === true) {
+    filters.$or = [{ tierOverride: { $notNull: true } }, { exclusionOverride: { $notNull: true } }];
+  } else if (query.overridden === false) {
+    filters.tierOverride = { $null: true };
+    filters.exclusionOverride = { $null: true };
+  }
+
+  const service = documents(strapi, DOMAIN_QUALITY_UID);
+  const [rows, total] = await Promise.all([
+    service.findMany({
+      filters,
+      sort: { [query.sort]: query.order },
+      start: (query.page - 1) * query.pageSize,
+      limit: query.pageSize,
+    }) as Promise<DomainQualityDocument[]>,
+    service.count({ filters }) as Promise<number>,
+  ]);
+
+  return {
+    domains: rows.map(toDomainQualitySummary),
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      pageCount: Math.ceil(total / query.pageSize),
+    },
+  };
+}
+
+/**
+ * Domain detail: summary, score history and the most used cached sources.
+ *
+ * @throws DomainQualityAdminError (404) if the domain has no quality record
+ */
+export async function getDomainQualityDetail(strapi: Core.Strapi, domain: string): Promise<DomainQualityDetail> {
+  const doc = await findDomain(strapi, domain);
+  const { sources, total } = await findCachedSources(strapi, doc.domain);
+
+  return {
+    ...toDomainQualitySummary(doc),
+    scoreHistory: parseScoreHistory(doc.scoreHistory),
+    sources,
+    sourceCount: total,
+  };
+}
+
+// ============================================================================
+// Overrides
+// ============================================================================
+
+/**
+ * Show what an override would change before saving it.
+ *
+ * @throws DomainQualityAdminError (404) if the domain has no quality record
+ */
+export async function previewDomainQualityOverride(
+  strapi: Core.Strapi,
+  domain: string,
+  input: DomainOverrideInput
+): Promise<DomainOverridePreview> {
+  const doc = await findDomain(strapi, domain);
+  const staticallyExcluded = isStaticallyExcluded(doc.domain);
+  const before = { tier: doc.tier, isExcluded: doc.isExcluded || staticallyExcluded };
+  const after = resolveOverrideState(doc, input);
+
+  const cacheEffect =
+    before.isExcluded === after.isExcluded ? 'none' : after.isExcluded ? 'stop-serving' : 'start-serving';
+  const { sources, total } =
+    cacheEffect === 'none' ? { sources: [], total: 0 } : await findCachedSources(strapi, doc.domain);
+
+  return {
+    domain: doc.domain,
+    staticallyExcluded,
+    before,
+    after,
+    cacheEffect,
+    affectedSourceCount: total,
+    affectedSources: sources,
+  };
+}
+
+/**
+ * Save overrides and recompute the domain so they take effect immediately.
+ *
+ * @throws DomainQualityAdminError (404) if the domain has no quality record
+ */
+export async function setDomainQualityOverride(
+  strapi: Core.Strapi,
+  domain: string,
+  input: DomainOverrideInput
+): Promise<DomainQualityDetail> {
+  const doc = await findDomain(strapi, domain);
+
+  await documents(strapi, DOMAIN_QUALITY_UID).update({
+    documentId: doc.documentId,
+    data: {
+      tierOverride: input.tierOverride,
+      exclusionOverride: input.exclusionOverride,
+      overrideReason: input.reason,
+      overriddenAt: new Date().toISOString(),
+    },
+  });
+  await updateDomainQuality(strapi, doc.domain);
+
+  strapi.log.info(
+    `[DomainQuality] Override set for ${doc.domain} (tier: ${input.tierOverride ?? 'auto'}, exclusion: ${input.exclusionOverride ?? 'auto'})`
+  );
+
+  return getDomainQualityDetail(strapi, doc.domain);
+}
+
+/**
+ * Remove overrides and recompute the domain from its sources.
+ *
+ * @throws DomainQualityAdminError (404) if the domain has no quality record
+ */
+export async function clearDomainQualityOverride(strapi: Core.Strapi, domain: string): Promise<DomainQualityDetail> {
+  const doc = await findDomain(strapi, domain);
+
+  await documents(strapi, DOMAIN_QUALITY_UID).update({
+    documentId: doc.documentId,
+    data: { tierOverride: null, exclusionOverride: null, overrideReason: null, overriddenAt: null },
+  });
+  await updateDomainQuality(strapi, doc.domain);
+
+  strapi.log.info(`[DomainQuality] Override cleared for ${doc.domain}`);
+
+  return getDomainQualityDetail(strapi, doc.domain);
+}
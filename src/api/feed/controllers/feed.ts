@@ -0,0 +1,181 @@
+/**
+ * feed controller
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildPodcastChapters,
+  buildPodcastFeed,
+  PodcastFeedError,
+  type PodcastFeedRequest,
+} from '../services/podcast-feed';
+import {
+  ArticleFeedError,
+  buildArticleFeed,
+  type ArticleFeedFormat,
+  type ArticleFeedRequest,
+} from '../services/article-feed';
+import { FEED_CONFIG } from '../services/feed-utils';
+import { buildSitemapIndex, buildSitemapPage, SitemapError } from '../services/sitemap';
+
+const ARTICLE_FEED_TYPES: Record<ArticleFeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  async function sendPodcastFeed(ctx: any, request: PodcastFeedRequest) {
+    try {
+      const xml = await buildPodcastFeed(strapi, request);
+      ctx.set('Cache-Control', `public, max-age=${FEED_CONFIG.CACHE_MAX_AGE_SECONDS}`);
+      ctx.type = 'application/rss+xml; charset=utf-8';
+      ctx.body = xml;
+    } catch (error) {
+      if (error instanceof PodcastFeedError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[PodcastFeed] Feed error:', error);
+      return ctx.internalServerError('Failed to build podcast feed');
+    }
+  }
+
+  async function sendArticleFeed(ctx: any, request: ArticleFeedRequest) {
+    try {
+      const xml = await buildArticleFeed(strapi, request);
+      ctx.set('Cache-Control', `public, max-age=${FEED_CONFIG.CACHE_MAX_AGE_SECONDS}`);
+      ctx.type = ARTICLE_FEED_TYPES[request.format];
+      ctx.body = xml;
+    } catch (error) {
+      if (error instanceof ArticleFeedError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[ArticleFeed] Feed error:', error);
+      return ctx.internalServerError('Failed to build feed');
+    }
+  }
+
+  async function sendSitemap(ctx: any, build: () => Promise<string>) {
+    try {
+      const xml = await build();
+      ctx.set('Cache-Control', `public, max-age=${FEED_CONFIG.CACHE_MAX_AGE_SECONDS}`);
+      ctx.type = 'application/xml; charset=utf-8';
+      ctx.body = xml;
+    } catch (error) {
+      if (error instanceof SitemapError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[Sitemap] Sitemap error:', error);
+      return ctx.internalServerError('Failed to build sitemap');
+    }
+  }
+
+  return {
+    /**
+     * RSS feed of every post in a locale
+     * GET /api/feeds/:locale/rss.xml
+     */
+    async rss(ctx) {
+      return sendArticleFeed(ctx, { locale: ctx.params.locale, format: 'rss' });
+    },
+
+    /**
+     * Atom feed of every post in a locale
+     * GET /api/feeds/:locale/atom.xml
+     */
+    async atom(ctx) {
+      return sendArticleFeed(ctx, { locale: ctx.params.locale, format: 'atom' });
+    },
+
+    /**
+     * RSS feed for one category
+     * GET /api/feeds/:locale/categories/:slug/rss.xml
+     */
+    async categoryRss(ctx) {
+      return sendArticleFeed(ctx, { locale: ctx.params.locale, format: 'rss', category: ctx.params.slug });
+    },
+
+    /**
+     * Atom feed for one category
+     * GET /api/feeds/:locale/categories/:slug/atom.xml
+     */
+    async categoryAtom(ctx) {
+      return sendArticleFeed(ctx, { locale: ctx.params.locale, format: 'atom', category: ctx.params.slug });
+    },
+
+    /**
+     * RSS feed for one game
+     * GET /api/feeds/:locale/games/:slug/rss.xml
+     */
+    async gameRss(ctx) {
+      return sendArticleFeed(ctx, { locale: ctx.params.locale, format: 'rss', game: ctx.params.slug });
+    },
+
+    /**
+     * Atom feed for one game
+     * GET /api/feeds/:locale/games/:slug/atom.xml
+     */
+    async gameAtom(ctx) {
+      return sendArticleFeed(ctx, { locale: ctx.params.locale, format: 'atom', game: ctx.params.slug });
+    },
+
+    /**
+     * Sitemap index listing every sitemap page
+     * GET /api/sitemaps/index.xml
+     */
+    async sitemapIndex(ctx) {
+      return sendSitemap(ctx, () => buildSitemapIndex(strapi));
+    },
+
+    /**
+     * One page of a sitemap (posts, games, franchises, platforms, companies)
+     * GET /api/sitemaps/:type/:page.xml
+     */
+    async sitemap(ctx) {
+      return sendSitemap(ctx, () => buildSitemapPage(strapi, ctx.params.type, ctx.params.page));
+    },
+
+    /**
+     * Podcast feed of every narrated post in a locale
+     * GET /api/feeds/podcast/:locale
+     */
+    async podcast(ctx) {
+      return sendPodcastFeed(ctx, { locale: ctx.params.locale });
+    },
+
+    /**
+     * Podcast feed for one category
+     * GET /api/feeds/podcast/:locale/categories/:slug
+     */
+    async categoryPodcast(ctx) {
+      return sendPodcastFeed(ctx, { locale: ctx.params.locale, category: ctx.params.slug });
+    },
+
+    /**
+     * Podcast feed for one game
+     * GET /api/feeds/podcast/:locale/games/:slug
+     */
+    async gamePodcast(ctx) {
+      return sendPodcastFeed(ctx, { locale: ctx.params.locale, game: ctx.params.slug });
+    },
+
+    /**
+     * Podcasting 2.0 JSON chapters for a post's narration
+     * GET /api/feeds/podcast/:locale/chapters/:documentId
+     */
+    async podcastChapters(ctx) {
+      try {
+        const chapters = await buildPodcastChapters(strapi, ctx.params.locale, ctx.params.documentId);
+        ctx.set('Cache-Control', `public, max-age=${FEED_CONFIG.CACHE_MAX_AGE_SECONDS}`);
+        ctx.type = 'application/json+chapters';
+        ctx.body = chapters;
+      } catch (error) {
+        if (error instanceof PodcastFeedError && error.status === 404) {
+          return ctx.notFound(error.message);
+        }
+        strapi.log.error('[PodcastFeed] Chapters error:', error);
+        return ctx.internalServerError('Failed to load chapters');
+      }
+    },
+  };
+};
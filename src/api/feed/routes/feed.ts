@@ -0,0 +1,118 @@
+/**
+ * Feed routes
+ *
+ * Public RSS/Atom article feeds, podcast feeds for narrated posts and
+ * sitemaps. These are available at /api/feeds/* and /api/sitemaps/*
+ */
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/feeds/:locale/rss.xml',
+      handler: 'feed.rss',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/:locale/atom.xml',
+      handler: 'feed.atom',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/:locale/categories/:slug/rss.xml',
+      handler: 'feed.categoryRss',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/:locale/categories/:slug/atom.xml',
+      handler: 'feed.categoryAtom',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/:locale/games/:slug/rss.xml',
+      handler: 'feed.gameRss',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/:locale/games/:slug/atom.xml',
+      handler: 'feed.gameAtom',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/sitemaps/index.xml',
+      handler: 'feed.sitemapIndex',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/sitemaps/:type/:page.xml',
+      handler: 'feed.sitemap',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/podcast/:locale',
+      handler: 'feed.podcast',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/podcast/:locale/categories/:slug',
+      handler: 'feed.categoryPodcast',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/podcast/:locale/games/:slug',
+      handler: 'feed.gamePodcast',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/feeds/podcast/:locale/chapters/:documentId',
+      handler: 'feed.podcastChapters',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
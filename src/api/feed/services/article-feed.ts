@@ -0,0 +1,309 @@
+/**
+ * Article Feed Service
+ *
+ * Publishes posts as RSS 2.0 and Atom 1.0 feeds, one per locale with optional
+ * per-category and per-game feeds. Feeds list the newest FEED_CONFIG.MAX_ITEMS
+ * published posts; rendered XML is cached (see feed-cache).
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import { getCachedFeed } from './feed-cache';
+import {
+  FEED_CONFIG,
+  buildApiUrl,
+  buildPostUrl,
+  escapeXml,
+  getFeedLocales,
+  toAbsoluteUrl,
+  uuidV5,
+} from './feed-utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const ARTICLE_FEED_CONFIG = {
+  /** Feed title (scoped feeds append the category/game name) */
+  TITLE: process.env.FEED_TITLE || FEED_CONFIG.SITE_NAME,
+  /** Feed description */
+  DESCRIPTION: process.env.FEED_DESCRIPTION || `Latest articles from ${FEED_CONFIG.SITE_NAME}.`,
+} as const;
+
+/** Namespace for Atom entry IDs (UUIDv5 of `documentId:locale`) */
+const ATOM_ID_NAMESPACE = '3f2b8f8e-6a0c-5b7e-9d4e-1c2a7b9e5f10';
+
+const POST_UID = 'api::post.post';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ArticleFeedFormat = 'rss' | 'atom';
+
+export interface ArticleFeedRequest {
+  readonly locale: string;
+  readonly format: ArticleFeedFormat;
+  /** Only posts in this category (slug in the feed locale) */
+  readonly category?: string;
+  /** Only posts about this game (slug) */
+  readonly game?: string;
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class ArticleFeedError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ArticleFeedError';
+  }
+}
+
+interface MediaFile {
+  url: string;
+  mime?: string | null;
+}
+
+interface ArticleFeedPost {
+  documentId: string;
+  title: string;
+  slug: string;
+  excerpt?: string | null;
+  description?: string | null;
+  publishedAt?: string | null;
+  updatedAt?: string | null;
+  featuredImage?: MediaFile | null;
+  author?: { name: string } | null;
+  category?: { name: string } | null;
+}
+
+interface ArticleFeedChannel {
+  readonly locale: string;
+  readonly feedUrl: string;
+  readonly title: string;
+  readonly description: string;
+  readonly posts: readonly ArticleFeedPost[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+/**
+ * Path of an article feed (relative to the API prefix).
+ */
+export function getArticleFeedPath(request: ArticleFeedRequest): string {
+  const file = request.format === 'atom' ? 'atom.xml' : 'rss.xml';
+  const base = `/feeds/${request.locale}`;
+  if (request.category) return `${base}/categories/${request.category}/${file}`;
+  if (request.game) return `${base}/games/${request.game}/${file}`;
+  return `${base}/${file}`;
+}
+
+function getSummary(post: ArticleFeedPost): string {
+  return post.excerpt || post.description || '';
+}
+
+function getAtomId(post: ArticleFeedPost, locale: string): string {
+  return `urn:uuid:${uuidV5(`${post.documentId}:${locale}`, ATOM_ID_NAMESPACE)}`;
+}
+
+// ============================================================================
+// Data loading
+// ============================================================================
+
+/**
+ * Loads the feed scope (category/game name) and its post filters.
+ *
+ * @throws ArticleFeedError (404) for unknown locales, categories or games
+ */
+async function resolveScope(
+  strapi: Core.Strapi,
+  request: ArticleFeedRequest
+): Promise<{ title: string; description: string; filters: Record<string, unknown> }> {
+  if (!getFeedLocales().includes(request.locale)) {
+    throw new ArticleFeedError(`Unknown locale "${request.locale}"`, 404);
+  }
+
+  if (request.category) {
+    const category = await documents(strapi, 'api::category.category').findFirst({
+      locale: request.locale,
+      status: 'published',
+      filters: { slug: request.category },
+      fields: ['name', 'description'],
+    });
+    if (!category) {
+      throw new ArticleFeedError(`Category "${request.category}" not found`, 404);
+    }
+    return {
+      title: `${ARTICLE_FEED_CONFIG.TITLE}: ${category.name}`,
+      description: category.description || ARTICLE_FEED_CONFIG.DESCRIPTION,
+      filters: { category: { slug: request.category } },
+    };
+  }
+
+  if (request.game) {
+    const game = await documents(strapi, 'api::game.game').findFirst({
+      locale: request.locale,
+      status: 'published',
+      filters: { slug: request.game },
+      fields: ['name'],
+    });
+    if (!game) {
+      throw new ArticleFeedError(`Game "${request.game}" not found`, 404);
+    }
+    return {
+      title: `${ARTICLE_FEED_CONFIG.TITLE}: ${game.name}`,
+      description: ARTICLE_FEED_CONFIG.DESCRIPTION,
+      filters: { games: { slug: request.game } },
+    };
+  }
+
+  return { title: ARTICLE_FEED_CONFIG.TITLE, description: ARTICLE_FEED_CONFIG.DESCRIPTION, filters: {} };
+}
+
+async function loadPosts(
+  strapi: Core.Strapi,
+  locale: string,
+  filters: Record<string, unknown>
+): Promise<ArticleFeedPost[]> {
+  return documents(strapi, POST_UID).findMany({
+    locale,
+    status: 'published',
+    filters,
+    fields: ['title', 'slug', 'excerpt', 'description', 'publishedAt', 'updatedAt'],
+    populate: {
+      featuredImage: true,
+      author: { fields: ['name'] },
+      category: { fields: ['name'] },
+    },
+    sort: 'publishedAt:desc',
+    limit: FEED_CONFIG.MAX_ITEMS,
+  });
+}
+
+// ============================================================================
+// XML rendering
+// ============================================================================
+
+function renderRssItem(locale: string, post: ArticleFeedPost): string {
+  const link = buildPostUrl(locale, post.slug);
+  const image = post.featuredImage;
+  const lines = [
+    '    <item>',
+    `      <title>${escapeXml(post.title)}</title>`,
+    `      <link>${escapeXml(link)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(`${post.documentId}:${locale}`)}</guid>`,
+    ...(post.publishedAt ? [`      <pubDate>${new Date(post.publishedAt).toUTCString()}</pubDate>`] : []),
+    `      <description>${escapeXml(getSummary(post))}</description>`,
+    ...(post.author?.name ? [`      <dc:creator>${escapeXml(post.author.name)}</dc:creator>`] : []),
+    ...(post.category?.name ? [`      <category>${escapeXml(post.category.name)}</category>`] : []),
+    ...(image?.url
+      ? [`      <media:content url="${escapeXml(toAbsoluteUrl(image.url))}" medium="image" type="${escapeXml(image.mime || 'image/jpeg')}"/>`]
+      : []),
+    '    </item>',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Renders RSS 2.0 XML.
+ */
+function renderRssFeed(channel: ArticleFeedChannel, now: Date = new Date()): string {
+  const { locale, feedUrl, title, description, posts } = channel;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${escapeXml(`${FEED_CONFIG.SITE_URL}/${locale}`)}</link>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${escapeXml(description)}</description>`,
+    `    <language>${escapeXml(locale)}</language>`,
+    `    <lastBuildDate>${now.toUTCString()}</lastBuildDate>`,
+    ...posts.map((post) => renderRssItem(locale, post)),
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function renderAtomEntry(locale: string, post: ArticleFeedPost): string {
+  const published = post.publishedAt ? new Date(post.publishedAt).toISOString() : null;
+  const updated = new Date(post.updatedAt || post.publishedAt || Date.now()).toISOString();
+  const lines = [
+    '  <entry>',
+    `    <id>${getAtomId(post, locale)}</id>`,
+    `    <title>${escapeXml(post.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(buildPostUrl(locale, post.slug))}"/>`,
+    ...(published ? [`    <published>${published}</published>`] : []),
+    `    <updated>${updated}</updated>`,
+    `    <summary>${escapeXml(getSummary(post))}</summary>`,
+    ...(post.author?.name ? [`    <author><name>${escapeXml(post.author.name)}</name></author>`] : []),
+    ...(post.category?.name ? [`    <category term="${escapeXml(post.category.name)}"/>`] : []),
+    ...(post.featuredImage?.url
+      ? [`    <link rel="enclosure" type="${escapeXml(post.featuredImage.mime || 'image/jpeg')}" href="${escapeXml(toAbsoluteUrl(post.featuredImage.url))}"/>`]
+      : []),
+    '  </entry>',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Renders Atom 1.0 XML. The feed's `updated` is its newest entry's.
+ */
+function renderAtomFeed(channel: ArticleFeedChannel, now: Date = new Date()): string {
+  const { locale, feedUrl, title, description, posts } = channel;
+  const updated = posts
+    .map((post) => post.updatedAt || post.publishedAt)
+    .filter((date): date is string => Boolean(date))
+    .map((date) => new Date(date).toISOString())
+    .sort()
+    .at(-1);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(locale)}">`,
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <subtitle>${escapeXml(description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(`${FEED_CONFIG.SITE_URL}/${locale}`)}"/>`,
+    `  <updated>${updated ?? now.toISOString()}</updated>`,
+    `  <author><name>${escapeXml(FEED_CONFIG.SITE_NAME)}</name></author>`,
+    ...posts.map((post) => renderAtomEntry(locale, post)),
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Builds the RSS or Atom feed for a locale (optionally scoped to a category or game).
+ *
+ * @throws ArticleFeedError (404) for unknown locales, categories or games
+ */
+export async function buildArticleFeed(strapi: Core.Strapi, request: ArticleFeedRequest): Promise<string> {
+  const path = getArticleFeedPath(request);
+
+  return getCachedFeed(path, async () => {
+    const scope = await resolveScope(strapi, request);
+    const posts = await loadPosts(strapi, request.locale, scope.filters);
+    const channel: ArticleFeedChannel = {
+      locale: request.locale,
+      feedUrl: buildApiUrl(path),
+      title: scope.title,
+      description: scope.description,
+      posts,
+    };
+    return request.format === 'atom' ? renderAtomFeed(channel) : renderRssFeed(channel);
+  });
+}
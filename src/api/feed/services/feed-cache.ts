@@ -0,0 +1,111 @@
+/**
+ * Feed Cache
+ *
+ * In-memory cache for rendered article feeds and sitemaps, keyed by request
+ * path. Entries expire after FEED_CACHE_CONFIG.TTL_MS and the whole cache is
+ * cleared whenever an entry shown in a feed or sitemap is published,
+ * unpublished or deleted (a Document Service middleware, registered at
+ * startup, watches those actions).
+ *
+ * A build that was running while the cache got cleared is returned but not
+ * stored, so it can't put pre-publish content back.
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import { changesPublishedContent } from './feed-utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const FEED_CACHE_CONFIG = {
+  /** Lifetime of a cached feed or sitemap page (ms) */
+  TTL_MS: 60 * 60 * 1000,
+  /** Max cached documents (oldest evicted first) */
+  MAX_ENTRIES: 500,
+} as const;
+
+/** Content types whose published entries appear in feeds or sitemaps */
+export const FEED_CACHE_UIDS: readonly string[] = [
+  'api::post.post',
+  'api::game.game',
+  'api::franchise.franchise',
+  'api::platform.platform',
+  'api::company.company',
+  'api::category.category',
+  'api::author.author',
+];
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+interface CachedFeed {
+  readonly body: string;
+  readonly expiresAt: number;
+}
+
+const cache = new Map<string, CachedFeed>();
+
+/** Bumped on every clear; builds started under an older generation aren't stored */
+let generation = 0;
+
+/**
+ * Returns the cached document for a key, building (and caching) it when
+ * missing or expired. Failed builds are not cached.
+ */
+export async function getCachedFeed(key: string, build: () => Promise<string>): Promise<string> {
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.body;
+  }
+
+  const startGeneration = generation;
+  const body = await build();
+  if (startGeneration !== generation) {
+    return body;
+  }
+
+  cache.delete(key);
+  if (cache.size >= FEED_CACHE_CONFIG.MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(key, { body, expiresAt: Date.now() + FEED_CACHE_CONFIG.TTL_MS });
+  return body;
+}
+
+/**
+ * Drops every cached feed and sitemap.
+ */
+export function clearFeedCache(): void {
+  cache.clear();
+  generation++;
+}
+
+// ============================================================================
+// Invalidation
+// ============================================================================
+
+/**
+ * Whether a Document Service call changes content shown in feeds or sitemaps
+ * (see changesPublishedContent).
+ */
+export function changesPublishedFeedContent(call: Parameters<typeof changesPublishedContent>[0]): boolean {
+  return changesPublishedContent(call, FEED_CACHE_UIDS);
+}
+
+/**
+ * Clears the feed cache after every Document Service call that changes
+ * published feed content. Call once from `register()`.
+ */
+export function registerFeedCacheInvalidation(strapi: Core.Strapi): void {
+  strapi.documents.use(async (ctx, next) => {
+    const result = await next();
+    if (changesPublishedFeedContent(ctx as { uid: string; action: string; params?: { status?: string } })) {
+      clearFeedCache();
+    }
+    return result;
+  });
+}
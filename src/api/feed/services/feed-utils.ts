@@ -0,0 +1,127 @@
+/**
+ * Feed Utilities
+ *
+ * Shared configuration and XML helpers for the public feeds and sitemaps, and
+ * the "changes published content" check used by Document Service middlewares
+ * that keep derived output (feed cache, structured data) current.
+ */
+
+import { createHash } from 'crypto';
+
+import { DEFAULT_LOCALE, getContentLocales } from '../../../utils/locales';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Public feed configuration (env overridable).
+ */
+export const FEED_CONFIG = {
+  /** Public site (frontend) URL - post links point here */
+  SITE_URL: (process.env.SITE_URL || 'https://gamers.wiki').replace(/\/+$/, ''),
+  /** Public URL of this API - feed self links and chapter URLs point here */
+  API_URL: (process.env.PUBLIC_API_URL || 'http://localhost:1337').replace(/\/+$/, ''),
+  /** Site name used as the default feed title and author */
+  SITE_NAME: process.env.SITE_NAME || 'Gamers Wiki',
+  /** Maximum number of items per feed */
+  MAX_ITEMS: 50,
+  /** Cache-Control max-age for feed responses (seconds) */
+  CACHE_MAX_AGE_SECONDS: 900,
+} as const;
+
+/** Document Service actions that always change published content */
+const PUBLISHING_ACTIONS = new Set(['publish', 'unpublish', 'delete']);
+
+/** Actions that change published content when they write the published version directly */
+const WRITING_ACTIONS = new Set(['create', 'update']);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a Document Service call changes published content of one of `uids`.
+ * Draft edits don't; creating or updating with `status: 'published'` does.
+ */
+export function changesPublishedContent(
+  call: {
+    readonly uid: string;
+    readonly action: string;
+    readonly params?: { status?: string } | null;
+  },
+  uids: readonly string[]
+): boolean {
+  if (!uids.includes(call.uid)) return false;
+  if (PUBLISHING_ACTIONS.has(call.action)) return true;
+  return WRITING_ACTIONS.has(call.action) && call.params?.status === 'published';
+}
+
+/**
+ * Locales that have public feeds (the source locale plus every content locale).
+ */
+export function getFeedLocales(): string[] {
+  return [DEFAULT_LOCALE, ...getContentLocales().map((locale) => locale.code)];
+}
+
+/**
+ * Escapes text for use in XML element content and attribute values.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Resolves a media URL against the API URL (local uploads are stored relative).
+ */
+export function toAbsoluteUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `${FEED_CONFIG.API_URL}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Public URL of a post on the site: `{SITE_URL}/{locale}/{slug}`.
+ */
+export function buildPostUrl(locale: string, slug: string): string {
+  return `${FEED_CONFIG.SITE_URL}/${locale}/${slug}`;
+}
+
+/**
+ * Public URL of a game page on the site: `{SITE_URL}/{locale}/games/{slug}`.
+ */
+export function buildGameUrl(locale: string, slug: string): string {
+  return `${FEED_CONFIG.SITE_URL}/${locale}/games/${slug}`;
+}
+
+/**
+ * Public URL of a franchise, platform or company page:
+ * `{SITE_URL}/{locale}/{section}/{slug}`.
+ */
+export function buildSectionUrl(locale: string, section: 'franchises' | 'platforms' | 'companies', slug: string): string {
+  return `${FEED_CONFIG.SITE_URL}/${locale}/${section}/${slug}`;
+}
+
+/**
+ * URL of a public API route (content API routes live under /api).
+ */
+export function buildApiUrl(path: string): string {
+  return `${FEED_CONFIG.API_URL}/api${path}`;
+}
+
+/**
+ * Name-based UUID (v5).
+ */
+export function uuidV5(name: string, namespace: string): string {
+  const bytes = createHash('sha1')
+    .update(Buffer.concat([Buffer.from(namespace.replace(/-/g, ''), 'hex'), Buffer.from(name, 'utf8')]))
+    .digest()
+    .subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
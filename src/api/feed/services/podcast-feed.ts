@@ -0,0 +1,517 @@
+/**
+ * Podcast Feed Service
+ *
+ * Publishes narrated posts as podcast RSS 2.0 feeds (iTunes + Podcasting 2.0
+ * namespaces), one per locale with optional per-category and per-game feeds.
+ *
+ * - Enclosure lengths and durations are read from the MP3 itself: a range
+ *   request fetches the start of the file and the Xing header built by
+ *   mp3-builder gives the frame count. Files without a Xing header are
+ *   downloaded in full and their frames counted. Results are cached per URL
+ *   (narrations are uploaded under new URLs, so entries never go stale).
+ * - `<podcast:chapters>` points at a JSON chapters document (Podcasting 2.0
+ *   format) served from the post's chapter markers, and `<podcast:transcript>`
+ *   at the WebVTT/SRT captions uploaded with the narration.
+ * - Episode authors come from the post's `author` relation.
+ * - Rendered feeds go through the shared feed cache (see feed-cache), so
+ *   enclosures are only probed when a feed is rebuilt.
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import type { TTSMetadata } from '../../../ai/articles/services/audio-uploader';
+import type { AudioChapter } from '../../../ai/articles/services/tts-types';
+import { getMP3Duration, readXingHeader } from '../../../ai/articles/services/mp3-parser';
+import {
+  FEED_CONFIG,
+  buildApiUrl,
+  buildPostUrl,
+  escapeXml,
+  getFeedLocales,
+  toAbsoluteUrl,
+  uuidV5,
+} from './feed-utils';
+import { getCachedFeed } from './feed-cache';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PODCAST_CONFIG = {
+  /** Channel title (scoped feeds append the category/game name) */
+  TITLE: process.env.PODCAST_TITLE || FEED_CONFIG.SITE_NAME,
+  /** Channel description */
+  DESCRIPTION: process.env.PODCAST_DESCRIPTION || `Audio narrations of ${FEED_CONFIG.SITE_NAME} articles.`,
+  /** Channel artwork (Apple requires 1400-3000px square JPG/PNG) */
+  IMAGE_URL: process.env.PODCAST_IMAGE_URL || '',
+  /** Owner contact shown to podcast directories */
+  OWNER_NAME: process.env.PODCAST_OWNER_NAME || FEED_CONFIG.SITE_NAME,
+  OWNER_EMAIL: process.env.PODCAST_OWNER_EMAIL || '',
+  /** Apple Podcasts category / subcategory */
+  CATEGORY: 'Leisure',
+  SUBCATEGORY: 'Video Games',
+  /** Bytes fetched to read the Xing header */
+  PROBE_BYTES: 16 * 1024,
+  /** Timeout per probe request, the full-file fallback included (ms) */
+  PROBE_TIMEOUT_MS: 30 * 1000,
+  /** Enclosures probed in parallel */
+  PROBE_CONCURRENCY: 5,
+  /** Max cached enclosure probes */
+  ENCLOSURE_CACHE_SIZE: 1000,
+} as const;
+
+/** Namespace for `<podcast:guid>` (UUIDv5 of the feed URL, per the Podcasting 2.0 spec) */
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+const POST_UID = 'api::post.post';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PodcastFeedRequest {
+  readonly locale: string;
+  /** Only posts in this category (slug in the feed locale) */
+  readonly category?: string;
+  /** Only posts about this game (slug) */
+  readonly game?: string;
+}
+
+/** Exact enclosure metadata read from the MP3 */
+export interface EnclosureInfo {
+  /** File size in bytes */
+  readonly length: number;
+  /** Duration in seconds */
+  readonly duration: number;
+}
+
+/** Podcasting 2.0 JSON chapters document */
+export interface PodcastChapters {
+  readonly version: '1.2.0';
+  readonly chapters: ReadonlyArray<{ readonly startTime: number; readonly endTime?: number; readonly title: string }>;
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class PodcastFeedError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'PodcastFeedError';
+  }
+}
+
+/** Media file as populated on posts */
+interface MediaFile {
+  url: string;
+  /** Size in KB (Strapi upload convention) */
+  size?: number | null;
+  mime?: string | null;
+  provider_metadata?: { ttsInfo?: Partial<TTSMetadata> } | null;
+}
+
+interface FeedAuthor {
+  name: string;
+  slug?: string | null;
+  avatar?: MediaFile | null;
+}
+
+interface FeedPost {
+  documentId: string;
+  title: string;
+  slug: string;
+  excerpt?: string | null;
+  description?: string | null;
+  publishedAt?: string | null;
+  audioFile?: MediaFile | null;
+  audioMetadata?: { chapters?: AudioChapter[] } | null;
+  featuredImage?: MediaFile | null;
+  author?: FeedAuthor | null;
+}
+
+interface FeedEpisode {
+  readonly post: FeedPost;
+  readonly audio: MediaFile;
+  readonly enclosure: EnclosureInfo;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+/**
+ * `<podcast:guid>` for a feed URL (scheme and trailing slashes stripped, per spec).
+ */
+export function getPodcastGuid(feedUrl: string): string {
+  return uuidV5(feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, ''), PODCAST_GUID_NAMESPACE);
+}
+
+/**
+ * Path of a podcast feed (relative to the API prefix).
+ */
+export function getPodcastFeedPath(request: PodcastFeedRequest): string {
+  const base = `/feeds/podcast/${request.locale}`;
+  if (request.category) return `${base}/categories/${request.category}`;
+  if (request.game) return `${base}/games/${request.game}`;
+  return base;
+}
+
+function parseContentRangeTotal(header: string | null): number | null {
+  const match = header?.match(/\/(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+// ============================================================================
+// Enclosure probing
+// ============================================================================
+
+const enclosureCache = new Map<string, EnclosureInfo>();
+
+/**
+ * Reads the exact size and duration of a remote MP3.
+ * Tries a range request for the Xing header first and falls back to
+ * downloading the whole file when the server ignores ranges or the file has
+ * no Xing frame count.
+ *
+ * @throws Error if the file can't be fetched or contains no MP3 frames
+ */
+export async function probeMp3Enclosure(url: string): Promise<EnclosureInfo> {
+  const cached = enclosureCache.get(url);
+  if (cached) return cached;
+
+  const partial = await fetch(url, {
+    headers: { Range: `bytes=0-${PODCAST_CONFIG.PROBE_BYTES - 1}` },
+    signal: AbortSignal.timeout(PODCAST_CONFIG.PROBE_TIMEOUT_MS),
+  });
+  if (!partial.ok) {
+    throw new Error(`Audio request failed (${partial.status})`);
+  }
+
+  let buffer = Buffer.from(await partial.arrayBuffer());
+  let info: EnclosureInfo | null = null;
+
+  if (partial.status === 206) {
+    const total = parseContentRangeTotal(partial.headers.get('content-range'));
+    const xing = readXingHeader(buffer);
+    if (total !== null && xing?.duration !== undefined) {
+      info = { length: total, duration: xing.duration };
+    } else {
+      // No usable Xing header - count frames over the whole file
+      const full = await fetch(url, { signal: AbortSignal.timeout(PODCAST_CONFIG.PROBE_TIMEOUT_MS) });
+      if (!full.ok) {
+        throw new Error(`Audio request failed (${full.status})`);
+      }
+      buffer = Buffer.from(await full.arrayBuffer());
+    }
+  }
+
+  if (!info) {
+    info = { length: buffer.length, duration: getMP3Duration(buffer) };
+  }
+
+  if (enclosureCache.size >= PODCAST_CONFIG.ENCLOSURE_CACHE_SIZE) {
+    const oldest = enclosureCache.keys().next().value;
+    if (oldest !== undefined) enclosureCache.delete(oldest);
+  }
+  enclosureCache.set(url, info);
+  return info;
+}
+
+/**
+ * Clears cached enclosure probes (for tests).
+ */
+export function clearEnclosureCache(): void {
+  enclosureCache.clear();
+}
+
+/**
+ * Probes a post's audio, falling back to upload metadata when the file can't be read.
+ * Returns null when neither source gives a length and duration.
+ */
+async function resolveEnclosure(strapi: Core.Strapi, post: FeedPost, audio: MediaFile): Promise<EnclosureInfo | null> {
+  const url = toAbsoluteUrl(audio.url);
+  try {
+    return await probeMp3Enclosure(url);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    strapi.log.warn(`[PodcastFeed] Could not read ${url} for "${post.title}": ${message}`);
+  }
+
+  const duration = audio.provider_metadata?.ttsInfo?.audioDurationSeconds;
+  if (!audio.size || duration === undefined) {
+    return null;
+  }
+  return { length: Math.round(audio.size * 1024), duration };
+}
+
+// ============================================================================
+// Data loading
+// ============================================================================
+
+/**
+ * Loads the channel scope (category/game name) and its post filters.
+ *
+ * @throws PodcastFeedError (404) for unknown locales, categories or games
+ */
+async function resolveScope(
+  strapi: Core.Strapi,
+  request: PodcastFeedRequest
+): Promise<{ title: string; description: string; filters: Record<string, unknown> }> {
+  if (!getFeedLocales().includes(request.locale)) {
+    throw new PodcastFeedError(`Unknown locale "${request.locale}"`, 404);
+  }
+
+  const filters: Record<string, unknown> = { audioFile: { id: { $notNull: true } } };
+
+  if (request.category) {
+    const category = await documents(strapi, 'api::category.category').findFirst({
+      locale: request.locale,
+      status: 'published',
+      filters: { slug: request.category },
+      fields: ['name', 'description'],
+    });
+    if (!category) {
+      throw new PodcastFeedError(`Category "${request.category}" not found`, 404);
+    }
+    return {
+      title: `${PODCAST_CONFIG.TITLE}: ${category.name}`,
+      description: category.description || PODCAST_CONFIG.DESCRIPTION,
+      filters: { ...filters, category: { slug: request.category } },
+    };
+  }
+
+  if (request.game) {
+    const game = await documents(strapi, 'api::game.game').findFirst({
+      locale: request.locale,
+      status: 'published',
+      filters: { slug: request.game },
+      fields: ['name'],
+    });
+    if (!game) {
+      throw new PodcastFeedError(`Game "${request.game}" not found`, 404);
+    }
+    return {
+      title: `${PODCAST_CONFIG.TITLE}: ${game.name}`,
+      description: PODCAST_CONFIG.DESCRIPTION,
+      filters: { ...filters, games: { slug: request.game } },
+    };
+  }
+
+  return { title: PODCAST_CONFIG.TITLE, description: PODCAST_CONFIG.DESCRIPTION, filters };
+}
+
+async function loadEpisodes(
+  strapi: Core.Strapi,
+  locale: string,
+  filters: Record<string, unknown>
+): Promise<FeedEpisode[]> {
+  const posts: FeedPost[] = await documents(strapi, POST_UID).findMany({
+    locale,
+    status: 'published',
+    filters,
+    fields: ['title', 'slug', 'excerpt', 'description', 'publishedAt', 'audioMetadata'],
+    populate: {
+      audioFile: true,
+      featuredImage: true,
+      author: { fields: ['name', 'slug'], populate: { avatar: true } },
+    },
+    sort: 'publishedAt:desc',
+    limit: FEED_CONFIG.MAX_ITEMS,
+  });
+
+  const withAudio = posts.filter((post): post is FeedPost & { audioFile: MediaFile } => Boolean(post.audioFile?.url));
+  const episodes: FeedEpisode[] = [];
+
+  for (let i = 0; i < withAudio.length; i += PODCAST_CONFIG.PROBE_CONCURRENCY) {
+    const batch = withAudio.slice(i, i + PODCAST_CONFIG.PROBE_CONCURRENCY);
+    const enclosures = await Promise.all(batch.map((post) => resolveEnclosure(strapi, post, post.audioFile)));
+    batch.forEach((post, index) => {
+      const enclosure = enclosures[index];
+      if (enclosure) {
+        episodes.push({ post, audio: post.audioFile, enclosure });
+      }
+    });
+  }
+
+  return episodes;
+}
+
+// ============================================================================
+// XML rendering
+// ============================================================================
+
+function renderAuthor(author: FeedAuthor): string[] {
+  const attrs = [
+    'role="host"',
+    ...(author.slug ? [`href="${escapeXml(`${FEED_CONFIG.SITE_URL}/authors/${author.slug}`)}"`] : []),
+    ...(author.avatar?.url ? [`img="${escapeXml(toAbsoluteUrl(author.avatar.url))}"`] : []),
+  ];
+  return [
+    `      <itunes:author>${escapeXml(author.name)}</itunes:author>`,
+    `      <podcast:person ${attrs.join(' ')}>${escapeXml(author.name)}</podcast:person>`,
+  ];
+}
+
+function renderTranscripts(locale: string, audio: MediaFile): string[] {
+  const captions = audio.provider_metadata?.ttsInfo?.captions;
+  return [
+    ...(captions?.vttUrl ? [{ url: captions.vttUrl, type: 'text/vtt' }] : []),
+    ...(captions?.srtUrl ? [{ url: captions.srtUrl, type: 'application/x-subrip' }] : []),
+  ].map(
+    ({ url, type }) =>
+      `      <podcast:transcript url="${escapeXml(toAbsoluteUrl(url))}" type="${type}" language="${escapeXml(locale)}" rel="captions"/>`
+  );
+}
+
+function renderItem(locale: string, { post, audio, enclosure }: FeedEpisode): string {
+  const link = buildPostUrl(locale, post.slug);
+  const summary = post.excerpt || post.description || '';
+  const lines = [
+    '    <item>',
+    `      <title>${escapeXml(post.title)}</title>`,
+    `      <link>${escapeXml(link)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(`${post.documentId}:${locale}`)}</guid>`,
+    ...(post.publishedAt ? [`      <pubDate>${new Date(post.publishedAt).toUTCString()}</pubDate>`] : []),
+    `      <description>${escapeXml(summary)}</description>`,
+    `      <enclosure url="${escapeXml(toAbsoluteUrl(audio.url))}" length="${enclosure.length}" type="${escapeXml(audio.mime || 'audio/mpeg')}"/>`,
+    `      <itunes:duration>${Math.round(enclosure.duration)}</itunes:duration>`,
+    '      <itunes:episodeType>full</itunes:episodeType>',
+    '      <itunes:explicit>false</itunes:explicit>',
+    ...(post.featuredImage?.url ? [`      <itunes:image href="${escapeXml(toAbsoluteUrl(post.featuredImage.url))}"/>`] : []),
+    ...(post.author?.name ? renderAuthor(post.author) : []),
+    ...renderTranscripts(locale, audio),
+    ...(getPostChapters(post).length > 0
+      ? [`      <podcast:chapters url="${escapeXml(buildApiUrl(`/feeds/podcast/${locale}/chapters/${post.documentId}`))}" type="application/json+chapters"/>`]
+      : []),
+    '    </item>',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Renders podcast RSS 2.0 XML.
+ */
+function renderPodcastFeed(input: {
+  readonly locale: string;
+  readonly feedUrl: string;
+  readonly title: string;
+  readonly description: string;
+  readonly episodes: readonly FeedEpisode[];
+  readonly now?: Date;
+}): string {
+  const { locale, feedUrl, title, description, episodes } = input;
+  const lastBuildDate = (input.now ?? new Date()).toUTCString();
+  const owner = [
+    '    <itunes:owner>',
+    `      <itunes:name>${escapeXml(PODCAST_CONFIG.OWNER_NAME)}</itunes:name>`,
+    ...(PODCAST_CONFIG.OWNER_EMAIL ? [`      <itunes:email>${escapeXml(PODCAST_CONFIG.OWNER_EMAIL)}</itunes:email>`] : []),
+    '    </itunes:owner>',
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${escapeXml(`${FEED_CONFIG.SITE_URL}/${locale}`)}</link>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${escapeXml(description)}</description>`,
+    `    <language>${escapeXml(locale)}</language>`,
+    `    <lastBuildDate>${lastBuildDate}</lastBuildDate>`,
+    `    <itunes:author>${escapeXml(PODCAST_CONFIG.OWNER_NAME)}</itunes:author>`,
+    ...owner,
+    ...(PODCAST_CONFIG.IMAGE_URL ? [`    <itunes:image href="${escapeXml(PODCAST_CONFIG.IMAGE_URL)}"/>`] : []),
+    `    <itunes:category text="${escapeXml(PODCAST_CONFIG.CATEGORY)}">`,
+    `      <itunes:category text="${escapeXml(PODCAST_CONFIG.SUBCATEGORY)}"/>`,
+    '    </itunes:category>',
+    '    <itunes:explicit>false</itunes:explicit>',
+    '    <itunes:type>episodic</itunes:type>',
+    `    <podcast:guid>${getPodcastGuid(feedUrl)}</podcast:guid>`,
+    '    <podcast:locked>no</podcast:locked>',
+    ...episodes.map((episode) => renderItem(locale, episode)),
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Chapters
+// ============================================================================
+
+/**
+ * Chapter markers for a post's narration.
+ * Localized `audioMetadata` chapters win; the audio file's TTS metadata is the fallback.
+ */
+function getPostChapters(post: Pick<FeedPost, 'audioMetadata' | 'audioFile'>): readonly AudioChapter[] {
+  const localized = post.audioMetadata?.chapters;
+  if (Array.isArray(localized) && localized.length > 0) {
+    return localized;
+  }
+  return post.audioFile?.provider_metadata?.ttsInfo?.chapters ?? [];
+}
+
+/**
+ * Builds the Podcasting 2.0 JSON chapters document for a post.
+ *
+ * @throws PodcastFeedError (404) if the post doesn't exist in the locale or has no chapters
+ */
+export async function buildPodcastChapters(
+  strapi: Core.Strapi,
+  locale: string,
+  documentId: string
+): Promise<PodcastChapters> {
+  if (!getFeedLocales().includes(locale)) {
+    throw new PodcastFeedError(`Unknown locale "${locale}"`, 404);
+  }
+
+  const post: FeedPost | null = await documents(strapi, POST_UID).findOne({
+    documentId,
+    locale,
+    status: 'published',
+    fields: ['audioMetadata'],
+    populate: { audioFile: true },
+  });
+  const chapters = post ? getPostChapters(post) : [];
+  if (chapters.length === 0) {
+    throw new PodcastFeedError(`No chapters for post "${documentId}"`, 404);
+  }
+
+  return {
+    version: '1.2.0',
+    chapters: chapters.map((chapter) => ({
+      startTime: chapter.startTime,
+      ...(chapter.endTime !== undefined && { endTime: chapter.endTime }),
+      title: chapter.title,
+    })),
+  };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Builds the podcast RSS feed for a locale (optionally scoped to a category or game).
+ *
+ * @throws PodcastFeedError (404) for unknown locales, categories or games
+ */
+export async function buildPodcastFeed(strapi: Core.Strapi, request: PodcastFeedRequest): Promise<string> {
+  const path = getPodcastFeedPath(request);
+
+  return getCachedFeed(path, async () => {
+    const scope = await resolveScope(strapi, request);
+    const episodes = await loadEpisodes(strapi, request.locale, scope.filters);
+    return renderPodcastFeed({
+      locale: request.locale,
+      feedUrl: buildApiUrl(path),
+      title: scope.title,
+      description: scope.description,
+      episodes,
+    });
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Sitemap Service
+ *
+ * Paginated XML sitemaps of published posts, games, franchises, platforms and
+ * companies, plus a sitemap index listing every page.
+ *
+ * - Pages are cut over documents, not URLs: each page takes SITEMAP_CONFIG.PAGE_SIZE
+ *   documents of the source locale and lists every published locale of each,
+ *   so a document's translations always share a page.
+ * - Each URL carries `hreflang` alternates to its i18n siblings (same
+ *   `documentId`) and an `x-default` pointing at the source locale.
+ * - `lastmod` is the locale entry's `updatedAt`; posts and games add their
+ *   featured/hero image as an image sitemap entry.
+ *
+ * Content is created in the source locale and translated from it, so a
+ * document without a source-locale entry is not listed. Rendered XML is
+ * cached (see feed-cache).
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import { DEFAULT_LOCALE } from '../../../utils/locales';
+import { getCachedFeed } from './feed-cache';
+import {
+  buildApiUrl,
+  buildGameUrl,
+  buildPostUrl,
+  buildSectionUrl,
+  escapeXml,
+  getFeedLocales,
+  toAbsoluteUrl,
+} from './feed-utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const SITEMAP_CONFIG = {
+  /** Documents per sitemap page (URLs = documents x locales, well under the 50,000 limit) */
+  PAGE_SIZE: 1000,
+} as const;
+
+export const SITEMAP_TYPES = ['posts', 'games', 'franchises', 'platforms', 'companies'] as const;
+
+export type SitemapType = (typeof SITEMAP_TYPES)[number];
+
+const SITEMAP_SOURCES: Record<
+  SitemapType,
+  { uid: string; image?: string; buildUrl: (locale: string, slug: string) => string }
+> = {
+  posts: { uid: 'api::post.post', image: 'featuredImage', buildUrl: buildPostUrl },
+  games: { uid: 'api::game.game', image: 'heroImage', buildUrl: buildGameUrl },
+  franchises: {
+    uid: 'api::franchise.franchise',
+    buildUrl: (locale, slug) => buildSectionUrl(locale, 'franchises', slug),
+  },
+  platforms: {
+    uid: 'api::platform.platform',
+    buildUrl: (locale, slug) => buildSectionUrl(locale, 'platforms', slug),
+  },
+  companies: {
+    uid: 'api::company.company',
+    buildUrl: (locale, slug) => buildSectionUrl(locale, 'companies', slug),
+  },
+};
+
+export const SITEMAP_INDEX_PATH = '/sitemaps/index.xml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One `<url>` of a sitemap page.
+ */
+export interface SitemapUrl {
+  readonly loc: string;
+  readonly lastmod?: string;
+  readonly alternates: ReadonlyArray<{ readonly hreflang: string; readonly href: string }>;
+  readonly images: readonly string[];
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class SitemapError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SitemapError';
+  }
+}
+
+interface SitemapDocument {
+  documentId: string;
+  slug?: string | null;
+  updatedAt?: string | null;
+  [image: string]: unknown;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+/**
+ * Path of a sitemap page (relative to the API prefix).
+ */
+export function getSitemapPath(type: SitemapType, page: number): string {
+  return `/sitemaps/${type}/${page}.xml`;
+}
+
+/**
+ * Validates the type and page of a sitemap request.
+ *
+ * @throws SitemapError (404) for unknown types or malformed page numbers
+ */
+function parseSitemapRequest(type: string, page: string | number): { type: SitemapType; page: number } {
+  if (!(SITEMAP_TYPES as readonly string[]).includes(type)) {
+    throw new SitemapError(`Unknown sitemap "${type}"`, 404);
+  }
+  const pageNumber = Number(page);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    throw new SitemapError(`Invalid sitemap page "${page}"`, 404);
+  }
+  return { type: type as SitemapType, page: pageNumber };
+}
+
+function getImageUrl(document: SitemapDocument, field: string | undefined): string | null {
+  const image = field ? (document[field] as { url?: string } | null | undefined) : null;
+  return image?.url ? toAbsoluteUrl(image.url) : null;
+}
+
+// ============================================================================
+// Data loading
+// ============================================================================
+
+/**
+ * Loads one page of documents with every published locale of each, as sitemap URLs.
+ *
+ * @throws SitemapError (404) for pages past the end (page 1 may be empty)
+ */
+export async function loadSitemapUrls(strapi: Core.Strapi, type: SitemapType, page: number): Promise<SitemapUrl[]> {
+  const source = SITEMAP_SOURCES[type];
+  const fields = ['slug', 'updatedAt'];
+
+  const sourceEntries: SitemapDocument[] = await documents(strapi, source.uid).findMany({
+    locale: DEFAULT_LOCALE,
+    status: 'published',
+    fields,
+    ...(source.image && { populate: { [source.image]: true } }),
+    sort: 'id:asc',
+    start: (page - 1) * SITEMAP_CONFIG.PAGE_SIZE,
+    limit: SITEMAP_CONFIG.PAGE_SIZE,
+  });
+  if (sourceEntries.length === 0 && page > 1) {
+    throw new SitemapError(`Sitemap page ${page} of ${type} not found`, 404);
+  }
+
+  const documentIds = sourceEntries.map((entry) => entry.documentId);
+  const entriesByLocale = new Map<string, Map<string, SitemapDocument>>([
+    [DEFAULT_LOCALE, new Map(sourceEntries.map((entry) => [entry.documentId, entry]))],
+  ]);
+
+  for (const locale of getFeedLocales().filter((code) => code !== DEFAULT_LOCALE)) {
+    if (documentIds.length === 0) break;
+    const siblings: SitemapDocument[] = await documents(strapi, source.uid).findMany({
+      locale,
+      status: 'published',
+      filters: { documentId: { $in: documentIds } },
+      fields,
+      limit: documentIds.length,
+    });
+    entriesByLocale.set(locale, new Map(siblings.map((entry) => [entry.documentId, entry])));
+  }
+
+  const urls: SitemapUrl[] = [];
+  for (const sourceEntry of sourceEntries) {
+    const localized = [...entriesByLocale.entries()]
+      .map(([locale, entries]) => ({ locale, entry: entries.get(sourceEntry.documentId) }))
+      .filter((item): item is { locale: string; entry: SitemapDocument & { slug: string } } =>
+        Boolean(item.entry?.slug)
+      );
+    if (localized.length === 0) continue;
+
+    const defaultEntry = localized.find(({ locale }) => locale === DEFAULT_LOCALE)?.entry;
+    const alternates =
+      localized.length > 1
+        ? [
+            ...localized.map(({ locale, entry }) => ({ hreflang: locale, href: source.buildUrl(locale, entry.slug) })),
+            ...(defaultEntry ? [{ hreflang: 'x-default', href: source.buildUrl(DEFAULT_LOCALE, defaultEntry.slug) }] : []),
+          ]
+        : [];
+    const image = getImageUrl(sourceEntry, source.image);
+
+    for (const { locale, entry } of localized) {
+      urls.push({
+        loc: source.buildUrl(locale, entry.slug),
+        ...(entry.updatedAt && { lastmod: new Date(entry.updatedAt).toISOString() }),
+        alternates,
+        images: image ? [image] : [],
+      });
+    }
+  }
+
+  return urls;
+}
+
+// ============================================================================
+// XML rendering
+// ============================================================================
+
+function renderUrl(url: SitemapUrl): string {
+  return [
+    '  <url>',
+    `    <loc>${escapeXml(url.loc)}</loc>`,
+    ...(url.lastmod ? [`    <lastmod>${url.lastmod}</lastmod>`] : []),
+    ...url.alternates.map(
+      (alternate) =>
+        `    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}"/>`
+    ),
+    ...url.images.map((image) => `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`),
+    '  </url>',
+  ].join('\n');
+}
+
+/**
+ * Renders a sitemap page (`<urlset>`).
+ */
+export function renderSitemap(urls: readonly SitemapUrl[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls.map(renderUrl),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Builds the sitemap index: every page of every sitemap type.
+ */
+export async function buildSitemapIndex(strapi: Core.Strapi): Promise<string> {
+  return getCachedFeed(SITEMAP_INDEX_PATH, async () => {
+    const locs: string[] = [];
+    for (const type of SITEMAP_TYPES) {
+      const count: number = await documents(strapi, SITEMAP_SOURCES[type].uid).count({
+        locale: DEFAULT_LOCALE,
+        status: 'published',
+      });
+      const pages = Math.ceil(count / SITEMAP_CONFIG.PAGE_SIZE);
+      for (let page = 1; page <= pages; page++) {
+        locs.push(buildApiUrl(getSitemapPath(type, page)));
+      }
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...locs.map((loc) => `  <sitemap><loc>${escapeXml(loc)}</loc></sitemap>`),
+      '</sitemapindex>',
+      '',
+    ].join('\n');
+  });
+}
+
+/**
+ * Builds one sitemap page.
+ *
+ * @throws SitemapError (404) for unknown types and pages past the end
+ */
+export async function buildSitemapPage(strapi: Core.Strapi, type: string, page: string | number): Promise<string> {
+  const request = parseSitemapRequest(type, page);
+  return getCachedFeed(getSitemapPath(request.type, request.page), async () =>
+    renderSitemap(await loadSitemapUrls(strapi, request.type, request.page))
+  );
+}
@@ -1,17 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { FranchiseLocaleData, FranchiseLocaleStrategy, FranchiseLocaleSyncResult } from './types';
-import { spanishFranchiseLocaleStrategy } from './strategies/spanish';
+import { createFranchiseLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for franchises
- * Add new locales here (e.g., frenchFranchiseLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: FranchiseLocaleStrategy[] = [
-  spanishFranchiseLocaleStrategy,
-  // Future locales:
-  // frenchFranchiseLocaleStrategy,
-  // germanFranchiseLocaleStrategy,
-];
+const strategyCache = new Map<string, FranchiseLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): FranchiseLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createFranchiseLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a franchise
@@ -27,7 +37,7 @@ export async function syncFranchiseLocales(
 ): Promise<FranchiseLocaleSyncResult[]> {
   const results: FranchiseLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -52,14 +62,14 @@ export async function syncFranchiseLocales(
  * Get list of configured locale codes for franchises
  */
 export function getConfiguredFranchiseLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for franchise sync
  */
 export function isFranchiseLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
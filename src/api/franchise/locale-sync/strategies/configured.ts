@@ -0,0 +1,68 @@
+import type { Core } from '@strapi/strapi';
+import type { FranchiseLocaleStrategy, FranchiseLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a franchise locale strategy from a locale definition
+ * Creates localized franchise entries using Strapi Document Service
+ */
+export function createFranchiseLocaleStrategy(definition: LocaleDefinition): FranchiseLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[FranchiseLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: FranchiseLocaleData): Promise<void> {
+      const franchiseService = strapi.documents('api::franchise.franchise');
+
+      // Check if this locale already exists for the document
+      const existing = await franchiseService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await franchiseService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: data.name,
+          slug: data.franchiseData.slug,
+          description: aiDescription,
+          igdbId: data.franchiseData.igdbId,
+          igdbUrl: data.franchiseData.igdbUrl,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for franchise: ${data.name}`);
+
+      // update() when creating new locale may not set all fields properly
+      // Update the description separately if it exists
+      if (aiDescription) {
+        await franchiseService.update({
+          documentId: data.documentId,
+          locale,
+          data: { description: aiDescription },
+        } as any);
+      }
+
+      // Publish to sync draft to published
+      await (franchiseService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for franchise: ${data.name}`);
+    },
+  };
+}
@@ -16,8 +16,8 @@ export interface FranchiseLocaleData {
     igdbId: number | null;
     igdbUrl: string | null;
   };
-  /** AI-generated description for this locale */
-  aiDescription: string;
+  /** AI-generated descriptions keyed by locale code (optional) */
+  aiDescriptions?: Record<string, string | undefined>;
 }
 
 /**
@@ -7,7 +7,7 @@
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { FranchiseDescriptionContext } from '../../../ai';
+import type { FranchiseDescriptionContext, LocalizedDescriptions } from '../../../ai';
 import type { FranchiseLocaleData, FranchiseLocaleSyncResult } from '../locale-sync';
 
 /**
@@ -29,7 +29,7 @@ export interface FranchiseEventData {
  */
 export interface FranchiseDescriptionDependencies {
   isAIConfigured: () => boolean;
-  generateFranchiseDescriptions: (context: FranchiseDescriptionContext) => Promise<{ en: string; es: string }>;
+  generateFranchiseDescriptions: (context: FranchiseDescriptionContext) => Promise<LocalizedDescriptions>;
   syncFranchiseLocales: (strapi: Core.Strapi, data: FranchiseLocaleData) => Promise<FranchiseLocaleSyncResult[]>;
   log: {
     info: (message: string) => void;
@@ -66,7 +66,7 @@ export async function generateFranchiseDescriptionsAndSync(
   const { isAIConfigured, generateFranchiseDescriptions, syncFranchiseLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -81,15 +81,17 @@ export async function generateFranchiseDescriptionsAndSync(
       // Generate descriptions for both locales in parallel
       const descriptions = await generateFranchiseDescriptions(context);
 
-      log.info(`[FranchiseDescription] Generated EN description (length: ${descriptions.en.length})`);
-      log.info(`[FranchiseDescription] Generated ES description (length: ${descriptions.es.length})`);
+      const { en: englishDescription, ...otherDescriptions } = descriptions;
+      for (const [locale, description] of Object.entries(descriptions)) {
+        log.info(`[FranchiseDescription] Generated ${locale.toUpperCase()} description (length: ${description.length})`);
+      }
 
       // Update English entry using Strapi's document service (not raw SQL)
       const franchiseService = strapi.documents('api::franchise.franchise');
       await franchiseService.update({
         documentId: franchise.documentId,
         locale: 'en',
-        data: { description: descriptions.en },
+        data: { description: englishDescription },
       } as any);
 
       // Publish to sync draft changes to published version
@@ -100,7 +102,7 @@ export async function generateFranchiseDescriptionsAndSync(
 
       log.info(`[FranchiseDescription] Updated and published English description for: ${franchise.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = descriptions.es;
+      localizedDescriptions = otherDescriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[FranchiseDescription] AI description error for "${franchise.name}": ${errorMessage}`);
@@ -110,7 +112,7 @@ export async function generateFranchiseDescriptionsAndSync(
     log.info(`[FranchiseDescription] AI not configured, skipping description generation for: ${franchise.name}`);
   }
 
-  // ALWAYS sync locales (create Spanish entry) regardless of AI configuration
+  // ALWAYS sync locales (create an entry per content locale) regardless of AI configuration
   // This ensures bidirectional relationships work correctly
   try {
     const localeData: FranchiseLocaleData = {
@@ -122,10 +124,10 @@ export async function generateFranchiseDescriptionsAndSync(
         igdbId: franchise.igdbId,
         igdbUrl: franchise.igdbUrl,
       },
-      aiDescription: spanishDescription,
+      aiDescriptions: localizedDescriptions,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncFranchiseLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
@@ -1,10 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { GameEngineLocaleData, GameEngineLocaleStrategy, GameEngineLocaleSyncResult } from './types';
-import { spanishGameEngineLocaleStrategy } from './strategies/spanish';
-
-const strategies: GameEngineLocaleStrategy[] = [
-  spanishGameEngineLocaleStrategy,
-];
+import { createGameEngineLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
+
+/**
+ * Strategies built so far, keyed by locale code
+ */
+const strategyCache = new Map<string, GameEngineLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): GameEngineLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createGameEngineLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 export async function syncGameEngineLocales(
   strapi: Core.Strapi,
@@ -12,7 +29,7 @@ export async function syncGameEngineLocales(
 ): Promise<GameEngineLocaleSyncResult[]> {
   const results: GameEngineLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({ locale: strategy.locale, success: true });
@@ -27,11 +44,11 @@ export async function syncGameEngineLocales(
 }
 
 export function getConfiguredGameEngineLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 export function isGameEngineLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 export type { GameEngineLocaleData, GameEngineLocaleStrategy, GameEngineLocaleSyncResult } from './types';
@@ -0,0 +1,56 @@
+import type { Core } from '@strapi/strapi';
+import type { GameEngineLocaleStrategy, GameEngineLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a game engine locale strategy from a locale definition
+ * Creates localized game engine entries using Strapi Document Service
+ */
+export function createGameEngineLocaleStrategy(definition: LocaleDefinition): GameEngineLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[GameEngineLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: GameEngineLocaleData): Promise<void> {
+      const service = strapi.documents('api::game-engine.game-engine');
+
+      // Check if this locale already exists for the document
+      const existing = await service.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await service.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: data.name,
+          slug: data.gameEngineData.slug,
+          description: data.gameEngineData.description,
+          logoUrl: data.gameEngineData.logoUrl,
+          igdbId: data.gameEngineData.igdbId,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for: ${data.name}`);
+
+      // Publish to sync draft to published
+      await (service as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for: ${data.name}`);
+    },
+  };
+}
@@ -36,7 +36,12 @@ import {
 } from '../../../ai';
 import { syncLocales, type GameLocaleData } from '../../game/locale-sync';
 import { resolveIGDBGameIdFromQuery } from '../services/game-resolver';
+import { syncGameFromIGDB, GameSyncError } from '../services/game-sync';
+import { discoverAffiliateLinks } from '../../affiliate-link/services/affiliate-link-discovery';
+import { isAuthenticated } from '../../article-generator/utils/admin-auth';
+import { emitWebhookEvent } from '../../webhook-subscription/services/webhook-dispatcher';
 import { slugify } from '../../../utils/slug';
+import { getContentLocales } from '../../../utils/locales';
 
 interface SearchQuery {
   q?: string;
@@ -934,7 +939,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
 
           // Get localized names
           const englishName = gameData.localizedNames.en.name;
-          const spanishName = gameData.localizedNames.es.name;
+          const contentLocales = getContentLocales();
 
           // Build base context (shared between locales)
           const baseContext: Omit<GameDescriptionContext, 'name'> = {
@@ -946,10 +951,13 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             publisher: publisherName,
           };
 
-          // Generate descriptions for both locales in parallel, using locale-specific names
-          const [enDescription, esDescription] = await Promise.all([
+          // Generate descriptions for all locales in parallel, using locale-specific names
+          const [enDescription, ...localizedDescriptions] = await Promise.all([
             generateGameDescription({ ...baseContext, name: englishName }, 'en'),
-            generateGameDescription({ ...baseContext, name: spanishName }, 'es'),
+            ...contentLocales.map(locale => generateGameDescription(
+              { ...baseContext, name: gameData.localizedNames[locale.code]?.name ?? englishName },
+              locale.code as SupportedLocale
+            )),
           ]);
 
           // Update English description (this updates the draft)
@@ -972,8 +980,10 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             strapi.log.error(`[GameFetcher] Failed to update/publish English description: ${updateError}`);
           }
 
-          // Sync locales with AI-generated Spanish description
-          localeData.aiDescription = esDescription;
+          // Sync locales with their AI-generated descriptions
+          localeData.aiDescriptions = Object.fromEntries(
+            contentLocales.map((locale, index) => [locale.code, localizedDescriptions[index]])
+          );
           await syncLocales(strapi, localeData);
 
           aiGenerated = true;
@@ -1008,6 +1018,21 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
         }
       }
 
+      // Affiliate links are optional - never fail the import over them
+      try {
+        await discoverAffiliateLinks(strapi, created.documentId);
+      } catch (affiliateError) {
+        strapi.log.warn(`[GameFetcher] Affiliate link discovery failed: ${affiliateError}`);
+      }
+
+      emitWebhookEvent(strapi, 'game.imported', {
+        documentId: created.documentId,
+        igdbId: Number(igdbId),
+        name: gameData.name,
+        slug: gameData.slug,
+        aiGenerated,
+      });
+
       ctx.body = {
         success: true,
         message: `Game "${gameData.name}" imported successfully`,
@@ -1021,12 +1046,19 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
             slug: gameData.slug,
             coverUrl: gameData.localizedNames.en.coverUrl,
           },
-          es: { 
-            name: gameData.localizedNames.es.name, 
-            slug: slugify(gameData.localizedNames.es.name),
-            coverUrl: gameData.localizedNames.es.coverUrl,
-            fromIGDB: gameData.localizedNames.es.name !== gameData.name,
-          },
+          ...Object.fromEntries(
+            getContentLocales()
+              .filter(locale => gameData.localizedNames[locale.code])
+              .map(locale => {
+                const localized = gameData.localizedNames[locale.code];
+                return [locale.code, {
+                  name: localized.name,
+                  slug: slugify(localized.name),
+                  coverUrl: localized.coverUrl,
+                  fromIGDB: localized.name !== gameData.name,
+                }];
+              })
+          ),
         },
         stats: {
           platforms: platformIds.length,
@@ -1148,6 +1180,38 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
     }
   },
 
+  /**
+   * Re-sync an imported game with IGDB, updating only fields that changed upstream.
+   * POST /api/game-fetcher/sync/:documentId?dryRun=true
+   * Auth: Either x-ai-generation-secret header OR admin JWT token
+   *
+   * Editor-owned fields (name, slug, description) are never modified.
+   * With `dryRun=true` the diff is returned without writing anything.
+   */
+  async syncGame(ctx) {
+    if (!isAuthenticated(strapi, ctx)) {
+      return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+    }
+
+    const { documentId } = ctx.params;
+    const dryRun = ctx.query?.dryRun === 'true';
+
+    try {
+      const result = await syncGameFromIGDB(strapi, documentId, { trigger: 'manual', dryRun });
+      ctx.body = {
+        success: true,
+        dryRun,
+        ...result,
+      };
+    } catch (error) {
+      if (error instanceof GameSyncError) {
+        return error.status === 404 ? ctx.notFound(error.message) : ctx.badRequest(error.message);
+      }
+      strapi.log.error('[GameFetcher] Sync error:', error);
+      return ctx.internalServerError('Failed to sync game from IGDB');
+    }
+  },
+
   /**
    * Check AI configuration status
    * GET /api/game-fetcher/ai-status
@@ -60,6 +60,15 @@ export default {
         policies: [],
       },
     },
+    {
+      method: 'POST',
+      path: '/game-fetcher/sync/:documentId',
+      handler: 'game-fetcher.syncGame',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
     {
       method: 'GET',
       path: '/game-fetcher/ai-status',
@@ -0,0 +1,513 @@
+/**
+ * IGDB Game Sync Service
+ *
+ * Re-fetches already-imported games from IGDB and applies upstream changes
+ * (ratings, hype, status, release date, media, store URLs, related-game links).
+ *
+ * Only IGDB-owned fields are compared. Editor-owned fields (name, slug,
+ * description, hero image, sponsorship) are never touched, so AI/editor
+ * rewrites survive a sync. Changes are written to the draft and published
+ * rows of every locale without publishing, so unpublished editor work stays
+ * in the draft. Every applied change is recorded per field in
+ * `api::game-sync-log.game-sync-log`.
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import type { GameDocument } from '../../../types/strapi';
+import { discoverAffiliateLinks, STORE_URL_FIELDS } from '../../affiliate-link/services/affiliate-link-discovery';
+import { emitWebhookEvent } from '../../webhook-subscription/services/webhook-dispatcher';
+import type { GameData } from './igdb';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Scalar game fields that mirror IGDB and are safe to overwrite on sync.
+ * Deliberately excludes name, slug and description (editor-owned).
+ */
+export const IGDB_SYNCED_FIELDS = [
+  'releaseDate',
+  'gameCategory',
+  'gameStatus',
+  'coverImageUrl',
+  'screenshotUrls',
+  'trailerIds',
+  'metacriticScore',
+  'userRating',
+  'userRatingCount',
+  'totalRating',
+  'totalRatingCount',
+  'hypes',
+  'multiplayerModes',
+  'officialWebsite',
+  'steamUrl',
+  'epicUrl',
+  'gogUrl',
+  'itchUrl',
+  'discordUrl',
+  'igdbUrl',
+] as const satisfies readonly (keyof GameDocument & keyof GameData)[];
+
+/**
+ * Game-to-game relations kept in sync with IGDB (only to games imported locally).
+ */
+export const IGDB_SYNCED_RELATIONS = ['parentGame', 'dlcs', 'remakes', 'remasters', 'similarGames'] as const;
+
+/** Ratings come back as floats; ignore noise below this */
+const NUMBER_TOLERANCE = 0.005;
+
+/** Games synced per scheduled run */
+const DEFAULT_BATCH_SIZE = 50;
+
+const GAME_UID = 'api::game.game';
+const SYNC_LOG_UID = 'api::game-sync-log.game-sync-log';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IGDBSyncedField = (typeof IGDB_SYNCED_FIELDS)[number];
+export type IGDBSyncedRelation = (typeof IGDB_SYNCED_RELATIONS)[number];
+
+/**
+ * A single field that differs between the stored game and IGDB.
+ * Relation values are expressed as IGDB ids so the log stays readable.
+ */
+export interface GameFieldChange {
+  readonly field: IGDBSyncedField | IGDBSyncedRelation;
+  readonly previousValue: unknown;
+  readonly newValue: unknown;
+}
+
+export type GameSyncTrigger = 'scheduled' | 'manual';
+
+export interface GameSyncOptions {
+  /** What started the sync (stored on each change log entry) */
+  readonly trigger?: GameSyncTrigger;
+  /** Compute the diff without writing anything */
+  readonly dryRun?: boolean;
+}
+
+export interface GameSyncResult {
+  readonly documentId: string;
+  readonly name: string;
+  readonly igdbId: number;
+  readonly changes: readonly GameFieldChange[];
+  /** True if changes were written (false for dry runs and no-op syncs) */
+  readonly updated: boolean;
+}
+
+export interface GameSyncBatchResult {
+  readonly checked: number;
+  readonly updated: number;
+  readonly failed: number;
+  readonly results: readonly GameSyncResult[];
+  readonly errors: readonly { documentId: string; error: string }[];
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class GameSyncError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GameSyncError';
+  }
+}
+
+/** Minimal shape of a related game populated for diffing */
+interface RelatedGameRef {
+  documentId: string;
+  igdbId: number | null;
+}
+
+/** Target document ids per changed relation */
+type SyncedRelationTargets = Partial<Record<IGDBSyncedRelation, string[]>>;
+
+/** Database row of a game (one per locale and publication state) */
+interface GameRow {
+  id: number;
+  documentId: string;
+  locale: string;
+  publishedAt: string | null;
+}
+
+type StoredGame = GameDocument & {
+  parentGame?: RelatedGameRef | null;
+  dlcs?: RelatedGameRef[];
+  remakes?: RelatedGameRef[];
+  remasters?: RelatedGameRef[];
+  similarGames?: RelatedGameRef[];
+};
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Compare a stored value with an IGDB value, tolerating storage quirks:
+ * empty values are equivalent, decimals may come back as strings, and
+ * ratings differ by float noise.
+ */
+export function isSameValue(stored: unknown, upstream: unknown): boolean {
+  if (isEmpty(stored) && isEmpty(upstream)) return true;
+  if (isEmpty(stored) !== isEmpty(upstream)) return false;
+
+  if (typeof upstream === 'number') {
+    const storedNumber = Number(stored);
+    return Number.isFinite(storedNumber) && Math.abs(storedNumber - upstream) < NUMBER_TOLERANCE;
+  }
+
+  if (typeof upstream === 'string' && typeof stored === 'string') {
+    return stored.trim() === upstream.trim();
+  }
+
+  return JSON.stringify(stored) === JSON.stringify(upstream);
+}
+
+/**
+ * Diff the IGDB-owned scalar fields of a stored game against fresh IGDB data.
+ */
+export function diffGameFields(stored: GameDocument, upstream: GameData): GameFieldChange[] {
+  const changes: GameFieldChange[] = [];
+  for (const field of IGDB_SYNCED_FIELDS) {
+    const previousValue = stored[field] ?? null;
+    const newValue = upstream[field] ?? null;
+    if (!isSameValue(previousValue, newValue)) {
+      changes.push({ field, previousValue, newValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Upstream IGDB ids for each synced relation.
+ * `parentGame` is null when IGDB has no parent.
+ */
+export function getUpstreamRelationIds(upstream: GameData): Record<IGDBSyncedRelation, number[]> {
+  return {
+    parentGame: upstream.parentGameId ? [upstream.parentGameId] : [],
+    dlcs: [...new Set([...upstream.dlcIds, ...upstream.expansionIds])],
+    remakes: upstream.remakeIds,
+    remasters: upstream.remasterIds,
+    similarGames: upstream.similarGameIds,
+  };
+}
+
+function sortedIds(ids: readonly number[]): number[] {
+  return [...ids].sort((a, b) => a - b);
+}
+
+/**
+ * Diff one relation given the currently linked games and the upstream
+ * targets that exist locally. Returns null when nothing changed.
+ */
+export function diffRelation(
+  field: IGDBSyncedRelation,
+  current: readonly RelatedGameRef[],
+  localTargets: readonly RelatedGameRef[]
+): GameFieldChange | null {
+  const previousValue = sortedIds(current.map((g) => g.igdbId).filter((id): id is number => id !== null));
+  const newValue = sortedIds(localTargets.map((g) => g.igdbId).filter((id): id is number => id !== null));
+  if (JSON.stringify(previousValue) === JSON.stringify(newValue)) {
+    return null;
+  }
+  return { field, previousValue, newValue };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+/**
+ * Look up locally imported games by IGDB id.
+ */
+async function findLocalGamesByIgdbIds(strapi: Core.Strapi, igdbIds: readonly number[]): Promise<RelatedGameRef[]> {
+  if (igdbIds.length === 0) return [];
+  const games = await documents(strapi, GAME_UID).findMany({
+    filters: { igdbId: { $in: [...igdbIds] } },
+    locale: 'en',
+    fields: ['igdbId'],
+  });
+  return (games as RelatedGameRef[]).map((g) => ({ documentId: g.documentId, igdbId: g.igdbId }));
+}
+
+/**
+ * Write synced values to every row of a game - each locale, draft and
+ * published - directly, so a sync never publishes pending editor changes.
+ *
+ * IGDB fields are non-localized and go to all rows at once. Relations are
+ * localized, so each row links to the target rows of its own locale and
+ * publication state; targets missing from a locale are left out.
+ */
+async function applyGameSync(
+  strapi: Core.Strapi,
+  documentId: string,
+  fields: Record<string, unknown>,
+  relations: SyncedRelationTargets
+): Promise<void> {
+  const query = strapi.db.query(GAME_UID as any);
+
+  if (Object.keys(fields).length > 0) {
+    await query.updateMany({ where: { documentId }, data: fields });
+  }
+
+  const relationEntries = Object.entries(relations) as [IGDBSyncedRelation, string[]][];
+  if (relationEntries.length === 0) return;
+
+  const targetDocumentIds = [...new Set(relationEntries.flatMap(([, ids]) => ids))];
+  const rows = (await query.findMany({
+    where: { documentId },
+    select: ['id', 'locale', 'publishedAt'],
+  })) as GameRow[];
+
+  for (const row of rows) {
+    const targetRows = targetDocumentIds.length > 0
+      ? ((await query.findMany({
+          where: {
+            documentId: { $in: targetDocumentIds },
+            locale: row.locale,
+            publishedAt: row.publishedAt ? { $notNull: true } : { $null: true },
+          },
+          select: ['id', 'documentId'],
+        })) as GameRow[])
+      : [];
+    const rowIdByDocumentId = new Map(targetRows.map((target) => [target.documentId, target.id]));
+
+    const data: Record<string, unknown> = {};
+    for (const [field, ids] of relationEntries) {
+      const rowIds = ids
+        .map((id) => rowIdByDocumentId.get(id))
+        .filter((id): id is number => id !== undefined);
+      data[field] = field === 'parentGame' ? rowIds[0] ?? null : rowIds;
+    }
+    await query.update({ where: { id: row.id }, data });
+  }
+}
+
+/**
+ * Re-sync a single game with IGDB.
+ *
+ * @throws GameSyncError (404) if the game doesn't exist or isn't in IGDB,
+ *         (400) if it has no igdbId or IGDB isn't configured
+ */
+export async function syncGameFromIGDB(
+  strapi: Core.Strapi,
+  documentId: string,
+  options: GameSyncOptions = {}
+): Promise<GameSyncResult> {
+  const { trigger = 'manual', dryRun = false } = options;
+  const igdbService = strapi.service('api::game-fetcher.igdb');
+  if (!igdbService.isConfigured()) {
+    throw new GameSyncError('IGDB is not configured', 400);
+  }
+
+  const gameService = documents(strapi, GAME_UID);
+  const relatedFields = { fields: ['igdbId'] };
+  const stored = (await gameService.findOne({
+    documentId,
+    locale: 'en',
+    populate: {
+      parentGame: relatedFields,
+      dlcs: relatedFields,
+      remakes: relatedFields,
+      remasters: relatedFields,
+      similarGames: relatedFields,
+    },
+  })) as StoredGame | null;
+
+  if (!stored) {
+    throw new GameSyncError('Game not found', 404);
+  }
+  if (!stored.igdbId) {
+    throw new GameSyncError(`Game "${stored.name}" has no igdbId to sync from`, 400);
+  }
+
+  const upstream = (await igdbService.getGameById(stored.igdbId)) as GameData | null;
+  if (!upstream) {
+    throw new GameSyncError(`Game ${stored.igdbId} not found in IGDB`, 404);
+  }
+
+  const changes: GameFieldChange[] = diffGameFields(stored, upstream);
+  const fields: Record<string, unknown> = {};
+  for (const change of changes) {
+    fields[change.field] = change.newValue;
+  }
+  const relations: SyncedRelationTargets = {};
+
+  // Related games: link only to games we have imported
+  const upstreamRelations = getUpstreamRelationIds(upstream);
+  const localGames = await findLocalGamesByIgdbIds(
+    strapi,
+    [...new Set(Object.values(upstreamRelations).flat())]
+  );
+  const localByIgdbId = new Map(localGames.map((g) => [g.igdbId, g]));
+
+  for (const field of IGDB_SYNCED_RELATIONS) {
+    const targets = upstreamRelations[field]
+      .map((id) => localByIgdbId.get(id))
+      .filter((g): g is RelatedGameRef => g !== undefined);
+
+    if (field === 'parentGame') {
+      // A parent that isn't imported yet can't be linked - keep whatever is there
+      if (upstreamRelations.parentGame.length > 0 && targets.length === 0) continue;
+      const current = stored.parentGame ? [stored.parentGame] : [];
+      const change = diffRelation(field, current, targets);
+      if (change) {
+        changes.push(change);
+        relations.parentGame = targets.slice(0, 1).map((g) => g.documentId);
+      }
+      continue;
+    }
+
+    const change = diffRelation(field, stored[field] ?? [], targets);
+    if (change) {
+      changes.push(change);
+      relations[field] = targets.map((g) => g.documentId);
+    }
+  }
+
+  const result = {
+    documentId: stored.documentId,
+    name: stored.name,
+    igdbId: stored.igdbId,
+    changes,
+  };
+
+  if (dryRun) {
+    return { ...result, updated: false };
+  }
+
+  const syncedAt = new Date().toISOString();
+
+  if (changes.length > 0) {
+    await applyGameSync(strapi, documentId, fields, relations);
+
+    const logService = documents(strapi, SYNC_LOG_UID);
+    for (const change of changes) {
+      await logService.create({
+        data: {
+          game: { connect: [documentId] },
+          igdbId: stored.igdbId,
+          field: change.field,
+          previousValue: change.previousValue,
+          newValue: change.newValue,
+          trigger,
+          syncedAt,
+        },
+      });
+    }
+
+    strapi.log.info(
+      `[GameSync] Updated "${stored.name}" (${changes.length} field(s): ${changes.map((c) => c.field).join(', ')})`
+    );
+    emitWebhookEvent(strapi, 'game.synced', {
+      documentId,
+      igdbId: stored.igdbId,
+      name: stored.name,
+      trigger,
+      fields: changes.map((c) => c.field),
+    });
+
+    // New or moved store pages need their affiliate links refreshed
+    if (changes.some((c) => c.field in STORE_URL_FIELDS)) {
+      try {
+        await discoverAffiliateLinks(strapi, documentId);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        strapi.log.warn(`[GameSync] Affiliate link discovery failed for "${stored.name}": ${msg}`);
+      }
+    }
+  } else {
+    strapi.log.debug(`[GameSync] "${stored.name}" is up to date`);
+  }
+
+  // Bookkeeping only - write to every row directly so it doesn't create a draft change
+  await strapi.db.query(GAME_UID as any).updateMany({
+    where: { documentId },
+    data: { igdbSyncedAt: syncedAt },
+  });
+
+  return { ...result, updated: changes.length > 0 };
+}
+
+let batchRunning = false;
+
+/**
+ * Sync the least recently synced imported games (never-synced first).
+ * Runs games sequentially to stay within IGDB rate limits; overlapping runs are skipped.
+ */
+export async function syncImportedGames(
+  strapi: Core.Strapi,
+  options: { batchSize?: number; trigger?: GameSyncTrigger } = {}
+): Promise<GameSyncBatchResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const trigger = options.trigger ?? 'scheduled';
+  const empty: GameSyncBatchResult = { checked: 0, updated: 0, failed: 0, results: [], errors: [] };
+
+  if (batchRunning) {
+    strapi.log.warn('[GameSync] Previous sync batch still running, skipping');
+    return empty;
+  }
+  if (!strapi.service('api::game-fetcher.igdb').isConfigured()) {
+    strapi.log.warn('[GameSync] IGDB is not configured, skipping sync');
+    return empty;
+  }
+
+  batchRunning = true;
+  try {
+    const gameService = documents(strapi, GAME_UID);
+    const neverSynced = (await gameService.findMany({
+      filters: { igdbId: { $notNull: true }, igdbSyncedAt: { $null: true } },
+      locale: 'en',
+      fields: ['name'],
+      limit: batchSize,
+    })) as GameDocument[];
+    const stale = neverSynced.length < batchSize
+      ? ((await gameService.findMany({
+          filters: { igdbId: { $notNull: true }, igdbSyncedAt: { $notNull: true } },
+          locale: 'en',
+          fields: ['name'],
+          sort: ['igdbSyncedAt:asc'],
+          limit: batchSize - neverSynced.length,
+        })) as GameDocument[])
+      : [];
+
+    const results: GameSyncResult[] = [];
+    const errors: { documentId: string; error: string }[] = [];
+
+    for (const game of [...neverSynced, ...stale]) {
+      try {
+        results.push(await syncGameFromIGDB(strapi, game.documentId, { trigger }));
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        errors.push({ documentId: game.documentId, error: msg });
+        strapi.log.error(`[GameSync] Failed to sync "${game.name}": ${msg}`);
+      }
+    }
+
+    const updated = results.filter((r) => r.updated).length;
+    strapi.log.info(
+      `[GameSync] Checked ${results.length + errors.length} game(s): ${updated} updated, ${errors.length} failed`
+    );
+
+    return { checked: results.length + errors.length, updated, failed: errors.length, results, errors };
+  } finally {
+    batchRunning = false;
+  }
+}
@@ -21,6 +21,7 @@ import {
   IGDB_PLATFORM_TYPE_MAP,
   IGDBWebsiteCategoryEnum,
 } from '../../../types/igdb';
+import { getContentLocales, type LocaleDefinition } from '../../../utils/locales';
 
 // -----------------------------------------------------------------------------
 // Type Helpers
@@ -194,8 +195,8 @@ export interface LocalizedData {
 export interface LocalizedNames {
   /** English data (always present) */
   en: LocalizedData;
-  /** Spanish data (falls back to English if not available) */
-  es: LocalizedData;
+  /** Every configured content locale (falls back to English if not available) */
+  [locale: string]: LocalizedData;
 }
 
 export interface GameData {
@@ -763,18 +764,20 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
     const dlcIds = game.dlcs || [];
     const expansionIds = game.expansions || [];
 
-    // Fetch localized names (Spanish, etc.) from both localizations and alternative names
+    // Fetch localized names for every content locale from both localizations and alternative names
     const localizations = await this.getGameLocalizations(game.id);
     const alternativeNames = await this.getAlternativeNames(game.id);
-    const spanishData = this.getSpanishName(localizations, alternativeNames, game.name);
-    
+
     const localizedNames: LocalizedNames = {
       en: { name: game.name, coverUrl: coverImageUrl },
-      es: { 
-        name: spanishData.name, 
-        coverUrl: spanishData.coverUrl || coverImageUrl, // Fall back to main cover if no localized cover
-      },
     };
+    for (const locale of getContentLocales()) {
+      const localized = this.getLocalizedName(localizations, alternativeNames, game.name, locale);
+      localizedNames[locale.code] = {
+        name: localized.name,
+        coverUrl: localized.coverUrl || coverImageUrl, // Fall back to main cover if no localized cover
+      };
+    }
 
     return {
       name: game.name,
@@ -879,59 +882,58 @@ export default ({ strapi }: { strapi: Core.Strapi }) => ({
   },
 
   /**
-   * Extract Spanish localized name from IGDB localizations and alternative names
-   * Checks both game_localizations (by region) and alternative_names (by comment)
-   * Falls back to English name if no Spanish localization found
+   * Extract the localized name for a locale from IGDB localizations and alternative names
+   * Checks game_localizations (by region identifier, then region name) and
+   * alternative_names (by comment), using the keywords from the locale definition.
+   * Falls back to English name if no localization found
    */
-  getSpanishName(
-    localizations: IGDBGameLocalization[], 
+  getLocalizedName(
+    localizations: IGDBGameLocalization[],
     alternativeNames: Array<{ name: string; comment?: string }>,
-    englishName: string
+    englishName: string,
+    locale: LocaleDefinition
   ): { name: string; coverUrl: string | null } {
-    // 1. First check game_localizations for Spanish region
-    const spanishRegionIdentifiers = ['es_ES', 'es_MX', 'es_419', 'es'];
-    
-    for (const identifier of spanishRegionIdentifiers) {
-      const spanishLocalization = localizations.find(loc => {
+    const toCoverUrl = (localization: IGDBGameLocalization): string | null => {
+      const cover = asObject<IGDBCover>(localization.cover);
+      return cover?.image_id
+        ? `https://images.igdb.com/igdb/image/upload/t_cover_big_2x/${cover.image_id}.jpg`
+        : null;
+    };
+
+    // 1. First check game_localizations for the locale's regions
+    for (const identifier of locale.igdbRegionIdentifiers) {
+      const regionLocalization = localizations.find(loc => {
         const region = asObject<IGDBRegion>(loc.region);
         return region?.identifier?.toLowerCase() === identifier.toLowerCase();
       });
-      if (spanishLocalization?.name) {
-        const cover = asObject<IGDBCover>(spanishLocalization.cover);
-        const coverUrl = cover?.image_id
-          ? `https://images.igdb.com/igdb/image/upload/t_cover_big_2x/${cover.image_id}.jpg`
-          : null;
-        strapi.log.info(`[IGDB] Using Spanish localization: "${spanishLocalization.name}" (region: ${identifier})`);
-        return { name: spanishLocalization.name, coverUrl };
+      if (regionLocalization?.name) {
+        strapi.log.info(`[IGDB] Using ${locale.language} localization: "${regionLocalization.name}" (region: ${identifier})`);
+        return { name: regionLocalization.name, coverUrl: toCoverUrl(regionLocalization) };
       }
     }
-    
-    // Also check by region name containing "Spain" or "Spanish"
-    const spanishByName = localizations.find(loc => {
-      const region = asObject<IGDBRegion>(loc.region);
-      return region?.name?.toLowerCase().includes('spain') ||
-             region?.name?.toLowerCase().includes('spanish');
+
+    // Also check by region name (e.g., containing "Spain" or "Spanish")
+    const byRegionName = localizations.find(loc => {
+      const regionName = asObject<IGDBRegion>(loc.region)?.name?.toLowerCase();
+      return !!regionName && locale.igdbRegionKeywords.some(keyword => regionName.includes(keyword));
     });
-    if (spanishByName?.name) {
-      const cover = asObject<IGDBCover>(spanishByName.cover);
-      const coverUrl = cover?.image_id
-        ? `https://images.igdb.com/igdb/image/upload/t_cover_big_2x/${cover.image_id}.jpg`
-        : null;
-      strapi.log.info(`[IGDB] Using Spanish localization by name: "${spanishByName.name}"`);
-      return { name: spanishByName.name, coverUrl };
+    if (byRegionName?.name) {
+      strapi.log.info(`[IGDB] Using ${locale.language} localization by name: "${byRegionName.name}"`);
+      return { name: byRegionName.name, coverUrl: toCoverUrl(byRegionName) };
     }
-    
-    // 2. Check alternative_names for Spanish title comment
-    const spanishAltName = alternativeNames.find(
-      an => an.comment?.toLowerCase().includes('spanish')
-    );
-    if (spanishAltName?.name) {
-      strapi.log.info(`[IGDB] Using Spanish alternative name: "${spanishAltName.name}" (comment: ${spanishAltName.comment})`);
-      return { name: spanishAltName.name, coverUrl: null };
+
+    // 2. Check alternative_names for a title comment in the locale's language
+    const altName = alternativeNames.find(an => {
+      const comment = an.comment?.toLowerCase();
+      return !!comment && locale.alternativeNameKeywords.some(keyword => comment.includes(keyword));
+    });
+    if (altName?.name) {
+      strapi.log.info(`[IGDB] Using ${locale.language} alternative name: "${altName.name}" (comment: ${altName.comment})`);
+      return { name: altName.name, coverUrl: null };
     }
-    
+
     // 3. Fallback to English name
-    strapi.log.info(`[IGDB] No Spanish localization found, using English name: "${englishName}"`);
+    strapi.log.info(`[IGDB] No ${locale.language} localization found, using English name: "${englishName}"`);
     return { name: englishName, coverUrl: null };
   },
 
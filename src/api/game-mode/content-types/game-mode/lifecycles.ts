@@ -4,8 +4,8 @@
  * When a game mode is created:
  * 1. Generate AI description for English locale
  * 2. Update the English entry with the description
- * 3. Generate AI description for Spanish locale (translated name)
- * 4. Create Spanish locale entry with the description
+ * 3. Generate AI descriptions for each configured content locale (translated name)
+ * 4. Create an entry per content locale with its description
  */
 
 import type { Core } from '@strapi/strapi';
@@ -1,10 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { GameModeLocaleData, GameModeLocaleStrategy, GameModeLocaleSyncResult } from './types';
-import { spanishGameModeLocaleStrategy } from './strategies/spanish';
-
-const strategies: GameModeLocaleStrategy[] = [
-  spanishGameModeLocaleStrategy,
-];
+import { createGameModeLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
+
+/**
+ * Strategies built so far, keyed by locale code
+ */
+const strategyCache = new Map<string, GameModeLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): GameModeLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createGameModeLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 export async function syncGameModeLocales(
   strapi: Core.Strapi,
@@ -12,7 +29,7 @@ export async function syncGameModeLocales(
 ): Promise<GameModeLocaleSyncResult[]> {
   const results: GameModeLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({ locale: strategy.locale, success: true });
@@ -27,11 +44,11 @@ export async function syncGameModeLocales(
 }
 
 export function getConfiguredGameModeLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 export function isGameModeLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 export type { GameModeLocaleData, GameModeLocaleStrategy, GameModeLocaleSyncResult } from './types';
@@ -4,34 +4,38 @@
  * Handles generating AI descriptions for game modes and syncing locales.
  * Extracted from lifecycle for testability.
  * 
- * IMPORTANT: Spanish descriptions are generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El modo **Un jugador**..." not "El modo **Single player**..."
  */
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { GameModeDescriptionContext } from '../../../ai';
+import type { GameModeDescriptionContext, SupportedLocale } from '../../../ai';
+import { getContentLocales } from '../../../utils/locales';
 import type { GameModeLocaleData, GameModeLocaleSyncResult } from '../locale-sync';
 
 /**
- * Common game mode name translations (English to Spanish)
+ * Common game mode name translations by locale code (English name to translated name)
+ * Locales without a table keep the English name
  */
-const GAME_MODE_TRANSLATIONS: Record<string, string> = {
-  'Single player': 'Un jugador',
-  'Multiplayer': 'Multijugador',
-  'Co-operative': 'Cooperativo',
-  'Co-op': 'Cooperativo',
-  'Split screen': 'Pantalla dividida',
-  'Massively Multiplayer Online (MMO)': 'Multijugador masivo en línea (MMO)',
-  'MMO': 'MMO',
-  'Battle Royale': 'Battle Royale',
+const GAME_MODE_TRANSLATIONS: Record<string, Record<string, string>> = {
+  es: {
+    'Single player': 'Un jugador',
+    'Multiplayer': 'Multijugador',
+    'Co-operative': 'Cooperativo',
+    'Co-op': 'Cooperativo',
+    'Split screen': 'Pantalla dividida',
+    'Massively Multiplayer Online (MMO)': 'Multijugador masivo en línea (MMO)',
+    'MMO': 'MMO',
+    'Battle Royale': 'Battle Royale',
+  },
 };
 
 /**
- * Get Spanish translation for a game mode name
+ * Get the translation of a game mode name for a locale (falls back to the English name)
  */
-export function getSpanishGameModeName(englishName: string): string {
-  return GAME_MODE_TRANSLATIONS[englishName] || englishName;
+export function getLocalizedGameModeName(englishName: string, locale: string): string {
+  return GAME_MODE_TRANSLATIONS[locale]?.[englishName] || englishName;
 }
 
 /**
@@ -47,11 +51,6 @@ export interface GameModeEventData {
   igdbId: number | null;
 }
 
-/**
- * Supported locales for description generation
- */
-type SupportedLocale = 'en' | 'es';
-
 /**
  * Dependencies that can be injected for testing
  */
@@ -79,7 +78,7 @@ export interface GameModeDescriptionResult {
 /**
  * Generate descriptions for a game mode and sync locales
  * 
- * IMPORTANT: Spanish description is generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El modo **Un jugador**..." not "El modo **Single player**..."
  */
 export async function generateGameModeDescriptionsAndSync(
@@ -91,10 +90,13 @@ export async function generateGameModeDescriptionsAndSync(
   const { isAIConfigured, generateGameModeDescription, syncGameModeLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
-  // Get Spanish name FIRST - needed for Spanish description generation
-  const spanishName = getSpanishGameModeName(gameMode.name);
+  // Get translated names FIRST - needed for each locale's description
+  const contentLocales = getContentLocales();
+  const localizedNames: Record<string, string> = Object.fromEntries(
+    contentLocales.map(locale => [locale.code, getLocalizedGameModeName(gameMode.name, locale.code)])
+  );
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -108,13 +110,16 @@ export async function generateGameModeDescriptionsAndSync(
       const enDescription = await generateGameModeDescription(enContext, 'en');
       log.info(`[GameModeDescription] Generated EN description (length: ${enDescription.length})`);
 
-      // Generate ES description with SPANISH name (translated)
+      // Generate each content locale's description with the TRANSLATED name
       // This ensures the AI writes "El modo **Un jugador**..." not "El modo **Single player**..."
-      const esContext: GameModeDescriptionContext = {
-        name: spanishName,
-      };
-      const esDescription = await generateGameModeDescription(esContext, 'es');
-      log.info(`[GameModeDescription] Generated ES description (length: ${esDescription.length}) using name: ${spanishName}`);
+      const descriptions: Record<string, string> = {};
+      for (const locale of contentLocales) {
+        const localizedContext: GameModeDescriptionContext = {
+          name: localizedNames[locale.code],
+        };
+        descriptions[locale.code] = await generateGameModeDescription(localizedContext, locale.code as SupportedLocale);
+        log.info(`[GameModeDescription] Generated ${locale.code.toUpperCase()} description (length: ${descriptions[locale.code].length}) using name: ${localizedNames[locale.code]}`);
+      }
 
       // Update English entry
       const gameModeService = strapi.documents('api::game-mode.game-mode');
@@ -131,7 +136,7 @@ export async function generateGameModeDescriptionsAndSync(
 
       log.info(`[GameModeDescription] Updated and published English description for: ${gameMode.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = esDescription;
+      localizedDescriptions = descriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[GameModeDescription] AI description error for "${gameMode.name}": ${errorMessage}`);
@@ -151,8 +156,8 @@ export async function generateGameModeDescriptionsAndSync(
         slug: gameMode.slug,
         igdbId: gameMode.igdbId,
       },
-      aiDescription: spanishDescription,
-      localizedName: spanishName,
+      aiDescriptions: localizedDescriptions,
+      localizedNames,
     };
 
     const localeResults = await syncGameModeLocales(strapi, localeData);
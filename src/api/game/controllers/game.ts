@@ -4,4 +4,76 @@
 
 import { factories } from '@strapi/strapi';
 
-export default factories.createCoreController('api::game.game');
+import {
+  buildFranchiseTimeline,
+  buildGameGraph,
+  gameGraphQuerySchema,
+  gameTimelineQuerySchema,
+  GameGraphError,
+} from '../services/game-graph';
+import { gameReviewScoresQuerySchema, getGameReviewScores, GameReviewScoresError } from '../services/review-scores';
+
+export default factories.createCoreController('api::game.game', ({ strapi }) => ({
+  /**
+   * Related-games graph around a game
+   * GET /api/games/:slug/graph?depth=2&locale=es&types=dlc,remake
+   */
+  async graph(ctx) {
+    const parsed = gameGraphQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
+
+    try {
+      ctx.body = await buildGameGraph(strapi, ctx.params.slug, parsed.data);
+    } catch (error) {
+      if (error instanceof GameGraphError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[GameGraph] Graph error:', error);
+      return ctx.internalServerError('Failed to build game graph');
+    }
+  },
+
+  /**
+   * Franchise release timelines for a game
+   * GET /api/games/:slug/timeline?franchise=the-legend-of-zelda&locale=es
+   */
+  async timeline(ctx) {
+    const parsed = gameTimelineQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
+
+    try {
+      ctx.body = await buildFranchiseTimeline(strapi, ctx.params.slug, parsed.data);
+    } catch (error) {
+      if (error instanceof GameGraphError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[GameGraph] Timeline error:', error);
+      return ctx.internalServerError('Failed to build franchise timeline');
+    }
+  },
+
+  /**
+   * Scores of our published reviews of a game
+   * GET /api/games/:slug/review-scores?locale=es
+   */
+  async reviewScores(ctx) {
+    const parsed = gameReviewScoresQuerySchema.safeParse(ctx.query ?? {});
+    if (!parsed.success) {
+      return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+    }
+
+    try {
+      ctx.body = await getGameReviewScores(strapi, ctx.params.slug, parsed.data);
+    } catch (error) {
+      if (error instanceof GameReviewScoresError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[GameReviewScores] Review scores error:', error);
+      return ctx.internalServerError('Failed to load review scores');
+    }
+  },
+}));
@@ -1,18 +1,28 @@
 import type { Core } from '@strapi/strapi';
 import type { GameLocaleData, LocaleStrategy, LocaleSyncResult } from './types';
-import { spanishLocaleStrategy } from './strategies/spanish';
+import { createLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies
- * Add new locales here (e.g., frenchLocaleStrategy, germanLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: LocaleStrategy[] = [
-  spanishLocaleStrategy,
-  // Future locales:
-  // frenchLocaleStrategy,
-  // germanLocaleStrategy,
-  // portugueseLocaleStrategy,
-];
+const strategyCache = new Map<string, LocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts) - adding a
+ * market there is enough, no per-locale strategy code is needed.
+ */
+function getStrategies(): LocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a game
@@ -28,7 +38,7 @@ export async function syncLocales(
 ): Promise<LocaleSyncResult[]> {
   const results: LocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -53,14 +63,14 @@ export async function syncLocales(
  * Get list of configured locale codes
  */
 export function getConfiguredLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for sync
  */
 export function isLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
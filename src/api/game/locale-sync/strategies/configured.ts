@@ -0,0 +1,167 @@
+import type { Core, UID } from '@strapi/strapi';
+import type { LocaleStrategy, GameLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+import { slugify } from '../../../../utils/slug';
+
+/**
+ * Content type each game relation points to
+ * Used to check which related documents already exist in the target locale
+ */
+const RELATION_TARGETS: Record<keyof GameLocaleData['relationIds'], UID.ContentType> = {
+  developers: 'api::company.company',
+  publishers: 'api::company.company',
+  franchises: 'api::franchise.franchise',
+  collections: 'api::collection.collection',
+  platforms: 'api::platform.platform',
+  genres: 'api::genre.genre',
+  languages: 'api::language.language',
+  ageRatings: 'api::age-rating.age-rating',
+  gameEngines: 'api::game-engine.game-engine',
+  gameModes: 'api::game-mode.game-mode',
+  playerPerspectives: 'api::player-perspective.player-perspective',
+  themes: 'api::theme.theme',
+  keywords: 'api::keyword.keyword',
+};
+
+/**
+ * Filter related document IDs down to those that exist in the target locale.
+ *
+ * Strapi's Document Service rejects `connect` to a document that has no entry
+ * in the same locale ("Document with id X, locale 'fr' not found"). Related
+ * entities only get locales their own locale-sync creates, so a game synced to
+ * a newer market connects whatever is available instead of failing outright.
+ */
+async function getLocalizedRelationIds(
+  strapi: Core.Strapi,
+  uid: UID.ContentType,
+  documentIds: string[],
+  locale: string
+): Promise<string[]> {
+  const existing = await (strapi.documents(uid) as any).findMany({
+    filters: { documentId: { $in: documentIds } },
+    locale,
+    fields: ['documentId'],
+  });
+  const available = new Set<string>((existing ?? []).map((doc: { documentId: string }) => doc.documentId));
+  return documentIds.filter(id => available.has(id));
+}
+
+/**
+ * Create a locale strategy from a locale definition
+ * Creates localized game entries using Strapi Document Service.
+ *
+ * NAME:
+ * Uses the IGDB localized name resolved for this locale (region localization or
+ * alternative name), falling back to the English name.
+ *
+ * RELATIONS:
+ * Uses Document Service `connect` with shorthand syntax (just document IDs),
+ * limited to related documents that already exist in this locale. Relations
+ * missing a locale are logged and skipped rather than failing the sync.
+ */
+export function createLocaleStrategy(definition: LocaleDefinition): LocaleStrategy {
+  const locale = definition.code;
+  const tag = `[LocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: GameLocaleData): Promise<void> {
+      const gameService = strapi.documents('api::game.game');
+
+      // Get localized data (falls back to English when IGDB has nothing for this locale)
+      const localizedData = data.localizedNames[locale] ?? data.localizedNames.en;
+      const localizedName = localizedData.name;
+      const localizedSlug = slugify(localizedName);
+
+      // Check if locale already exists for this document
+      const existing = await gameService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Build relations using shorthand syntax (just document IDs)
+      const relations: Record<string, { connect: string[] }> = {};
+      let totalRelations = 0;
+
+      for (const [field, uid] of Object.entries(RELATION_TARGETS)) {
+        const ids = data.relationIds[field as keyof GameLocaleData['relationIds']] ?? [];
+        if (ids.length === 0) continue;
+
+        const localizedIds = await getLocalizedRelationIds(strapi, uid, ids, locale);
+        if (localizedIds.length < ids.length) {
+          strapi.log.warn(`${tag} Skipping ${ids.length - localizedIds.length}/${ids.length} ${field} without a ${locale} locale`);
+        }
+        if (localizedIds.length > 0) {
+          relations[field] = { connect: localizedIds };
+          totalRelations += localizedIds.length;
+        }
+      }
+
+      // Step 1: Create locale entry as DRAFT with all data and relations
+      const created = await gameService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: localizedName,
+          slug: localizedSlug,
+          releaseDate: data.gameData.releaseDate,
+          gameCategory: data.gameData.gameCategory,
+          gameStatus: data.gameData.gameStatus,
+          coverImageUrl: localizedData.coverUrl || data.gameData.coverImageUrl,
+          screenshotUrls: data.gameData.screenshotUrls,
+          trailerIds: data.gameData.trailerIds,
+          metacriticScore: data.gameData.metacriticScore,
+          userRating: data.gameData.userRating,
+          userRatingCount: data.gameData.userRatingCount,
+          totalRating: data.gameData.totalRating,
+          totalRatingCount: data.gameData.totalRatingCount,
+          hypes: data.gameData.hypes,
+          multiplayerModes: data.gameData.multiplayerModes,
+          officialWebsite: data.gameData.officialWebsite,
+          steamUrl: data.gameData.steamUrl,
+          epicUrl: data.gameData.epicUrl,
+          gogUrl: data.gameData.gogUrl,
+          itchUrl: data.gameData.itchUrl,
+          discordUrl: data.gameData.discordUrl,
+          igdbId: data.gameData.igdbId,
+          igdbUrl: data.gameData.igdbUrl,
+          // Relations via Document Service connect with shorthand syntax
+          ...relations,
+        },
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale draft created with ${totalRelations} relations (id: ${created?.id})`);
+
+      // Step 2: Update draft with description (rich text needs separate update)
+      const aiDescription = data.aiDescriptions?.[locale];
+      if (aiDescription) {
+        await gameService.update({
+          documentId: data.documentId,
+          locale,
+          data: { description: aiDescription },
+        } as any);
+        strapi.log.info(`${tag} Description updated`);
+      }
+
+      // Step 3: Publish - Strapi copies draft to published including relations
+      await (gameService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published (draft and published have same relations)`);
+
+      // Log success with details
+      const englishName = data.localizedNames.en.name;
+      if (localizedName !== englishName) {
+        strapi.log.info(`${tag} ${definition.language} name: "${localizedName}" (localized from "${englishName}")`);
+      }
+    },
+  };
+}
@@ -13,11 +13,11 @@ export interface LocalizedData {
 
 /**
  * Localized names map by locale code
+ * Contains English plus every configured content locale (see src/utils/locales.ts)
  */
 export interface LocalizedNames {
   en: LocalizedData;
-  es: LocalizedData;
-  // Future locales can be added here
+  [locale: string]: LocalizedData;
 }
 
 /**
@@ -71,8 +71,8 @@ export interface GameLocaleData {
     themes: string[];
     keywords: string[];
   };
-  /** AI-generated description for this locale (optional) */
-  aiDescription?: string;
+  /** AI-generated descriptions keyed by locale code (optional) */
+  aiDescriptions?: Record<string, string | undefined>;
 }
 
 /**
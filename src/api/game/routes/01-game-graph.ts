@@ -0,0 +1,28 @@
+/**
+ * Game graph routes
+ *
+ * Public read-only endpoints for the "Related games" and "Series timeline"
+ * widgets. Loaded before the core router (file name prefix).
+ */
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/games/:slug/graph',
+      handler: 'game.graph',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/games/:slug/timeline',
+      handler: 'game.timeline',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
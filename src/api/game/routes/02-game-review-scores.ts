@@ -0,0 +1,19 @@
+/**
+ * Game review score routes
+ *
+ * Public read-only endpoint for the review score badge on game pages.
+ * Loaded before the core router (file name prefix).
+ */
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/games/:slug/review-scores',
+      handler: 'game.reviewScores',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
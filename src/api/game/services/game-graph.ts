@@ -0,0 +1,421 @@
+/**
+ * Game Relationship Graph Service
+ *
+ * Builds bounded-depth graphs of related games (DLCs, remakes, remasters,
+ * franchise/collection siblings, similar games) and franchise timelines for
+ * the public "Related games" and "Series timeline" widgets.
+ *
+ * The graph is expanded breadth-first with one query per depth level: every
+ * game on the frontier is loaded in a single `findMany` with its relations
+ * populated, so cost grows with depth rather than with the number of games.
+ * Only published games in the requested locale are returned.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import { DEFAULT_LOCALE, getContentLocales } from '../../../utils/locales';
+import type { GameDocument } from '../../../types/strapi';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const GAME_EDGE_TYPES = [
+  'dlc',
+  'remake',
+  'remaster',
+  'franchise-sibling',
+  'collection-sibling',
+  'similar',
+] as const;
+
+/** Edge types that have no direction (both games are peers) */
+const UNDIRECTED_EDGE_TYPES = new Set<GameEdgeType>(['franchise-sibling', 'collection-sibling', 'similar']);
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+
+/** Hard cap on graph size; the response is flagged as truncated when hit */
+const MAX_NODES = 100;
+
+/** Siblings taken from a single franchise/collection per expanded game */
+const MAX_SIBLINGS_PER_GROUP = 25;
+
+/**
+ * Categories shown on a series timeline by default.
+ * DLCs, bundles, episodes and updates clutter a release history.
+ */
+export const TIMELINE_CATEGORIES = [
+  'main_game',
+  'standalone_expansion',
+  'remake',
+  'remaster',
+  'expanded_game',
+  'port',
+] as const;
+
+const GAME_UID = 'api::game.game';
+
+const NODE_FIELDS = ['name', 'slug', 'releaseDate', 'coverImageUrl', 'gameCategory'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GameEdgeType = (typeof GAME_EDGE_TYPES)[number];
+
+export type GameNodeData = Pick<GameDocument, 'documentId' | 'name' | 'slug' | 'releaseDate' | 'coverImageUrl' | 'gameCategory'>;
+
+export interface GameGraphNode extends GameNodeData {
+  /** Hops from the requested game (0 = the game itself) */
+  readonly depth: number;
+}
+
+export interface GameGraphEdge {
+  /** For directed edges: the original/parent game */
+  readonly source: string;
+  /** For directed edges: the DLC/remake/remaster */
+  readonly target: string;
+  readonly type: GameEdgeType;
+  /** Franchise/collection shared by sibling games */
+  readonly via?: { readonly slug: string; readonly name: string };
+}
+
+export interface GameGraph {
+  readonly root: string;
+  readonly locale: string;
+  readonly depth: number;
+  readonly nodes: readonly GameGraphNode[];
+  readonly edges: readonly GameGraphEdge[];
+  /** True when node/sibling caps dropped part of the graph */
+  readonly truncated: boolean;
+}
+
+export interface TimelineEntry extends GameNodeData {
+  /** The game the timeline was requested for */
+  readonly isCurrent: boolean;
+}
+
+export interface FranchiseTimeline {
+  readonly slug: string;
+  readonly name: string;
+  /** Ordered by release date; undated games last */
+  readonly games: readonly TimelineEntry[];
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class GameGraphError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GameGraphError';
+  }
+}
+
+/** Group (franchise/collection) as populated for graph expansion */
+interface PopulatedGroup {
+  slug: string;
+  name: string;
+  games?: GameNodeData[];
+}
+
+/** A game as loaded for graph expansion */
+type ExpandedGame = GameNodeData & {
+  parentGame?: GameNodeData | null;
+  dlcs?: GameNodeData[];
+  remakes?: GameNodeData[];
+  remasters?: GameNodeData[];
+  similarGames?: GameNodeData[];
+  franchises?: PopulatedGroup[];
+  collections?: PopulatedGroup[];
+};
+
+// ============================================================================
+// Query validation
+// ============================================================================
+
+function getAvailableLocales(): string[] {
+  return [DEFAULT_LOCALE, ...getContentLocales().map((locale) => locale.code)];
+}
+
+const localeSchema = z
+  .string()
+  .refine((code) => getAvailableLocales().includes(code), { message: 'Unsupported locale' })
+  .default(DEFAULT_LOCALE);
+
+/**
+ * Validation schema for `GET /games/:slug/graph` query params.
+ * `types` is a comma-separated list of edge types.
+ */
+export const gameGraphQuerySchema = z.object({
+  locale: localeSchema,
+  depth: z.coerce.number().int().min(1).max(MAX_DEPTH).default(DEFAULT_DEPTH),
+  types: z
+    .string()
+    .transform((value) => value.split(',').map((type) => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(GAME_EDGE_TYPES)).min(1))
+    .optional(),
+});
+
+export type GameGraphQuery = z.infer<typeof gameGraphQuerySchema>;
+
+/**
+ * Validation schema for `GET /games/:slug/timeline` query params.
+ */
+export const gameTimelineQuerySchema = z.object({
+  locale: localeSchema,
+  /** Only return this franchise (default: every franchise of the game) */
+  franchise: z.string().min(1).optional(),
+  /** Include DLCs, bundles, episodes etc. */
+  includeAll: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+export type GameTimelineQuery = z.infer<typeof gameTimelineQuerySchema>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+function toNodeData(game: GameNodeData): GameNodeData {
+  return {
+    documentId: game.documentId,
+    name: game.name,
+    slug: game.slug,
+    releaseDate: game.releaseDate ?? null,
+    coverImageUrl: game.coverImageUrl ?? null,
+    gameCategory: game.gameCategory,
+  };
+}
+
+/**
+ * Populate needed to expand games for the requested edge types.
+ */
+export function buildGraphPopulate(types: readonly GameEdgeType[]): Record<string, unknown> {
+  const node = { fields: NODE_FIELDS };
+  const group = { fields: ['name', 'slug'], populate: { games: node } };
+  const populate: Record<string, unknown> = {};
+
+  if (types.includes('dlc')) {
+    populate.parentGame = node;
+    populate.dlcs = node;
+  }
+  if (types.includes('remake')) populate.remakes = node;
+  if (types.includes('remaster')) populate.remasters = node;
+  if (types.includes('similar')) populate.similarGames = node;
+  if (types.includes('franchise-sibling')) populate.franchises = group;
+  if (types.includes('collection-sibling')) populate.collections = group;
+
+  return populate;
+}
+
+/**
+ * Edges from one expanded game to its related games.
+ */
+export function getGameEdges(
+  game: ExpandedGame,
+  types: readonly GameEdgeType[]
+): { edge: GameGraphEdge; related: GameNodeData }[] {
+  const id = game.documentId;
+  const result: { edge: GameGraphEdge; related: GameNodeData }[] = [];
+  const wants = (type: GameEdgeType) => types.includes(type);
+
+  if (wants('dlc')) {
+    if (game.parentGame) {
+      result.push({ edge: { source: game.parentGame.documentId, target: id, type: 'dlc' }, related: game.parentGame });
+    }
+    for (const dlc of game.dlcs ?? []) {
+      result.push({ edge: { source: id, target: dlc.documentId, type: 'dlc' }, related: dlc });
+    }
+  }
+  if (wants('remake')) {
+    for (const remake of game.remakes ?? []) {
+      result.push({ edge: { source: id, target: remake.documentId, type: 'remake' }, related: remake });
+    }
+  }
+  if (wants('remaster')) {
+    for (const remaster of game.remasters ?? []) {
+      result.push({ edge: { source: id, target: remaster.documentId, type: 'remaster' }, related: remaster });
+    }
+  }
+  if (wants('similar')) {
+    for (const similar of game.similarGames ?? []) {
+      result.push({ edge: { source: id, target: similar.documentId, type: 'similar' }, related: similar });
+    }
+  }
+
+  const groups: [GameEdgeType, PopulatedGroup[] | undefined][] = [
+    ['franchise-sibling', game.franchises],
+    ['collection-sibling', game.collections],
+  ];
+  for (const [type, list] of groups) {
+    if (!wants(type)) continue;
+    for (const group of list ?? []) {
+      const via = { slug: group.slug, name: group.name };
+      for (const sibling of (group.games ?? []).filter((g) => g.documentId !== id)) {
+        result.push({ edge: { source: id, target: sibling.documentId, type, via }, related: sibling });
+      }
+    }
+  }
+
+  return result;
+}
+
+function edgeKey(edge: GameGraphEdge): string {
+  const [a, b] = UNDIRECTED_EDGE_TYPES.has(edge.type)
+    ? [edge.source, edge.target].sort()
+    : [edge.source, edge.target];
+  return `${edge.type}:${a}:${b}:${edge.via?.slug ?? ''}`;
+}
+
+/**
+ * Order games by release date (undated last), then by name.
+ */
+export function compareByReleaseDate(a: GameNodeData, b: GameNodeData): number {
+  if (a.releaseDate && b.releaseDate && a.releaseDate !== b.releaseDate) {
+    return a.releaseDate < b.releaseDate ? -1 : 1;
+  }
+  if (!a.releaseDate !== !b.releaseDate) {
+    return a.releaseDate ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+async function findPublishedGameBySlug(
+  strapi: Core.Strapi,
+  slug: string,
+  locale: string,
+  populate?: Record<string, unknown>
+): Promise<ExpandedGame> {
+  const game = (await documents(strapi, GAME_UID).findFirst({
+    filters: { slug },
+    locale,
+    status: 'published',
+    fields: NODE_FIELDS,
+    ...(populate && { populate }),
+  })) as ExpandedGame | null;
+
+  if (!game) {
+    throw new GameGraphError(`Game not found: ${slug}`, 404);
+  }
+  return game;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Build the relationship graph around a game.
+ *
+ * @throws GameGraphError (404) if no published game has the slug in that locale
+ */
+export async function buildGameGraph(
+  strapi: Core.Strapi,
+  slug: string,
+  query: GameGraphQuery
+): Promise<GameGraph> {
+  const { locale, depth } = query;
+  const types = query.types ?? GAME_EDGE_TYPES;
+  const populate = buildGraphPopulate(types);
+
+  const root = await findPublishedGameBySlug(strapi, slug, locale);
+  const nodes = new Map<string, GameGraphNode>([[root.documentId, { ...toNodeData(root), depth: 0 }]]);
+  const edges = new Map<string, GameGraphEdge>();
+  let truncated = false;
+  let frontier = [root.documentId];
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const games = (await documents(strapi, GAME_UID).findMany({
+      filters: { documentId: { $in: frontier } },
+      locale,
+      status: 'published',
+      fields: NODE_FIELDS,
+      populate,
+      limit: frontier.length,
+    })) as ExpandedGame[];
+
+    const next: string[] = [];
+    for (const game of games) {
+      const siblingsSeen = new Map<string, number>();
+
+      for (const { edge, related } of getGameEdges(game, types)) {
+        if (edge.via) {
+          const groupKey = `${edge.type}:${edge.via.slug}`;
+          const seen = siblingsSeen.get(groupKey) ?? 0;
+          if (seen >= MAX_SIBLINGS_PER_GROUP) {
+            truncated = true;
+            continue;
+          }
+          siblingsSeen.set(groupKey, seen + 1);
+        }
+
+        if (!nodes.has(related.documentId)) {
+          if (nodes.size >= MAX_NODES) {
+            truncated = true;
+            continue;
+          }
+          nodes.set(related.documentId, { ...toNodeData(related), depth: level + 1 });
+          next.push(related.documentId);
+        }
+
+        const key = edgeKey(edge);
+        if (!edges.has(key)) edges.set(key, edge);
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    root: root.documentId,
+    locale,
+    depth,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+    truncated,
+  };
+}
+
+/**
+ * Build the release timeline of each franchise a game belongs to.
+ *
+ * @throws GameGraphError (404) if the game doesn't exist or isn't in the requested franchise
+ */
+export async function buildFranchiseTimeline(
+  strapi: Core.Strapi,
+  slug: string,
+  query: GameTimelineQuery
+): Promise<{ game: string; locale: string; franchises: FranchiseTimeline[] }> {
+  const { locale } = query;
+  const game = await findPublishedGameBySlug(strapi, slug, locale, {
+    franchises: {
+      fields: ['name', 'slug'],
+      ...(query.franchise && { filters: { slug: query.franchise } }),
+      populate: { games: { fields: NODE_FIELDS } },
+    },
+  });
+
+  const franchises = game.franchises ?? [];
+  if (query.franchise && franchises.length === 0) {
+    throw new GameGraphError(`Game "${slug}" is not part of franchise "${query.franchise}"`, 404);
+  }
+
+  const categories: readonly string[] = TIMELINE_CATEGORIES;
+  return {
+    game: game.documentId,
+    locale,
+    franchises: franchises.map((franchise) => ({
+      slug: franchise.slug,
+      name: franchise.name,
+      games: (franchise.games ?? [])
+        .filter((g) => query.includeAll || g.documentId === game.documentId || categories.includes(g.gameCategory))
+        .map((g) => ({ ...toNodeData(g), isCurrent: g.documentId === game.documentId }))
+        .sort(compareByReleaseDate),
+    })),
+  };
+}
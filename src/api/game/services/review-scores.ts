@@ -0,0 +1,167 @@
+/**
+ * Game Review Scores Service
+ *
+ * Aggregates the scores of our own published reviews of a game, for the
+ * score badge on game pages. Scores come from the structured verdict stored
+ * on review posts; reviews without one are left out.
+ *
+ * Category slugs are localized, so reviews are matched by the documentId of
+ * the category whose English slug is `reviews`.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import type { ReviewVerdict } from '../../../ai/articles/article-plan';
+import { REVIEW_VERDICT_CONFIG } from '../../../ai/articles/config';
+import { DEFAULT_LOCALE, getContentLocales } from '../../../utils/locales';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GAME_UID = 'api::game.game';
+const POST_UID = 'api::post.post';
+const CATEGORY_UID = 'api::category.category';
+
+/** English slug of the reviews category */
+const REVIEWS_CATEGORY_SLUG = 'reviews';
+
+/** Reviews listed per game (the average covers all of them) */
+const MAX_LISTED_REVIEWS = 20;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GameReviewScoreEntry {
+  readonly documentId: string;
+  readonly title: string;
+  readonly slug: string;
+  readonly score: number;
+  readonly summary: string;
+  readonly publishedAt: string | null;
+}
+
+export interface GameReviewScores {
+  readonly game: { readonly documentId: string; readonly name: string; readonly slug: string };
+  readonly locale: string;
+  /** Mean score, rounded to one decimal; null without reviews */
+  readonly averageScore: number | null;
+  readonly bestScore: number;
+  readonly reviewCount: number;
+  /** Newest first, at most MAX_LISTED_REVIEWS */
+  readonly reviews: readonly GameReviewScoreEntry[];
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class GameReviewScoresError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GameReviewScoresError';
+  }
+}
+
+interface ReviewPost {
+  documentId: string;
+  title: string;
+  slug: string;
+  publishedAt?: string | null;
+  verdict?: ReviewVerdict | null;
+}
+
+// ============================================================================
+// Query validation
+// ============================================================================
+
+function getAvailableLocales(): string[] {
+  return [DEFAULT_LOCALE, ...getContentLocales().map((locale) => locale.code)];
+}
+
+/**
+ * Validation schema for `GET /games/:slug/review-scores` query params.
+ */
+export const gameReviewScoresQuerySchema = z.object({
+  locale: z
+    .string()
+    .refine((code) => getAvailableLocales().includes(code), { message: 'Unsupported locale' })
+    .default(DEFAULT_LOCALE),
+});
+
+export type GameReviewScoresQuery = z.infer<typeof gameReviewScoresQuerySchema>;
+
+// ============================================================================
+// Main
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+function hasScore(post: ReviewPost): post is ReviewPost & { verdict: ReviewVerdict } {
+  return typeof post.verdict?.score === 'number';
+}
+
+/**
+ * Scores of the published reviews of a game in one locale.
+ *
+ * @throws GameReviewScoresError (404) when the game isn't published in the locale
+ */
+export async function getGameReviewScores(
+  strapi: Core.Strapi,
+  slug: string,
+  query: GameReviewScoresQuery
+): Promise<GameReviewScores> {
+  const { locale } = query;
+
+  const game = await documents(strapi, GAME_UID).findFirst({
+    filters: { slug },
+    locale,
+    status: 'published',
+    fields: ['name', 'slug'],
+  });
+  if (!game) {
+    throw new GameReviewScoresError(`Game "${slug}" not found`, 404);
+  }
+
+  const category = await documents(strapi, CATEGORY_UID).findFirst({
+    filters: { slug: REVIEWS_CATEGORY_SLUG },
+    locale: DEFAULT_LOCALE,
+    fields: ['slug'],
+  });
+
+  const posts: ReviewPost[] = category
+    ? await documents(strapi, POST_UID).findMany({
+        filters: {
+          games: { documentId: game.documentId },
+          category: { documentId: category.documentId },
+          verdict: { $notNull: true },
+        },
+        locale,
+        status: 'published',
+        fields: ['title', 'slug', 'publishedAt', 'verdict'],
+        sort: 'publishedAt:desc',
+      })
+    : [];
+
+  const scored = posts.filter(hasScore);
+  const total = scored.reduce((sum, post) => sum + post.verdict.score, 0);
+
+  return {
+    game: { documentId: game.documentId, name: game.name, slug: game.slug },
+    locale,
+    averageScore: scored.length > 0 ? Math.round((total / scored.length) * 10) / 10 : null,
+    bestScore: REVIEW_VERDICT_CONFIG.SCORE_MAX,
+    reviewCount: scored.length,
+    reviews: scored.slice(0, MAX_LISTED_REVIEWS).map((post) => ({
+      documentId: post.documentId,
+      title: post.title,
+      slug: post.slug,
+      score: post.verdict.score,
+      summary: post.verdict.summary,
+      publishedAt: post.publishedAt ?? null,
+    })),
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Generation Profile Content Type Lifecycle Hooks
+ *
+ * Rejects profiles whose settings would fail at generation time, so a bad
+ * model ID or temperature is caught when the profile is saved in the admin.
+ */
+
+import { errors } from '@strapi/utils';
+
+import { isArticleGenerationError } from '../../../../ai/articles/types';
+import { validateGenerationProfileSettings } from '../../../../ai/articles/generation-profile';
+
+interface GenerationProfileLifecycleEvent {
+  params: {
+    data: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Validates `settings` when present in the write payload.
+ *
+ * @throws errors.ValidationError shown in the admin when the settings are invalid
+ */
+function assertValidSettings(event: GenerationProfileLifecycleEvent): void {
+  const { data } = event.params;
+  if (!data || !('settings' in data)) return;
+
+  try {
+    validateGenerationProfileSettings(data.settings);
+  } catch (error) {
+    if (isArticleGenerationError(error)) {
+      throw new errors.ValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+export default {
+  beforeCreate(event: GenerationProfileLifecycleEvent) {
+    assertValidSettings(event);
+  },
+
+  beforeUpdate(event: GenerationProfileLifecycleEvent) {
+    assertValidSettings(event);
+  },
+};
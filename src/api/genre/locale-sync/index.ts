@@ -1,17 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { GenreLocaleData, GenreLocaleStrategy, GenreLocaleSyncResult } from './types';
-import { spanishGenreLocaleStrategy } from './strategies/spanish';
+import { createGenreLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for genres
- * Add new locales here (e.g., frenchGenreLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: GenreLocaleStrategy[] = [
-  spanishGenreLocaleStrategy,
-  // Future locales:
-  // frenchGenreLocaleStrategy,
-  // germanGenreLocaleStrategy,
-];
+const strategyCache = new Map<string, GenreLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): GenreLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createGenreLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a genre
@@ -27,7 +37,7 @@ export async function syncGenreLocales(
 ): Promise<GenreLocaleSyncResult[]> {
   const results: GenreLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -52,14 +62,14 @@ export async function syncGenreLocales(
  * Get list of configured locale codes for genres
  */
 export function getConfiguredGenreLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for genre sync
  */
 export function isGenreLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
@@ -0,0 +1,74 @@
+import type { Core } from '@strapi/strapi';
+import type { GenreLocaleStrategy, GenreLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+import { slugify } from '../../../../utils/slug';
+
+/**
+ * Create a genre locale strategy from a locale definition
+ * Creates localized genre entries using Strapi Document Service
+ * 
+ * NAME:
+ * Uses the name translated for this locale, falling back to the English name.
+ */
+export function createGenreLocaleStrategy(definition: LocaleDefinition): GenreLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[GenreLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: GenreLocaleData): Promise<void> {
+      const genreService = strapi.documents('api::genre.genre');
+
+      // Check if this locale already exists for the document
+      const existing = await genreService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Use the name translated for this locale, otherwise the English name
+      const localizedName = data.localizedNames?.[locale] || data.name;
+      const localizedSlug = slugify(localizedName);
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await genreService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: localizedName,
+          slug: localizedSlug,
+          description: aiDescription,
+          igdbId: data.genreData.igdbId,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for genre: ${localizedName}`);
+
+      // update() when creating new locale may not set all fields properly
+      // Update the description separately if it exists
+      if (aiDescription) {
+        await genreService.update({
+          documentId: data.documentId,
+          locale,
+          data: { description: aiDescription },
+        } as any);
+      }
+
+      // Publish to sync draft to published
+      await (genreService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for genre: ${localizedName}`);
+    },
+  };
+}
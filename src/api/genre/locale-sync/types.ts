@@ -15,10 +15,10 @@ export interface GenreLocaleData {
     slug: string;
     igdbId: number | null;
   };
-  /** AI-generated description for this locale */
-  aiDescription: string | null;
-  /** Localized genre name for this locale */
-  localizedName?: string;
+  /** AI-generated descriptions keyed by locale code (optional) */
+  aiDescriptions?: Record<string, string | undefined>;
+  /** Translated names keyed by locale code (falls back to the English name) */
+  localizedNames?: Record<string, string | undefined>;
 }
 
 /**
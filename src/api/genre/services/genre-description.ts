@@ -4,61 +4,60 @@
  * Handles generating AI descriptions for genres and syncing locales.
  * Extracted from lifecycle for testability.
  * 
- * IMPORTANT: Spanish descriptions are generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El género **Acción**..." not "El género **Action**..."
  */
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { GenreDescriptionContext } from '../../../ai';
+import type { GenreDescriptionContext, SupportedLocale } from '../../../ai';
+import { getContentLocales } from '../../../utils/locales';
 import type { GenreLocaleData, GenreLocaleSyncResult } from '../locale-sync';
 
 /**
- * Common genre name translations (English to Spanish)
+ * Common genre name translations by locale code (English name to translated name)
  * Used for translating genre names
+ * Locales without a table keep the English name
  */
-const GENRE_TRANSLATIONS: Record<string, string> = {
-  // Main genres
-  'Action': 'Acción',
-  'Adventure': 'Aventura',
-  'Role-playing (RPG)': 'Rol (RPG)',
-  'RPG': 'RPG',
-  'Shooter': 'Disparos',
-  'Simulation': 'Simulación',
-  'Strategy': 'Estrategia',
-  'Sports': 'Deportes',
-  'Racing': 'Carreras',
-  'Puzzle': 'Puzzle',
-  'Platform': 'Plataformas',
-  'Fighting': 'Lucha',
-  'Horror': 'Terror',
-  'Music': 'Música',
-  'Arcade': 'Arcade',
-  'Card & Board Game': 'Juegos de Cartas y Mesa',
-  'Educational': 'Educativo',
-  'Trivia': 'Trivia',
-  'Pinball': 'Pinball',
-  'Quiz': 'Quiz',
-  'Visual Novel': 'Novela Visual',
-  'Hack and slash/Beat \'em up': 'Hack and slash/Beat \'em up',
-  'Point-and-click': 'Point-and-click',
-  'Turn-based strategy (TBS)': 'Estrategia por turnos (TBS)',
-  'Real Time Strategy (RTS)': 'Estrategia en tiempo real (RTS)',
-  'Tactical': 'Táctico',
-  'Indie': 'Indie',
-  'MOBA': 'MOBA',
+const GENRE_TRANSLATIONS: Record<string, Record<string, string>> = {
+  es: {
+    // Main genres
+    'Action': 'Acción',
+    'Adventure': 'Aventura',
+    'Role-playing (RPG)': 'Rol (RPG)',
+    'RPG': 'RPG',
+    'Shooter': 'Disparos',
+    'Simulation': 'Simulación',
+    'Strategy': 'Estrategia',
+    'Sports': 'Deportes',
+    'Racing': 'Carreras',
+    'Puzzle': 'Puzzle',
+    'Platform': 'Plataformas',
+    'Fighting': 'Lucha',
+    'Horror': 'Terror',
+    'Music': 'Música',
+    'Arcade': 'Arcade',
+    'Card & Board Game': 'Juegos de Cartas y Mesa',
+    'Educational': 'Educativo',
+    'Trivia': 'Trivia',
+    'Pinball': 'Pinball',
+    'Quiz': 'Quiz',
+    'Visual Novel': 'Novela Visual',
+    'Hack and slash/Beat \'em up': 'Hack and slash/Beat \'em up',
+    'Point-and-click': 'Point-and-click',
+    'Turn-based strategy (TBS)': 'Estrategia por turnos (TBS)',
+    'Real Time Strategy (RTS)': 'Estrategia en tiempo real (RTS)',
+    'Tactical': 'Táctico',
+    'Indie': 'Indie',
+    'MOBA': 'MOBA',
+  },
 };
 
 /**
- * Supported locales for description generation
+ * Get the translation of a genre name for a locale (falls back to the English name)
  */
-type SupportedLocale = 'en' | 'es';
-
-/**
- * Get Spanish translation for a genre name
- */
-export function getSpanishGenreName(englishName: string): string {
-  return GENRE_TRANSLATIONS[englishName] || englishName;
+export function getLocalizedGenreName(englishName: string, locale: string): string {
+  return GENRE_TRANSLATIONS[locale]?.[englishName] || englishName;
 }
 
 /**
@@ -101,7 +100,7 @@ export interface GenreDescriptionResult {
 /**
  * Generate descriptions for a genre and sync locales
  * 
- * IMPORTANT: Spanish description is generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El género **Acción**..." not "El género **Action**..."
  * 
  * @param knex - Database connection (unused but kept for consistency)
@@ -119,10 +118,13 @@ export async function generateGenreDescriptionsAndSync(
   const { isAIConfigured, generateGenreDescription, syncGenreLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
-  // Get Spanish name FIRST - needed for Spanish description generation
-  const spanishName = getSpanishGenreName(genre.name);
+  // Get translated names FIRST - needed for each locale's description
+  const contentLocales = getContentLocales();
+  const localizedNames: Record<string, string> = Object.fromEntries(
+    contentLocales.map(locale => [locale.code, getLocalizedGenreName(genre.name, locale.code)])
+  );
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -136,13 +138,16 @@ export async function generateGenreDescriptionsAndSync(
       const enDescription = await generateGenreDescription(enContext, 'en');
       log.info(`[GenreDescription] Generated EN description (length: ${enDescription.length})`);
 
-      // Generate ES description with SPANISH name (translated)
+      // Generate each content locale's description with the TRANSLATED name
       // This ensures the AI writes "El género **Acción**..." not "El género **Action**..."
-      const esContext: GenreDescriptionContext = {
-        name: spanishName,
-      };
-      const esDescription = await generateGenreDescription(esContext, 'es');
-      log.info(`[GenreDescription] Generated ES description (length: ${esDescription.length}) using name: ${spanishName}`);
+      const descriptions: Record<string, string> = {};
+      for (const locale of contentLocales) {
+        const localizedContext: GenreDescriptionContext = {
+          name: localizedNames[locale.code],
+        };
+        descriptions[locale.code] = await generateGenreDescription(localizedContext, locale.code as SupportedLocale);
+        log.info(`[GenreDescription] Generated ${locale.code.toUpperCase()} description (length: ${descriptions[locale.code].length}) using name: ${localizedNames[locale.code]}`);
+      }
 
       // Update English entry using Strapi's document service
       const genreService = strapi.documents('api::genre.genre');
@@ -160,7 +165,7 @@ export async function generateGenreDescriptionsAndSync(
 
       log.info(`[GenreDescription] Updated and published English description for: ${genre.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = esDescription;
+      localizedDescriptions = descriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[GenreDescription] AI description error for "${genre.name}": ${errorMessage}`);
@@ -170,7 +175,7 @@ export async function generateGenreDescriptionsAndSync(
     log.info(`[GenreDescription] AI not configured, skipping description generation for: ${genre.name}`);
   }
 
-  // ALWAYS sync locales (create Spanish entry) regardless of AI configuration
+  // ALWAYS sync locales (create an entry per content locale) regardless of AI configuration
   // This ensures bidirectional relationships work correctly
   try {
 
@@ -182,11 +187,11 @@ export async function generateGenreDescriptionsAndSync(
         slug: genre.slug,
         igdbId: genre.igdbId,
       },
-      aiDescription: spanishDescription,
-      localizedName: spanishName,
+      aiDescriptions: localizedDescriptions,
+      localizedNames,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncGenreLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
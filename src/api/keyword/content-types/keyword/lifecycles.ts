@@ -1,7 +1,7 @@
 /**
  * Keyword Content Type Lifecycle Hooks
  * 
- * Creates Spanish locale entries for keywords when English entries are created.
+ * Creates content locale entries for keywords when English entries are created.
  * Keyword is a simple entity without AI descriptions - just copies the data.
  */
 
@@ -29,7 +29,7 @@ interface KeywordLifecycleEvent {
 export default {
   /**
    * Called after a keyword entry is created
-   * Creates locale entries for configured locales (ES)
+   * Creates locale entries for the configured content locales
    */
   async afterCreate(event: KeywordLifecycleEvent) {
     const { result, params } = event;
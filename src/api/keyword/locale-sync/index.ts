@@ -1,13 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { KeywordLocaleData, KeywordLocaleStrategy, KeywordLocaleSyncResult } from './types';
-import { spanishKeywordLocaleStrategy } from './strategies/spanish';
+import { createKeywordLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for keywords
+ * Strategies built so far, keyed by locale code
  */
-const strategies: KeywordLocaleStrategy[] = [
-  spanishKeywordLocaleStrategy,
-];
+const strategyCache = new Map<string, KeywordLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): KeywordLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createKeywordLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a keyword
@@ -19,7 +33,7 @@ export async function syncKeywordLocales(
 ): Promise<KeywordLocaleSyncResult[]> {
   const results: KeywordLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -44,14 +58,14 @@ export async function syncKeywordLocales(
  * Get list of configured locale codes for keywords
  */
 export function getConfiguredKeywordLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for keyword sync
  */
 export function isKeywordLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 export type { KeywordLocaleData, KeywordLocaleStrategy, KeywordLocaleSyncResult } from './types';
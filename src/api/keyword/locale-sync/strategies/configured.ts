@@ -0,0 +1,56 @@
+import type { Core } from '@strapi/strapi';
+import type { KeywordLocaleStrategy, KeywordLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a keyword locale strategy from a locale definition
+ * Creates localized keyword entries using Strapi Document Service
+ * 
+ * Keyword is a simple entity without AI descriptions - just copies the data.
+ */
+export function createKeywordLocaleStrategy(definition: LocaleDefinition): KeywordLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[KeywordLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: KeywordLocaleData): Promise<void> {
+      const keywordService = strapi.documents('api::keyword.keyword');
+
+      // Check if this locale already exists for the document
+      const existing = await keywordService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await keywordService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: data.name,
+          slug: data.keywordData.slug,
+          igdbId: data.keywordData.igdbId,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for keyword: ${data.name}`);
+
+      // Publish to sync draft to published
+      await (keywordService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for keyword: ${data.name}`);
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import type { Core } from '@strapi/strapi';
+import type { LanguageLocaleStrategy, LanguageLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+import { slugify } from '../../../../utils/slug';
+
+/**
+ * Create a language locale strategy from a locale definition
+ * Creates localized language entries using Strapi Document Service
+ * 
+ * NAME:
+ * Uses the name translated for this locale, falling back to the English name.
+ */
+export function createLanguageLocaleStrategy(definition: LocaleDefinition): LanguageLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[LanguageLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: LanguageLocaleData): Promise<void> {
+      const service = strapi.documents('api::language.language');
+
+      // Check if this locale already exists for the document
+      const existing = await service.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Use the name translated for this locale, otherwise the English name
+      const localizedName = data.localizedNames?.[locale] || data.name;
+      const localizedSlug = slugify(localizedName);
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await service.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: localizedName,
+          slug: localizedSlug,
+          nativeName: data.languageData.nativeName,
+          isoCode: data.languageData.isoCode,
+          igdbId: data.languageData.igdbId,
+          ...(aiDescription && { description: aiDescription }),
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for: ${localizedName}`);
+
+      // Publish to sync draft to published
+      await (service as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for: ${localizedName}`);
+    },
+  };
+}
@@ -4,66 +4,65 @@
  * Handles generating AI descriptions for languages and syncing locales.
  * Extracted from lifecycle for testability.
  * 
- * IMPORTANT: Spanish descriptions are generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El **inglés** es..." not "El **English** es..."
  */
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { LanguageDescriptionContext } from '../../../ai';
+import type { LanguageDescriptionContext, SupportedLocale } from '../../../ai';
+import { getContentLocales } from '../../../utils/locales';
 import type { LanguageLocaleData, LanguageLocaleSyncResult } from '../locale-sync';
 
 /**
- * Common language name translations (English to Spanish)
+ * Common language name translations by locale code (English name to translated name)
  * These are the language names as they appear in game localization
+ * Locales without a table keep the English name
  */
-const LANGUAGE_TRANSLATIONS: Record<string, string> = {
-  // Major gaming languages
-  'English': 'Inglés',
-  'Spanish': 'Español',
-  'Japanese': 'Japonés',
-  'French': 'Francés',
-  'German': 'Alemán',
-  'Italian': 'Italiano',
-  'Portuguese': 'Portugués',
-  'Brazilian Portuguese': 'Portugués brasileño',
-  'Russian': 'Ruso',
-  'Chinese': 'Chino',
-  'Simplified Chinese': 'Chino simplificado',
-  'Traditional Chinese': 'Chino tradicional',
-  'Korean': 'Coreano',
-  'Polish': 'Polaco',
-  'Dutch': 'Neerlandés',
-  'Swedish': 'Sueco',
-  'Norwegian': 'Noruego',
-  'Danish': 'Danés',
-  'Finnish': 'Finlandés',
-  'Turkish': 'Turco',
-  'Arabic': 'Árabe',
-  'Thai': 'Tailandés',
-  'Vietnamese': 'Vietnamita',
-  'Indonesian': 'Indonesio',
-  'Czech': 'Checo',
-  'Hungarian': 'Húngaro',
-  'Greek': 'Griego',
-  'Romanian': 'Rumano',
-  'Ukrainian': 'Ucraniano',
-  'Hindi': 'Hindi',
-  'Hebrew': 'Hebreo',
-  'Latin American Spanish': 'Español latinoamericano',
-  'Castilian Spanish': 'Español castellano',
+const LANGUAGE_TRANSLATIONS: Record<string, Record<string, string>> = {
+  es: {
+    // Major gaming languages
+    'English': 'Inglés',
+    'Spanish': 'Español',
+    'Japanese': 'Japonés',
+    'French': 'Francés',
+    'German': 'Alemán',
+    'Italian': 'Italiano',
+    'Portuguese': 'Portugués',
+    'Brazilian Portuguese': 'Portugués brasileño',
+    'Russian': 'Ruso',
+    'Chinese': 'Chino',
+    'Simplified Chinese': 'Chino simplificado',
+    'Traditional Chinese': 'Chino tradicional',
+    'Korean': 'Coreano',
+    'Polish': 'Polaco',
+    'Dutch': 'Neerlandés',
+    'Swedish': 'Sueco',
+    'Norwegian': 'Noruego',
+    'Danish': 'Danés',
+    'Finnish': 'Finlandés',
+    'Turkish': 'Turco',
+    'Arabic': 'Árabe',
+    'Thai': 'Tailandés',
+    'Vietnamese': 'Vietnamita',
+    'Indonesian': 'Indonesio',
+    'Czech': 'Checo',
+    'Hungarian': 'Húngaro',
+    'Greek': 'Griego',
+    'Romanian': 'Rumano',
+    'Ukrainian': 'Ucraniano',
+    'Hindi': 'Hindi',
+    'Hebrew': 'Hebreo',
+    'Latin American Spanish': 'Español latinoamericano',
+    'Castilian Spanish': 'Español castellano',
+  },
 };
 
 /**
- * Supported locales for description generation
+ * Get the translation of a language name for a locale (falls back to the English name)
  */
-type SupportedLocale = 'en' | 'es';
-
-/**
- * Get Spanish translation for a language name
- */
-export function getSpanishLanguageName(englishName: string): string {
-  return LANGUAGE_TRANSLATIONS[englishName] || englishName;
+export function getLocalizedLanguageName(englishName: string, locale: string): string {
+  return LANGUAGE_TRANSLATIONS[locale]?.[englishName] || englishName;
 }
 
 /**
@@ -122,7 +121,7 @@ export interface LanguageDescriptionResult {
 /**
  * Generate descriptions for a language and sync locales
  * 
- * IMPORTANT: Spanish description is generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El **inglés** es..." not "El **English** es..."
  */
 export async function generateLanguageDescriptionsAndSync(
@@ -134,10 +133,13 @@ export async function generateLanguageDescriptionsAndSync(
   const { isAIConfigured, generateLanguageDescription, syncLanguageLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
-  // Get Spanish name FIRST - needed for Spanish description generation
-  const spanishName = getSpanishLanguageName(language.name);
+  // Get translated names FIRST - needed for each locale's description
+  const contentLocales = getContentLocales();
+  const localizedNames: Record<string, string> = Object.fromEntries(
+    contentLocales.map(locale => [locale.code, getLocalizedLanguageName(language.name, locale.code)])
+  );
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -153,15 +155,18 @@ export async function generateLanguageDescriptionsAndSync(
       const enDescription = await generateLanguageDescription(enContext, 'en');
       log.info(`[LanguageDescription] Generated EN description (length: ${enDescription.length})`);
 
-      // Generate ES description with SPANISH name (translated)
+      // Generate each content locale's description with the TRANSLATED name
       // This ensures the AI writes "El **inglés** es..." not "El **English** es..."
-      const esContext: LanguageDescriptionContext = {
-        name: spanishName,
-        nativeName: language.nativeName,
-        isoCode: language.isoCode,
-      };
-      const esDescription = await generateLanguageDescription(esContext, 'es');
-      log.info(`[LanguageDescription] Generated ES description (length: ${esDescription.length}) using name: ${spanishName}`);
+      const descriptions: Record<string, string> = {};
+      for (const locale of contentLocales) {
+        const localizedContext: LanguageDescriptionContext = {
+          name: localizedNames[locale.code],
+          nativeName: language.nativeName,
+          isoCode: language.isoCode,
+        };
+        descriptions[locale.code] = await generateLanguageDescription(localizedContext, locale.code as SupportedLocale);
+        log.info(`[LanguageDescription] Generated ${locale.code.toUpperCase()} description (length: ${descriptions[locale.code].length}) using name: ${localizedNames[locale.code]}`);
+      }
 
       // Update English entry
       const languageService = strapi.documents('api::language.language');
@@ -178,7 +183,7 @@ export async function generateLanguageDescriptionsAndSync(
 
       log.info(`[LanguageDescription] Updated and published English description for: ${language.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = esDescription;
+      localizedDescriptions = descriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[LanguageDescription] AI description error for "${language.name}": ${errorMessage}`);
@@ -199,11 +204,11 @@ export async function generateLanguageDescriptionsAndSync(
         isoCode: language.isoCode,
         igdbId: language.igdbId,
       },
-      aiDescription: spanishDescription,
-      localizedName: spanishName,
+      aiDescriptions: localizedDescriptions,
+      localizedNames,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncLanguageLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
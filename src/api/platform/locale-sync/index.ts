@@ -1,17 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { PlatformLocaleData, PlatformLocaleStrategy, PlatformLocaleSyncResult } from './types';
-import { spanishPlatformLocaleStrategy } from './strategies/spanish';
+import { createPlatformLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for platforms
- * Add new locales here (e.g., frenchPlatformLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: PlatformLocaleStrategy[] = [
-  spanishPlatformLocaleStrategy,
-  // Future locales:
-  // frenchPlatformLocaleStrategy,
-  // germanPlatformLocaleStrategy,
-];
+const strategyCache = new Map<string, PlatformLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): PlatformLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createPlatformLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a platform
@@ -27,7 +37,7 @@ export async function syncPlatformLocales(
 ): Promise<PlatformLocaleSyncResult[]> {
   const results: PlatformLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -52,14 +62,14 @@ export async function syncPlatformLocales(
  * Get list of configured locale codes for platforms
  */
 export function getConfiguredPlatformLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for platform sync
  */
 export function isPlatformLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
@@ -0,0 +1,73 @@
+import type { Core } from '@strapi/strapi';
+import type { PlatformLocaleStrategy, PlatformLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+
+/**
+ * Create a platform locale strategy from a locale definition
+ * Creates localized platform entries using Strapi Document Service
+ */
+export function createPlatformLocaleStrategy(definition: LocaleDefinition): PlatformLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[PlatformLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: PlatformLocaleData): Promise<void> {
+      const platformService = strapi.documents('api::platform.platform');
+
+      // Check if this locale already exists for the document
+      const existing = await platformService.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await platformService.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: data.name,
+          slug: data.platformData.slug,
+          abbreviation: data.platformData.abbreviation,
+          description: aiDescription,
+          manufacturer: data.platformData.manufacturer,
+          releaseYear: data.platformData.releaseYear,
+          category: data.platformData.category,
+          igdbId: data.platformData.igdbId,
+          logoUrl: data.platformData.logoUrl,
+          generation: data.platformData.generation,
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for platform: ${data.name}`);
+
+      // update() when creating new locale may not set all fields properly
+      // Update the description separately if it exists
+      if (aiDescription) {
+        await platformService.update({
+          documentId: data.documentId,
+          locale,
+          data: { description: aiDescription },
+        } as any);
+      }
+
+      // Publish to sync draft to published
+      await (platformService as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for platform: ${data.name}`);
+    },
+  };
+}
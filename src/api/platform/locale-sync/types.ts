@@ -21,8 +21,8 @@ export interface PlatformLocaleData {
     logoUrl: string | null;
     generation: number | null;
   };
-  /** AI-generated description for this locale */
-  aiDescription: string;
+  /** AI-generated descriptions keyed by locale code (optional) */
+  aiDescriptions?: Record<string, string | undefined>;
 }
 
 /**
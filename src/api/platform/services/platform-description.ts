@@ -7,7 +7,7 @@
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { PlatformDescriptionContext } from '../../../ai';
+import type { PlatformDescriptionContext, LocalizedDescriptions } from '../../../ai';
 import type { PlatformLocaleData, PlatformLocaleSyncResult } from '../locale-sync';
 
 /**
@@ -33,7 +33,7 @@ export interface PlatformEventData {
  */
 export interface PlatformDescriptionDependencies {
   isAIConfigured: () => boolean;
-  generatePlatformDescriptions: (context: PlatformDescriptionContext) => Promise<{ en: string; es: string }>;
+  generatePlatformDescriptions: (context: PlatformDescriptionContext) => Promise<LocalizedDescriptions>;
   syncPlatformLocales: (strapi: Core.Strapi, data: PlatformLocaleData) => Promise<PlatformLocaleSyncResult[]>;
   log: {
     info: (message: string) => void;
@@ -92,18 +92,20 @@ export async function generatePlatformDescriptionsAndSync(
       abbreviation: platform.abbreviation,
     };
 
-    // Generate descriptions for both locales
+    // Generate descriptions for English and every configured content locale
     const descriptions = await generatePlatformDescriptions(context);
 
-    log.info(`[PlatformDescription] Generated EN description (length: ${descriptions.en.length})`);
-    log.info(`[PlatformDescription] Generated ES description (length: ${descriptions.es.length})`);
+    const { en: englishDescription, ...otherDescriptions } = descriptions;
+    for (const [locale, description] of Object.entries(descriptions)) {
+      log.info(`[PlatformDescription] Generated ${locale.toUpperCase()} description (length: ${description.length})`);
+    }
 
     // Update English entry using Strapi's document service (not raw SQL)
     const platformService = strapi.documents('api::platform.platform');
     await platformService.update({
       documentId: platform.documentId,
       locale: 'en',
-      data: { description: descriptions.en },
+      data: { description: englishDescription },
     } as any);
 
     // Publish to sync draft changes to published version
@@ -129,10 +131,10 @@ export async function generatePlatformDescriptionsAndSync(
         logoUrl: platform.logoUrl,
         generation: platform.generation,
       },
-      aiDescription: descriptions.es,
+      aiDescriptions: otherDescriptions,
     };
 
-    // Sync locales (create Spanish entry with AI description)
+    // Sync locales (create an entry per content locale with its AI description)
     const localeResults = await syncPlatformLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
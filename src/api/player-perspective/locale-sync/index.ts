@@ -1,10 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { PlayerPerspectiveLocaleData, PlayerPerspectiveLocaleStrategy, PlayerPerspectiveLocaleSyncResult } from './types';
-import { spanishPlayerPerspectiveLocaleStrategy } from './strategies/spanish';
-
-const strategies: PlayerPerspectiveLocaleStrategy[] = [
-  spanishPlayerPerspectiveLocaleStrategy,
-];
+import { createPlayerPerspectiveLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
+
+/**
+ * Strategies built so far, keyed by locale code
+ */
+const strategyCache = new Map<string, PlayerPerspectiveLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): PlayerPerspectiveLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createPlayerPerspectiveLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 export async function syncPlayerPerspectiveLocales(
   strapi: Core.Strapi,
@@ -12,7 +29,7 @@ export async function syncPlayerPerspectiveLocales(
 ): Promise<PlayerPerspectiveLocaleSyncResult[]> {
   const results: PlayerPerspectiveLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({ locale: strategy.locale, success: true });
@@ -27,11 +44,11 @@ export async function syncPlayerPerspectiveLocales(
 }
 
 export function getConfiguredPlayerPerspectiveLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 export function isPlayerPerspectiveLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 export type { PlayerPerspectiveLocaleData, PlayerPerspectiveLocaleStrategy, PlayerPerspectiveLocaleSyncResult } from './types';
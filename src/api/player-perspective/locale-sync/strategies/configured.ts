@@ -0,0 +1,64 @@
+import type { Core } from '@strapi/strapi';
+import type { PlayerPerspectiveLocaleStrategy, PlayerPerspectiveLocaleData } from '../types';
+import type { LocaleDefinition } from '../../../../utils/locales';
+import { slugify } from '../../../../utils/slug';
+
+/**
+ * Create a player perspective locale strategy from a locale definition
+ * Creates localized player perspective entries using Strapi Document Service
+ * 
+ * NAME:
+ * Uses the name translated for this locale, falling back to the English name.
+ */
+export function createPlayerPerspectiveLocaleStrategy(definition: LocaleDefinition): PlayerPerspectiveLocaleStrategy {
+  const locale = definition.code;
+  const tag = `[PlayerPerspectiveLocaleSync:${locale.toUpperCase()}]`;
+
+  return {
+    locale,
+
+    async createLocale(strapi: Core.Strapi, data: PlayerPerspectiveLocaleData): Promise<void> {
+      const service = strapi.documents('api::player-perspective.player-perspective');
+
+      // Check if this locale already exists for the document
+      const existing = await service.findOne({
+        documentId: data.documentId,
+        locale,
+      });
+
+      if (existing) {
+        strapi.log.info(`${tag} ${definition.language} locale already exists for document ${data.documentId}`);
+        return;
+      }
+
+      // Use the name translated for this locale, otherwise the English name
+      const localizedName = data.localizedNames?.[locale] || data.name;
+      const localizedSlug = slugify(localizedName);
+      const aiDescription = data.aiDescriptions?.[locale];
+
+      // Create the locale entry using Document Service update()
+      // In Strapi 5, update() with a new locale creates that locale version
+      const created = await service.update({
+        documentId: data.documentId,
+        locale,
+        data: {
+          name: localizedName,
+          slug: localizedSlug,
+          igdbId: data.playerPerspectiveData.igdbId,
+          ...(aiDescription && { description: aiDescription }),
+        },
+        status: 'published',
+      } as any);
+
+      strapi.log.info(`${tag} ${definition.language} locale entry created (id: ${created?.id}) for: ${localizedName}`);
+
+      // Publish to sync draft to published
+      await (service as any).publish({
+        documentId: data.documentId,
+        locale,
+      });
+
+      strapi.log.info(`${tag} ${definition.language} locale published for: ${localizedName}`);
+    },
+  };
+}
@@ -4,41 +4,40 @@
  * Handles generating AI descriptions for player perspectives and syncing locales.
  * Extracted from lifecycle for testability.
  * 
- * IMPORTANT: Spanish descriptions are generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "La perspectiva **Primera persona**..." not "La perspectiva **First person**..."
  */
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { PlayerPerspectiveDescriptionContext } from '../../../ai';
+import type { PlayerPerspectiveDescriptionContext, SupportedLocale } from '../../../ai';
+import { getContentLocales } from '../../../utils/locales';
 import type { PlayerPerspectiveLocaleData, PlayerPerspectiveLocaleSyncResult } from '../locale-sync';
 
 /**
- * Common player perspective name translations (English to Spanish)
+ * Common player perspective name translations by locale code (English name to translated name)
+ * Locales without a table keep the English name
  */
-const PLAYER_PERSPECTIVE_TRANSLATIONS: Record<string, string> = {
-  'First person': 'Primera persona',
-  'Third person': 'Tercera persona',
-  'Bird view': 'Vista aérea',
-  'Bird view / Isometric': 'Vista aérea / Isométrica',
-  'Isometric': 'Isométrica',
-  'Side view': 'Vista lateral',
-  'Text': 'Texto',
-  'Auditory': 'Auditivo',
-  'Virtual Reality': 'Realidad virtual',
-  'VR': 'RV',
+const PLAYER_PERSPECTIVE_TRANSLATIONS: Record<string, Record<string, string>> = {
+  es: {
+    'First person': 'Primera persona',
+    'Third person': 'Tercera persona',
+    'Bird view': 'Vista aérea',
+    'Bird view / Isometric': 'Vista aérea / Isométrica',
+    'Isometric': 'Isométrica',
+    'Side view': 'Vista lateral',
+    'Text': 'Texto',
+    'Auditory': 'Auditivo',
+    'Virtual Reality': 'Realidad virtual',
+    'VR': 'RV',
+  },
 };
 
 /**
- * Supported locales for description generation
+ * Get the translation of a player perspective name for a locale (falls back to the English name)
  */
-type SupportedLocale = 'en' | 'es';
-
-/**
- * Get Spanish translation for a player perspective name
- */
-export function getSpanishPlayerPerspectiveName(englishName: string): string {
-  return PLAYER_PERSPECTIVE_TRANSLATIONS[englishName] || englishName;
+export function getLocalizedPlayerPerspectiveName(englishName: string, locale: string): string {
+  return PLAYER_PERSPECTIVE_TRANSLATIONS[locale]?.[englishName] || englishName;
 }
 
 /**
@@ -81,7 +80,7 @@ export interface PlayerPerspectiveDescriptionResult {
 /**
  * Generate descriptions for a player perspective and sync locales
  * 
- * IMPORTANT: Spanish description is generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "La perspectiva **Primera persona**..." not "La perspectiva **First person**..."
  */
 export async function generatePlayerPerspectiveDescriptionsAndSync(
@@ -93,10 +92,13 @@ export async function generatePlayerPerspectiveDescriptionsAndSync(
   const { isAIConfigured, generatePlayerPerspectiveDescription, syncPlayerPerspectiveLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
-  // Get Spanish name FIRST - needed for Spanish description generation
-  const spanishName = getSpanishPlayerPerspectiveName(playerPerspective.name);
+  // Get translated names FIRST - needed for each locale's description
+  const contentLocales = getContentLocales();
+  const localizedNames: Record<string, string> = Object.fromEntries(
+    contentLocales.map(locale => [locale.code, getLocalizedPlayerPerspectiveName(playerPerspective.name, locale.code)])
+  );
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -110,13 +112,16 @@ export async function generatePlayerPerspectiveDescriptionsAndSync(
       const enDescription = await generatePlayerPerspectiveDescription(enContext, 'en');
       log.info(`[PlayerPerspectiveDescription] Generated EN description (length: ${enDescription.length})`);
 
-      // Generate ES description with SPANISH name (translated)
+      // Generate each content locale's description with the TRANSLATED name
       // This ensures the AI writes "La perspectiva **Primera persona**..." not "La perspectiva **First person**..."
-      const esContext: PlayerPerspectiveDescriptionContext = {
-        name: spanishName,
-      };
-      const esDescription = await generatePlayerPerspectiveDescription(esContext, 'es');
-      log.info(`[PlayerPerspectiveDescription] Generated ES description (length: ${esDescription.length}) using name: ${spanishName}`);
+      const descriptions: Record<string, string> = {};
+      for (const locale of contentLocales) {
+        const localizedContext: PlayerPerspectiveDescriptionContext = {
+          name: localizedNames[locale.code],
+        };
+        descriptions[locale.code] = await generatePlayerPerspectiveDescription(localizedContext, locale.code as SupportedLocale);
+        log.info(`[PlayerPerspectiveDescription] Generated ${locale.code.toUpperCase()} description (length: ${descriptions[locale.code].length}) using name: ${localizedNames[locale.code]}`);
+      }
 
       // Update English entry
       const playerPerspectiveService = strapi.documents('api::player-perspective.player-perspective');
@@ -133,7 +138,7 @@ export async function generatePlayerPerspectiveDescriptionsAndSync(
 
       log.info(`[PlayerPerspectiveDescription] Updated and published English description for: ${playerPerspective.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = esDescription;
+      localizedDescriptions = descriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[PlayerPerspectiveDescription] AI description error for "${playerPerspective.name}": ${errorMessage}`);
@@ -152,11 +157,11 @@ export async function generatePlayerPerspectiveDescriptionsAndSync(
         slug: playerPerspective.slug,
         igdbId: playerPerspective.igdbId,
       },
-      aiDescription: spanishDescription,
-      localizedName: spanishName,
+      aiDescriptions: localizedDescriptions,
+      localizedNames,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncPlayerPerspectiveLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
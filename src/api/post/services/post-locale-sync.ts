@@ -0,0 +1,452 @@
+import type { Core } from '@strapi/strapi';
+
+import type { ReviewVerdict } from '../../../ai/articles/article-plan';
+import { stripCitationMarkers } from '../../../ai/articles/citations';
+import { TTS_CONFIG } from '../../../ai/articles/config';
+import { removeImagesFromMarkdown } from '../../../ai/articles/image-inserter';
+import { stripInternalLinks } from '../../../ai/articles/internal-links';
+import {
+  generateAndUploadArticleAudio,
+  type GenerateArticleAudioInput,
+  type GenerateArticleAudioResult,
+} from '../../../ai/articles/services/article-audio-generator';
+import type { AudioChapter } from '../../../ai/articles/services/tts-types';
+import { getContentLocales, type LocaleDefinition } from '../../../utils/locales';
+import { slugify } from '../../../utils/slug';
+import { emitWebhookEvent } from '../../webhook-subscription/services/webhook-dispatcher';
+import { linkRelatedPosts } from './related-posts';
+import {
+  translatePost,
+  type LocalizedPostDraft,
+  type PostAudioMetadata,
+  type SourcePostForTranslation,
+} from './post-translation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PostTranslationState = 'pending' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Narration status for one translated locale
+ */
+export interface PostLocaleAudioStatus {
+  readonly status: 'completed' | 'failed' | 'skipped';
+  readonly updatedAt: string;
+  /** Voice used for the locale's narration */
+  readonly voice?: string;
+  readonly error?: string;
+}
+
+/**
+ * Translation status for one locale, stored on the post's `translationStatus` JSON
+ */
+export interface PostLocaleTranslationStatus {
+  readonly status: PostTranslationState;
+  readonly updatedAt: string;
+  readonly error?: string;
+  /** Narration outcome (only for posts whose English version has audio) */
+  readonly audio?: PostLocaleAudioStatus;
+}
+
+/** `translationStatus` field shape: locale code -> status */
+export type PostTranslationStatusMap = Record<string, PostLocaleTranslationStatus>;
+
+/**
+ * Outcome of syncing one locale
+ */
+export interface PostLocaleSyncResult {
+  readonly locale: string;
+  /** `exists` means the locale was already there and was left untouched */
+  readonly status: PostTranslationState | 'exists';
+  readonly error?: string;
+}
+
+export interface PostLocaleSyncOptions {
+  /** Locales to sync (defaults to the configured content locales) */
+  readonly locales?: readonly LocaleDefinition[];
+  /** Translator override (defaults to translatePost) */
+  readonly translate?: (input: SourcePostForTranslation, locale: LocaleDefinition) => Promise<LocalizedPostDraft>;
+  /** Narrator override (defaults to generateAndUploadArticleAudio) */
+  readonly narrate?: (input: GenerateArticleAudioInput) => Promise<GenerateArticleAudioResult | null>;
+}
+
+type DocumentService<T> = {
+  findOne(options: {
+    documentId: string;
+    locale?: string;
+    status?: 'draft' | 'published';
+    populate?: string[];
+  }): Promise<T | null>;
+  update(options: { documentId: string; locale?: string; data: Record<string, unknown> }): Promise<T>;
+  publish(options: { documentId: string; locale?: string }): Promise<T>;
+};
+
+interface MediaFile {
+  alternativeText?: string | null;
+  provider_metadata?: { ttsInfo?: { chapters?: AudioChapter[] } } | null;
+}
+
+interface PostDocument {
+  documentId: string;
+  title?: string;
+  slug?: string | null;
+  excerpt?: string | null;
+  description?: string | null;
+  content?: string | null;
+  category?: unknown;
+  author?: unknown;
+  games?: unknown;
+  tags?: unknown;
+  audioFile?: MediaFile | null;
+  verdict?: ReviewVerdict | null;
+}
+
+interface TagDocument {
+  documentId: string;
+  name: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getDocumentId(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  if (!('documentId' in value)) return undefined;
+  const docId = (value as { documentId?: unknown }).documentId;
+  return typeof docId === 'string' ? docId : undefined;
+}
+
+function getDocumentArray<T extends { documentId: string }>(value: unknown): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is T => typeof getDocumentId(item) === 'string');
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Audio metadata to localize, read from the shared audio file
+ */
+function getAudioMetadata(post: PostDocument): PostAudioMetadata | null {
+  const audioFile = post.audioFile;
+  if (!audioFile) return null;
+  return {
+    alternativeText: audioFile.alternativeText ?? null,
+    chapters: audioFile.provider_metadata?.ttsInfo?.chapters ?? [],
+  };
+}
+
+/**
+ * Read the post's `translationStatus` (from the EN row, like recordStatus).
+ */
+async function readStatus(strapi: Core.Strapi, documentId: string): Promise<PostTranslationStatusMap> {
+  const row = await strapi.db.query('api::post.post').findOne({
+    where: { documentId, locale: 'en' },
+    select: ['translationStatus'],
+  }) as { translationStatus?: PostTranslationStatusMap | null } | null;
+  return row?.translationStatus ?? {};
+}
+
+/**
+ * Merge one locale's status into the post's `translationStatus`.
+ * The field is non-localized, so it is written to every row of the document.
+ */
+async function recordStatus(
+  strapi: Core.Strapi,
+  documentId: string,
+  locale: string,
+  status: PostTranslationState,
+  error?: string,
+  audio?: PostLocaleAudioStatus
+): Promise<void> {
+  const translationStatus: PostTranslationStatusMap = {
+    ...(await readStatus(strapi, documentId)),
+    [locale]: { status, updatedAt: new Date().toISOString(), ...(error ? { error } : {}), ...(audio ? { audio } : {}) },
+  };
+
+  await strapi.db.query('api::post.post').updateMany({ where: { documentId }, data: { translationStatus } });
+}
+
+/**
+ * Create the locale entry for tags that don't have one yet.
+ * Returns document IDs of tags usable in the locale (existing + created).
+ */
+async function ensureLocalizedTags(
+  strapi: Core.Strapi,
+  locale: string,
+  missing: readonly TagDocument[],
+  translatedNames: readonly string[],
+  available: string[]
+): Promise<string[]> {
+  const tagService = strapi.documents('api::tag.tag') as unknown as DocumentService<TagDocument>;
+  const tagDocIds = [...available];
+
+  for (let i = 0; i < missing.length; i++) {
+    const tag = missing[i];
+    const name = translatedNames[i];
+    try {
+      await tagService.update({
+        documentId: tag.documentId,
+        locale,
+        data: { name, slug: slugify(name) },
+      });
+      await tagService.publish({ documentId: tag.documentId, locale });
+      tagDocIds.push(tag.documentId);
+    } catch (error) {
+      // A tag that can't be localized (e.g. name clash) shouldn't fail the post
+      strapi.log.warn(`[Post:LocaleSync:${locale}] Could not localize tag "${tag.name}": ${getErrorMessage(error)}`);
+    }
+  }
+
+  return tagDocIds;
+}
+
+/**
+ * Narrate a translated post in its own locale.
+ * Chapters come from the translated H2 headings (matched against the
+ * narration's word timestamps), so they line up with the localized audio.
+ * Never throws - failures are reported in the returned status.
+ */
+async function narrateLocale(
+  strapi: Core.Strapi,
+  narrate: NonNullable<PostLocaleSyncOptions['narrate']>,
+  draft: LocalizedPostDraft,
+  gameSlug: string
+): Promise<{ result: GenerateArticleAudioResult | null; status: PostLocaleAudioStatus }> {
+  const updatedAt = new Date().toISOString();
+  if (!TTS_CONFIG.ENABLED) {
+    return { result: null, status: { status: 'skipped', updatedAt, error: 'TTS is disabled' } };
+  }
+
+  try {
+    const result = await narrate({
+      markdown: stripCitationMarkers(removeImagesFromMarkdown(draft.content)),
+      articleTitle: draft.title,
+      gameSlug,
+      articleSlug: draft.slug,
+      locale: draft.locale,
+      strapi,
+    });
+    if (!result) {
+      return { result: null, status: { status: 'failed', updatedAt, error: 'Audio generation returned no audio' } };
+    }
+    return { result, status: { status: 'completed', updatedAt, voice: result.voice } };
+  } catch (error) {
+    return { result: null, status: { status: 'failed', updatedAt, error: getErrorMessage(error) } };
+  }
+}
+
+/**
+ * Last steps of a locale once its entry exists: link related posts, publish,
+ * record completion and notify webhooks.
+ */
+async function finishLocale(
+  strapi: Core.Strapi,
+  postService: DocumentService<PostDocument>,
+  documentId: string,
+  locale: string,
+  entry: { slug: string; title: string },
+  audio?: PostLocaleAudioStatus
+): Promise<void> {
+  const tag = `[Post:LocaleSync:${locale}]`;
+
+  // Related posts and links to pages in this locale (a failure keeps the translation)
+  try {
+    await linkRelatedPosts(strapi, documentId, locale);
+  } catch (error) {
+    strapi.log.warn(`${tag} Related posts failed: ${getErrorMessage(error)}`);
+  }
+
+  // Publish to keep draft/published in sync
+  await postService.publish({ documentId, locale });
+
+  await recordStatus(strapi, documentId, locale, 'completed', undefined, audio);
+  emitWebhookEvent(strapi, 'post.translated', { documentId, locale, slug: entry.slug, title: entry.title });
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Translate a published English post into every configured locale.
+ *
+ * EN is the source of truth: each missing locale is translated (content, tags,
+ * audio chapter metadata), created with the same relations, and published.
+ * When the EN post has audio, the translation is narrated with the locale's
+ * voice and the audio + chapter file are attached to the locale entry; a
+ * narration failure keeps the translated chapter metadata and does not fail
+ * the locale. Locales run independently - a failure is recorded in
+ * `translationStatus` and the remaining locales still sync. Locales that are
+ * published or recorded as completed are left alone, as are drafts an editor
+ * created; a draft left by a failed or interrupted sync is linked and
+ * published on the next run.
+ */
+export async function syncPostLocales(
+  strapi: Core.Strapi,
+  documentId: string,
+  options: PostLocaleSyncOptions = {}
+): Promise<PostLocaleSyncResult[]> {
+  const locales = options.locales ?? getContentLocales();
+  const translate = options.translate ?? translatePost;
+  const narrate = options.narrate ?? generateAndUploadArticleAudio;
+
+  const postService = strapi.documents('api::post.post') as unknown as DocumentService<PostDocument>;
+  const gameService = strapi.documents('api::game.game') as unknown as DocumentService<{ documentId: string }>;
+  const tagService = strapi.documents('api::tag.tag') as unknown as DocumentService<TagDocument>;
+
+  // Load EN post with relations so we can copy connections.
+  const enPost = await postService.findOne({
+    documentId,
+    locale: 'en',
+    populate: ['category', 'author', 'games', 'tags', 'audioFile'],
+  });
+
+  if (!enPost) {
+    strapi.log.warn(`[Post:LocaleSync] EN post missing for documentId=${documentId}`);
+    return [];
+  }
+
+  const categoryDocId = getDocumentId(enPost.category);
+  const authorDocId = getDocumentId(enPost.author);
+  const games = getDocumentArray<{ documentId: string; slug?: string | null }>(enPost.games);
+  const gameDocIds = games.map(g => g.documentId);
+  const gameSlug = games[0]?.slug || 'unknown';
+  const tags = getDocumentArray<TagDocument>(enPost.tags);
+  const audio = getAudioMetadata(enPost);
+
+  const results: PostLocaleSyncResult[] = [];
+
+  for (const definition of locales) {
+    const locale = definition.code;
+    const tag = `[Post:LocaleSync:${locale}]`;
+
+    try {
+      const recorded = (await readStatus(strapi, documentId))[locale]?.status;
+      if (recorded === 'completed' || (await postService.findOne({ documentId, locale, status: 'published' }))) {
+        results.push({ locale, status: 'exists' });
+        continue;
+      }
+
+      const existing = await postService.findOne({ documentId, locale });
+      if (existing) {
+        // A draft without a pending/failed sync was made by an editor - leave it to them
+        if (recorded !== 'pending' && recorded !== 'failed') {
+          results.push({ locale, status: 'exists' });
+          continue;
+        }
+
+        // An earlier sync created the entry but stopped before publishing: finish it
+        await finishLocale(strapi, postService, documentId, locale, {
+          slug: String(existing.slug || ''),
+          title: String(existing.title || ''),
+        });
+        results.push({ locale, status: 'completed' });
+        strapi.log.info(`${tag} Resumed ${locale} locale for post documentId=${documentId}`);
+        continue;
+      }
+
+      if (!categoryDocId || !authorDocId || gameDocIds.length === 0) {
+        const reason = 'Missing required relations (category, author or games) on EN post';
+        strapi.log.warn(`${tag} ${reason} (documentId=${documentId})`);
+        await recordStatus(strapi, documentId, locale, 'skipped', reason);
+        results.push({ locale, status: 'skipped', error: reason });
+        continue;
+      }
+
+      // Games need the locale before a localized post can connect to them.
+      // Games normally get it via import; skip this locale until they do.
+      let missingGame: string | undefined;
+      for (const gameDocId of gameDocIds) {
+        if (!(await gameService.findOne({ documentId: gameDocId, locale }))) {
+          missingGame = gameDocId;
+          break;
+        }
+      }
+      if (missingGame) {
+        const reason = `Game missing ${locale} locale (documentId=${missingGame})`;
+        strapi.log.warn(`${tag} ${reason}; skipping post translation.`);
+        await recordStatus(strapi, documentId, locale, 'skipped', reason);
+        results.push({ locale, status: 'skipped', error: reason });
+        continue;
+      }
+
+      await recordStatus(strapi, documentId, locale, 'pending');
+
+      // Tags that already exist in this locale are reused; the rest get translated.
+      const localizedTagIds: string[] = [];
+      const missingTags: TagDocument[] = [];
+      for (const t of tags) {
+        if (await tagService.findOne({ documentId: t.documentId, locale })) {
+          localizedTagIds.push(t.documentId);
+        } else {
+          missingTags.push(t);
+        }
+      }
+
+      // Translate EN -> locale (EN is the source of truth).
+      // Internal links point to EN pages; the locale gets its own links below.
+      const draft = await translate({
+        title: String(enPost.title || ''),
+        excerpt: enPost.excerpt ?? null,
+        description: enPost.description ?? null,
+        content: stripInternalLinks(String(enPost.content || '')),
+        tags: missingTags.map(t => t.name),
+        audio,
+        verdict: enPost.verdict ?? null,
+      }, definition);
+
+      const tagDocIds = await ensureLocalizedTags(strapi, locale, missingTags, draft.tags, localizedTagIds);
+
+      // Narrate the translation when the EN post has audio
+      const narration = audio ? await narrateLocale(strapi, narrate, draft, gameSlug) : null;
+      if (narration && narration.status.status !== 'completed') {
+        strapi.log.warn(`${tag} Narration ${narration.status.status}: ${narration.status.error}`);
+      }
+      const localizedAudio = narration?.result;
+      const audioMetadata: PostAudioMetadata | undefined = localizedAudio
+        ? { alternativeText: draft.audio?.alternativeText ?? null, chapters: localizedAudio.chapters ?? [] }
+        : draft.audio;
+
+      // Create locale entry + connect relations
+      await postService.update({
+        documentId,
+        locale,
+        data: {
+          title: draft.title,
+          slug: draft.slug,
+          excerpt: draft.excerpt,
+          ...(draft.description ? { description: draft.description } : {}),
+          content: draft.content,
+          ...(draft.verdict ? { verdict: draft.verdict } : {}),
+          ...(audioMetadata ? { audioMetadata } : {}),
+          ...(localizedAudio ? { audioFile: localizedAudio.id } : {}),
+          ...(localizedAudio?.chapterFileId ? { chapterFile: localizedAudio.chapterFileId } : {}),
+          category: { connect: [categoryDocId] },
+          author: { connect: [authorDocId] },
+          games: { connect: gameDocIds },
+          ...(tagDocIds.length > 0 ? { tags: { connect: tagDocIds } } : {}),
+        },
+      });
+
+      await finishLocale(strapi, postService, documentId, locale, draft, narration?.status);
+      results.push({ locale, status: 'completed' });
+      strapi.log.info(`${tag} Generated ${locale} locale for post documentId=${documentId}`);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      strapi.log.error(`${tag} Translation failed for post documentId=${documentId}: ${message}`);
+      try {
+        await recordStatus(strapi, documentId, locale, 'failed', message);
+      } catch (statusError) {
+        strapi.log.error(`${tag} Could not record failure: ${getErrorMessage(statusError)}`);
+      }
+      results.push({ locale, status: 'failed', error: message });
+    }
+  }
+
+  return results;
+}
@@ -2,26 +2,80 @@ import { createOpenRouter } from '@openrouter/ai-sdk-provider';
 import { generateText, Output } from 'ai';
 import { z } from 'zod';
 
+import type { ReviewVerdict } from '../../../ai/articles/article-plan';
+import type { AudioChapter } from '../../../ai/articles/services/tts-types';
 import { getModel } from '../../../ai/config/utils';
+import { getLocaleDefinition, type LocaleDefinition } from '../../../utils/locales';
 import { slugify } from '../../../utils/slug';
 
 const openrouter = createOpenRouter({
   apiKey: process.env.OPENROUTER_API_KEY || '',
 });
 
-export interface EnglishPostForTranslation {
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Audio narration metadata stored per locale on the post (`audioMetadata`).
+ * The audio file itself is shared; titles are translated so players can show
+ * localized chapter navigation.
+ */
+export interface PostAudioMetadata {
+  readonly alternativeText?: string | null;
+  readonly chapters: readonly AudioChapter[];
+}
+
+/**
+ * Source (English) post content sent to the translator
+ */
+export interface SourcePostForTranslation {
   readonly title: string;
   readonly excerpt?: string | null;
   readonly description?: string | null;
   readonly content: string;
+  /** Tag names that still need a name in the target locale */
+  readonly tags?: readonly string[];
+  /** Audio narration metadata to localize (if the post has audio) */
+  readonly audio?: PostAudioMetadata | null;
+  /** Review verdict to localize (reviews only); the score is kept */
+  readonly verdict?: ReviewVerdict | null;
 }
 
-export interface SpanishPostDraft {
+/**
+ * Translated post content for one locale
+ */
+export interface LocalizedPostDraft {
+  readonly locale: string;
   readonly title: string;
   readonly slug: string;
   readonly excerpt: string;
   readonly description?: string;
   readonly content: string;
+  /** Translated tag names, in the same order as the source tags */
+  readonly tags: readonly string[];
+  readonly audio?: PostAudioMetadata;
+  readonly verdict?: ReviewVerdict;
+}
+
+export type PostTranslationErrorCode = 'UNKNOWN_LOCALE' | 'MISSING_REFERENCE' | 'STRUCTURE_MISMATCH';
+
+/**
+ * Raised when a translation cannot be produced or fails validation
+ */
+export class PostTranslationError extends Error {
+  constructor(readonly code: PostTranslationErrorCode, message: string) {
+    super(message);
+    this.name = 'PostTranslationError';
+  }
+}
+
+/**
+ * A URL pulled out of the content before translation
+ */
+export interface ProtectedReference {
+  readonly placeholder: string;
+  readonly value: string;
 }
 
 const TranslationSchema = z.object({
@@ -29,28 +83,114 @@ const TranslationSchema = z.object({
   excerpt: z.string().min(120).max(160),
   description: z.string().min(0).max(200).optional(),
   content: z.string().min(50),
+  tags: z.array(z.string().min(1).max(100)).default([]),
+  audioAlternativeText: z.string().optional(),
+  chapterTitles: z.array(z.string()).default([]),
+  verdictSummary: z.string().optional(),
+  verdictPros: z.array(z.string().min(1)).default([]),
+  verdictCons: z.array(z.string().min(1)).default([]),
+  verdictPlayItIf: z.array(z.string().min(1)).default([]),
+  verdictPlatformNotes: z.array(z.string().min(1)).default([]),
 });
 
+type TranslationOutput = z.infer<typeof TranslationSchema>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
 /**
- * Generate a Spanish localized version of an English post using the English post as the source of truth.
- * This is used after the English post is published.
+ * Replace link/image targets with placeholders so the model cannot rewrite them.
+ *
+ * Covers inline Markdown (`[text](url)`, `![alt](url "title")`), reference
+ * definitions (`[id]: url`), HTML `src`/`href` attributes and citation
+ * markers (`[^src-1a2b3c4d]`, which must keep matching the post's sources).
+ * Link text and alt text stay in place and get translated.
  */
-export async function translatePostEnToEs(input: EnglishPostForTranslation): Promise<SpanishPostDraft> {
-  const { output } = await generateText({
-    model: openrouter(getModel('POST_TRANSLATION')),
-    output: Output.object({
-      schema: TranslationSchema,
-    }),
-    system:
-      'You are a professional Spanish localization writer for a gaming site. ' +
-      'Translate and LOCALIZE (not literal word-for-word) while preserving meaning and structure.',
-    prompt: `Translate this article into Spanish.
+export function protectReferences(content: string): { text: string; references: ProtectedReference[] } {
+  const references: ProtectedReference[] = [];
+  const placeholderFor = (value: string): string => {
+    const placeholder = `{{ref:${references.length}}}`;
+    references.push({ placeholder, value });
+    return placeholder;
+  };
+
+  const text = content
+    .replace(/\]\(\s*([^)\s]+)((?:\s+"[^"]*")?)\s*\)/g, (_match, url: string, title: string) =>
+      `](${placeholderFor(url)}${title})`
+    )
+    .replace(/^(\s{0,3}\[[^\]]+\]:\s+)(\S+)/gm, (_match, prefix: string, url: string) =>
+      `${prefix}${placeholderFor(url)}`
+    )
+    .replace(/\b(src|href)="([^"]+)"/g, (_match, attr: string, url: string) =>
+      `${attr}="${placeholderFor(url)}"`
+    )
+    .replace(/\[\^src-[0-9a-f]{8}\]/g, (marker: string) => placeholderFor(marker));
+
+  return { text, references };
+}
+
+/**
+ * Put protected references back. Throws if the model dropped any placeholder.
+ */
+export function restoreReferences(text: string, references: readonly ProtectedReference[]): string {
+  let restored = text;
+  for (const ref of references) {
+    if (!restored.includes(ref.placeholder)) {
+      throw new PostTranslationError(
+        'MISSING_REFERENCE',
+        `Translation dropped a link, image or citation reference (${ref.value})`
+      );
+    }
+    restored = restored.split(ref.placeholder).join(ref.value);
+  }
+  return restored;
+}
+
+/**
+ * Heading levels in document order, ignoring fenced code blocks
+ */
+export function getHeadingOutline(content: string): number[] {
+  const outline: number[] = [];
+  let inFence = false;
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = /^(#{1,6})\s+\S/.exec(line);
+    if (match) outline.push(match[1].length);
+  }
+  return outline;
+}
+
+function resolveLocale(locale: string | LocaleDefinition): LocaleDefinition {
+  if (typeof locale !== 'string') return locale;
+  const definition = getLocaleDefinition(locale);
+  if (!definition) {
+    throw new PostTranslationError('UNKNOWN_LOCALE', `No locale definition for "${locale}"`);
+  }
+  return definition;
+}
+
+function buildPrompt(input: SourcePostForTranslation, protectedContent: string, language: string): string {
+  const tags = input.tags ?? [];
+  const chapters = input.audio?.chapters ?? [];
+  const verdict = input.verdict;
+
+  return `Translate this article into ${language}.
 
 Rules:
 - Output ONLY JSON matching the schema.
 - Keep game titles / product names / proper nouns in their official names (do not translate if they are brand names).
-- Keep Markdown structure (headings, lists). If the content looks like HTML, preserve tags but translate inner text.
+- Keep Markdown structure exactly: same headings (same levels, same order), lists, tables and emphasis. If the content looks like HTML, preserve tags but translate inner text.
+- Placeholders like {{ref:0}} are link and image targets or source citations: copy every one unchanged, in the same position. Translate link text and image alt text.
 - excerpt must be 120-160 chars (meta description style).
+- tags: translate each tag name, same order, same count (${tags.length}).
+- chapterTitles: translate each audio chapter title, same order, same count (${chapters.length}).
+- audioAlternativeText: translate the audio description if one is given.
+- verdictSummary, verdictPros, verdictCons, verdictPlayItIf, verdictPlatformNotes: translate the review verdict if one is given, item by item, same order, same counts (${verdict?.pros.length ?? 0}, ${verdict?.cons.length ?? 0}, ${verdict?.playItIf.length ?? 0}, ${verdict?.platformNotes.length ?? 0}).
 - Do not add prices.
 
 English title:
@@ -62,17 +202,141 @@ ${input.excerpt || ''}
 English description (may be empty):
 ${input.description || ''}
 
+English tags (may be empty):
+${tags.join('\n')}
+
+English audio description (may be empty):
+${input.audio?.alternativeText || ''}
+
+English audio chapter titles (may be empty):
+${chapters.map(c => c.title).join('\n')}
+
+English verdict summary (may be empty):
+${verdict?.summary || ''}
+
+English verdict pros (may be empty):
+${(verdict?.pros ?? []).join('\n')}
+
+English verdict cons (may be empty):
+${(verdict?.cons ?? []).join('\n')}
+
+English verdict "play it if" (may be empty):
+${(verdict?.playItIf ?? []).join('\n')}
+
+English verdict platform notes (may be empty):
+${(verdict?.platformNotes ?? []).map(n => `${n.platform}: ${n.note}`).join('\n')}
+
 English content:
-${input.content}
-`,
-  });
+${protectedContent}
+`;
+}
+
+/**
+ * Validate model output against the source and assemble the localized draft
+ */
+export function buildLocalizedDraft(
+  locale: string,
+  input: SourcePostForTranslation,
+  output: TranslationOutput,
+  references: readonly ProtectedReference[]
+): LocalizedPostDraft {
+  const content = restoreReferences(output.content, references);
+
+  const sourceOutline = getHeadingOutline(input.content);
+  const translatedOutline = getHeadingOutline(content);
+  if (sourceOutline.join(',') !== translatedOutline.join(',')) {
+    throw new PostTranslationError(
+      'STRUCTURE_MISMATCH',
+      `Heading structure changed (source: ${sourceOutline.length} headings, translation: ${translatedOutline.length})`
+    );
+  }
+
+  const sourceTags = input.tags ?? [];
+  if (output.tags.length !== sourceTags.length) {
+    throw new PostTranslationError(
+      'STRUCTURE_MISMATCH',
+      `Expected ${sourceTags.length} translated tags, got ${output.tags.length}`
+    );
+  }
+
+  let audio: PostAudioMetadata | undefined;
+  if (input.audio) {
+    const sourceChapters = input.audio.chapters;
+    if (output.chapterTitles.length !== sourceChapters.length) {
+      throw new PostTranslationError(
+        'STRUCTURE_MISMATCH',
+        `Expected ${sourceChapters.length} chapter titles, got ${output.chapterTitles.length}`
+      );
+    }
+    audio = {
+      alternativeText: output.audioAlternativeText || input.audio.alternativeText || null,
+      chapters: sourceChapters.map((chapter, i) => ({ ...chapter, title: output.chapterTitles[i] })),
+    };
+  }
+
+  let verdict: ReviewVerdict | undefined;
+  if (input.verdict) {
+    const source = input.verdict;
+    const counts: Array<[string, number, number]> = [
+      ['verdict pros', source.pros.length, output.verdictPros.length],
+      ['verdict cons', source.cons.length, output.verdictCons.length],
+      ['"play it if" items', source.playItIf.length, output.verdictPlayItIf.length],
+      ['platform notes', source.platformNotes.length, output.verdictPlatformNotes.length],
+    ];
+    for (const [label, expected, actual] of counts) {
+      if (expected !== actual) {
+        throw new PostTranslationError('STRUCTURE_MISMATCH', `Expected ${expected} ${label}, got ${actual}`);
+      }
+    }
+    verdict = {
+      score: source.score,
+      summary: output.verdictSummary || source.summary,
+      pros: output.verdictPros,
+      cons: output.verdictCons,
+      playItIf: output.verdictPlayItIf,
+      platformNotes: source.platformNotes.map((n, i) => ({ platform: n.platform, note: output.verdictPlatformNotes[i] })),
+    };
+  }
 
   return {
+    locale,
     title: output.title,
     slug: slugify(output.title),
     excerpt: output.excerpt,
     ...(output.description ? { description: output.description } : {}),
-    content: output.content,
+    content,
+    tags: output.tags,
+    ...(audio ? { audio } : {}),
+    ...(verdict ? { verdict } : {}),
   };
 }
 
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Generate a localized version of an English post using the English post as the source of truth.
+ * Link and image targets are protected with placeholders and the heading outline is
+ * validated, so Markdown structure, image references and internal links survive.
+ */
+export async function translatePost(
+  input: SourcePostForTranslation,
+  targetLocale: string | LocaleDefinition
+): Promise<LocalizedPostDraft> {
+  const locale = resolveLocale(targetLocale);
+  const { text, references } = protectReferences(input.content);
+
+  const { output } = await generateText({
+    model: openrouter(getModel('POST_TRANSLATION')),
+    output: Output.object({
+      schema: TranslationSchema,
+    }),
+    system:
+      `You are a professional ${locale.language} localization writer for a gaming site. ` +
+      'Translate and LOCALIZE (not literal word-for-word) while preserving meaning and structure.',
+    prompt: buildPrompt(input, text, locale.language),
+  });
+
+  return buildLocalizedDraft(locale.code, input, output, references);
+}
@@ -0,0 +1,297 @@
+/**
+ * Related Posts and Internal Links
+ *
+ * Fills a post's `relatedPosts` and weaves links to those posts and to the
+ * post's game pages into its content. Each locale runs separately: candidates,
+ * game slugs and link URLs all come from the post's own locale.
+ *
+ * Only the draft is updated; a published post shows the change once it is
+ * published again. Re-running is safe - related posts are replaced and links
+ * already in the content are kept - so posts can be relinked as new posts
+ * are published.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import { INTERNAL_LINK_CONFIG } from '../../../ai/articles/config';
+import {
+  selectRelatedPosts,
+  weaveInternalLinks,
+  type InsertedInternalLink,
+  type InternalLinkTarget,
+  type RelatedPostSignals,
+} from '../../../ai/articles/internal-links';
+import { DEFAULT_LOCALE, getContentLocales } from '../../../utils/locales';
+import type { StrapiDocumentService } from '../../article-generator/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Body of a relink request. Without `locale`, every locale is relinked.
+ * `gameDocumentId` limits a bulk rebuild to that game's posts.
+ */
+export const relatedPostsRequestSchema = z.object({
+  locale: z.string().min(2).max(10).optional(),
+  gameDocumentId: z.string().min(1).optional(),
+});
+
+export type RelatedPostsRequest = z.infer<typeof relatedPostsRequestSchema>;
+
+/**
+ * Outcome of relinking one post in one locale.
+ */
+export interface RelatedPostsResult {
+  readonly documentId: string;
+  readonly locale: string;
+  readonly relatedPosts: ReadonlyArray<{ documentId: string; title: string; score: number }>;
+  readonly links: readonly InsertedInternalLink[];
+}
+
+/**
+ * Outcome of a bulk rebuild, per post and locale.
+ */
+export interface RelatedPostsRebuildEntry {
+  readonly documentId: string;
+  readonly locale: string;
+  readonly status: 'updated' | 'failed';
+  readonly relatedPosts?: number;
+  readonly links?: number;
+  readonly error?: string;
+}
+
+interface LinkablePost {
+  documentId: string;
+  title?: string | null;
+  slug?: string | null;
+  content?: string | null;
+  publishedAt?: string | null;
+  category?: { slug?: string | null } | null;
+  games?: Array<{
+    documentId: string;
+    name?: string | null;
+    slug?: string | null;
+    franchises?: Array<{ documentId: string }> | null;
+  }> | null;
+  tags?: Array<{ documentId: string; name?: string | null }> | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const POST_UID = 'api::post.post';
+
+/** Relations scored for relatedness */
+const SIGNAL_POPULATE = {
+  category: { fields: ['slug'] },
+  games: { fields: ['name', 'slug'], populate: { franchises: { fields: ['documentId'] } } },
+  tags: { fields: ['name'] },
+};
+
+/**
+ * Site-relative path of a post page.
+ */
+export function buildPostPath(locale: string, slug: string): string {
+  return `/${locale}/${slug}`;
+}
+
+/**
+ * Site-relative path of a game page.
+ */
+export function buildGamePath(locale: string, slug: string): string {
+  return `/${locale}/games/${slug}`;
+}
+
+function getPostService(strapi: Core.Strapi): StrapiDocumentService<LinkablePost> {
+  return strapi.documents(POST_UID) as unknown as StrapiDocumentService<LinkablePost>;
+}
+
+function getSignals(post: LinkablePost): RelatedPostSignals {
+  const games = post.games ?? [];
+  return {
+    gameIds: games.map((game) => game.documentId),
+    franchiseIds: games.flatMap((game) => (game.franchises ?? []).map((franchise) => franchise.documentId)),
+    tagIds: (post.tags ?? []).map((tag) => tag.documentId),
+    categorySlug: post.category?.slug ?? null,
+  };
+}
+
+/**
+ * Published posts in the locale sharing a game, franchise or tag with the post.
+ */
+async function findCandidates(
+  strapi: Core.Strapi,
+  post: LinkablePost,
+  locale: string,
+  signals: RelatedPostSignals
+): Promise<LinkablePost[]> {
+  const conditions = [
+    ...(signals.gameIds.length > 0 ? [{ games: { documentId: { $in: signals.gameIds } } }] : []),
+    ...(signals.franchiseIds.length > 0
+      ? [{ games: { franchises: { documentId: { $in: signals.franchiseIds } } } }]
+      : []),
+    ...(signals.tagIds.length > 0 ? [{ tags: { documentId: { $in: signals.tagIds } } }] : []),
+  ];
+  if (conditions.length === 0) return [];
+
+  return getPostService(strapi).findMany({
+    locale,
+    status: 'published',
+    filters: { documentId: { $ne: post.documentId }, $or: conditions },
+    fields: ['title', 'slug', 'publishedAt'],
+    populate: SIGNAL_POPULATE,
+    sort: ['publishedAt:desc'],
+    limit: INTERNAL_LINK_CONFIG.MAX_CANDIDATES,
+  } as any);
+}
+
+/**
+ * Link targets: the post's games first, then related posts by score.
+ * Related posts are anchored on their title, then their tags (game names
+ * are left to the game pages).
+ */
+function buildLinkTargets(
+  post: LinkablePost,
+  related: readonly LinkablePost[],
+  locale: string
+): InternalLinkTarget[] {
+  const games = (post.games ?? []).filter((game) => game.slug && game.name);
+  const gameNames = new Set(games.map((game) => game.name!.toLowerCase()));
+
+  return [
+    ...games.map((game) => ({
+      url: buildGamePath(locale, game.slug!),
+      kind: 'game' as const,
+      anchors: [game.name!],
+    })),
+    ...related
+      .filter((candidate) => candidate.slug && candidate.title)
+      .map((candidate) => ({
+        url: buildPostPath(locale, candidate.slug!),
+        kind: 'post' as const,
+        anchors: [
+          candidate.title!,
+          ...(candidate.tags ?? [])
+            .map((tag) => tag.name ?? '')
+            .filter((name) => name && !gameNames.has(name.toLowerCase())),
+        ],
+      })),
+  ];
+}
+
+function getLocaleCodes(locale?: string): string[] {
+  return locale ? [locale] : [...new Set([DEFAULT_LOCALE, ...getContentLocales().map((l) => l.code)])];
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Fill a post's related posts and weave internal links into its content,
+ * in one locale. Returns null if the post has no entry in the locale.
+ */
+export async function linkRelatedPosts(
+  strapi: Core.Strapi,
+  documentId: string,
+  locale: string
+): Promise<RelatedPostsResult | null> {
+  const postService = getPostService(strapi);
+  const post = await postService.findOne({ documentId, locale, populate: SIGNAL_POPULATE } as any);
+  if (!post) return null;
+
+  const signals = getSignals(post);
+  const candidates = await findCandidates(strapi, post, locale, signals);
+  const related = selectRelatedPosts(
+    signals,
+    candidates.map((candidate) => ({ ...getSignals(candidate), publishedAt: candidate.publishedAt, post: candidate }))
+  );
+
+  const { markdown, links } = weaveInternalLinks(
+    post.content ?? '',
+    buildLinkTargets(post, related.map(({ candidate }) => candidate.post), locale)
+  );
+
+  await postService.update({
+    documentId,
+    locale,
+    data: {
+      relatedPosts: { set: related.map(({ candidate }) => candidate.post.documentId) },
+      ...(links.length > 0 && { content: markdown }),
+    },
+  } as any);
+
+  strapi.log.info(
+    `[RelatedPosts:${locale}] Post ${documentId}: ${related.length} related post(s), ${links.length} new link(s)`
+  );
+
+  return {
+    documentId,
+    locale,
+    relatedPosts: related.map(({ candidate, score }) => ({
+      documentId: candidate.post.documentId,
+      title: candidate.post.title ?? '',
+      score,
+    })),
+    links,
+  };
+}
+
+/**
+ * Relink a post in one locale, or in every locale it exists in.
+ */
+export async function linkRelatedPostsForLocales(
+  strapi: Core.Strapi,
+  documentId: string,
+  locale?: string
+): Promise<RelatedPostsResult[]> {
+  const results: RelatedPostsResult[] = [];
+  for (const code of getLocaleCodes(locale)) {
+    const result = await linkRelatedPosts(strapi, documentId, code);
+    if (result) results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Relink every post (optionally only one game's posts) in one or every locale.
+ * Posts run independently - a failure is reported and the rest still run.
+ */
+export async function rebuildRelatedPosts(
+  strapi: Core.Strapi,
+  request: RelatedPostsRequest = {}
+): Promise<RelatedPostsRebuildEntry[]> {
+  const postService = getPostService(strapi);
+  const entries: RelatedPostsRebuildEntry[] = [];
+
+  for (const locale of getLocaleCodes(request.locale)) {
+    const posts = await postService.findMany({
+      locale,
+      fields: ['documentId'],
+      ...(request.gameDocumentId && { filters: { games: { documentId: request.gameDocumentId } } }),
+    } as any);
+
+    for (const { documentId } of posts) {
+      try {
+        const result = await linkRelatedPosts(strapi, documentId, locale);
+        if (!result) continue;
+        entries.push({
+          documentId,
+          locale,
+          status: 'updated',
+          relatedPosts: result.relatedPosts.length,
+          links: result.links.length,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        strapi.log.error(`[RelatedPosts:${locale}] Post ${documentId} failed: ${message}`);
+        entries.push({ documentId, locale, status: 'failed', error: message });
+      }
+    }
+  }
+
+  return entries;
+}
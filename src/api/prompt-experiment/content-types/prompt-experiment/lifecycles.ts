@@ -0,0 +1,49 @@
+/**
+ * Prompt Experiment Content Type Lifecycle Hooks
+ *
+ * Rejects experiments whose arms reference unregistered prompt versions, so a
+ * typo is caught when the experiment is saved rather than on live traffic.
+ */
+
+import { errors } from '@strapi/utils';
+
+import { isArticleGenerationError } from '../../../../ai/articles/types';
+import type { ArticleCategorySlug } from '../../../../ai/articles/article-plan';
+import { validatePromptExperimentArms } from '../../../article-generator/services/prompt-experiments';
+
+interface PromptExperimentLifecycleEvent {
+  params: {
+    data: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Validates `arms` when present in the write payload. Without a category in
+ * the payload the versions must exist for every category.
+ *
+ * @throws errors.ValidationError shown in the admin when the arms are invalid
+ */
+function assertValidArms(event: PromptExperimentLifecycleEvent): void {
+  const { data } = event.params;
+  if (!data || !('arms' in data)) return;
+
+  try {
+    validatePromptExperimentArms(data.arms, (data.categorySlug as ArticleCategorySlug | null | undefined) ?? null);
+  } catch (error) {
+    if (isArticleGenerationError(error)) {
+      throw new errors.ValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+export default {
+  beforeCreate(event: PromptExperimentLifecycleEvent) {
+    assertValidArms(event);
+  },
+
+  beforeUpdate(event: PromptExperimentLifecycleEvent) {
+    assertValidArms(event);
+  },
+};
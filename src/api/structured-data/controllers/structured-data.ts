@@ -0,0 +1,84 @@
+/**
+ * structured-data controller
+ */
+
+import type { Core } from '@strapi/strapi';
+
+import { isAuthenticated } from '../../article-generator/utils/admin-auth';
+import { FEED_CONFIG } from '../../feed/services/feed-utils';
+import {
+  getStructuredData,
+  rebuildStructuredData,
+  structuredDataRebuildSchema,
+  StructuredDataError,
+  type StructuredDataKind,
+} from '../services/structured-data';
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  async function sendStructuredData(ctx: any, kind: StructuredDataKind) {
+    try {
+      const jsonLd = await getStructuredData(strapi, kind, ctx.params.locale, ctx.params.slug);
+      ctx.set('Cache-Control', `public, max-age=${FEED_CONFIG.CACHE_MAX_AGE_SECONDS}`);
+      ctx.type = 'application/ld+json; charset=utf-8';
+      ctx.body = jsonLd;
+    } catch (error) {
+      if (error instanceof StructuredDataError && error.status === 404) {
+        return ctx.notFound(error.message);
+      }
+      strapi.log.error('[StructuredData] Build error:', error);
+      return ctx.internalServerError('Failed to build structured data');
+    }
+  }
+
+  return {
+    /**
+     * JSON-LD for a published post
+     * GET /api/structured-data/:locale/posts/:slug
+     */
+    async post(ctx) {
+      return sendStructuredData(ctx, 'post');
+    },
+
+    /**
+     * JSON-LD for a published game page
+     * GET /api/structured-data/:locale/games/:slug
+     */
+    async game(ctx) {
+      return sendStructuredData(ctx, 'game');
+    },
+
+    /**
+     * Rebuild and store the JSON-LD of every published post and game
+     * POST /api/structured-data/rebuild
+     * Auth: Either x-ai-generation-secret header OR admin JWT token
+     * Body: { kind?: 'post' | 'game', locale?: string }
+     */
+    async rebuild(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized('Unauthorized: Provide valid admin JWT token or AI generation secret');
+      }
+
+      const parsed = structuredDataRebuildSchema.safeParse(ctx.request?.body ?? {});
+      if (!parsed.success) {
+        return ctx.badRequest('Invalid request body', { issues: parsed.error.issues });
+      }
+
+      try {
+        const results = await rebuildStructuredData(strapi, parsed.data);
+        ctx.body = {
+          success: true,
+          stored: results.filter((r) => r.status === 'stored').length,
+          invalid: results.filter((r) => r.status === 'invalid').length,
+          failed: results.filter((r) => r.status === 'failed').length,
+          results,
+        };
+      } catch (error) {
+        if (error instanceof StructuredDataError && error.status === 404) {
+          return ctx.badRequest(error.message);
+        }
+        strapi.log.error('[StructuredData] Rebuild error:', error);
+        return ctx.internalServerError('Failed to rebuild structured data');
+      }
+    },
+  };
+};
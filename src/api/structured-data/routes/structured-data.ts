@@ -0,0 +1,37 @@
+/**
+ * Structured data routes
+ *
+ * Public schema.org JSON-LD for post and game pages, plus an admin rebuild.
+ * These are available at /api/structured-data/*
+ */
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/structured-data/:locale/posts/:slug',
+      handler: 'structured-data.post',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/structured-data/:locale/games/:slug',
+      handler: 'structured-data.game',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/structured-data/rebuild',
+      handler: 'structured-data.rebuild',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
@@ -0,0 +1,404 @@
+/**
+ * JSON-LD Builders
+ *
+ * Turns posts and games into schema.org JSON-LD graphs. Builders are pure:
+ * they take populated documents and return a document for validateJsonLd.
+ *
+ * Post graphs always hold an `Article` (`NewsArticle` for news) with the
+ * author's E-E-A-T profile, plus a node for the category:
+ * - reviews: `Review` of the post's first game, rated with the stored
+ *   verdict score (or the score the article states, e.g. "8.5/10")
+ * - guides: `HowTo` with one step per H2 section
+ * - lists: `ItemList` with one entry per H2 section
+ * Category slugs are localized, so the node is picked by the slug of the
+ * category's English entry (`categoryType`).
+ * Narrated posts get an `AudioObject` on the article.
+ *
+ * Game graphs hold a single `VideoGame` with platforms, genres, companies,
+ * age ratings and the IGDB rating as `aggregateRating`.
+ */
+
+import { stripCitationMarkers } from '../../../ai/articles/citations';
+import type { ReviewVerdict } from '../../../ai/articles/article-plan';
+import { REVIEW_VERDICT_CONFIG } from '../../../ai/articles/config';
+import { getContentH2Sections } from '../../../ai/articles/markdown-utils';
+import { extractReviewScore, type ReviewScore } from '../../../ai/articles/review-verdict';
+import type { TTSMetadata } from '../../../ai/articles/services/audio-uploader';
+import { DEFAULT_LOCALE } from '../../../utils/locales';
+import { FEED_CONFIG, buildGameUrl, buildPostUrl, toAbsoluteUrl } from '../../feed/services/feed-utils';
+import type {
+  JsonLdAudio,
+  JsonLdDocument,
+  JsonLdImage,
+  JsonLdNode,
+  JsonLdOrganization,
+  JsonLdPerson,
+  JsonLdVideoGame,
+} from './json-ld-schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface MediaFile {
+  url: string;
+  mime?: string | null;
+  width?: number | null;
+  height?: number | null;
+  alternativeText?: string | null;
+  provider_metadata?: { ttsInfo?: TTSMetadata } | null;
+}
+
+export interface StructuredDataAuthor {
+  name?: string | null;
+  bio?: string | null;
+  jobTitle?: string | null;
+  socialLinks?: Record<string, unknown> | null;
+  specializations?: string | null;
+  experience_since?: string | null;
+  verified_credentials?: string | null;
+  avatar?: MediaFile | null;
+}
+
+export interface StructuredDataPost {
+  documentId: string;
+  title?: string | null;
+  slug?: string | null;
+  excerpt?: string | null;
+  description?: string | null;
+  content?: string | null;
+  publishedAt?: string | null;
+  updatedAt?: string | null;
+  featuredImage?: MediaFile | null;
+  audioFile?: MediaFile | null;
+  category?: { documentId?: string; slug?: string | null; name?: string | null } | null;
+  /** Slug of the category's English entry (e.g. 'reviews' for 'resenas') */
+  categoryType?: string | null;
+  author?: StructuredDataAuthor | null;
+  games?: Array<{ name?: string | null; slug?: string | null }> | null;
+  tags?: Array<{ name?: string | null }> | null;
+  verdict?: ReviewVerdict | null;
+}
+
+export interface StructuredDataGame {
+  documentId: string;
+  name?: string | null;
+  slug?: string | null;
+  description?: string | null;
+  releaseDate?: string | null;
+  coverImageUrl?: string | null;
+  heroImage?: MediaFile | null;
+  totalRating?: number | string | null;
+  totalRatingCount?: number | null;
+  officialWebsite?: string | null;
+  steamUrl?: string | null;
+  igdbUrl?: string | null;
+  platforms?: Array<{ name?: string | null }> | null;
+  genres?: Array<{ name?: string | null }> | null;
+  developers?: Array<{ name?: string | null }> | null;
+  publishers?: Array<{ name?: string | null }> | null;
+  ageRatings?: Array<{ category?: string | null; rating?: string | null }> | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const JSON_LD_CONFIG = {
+  /** Max characters of plain text in descriptions, step texts and review bodies */
+  MAX_TEXT_LENGTH: 500,
+  /** Max characters of an article headline (Google truncates longer ones) */
+  MAX_HEADLINE_LENGTH: 110,
+} as const;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Markdown or HTML to a single line of plain text.
+ */
+function toPlainText(value: string | null | undefined, maxLength: number = JSON_LD_CONFIG.MAX_TEXT_LENGTH): string {
+  if (!value) return '';
+  const plain = stripCitationMarkers(value)
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|[-*+]|\d+\.|>)\s+/gm, '')
+    .replace(/[*_`|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (plain.length <= maxLength) return plain;
+  const cut = plain.slice(0, maxLength - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+function names(items: Array<{ name?: string | null }> | null | undefined): string[] {
+  return [...new Set((items ?? []).map((item) => item.name?.trim() ?? '').filter(Boolean))];
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/\S+$/i.test(value);
+}
+
+/**
+ * Seconds as an ISO 8601 duration (`PT1H2M3S`).
+ */
+export function toIsoDuration(seconds: number): string {
+  const total = Math.max(1, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `PT${h ? `${h}H` : ''}${m ? `${m}M` : ''}${s ? `${s}S` : ''}`;
+}
+
+function buildImage(file: MediaFile | null | undefined): JsonLdImage | undefined {
+  if (!file?.url) return undefined;
+  return {
+    '@type': 'ImageObject',
+    url: toAbsoluteUrl(file.url),
+    ...(file.width && { width: file.width }),
+    ...(file.height && { height: file.height }),
+    ...(file.alternativeText && { caption: file.alternativeText }),
+  };
+}
+
+function buildPublisher(): JsonLdOrganization {
+  return { '@type': 'Organization', name: FEED_CONFIG.SITE_NAME, url: FEED_CONFIG.SITE_URL };
+}
+
+function splitList(value: string | null | undefined, separator: RegExp): string[] {
+  return [...new Set((value ?? '').split(separator).map((item) => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Author profile from the E-E-A-T fields: bio, job title and start in the
+ * field, specializations, credentials and social profiles.
+ */
+export function buildAuthorPerson(author: StructuredDataAuthor | null | undefined): JsonLdPerson {
+  if (!author?.name) {
+    return { '@type': 'Person', name: FEED_CONFIG.SITE_NAME };
+  }
+
+  const description = toPlainText(author.bio);
+  const sameAs = Object.values(author.socialLinks ?? {}).filter(isHttpUrl);
+  const image = buildImage(author.avatar);
+  const knowsAbout = splitList(author.specializations, /[,\n]/);
+  const credentials = splitList(author.verified_credentials, /[;\n]/);
+
+  return {
+    '@type': 'Person',
+    name: author.name,
+    ...(image && { image }),
+    ...(author.jobTitle && { jobTitle: author.jobTitle }),
+    ...(description && { description }),
+    ...(knowsAbout.length > 0 && { knowsAbout }),
+    ...(credentials.length > 0 && {
+      hasCredential: credentials.map((name) => ({ '@type': 'EducationalOccupationalCredential' as const, name })),
+    }),
+    ...(author.jobTitle && {
+      hasOccupation: {
+        '@type': 'Role' as const,
+        roleName: author.jobTitle,
+        ...(author.experience_since && { startDate: author.experience_since }),
+      },
+    }),
+    ...(sameAs.length > 0 && { sameAs: [...new Set(sameAs)] }),
+    worksFor: buildPublisher(),
+  };
+}
+
+function buildAudio(post: StructuredDataPost, locale: string): JsonLdAudio | undefined {
+  const audio = post.audioFile;
+  if (!audio?.url) return undefined;
+  const duration = audio.provider_metadata?.ttsInfo?.audioDurationSeconds;
+  return {
+    '@type': 'AudioObject',
+    name: post.title ?? '',
+    contentUrl: toAbsoluteUrl(audio.url),
+    ...(audio.mime && { encodingFormat: audio.mime }),
+    ...(duration !== undefined && duration > 0 && { duration: toIsoDuration(duration) }),
+    inLanguage: locale,
+  };
+}
+
+function buildReviewNotes(items: readonly string[]) {
+  return {
+    '@type': 'ItemList' as const,
+    itemListElement: items.map((name, index) => ({ '@type': 'ListItem' as const, position: index + 1, name })),
+  };
+}
+
+function buildGameReference(game: { name?: string | null; slug?: string | null }, locale: string): JsonLdVideoGame {
+  return {
+    '@type': 'VideoGame',
+    name: game.name ?? '',
+    ...(game.slug && { url: buildGameUrl(locale, game.slug) }),
+  };
+}
+
+// ============================================================================
+// Posts
+// ============================================================================
+
+/**
+ * Builds the JSON-LD graph of a published post in one locale.
+ */
+export function buildPostJsonLd(post: StructuredDataPost, locale: string): JsonLdDocument {
+  const pageUrl = buildPostUrl(locale, post.slug ?? '');
+  const category = post.categoryType ?? (locale === DEFAULT_LOCALE ? post.category?.slug ?? null : null);
+  const title = post.title ?? '';
+  const headline =
+    title.length > JSON_LD_CONFIG.MAX_HEADLINE_LENGTH
+      ? toPlainText(title, JSON_LD_CONFIG.MAX_HEADLINE_LENGTH)
+      : title;
+  const description = toPlainText(post.description || post.excerpt);
+  const image = buildImage(post.featuredImage);
+  const author = [buildAuthorPerson(post.author)];
+  const publisher = buildPublisher();
+  const games = (post.games ?? []).filter((game) => game.name);
+  const datePublished = post.publishedAt ?? post.updatedAt ?? new Date().toISOString();
+  const audio = buildAudio(post, locale);
+  const keywords = names(post.tags);
+  const sections = getContentH2Sections(post.content ?? '');
+
+  const graph: JsonLdNode[] = [
+    {
+      '@type': category === 'news' ? 'NewsArticle' : 'Article',
+      '@id': `${pageUrl}#article`,
+      headline,
+      ...(description && { description }),
+      ...(image && { image: [image.url] }),
+      datePublished,
+      ...(post.updatedAt && { dateModified: post.updatedAt }),
+      author,
+      publisher,
+      mainEntityOfPage: pageUrl,
+      inLanguage: locale,
+      ...(post.category?.name && { articleSection: post.category.name }),
+      ...(keywords.length > 0 && { keywords }),
+      ...(games.length > 0 && { about: games.map((game) => buildGameReference(game, locale)) }),
+      ...(audio && { audio }),
+    },
+  ];
+
+  if (category === 'reviews' && games.length > 0) {
+    const score: ReviewScore | null = post.verdict
+      ? { ratingValue: post.verdict.score, bestRating: REVIEW_VERDICT_CONFIG.SCORE_MAX }
+      : extractReviewScore(post.content ?? '');
+    graph.push({
+      '@type': 'Review',
+      '@id': `${pageUrl}#review`,
+      name: title,
+      itemReviewed: buildGameReference(games[0], locale),
+      author,
+      publisher,
+      datePublished,
+      ...(score && { reviewRating: { '@type': 'Rating', ...score, worstRating: 0 } }),
+      ...((post.verdict?.summary || description) && { reviewBody: post.verdict?.summary || description }),
+      ...(post.verdict && {
+        positiveNotes: buildReviewNotes(post.verdict.pros),
+        negativeNotes: buildReviewNotes(post.verdict.cons),
+      }),
+      inLanguage: locale,
+    });
+  }
+
+  if (category === 'guides' && sections.length >= 2) {
+    graph.push({
+      '@type': 'HowTo',
+      '@id': `${pageUrl}#howto`,
+      name: title,
+      ...(description && { description }),
+      ...(image && { image: [image.url] }),
+      step: sections.map((section, index) => ({
+        '@type': 'HowToStep',
+        position: index + 1,
+        name: toPlainText(section.heading),
+        text: toPlainText(section.content) || toPlainText(section.heading),
+      })),
+      inLanguage: locale,
+    });
+  }
+
+  if (category === 'lists' && sections.length >= 2) {
+    graph.push({
+      '@type': 'ItemList',
+      '@id': `${pageUrl}#list`,
+      name: title,
+      numberOfItems: sections.length,
+      itemListElement: sections.map((section, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: toPlainText(section.heading),
+      })),
+    });
+  }
+
+  return { '@context': 'https://schema.org', '@graph': graph };
+}
+
+// ============================================================================
+// Games
+// ============================================================================
+
+/**
+ * Builds the JSON-LD graph of a published game page in one locale.
+ * The IGDB total rating (0-100) becomes `aggregateRating` once it has votes.
+ */
+export function buildGameJsonLd(game: StructuredDataGame, locale: string): JsonLdDocument {
+  const pageUrl = buildGameUrl(locale, game.slug ?? '');
+  const description = toPlainText(game.description);
+  const images = [
+    ...(game.coverImageUrl ? [toAbsoluteUrl(game.coverImageUrl)] : []),
+    ...(game.heroImage?.url ? [toAbsoluteUrl(game.heroImage.url)] : []),
+  ];
+  const totalRating = game.totalRating === null || game.totalRating === undefined ? null : Number(game.totalRating);
+  const ratingCount = game.totalRatingCount ?? 0;
+  const organizations = (items: StructuredDataGame['publishers']) =>
+    names(items).map((name): JsonLdOrganization => ({ '@type': 'Organization', name }));
+  const contentRating = [
+    ...new Set(
+      (game.ageRatings ?? [])
+        .filter((rating) => rating.category && rating.rating)
+        .map((rating) => `${rating.category} ${rating.rating}`)
+    ),
+  ];
+  const sameAs = [...new Set([game.officialWebsite, game.steamUrl, game.igdbUrl].filter(isHttpUrl))];
+
+  const platforms = names(game.platforms);
+  const genres = names(game.genres);
+  const developers = organizations(game.developers);
+  const publishers = organizations(game.publishers);
+
+  const videoGame: JsonLdVideoGame = {
+    '@type': 'VideoGame',
+    '@id': `${pageUrl}#game`,
+    name: game.name ?? '',
+    url: pageUrl,
+    ...(description && { description }),
+    ...(images.length > 0 && { image: images }),
+    ...(game.releaseDate && { datePublished: game.releaseDate }),
+    applicationCategory: 'Game',
+    ...(platforms.length > 0 && { gamePlatform: platforms }),
+    ...(genres.length > 0 && { genre: genres }),
+    ...(developers.length > 0 && { author: developers }),
+    ...(publishers.length > 0 && { publisher: publishers }),
+    ...(contentRating.length > 0 && { contentRating }),
+    ...(totalRating !== null &&
+      Number.isFinite(totalRating) &&
+      ratingCount > 0 && {
+        aggregateRating: {
+          '@type': 'AggregateRating',
+          ratingValue: Math.round(totalRating * 10) / 10,
+          bestRating: 100,
+          worstRating: 0,
+          ratingCount,
+        },
+      }),
+    ...(sameAs.length > 0 && { sameAs }),
+    inLanguage: locale,
+  };
+
+  return { '@context': 'https://schema.org', '@graph': [videoGame] };
+}
@@ -0,0 +1,241 @@
+/**
+ * JSON-LD Schema Set
+ *
+ * The subset of schema.org we publish, as zod schemas. Each node type lists
+ * the properties we emit and which of them search engines require, so a
+ * document that passes here has every field rich results need.
+ *
+ * Unknown properties are rejected: adding a property to a builder means
+ * adding it here too.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+const url = z.url({ protocol: /^https?$/ });
+const text = z.string().trim().min(1);
+const isoDate = z.union([z.iso.datetime({ offset: true }), z.iso.date()]);
+
+/** ISO 8601 duration, e.g. `PT12M5S` */
+const isoDuration = z.string().regex(/^PT(?:\d+H)?(?:\d+M)?(?:\d+S)?$/).refine((value) => value !== 'PT');
+
+export const imageObjectSchema = z.strictObject({
+  '@type': z.literal('ImageObject'),
+  url,
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  caption: text.optional(),
+});
+
+export const organizationSchema = z.strictObject({
+  '@type': z.literal('Organization'),
+  name: text,
+  url: url.optional(),
+  logo: imageObjectSchema.optional(),
+});
+
+export const personSchema = z.strictObject({
+  '@type': z.literal('Person'),
+  name: text,
+  url: url.optional(),
+  image: imageObjectSchema.optional(),
+  jobTitle: text.optional(),
+  description: text.optional(),
+  knowsAbout: z.array(text).min(1).optional(),
+  hasCredential: z
+    .array(z.strictObject({ '@type': z.literal('EducationalOccupationalCredential'), name: text }))
+    .min(1)
+    .optional(),
+  /** schema.org Role pattern: the job title and when the author started in the field */
+  hasOccupation: z
+    .strictObject({ '@type': z.literal('Role'), roleName: text, startDate: isoDate.optional() })
+    .optional(),
+  sameAs: z.array(url).min(1).optional(),
+  worksFor: organizationSchema.optional(),
+});
+
+export const ratingSchema = z
+  .strictObject({
+    '@type': z.literal('Rating'),
+    ratingValue: z.number(),
+    bestRating: z.number(),
+    worstRating: z.number(),
+  })
+  .refine((r) => r.worstRating < r.bestRating && r.ratingValue >= r.worstRating && r.ratingValue <= r.bestRating, {
+    message: 'ratingValue must lie between worstRating and bestRating',
+  });
+
+export const aggregateRatingSchema = z
+  .strictObject({
+    '@type': z.literal('AggregateRating'),
+    ratingValue: z.number(),
+    bestRating: z.number(),
+    worstRating: z.number(),
+    ratingCount: z.number().int().positive(),
+  })
+  .refine((r) => r.worstRating < r.bestRating && r.ratingValue >= r.worstRating && r.ratingValue <= r.bestRating, {
+    message: 'ratingValue must lie between worstRating and bestRating',
+  });
+
+// ============================================================================
+// Node types
+// ============================================================================
+
+export const videoGameSchema = z.strictObject({
+  '@type': z.literal('VideoGame'),
+  '@id': url.optional(),
+  name: text,
+  url: url.optional(),
+  description: text.optional(),
+  image: z.array(url).min(1).optional(),
+  datePublished: isoDate.optional(),
+  applicationCategory: z.literal('Game').optional(),
+  gamePlatform: z.array(text).min(1).optional(),
+  genre: z.array(text).min(1).optional(),
+  author: z.array(organizationSchema).min(1).optional(),
+  publisher: z.array(organizationSchema).min(1).optional(),
+  contentRating: z.array(text).min(1).optional(),
+  aggregateRating: aggregateRatingSchema.optional(),
+  sameAs: z.array(url).min(1).optional(),
+  inLanguage: text.optional(),
+});
+
+export const audioObjectSchema = z.strictObject({
+  '@type': z.literal('AudioObject'),
+  name: text,
+  contentUrl: url,
+  encodingFormat: text.optional(),
+  duration: isoDuration.optional(),
+  inLanguage: text,
+});
+
+const articleFields = {
+  '@id': url,
+  headline: z.string().trim().min(1).max(110),
+  description: text.optional(),
+  image: z.array(url).min(1).optional(),
+  datePublished: isoDate,
+  dateModified: isoDate.optional(),
+  author: z.array(personSchema).min(1),
+  publisher: organizationSchema,
+  mainEntityOfPage: url,
+  inLanguage: text,
+  articleSection: text.optional(),
+  keywords: z.array(text).min(1).optional(),
+  about: z.array(videoGameSchema).min(1).optional(),
+  audio: audioObjectSchema.optional(),
+};
+
+export const articleSchema = z.strictObject({ '@type': z.literal('Article'), ...articleFields });
+
+export const newsArticleSchema = z.strictObject({ '@type': z.literal('NewsArticle'), ...articleFields });
+
+/** Pros or cons of a review (Google's `positiveNotes`/`negativeNotes`) */
+const reviewNotesSchema = z.strictObject({
+  '@type': z.literal('ItemList'),
+  itemListElement: z
+    .array(z.strictObject({ '@type': z.literal('ListItem'), position: z.number().int().positive(), name: text }))
+    .min(1),
+});
+
+export const reviewSchema = z.strictObject({
+  '@type': z.literal('Review'),
+  '@id': url,
+  name: text,
+  itemReviewed: videoGameSchema,
+  author: z.array(personSchema).min(1),
+  publisher: organizationSchema,
+  datePublished: isoDate,
+  reviewRating: ratingSchema.optional(),
+  reviewBody: text.optional(),
+  positiveNotes: reviewNotesSchema.optional(),
+  negativeNotes: reviewNotesSchema.optional(),
+  inLanguage: text,
+});
+
+export const howToSchema = z.strictObject({
+  '@type': z.literal('HowTo'),
+  '@id': url,
+  name: text,
+  description: text.optional(),
+  image: z.array(url).min(1).optional(),
+  step: z
+    .array(z.strictObject({ '@type': z.literal('HowToStep'), position: z.number().int().positive(), name: text, text }))
+    .min(2),
+  inLanguage: text,
+});
+
+export const itemListSchema = z
+  .strictObject({
+    '@type': z.literal('ItemList'),
+    '@id': url,
+    name: text,
+    numberOfItems: z.number().int().positive(),
+    itemListElement: z
+      .array(
+        z.strictObject({
+          '@type': z.literal('ListItem'),
+          position: z.number().int().positive(),
+          name: text,
+          url: url.optional(),
+        })
+      )
+      .min(2),
+  })
+  .refine((list) => list.numberOfItems === list.itemListElement.length, {
+    message: 'numberOfItems must match itemListElement',
+  });
+
+/**
+ * Any top-level node of a JSON-LD graph.
+ */
+export const jsonLdNodeSchema = z.discriminatedUnion('@type', [
+  articleSchema,
+  newsArticleSchema,
+  reviewSchema,
+  howToSchema,
+  itemListSchema,
+  videoGameSchema,
+]);
+
+/**
+ * A complete JSON-LD document (one per page).
+ */
+export const jsonLdDocumentSchema = z.strictObject({
+  '@context': z.literal('https://schema.org'),
+  '@graph': z.array(jsonLdNodeSchema).min(1),
+});
+
+export type JsonLdImage = z.infer<typeof imageObjectSchema>;
+export type JsonLdOrganization = z.infer<typeof organizationSchema>;
+export type JsonLdPerson = z.infer<typeof personSchema>;
+export type JsonLdVideoGame = z.infer<typeof videoGameSchema>;
+export type JsonLdAudio = z.infer<typeof audioObjectSchema>;
+export type JsonLdNode = z.infer<typeof jsonLdNodeSchema>;
+export type JsonLdDocument = z.infer<typeof jsonLdDocumentSchema>;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * A problem found in a JSON-LD document, with its JSON path
+ * (e.g. `@graph.0.author.0.name`).
+ */
+export interface JsonLdIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Validates a JSON-LD document against our schema set.
+ * Returns an empty list when the document is valid.
+ */
+export function validateJsonLd(document: unknown): JsonLdIssue[] {
+  const result = jsonLdDocumentSchema.safeParse(document);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => ({ path: issue.path.map(String).join('.'), message: issue.message }));
+}
@@ -0,0 +1,472 @@
+/**
+ * Structured Data Service
+ *
+ * Builds, validates and stores the JSON-LD of published posts and games.
+ *
+ * Each locale's published entry keeps its JSON-LD in `structuredData`,
+ * together with the latest `updatedAt` of the entry and of the related
+ * entries it shows (author, category, games, media...). Stored JSON-LD is
+ * rebuilt outside the public read path: a Document Service middleware
+ * refreshes it when an entry, or an entry it shows, is published, and the
+ * rebuild endpoint refreshes everything. Reads serve it while it's still
+ * fresh and otherwise build it in memory without writing. A document that
+ * fails validation is never stored or served.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+import { DEFAULT_LOCALE } from '../../../utils/locales';
+import { changesPublishedContent, getFeedLocales } from '../../feed/services/feed-utils';
+import {
+  buildGameJsonLd,
+  buildPostJsonLd,
+  type StructuredDataGame,
+  type StructuredDataPost,
+} from './json-ld-builders';
+import { validateJsonLd, type JsonLdDocument, type JsonLdIssue } from './json-ld-schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StructuredDataKind = 'post' | 'game';
+
+/**
+ * Stored in the `structuredData` field of a published post or game.
+ */
+export interface StoredStructuredData {
+  readonly jsonLd: JsonLdDocument;
+  readonly generatedAt: string;
+  /** Latest `updatedAt` of the entry and the related entries it was built from */
+  readonly sourceUpdatedAt: string | null;
+}
+
+/**
+ * Body of a rebuild request. Without filters, every published post and game
+ * in every locale is rebuilt.
+ */
+export const structuredDataRebuildSchema = z.object({
+  kind: z.enum(['post', 'game']).optional(),
+  locale: z.string().min(2).max(10).optional(),
+});
+
+export type StructuredDataRebuildRequest = z.infer<typeof structuredDataRebuildSchema>;
+
+/**
+ * Outcome of a bulk rebuild, per entry and locale.
+ */
+export interface StructuredDataRebuildEntry {
+  readonly kind: StructuredDataKind;
+  readonly documentId: string;
+  readonly locale: string;
+  readonly status: 'stored' | 'invalid' | 'failed';
+  readonly issues?: readonly JsonLdIssue[];
+  readonly error?: string;
+}
+
+export class StructuredDataError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues: readonly JsonLdIssue[] = []
+  ) {
+    super(message);
+    this.name = 'StructuredDataError';
+  }
+}
+
+type StructuredDataEntry = (StructuredDataPost | StructuredDataGame) & {
+  updatedAt?: string | null;
+  structuredData?: StoredStructuredData | null;
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+const AUTHOR_FIELDS = [
+  'updatedAt',
+  'name',
+  'bio',
+  'jobTitle',
+  'socialLinks',
+  'specializations',
+  'experience_since',
+  'verified_credentials',
+];
+
+const SOURCES: Record<
+  StructuredDataKind,
+  {
+    uid: string;
+    fields: string[];
+    populate: Record<string, unknown>;
+    build: (entry: any, locale: string) => JsonLdDocument;
+  }
+> = {
+  post: {
+    uid: 'api::post.post',
+    fields: [
+      'title',
+      'slug',
+      'excerpt',
+      'description',
+      'content',
+      'verdict',
+      'publishedAt',
+      'updatedAt',
+      'structuredData',
+    ],
+    populate: {
+      featuredImage: true,
+      audioFile: true,
+      category: { fields: ['slug', 'name', 'updatedAt'] },
+      author: { fields: AUTHOR_FIELDS, populate: { avatar: true } },
+      games: { fields: ['name', 'slug', 'updatedAt'] },
+      tags: { fields: ['name', 'updatedAt'] },
+    },
+    build: buildPostJsonLd,
+  },
+  game: {
+    uid: 'api::game.game',
+    fields: [
+      'name',
+      'slug',
+      'description',
+      'releaseDate',
+      'coverImageUrl',
+      'totalRating',
+      'totalRatingCount',
+      'officialWebsite',
+      'steamUrl',
+      'igdbUrl',
+      'updatedAt',
+      'structuredData',
+    ],
+    populate: {
+      heroImage: true,
+      platforms: { fields: ['name', 'updatedAt'] },
+      genres: { fields: ['name', 'updatedAt'] },
+      developers: { fields: ['name', 'updatedAt'] },
+      publishers: { fields: ['name', 'updatedAt'] },
+      ageRatings: { fields: ['category', 'rating', 'updatedAt'] },
+    },
+    build: buildGameJsonLd,
+  },
+};
+
+/** Entries loaded per query during a bulk rebuild */
+const REBUILD_PAGE_SIZE = 100;
+
+/**
+ * Posts and games that show an entry of each content type, by the entry's
+ * documentId. Publishing an entry refreshes the stored JSON-LD of these.
+ */
+const DEPENDENTS: Record<
+  string,
+  ReadonlyArray<{ kind: StructuredDataKind; filters: (documentId: string) => Record<string, unknown> }>
+> = {
+  'api::post.post': [{ kind: 'post', filters: (documentId) => ({ documentId }) }],
+  'api::game.game': [
+    { kind: 'game', filters: (documentId) => ({ documentId }) },
+    { kind: 'post', filters: (documentId) => ({ games: { documentId } }) },
+  ],
+  'api::author.author': [{ kind: 'post', filters: (documentId) => ({ author: { documentId } }) }],
+  'api::category.category': [{ kind: 'post', filters: (documentId) => ({ category: { documentId } }) }],
+  'api::tag.tag': [{ kind: 'post', filters: (documentId) => ({ tags: { documentId } }) }],
+  'api::platform.platform': [{ kind: 'game', filters: (documentId) => ({ platforms: { documentId } }) }],
+  'api::genre.genre': [{ kind: 'game', filters: (documentId) => ({ genres: { documentId } }) }],
+  'api::company.company': [
+    {
+      kind: 'game',
+      filters: (documentId) => ({
+        $or: [{ developers: { documentId } }, { publishers: { documentId } }],
+      }),
+    },
+  ],
+  'api::age-rating.age-rating': [{ kind: 'game', filters: (documentId) => ({ ageRatings: { documentId } }) }],
+};
+
+/** Content types whose published changes refresh stored JSON-LD */
+const DEPENDENT_UIDS: readonly string[] = Object.keys(DEPENDENTS);
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+function assertLocale(locale: string): void {
+  if (!getFeedLocales().includes(locale)) {
+    throw new StructuredDataError(`Unknown locale "${locale}"`, 404);
+  }
+}
+
+/**
+ * Latest `updatedAt` of an entry and of the populated entries and media it
+ * shows, so editing an author, category, game or image marks it stale too.
+ */
+function getSourceUpdatedAt(entry: StructuredDataEntry): string | null {
+  let latest: string | null = null;
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    for (const [key, field] of Object.entries(value)) {
+      if (key === 'updatedAt') {
+        if (typeof field === 'string' && (!latest || Date.parse(field) > Date.parse(latest))) latest = field;
+      } else if (key !== 'structuredData') {
+        visit(field);
+      }
+    }
+  };
+
+  visit(entry);
+  return latest;
+}
+
+/**
+ * Category slugs are localized - the post's JSON-LD type is picked by the
+ * slug of the category's English entry.
+ */
+async function withCategoryType(
+  strapi: Core.Strapi,
+  post: StructuredDataPost,
+  locale: string
+): Promise<StructuredDataPost> {
+  const category = post.category;
+  if (!category?.documentId || locale === DEFAULT_LOCALE) {
+    return { ...post, categoryType: category?.slug ?? null };
+  }
+
+  const source = await documents(strapi, 'api::category.category').findOne({
+    documentId: category.documentId,
+    locale: DEFAULT_LOCALE,
+    fields: ['slug'],
+  });
+  return { ...post, categoryType: source?.slug ?? null };
+}
+
+/**
+ * Builds and validates an entry's JSON-LD.
+ *
+ * @throws StructuredDataError (422) when the JSON-LD fails validation
+ */
+async function buildStructuredData(
+  strapi: Core.Strapi,
+  kind: StructuredDataKind,
+  entry: StructuredDataEntry,
+  locale: string
+): Promise<StoredStructuredData> {
+  const source = SOURCES[kind];
+  const jsonLd = source.build(
+    kind === 'post' ? await withCategoryType(strapi, entry as StructuredDataPost, locale) : entry,
+    locale
+  );
+  const issues = validateJsonLd(jsonLd);
+  if (issues.length > 0) {
+    strapi.log.warn(
+      `[StructuredData:${locale}] Invalid JSON-LD for ${kind} ${entry.documentId}: ` +
+        issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')
+    );
+    throw new StructuredDataError(`Invalid JSON-LD for ${kind} ${entry.documentId}`, 422, issues);
+  }
+
+  return {
+    jsonLd,
+    generatedAt: new Date().toISOString(),
+    sourceUpdatedAt: getSourceUpdatedAt(entry),
+  };
+}
+
+/**
+ * Builds an entry's JSON-LD and stores it on the published row of the
+ * locale. `updateMany` keeps `updatedAt` and doesn't fire the `afterUpdate`
+ * lifecycles.
+ *
+ * @throws StructuredDataError (422) when the JSON-LD fails validation
+ */
+async function storeStructuredData(
+  strapi: Core.Strapi,
+  kind: StructuredDataKind,
+  entry: StructuredDataEntry,
+  locale: string
+): Promise<StoredStructuredData> {
+  const stored = await buildStructuredData(strapi, kind, entry, locale);
+
+  await strapi.db.query(SOURCES[kind].uid as any).updateMany({
+    where: { documentId: entry.documentId, locale, publishedAt: { $notNull: true } },
+    data: { structuredData: stored },
+  });
+
+  return stored;
+}
+
+async function rebuildEntry(
+  strapi: Core.Strapi,
+  kind: StructuredDataKind,
+  entry: StructuredDataEntry,
+  locale: string
+): Promise<StructuredDataRebuildEntry> {
+  const base = { kind, documentId: entry.documentId, locale };
+  try {
+    await storeStructuredData(strapi, kind, entry, locale);
+    return { ...base, status: 'stored' };
+  } catch (error) {
+    if (error instanceof StructuredDataError) {
+      return { ...base, status: 'invalid', issues: error.issues };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    strapi.log.error(`[StructuredData:${locale}] ${kind} ${entry.documentId} failed: ${message}`);
+    return { ...base, status: 'failed', error: message };
+  }
+}
+
+/**
+ * Rebuilds every published entry of a kind in one locale, optionally
+ * narrowed by filters.
+ */
+async function rebuildMatching(
+  strapi: Core.Strapi,
+  kind: StructuredDataKind,
+  locale: string,
+  filters?: Record<string, unknown>
+): Promise<StructuredDataRebuildEntry[]> {
+  const source = SOURCES[kind];
+  const entries: StructuredDataRebuildEntry[] = [];
+
+  for (let start = 0; ; start += REBUILD_PAGE_SIZE) {
+    const items: StructuredDataEntry[] = await documents(strapi, source.uid).findMany({
+      locale,
+      status: 'published',
+      ...(filters && { filters }),
+      fields: source.fields,
+      populate: source.populate,
+      sort: 'id:asc',
+      start,
+      limit: REBUILD_PAGE_SIZE,
+    });
+
+    for (const item of items) {
+      entries.push(await rebuildEntry(strapi, kind, item, locale));
+    }
+    if (items.length < REBUILD_PAGE_SIZE) break;
+  }
+
+  return entries;
+}
+
+function isFresh(entry: StructuredDataEntry): boolean {
+  const stored = entry.structuredData;
+  return Boolean(stored?.jsonLd) && stored!.sourceUpdatedAt === getSourceUpdatedAt(entry);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * JSON-LD of a published post or game page, looked up by slug.
+ * Served from storage while neither the entry nor anything it shows has
+ * changed since it was built; otherwise built on the fly without storing.
+ *
+ * @throws StructuredDataError (404) for unknown locales or entries,
+ *   (422) when the built JSON-LD fails validation
+ */
+export async function getStructuredData(
+  strapi: Core.Strapi,
+  kind: StructuredDataKind,
+  locale: string,
+  slug: string
+): Promise<JsonLdDocument> {
+  assertLocale(locale);
+  const source = SOURCES[kind];
+
+  const entry: StructuredDataEntry | null = await documents(strapi, source.uid).findFirst({
+    locale,
+    status: 'published',
+    filters: { slug },
+    fields: source.fields,
+    populate: source.populate,
+  });
+  if (!entry) {
+    throw new StructuredDataError(`${kind === 'post' ? 'Post' : 'Game'} "${slug}" not found`, 404);
+  }
+
+  if (isFresh(entry)) {
+    return entry.structuredData!.jsonLd;
+  }
+  return (await buildStructuredData(strapi, kind, entry, locale)).jsonLd;
+}
+
+/**
+ * Rebuild the stored JSON-LD of every published post and/or game, in one or
+ * every locale. Entries run independently - failures are reported and the
+ * rest still run.
+ */
+export async function rebuildStructuredData(
+  strapi: Core.Strapi,
+  request: StructuredDataRebuildRequest = {}
+): Promise<StructuredDataRebuildEntry[]> {
+  if (request.locale) assertLocale(request.locale);
+
+  const kinds: StructuredDataKind[] = request.kind ? [request.kind] : ['post', 'game'];
+  const locales = request.locale ? [request.locale] : getFeedLocales();
+  const entries: StructuredDataRebuildEntry[] = [];
+
+  for (const kind of kinds) {
+    for (const locale of locales) {
+      entries.push(...(await rebuildMatching(strapi, kind, locale)));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Rebuild the stored JSON-LD of the published posts and games that show a
+ * document (the document itself for posts and games), in every locale.
+ */
+export async function refreshDependentStructuredData(
+  strapi: Core.Strapi,
+  uid: string,
+  documentId: string
+): Promise<StructuredDataRebuildEntry[]> {
+  const entries: StructuredDataRebuildEntry[] = [];
+
+  for (const dependent of DEPENDENTS[uid] ?? []) {
+    for (const locale of getFeedLocales()) {
+      entries.push(...(await rebuildMatching(strapi, dependent.kind, locale, dependent.filters(documentId))));
+    }
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Refreshes stored JSON-LD in the background after every Document Service
+ * call that changes a published post, game or an entry they show. Call once
+ * from `register()`.
+ */
+export function registerStructuredDataRefresh(strapi: Core.Strapi): void {
+  strapi.documents.use(async (ctx, next) => {
+    const result = await next();
+    const call = ctx as { uid: string; action: string; params?: { documentId?: string; status?: string } };
+    const documentId = call.params?.documentId ?? (result as { documentId?: string } | null)?.documentId;
+
+    if (!changesPublishedContent(call, DEPENDENT_UIDS) || !documentId) return result;
+
+    refreshDependentStructuredData(strapi, call.uid, documentId).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      strapi.log.error(`[StructuredData] Refresh after ${call.uid} ${documentId} failed: ${message}`);
+    });
+    return result;
+  });
+}
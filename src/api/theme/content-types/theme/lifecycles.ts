@@ -7,8 +7,8 @@
  * When a theme is created:
  * 1. Generate AI description for English locale
  * 2. Update the English entry with the description
- * 3. Generate AI description for Spanish locale (translated name)
- * 4. Create Spanish locale entry with the description
+ * 3. Generate AI descriptions for each configured content locale (translated name)
+ * 4. Create an entry per content locale with its description
  */
 
 import type { Core } from '@strapi/strapi';
@@ -91,7 +91,7 @@ export default {
     };
     
     // Synchronous: Wait for AI generation and locale sync to complete
-    // This ensures ES locale entries exist before game relations are created
+    // This ensures content locale entries exist before game relations are created
     try {
       await generateThemeDescriptionsAndSync(
         strapi.db.connection,
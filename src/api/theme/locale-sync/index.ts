@@ -1,14 +1,27 @@
 import type { Core } from '@strapi/strapi';
 import type { ThemeLocaleData, ThemeLocaleStrategy, ThemeLocaleSyncResult } from './types';
-import { spanishThemeLocaleStrategy } from './strategies/spanish';
+import { createThemeLocaleStrategy } from './strategies/configured';
+import { getContentLocales } from '../../../utils/locales';
 
 /**
- * Registered locale strategies for themes
- * Add new locales here (e.g., frenchThemeLocaleStrategy)
+ * Strategies built so far, keyed by locale code
  */
-const strategies: ThemeLocaleStrategy[] = [
-  spanishThemeLocaleStrategy,
-];
+const strategyCache = new Map<string, ThemeLocaleStrategy>();
+
+/**
+ * Get the strategies for the configured content locales
+ * Locales come from CONTENT_LOCALES (see src/utils/locales.ts)
+ */
+function getStrategies(): ThemeLocaleStrategy[] {
+  return getContentLocales().map(definition => {
+    let strategy = strategyCache.get(definition.code);
+    if (!strategy) {
+      strategy = createThemeLocaleStrategy(definition);
+      strategyCache.set(definition.code, strategy);
+    }
+    return strategy;
+  });
+}
 
 /**
  * Sync all configured locales for a theme
@@ -24,7 +37,7 @@ export async function syncThemeLocales(
 ): Promise<ThemeLocaleSyncResult[]> {
   const results: ThemeLocaleSyncResult[] = [];
 
-  for (const strategy of strategies) {
+  for (const strategy of getStrategies()) {
     try {
       await strategy.createLocale(strapi, data);
       results.push({
@@ -49,14 +62,14 @@ export async function syncThemeLocales(
  * Get list of configured locale codes for themes
  */
 export function getConfiguredThemeLocales(): string[] {
-  return strategies.map(s => s.locale);
+  return getStrategies().map(s => s.locale);
 }
 
 /**
  * Check if a locale is configured for theme sync
  */
 export function isThemeLocaleConfigured(locale: string): boolean {
-  return strategies.some(s => s.locale === locale);
+  return getStrategies().some(s => s.locale === locale);
 }
 
 // Re-export types for convenience
@@ -4,60 +4,59 @@
  * Handles generating AI descriptions for themes and syncing locales.
  * Extracted from lifecycle for testability.
  * 
- * IMPORTANT: Spanish descriptions are generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El tema **Fantasía**..." not "El tema **Fantasy**..."
  */
 
 import type { Core } from '@strapi/strapi';
 import type { Knex } from 'knex';
-import type { ThemeDescriptionContext } from '../../../ai';
+import type { ThemeDescriptionContext, SupportedLocale } from '../../../ai';
+import { getContentLocales } from '../../../utils/locales';
 import type { ThemeLocaleData, ThemeLocaleSyncResult } from '../locale-sync';
 
 /**
- * Common theme name translations (English to Spanish)
+ * Common theme name translations by locale code (English name to translated name)
  * Used for translating theme names
+ * Locales without a table keep the English name
  */
-const THEME_TRANSLATIONS: Record<string, string> = {
-  // Universal themes
-  'Fantasy': 'Fantasía',
-  'Science fiction': 'Ciencia ficción',
-  'Sci-Fi': 'Ciencia ficción',
-  'Horror': 'Terror',
-  'Action': 'Acción',
-  'Thriller': 'Suspense',
-  'Survival': 'Supervivencia',
-  'Historical': 'Histórico',
-  'Steampunk': 'Steampunk',
-  'Cyberpunk': 'Cyberpunk',
-  'Post-apocalyptic': 'Post-apocalíptico',
-  'Western': 'Oeste',
-  'Comedy': 'Comedia',
-  'Drama': 'Drama',
-  'Mystery': 'Misterio',
-  'Romance': 'Romance',
-  'War': 'Guerra',
-  'Warfare': 'Guerra',
-  'Open world': 'Mundo abierto',
-  'Sandbox': 'Sandbox',
-  'Educational': 'Educativo',
-  'Kids': 'Niños',
-  'Business': 'Negocios',
-  'Non-fiction': 'No ficción',
-  'Erotic': 'Erótico',
-  'Party': 'Fiesta',
-  '4X (explore, expand, exploit, and exterminate)': '4X (explorar, expandir, explotar, exterminar)',
+const THEME_TRANSLATIONS: Record<string, Record<string, string>> = {
+  es: {
+    // Universal themes
+    'Fantasy': 'Fantasía',
+    'Science fiction': 'Ciencia ficción',
+    'Sci-Fi': 'Ciencia ficción',
+    'Horror': 'Terror',
+    'Action': 'Acción',
+    'Thriller': 'Suspense',
+    'Survival': 'Supervivencia',
+    'Historical': 'Histórico',
+    'Steampunk': 'Steampunk',
+    'Cyberpunk': 'Cyberpunk',
+    'Post-apocalyptic': 'Post-apocalíptico',
+    'Western': 'Oeste',
+    'Comedy': 'Comedia',
+    'Drama': 'Drama',
+    'Mystery': 'Misterio',
+    'Romance': 'Romance',
+    'War': 'Guerra',
+    'Warfare': 'Guerra',
+    'Open world': 'Mundo abierto',
+    'Sandbox': 'Sandbox',
+    'Educational': 'Educativo',
+    'Kids': 'Niños',
+    'Business': 'Negocios',
+    'Non-fiction': 'No ficción',
+    'Erotic': 'Erótico',
+    'Party': 'Fiesta',
+    '4X (explore, expand, exploit, and exterminate)': '4X (explorar, expandir, explotar, exterminar)',
+  },
 };
 
 /**
- * Supported locales for description generation
+ * Get the translation of a theme name for a locale (falls back to the English name)
  */
-type SupportedLocale = 'en' | 'es';
-
-/**
- * Get Spanish translation for a theme name
- */
-export function getSpanishThemeName(englishName: string): string {
-  return THEME_TRANSLATIONS[englishName] || englishName;
+export function getLocalizedThemeName(englishName: string, locale: string): string {
+  return THEME_TRANSLATIONS[locale]?.[englishName] || englishName;
 }
 
 /**
@@ -100,7 +99,7 @@ export interface ThemeDescriptionResult {
 /**
  * Generate descriptions for a theme and sync locales
  * 
- * IMPORTANT: Spanish description is generated using the TRANSLATED name
+ * IMPORTANT: Each locale's description is generated using the TRANSLATED name
  * so the AI writes "El tema **Fantasía**..." not "El tema **Fantasy**..."
  * 
  * @param knex - Database connection (unused but kept for consistency)
@@ -118,10 +117,13 @@ export async function generateThemeDescriptionsAndSync(
   const { isAIConfigured, generateThemeDescription, syncThemeLocales, log } = deps;
 
   let englishDescriptionUpdated = false;
-  let spanishDescription: string | null = null;
+  let localizedDescriptions: Record<string, string> = {};
 
-  // Get Spanish name FIRST - needed for Spanish description generation
-  const spanishName = getSpanishThemeName(theme.name);
+  // Get translated names FIRST - needed for each locale's description
+  const contentLocales = getContentLocales();
+  const localizedNames: Record<string, string> = Object.fromEntries(
+    contentLocales.map(locale => [locale.code, getLocalizedThemeName(theme.name, locale.code)])
+  );
 
   // Generate AI descriptions if configured
   if (isAIConfigured()) {
@@ -135,13 +137,16 @@ export async function generateThemeDescriptionsAndSync(
       const enDescription = await generateThemeDescription(enContext, 'en');
       log.info(`[ThemeDescription] Generated EN description (length: ${enDescription.length})`);
 
-      // Generate ES description with SPANISH name (translated)
+      // Generate each content locale's description with the TRANSLATED name
       // This ensures the AI writes "El tema **Fantasía**..." not "El tema **Fantasy**..."
-      const esContext: ThemeDescriptionContext = {
-        name: spanishName,
-      };
-      const esDescription = await generateThemeDescription(esContext, 'es');
-      log.info(`[ThemeDescription] Generated ES description (length: ${esDescription.length}) using name: ${spanishName}`);
+      const descriptions: Record<string, string> = {};
+      for (const locale of contentLocales) {
+        const localizedContext: ThemeDescriptionContext = {
+          name: localizedNames[locale.code],
+        };
+        descriptions[locale.code] = await generateThemeDescription(localizedContext, locale.code as SupportedLocale);
+        log.info(`[ThemeDescription] Generated ${locale.code.toUpperCase()} description (length: ${descriptions[locale.code].length}) using name: ${localizedNames[locale.code]}`);
+      }
 
       // Update English entry using Strapi's document service
       const themeService = strapi.documents('api::theme.theme');
@@ -159,7 +164,7 @@ export async function generateThemeDescriptionsAndSync(
 
       log.info(`[ThemeDescription] Updated and published English description for: ${theme.name}`);
       englishDescriptionUpdated = true;
-      spanishDescription = esDescription;
+      localizedDescriptions = descriptions;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log.error(`[ThemeDescription] AI description error for "${theme.name}": ${errorMessage}`);
@@ -169,7 +174,7 @@ export async function generateThemeDescriptionsAndSync(
     log.info(`[ThemeDescription] AI not configured, skipping description generation for: ${theme.name}`);
   }
 
-  // ALWAYS sync locales (create Spanish entry) regardless of AI configuration
+  // ALWAYS sync locales (create an entry per content locale) regardless of AI configuration
   // This ensures bidirectional relationships work correctly
   try {
 
@@ -181,11 +186,11 @@ export async function generateThemeDescriptionsAndSync(
         slug: theme.slug,
         igdbId: theme.igdbId,
       },
-      aiDescription: spanishDescription,
-      localizedName: spanishName,
+      aiDescriptions: localizedDescriptions,
+      localizedNames,
     };
 
-    // Sync locales (create Spanish entry)
+    // Sync locales (create an entry per content locale)
     const localeResults = await syncThemeLocales(strapi, localeData);
 
     for (const localeResult of localeResults) {
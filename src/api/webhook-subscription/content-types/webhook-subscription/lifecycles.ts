@@ -0,0 +1,46 @@
+/**
+ * Webhook Subscription Content Type Lifecycle Hooks
+ *
+ * Rejects subscriptions with a malformed URL or unknown event names, so a
+ * typo is caught in the admin rather than by a webhook that never fires.
+ */
+
+import { errors } from '@strapi/utils';
+
+import { validateWebhookSubscription, WebhookError } from '../../services/webhook-dispatcher';
+
+interface WebhookSubscriptionLifecycleEvent {
+  params: {
+    data: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Validates `url` and `events` when present in the write payload.
+ *
+ * @throws errors.ValidationError shown in the admin when either is invalid
+ */
+function assertValidSubscription(event: WebhookSubscriptionLifecycleEvent): void {
+  const { data } = event.params;
+  if (!data || !('url' in data || 'events' in data)) return;
+
+  try {
+    validateWebhookSubscription(data);
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      throw new errors.ValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+export default {
+  beforeCreate(event: WebhookSubscriptionLifecycleEvent) {
+    assertValidSubscription(event);
+  },
+
+  beforeUpdate(event: WebhookSubscriptionLifecycleEvent) {
+    assertValidSubscription(event);
+  },
+};
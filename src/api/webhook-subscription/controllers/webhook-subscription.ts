@@ -0,0 +1,61 @@
+import type { Core } from '@strapi/strapi';
+
+import { isAuthenticated } from '../../article-generator/utils/admin-auth';
+import {
+  listWebhookDeliveries,
+  redeliverWebhook,
+  webhookDeliveryListQuerySchema,
+  WebhookError,
+} from '../services/webhook-dispatcher';
+
+const UNAUTHORIZED_MESSAGE = 'Unauthorized: Provide valid admin JWT token or AI generation secret';
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  function handleError(ctx, error: unknown, action: string) {
+    if (error instanceof WebhookError) {
+      return error.status === 404 ? ctx.notFound(error.message) : ctx.badRequest(error.message);
+    }
+    strapi.log.error(`[Webhooks] ${action} error:`, error);
+    return ctx.internalServerError(`Failed to ${action.toLowerCase()}`);
+  }
+
+  return {
+    /**
+     * Delivery log, newest first
+     * GET /api/webhooks/deliveries?subscription=&event=&status=&page=&pageSize=
+     */
+    async listDeliveries(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      const parsed = webhookDeliveryListQuerySchema.safeParse(ctx.query ?? {});
+      if (!parsed.success) {
+        return ctx.badRequest('Invalid query', { issues: parsed.error.issues });
+      }
+
+      try {
+        ctx.body = await listWebhookDeliveries(strapi, parsed.data);
+      } catch (error) {
+        return handleError(ctx, error, 'List deliveries');
+      }
+    },
+
+    /**
+     * Send a delivery again now (same payload and id, fresh attempt budget)
+     * POST /api/webhooks/deliveries/:documentId/redeliver
+     */
+    async redeliver(ctx) {
+      if (!isAuthenticated(strapi, ctx)) {
+        return ctx.unauthorized(UNAUTHORIZED_MESSAGE);
+      }
+
+      try {
+        const delivery = await redeliverWebhook(strapi, ctx.params.documentId);
+        ctx.body = { success: delivery.status === 'succeeded', delivery };
+      } catch (error) {
+        return handleError(ctx, error, 'Redeliver webhook');
+      }
+    },
+  };
+};
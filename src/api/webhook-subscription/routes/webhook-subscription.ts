@@ -0,0 +1,29 @@
+/**
+ * Webhook API Routes
+ *
+ * Admin endpoints for the outbound webhook delivery log. Subscriptions are
+ * managed in the content manager.
+ * These are available at /api/webhooks/*
+ */
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/webhooks/deliveries',
+      handler: 'webhook-subscription.listDeliveries',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/webhooks/deliveries/:documentId/redeliver',
+      handler: 'webhook-subscription.redeliver',
+      config: {
+        auth: false,
+        policies: [],
+      },
+    },
+  ],
+};
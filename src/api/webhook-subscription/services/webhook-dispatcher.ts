@@ -0,0 +1,649 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Notifies external services (frontend revalidation, search indexer) of content
+ * lifecycle events. Each `api::webhook-subscription.webhook-subscription` lists
+ * the events it wants; every matching event becomes one
+ * `api::webhook-delivery.webhook-delivery` that doubles as the delivery log.
+ *
+ * - Payloads are JSON `{ id, event, createdAt, data }` signed with the
+ *   subscription secret: `X-Webhook-Signature: sha256=<hex HMAC of "<timestamp>.<body>">`
+ *   with the Unix timestamp in `X-Webhook-Timestamp` (see verifyWebhookSignature).
+ * - The first attempt runs right away. Network errors, timeouts, 408, 429 and
+ *   5xx responses are retried with exponential backoff by the
+ *   `webhookDeliveryRetry` cron task; other 4xx responses fail immediately.
+ *   The task also picks up `pending` deliveries whose attempt never finished,
+ *   and claims each row with a conditional update so that several instances
+ *   never send the same delivery twice.
+ * - Receivers should dedupe on `id` (the delivery documentId), which stays the
+ *   same across retries and redeliveries.
+ *
+ * Emitting never throws: a webhook problem must not fail a publish, import or sync.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { Core } from '@strapi/strapi';
+import { z } from 'zod';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const WEBHOOK_CONFIG = {
+  /** Attempts per delivery, including the first */
+  MAX_ATTEMPTS: 6,
+  /** Delay before the first retry; each further retry waits 4x longer */
+  BASE_BACKOFF_MS: 30 * 1000,
+  /** Upper bound for a single retry delay */
+  MAX_BACKOFF_MS: 6 * 60 * 60 * 1000,
+  /** Per-request timeout */
+  TIMEOUT_MS: 10 * 1000,
+  /** Response body characters kept in the delivery log */
+  MAX_RESPONSE_BODY_LENGTH: 2000,
+  /** Deliveries retried per cron run */
+  RETRY_BATCH_SIZE: 50,
+  /** A `pending` delivery untouched this long lost its attempt (e.g. a restart) and is retried */
+  STALE_PENDING_MS: 60 * 1000,
+  /** Signatures older than this are rejected by verifyWebhookSignature (seconds) */
+  SIGNATURE_TOLERANCE_SECONDS: 5 * 60,
+} as const;
+
+export const WEBHOOK_EVENTS = [
+  'post.published',
+  'post.translated',
+  'game.imported',
+  'game.synced',
+  'article.generation.failed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'retrying', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+const SUBSCRIPTION_UID = 'api::webhook-subscription.webhook-subscription';
+const DELIVERY_UID = 'api::webhook-delivery.webhook-delivery';
+
+const USER_AGENT = 'GamersWiki-Webhooks/1.0';
+
+const MAX_PAGE_SIZE = 100;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Subscription fields checked when a subscription is saved.
+ */
+export const webhookSubscriptionSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), { message: 'URL must use http or https' }),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Subscribe to at least one event'),
+});
+
+export const webhookDeliveryListQuerySchema = z.object({
+  subscription: z.string().trim().min(1).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(25),
+});
+
+export type WebhookDeliveryListQuery = z.infer<typeof webhookDeliveryListQuerySchema>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * `data` of each event.
+ */
+export interface WebhookEventData {
+  /** A post locale went live (including translations and re-publishes) */
+  'post.published': {
+    readonly documentId: string;
+    readonly locale: string;
+    readonly slug: string | null;
+    readonly title: string | null;
+  };
+  /** A post was translated from English and published in another locale */
+  'post.translated': {
+    readonly documentId: string;
+    readonly locale: string;
+    readonly slug: string;
+    readonly title: string;
+  };
+  /** A game was imported from IGDB */
+  'game.imported': {
+    readonly documentId: string;
+    readonly igdbId: number;
+    readonly name: string;
+    readonly slug: string;
+    readonly aiGenerated: boolean;
+  };
+  /** An IGDB re-sync changed a game */
+  'game.synced': {
+    readonly documentId: string;
+    readonly igdbId: number;
+    readonly name: string;
+    readonly trigger: 'scheduled' | 'manual';
+    readonly fields: readonly string[];
+  };
+  /** Article generation failed (background job or synchronous request) */
+  'article.generation.failed': {
+    /** Background job documentId; null for synchronous requests */
+    readonly jobId: string | null;
+    readonly code: string;
+    readonly message: string;
+    readonly request: Record<string, unknown>;
+  };
+}
+
+/**
+ * Body sent to receivers.
+ */
+export interface WebhookPayload<E extends WebhookEvent = WebhookEvent> {
+  /** Delivery documentId (stable across retries) */
+  readonly id: string;
+  readonly event: E;
+  readonly createdAt: string;
+  readonly data: WebhookEventData[E];
+}
+
+export interface WebhookSubscriptionDocument {
+  documentId: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: unknown;
+  enabled: boolean;
+}
+
+export interface WebhookDeliveryDocument {
+  documentId: string;
+  event: WebhookEvent;
+  payload: Omit<WebhookPayload, 'id'>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt?: string;
+  subscription?: WebhookSubscriptionDocument | null;
+}
+
+/**
+ * Delivery as listed by the admin API (subscription secret omitted).
+ */
+export interface WebhookDeliverySummary {
+  readonly documentId: string;
+  readonly event: WebhookEvent;
+  readonly status: WebhookDeliveryStatus;
+  readonly attempts: number;
+  readonly nextAttemptAt: string | null;
+  readonly responseStatus: number | null;
+  readonly errorMessage: string | null;
+  readonly durationMs: number | null;
+  readonly deliveredAt: string | null;
+  readonly createdAt: string | null;
+  readonly subscription: { readonly documentId: string; readonly name: string; readonly url: string } | null;
+  readonly payload: Omit<WebhookPayload, 'id'>;
+}
+
+export interface WebhookDeliveryListResult {
+  readonly deliveries: readonly WebhookDeliverySummary[];
+  readonly pagination: {
+    readonly page: number;
+    readonly pageSize: number;
+    readonly total: number;
+    readonly pageCount: number;
+  };
+}
+
+export interface WebhookRetryResult {
+  readonly attempted: number;
+  readonly succeeded: number;
+  readonly failed: number;
+}
+
+/**
+ * Error with an HTTP-ish status so the controller can map it to a response.
+ */
+export class WebhookError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function documents(strapi: Core.Strapi, uid: string): any {
+  return strapi.documents(uid as any) as any;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Validates the URL and events of a subscription write.
+ *
+ * @throws WebhookError (400) listing every invalid field
+ */
+export function validateWebhookSubscription(data: { url?: unknown; events?: unknown }): void {
+  const parsed = webhookSubscriptionSchema.partial().safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'subscription'}: ${issue.message}`);
+    throw new WebhookError(`Invalid webhook subscription (${issues.join('; ')})`, 400);
+  }
+}
+
+/**
+ * Whether a subscription is enabled and listens to an event.
+ */
+export function subscribesTo(subscription: Pick<WebhookSubscriptionDocument, 'enabled' | 'events'>, event: WebhookEvent): boolean {
+  return subscription.enabled === true && Array.isArray(subscription.events) && subscription.events.includes(event);
+}
+
+/**
+ * Delay before the retry that follows a failed attempt (1-based).
+ */
+export function getWebhookBackoffMs(attempt: number): number {
+  return Math.min(WEBHOOK_CONFIG.BASE_BACKOFF_MS * 4 ** (attempt - 1), WEBHOOK_CONFIG.MAX_BACKOFF_MS);
+}
+
+/**
+ * Whether a response status is worth retrying (timeouts, rate limits, server errors).
+ */
+export function isRetryableWebhookStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Signature header value for a payload: `sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a received signature. For receivers written in TypeScript and for tests.
+ * Rejects timestamps further than WEBHOOK_CONFIG.SIGNATURE_TOLERANCE_SECONDS from `now`.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now: Date = new Date()
+): boolean {
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_CONFIG.SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function toDeliverySummary(delivery: WebhookDeliveryDocument): WebhookDeliverySummary {
+  const subscription = delivery.subscription;
+  return {
+    documentId: delivery.documentId,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt ?? null,
+    responseStatus: delivery.responseStatus ?? null,
+    errorMessage: delivery.errorMessage ?? null,
+    durationMs: delivery.durationMs ?? null,
+    deliveredAt: delivery.deliveredAt ?? null,
+    createdAt: delivery.createdAt ?? null,
+    subscription: subscription
+      ? { documentId: subscription.documentId, name: subscription.name, url: subscription.url }
+      : null,
+    payload: delivery.payload,
+  };
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Sends a delivery once and records the outcome on it.
+ *
+ * A failed attempt is scheduled for retry (`retrying` + `nextAttemptAt`) while
+ * the error is retryable and attempts remain, otherwise marked `failed`.
+ * Deliveries whose subscription was disabled or removed fail without sending.
+ */
+export async function attemptWebhookDelivery(
+  strapi: Core.Strapi,
+  documentId: string
+): Promise<WebhookDeliveryDocument> {
+  const deliveryService = documents(strapi, DELIVERY_UID);
+  const delivery: WebhookDeliveryDocument | null = await deliveryService.findOne({
+    documentId,
+    populate: { subscription: true },
+  });
+  if (!delivery) {
+    throw new WebhookError('Webhook delivery not found', 404);
+  }
+
+  const subscription = delivery.subscription;
+  const attempts = delivery.attempts + 1;
+
+  if (!subscription?.enabled) {
+    return deliveryService.update({
+      documentId,
+      data: {
+        status: 'failed',
+        nextAttemptAt: null,
+        errorMessage: subscription ? 'Subscription is disabled' : 'Subscription was removed',
+      },
+    });
+  }
+
+  const body = JSON.stringify({ id: documentId, ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+  let retryable = true;
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': documentId,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_CONFIG.TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, WEBHOOK_CONFIG.MAX_RESPONSE_BODY_LENGTH);
+    if (!response.ok) {
+      errorMessage = `Receiver responded with HTTP ${response.status}`;
+      retryable = isRetryableWebhookStatus(response.status);
+    }
+  } catch (error) {
+    errorMessage = getErrorMessage(error);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  const tag = `[Webhooks] ${delivery.event} -> "${subscription.name}"`;
+
+  if (errorMessage === null) {
+    strapi.log.debug(`${tag} delivered (HTTP ${responseStatus}, attempt ${attempts})`);
+    return deliveryService.update({
+      documentId,
+      data: {
+        status: 'succeeded',
+        attempts,
+        nextAttemptAt: null,
+        responseStatus,
+        responseBody,
+        errorMessage: null,
+        durationMs,
+        deliveredAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  const willRetry = retryable && attempts < WEBHOOK_CONFIG.MAX_ATTEMPTS;
+  if (willRetry) {
+    strapi.log.warn(`${tag} attempt ${attempts} failed: ${errorMessage}; retrying`);
+  } else {
+    strapi.log.error(`${tag} failed after ${attempts} attempt(s): ${errorMessage}`);
+  }
+
+  return deliveryService.update({
+    documentId,
+    data: {
+      status: willRetry ? 'retrying' : 'failed',
+      attempts,
+      nextAttemptAt: willRetry ? new Date(Date.now() + getWebhookBackoffMs(attempts)).toISOString() : null,
+      responseStatus,
+      responseBody,
+      errorMessage,
+      durationMs,
+    },
+  });
+}
+
+/**
+ * Records a delivery for every subscription listening to the event and makes
+ * the first attempt of each. Resolves once every first attempt is recorded.
+ */
+export async function dispatchWebhookEvent<E extends WebhookEvent>(
+  strapi: Core.Strapi,
+  event: E,
+  data: WebhookEventData[E]
+): Promise<WebhookDeliveryDocument[]> {
+  const subscriptions: WebhookSubscriptionDocument[] = await documents(strapi, SUBSCRIPTION_UID).findMany({
+    filters: { enabled: true },
+  });
+  const matching = subscriptions.filter((subscription) => subscribesTo(subscription, event));
+  if (matching.length === 0) return [];
+
+  const createdAt = new Date().toISOString();
+  const deliveries = await Promise.all(
+    matching.map(async (subscription) => {
+      const delivery: WebhookDeliveryDocument = await documents(strapi, DELIVERY_UID).create({
+        data: {
+          subscription: { connect: [subscription.documentId] },
+          event,
+          payload: { event, createdAt, data },
+          status: 'pending',
+          attempts: 0,
+        },
+      });
+      return attemptWebhookDelivery(strapi, delivery.documentId);
+    })
+  );
+
+  return deliveries;
+}
+
+/**
+ * Fire-and-forget `dispatchWebhookEvent` for lifecycle code: returns at once
+ * and only logs failures.
+ */
+export function emitWebhookEvent<E extends WebhookEvent>(
+  strapi: Core.Strapi,
+  event: E,
+  data: WebhookEventData[E]
+): void {
+  void dispatchWebhookEvent(strapi, event, data).catch((error) => {
+    strapi.log.warn(`[Webhooks] Could not dispatch ${event}: ${getErrorMessage(error)}`);
+  });
+}
+
+let retryRunning = false;
+
+/**
+ * Conditions for a delivery that is due for another attempt: a retry whose
+ * backoff has elapsed, or a `pending` delivery abandoned mid-attempt.
+ */
+function getDueConditions(now: Date): Array<Record<string, unknown>> {
+  return [
+    { status: 'retrying', nextAttemptAt: { $lte: now.toISOString() } },
+    {
+      status: 'pending',
+      updatedAt: { $lte: new Date(now.getTime() - WEBHOOK_CONFIG.STALE_PENDING_MS).toISOString() },
+    },
+  ];
+}
+
+/**
+ * Takes a due delivery for this run by moving it back to `pending`, only if it
+ * is still due. Returns false when another instance got there first.
+ */
+async function claimDueDelivery(strapi: Core.Strapi, documentId: string, now: Date): Promise<boolean> {
+  const { count } = await strapi.db.query(DELIVERY_UID as any).updateMany({
+    where: { documentId, $or: getDueConditions(now) },
+    data: { status: 'pending', updatedAt: new Date().toISOString() },
+  });
+  return count > 0;
+}
+
+/**
+ * Retries due deliveries (see getDueConditions), oldest first.
+ * Overlapping runs are skipped.
+ */
+export async function retryDueWebhookDeliveries(
+  strapi: Core.Strapi,
+  options: { batchSize?: number; now?: Date } = {}
+): Promise<WebhookRetryResult> {
+  const result = { attempted: 0, succeeded: 0, failed: 0 };
+  if (retryRunning) {
+    strapi.log.warn('[Webhooks] Previous retry run still running, skipping');
+    return result;
+  }
+
+  retryRunning = true;
+  try {
+    const now = options.now ?? new Date();
+    const due: WebhookDeliveryDocument[] = await documents(strapi, DELIVERY_UID).findMany({
+      filters: { $or: getDueConditions(now) },
+      fields: ['documentId'],
+      sort: ['nextAttemptAt:asc', 'updatedAt:asc'],
+      limit: options.batchSize ?? WEBHOOK_CONFIG.RETRY_BATCH_SIZE,
+    });
+
+    // Sequential to avoid hammering a receiver that is already struggling
+    for (const { documentId } of due) {
+      if (!(await claimDueDelivery(strapi, documentId, now))) continue;
+      result.attempted++;
+      try {
+        const delivery = await attemptWebhookDelivery(strapi, documentId);
+        if (delivery.status === 'succeeded') result.succeeded++;
+        if (delivery.status === 'failed') result.failed++;
+      } catch (error) {
+        strapi.log.error(`[Webhooks] Retry of delivery ${documentId} failed: ${getErrorMessage(error)}`);
+      }
+    }
+
+    if (result.attempted > 0) {
+      strapi.log.info(
+        `[Webhooks] Retried ${result.attempted} deliver${result.attempted === 1 ? 'y' : 'ies'}: ` +
+          `${result.succeeded} succeeded, ${result.failed} failed`
+      );
+    }
+    return result;
+  } finally {
+    retryRunning = false;
+  }
+}
+
+/**
+ * Sends a delivery again right away with a fresh attempt budget, whatever its status.
+ *
+ * @throws WebhookError (404) if the delivery doesn't exist
+ */
+export async function redeliverWebhook(strapi: Core.Strapi, documentId: string): Promise<WebhookDeliverySummary> {
+  const deliveryService = documents(strapi, DELIVERY_UID);
+  const existing: WebhookDeliveryDocument | null = await deliveryService.findOne({ documentId });
+  if (!existing) {
+    throw new WebhookError('Webhook delivery not found', 404);
+  }
+
+  await deliveryService.update({
+    documentId,
+    data: { status: 'pending', attempts: 0, nextAttemptAt: null },
+  });
+  await attemptWebhookDelivery(strapi, documentId);
+
+  const delivery: WebhookDeliveryDocument = await deliveryService.findOne({
+    documentId,
+    populate: { subscription: true },
+  });
+  return toDeliverySummary(delivery);
+}
+
+// ============================================================================
+// Delivery log
+// ============================================================================
+
+/**
+ * List deliveries, newest first.
+ */
+export async function listWebhookDeliveries(
+  strapi: Core.Strapi,
+  query: WebhookDeliveryListQuery
+): Promise<WebhookDeliveryListResult> {
+  const filters: Record<string, unknown> = {};
+  if (query.subscription) filters.subscription = { documentId: query.subscription };
+  if (query.event) filters.event = query.event;
+  if (query.status) filters.status = query.status;
+
+  const service = documents(strapi, DELIVERY_UID);
+  const [rows, total] = await Promise.all([
+    service.findMany({
+      filters,
+      populate: { subscription: { fields: ['name', 'url'] } },
+      sort: ['createdAt:desc'],
+      start: (query.page - 1) * query.pageSize,
+      limit: query.pageSize,
+    }) as Promise<WebhookDeliveryDocument[]>,
+    service.count({ filters }) as Promise<number>,
+  ]);
+
+  return {
+    deliveries: rows.map(toDeliverySummary),
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      pageCount: Math.ceil(total / query.pageSize),
+    },
+  };
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Emits `post.published` for every post locale published through the
+ * Document Service (editor publishes, generation, translation sync). Call
+ * once from `register()`.
+ */
+export function registerWebhookEvents(strapi: Core.Strapi): void {
+  strapi.documents.use(async (ctx, next) => {
+    const result = await next();
+    if (ctx.uid !== 'api::post.post' || ctx.action !== 'publish') return result;
+
+    const entries = ((result as { entries?: unknown[] } | null)?.entries ?? []) as Array<{
+      documentId: string;
+      locale?: string | null;
+      slug?: string | null;
+      title?: string | null;
+    }>;
+    for (const entry of entries) {
+      emitWebhookEvent(strapi, 'post.published', {
+        documentId: entry.documentId,
+        locale: entry.locale ?? 'en',
+        slug: entry.slug ?? null,
+        title: entry.title ?? null,
+      });
+    }
+    return result;
+  });
+}
@@ -1,15 +1,6 @@
 import type { Core } from '@strapi/strapi';
 import type { Seeder } from './types';
-
-/**
- * Locales to seed beyond the default (en)
- */
-const LOCALES = [
-  { code: 'es', name: 'Spanish (es)' },
-  // Add more locales here as needed:
-  // { code: 'pt-BR', name: 'Portuguese (Brazil)' },
-  // { code: 'de', name: 'German (de)' },
-];
+import { getContentLocales } from '../../utils/locales';
 
 export const localeSeeder: Seeder = {
   name: 'Locale',
@@ -17,7 +8,8 @@ export const localeSeeder: Seeder = {
   async run(strapi: Core.Strapi) {
     const existingLocales = await strapi.db.query('plugin::i18n.locale').findMany();
 
-    for (const locale of LOCALES) {
+    // Seed every configured content locale beyond the default (en)
+    for (const locale of getContentLocales()) {
       const exists = existingLocales.some((l: { code: string }) => l.code === locale.code);
 
       if (exists) {
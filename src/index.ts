@@ -1,5 +1,9 @@
 import type { Core } from '@strapi/strapi';
 import { runSeeders } from './bootstrap/seeders';
+import { getGenerationJobQueue } from './api/article-generator/services/generation-job-queue';
+import { registerFeedCacheInvalidation } from './api/feed/services/feed-cache';
+import { registerStructuredDataRefresh } from './api/structured-data/services/structured-data';
+import { registerWebhookEvents } from './api/webhook-subscription/services/webhook-dispatcher';
 
 /**
  * Extended HTTP request timeout for long-running operations.
@@ -21,7 +25,14 @@ export default {
    *
    * This gives you an opportunity to extend code.
    */
-  register(/* { strapi }: { strapi: Core.Strapi } */) {},
+  register({ strapi }: { strapi: Core.Strapi }) {
+    // Cached article feeds and sitemaps are dropped whenever their content is published
+    registerFeedCacheInvalidation(strapi);
+    // Subscribed webhooks are told when a post locale is published
+    registerWebhookEvents(strapi);
+    // Stored JSON-LD is rebuilt when a post, game or anything they show is published
+    registerStructuredDataRefresh(strapi);
+  },
 
   /**
    * An asynchronous bootstrap function that runs before
@@ -33,8 +44,18 @@ export default {
   async bootstrap({ strapi }: { strapi: Core.Strapi }) {
     await runSeeders(strapi);
 
+    // Resume background article generation jobs interrupted by the last shutdown.
+    // Not awaited beyond the DB scan: recovered jobs run in the background.
+    try {
+      await getGenerationJobQueue(strapi).recover();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      strapi.log.error(`[GenerationJobs] Failed to recover unfinished jobs: ${msg}`);
+    }
+
     // Extend HTTP server timeouts for long-running operations like article generation.
-    // The article generator endpoint can take 10+ minutes due to:
+    // Background jobs (/article-generator/jobs) don't need this, but the synchronous
+    // generate endpoint can take 10+ minutes due to:
     // - Multiple AI calls (Scout, Editor, Specialist, Reviewer, Fixer)
     // - External search API calls (Tavily, Exa)
     // - Potential Fixer retry loops
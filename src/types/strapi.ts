@@ -69,6 +69,8 @@ export interface GameDocument extends StrapiDocument {
   discordUrl: string | null;
   igdbId: number | null;
   igdbUrl: string | null;
+  /** When the IGDB re-sync last checked this game */
+  igdbSyncedAt: string | null;
   isSponsored: boolean;
   sponsorTier: string | null;
   sponsorStartDate: string | null;
@@ -243,6 +245,10 @@ export interface PostDocument extends StrapiDocument {
   excerpt: string | null;
   audioFile?: unknown;
   chapterFile?: unknown;
+  /** Localized audio narration metadata (translated chapter titles) */
+  audioMetadata?: unknown;
+  /** Per-locale translation status (locale code -> status) */
+  translationStatus?: unknown;
 }
 
 /**
@@ -275,6 +281,43 @@ export interface DomainQualityDocument extends StrapiDocument {
   tavilyExcludeReason: string | null;
   /** Reason for Exa exclusion */
   exaExcludeReason: string | null;
+  /** Tier pinned by an admin (null = computed) */
+  tierOverride: 'excellent' | 'good' | 'average' | 'poor' | 'excluded' | null;
+  /** Include/exclude forced by an admin (null = computed) */
+  exclusionOverride: 'include' | 'exclude' | null;
+  overrideReason: string | null;
+  overriddenAt: string | null;
+  /** Computed values of past recomputes (DomainQualitySnapshot[]) */
+  scoreHistory: unknown | null;
+}
+
+/**
+ * Affiliate platform document (storefront with an affiliate program)
+ */
+export interface AffiliatePlatformDocument extends StrapiDocument {
+  name: string;
+  slug: string;
+  websiteUrl: string | null;
+  /** Link template with {url}, {encodedUrl}, {name}, {encodedName} or {slug} placeholders */
+  affiliateProgram: string | null;
+  /** Higher priority links are shown first */
+  priority: number | null;
+  isActive: boolean;
+}
+
+/**
+ * Affiliate link document (per-game purchase link on one storefront)
+ */
+export interface AffiliateLinkDocument extends StrapiDocument {
+  url: string;
+  priority: number | null;
+  isAvailable: boolean;
+  /** When the health checker last requested the url */
+  lastCheckedAt: string | null;
+  /** HTTP status of the last check (null when the request failed) */
+  lastStatusCode: number | null;
+  platform?: AffiliatePlatformDocument | null;
+  game?: GameDocument | null;
 }
 
 /**
@@ -0,0 +1,143 @@
+/**
+ * Content Locale Configuration
+ *
+ * Single source of truth for the markets the wiki publishes in. Every locale
+ * defined here gets:
+ * - A Strapi i18n locale (created by the locale seeder)
+ * - IGDB name resolution (region localizations + alternative names)
+ * - AI description prompts in its language
+ * - Game and taxonomy (company, genre, platform...) locale-sync strategies
+ *
+ * Adding a market means adding a definition below and listing its code in
+ * the CONTENT_LOCALES env var - no new strategy code is needed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Definition of a single content locale
+ */
+export interface LocaleDefinition {
+  /** Strapi i18n locale code (e.g., 'es', 'pt-BR') */
+  readonly code: string;
+  /** Display name used when seeding the Strapi locale */
+  readonly name: string;
+  /** Language name used in AI prompts (e.g., 'Spanish') */
+  readonly language: string;
+  /** IGDB region identifiers checked in order (game_localizations.region.identifier) */
+  readonly igdbRegionIdentifiers: readonly string[];
+  /** Keywords matched against IGDB region names (e.g., 'spain') */
+  readonly igdbRegionKeywords: readonly string[];
+  /** Keywords matched against IGDB alternative name comments (e.g., 'spanish title') */
+  readonly alternativeNameKeywords: readonly string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Source locale - games are imported in English and synced to other locales
+ */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * All locales the platform knows how to produce content for
+ */
+export const LOCALE_DEFINITIONS = [
+  {
+    code: 'en',
+    name: 'English (en)',
+    language: 'English',
+    igdbRegionIdentifiers: [],
+    igdbRegionKeywords: [],
+    alternativeNameKeywords: [],
+  },
+  {
+    code: 'es',
+    name: 'Spanish (es)',
+    language: 'Spanish',
+    igdbRegionIdentifiers: ['es_ES', 'es_MX', 'es_419', 'es'],
+    igdbRegionKeywords: ['spain', 'spanish'],
+    alternativeNameKeywords: ['spanish'],
+  },
+  {
+    code: 'fr',
+    name: 'French (fr)',
+    language: 'French',
+    igdbRegionIdentifiers: ['fr_FR', 'fr_CA', 'fr'],
+    igdbRegionKeywords: ['france', 'french'],
+    alternativeNameKeywords: ['french'],
+  },
+  {
+    code: 'de',
+    name: 'German (de)',
+    language: 'German',
+    igdbRegionIdentifiers: ['de_DE', 'de_AT', 'de_CH', 'de'],
+    igdbRegionKeywords: ['germany', 'german'],
+    alternativeNameKeywords: ['german'],
+  },
+  {
+    code: 'pt-BR',
+    name: 'Portuguese (Brazil) (pt-BR)',
+    language: 'Portuguese',
+    igdbRegionIdentifiers: ['pt_BR', 'pt_PT', 'pt'],
+    igdbRegionKeywords: ['brazil', 'portugal', 'portuguese'],
+    alternativeNameKeywords: ['portuguese', 'brazilian'],
+  },
+] as const satisfies readonly LocaleDefinition[];
+
+/**
+ * Locale codes with a definition above
+ */
+export type SupportedLocale = (typeof LOCALE_DEFINITIONS)[number]['code'];
+
+/**
+ * Locales synced when CONTENT_LOCALES is not set
+ */
+export const DEFAULT_CONTENT_LOCALES: readonly SupportedLocale[] = ['es'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a code has a locale definition
+ */
+export function isSupportedLocale(code: string): code is SupportedLocale {
+  return LOCALE_DEFINITIONS.some(def => def.code === code);
+}
+
+/**
+ * Get the definition for a locale code
+ */
+export function getLocaleDefinition(code: string): LocaleDefinition | undefined {
+  return LOCALE_DEFINITIONS.find(def => def.code === code);
+}
+
+/**
+ * Get the language name for a locale code (falls back to the code itself)
+ */
+export function getLanguageName(code: string): string {
+  return getLocaleDefinition(code)?.language ?? code;
+}
+
+/**
+ * Get the locales content is synced to, beyond the English source locale.
+ *
+ * Read from the comma-separated CONTENT_LOCALES env var (e.g. "es,fr,de,pt-BR").
+ * Unknown codes and the source locale are ignored.
+ */
+export function getContentLocales(): LocaleDefinition[] {
+  const raw = process.env.CONTENT_LOCALES;
+  const codes = raw !== undefined
+    ? raw.split(',').map(code => code.trim()).filter(Boolean)
+    : [...DEFAULT_CONTENT_LOCALES];
+
+  const unique = [...new Set(codes)].filter(code => code !== DEFAULT_LOCALE);
+  return unique
+    .map(code => getLocaleDefinition(code))
+    .filter((def): def is LocaleDefinition => def !== undefined);
+}
@@ -0,0 +1,162 @@
+/**
+ * Affiliate Link Health Checker Integration Tests
+ *
+ * Runs the checker with the real fetch client against a local stub store
+ * server (no external network), plus the batch flow against a mocked Strapi.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Core } from '@strapi/strapi';
+
+import {
+  checkAffiliateLinks,
+  checkLinkUrl,
+  classifyResponse,
+  isRedirectToFrontPage,
+  type LinkHttpClient,
+} from '../../../src/api/affiliate-link/services/affiliate-link-health';
+
+// ============================================================================
+// Stub store server
+// ============================================================================
+
+let server: Server;
+let baseUrl: string;
+
+function startStubStore(): Promise<void> {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case '/app/1':
+        res.writeHead(200, { 'content-type': 'text/html' }).end('<h1>Game</h1>');
+        return;
+      case '/app/delisted':
+        // What Steam does for removed games
+        res.writeHead(302, { location: '/' }).end();
+        return;
+      case '/app/head-blocked':
+        if (req.method === 'HEAD') {
+          res.writeHead(405).end();
+        } else {
+          res.writeHead(200, { 'content-type': 'text/html' }).end('<h1>Game</h1>');
+        }
+        return;
+      case '/app/flaky':
+        res.writeHead(503).end();
+        return;
+      case '/':
+        res.writeHead(200, { 'content-type': 'text/html' }).end('<h1>Store</h1>');
+        return;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+}
+
+beforeAll(startStubStore);
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Affiliate Link Health Checker', () => {
+  describe('classifyResponse', () => {
+    it('should treat gone statuses as unavailable and server errors as inconclusive', () => {
+      expect(classifyResponse('https://a.com/x', 410, 'https://a.com/x').verdict).toBe('unavailable');
+      expect(classifyResponse('https://a.com/x', 429, 'https://a.com/x').verdict).toBe('unknown');
+      expect(classifyResponse('https://a.com/x', 200, 'https://a.com/x').verdict).toBe('available');
+    });
+
+    it('should detect redirects to the front page of the same store', () => {
+      expect(isRedirectToFrontPage('https://store.example.com/app/1', 'https://store.example.com/')).toBe(true);
+      expect(isRedirectToFrontPage('https://example.com/app/1', 'https://www.example.com')).toBe(true);
+      expect(isRedirectToFrontPage('https://example.com/app/1', 'https://example.com/app/1/')).toBe(false);
+      expect(isRedirectToFrontPage('https://example.com/', 'https://example.com/')).toBe(false);
+    });
+  });
+
+  describe('checkLinkUrl (stub server)', () => {
+    it('should report live pages as available', async () => {
+      const result = await checkLinkUrl(`${baseUrl}/app/1`);
+      expect(result).toMatchObject({ verdict: 'available', statusCode: 200 });
+    });
+
+    it('should report missing pages as unavailable', async () => {
+      const result = await checkLinkUrl(`${baseUrl}/app/missing`);
+      expect(result).toMatchObject({ verdict: 'unavailable', statusCode: 404 });
+    });
+
+    it('should report delisted pages that redirect to the store front as unavailable', async () => {
+      const result = await checkLinkUrl(`${baseUrl}/app/delisted`);
+      expect(result).toMatchObject({ verdict: 'unavailable', statusCode: 200, finalUrl: `${baseUrl}/` });
+    });
+
+    it('should retry with GET when HEAD is not allowed', async () => {
+      const result = await checkLinkUrl(`${baseUrl}/app/head-blocked`);
+      expect(result).toMatchObject({ verdict: 'available', statusCode: 200 });
+    });
+
+    it('should treat server errors as inconclusive', async () => {
+      const result = await checkLinkUrl(`${baseUrl}/app/flaky`);
+      expect(result).toMatchObject({ verdict: 'unknown', statusCode: 503 });
+    });
+
+    it('should treat unknown hosts as unavailable and other failures as inconclusive', async () => {
+      const failing = (code: string): LinkHttpClient => ({
+        request: vi.fn().mockRejectedValue(Object.assign(new TypeError('fetch failed'), { cause: { code } })),
+      });
+
+      expect((await checkLinkUrl('https://gone.example', { http: failing('ENOTFOUND') })).verdict).toBe('unavailable');
+      expect((await checkLinkUrl('https://slow.example', { http: failing('ETIMEDOUT') })).verdict).toBe('unknown');
+    });
+  });
+
+  describe('checkAffiliateLinks', () => {
+    function createMockStrapi(links: Record<string, unknown>[]) {
+      const linkService = {
+        findMany: vi.fn(async (args: any) => (args.filters.lastCheckedAt.$null ? links : [])),
+      };
+      const updateMany = vi.fn().mockResolvedValue({ count: 2 });
+      const strapi = {
+        documents: vi.fn().mockReturnValue(linkService),
+        db: { query: vi.fn().mockReturnValue({ updateMany }) },
+        log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      } as unknown as Core.Strapi;
+      return { strapi, updateMany };
+    }
+
+    it('should flip isAvailable only on conclusive results', async () => {
+      const { strapi, updateMany } = createMockStrapi([
+        { documentId: 'live', url: `${baseUrl}/app/1`, isAvailable: false },
+        { documentId: 'gone', url: `${baseUrl}/app/missing`, isAvailable: true },
+        { documentId: 'flaky', url: `${baseUrl}/app/flaky`, isAvailable: true },
+      ]);
+
+      const result = await checkAffiliateLinks(strapi, { batchSize: 10 });
+
+      expect(result).toMatchObject({ checked: 3, available: 1, unavailable: 1, unknown: 1 });
+      expect(result.changed.map((c) => [c.documentId, c.isAvailable])).toEqual([
+        ['live', true],
+        ['gone', false],
+      ]);
+
+      const writes = Object.fromEntries(
+        updateMany.mock.calls.map(([args]) => [args.where.documentId, args.data])
+      );
+      expect(writes.gone).toMatchObject({ isAvailable: false, lastStatusCode: 404 });
+      expect(writes.flaky).not.toHaveProperty('isAvailable');
+      expect(writes.flaky.lastStatusCode).toBe(503);
+      expect(writes.flaky.lastCheckedAt).toEqual(expect.any(String));
+    });
+  });
+});
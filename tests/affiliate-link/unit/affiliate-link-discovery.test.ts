@@ -0,0 +1,209 @@
+/**
+ * Affiliate Link Discovery Unit Tests
+ *
+ * Tests template filling, link planning and the discovery flow against a
+ * mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildAffiliateUrl,
+  discoverAffiliateLinks,
+  planAffiliateLinks,
+  AffiliateLinkError,
+  type DiscoveryGame,
+  type DiscoveryPlatform,
+} from '../../../src/api/affiliate-link/services/affiliate-link-discovery';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createGame(overrides: Partial<DiscoveryGame> = {}): DiscoveryGame {
+  return {
+    documentId: 'game-1',
+    name: 'Hollow Knight',
+    slug: 'hollow-knight',
+    steamUrl: 'https://store.steampowered.com/app/367520',
+    gogUrl: 'https://www.gog.com/game/hollow_knight',
+    epicUrl: null,
+    itchUrl: null,
+    ...overrides,
+  };
+}
+
+function platform(slug: string, overrides: Partial<DiscoveryPlatform> = {}): DiscoveryPlatform {
+  return { documentId: `platform-${slug}`, slug, affiliateProgram: null, priority: 0, ...overrides };
+}
+
+function createMockStrapi(options: {
+  game?: DiscoveryGame | null;
+  platforms?: DiscoveryPlatform[];
+  links?: Record<string, unknown>[];
+}) {
+  const gameService = { findOne: vi.fn().mockResolvedValue(options.game === undefined ? createGame() : options.game) };
+  const platformService = { findMany: vi.fn().mockResolvedValue(options.platforms ?? []) };
+  const linkService = {
+    findMany: vi.fn().mockResolvedValue(options.links ?? []),
+    create: vi.fn(async () => ({ documentId: `link-${linkService.create.mock.calls.length}` })),
+    update: vi.fn().mockResolvedValue({}),
+    publish: vi.fn().mockResolvedValue({}),
+  };
+
+  const services: Record<string, unknown> = {
+    'api::game.game': gameService,
+    'api::affiliate-platform.affiliate-platform': platformService,
+    'api::affiliate-link.affiliate-link': linkService,
+  };
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, linkService, platformService };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Affiliate Link Discovery', () => {
+  describe('buildAffiliateUrl', () => {
+    const values = { storeUrl: 'https://store.steampowered.com/app/367520', name: 'Hollow Knight', slug: 'hollow-knight' };
+
+    it('should use the plain store URL when there is no template', () => {
+      expect(buildAffiliateUrl(null, values)).toBe(values.storeUrl);
+      expect(buildAffiliateUrl('Steam Curator Program', values)).toBe(values.storeUrl);
+    });
+
+    it('should fill store URL and name placeholders', () => {
+      expect(buildAffiliateUrl('https://partner.example.com/go?to={encodedUrl}&ref=gw', values)).toBe(
+        'https://partner.example.com/go?to=https%3A%2F%2Fstore.steampowered.com%2Fapp%2F367520&ref=gw'
+      );
+      expect(buildAffiliateUrl('https://www.humblebundle.com/store/search?search={encodedName}&partner=gw', values)).toBe(
+        'https://www.humblebundle.com/store/search?search=Hollow%20Knight&partner=gw'
+      );
+    });
+
+    it('should return null when the template needs a missing store URL', () => {
+      expect(buildAffiliateUrl('{url}?ref=gw', { ...values, storeUrl: null })).toBeNull();
+    });
+
+    it('should reject templates that do not produce an http(s) URL', () => {
+      expect(buildAffiliateUrl('javascript:{slug}', values)).toBeNull();
+    });
+  });
+
+  describe('planAffiliateLinks', () => {
+    it('should map store URL fields to platform slugs and sort by priority', () => {
+      const planned = planAffiliateLinks(createGame(), [
+        platform('gog', { priority: 5 }),
+        platform('steam', { priority: 10, affiliateProgram: '{url}?curator_clanid=123' }),
+        platform('epic-games-store', { priority: 20 }),
+        platform('humble-bundle', { priority: 1, affiliateProgram: 'https://www.humblebundle.com/store/{slug}?partner=gw' }),
+      ]);
+
+      expect(planned).toEqual([
+        {
+          platformDocumentId: 'platform-steam',
+          platformSlug: 'steam',
+          url: 'https://store.steampowered.com/app/367520?curator_clanid=123',
+          priority: 10,
+          storeField: 'steamUrl',
+        },
+        {
+          platformDocumentId: 'platform-gog',
+          platformSlug: 'gog',
+          url: 'https://www.gog.com/game/hollow_knight',
+          priority: 5,
+          storeField: 'gogUrl',
+        },
+        {
+          platformDocumentId: 'platform-humble-bundle',
+          platformSlug: 'humble-bundle',
+          url: 'https://www.humblebundle.com/store/hollow-knight?partner=gw',
+          priority: 1,
+          storeField: null,
+        },
+      ]);
+    });
+  });
+
+  describe('discoverAffiliateLinks', () => {
+    it('should create missing links for active published platforms', async () => {
+      const { strapi, linkService, platformService } = createMockStrapi({
+        platforms: [platform('steam', { priority: 10 })],
+      });
+
+      const result = await discoverAffiliateLinks(strapi, 'game-1');
+
+      expect(platformService.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'published',
+        filters: { isActive: true },
+      }));
+      expect(linkService.create).toHaveBeenCalledWith({
+        locale: 'en',
+        data: {
+          url: 'https://store.steampowered.com/app/367520',
+          priority: 10,
+          isAvailable: true,
+          game: { connect: ['game-1'] },
+          platform: { connect: ['platform-steam'] },
+        },
+        status: 'published',
+      });
+      // Locale versions of the new link
+      expect(linkService.update).toHaveBeenCalledWith(expect.objectContaining({
+        documentId: 'link-1',
+        locale: 'es',
+        status: 'published',
+      }));
+      expect(result.created).toHaveLength(1);
+    });
+
+    it('should update changed links in place and leave matching ones alone', async () => {
+      const { strapi, linkService } = createMockStrapi({
+        platforms: [platform('steam', { priority: 10 }), platform('gog', { priority: 5 })],
+        links: [
+          {
+            documentId: 'link-steam',
+            url: 'https://store.steampowered.com/app/1',
+            priority: 10,
+            publishedAt: '2024-01-01T00:00:00.000Z',
+            platform: { documentId: 'platform-steam', slug: 'steam' },
+          },
+          {
+            documentId: 'link-gog',
+            url: 'https://www.gog.com/game/hollow_knight',
+            priority: 5,
+            publishedAt: null,
+            platform: { documentId: 'platform-gog', slug: 'gog' },
+          },
+        ],
+      });
+
+      const result = await discoverAffiliateLinks(strapi, 'game-1');
+
+      expect(linkService.create).not.toHaveBeenCalled();
+      expect(linkService.update).toHaveBeenCalledWith({
+        documentId: 'link-steam',
+        locale: 'en',
+        data: { url: 'https://store.steampowered.com/app/367520', priority: 10 },
+      });
+      expect(linkService.publish).toHaveBeenCalledWith({ documentId: 'link-steam', locale: 'en' });
+      expect(result.updated.map((l) => l.platformSlug)).toEqual(['steam']);
+      expect(result.unchanged).toBe(1);
+    });
+
+    it('should throw a 404 AffiliateLinkError for unknown games', async () => {
+      const { strapi } = createMockStrapi({ game: null });
+
+      const error = await discoverAffiliateLinks(strapi, 'missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AffiliateLinkError);
+      expect(error.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Audio Uploader Tests
+ *
+ * Tests the MP3 upload and its sidecar files (chapters, captions, transcript)
+ * against a mocked Strapi upload service.
+ */
+
+import * as fs from 'fs';
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import { uploadAudioToStrapi } from '../../../src/ai/articles/services/audio-uploader';
+
+vi.mock('../../../src/ai/articles/services/folder-service', () => ({
+  ensureFolderExists: vi.fn().mockResolvedValue(7),
+  linkFileToFolder: vi.fn().mockResolvedValue(undefined),
+}));
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createMockStrapi() {
+  const contents = new Map<string, string>();
+  let nextId = 1;
+  const uploadService = {
+    upload: vi.fn(async ({ files }: { files: { filepath: string; originalFilename: string } }) => {
+      contents.set(files.originalFilename, await fs.promises.readFile(files.filepath, 'utf-8'));
+      const id = nextId++;
+      return [{ id, documentId: `file-${id}`, url: `https://cdn.example.com/${files.originalFilename}` }];
+    }),
+    updateFileInfo: vi.fn().mockResolvedValue({}),
+  };
+  const fileQuery = { update: vi.fn().mockResolvedValue({}) };
+
+  const strapi = {
+    plugin: vi.fn().mockReturnValue({ service: vi.fn().mockReturnValue(uploadService) }),
+    db: { query: vi.fn().mockReturnValue(fileQuery) },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, uploadService, fileQuery, contents };
+}
+
+const wordAlignment = {
+  words: ['Getting', 'Started.', 'Pick', 'Vagabond.'],
+  wordStartTimeSeconds: [0, 0.4, 1, 1.4],
+  wordEndTimeSeconds: [0.4, 0.8, 1.4, 1.9],
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Audio Uploader', () => {
+  it('should upload captions and a timed transcript next to the MP3', async () => {
+    const { strapi, uploadService, fileQuery, contents } = createMockStrapi();
+
+    const result = await uploadAudioToStrapi({
+      buffer: Buffer.from([0xff, 0xfb, 0x10, 0xc0]),
+      filename: 'elden-ring-guide-audio',
+      gameSlug: 'elden-ring',
+      articleSlug: 'elden-ring-guide',
+      articleTitle: 'Elden Ring Guide',
+      provider: 'silent',
+      voice: 'silent',
+      model: 'silent',
+      chapters: [{ title: 'Getting Started', startTime: 0, endTime: 1.9 }],
+      audioDurationSeconds: 2,
+      wordAlignment,
+      strapi,
+    });
+
+    expect([...contents.keys()]).toEqual([
+      'elden-ring-guide-audio.mp3',
+      'elden-ring-guide-audio-chapters.vtt',
+      'elden-ring-guide-audio-captions.vtt',
+      'elden-ring-guide-audio-captions.srt',
+      'elden-ring-guide-audio-transcript.json',
+    ]);
+    expect(contents.get('elden-ring-guide-audio-captions.vtt')).toContain('00:00:01.000 --> 00:00:01.900\nPick Vagabond.');
+    expect(contents.get('elden-ring-guide-audio-captions.srt')).toContain('1\n00:00:00,000 --> 00:00:00,800\nGetting Started.');
+    expect(JSON.parse(contents.get('elden-ring-guide-audio-transcript.json')!)).toMatchObject({
+      duration: 2,
+      sentences: [{ text: 'Getting Started.' }, { text: 'Pick Vagabond.', start: 1, end: 1.9 }],
+    });
+    expect(uploadService.upload).toHaveBeenCalledTimes(5);
+
+    expect(result).toMatchObject({
+      id: 1,
+      chapterFileId: 2,
+      captionFiles: {
+        vtt: { id: 3, url: 'https://cdn.example.com/elden-ring-guide-audio-captions.vtt' },
+        srt: { id: 4 },
+        transcript: { id: 5 },
+      },
+    });
+    expect(fileQuery.update.mock.calls[0][0].data.provider_metadata.ttsInfo.captions).toEqual({
+      vttUrl: 'https://cdn.example.com/elden-ring-guide-audio-captions.vtt',
+      srtUrl: 'https://cdn.example.com/elden-ring-guide-audio-captions.srt',
+      transcriptUrl: 'https://cdn.example.com/elden-ring-guide-audio-transcript.json',
+    });
+  });
+
+  it('should skip captions without word timestamps and survive sidecar failures', async () => {
+    const { strapi, uploadService } = createMockStrapi();
+    const upload = uploadService.upload.getMockImplementation()!;
+    uploadService.upload.mockImplementation(async (args) => {
+      if (args.files.originalFilename.endsWith('-chapters.vtt')) throw new Error('S3 down');
+      return upload(args);
+    });
+
+    const result = await uploadAudioToStrapi({
+      buffer: Buffer.from([0xff, 0xfb, 0x10, 0xc0]),
+      filename: 'guide-audio',
+      gameSlug: 'elden-ring',
+      articleSlug: 'guide',
+      articleTitle: 'Guide',
+      chapters: [{ title: 'Intro', startTime: 0 }],
+      strapi,
+    });
+
+    expect(result.id).toBe(1);
+    expect(result.chapterFileId).toBeUndefined();
+    expect(result.captionFiles).toBeUndefined();
+    expect(strapi.log.warn).toHaveBeenCalledWith(expect.stringContaining('S3 down'));
+  });
+});
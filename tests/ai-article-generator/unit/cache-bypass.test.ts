@@ -243,6 +243,32 @@ describe('cache-bypass', () => {
       expect(result.reason).toBe('legacy_reprocessing');
     });
 
+    it('should re-clean stale cache hits when fresh content is available', () => {
+      const cacheResult = {
+        url: 'https://example.com/patch-notes',
+        hit: true,
+        cached: { scrapeSucceeded: true },
+      };
+      const staleUrls = new Set(['https://example.com/patch-notes']);
+
+      const result = shouldBypassCacheResult(
+        cacheResult,
+        [createRawSource('https://example.com/patch-notes', 'Fresh patch notes content...')],
+        new Set(),
+        true, // cache enabled
+        new Set(),
+        new Set(),
+        staleUrls
+      );
+
+      expect(result.shouldBypass).toBe(true);
+      expect(result.reason).toBe('stale_refresh');
+
+      // Without fresh content the stale copy is still used
+      const noRaw = shouldBypassCacheResult(cacheResult, [], new Set(), true, new Set(), new Set(), staleUrls);
+      expect(noRaw).toEqual({ shouldBypass: false, reason: 'use_cache' });
+    });
+
     it('should match URLs with hash fragments stripped (normalizeUrl behavior)', () => {
       // Note: normalizeUrl in research-pool.ts only removes hash fragments,
       // it does NOT remove query params or lowercase the path.
@@ -0,0 +1,197 @@
+/**
+ * Inline Citation Tests
+ *
+ * Tests marker IDs, the claim-to-source map, unsupported-claim detection and
+ * how markers survive the Fixer's section rewrites.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildCitationMap,
+  extractCitationIds,
+  findUnsupportedClaims,
+  getCitationId,
+  restoreCitationMarkers,
+  stripCitationMarkers,
+} from '../../../src/ai/articles/citations';
+import { replaceSection } from '../../../src/ai/articles/fixer';
+import type { ResearchPool } from '../../../src/ai/articles/types';
+import { validateArticleDraft } from '../../../src/ai/articles/validation';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const PATCH_URL = 'https://example.com/patch-notes';
+const WIKI_URL = 'https://wiki.example.com/bosses';
+const PATCH_ID = getCitationId(PATCH_URL);
+const WIKI_ID = getCitationId(WIKI_URL);
+
+function createPool(): ResearchPool {
+  return {
+    scoutFindings: {
+      overview: [
+        {
+          query: 'elden ring patch',
+          answer: null,
+          category: 'overview',
+          timestamp: 0,
+          results: [
+            { title: 'Patch 1.10 Notes', url: PATCH_URL, content: 'Patch 1.10 reduced Malenia damage by 10%.' },
+          ],
+        },
+      ],
+      categorySpecific: [],
+      recent: [],
+    },
+    allUrls: new Set([PATCH_URL]),
+    queryCache: new Map([
+      [
+        'elden ring bosses',
+        {
+          query: 'elden ring bosses',
+          answer: null,
+          category: 'section-specific',
+          timestamp: 0,
+          results: [{ title: '', url: `${WIKI_URL}#malenia`, content: 'Malenia has two phases.' }],
+        },
+      ],
+    ]),
+  };
+}
+
+const MARKDOWN = `# Elden Ring Malenia Guide
+
+## Patch Changes
+
+Patch 1.10 reduced Malenia's damage by 10 percent on console. [^${PATCH_ID}] Expect a fairer fight.
+
+## Phases
+
+- Malenia has two phases with very different attacks.[^${WIKI_ID}]
+- The second phase was released in the launch version in 2022.
+`;
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('citation markers', () => {
+  it('should derive the same ID for equivalent URLs', () => {
+    expect(WIKI_ID).toMatch(/^src-[0-9a-f]{8}$/);
+    expect(getCitationId(`${WIKI_URL}#malenia`)).toBe(WIKI_ID);
+    expect(getCitationId(PATCH_URL)).not.toBe(WIKI_ID);
+  });
+
+  it('should extract and strip markers', () => {
+    expect(extractCitationIds(MARKDOWN)).toEqual([PATCH_ID, WIKI_ID]);
+    const stripped = stripCitationMarkers(MARKDOWN);
+    expect(stripped).not.toContain('[^src-');
+    expect(stripped).toContain('on console. Expect a fairer fight.');
+    expect(stripped).toContain('very different attacks.\n');
+  });
+});
+
+describe('buildCitationMap', () => {
+  it('should map each cited sentence to its sources', () => {
+    const map = buildCitationMap(MARKDOWN, createPool());
+
+    expect(map.claims).toEqual([
+      {
+        section: 'Patch Changes',
+        text: "Patch 1.10 reduced Malenia's damage by 10 percent on console.",
+        sourceIds: [PATCH_ID],
+      },
+      { section: 'Phases', text: 'Malenia has two phases with very different attacks.', sourceIds: [WIKI_ID] },
+    ]);
+    expect(map.sources).toEqual([
+      { id: PATCH_ID, url: PATCH_URL, title: 'Patch 1.10 Notes' },
+      { id: WIKI_ID, url: WIKI_URL, title: `${WIKI_URL}#malenia` },
+    ]);
+    expect(map.unresolvedIds).toEqual([]);
+  });
+
+  it('should resolve unknown markers from known sources or report them', () => {
+    const markdown = `## Intro\n\nThe boss was patched in 2023.[^src-00000000] The arena is large.[^src-ffffffff]\n`;
+    const known = [{ id: 'src-00000000', url: 'https://old.example.com', title: 'Old source' }];
+
+    const map = buildCitationMap(markdown, createPool(), known);
+
+    expect(map.sources).toEqual(known);
+    expect(map.unresolvedIds).toEqual(['src-ffffffff']);
+  });
+});
+
+describe('findUnsupportedClaims', () => {
+  it('should flag factual sentences without a citation', () => {
+    expect(findUnsupportedClaims(MARKDOWN)).toEqual([
+      { section: 'Phases', text: 'The second phase was released in the launch version in 2022.' },
+    ]);
+  });
+
+  it('should ignore short sentences, questions, headings and tables', () => {
+    const markdown = `## Tips\n\nIt costs 10 runes.\n\nDid the 2023 patch change her damage at all?\n\n### Patch 1.10 changes in 2023 explained\n\n| Level | 40 runes needed at minimum |\n`;
+    expect(findUnsupportedClaims(markdown)).toEqual([]);
+  });
+});
+
+describe('restoreCitationMarkers', () => {
+  it('should put markers back on sentences kept verbatim', () => {
+    const previous = `Patch 1.10 reduced her damage by 10 percent.[^${PATCH_ID}] Old advice.`;
+    const rewritten = 'Patch 1.10 reduced her damage by 10 percent. New advice.';
+
+    expect(restoreCitationMarkers(previous, rewritten)).toBe(
+      `Patch 1.10 reduced her damage by 10 percent.[^${PATCH_ID}] New advice.`
+    );
+  });
+
+  it('should leave rewritten or already cited sentences alone', () => {
+    const previous = `Patch 1.10 reduced her damage by 10 percent.[^${PATCH_ID}]`;
+
+    expect(restoreCitationMarkers(previous, 'Her damage dropped in patch 1.10.')).toBe('Her damage dropped in patch 1.10.');
+    expect(restoreCitationMarkers(previous, `${previous} More.`)).toBe(`${previous} More.`);
+  });
+
+  it('should keep markers when the Fixer replaces a section', () => {
+    const updated = replaceSection(
+      MARKDOWN,
+      'Patch Changes',
+      "Patch 1.10 reduced Malenia's damage by 10 percent on console. Bring a shield."
+    );
+
+    expect(updated).toContain(`on console.[^${PATCH_ID}] Bring a shield.`);
+    expect(updated).toContain(`very different attacks.[^${WIKI_ID}]`);
+  });
+});
+
+describe('validateArticleDraft with citations', () => {
+  const draft = {
+    title: 'Elden Ring Malenia Guide',
+    categorySlug: 'guides',
+    excerpt: 'x'.repeat(140),
+    description: 'x'.repeat(140),
+    tags: ['elden ring'],
+    markdown: MARKDOWN,
+    sources: [PATCH_URL],
+    plan: {
+      gameName: 'Elden Ring',
+      categorySlug: 'guides' as const,
+      sections: [],
+      safety: { noScoresUnlessReview: true },
+    },
+  };
+
+  it('should warn about unsupported claims and unresolved markers', () => {
+    const citations = { ...buildCitationMap(MARKDOWN, createPool()), unresolvedIds: ['src-ffffffff'] };
+    const messages = validateArticleDraft({ ...draft, citations }).map((issue) => issue.message);
+
+    expect(messages).toContainEqual(expect.stringMatching(/^1 factual sentence\(s\) cite no source: "The second phase/));
+    expect(messages).toContain('Citation markers match no research source: src-ffffffff');
+  });
+
+  it('should skip citation checks without a citation map', () => {
+    const messages = validateArticleDraft(draft).map((issue) => issue.message);
+    expect(messages.some((m) => m.includes('cite no source'))).toBe(false);
+  });
+});
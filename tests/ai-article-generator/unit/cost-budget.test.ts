@@ -0,0 +1,207 @@
+/**
+ * Cost Budget Tests
+ *
+ * Tests spend tracking, BUDGET_EXCEEDED errors with partial-cost reports,
+ * degradation helpers and the generateText/search wrappers.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  chargeExaSearch,
+  CostBudget,
+  estimateLLMCallCost,
+  isBudgetExceededError,
+  wrapGenerateTextWithBudget,
+  wrapSearchWithBudget,
+} from '../../../src/ai/articles/cost-budget';
+import { generateGameArticleDraft } from '../../../src/ai/articles/generate-game-article';
+import { ArticleGenerationError, TAVILY_COST_PER_CREDIT } from '../../../src/ai/articles/types';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const MODEL = { modelId: 'anthropic/claude-3-haiku' } as any;
+
+async function expectBudgetError(promise: Promise<unknown>): Promise<ArticleGenerationError> {
+  const error = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(isBudgetExceededError(error)).toBe(true);
+  return error as ArticleGenerationError;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('CostBudget', () => {
+  it('should reject a non-positive budget', () => {
+    expect(() => new CostBudget(0)).toThrow(ArticleGenerationError);
+    expect(() => new CostBudget(Number.NaN)).toThrow(/maxCostUsd must be a positive number/);
+  });
+
+  it('should record the actual cost, falling back to the projection', async () => {
+    const budget = new CostBudget(1);
+    budget.enterPhase('scout');
+
+    await budget.charge('search', 'search', 0.01, async () => ({ cost: 0.004 }), (r) => r.cost);
+    await budget.charge('llm', 'llm', 0.05, async () => ({}), () => undefined);
+
+    expect(budget.spentUsd).toBeCloseTo(0.054, 6);
+    expect(budget.getReport()).toMatchObject({
+      searchCallCount: 1,
+      llmCallCount: 1,
+      costByPhase: { scout: expect.closeTo(0.054, 6) },
+    });
+  });
+
+  it('should release the reservation of a failed call without charging it', async () => {
+    const budget = new CostBudget(0.1);
+
+    await expect(
+      budget.charge('llm', 'llm', 0.08, () => Promise.reject(new Error('boom')), () => 0.08)
+    ).rejects.toThrow('boom');
+
+    expect(budget.spentUsd).toBe(0);
+    expect(budget.remainingUsd).toBeCloseTo(0.1, 6);
+  });
+
+  it('should count in-flight calls against the budget', async () => {
+    const budget = new CostBudget(0.1);
+    let finish!: () => void;
+    const first = budget.charge('llm', 'first', 0.06, () => new Promise<void>((r) => (finish = r)), () => 0.06);
+
+    const error = await expectBudgetError(budget.charge('llm', 'second', 0.06, async () => undefined, () => 0.06));
+    finish();
+    await first;
+
+    expect(error.costReport?.exceededBy).toMatchObject({ operation: 'second', projectedUsd: 0.06 });
+  });
+
+  it('should throw BUDGET_EXCEEDED with a partial-cost report and stay exceeded', async () => {
+    const budget = new CostBudget(0.1);
+    budget.enterPhase('editor');
+    budget.record('llm', 0.07);
+
+    const error = await expectBudgetError(Promise.resolve().then(() => budget.enterPhase('specialist', 0.05)));
+
+    expect(error.message).toContain('specialist phase');
+    expect(error.costReport).toMatchObject({
+      maxCostUsd: 0.1,
+      spentUsd: 0.07,
+      costByPhase: { editor: 0.07 },
+      exceededBy: { phase: 'specialist', operation: 'specialist phase', projectedUsd: 0.05 },
+    });
+    expect(budget.exceeded).toBe(true);
+    // Later cheap calls still fail with the original error
+    expect(() => budget.assertCanAfford(0, 'anything')).toThrow(error);
+  });
+
+  it('should report the degrade threshold and affordable counts', () => {
+    const budget = new CostBudget(1);
+    budget.record('llm', 0.3);
+
+    expect(budget.isNearLimit()).toBe(false);
+    expect(budget.isNearLimit(0.6)).toBe(true);
+    expect(budget.affordableCount(0.02)).toBe(35);
+    expect(budget.affordableCount(0.02, 0.4)).toBe(5);
+
+    budget.degrade('reviewer-skipped');
+    budget.degrade('reviewer-skipped');
+    expect(budget.degradations).toEqual(['reviewer-skipped']);
+  });
+});
+
+describe('estimateLLMCallCost', () => {
+  it('should price input characters and output tokens with MODEL_PRICING', () => {
+    // 4000 chars = 1000 input tokens
+    expect(estimateLLMCallCost('anthropic/claude-3-haiku', 4000, 1000)).toBeCloseTo(0.00025 + 0.00125, 8);
+  });
+});
+
+describe('wrapGenerateTextWithBudget', () => {
+  it('should charge the OpenRouter-reported cost', async () => {
+    const budget = new CostBudget(1);
+    const generateText = vi.fn().mockResolvedValue({
+      text: 'ok',
+      usage: { inputTokens: 1000, outputTokens: 1000 },
+      providerMetadata: { openrouter: { usage: { cost: 0.0123 } } },
+    });
+
+    await wrapGenerateTextWithBudget(generateText, budget)({ model: MODEL, prompt: 'Hello' });
+
+    expect(budget.spentUsd).toBe(0.0123);
+  });
+
+  it('should price reported token usage when no cost is available', async () => {
+    const budget = new CostBudget(1);
+    const generateText = vi.fn().mockResolvedValue({ text: 'ok', usage: { inputTokens: 1000, outputTokens: 1000 } });
+
+    await wrapGenerateTextWithBudget(generateText, budget)({ model: MODEL, prompt: 'Hello' });
+
+    expect(budget.spentUsd).toBeCloseTo(0.0015, 8);
+  });
+
+  it('should reject an unaffordable call before making it', async () => {
+    const budget = new CostBudget(0.001);
+    const generateText = vi.fn();
+
+    await expectBudgetError(
+      wrapGenerateTextWithBudget(generateText, budget)({ model: MODEL, prompt: 'x'.repeat(40000) })
+    );
+
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
+
+describe('wrapSearchWithBudget / chargeExaSearch', () => {
+  it('should project Tavily credits by search depth and charge the reported cost', async () => {
+    const budget = new CostBudget(TAVILY_COST_PER_CREDIT * 2);
+    const search = vi.fn().mockResolvedValue({ results: [] });
+    const budgetedSearch = wrapSearchWithBudget(search, budget);
+
+    await budgetedSearch('basic query');
+    await expectBudgetError(budgetedSearch('advanced query', { searchDepth: 'advanced' }));
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(budget.spentUsd).toBeCloseTo(TAVILY_COST_PER_CREDIT, 8);
+  });
+
+  it('should charge Exa searches from costDollars', async () => {
+    const budget = new CostBudget(1);
+
+    await chargeExaSearch(budget, async () => ({ costDollars: { total: 0.005 } }));
+    const unbudgeted = await chargeExaSearch(undefined, async () => ({ results: [] }));
+
+    expect(budget.getReport()).toMatchObject({ searchCostUsd: 0.005, searchCallCount: 1 });
+    expect(unbudgeted).toEqual({ results: [] });
+  });
+});
+
+describe('generateGameArticleDraft with maxCostUsd', () => {
+  it('should stop before the Scout phase when the budget cannot cover it', async () => {
+    const generateText = vi.fn();
+    const search = vi.fn();
+
+    const error = await expectBudgetError(
+      generateGameArticleDraft(
+        { gameName: 'Elden Ring', instruction: 'Write a beginner guide' },
+        { generateText, search, openrouter: vi.fn().mockReturnValue(MODEL) as any },
+        { maxCostUsd: 0.001 }
+      )
+    );
+
+    expect(error.costReport).toMatchObject({ maxCostUsd: 0.001, spentUsd: 0, exceededBy: { phase: 'scout' } });
+    expect(generateText).not.toHaveBeenCalled();
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('should reject a non-positive budget as a configuration error', async () => {
+    await expect(
+      generateGameArticleDraft({ gameName: 'Elden Ring', instruction: 'Guide' }, undefined, { maxCostUsd: -1 })
+    ).rejects.toMatchObject({ code: 'CONFIG_ERROR' });
+  });
+});
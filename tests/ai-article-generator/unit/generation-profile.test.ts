@@ -0,0 +1,135 @@
+/**
+ * Generation Profile Tests
+ *
+ * Tests settings validation, per-agent/per-category resolution and the
+ * aiWorkflow string that traces a post back to its profile.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  formatProfileWorkflow,
+  hashGenerationProfileSettings,
+  resolveAgentModel,
+  resolveAgentSettings,
+  validateGenerationProfileSettings,
+  type GenerationProfileSettings,
+} from '../../../src/ai/articles/generation-profile';
+import { generateGameArticleDraft } from '../../../src/ai/articles/generate-game-article';
+import { ArticleGenerationError } from '../../../src/ai/articles/types';
+import { getModel } from '../../../src/ai/config';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const SETTINGS: GenerationProfileSettings = {
+  agents: {
+    specialist: { model: 'anthropic/claude-sonnet-4', temperature: 0.7 },
+    reviewer: { temperature: 0.1, maxOutputTokens: 3000 },
+  },
+  categories: {
+    news: { specialist: { temperature: 0.4, maxOutputTokens: 1000 } },
+  },
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('validateGenerationProfileSettings', () => {
+  it('should accept valid settings', () => {
+    expect(validateGenerationProfileSettings(SETTINGS)).toEqual(SETTINGS);
+    expect(validateGenerationProfileSettings({})).toEqual({});
+  });
+
+  it('should reject temperatures like validateTemperatureOverrides does', () => {
+    expect(() => validateGenerationProfileSettings({ agents: { scout: { temperature: 2.5 } } })).toThrow(
+      'Invalid temperature for agents.scout: 2.5 (must be between 0 and 2)'
+    );
+    expect(() =>
+      validateGenerationProfileSettings({ categories: { guides: { cleaner: { temperature: '0.3' } } } })
+    ).toThrow('Invalid temperature for categories.guides.cleaner: 0.3 (must be a number)');
+  });
+
+  it('should reject unknown agents, categories and malformed model IDs', () => {
+    expect(() => validateGenerationProfileSettings({ agents: { metadata: {} } })).toThrow(ArticleGenerationError);
+    expect(() => validateGenerationProfileSettings({ categories: { blogs: {} } })).toThrow(/categories/);
+    expect(() => validateGenerationProfileSettings({ agents: { editor: { model: 'gpt-5' } } })).toThrow(
+      /agents\.editor\.model/
+    );
+    expect(() => validateGenerationProfileSettings('nope')).toThrow(/Invalid generation profile settings/);
+  });
+
+  it('should only allow token limits on specialist, reviewer and fixer', () => {
+    expect(() => validateGenerationProfileSettings({ agents: { fixer: { maxOutputTokens: 0 } } })).toThrow(
+      /agents\.fixer\.maxOutputTokens/
+    );
+    expect(() => validateGenerationProfileSettings({ agents: { scout: { maxOutputTokens: 500 } } })).toThrow(
+      /only specialist, reviewer, fixer support a token limit/
+    );
+  });
+
+  it('should throw CONFIG_ERROR', () => {
+    expect(() => validateGenerationProfileSettings({ agents: { scout: { temperature: -1 } } })).toThrow(
+      expect.objectContaining({ code: 'CONFIG_ERROR' })
+    );
+  });
+});
+
+describe('resolveAgentSettings / resolveAgentModel', () => {
+  it('should merge the category override over the agent settings', () => {
+    expect(resolveAgentSettings(SETTINGS, 'specialist', 'news')).toEqual({
+      model: 'anthropic/claude-sonnet-4',
+      temperature: 0.4,
+      maxOutputTokens: 1000,
+    });
+    expect(resolveAgentSettings(SETTINGS, 'specialist', 'guides')).toEqual({
+      model: 'anthropic/claude-sonnet-4',
+      temperature: 0.7,
+    });
+    expect(resolveAgentSettings(SETTINGS, 'specialist')).toEqual(resolveAgentSettings(SETTINGS, 'specialist', 'guides'));
+  });
+
+  it('should fall back to getModel when the profile sets no model', () => {
+    expect(resolveAgentModel(SETTINGS, 'specialist', 'news')).toBe('anthropic/claude-sonnet-4');
+    expect(resolveAgentModel(SETTINGS, 'reviewer')).toBe(getModel('ARTICLE_REVIEWER'));
+    expect(resolveAgentModel(undefined, 'imageCurator')).toBe(getModel('ARTICLE_IMAGE_CURATOR'));
+  });
+});
+
+describe('formatProfileWorkflow', () => {
+  it('should append the profile slug and a stable settings hash', () => {
+    const reordered: GenerationProfileSettings = {
+      categories: SETTINGS.categories,
+      agents: { reviewer: { maxOutputTokens: 3000, temperature: 0.1 }, specialist: SETTINGS.agents!.specialist },
+    };
+
+    expect(hashGenerationProfileSettings(reordered)).toBe(hashGenerationProfileSettings(SETTINGS));
+    expect(formatProfileWorkflow('deep-dive-v1', { slug: 'creative', settings: SETTINGS })).toMatch(
+      /^deep-dive-v1\+profile:creative@[0-9a-f]{8}$/
+    );
+  });
+
+  it('should change the hash when settings change and leave the workflow alone without a profile', () => {
+    const changed = { agents: { ...SETTINGS.agents, scout: { temperature: 0.3 } } };
+
+    expect(hashGenerationProfileSettings(changed)).not.toBe(hashGenerationProfileSettings(SETTINGS));
+    expect(formatProfileWorkflow('deep-dive-v1')).toBe('deep-dive-v1');
+  });
+});
+
+describe('generateGameArticleDraft with a profile', () => {
+  it('should reject invalid profile settings before any work', async () => {
+    const generateText = vi.fn();
+
+    await expect(
+      generateGameArticleDraft(
+        { gameName: 'Elden Ring', instruction: 'Guide' },
+        { generateText, search: vi.fn(), openrouter: vi.fn() as any },
+        { profile: { agents: { editor: { temperature: 3 } } } }
+      )
+    ).rejects.toMatchObject({ code: 'CONFIG_ERROR' });
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Internal Links Tests
+ *
+ * Tests related-post scoring and weaving links into article prose.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  scoreRelatedPost,
+  selectRelatedPosts,
+  stripInternalLinks,
+  weaveInternalLinks,
+  type InternalLinkTarget,
+  type RelatedPostSignals,
+} from '../../../src/ai/articles/internal-links';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const POST: RelatedPostSignals = {
+  gameIds: ['elden-ring'],
+  franchiseIds: ['souls'],
+  tagIds: ['bosses', 'builds'],
+  categorySlug: 'guides',
+};
+
+const MARKDOWN = `# Elden Ring Malenia Guide
+
+Malenia is the hardest boss in Elden Ring and guards the Haligtree.
+
+## Preparation
+
+Level up at any Site of Grace before the fight. Elden Ring rewards patience.
+
+## Phase Two
+
+Scarlet Rot builds up fast, so keep Preserving Boluses ready. See \`Malenia\` in the wiki.
+
+![Malenia in Elden Ring](https://cdn.example.com/malenia.png)
+*Malenia in Elden Ring*
+
+| Item | Use |
+| Elden Ring | Table cells are never linked |
+
+## Sources
+
+- Elden Ring Wiki - https://example.com/elden-ring
+`;
+
+const GAME: InternalLinkTarget = { url: '/en/games/elden-ring', kind: 'game', anchors: ['Elden Ring'] };
+const ROT: InternalLinkTarget = {
+  url: '/en/scarlet-rot-guide',
+  kind: 'post',
+  anchors: ['Elden Ring Scarlet Rot Guide', 'Scarlet Rot'],
+};
+
+// ============================================================================
+// Related posts
+// ============================================================================
+
+describe('scoreRelatedPost', () => {
+  it('should weight shared games, franchises, tags and category', () => {
+    expect(scoreRelatedPost(POST, POST)).toBe(5 + 3 + 2 * 2 + 1);
+    expect(
+      scoreRelatedPost(POST, { gameIds: ['ds3'], franchiseIds: ['souls'], tagIds: [], categorySlug: 'news' })
+    ).toBe(3);
+    expect(scoreRelatedPost(POST, { gameIds: [], franchiseIds: [], tagIds: [], categorySlug: 'guides' })).toBe(1);
+  });
+});
+
+describe('selectRelatedPosts', () => {
+  it('should sort by score then recency and drop weak matches', () => {
+    const candidates = [
+      { id: 'old', gameIds: ['elden-ring'], franchiseIds: [], tagIds: [], categorySlug: null, publishedAt: '2025-01-01' },
+      { id: 'new', gameIds: ['elden-ring'], franchiseIds: [], tagIds: [], categorySlug: null, publishedAt: '2026-01-01' },
+      { id: 'best', ...POST, publishedAt: '2024-01-01' },
+      { id: 'category-only', gameIds: [], franchiseIds: [], tagIds: [], categorySlug: 'guides', publishedAt: '2026-06-01' },
+    ];
+
+    const selected = selectRelatedPosts(POST, candidates);
+
+    expect(selected.map((s) => s.candidate.id)).toEqual(['best', 'new', 'old']);
+    expect(selectRelatedPosts(POST, candidates, 1)).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Link weaving
+// ============================================================================
+
+describe('weaveInternalLinks', () => {
+  it('should link the first eligible mention of each target, one per section', () => {
+    const { markdown, links } = weaveInternalLinks(MARKDOWN, [GAME, ROT]);
+
+    expect(markdown).toContain('hardest boss in [Elden Ring](/en/games/elden-ring) and');
+    expect(markdown).toContain('[Scarlet Rot](/en/scarlet-rot-guide) builds up fast');
+    expect(markdown.match(/\]\(\/en\/games\/elden-ring\)/g)).toHaveLength(1);
+    expect(links).toEqual([
+      { url: GAME.url, kind: 'game', anchor: 'Elden Ring', section: '' },
+      { url: ROT.url, kind: 'post', anchor: 'Scarlet Rot', section: 'Phase Two' },
+    ]);
+  });
+
+  it('should skip headings, images, captions, tables, inline code and Sources', () => {
+    const malenia: InternalLinkTarget = { url: '/en/malenia', kind: 'post', anchors: ['Malenia'] };
+    const wiki: InternalLinkTarget = { url: '/en/wiki', kind: 'post', anchors: ['Elden Ring Wiki'] };
+
+    const { markdown } = weaveInternalLinks(MARKDOWN, [malenia, wiki], { maxLinksPerSection: 5 });
+
+    expect(markdown).toContain('# Elden Ring Malenia Guide');
+    expect(markdown).toContain('\n[Malenia](/en/malenia) is the hardest boss');
+    expect(markdown).toContain('See `Malenia` in the wiki');
+    expect(markdown).not.toContain('[Elden Ring Wiki]');
+  });
+
+  it('should respect the link budget and be idempotent', () => {
+    const first = weaveInternalLinks(MARKDOWN, [GAME, ROT], { maxLinks: 1 });
+    expect(first.links).toHaveLength(1);
+
+    const second = weaveInternalLinks(first.markdown, [GAME, ROT]);
+    expect(second.links.map((l) => l.url)).toEqual([ROT.url]);
+    expect(weaveInternalLinks(second.markdown, [GAME, ROT]).markdown).toBe(second.markdown);
+  });
+
+  it('should match whole words only', () => {
+    const target: InternalLinkTarget = { url: '/en/ring', kind: 'post', anchors: ['Ring'] };
+    const { links } = weaveInternalLinks('## Intro\n\nRings and ringing bells.\n', [target]);
+    expect(links).toEqual([]);
+  });
+});
+
+describe('stripInternalLinks', () => {
+  it('should remove site-relative links and keep external links and images', () => {
+    const markdown = 'See [Elden Ring](/en/games/elden-ring) and [IGN](https://ign.com). ![Map](/uploads/map.png)';
+
+    expect(stripInternalLinks(markdown)).toBe('See Elden Ring and [IGN](https://ign.com). ![Map](/uploads/map.png)');
+  });
+});
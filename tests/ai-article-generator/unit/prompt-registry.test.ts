@@ -0,0 +1,74 @@
+/**
+ * Prompt Registry Tests
+ *
+ * Tests version lookup, validation of selected versions and that the
+ * facades render the selected variant.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  getPromptStrategy,
+  getSpecialistSystemPrompt,
+  listPromptVersions,
+  resolvePromptVersions,
+  validatePromptVersions,
+  withSystemPromptAddendum,
+} from '../../../src/ai/articles/prompts';
+import { SPECIALIST_CITATION_RULES } from '../../../src/ai/articles/prompts/shared/specialist-utils';
+import { ArticleGenerationError } from '../../../src/ai/articles/types';
+
+describe('getPromptStrategy', () => {
+  it('should return v1 by default and list registered versions', () => {
+    expect(getPromptStrategy('specialist', 'guides')).toBe(getPromptStrategy('specialist', 'guides', 'v1'));
+    expect(listPromptVersions('specialist', 'news')).toEqual(['v1', 'v2']);
+    expect(listPromptVersions('reviewer', 'lists')).toEqual(['v1']);
+  });
+
+  it('should throw CONFIG_ERROR for an unknown version', () => {
+    expect(() => getPromptStrategy('editor', 'reviews', 'v9')).toThrow(ArticleGenerationError);
+    expect(() => getPromptStrategy('editor', 'reviews', 'v9')).toThrow(
+      'Unknown editor prompt version "v9" for reviews (available: v1)'
+    );
+  });
+});
+
+describe('validatePromptVersions / resolvePromptVersions', () => {
+  it('should accept registered versions for one or every category', () => {
+    expect(() => validatePromptVersions({ specialist: 'v2' }, 'guides')).not.toThrow();
+    expect(() => validatePromptVersions({ specialist: 'v2', editor: 'v1' })).not.toThrow();
+    expect(() => validatePromptVersions(undefined)).not.toThrow();
+  });
+
+  it('should reject unknown agents and versions', () => {
+    expect(() => validatePromptVersions({ reviewer: 'v2' })).toThrow(/Unknown reviewer prompt version "v2"/);
+    expect(() => validatePromptVersions({ scout: 'v1' } as never)).toThrow(
+      expect.objectContaining({ code: 'CONFIG_ERROR' })
+    );
+  });
+
+  it('should fill in v1 for unset agents', () => {
+    expect(resolvePromptVersions({ specialist: 'v2' })).toEqual({ editor: 'v1', specialist: 'v2', reviewer: 'v1' });
+  });
+});
+
+describe('prompt variants', () => {
+  it('should append the addendum and keep user prompts', () => {
+    const base = getPromptStrategy('reviewer', 'guides');
+    const variant = withSystemPromptAddendum(base, 'EXTRA RULE');
+
+    expect(variant.getSystemPrompt()).toBe(`${base.getSystemPrompt()}\n\nEXTRA RULE`);
+    expect(variant.getUserPrompt).toBe(base.getUserPrompt);
+  });
+
+  it('should render the selected specialist version through the facade', () => {
+    const v1 = getSpecialistSystemPrompt('Write in English.', 'informative', 'guides');
+    const v2 = getSpecialistSystemPrompt('Write in English.', 'informative', 'guides', 'v2');
+    // Citation rules are appended to every version by the facade
+    const withoutCitations = (prompt: string) => prompt.replace(`\n\n${SPECIALIST_CITATION_RULES}`, '');
+
+    expect(withoutCitations(v2).startsWith(withoutCitations(v1))).toBe(true);
+    expect(v2).toContain('SECTION OPENINGS:');
+    expect(v1).not.toContain('SECTION OPENINGS:');
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Record/Replay Harness Unit Tests
+ *
+ * Tests recording LLM and HTTP calls, redaction, deterministic replay,
+ * fallback matching, bundle parsing and an offline round trip through
+ * generateGameArticleDraft.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Output } from 'ai';
+import { z } from 'zod';
+
+import {
+  createGenerationRecorder,
+  createGenerationReplayer,
+  parseReplayBundle,
+  recordGameArticleRun,
+  redactUrl,
+  replayGameArticleRun,
+  ReplayMismatchError,
+  REPLAY_BUNDLE_VERSION,
+  type ReplayBundle,
+} from '../../../src/ai/articles/record-replay';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const PlanSchema = z.object({ title: z.string(), sections: z.array(z.string()) });
+const model = { modelId: 'google/gemini-3-flash-preview' } as any;
+const usage = { inputTokens: 120, outputTokens: 40, totalTokens: 160 };
+
+function createFakeGenerateText(text: string) {
+  return vi.fn(async () => ({
+    text,
+    output: JSON.parse(text),
+    usage,
+    providerMetadata: { openrouter: { usage: { cost: 0.0012 } } },
+    finishReason: 'stop',
+  })) as any;
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+}
+
+async function recordPlanCall(prompt: string) {
+  const recorder = createGenerationRecorder({
+    generateText: createFakeGenerateText('{"title":"Elden Ring Guide","sections":["Intro","Bosses"]}'),
+    fetch: vi.fn() as any,
+  });
+  await recorder.generateText({ model, prompt, output: Output.object({ schema: PlanSchema }) });
+  return recorder.toBundle({ startTime: 1_000_000 });
+}
+
+const GAME_CONTEXT = {
+  gameName: 'Hollow Lantern',
+  categorySlug: 'news',
+  instruction: 'Cover the Hollow Lantern launch announcement.',
+} as const;
+const SECTION_HEADLINES = ['Launch Date', 'Platforms', 'Pricing and Editions', 'What Comes Next'];
+
+/**
+ * Answers every LLM call of a full generation, picking the response by the
+ * call's output schema (plain-text calls are Specialist sections).
+ */
+function createPipelineGenerateText() {
+  return vi.fn(async (params: any) => {
+    const format = params.output ? await params.output.responseFormat : undefined;
+    const fields = Object.keys(format?.schema?.properties ?? {});
+
+    let text: string;
+    if (fields.includes('needsDiscovery')) {
+      text = JSON.stringify({ needsDiscovery: false, discoveryReason: 'none' });
+    } else if (fields.includes('draftTitle')) {
+      text = JSON.stringify({
+        draftTitle: 'Hollow Lantern launch date announced',
+        queries: [
+          {
+            query: 'Hollow Lantern launch date',
+            engine: 'tavily',
+            purpose: 'Confirm the announced release date',
+            expectedFindings: ['Release date'],
+          },
+        ],
+      });
+    } else if (fields.includes('sections')) {
+      text = JSON.stringify({
+        categorySlug: 'news',
+        sections: SECTION_HEADLINES.map((headline) => ({
+          headline,
+          goal: `Explain the ${headline.toLowerCase()} of Hollow Lantern`,
+          researchQueries: [`Hollow Lantern ${headline.toLowerCase()}`],
+          mustCover: [headline],
+        })),
+      });
+    } else if (fields.includes('excerpt')) {
+      text = JSON.stringify({
+        title: 'Hollow Lantern Launches This Spring on PC and Consoles',
+        excerpt:
+          'Hollow Lantern finally has a launch date. Here is when the atmospheric action game arrives, where you can play it and what it costs.',
+        description:
+          'Hollow Lantern launches this spring on PC and consoles. Release date, platforms, pricing and editions explained.',
+        tags: ['Hollow Lantern', 'release date'],
+      });
+    } else {
+      const headline = SECTION_HEADLINES.find((h) => params.prompt.includes(h)) ?? 'Update';
+      text =
+        `Hollow Lantern developers shared new details about the ${headline.toLowerCase()} this week. ` +
+        'The studio confirmed the plans in a blog post and answered questions from players about the launch. '.repeat(4);
+    }
+
+    const output = params.output
+      ? await params.output.parseCompleteOutput({ text }, { response: {}, usage, finishReason: 'stop' })
+      : text;
+    return { text, output, usage, providerMetadata: { openrouter: { usage: { cost: 0.0012 } } }, finishReason: 'stop' };
+  }) as any;
+}
+
+function createTavilyFetch() {
+  return vi.fn(async (_input: any, init?: RequestInit) => {
+    const { query } = JSON.parse(String(init?.body));
+    return jsonResponse({
+      query,
+      answer: `Hollow Lantern news about ${query}.`,
+      results: [
+        {
+          title: `${query} - Hollow Lantern news`,
+          url: `https://news.example.com/${encodeURIComponent(query)}`,
+          content: `Hollow Lantern ${query}: the studio confirmed the details in an announcement.`,
+          score: 0.9,
+        },
+      ],
+      usage: { credits: 1 },
+    });
+  });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Record/Replay Harness', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe('LLM calls', () => {
+    it('should record prompt, schema, response and usage', async () => {
+      const bundle = await recordPlanCall('Plan an Elden Ring guide');
+
+      expect(bundle.version).toBe(REPLAY_BUNDLE_VERSION);
+      expect(bundle.llmCalls).toHaveLength(1);
+      expect(bundle.llmCalls[0]).toMatchObject({
+        seq: 0,
+        model: 'google/gemini-3-flash-preview',
+        request: { prompt: 'Plan an Elden Ring guide', schema: expect.objectContaining({ type: 'object' }) },
+        response: { usage, finishReason: 'stop' },
+      });
+    });
+
+    it('should replay the response and re-parse it against the current schema', async () => {
+      const bundle = await recordPlanCall('Plan an Elden Ring guide');
+      const replayer = createGenerationReplayer(bundle);
+
+      const result = await replayer.generateText({
+        model,
+        prompt: 'Plan an Elden Ring guide',
+        output: Output.object({ schema: PlanSchema }),
+      });
+
+      expect(result.output).toEqual({ title: 'Elden Ring Guide', sections: ['Intro', 'Bosses'] });
+      expect(result.usage).toEqual(usage);
+      expect(replayer.report()).toEqual({ divergences: [], unusedLlmCalls: [], unusedHttpCalls: [] });
+
+      // A stricter schema now rejects the recorded response, as production would
+      const stricter = createGenerationReplayer(bundle);
+      await expect(
+        stricter.generateText({
+          model,
+          prompt: 'Plan an Elden Ring guide',
+          output: Output.object({ schema: PlanSchema.extend({ excerpt: z.string() }) }),
+        })
+      ).rejects.toThrow();
+    });
+
+    it('should fall back to the same call site when the prompt changed', async () => {
+      const bundle = await recordPlanCall('Plan an Elden Ring guide');
+      const replayer = createGenerationReplayer(bundle);
+
+      await replayer.generateText({
+        model,
+        prompt: 'Plan an Elden Ring guide (new prompt wording)',
+        output: Output.object({ schema: PlanSchema }),
+      });
+
+      expect(replayer.report().divergences).toEqual([
+        expect.objectContaining({ layer: 'llm', seq: 0 }),
+      ]);
+
+      const strict = createGenerationReplayer(bundle, { strict: true });
+      await expect(
+        strict.generateText({ model, prompt: 'Changed', output: Output.object({ schema: PlanSchema }) })
+      ).rejects.toBeInstanceOf(ReplayMismatchError);
+    });
+
+    it('should replay recorded failures', async () => {
+      const recorder = createGenerationRecorder({
+        generateText: vi.fn().mockRejectedValue(Object.assign(new Error('Rate limited'), { status: 429 })) as any,
+      });
+      await expect(recorder.generateText({ model, prompt: 'Hi' })).rejects.toThrow('Rate limited');
+
+      const replayer = createGenerationReplayer(recorder.toBundle({ startTime: 0 }));
+      await expect(replayer.generateText({ model, prompt: 'Hi' })).rejects.toMatchObject({
+        message: 'Rate limited',
+        status: 429,
+      });
+    });
+  });
+
+  describe('HTTP calls', () => {
+    it('should record search and image responses and skip LLM traffic', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+      const baseFetch = vi.fn(async (input: any) => {
+        const url = String(input);
+        if (url.includes('tavily')) return jsonResponse({ results: [{ url: 'https://example.com' }] });
+        if (url.includes('twitch')) return jsonResponse({ access_token: 'live-token', expires_in: 100 });
+        if (url.includes('openrouter')) return jsonResponse({ choices: [] });
+        return new Response(png, { status: 200, headers: { 'content-type': 'image/png' } });
+      });
+      const recorder = createGenerationRecorder({ fetch: baseFetch as any });
+
+      await recorder.fetch('https://api.tavily.com/search', { method: 'POST', body: '{"query":"elden ring"}' });
+      await recorder.fetch('https://id.twitch.tv/oauth2/token?client_id=abc&client_secret=shh', { method: 'POST' });
+      await recorder.fetch('https://images.igdb.com/igdb/image/upload/t_1080p/abc.png');
+      await recorder.fetch('https://openrouter.ai/api/v1/chat/completions', { method: 'POST', body: '{}' });
+
+      const { httpCalls } = recorder.toBundle({ startTime: 0 });
+      expect(baseFetch).toHaveBeenCalledTimes(4);
+      expect(httpCalls.map((c) => c.kind)).toEqual(['tavily', 'igdb', 'image']);
+      expect(httpCalls[1].request.url).toContain('client_secret=REDACTED');
+      expect(httpCalls[1].response?.body).not.toContain('live-token');
+      expect(httpCalls[2].response).toMatchObject({ bodyEncoding: 'base64', body: png.toString('base64') });
+    });
+
+    it('should replay responses without touching the network', async () => {
+      const recorder = createGenerationRecorder({
+        fetch: vi.fn(async () => jsonResponse({ results: [{ url: 'https://example.com' }] })) as any,
+      });
+      await recorder.fetch('https://api.tavily.com/search', { method: 'POST', body: '{"query":"elden ring"}' });
+      const replayer = createGenerationReplayer(recorder.toBundle({ startTime: 0 }));
+
+      const response = await replayer.fetch('https://api.tavily.com/search', {
+        method: 'POST',
+        body: '{"query":"elden ring bosses"}',
+      });
+
+      expect(await response.json()).toEqual({ results: [{ url: 'https://example.com' }] });
+      expect(replayer.report().divergences).toHaveLength(1);
+      await expect(replayer.fetch('https://api.exa.ai/search', { method: 'POST' })).rejects.toBeInstanceOf(
+        ReplayMismatchError
+      );
+    });
+  });
+
+  describe('full runs', () => {
+    it('should replay a recorded generation into the same draft offline', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+      vi.stubEnv('TAVILY_API_KEY', 'test-tavily-key');
+      vi.stubEnv('EXA_API_KEY', '');
+      const liveFetch = createTavilyFetch();
+      vi.stubGlobal('fetch', liveFetch);
+
+      const deps = { generateText: createPipelineGenerateText(), openrouter: (id: string) => ({ modelId: id }) as any };
+      const options = { correlationId: 'replay-test', enableReviewer: false };
+
+      const recorded = await recordGameArticleRun(GAME_CONTEXT, deps, options);
+      expect(recorded.error).toBeNull();
+      expect(recorded.draft?.markdown).toContain('## Launch Date');
+      expect(recorded.bundle.httpCalls.length).toBeGreaterThan(0);
+
+      const replayed = await replayGameArticleRun(
+        parseReplayBundle(JSON.stringify(recorded.bundle)),
+        { openrouter: deps.openrouter },
+        options
+      );
+
+      expect(replayed.error).toBeNull();
+      expect(replayed.draft).toEqual(recorded.draft);
+      expect(replayed.report.divergences).toEqual([]);
+      expect(liveFetch).toHaveBeenCalledTimes(recorded.bundle.httpCalls.length);
+    });
+
+    it('should restore the global fetch when generation throws', async () => {
+      const originalFetch = globalThis.fetch;
+      const generateText = vi.fn().mockRejectedValue(new Error('Provider unavailable'));
+
+      const recorded = await recordGameArticleRun(GAME_CONTEXT, {
+        generateText: generateText as any,
+        openrouter: (id: string) => ({ modelId: id }) as any,
+      });
+
+      expect(recorded.error).toBeInstanceOf(Error);
+      expect(recorded.bundle.outcome).toMatchObject({ status: 'failed', message: expect.stringContaining('Provider unavailable') });
+      expect(globalThis.fetch).toBe(originalFetch);
+    });
+  });
+
+  describe('redactUrl', () => {
+    it('should only redact secret-looking parameters', () => {
+      expect(redactUrl('https://api.example.com/x?api_key=1&q=zelda')).toBe(
+        'https://api.example.com/x?api_key=REDACTED&q=zelda'
+      );
+    });
+  });
+
+  describe('parseReplayBundle', () => {
+    it('should reject bundles from another version', () => {
+      const bundle: ReplayBundle = {
+        version: REPLAY_BUNDLE_VERSION,
+        recordedAt: '2026-01-01T00:00:00.000Z',
+        startTime: 0,
+        searchKeys: { tavily: true, exa: false },
+        llmCalls: [],
+        httpCalls: [],
+      };
+
+      expect(parseReplayBundle(JSON.stringify(bundle))).toEqual(bundle);
+      expect(() => parseReplayBundle(JSON.stringify({ ...bundle, version: 99 }))).toThrow(/version 99/);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Unit tests for the article refresh pipeline
+ *
+ * Tests issue selection, the refresh window and the Scout -> Reviewer -> Fixer
+ * flow with the agents and Fixer operations mocked (no LLM calls).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/ai/articles/agents', () => ({
+  runScout: vi.fn(),
+  runReviewer: vi.fn(),
+}));
+
+vi.mock('../../../src/ai/articles/fixer', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/ai/articles/fixer')>();
+  return {
+    ...actual,
+    regenerateSection: vi.fn(),
+    expandSection: vi.fn(),
+    addSection: vi.fn(),
+  };
+});
+
+import { runScout, runReviewer } from '../../../src/ai/articles/agents';
+import { addSection, expandSection, regenerateSection } from '../../../src/ai/articles/fixer';
+import type { ReviewIssue } from '../../../src/ai/articles/agents/reviewer';
+import type { ArticlePlan } from '../../../src/ai/articles/article-plan';
+import { REFRESH_CONFIG } from '../../../src/ai/articles/config';
+import {
+  buildRefreshInstruction,
+  refreshGameArticle,
+  resolveRefreshSince,
+  selectRefreshIssues,
+} from '../../../src/ai/articles/refresh-article';
+import type { GameArticleContext } from '../../../src/ai/articles/types';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const MARKDOWN = `# Elden Ring Boss Guide
+
+## Margit
+
+Margit is weak to bleed.
+
+## Godrick
+
+Godrick has two phases.
+
+## Sources
+
+- https://example.com/old
+`;
+
+const PLAN: ArticlePlan = {
+  gameName: 'Elden Ring',
+  categorySlug: 'guides',
+  sections: [
+    { headline: 'Margit', goal: 'Beat Margit', researchQueries: ['margit'], mustCover: ['bleed'] },
+    { headline: 'Godrick', goal: 'Beat Godrick', researchQueries: ['godrick'], mustCover: ['phases'] },
+  ],
+  safety: { noScoresUnlessReview: true },
+};
+
+const CONTEXT: GameArticleContext = {
+  gameName: 'Elden Ring',
+  instruction: 'Write a boss guide',
+};
+
+function issue(overrides: Partial<ReviewIssue>): ReviewIssue {
+  return {
+    severity: 'major',
+    category: 'factual',
+    location: 'Margit',
+    message: 'Margit was rebalanced in patch 1.10',
+    fixStrategy: 'regenerate',
+    fixInstruction: 'Update with patch 1.10 changes',
+    ...overrides,
+  };
+}
+
+const mockDeps = {
+  openrouter: vi.fn((modelId: string) => ({ modelId }) as any),
+  search: vi.fn() as any,
+  generateText: vi.fn() as any,
+};
+
+// ============================================================================
+// selectRefreshIssues
+// ============================================================================
+
+describe('selectRefreshIssues', () => {
+  it('should ignore style issues and no_action issues', () => {
+    const selected = selectRefreshIssues(
+      [
+        issue({ category: 'style', message: 'Cliché' }),
+        issue({ fixStrategy: 'no_action' }),
+        issue({ location: 'Godrick', fixStrategy: 'expand' }),
+      ],
+      MARKDOWN
+    );
+
+    expect(selected.map((i) => i.location)).toEqual(['Godrick']);
+  });
+
+  it('should keep one update per section, preferring severity then strategy', () => {
+    const selected = selectRefreshIssues(
+      [
+        issue({ severity: 'minor', fixStrategy: 'expand' }),
+        issue({ severity: 'major', fixStrategy: 'direct_edit' }),
+        issue({ severity: 'major', fixStrategy: 'regenerate' }),
+      ],
+      MARKDOWN
+    );
+
+    expect(selected).toHaveLength(1);
+    expect(selected[0].fixStrategy).toBe('regenerate');
+  });
+
+  it('should skip issues whose section is not in the article', () => {
+    expect(selectRefreshIssues([issue({ location: 'Malenia' })], MARKDOWN)).toEqual([]);
+  });
+
+  it('should keep add_section issues that describe the new section', () => {
+    const selected = selectRefreshIssues(
+      [
+        issue({ location: 'Messmer', category: 'coverage', fixStrategy: 'add_section' }),
+        issue({ location: 'Rellana', category: 'coverage', fixStrategy: 'add_section', fixInstruction: undefined }),
+      ],
+      MARKDOWN
+    );
+
+    expect(selected.map((i) => i.location)).toEqual(['Messmer']);
+  });
+
+  it('should cap the number of section updates', () => {
+    const issues = Array.from({ length: REFRESH_CONFIG.MAX_SECTION_UPDATES + 2 }, (_, n) =>
+      issue({ location: `New Boss ${n}`, category: 'coverage', fixStrategy: 'add_section' })
+    );
+
+    expect(selectRefreshIssues(issues, MARKDOWN)).toHaveLength(REFRESH_CONFIG.MAX_SECTION_UPDATES);
+  });
+});
+
+// ============================================================================
+// Refresh window and instruction
+// ============================================================================
+
+describe('resolveRefreshSince', () => {
+  const now = new Date('2026-03-01T00:00:00.000Z');
+
+  it('should use the stored timestamp', () => {
+    expect(resolveRefreshSince('2026-01-15T10:00:00.000Z', now).toISOString()).toBe('2026-01-15T10:00:00.000Z');
+  });
+
+  it('should fall back to the default look-back window', () => {
+    const expected = now.getTime() - REFRESH_CONFIG.DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+
+    expect(resolveRefreshSince(null, now).getTime()).toBe(expected);
+    expect(resolveRefreshSince('not a date', now).getTime()).toBe(expected);
+  });
+});
+
+describe('buildRefreshInstruction', () => {
+  it('should focus research on changes to the covered sections', () => {
+    const instruction = buildRefreshInstruction(CONTEXT, PLAN, new Date('2026-01-15T00:00:00.000Z'));
+
+    expect(instruction).toContain('since 2026-01-15');
+    expect(instruction).toContain('Margit; Godrick');
+    expect(instruction).toContain('\nRefresh focus: Write a boss guide');
+    expect(instruction).not.toContain('Original brief');
+  });
+
+  it('should leave out the focus line when the refresh has no instruction', () => {
+    const instruction = buildRefreshInstruction(
+      { ...CONTEXT, instruction: null },
+      PLAN,
+      new Date('2026-01-15T00:00:00.000Z')
+    );
+
+    expect(instruction).not.toContain('Refresh focus');
+  });
+});
+
+// ============================================================================
+// refreshGameArticle
+// ============================================================================
+
+describe('refreshGameArticle', () => {
+  beforeEach(() => {
+    vi.mocked(runScout).mockReset().mockResolvedValue({
+      researchPool: { scoutFindings: { overview: [], categorySpecific: [], recent: [] }, allUrls: new Set(), queryCache: new Map() },
+      sourceUrls: ['https://example.com/patch-1-10'],
+      tokenUsage: { input: 100, output: 50, actualCostUsd: 0.01 },
+    } as any);
+    vi.mocked(runReviewer).mockReset();
+    vi.mocked(regenerateSection).mockReset();
+    vi.mocked(expandSection).mockReset();
+    vi.mocked(addSection).mockReset();
+  });
+
+  it('should update only the affected sections and record a changelog', async () => {
+    vi.mocked(runReviewer).mockResolvedValue({
+      approved: false,
+      issues: [
+        issue({}),
+        issue({ location: 'Godrick', fixStrategy: 'expand', severity: 'minor', message: 'Missing new phase' }),
+        issue({ location: 'Godrick', category: 'style', fixStrategy: 'direct_edit', message: 'Cliché' }),
+      ],
+      suggestions: [],
+      tokenUsage: { input: 10, output: 5 },
+    });
+    vi.mocked(regenerateSection).mockImplementation(async (markdown) => ({
+      markdown: markdown.replace('Margit is weak to bleed.', 'Margit now resists bleed.'),
+      success: true,
+      tokenUsage: { input: 20, output: 10 },
+      description: 'Regenerated section "Margit"',
+    }));
+    vi.mocked(expandSection).mockImplementation(async (markdown) => ({
+      markdown: markdown.replace('two phases.', 'two phases and a new grab.'),
+      success: true,
+      tokenUsage: { input: 20, output: 10 },
+      description: 'Expanded section "Godrick"',
+    }));
+
+    const result = await refreshGameArticle(
+      { context: CONTEXT, markdown: MARKDOWN, plan: PLAN, since: '2026-01-15T00:00:00.000Z' },
+      mockDeps
+    );
+
+    expect(result.changed).toBe(true);
+    expect(result.markdown).toContain('Margit now resists bleed.');
+    expect(result.markdown).toContain('two phases and a new grab.');
+    expect(result.changelog).toEqual([
+      { section: 'Margit', action: 'regenerated', reason: 'Margit was rebalanced in patch 1.10', severity: 'major' },
+      { section: 'Godrick', action: 'expanded', reason: 'Missing new phase', severity: 'minor' },
+    ]);
+    expect(result.sources).toEqual(['https://example.com/patch-1-10']);
+    expect(result.tokenUsage.fixer).toEqual({ input: 40, output: 20 });
+
+    const scoutContext = vi.mocked(runScout).mock.calls[0][0];
+    expect(scoutContext.categorySlug).toBe('guides');
+    expect(scoutContext.instruction).toContain('since 2026-01-15');
+  });
+
+  it('should leave the article unchanged when nothing is stale', async () => {
+    vi.mocked(runReviewer).mockResolvedValue({
+      approved: true,
+      issues: [issue({ category: 'seo', fixStrategy: 'direct_edit' })],
+      suggestions: [],
+      tokenUsage: { input: 10, output: 5 },
+    });
+
+    const result = await refreshGameArticle({ context: CONTEXT, markdown: MARKDOWN, plan: PLAN }, mockDeps);
+
+    expect(result.changed).toBe(false);
+    expect(result.markdown).toBe(MARKDOWN);
+    expect(result.changelog).toEqual([]);
+    expect(expandSection).not.toHaveBeenCalled();
+  });
+
+  it('should not record fixes that fail', async () => {
+    vi.mocked(runReviewer).mockResolvedValue({
+      approved: false,
+      issues: [issue({})],
+      suggestions: [],
+      tokenUsage: { input: 10, output: 5 },
+    });
+    vi.mocked(regenerateSection).mockResolvedValue({
+      markdown: MARKDOWN,
+      success: false,
+      tokenUsage: { input: 0, output: 0 },
+      description: 'Regeneration failed',
+    });
+
+    const result = await refreshGameArticle({ context: CONTEXT, markdown: MARKDOWN, plan: PLAN }, mockDeps);
+
+    expect(result.changed).toBe(false);
+    expect(result.changelog).toEqual([]);
+  });
+
+  it('should wrap Scout failures as SCOUT_FAILED', async () => {
+    vi.mocked(runScout).mockRejectedValue(new Error('Search API down'));
+
+    await expect(
+      refreshGameArticle({ context: CONTEXT, markdown: MARKDOWN, plan: PLAN }, mockDeps)
+    ).rejects.toMatchObject({ code: 'SCOUT_FAILED' });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Review Verdict Tests
+ *
+ * Tests score extraction, the tone heuristic, verdict validation against the
+ * body text and the verdict rules appended to review prompts.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { ReviewVerdictSchema, type ArticlePlan, type ReviewVerdict } from '../../../src/ai/articles/article-plan';
+import { getEditorUserPrompt, getSpecialistSectionUserPrompt } from '../../../src/ai/articles/prompts';
+import type { EditorPromptContext, SpecialistSectionContext } from '../../../src/ai/articles/prompts';
+import {
+  extractReviewScore,
+  formatReviewScoreLine,
+  measureReviewTone,
+  normalizeReviewScore,
+} from '../../../src/ai/articles/review-verdict';
+import { validateArticleDraft } from '../../../src/ai/articles/validation';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const POSITIVE_REVIEW = `## Gameplay
+
+Combat is brilliant and rewarding, with a superb parry system and smooth controls.
+Exploration is engaging, and the open world never feels boring.
+
+## Performance
+
+On PlayStation 5 the game is polished and stunning, though the PC port has some janky stutter.
+
+## Verdict
+
+An outstanding, memorable adventure.
+
+${formatReviewScoreLine(9)}
+
+## Sources
+
+- [Great review](https://example.com/review) scored it 3/10.
+`;
+
+const VERDICT: ReviewVerdict = {
+  score: 9,
+  summary: 'An outstanding adventure with a few technical hiccups on PC.',
+  pros: ['Brilliant parry-based combat', 'Engaging open world'],
+  cons: ['Stutter on PC'],
+  playItIf: ['You enjoy demanding action games'],
+  platformNotes: [{ platform: 'PlayStation 5', note: 'Polished and stable' }],
+};
+
+const plan: ArticlePlan = {
+  gameName: 'Elden Ring',
+  categorySlug: 'reviews',
+  sections: [
+    { headline: 'Gameplay', goal: 'Judge the combat', researchQueries: ['combat'], mustCover: ['Parry system'] },
+    { headline: 'Performance', goal: 'Compare platforms', researchQueries: ['performance'], mustCover: ['PC port'] },
+    { headline: 'Verdict', goal: 'Final recommendation', researchQueries: ['reception'], mustCover: ['Score'] },
+  ],
+  safety: { noScoresUnlessReview: true },
+};
+
+function verdictMessages(markdown: string, verdict: ReviewVerdict): string[] {
+  const draft = {
+    title: 'Elden Ring Review',
+    categorySlug: 'reviews',
+    excerpt: 'x'.repeat(140),
+    description: 'x'.repeat(140),
+    tags: ['elden ring'],
+    markdown,
+    sources: ['https://example.com/review'],
+    plan,
+  };
+  const baseline = new Set(validateArticleDraft(draft).map((issue) => issue.message));
+  return validateArticleDraft({ ...draft, verdict })
+    .map((issue) => `${issue.severity}: ${issue.message}`)
+    .filter((message) => !baseline.has(message.replace(/^\w+: /, '')));
+}
+
+// ============================================================================
+// Score and tone
+// ============================================================================
+
+describe('extractReviewScore / normalizeReviewScore', () => {
+  it('should read the score line and ignore the Sources section', () => {
+    const score = extractReviewScore(POSITIVE_REVIEW);
+    expect(score).toEqual({ ratingValue: 9, bestRating: 10 });
+    expect(normalizeReviewScore(score!)).toBe(9);
+  });
+
+  it('should normalize other scales to ten', () => {
+    expect(normalizeReviewScore({ ratingValue: 4, bestRating: 5 })).toBe(8);
+    expect(normalizeReviewScore({ ratingValue: 73, bestRating: 100 })).toBe(7.3);
+  });
+});
+
+describe('measureReviewTone', () => {
+  it('should count praise and criticism words outside headings', () => {
+    const tone = measureReviewTone(POSITIVE_REVIEW);
+    expect(tone.positive).toBeGreaterThan(tone.negative);
+    expect(tone.tone).toBeGreaterThan(0.4);
+  });
+
+  it('should flip negated words', () => {
+    expect(measureReviewTone('It is not fun and never boring.')).toEqual({ positive: 1, negative: 1, tone: 0 });
+  });
+
+  it('should report a neutral tone without tone words', () => {
+    expect(measureReviewTone('## Dull Heading\n\nThe game has twelve chapters.').tone).toBe(0);
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe('validateArticleDraft with a review verdict', () => {
+  it('should accept a verdict consistent with the article', () => {
+    expect(verdictMessages(POSITIVE_REVIEW, VERDICT)).toEqual([]);
+  });
+
+  it('should fail a score that contradicts the stated score', () => {
+    const messages = verdictMessages(POSITIVE_REVIEW, { ...VERDICT, score: 7 });
+    expect(messages).toContain('error: Verdict score 7/10 contradicts the score stated in the article (9/10)');
+  });
+
+  it('should warn when the score contradicts the tone', () => {
+    const markdown = POSITIVE_REVIEW.replace(formatReviewScoreLine(9), formatReviewScoreLine(4));
+    const messages = verdictMessages(markdown, { ...VERDICT, score: 4 });
+
+    expect(messages).toContainEqual(expect.stringMatching(/^warning: Low score 4\/10 for a review that reads positive/));
+    expect(messages).toContain('warning: Low score 4/10 with more pros (2) than cons (1)');
+  });
+
+  it('should warn about a missing score and unknown platforms', () => {
+    const markdown = POSITIVE_REVIEW.replace(formatReviewScoreLine(9), '');
+    const messages = verdictMessages(markdown, {
+      ...VERDICT,
+      platformNotes: [...VERDICT.platformNotes, { platform: 'Switch', note: 'Runs at 30fps' }],
+    });
+
+    expect(messages).toContain('warning: Review states no score in the text (verdict score: 9/10)');
+    expect(messages).toContain('warning: Verdict has notes for platforms the article never mentions: Switch');
+  });
+
+  it('should only accept scores in steps of 0.5', () => {
+    expect(ReviewVerdictSchema.safeParse(VERDICT).success).toBe(true);
+    expect(ReviewVerdictSchema.safeParse({ ...VERDICT, score: 8.3 }).success).toBe(false);
+  });
+});
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+describe('review verdict prompts', () => {
+  const editorContext: EditorPromptContext = {
+    gameName: 'Elden Ring',
+    genres: ['Action RPG'],
+    platforms: ['PC'],
+    instruction: 'Review the game',
+    localeInstruction: 'Write in English.',
+    existingResearchSummary: 'Research summary',
+    categoryHintsSection: '',
+    sourceSummariesSection: '',
+    draftTitle: 'Elden Ring Review',
+  };
+
+  it('should add verdict planning to review plans only', () => {
+    expect(getEditorUserPrompt({ ...editorContext, categorySlug: 'reviews' })).toContain('=== VERDICT PLANNING ===');
+    expect(getEditorUserPrompt({ ...editorContext, categorySlug: 'guides' })).not.toContain('VERDICT PLANNING');
+  });
+
+  it('should ask for the score line in the last review section only', () => {
+    const section: SpecialistSectionContext = {
+      sectionIndex: 2,
+      totalSections: 3,
+      headline: 'Verdict',
+      goal: 'Final recommendation',
+      isFirst: false,
+      isLast: true,
+      previousContext: '',
+      researchContext: '',
+      isThinResearch: false,
+      researchContentLength: 0,
+      mustCover: [],
+    };
+
+    const last = getSpecialistSectionUserPrompt(section, plan, 'Elden Ring');
+    expect(last).toContain('=== VERDICT SECTION ===');
+    expect(last).toContain('**Score: 8.5/10**');
+
+    const first = getSpecialistSectionUserPrompt({ ...section, sectionIndex: 0, isLast: false }, plan, 'Elden Ring');
+    expect(first).not.toContain('VERDICT SECTION');
+  });
+});
@@ -341,4 +341,206 @@ describe('source-cache', () => {
       });
     });
   });
+
+  describe('Manual domain overrides', () => {
+    const computed = {
+      tier: 'poor' as const,
+      isExcluded: true,
+      excludeReason: 'Low quality score (22.0 < 35)',
+      isExcludedTavily: true,
+      tavilyExcludeReason: 'Scrape failure rate 80%',
+      isExcludedExa: false,
+      exaExcludeReason: null,
+    };
+    const noOverrides = { tierOverride: null, exclusionOverride: null, overrideReason: null };
+
+    it('should keep computed values without overrides', async () => {
+      const { applyDomainQualityOverrides } = await import('../../../src/ai/articles/source-cache');
+      expect(applyDomainQualityOverrides(computed, noOverrides)).toEqual(computed);
+    });
+
+    it('should pin the tier and lift every exclusion on a forced include', async () => {
+      const { applyDomainQualityOverrides } = await import('../../../src/ai/articles/source-cache');
+
+      const result = applyDomainQualityOverrides(computed, {
+        tierOverride: 'good',
+        exclusionOverride: 'include',
+        overrideReason: 'Official publisher site',
+      });
+
+      expect(result).toEqual({
+        tier: 'good',
+        isExcluded: false,
+        excludeReason: null,
+        isExcludedTavily: false,
+        tavilyExcludeReason: null,
+        isExcludedExa: false,
+        exaExcludeReason: null,
+      });
+    });
+
+    it('should exclude globally with the admin reason on a forced exclude', async () => {
+      const { applyDomainQualityOverrides } = await import('../../../src/ai/articles/source-cache');
+
+      const result = applyDomainQualityOverrides(
+        { ...computed, tier: 'excellent', isExcluded: false, excludeReason: null },
+        { ...noOverrides, exclusionOverride: 'exclude', overrideReason: 'AI-generated spam' }
+      );
+
+      expect(result.tier).toBe('excellent');
+      expect(result.isExcluded).toBe(true);
+      expect(result.excludeReason).toBe('Manual override: AI-generated spam');
+    });
+
+    it('should append history only when computed values change and cap its length', async () => {
+      const { appendScoreHistory, parseScoreHistory } = await import('../../../src/ai/articles/source-cache');
+      const snapshot = {
+        at: '2026-01-01T00:00:00.000Z',
+        avgQualityScore: 50,
+        avgRelevanceScore: 80,
+        totalSources: 4,
+        tier: 'average' as const,
+        isExcluded: false,
+        tavilyFailureRate: 0,
+        exaFailureRate: 0,
+      };
+
+      const once = appendScoreHistory([], snapshot);
+      expect(appendScoreHistory(once, { ...snapshot, at: '2026-01-02T00:00:00.000Z' })).toHaveLength(1);
+
+      const capped = appendScoreHistory(
+        [snapshot, { ...snapshot, totalSources: 5 }],
+        { ...snapshot, totalSources: 6 },
+        2
+      );
+      expect(capped.map((s) => s.totalSources)).toEqual([5, 6]);
+
+      // JSON columns come back as strings on SQLite
+      expect(parseScoreHistory(JSON.stringify(once))).toEqual(once);
+      expect(parseScoreHistory('not json')).toEqual([]);
+    });
+  });
+
+  describe('Cache retention', () => {
+    it('should pick the TTL from the first matching content type', async () => {
+      const { getSourceTtlDays } = await import('../../../src/ai/articles/source-cache');
+      const { SOURCE_CACHE_CONFIG } = await import('../../../src/ai/articles/config');
+
+      expect(getSourceTtlDays('News Article')).toBe(14);
+      expect(getSourceTtlDays('patch notes')).toBe(14);
+      expect(getSourceTtlDays('walkthrough guide')).toBe(180);
+      expect(getSourceTtlDays('strategy guide')).toBe(90);
+      expect(getSourceTtlDays('raw fallback')).toBe(SOURCE_CACHE_CONFIG.DEFAULT_TTL_DAYS);
+      expect(getSourceTtlDays(null)).toBe(SOURCE_CACHE_CONFIG.DEFAULT_TTL_DAYS);
+    });
+
+    it('should flag sources older than their TTL as stale', async () => {
+      const { isSourceStale } = await import('../../../src/ai/articles/source-cache');
+      const now = new Date('2026-03-01T00:00:00.000Z');
+
+      expect(isSourceStale('news article', '2026-02-10T00:00:00.000Z', now)).toBe(true);
+      expect(isSourceStale('wiki article', '2026-02-10T00:00:00.000Z', now)).toBe(false);
+      expect(isSourceStale('news article', null, now)).toBe(false);
+    });
+
+    it('should mark stale cache hits in checkSourceCache', async () => {
+      const { checkSourceCache } = await import('../../../src/ai/articles/source-cache');
+      const longAgo = '2020-01-01T00:00:00.000Z';
+      const row = (url: string, contentType: string, updatedAt: string) => ({
+        id: 1,
+        document_id: 'doc',
+        url,
+        domain: 'ign.com',
+        title: 'Title',
+        summary: 'Summary',
+        detailed_summary: 'Details',
+        key_facts: null,
+        data_points: null,
+        images: null,
+        cleaned_content: 'Content',
+        original_content_length: 1000,
+        quality_score: 80,
+        relevance_score: 90,
+        quality_notes: null,
+        content_type: contentType,
+        junk_ratio: '0.1',
+        access_count: 3,
+        last_accessed_at: null,
+        search_source: 'tavily',
+        scrape_succeeded: true,
+        created_at: updatedAt,
+        updated_at: updatedAt,
+      });
+      const rows = [
+        row('https://ign.com/news', 'news article', longAgo),
+        row('https://ign.com/guide', 'strategy guide', new Date().toISOString()),
+      ];
+
+      // No DB exclusions; source_contents returns the cached rows
+      const createBuilder = (result: unknown[]) => {
+        const builder: Record<string, unknown> = {};
+        for (const method of ['where', 'whereIn', 'andWhere', 'andWhereNot']) {
+          builder[method] = vi.fn(() => builder);
+        }
+        builder.select = vi.fn(() => Promise.resolve(result));
+        builder.update = vi.fn(() => Promise.resolve(1));
+        return builder;
+      };
+      const knex = Object.assign(
+        vi.fn((table: string) => createBuilder(table === 'source_contents' ? rows : [])),
+        { raw: vi.fn() }
+      );
+      const mockStrapi = { db: { connection: knex }, log: { warn: vi.fn(), debug: vi.fn() } } as any;
+
+      const results = await checkSourceCache(mockStrapi, [
+        { url: 'https://ign.com/news', title: 'News', content: '' },
+        { url: 'https://ign.com/guide', title: 'Guide', content: '' },
+      ]);
+
+      expect(results.map((r) => [r.hit, r.stale])).toEqual([
+        [true, true],
+        [true, false],
+      ]);
+    });
+
+    it('should remove idle low-quality rows but keep ones cited by published posts', async () => {
+      const { cleanupSourceCache } = await import('../../../src/ai/articles/source-cache');
+      const candidates = [
+        { id: 1, document_id: 'a', url: 'https://spam.example/a', domain: 'spam.example' },
+        { id: 2, document_id: 'b', url: 'https://spam.example/b', domain: 'spam.example' },
+      ];
+
+      const builder: Record<string, unknown> = {};
+      for (const method of ['where', 'andWhere', 'orderBy', 'limit', 'first']) {
+        builder[method] = vi.fn(() => builder);
+      }
+      builder.select = vi.fn(() => Promise.resolve(candidates));
+      // updateDomainQuality finds no published sources left and returns early
+      builder.first = vi.fn(() => Promise.resolve(undefined));
+      const knex = Object.assign(vi.fn(() => builder), { raw: vi.fn() });
+      const sourceService = { delete: vi.fn().mockResolvedValue({}) };
+      const mockStrapi = {
+        db: {
+          connection: knex,
+          query: vi.fn(() => ({
+            findMany: vi.fn().mockResolvedValue([
+              { sources: { urls: ['https://spam.example/b'] } },
+              { sources: JSON.stringify({ urls: ['https://other.example/x'] }) },
+            ]),
+          })),
+        },
+        documents: vi.fn(() => sourceService),
+        log: { info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+      } as any;
+
+      const dryRun = await cleanupSourceCache(mockStrapi, { dryRun: true });
+      expect(dryRun).toMatchObject({ candidates: 2, keptForPosts: 1, deleted: 1, dryRun: true });
+      expect(sourceService.delete).not.toHaveBeenCalled();
+
+      const result = await cleanupSourceCache(mockStrapi);
+      expect(result.deletedUrls).toEqual(['https://spam.example/a']);
+      expect(sourceService.delete).toHaveBeenCalledTimes(1);
+      expect(sourceService.delete).toHaveBeenCalledWith({ documentId: 'a' });
+    });
+  });
 });
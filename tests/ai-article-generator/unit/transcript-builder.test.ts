@@ -0,0 +1,135 @@
+/**
+ * Transcript Builder Tests
+ *
+ * Tests sentence/cue grouping, WebVTT and SRT output and the timed transcript.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildSRTCaptions,
+  buildTimedTranscript,
+  buildWebVTTCaptions,
+  formatSRTTimestamp,
+  formatWebVTTTimestamp,
+  groupWordsIntoCues,
+  groupWordsIntoSentences,
+  toTimedWords,
+} from '../../../src/ai/articles/services/transcript-builder';
+import type { WordAlignment } from '../../../src/ai/articles/services/tts-types';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * Evenly spaced alignment (0.5s per word).
+ */
+function alignment(text: string): WordAlignment {
+  const words = text.split(' ');
+  return {
+    words,
+    wordStartTimeSeconds: words.map((_, i) => i * 0.5),
+    wordEndTimeSeconds: words.map((_, i) => i * 0.5 + 0.4),
+  };
+}
+
+const NARRATION = alignment('Welcome to Hyrule. Defeat the first boss! Ready?');
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Transcript Builder', () => {
+  describe('timestamps', () => {
+    it('should format WebVTT and SRT timestamps', () => {
+      expect(formatWebVTTTimestamp(3723.456)).toBe('01:02:03.456');
+      expect(formatSRTTimestamp(3723.456)).toBe('01:02:03,456');
+      // Rounds instead of truncating float error (0.29 * 1000 = 289.99...)
+      expect(formatWebVTTTimestamp(0.29)).toBe('00:00:00.290');
+    });
+  });
+
+  describe('groupWordsIntoSentences', () => {
+    it('should split after sentence-final punctuation', () => {
+      const sentences = groupWordsIntoSentences(toTimedWords(NARRATION));
+
+      expect(sentences.map((s) => s.text)).toEqual(['Welcome to Hyrule.', 'Defeat the first boss!', 'Ready?']);
+      expect(sentences[1]).toMatchObject({ start: 1.5, end: 3.4, firstWordIndex: 3, lastWordIndex: 6 });
+    });
+
+    it('should keep a trailing fragment without punctuation', () => {
+      const sentences = groupWordsIntoSentences(toTimedWords(alignment('He said "go." Then nothing')));
+
+      expect(sentences.map((s) => s.text)).toEqual(['He said "go."', 'Then nothing']);
+    });
+  });
+
+  describe('groupWordsIntoCues', () => {
+    it('should split long sentences by characters and duration', () => {
+      const words = toTimedWords(alignment('one two three four five six'));
+
+      expect(groupWordsIntoCues(words, { maxChars: 9, maxSeconds: 60 }).map((c) => c.text)).toEqual([
+        'one two',
+        'three',
+        'four five',
+        'six',
+      ]);
+      expect(groupWordsIntoCues(words, { maxChars: 100, maxSeconds: 1 }).map((c) => c.text)).toEqual([
+        'one two',
+        'three four',
+        'five six',
+      ]);
+    });
+  });
+
+  describe('caption files', () => {
+    it('should build WebVTT captions', () => {
+      expect(buildWebVTTCaptions(NARRATION)).toBe(
+        [
+          'WEBVTT',
+          '',
+          '1',
+          '00:00:00.000 --> 00:00:01.400',
+          'Welcome to Hyrule.',
+          '',
+          '2',
+          '00:00:01.500 --> 00:00:03.400',
+          'Defeat the first boss!',
+          '',
+          '3',
+          '00:00:03.500 --> 00:00:03.900',
+          'Ready?',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should escape markup characters in WebVTT cue text only', () => {
+      const text = alignment('Tips & tricks: <b>parry</b> --> riposte.');
+
+      expect(buildWebVTTCaptions(text)).toContain('\nTips &amp; tricks: &lt;b>parry&lt;/b> --&gt; riposte.\n');
+      expect(buildSRTCaptions(text)).toContain('\nTips & tricks: <b>parry</b> --> riposte.\n');
+    });
+
+    it('should build numbered SRT captions', () => {
+      const srt = buildSRTCaptions(NARRATION);
+
+      expect(srt.startsWith('1\n00:00:00,000 --> 00:00:01,400\nWelcome to Hyrule.\n')).toBe(true);
+      expect(srt).toContain('3\n00:00:03,500 --> 00:00:03,900\nReady?\n');
+    });
+  });
+
+  describe('buildTimedTranscript', () => {
+    it('should include every word and sentence spans', () => {
+      const transcript = buildTimedTranscript(NARRATION, 4.2);
+
+      expect(transcript.version).toBe(1);
+      expect(transcript.duration).toBe(4.2);
+      expect(transcript.words).toHaveLength(8);
+      expect(transcript.words[7]).toEqual({ text: 'Ready?', start: 3.5, end: 3.9 });
+      expect(transcript.sentences).toHaveLength(3);
+      expect(buildTimedTranscript(NARRATION).duration).toBe(3.9);
+    });
+  });
+});
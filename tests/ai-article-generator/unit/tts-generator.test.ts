@@ -1,5 +1,11 @@
-import { describe, it, expect } from 'vitest';
-import { findSectionStartWordIndex } from '../../../src/ai/articles/services/tts-generator';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findSectionStartWordIndex,
+  generateAudioFromMarkdown,
+  mergeChunkAlignments,
+} from '../../../src/ai/articles/services/tts-generator';
+import { createSilentTTSProvider } from '../../../src/ai/articles/services/tts-providers';
+import { extractAudioFrames } from '../../../src/ai/articles/services/mp3-parser';
 
 describe('tts-generator', () => {
   describe('findSectionStartWordIndex', () => {
@@ -42,4 +48,88 @@ describe('tts-generator', () => {
       expect(secondIndex).toBe(3);
     });
   });
+
+  describe('mergeChunkAlignments', () => {
+    it('should shift each chunk by the audio duration of the chunks before it', () => {
+      const chunk = (words: string[]) => ({
+        wordAlignment: {
+          words,
+          wordStartTimeSeconds: words.map((_, i) => i * 0.5),
+          wordEndTimeSeconds: words.map((_, i) => i * 0.5 + 0.4),
+        },
+      });
+
+      // First chunk's audio runs 0.6s past its last word (trailing silence)
+      const { wordAlignment, characterAlignment } = mergeChunkAlignments(
+        [chunk(['Hello', 'there.']), undefined, chunk(['Next', 'part.'])],
+        [1.5, 2, 1]
+      );
+
+      expect(wordAlignment?.words).toEqual(['Hello', 'there.', 'Next', 'part.']);
+      expect(wordAlignment?.wordStartTimeSeconds).toEqual([0, 0.5, 3.5, 4]);
+      expect(wordAlignment?.wordEndTimeSeconds).toEqual([0.4, 0.9, 3.9, 4.4]);
+      expect(characterAlignment).toBeUndefined();
+    });
+  });
+
+  describe('generateAudioFromMarkdown', () => {
+    const markdown = [
+      '# Elden Ring Beginner Guide',
+      '',
+      '## Getting Started',
+      '',
+      'Pick the Vagabond class for a sturdy early game and explore Limgrave carefully.',
+      '',
+      '## First Boss',
+      '',
+      'Margit punishes greedy attacks, so summon spirit ashes and keep your distance.',
+    ].join('\n');
+
+    it('should produce concatenated audio and chapters offline with the silent provider', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      const result = await generateAudioFromMarkdown(markdown, { provider: 'silent' });
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      fetchSpy.mockRestore();
+      expect(result).toMatchObject({ provider: 'silent', voiceId: 'silent', chunkCount: 2, timestampType: 'WORD' });
+      expect(extractAudioFrames(result!.buffer).frameCount).toBeGreaterThan(0);
+      expect(result!.chapters?.map((c) => c.title)).toEqual(['Getting Started', 'First Boss']);
+      // Chapters start at the section body, after the spoken heading (2 words at 150 wpm)
+      expect(result!.chapters?.[0].startTime).toBeCloseTo(0.8, 5);
+      expect(result!.chapters?.[1].startTime).toBeGreaterThan(0);
+      expect(result!.chapters?.[1].endTime).toBeCloseTo(result!.audioDurationSeconds!, 5);
+      expect(result!.wordAlignment?.words[0]).toBe('Getting');
+    });
+
+    it('should pick the provider voice mapped to the locale unless a voice is given', async () => {
+      const provider = { ...createSilentTTSProvider(), localeVoices: { es: 'Diego' } };
+      const synthesize = vi.spyOn(provider, 'synthesize');
+
+      const spanish = await generateAudioFromMarkdown(markdown, { provider, locale: 'es' });
+      const explicit = await generateAudioFromMarkdown(markdown, { provider, locale: 'es', voice: 'Ashley' });
+      const french = await generateAudioFromMarkdown(markdown, { provider, locale: 'fr' });
+
+      expect(spanish?.voiceId).toBe('Diego');
+      expect(synthesize.mock.calls[0][0].voiceId).toBe('Diego');
+      expect(explicit?.voiceId).toBe('Ashley');
+      expect(french?.voiceId).toBe('silent');
+    });
+
+    it('should accept a custom provider instance and return null when it keeps failing', async () => {
+      vi.useFakeTimers();
+      const provider = {
+        ...createSilentTTSProvider(),
+        id: 'flaky',
+        synthesize: vi.fn().mockRejectedValue(new Error('engine crashed')),
+      };
+
+      const promise = generateAudioFromMarkdown(markdown, { provider });
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBeNull();
+      expect(provider.synthesize).toHaveBeenCalledTimes(3);
+      vi.useRealTimers();
+    });
+  });
 });
@@ -0,0 +1,116 @@
+/**
+ * TTS Providers Unit Tests
+ *
+ * Tests the Inworld provider against a mocked fetch, the offline silent
+ * provider and per-locale provider resolution.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import {
+  createInworldTTSProvider,
+  createSilentTTSProvider,
+  resolveTTSProvider,
+} from '../../../src/ai/articles/services/tts-providers';
+import { extractAudioFrames } from '../../../src/ai/articles/services/mp3-parser';
+import { TTS_CONFIG } from '../../../src/ai/articles/config';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('TTS Providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('inworld', () => {
+    it('should send the chunk to the Inworld API and decode the audio', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        jsonResponse({
+          audioContent: Buffer.from('mp3-bytes').toString('base64'),
+          timestampInfo: { wordAlignment: { words: ['Hi'], wordStartTimeSeconds: [0], wordEndTimeSeconds: [0.3] } },
+        })
+      );
+
+      const result = await createInworldTTSProvider('key').synthesize({
+        text: 'Hi',
+        voiceId: 'Ashley',
+        modelId: 'inworld-tts-1-max',
+        timestampType: 'WORD',
+      });
+
+      expect(result.buffer.toString()).toBe('mp3-bytes');
+      expect(result.timestampInfo?.wordAlignment?.words).toEqual(['Hi']);
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe(TTS_CONFIG.API_URL);
+      expect(JSON.parse(init!.body as string)).toEqual({
+        text: 'Hi',
+        voiceId: 'Ashley',
+        modelId: 'inworld-tts-1-max',
+        timestampType: 'WORD',
+      });
+    });
+
+    it('should surface API errors and map the voice catalogue', async () => {
+      vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('quota exceeded', { status: 429 }))
+        .mockResolvedValueOnce(
+          jsonResponse({ voices: [{ voiceId: 'Diego', displayName: 'Diego', languages: ['es'] }] })
+        );
+      const provider = createInworldTTSProvider('key');
+
+      await expect(provider.synthesize({ text: 'Hola', voiceId: 'Diego', modelId: 'm' })).rejects.toThrow(
+        'Inworld API error (429): quota exceeded'
+      );
+      expect(await provider.listVoices('es')).toEqual([{ id: 'Diego', name: 'Diego', languages: ['es'] }]);
+    });
+
+    it('should require an API key', () => {
+      vi.stubEnv('INWORLD_API_KEY', '');
+      expect(() => createInworldTTSProvider()).toThrow('INWORLD_API_KEY not configured');
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe('silent', () => {
+    it('should produce parseable silent MP3 covering every word timestamp', async () => {
+      const result = await createSilentTTSProvider(120).synthesize({
+        text: 'one two three four',
+        voiceId: 'silent',
+        modelId: 'silent',
+        timestampType: 'WORD',
+      });
+
+      const extracted = extractAudioFrames(result.buffer);
+      expect(result.timestampInfo?.wordAlignment).toEqual({
+        words: ['one', 'two', 'three', 'four'],
+        wordStartTimeSeconds: [0, 0.5, 1, 1.5],
+        wordEndTimeSeconds: [0.5, 1, 1.5, 2],
+      });
+      expect(extracted.duration).toBeGreaterThanOrEqual(2);
+      expect(extracted.duration).toBeLessThan(2.05);
+    });
+
+    it('should return character alignment or none depending on the timestamp type', async () => {
+      const provider = createSilentTTSProvider();
+
+      const chars = await provider.synthesize({ text: 'ab', voiceId: 's', modelId: 's', timestampType: 'CHARACTER' });
+      const none = await provider.synthesize({ text: 'ab', voiceId: 's', modelId: 's' });
+
+      expect(chars.timestampInfo?.characterAlignment?.characters).toEqual(['a', 'b']);
+      expect(none.timestampInfo).toBeUndefined();
+    });
+  });
+
+  describe('resolveTTSProvider', () => {
+    it('should prefer an explicit provider, then fall back to the configured default', () => {
+      const custom = createSilentTTSProvider();
+
+      expect(resolveTTSProvider({ provider: custom })).toBe(custom);
+      expect(resolveTTSProvider({ provider: 'silent' }).id).toBe('silent');
+      expect(resolveTTSProvider({ apiKey: 'key', locale: 'xx' }).id).toBe(TTS_CONFIG.DEFAULT_PROVIDER);
+      expect(() => resolveTTSProvider({ provider: 'acme' as any })).toThrow('Unknown TTS provider');
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Article Idea Unit Tests
+ *
+ * Tests duplicate detection, idea generation and the batch runner against a
+ * mocked Strapi instance (the model and the job queue are stubbed).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildIdeaPrompt,
+  findDuplicateTitle,
+  generateArticleIdeas,
+  titleSimilarity,
+  ArticleIdeaError,
+  type ArticleIdeaProposal,
+} from '../../../src/api/article-generator/services/article-idea-generator';
+import {
+  buildIdeaGenerationRequest,
+  runPendingArticleIdeas,
+} from '../../../src/api/article-generator/services/article-idea-runner';
+import { generateRequestSchema } from '../../../src/api/article-generator/services/article-generation-runner';
+import type { ArticleIdeaDocument } from '../../../src/api/article-generator/types';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createIdea(overrides: Partial<ArticleIdeaDocument> = {}): ArticleIdeaDocument {
+  return {
+    id: 1,
+    documentId: 'idea-1',
+    title: 'How to Beat Margit',
+    description: 'Boss strategy for Margit, the Fell Omen',
+    categorySlug: 'guides',
+    instruction: 'Write a boss guide for Margit aimed at new players.',
+    done: false,
+    game: { documentId: 'game-1' },
+    ...overrides,
+  };
+}
+
+function proposal(overrides: Partial<ArticleIdeaProposal> = {}): ArticleIdeaProposal {
+  return {
+    title: 'Best Early Game Weapons in Elden Ring',
+    description: 'Weapons worth picking up in the first hours.',
+    categorySlug: 'lists',
+    instruction: 'Rank the best weapons available before Stormveil Castle.',
+    ...overrides,
+  };
+}
+
+function createMockStrapi(options: { game?: unknown; ideas?: ArticleIdeaDocument[] } = {}) {
+  const gameService = {
+    findOne: vi.fn().mockResolvedValue(
+      options.game === undefined
+        ? { documentId: 'game-1', name: 'Elden Ring', releaseDate: '2022-02-25', description: null, genres: [{ name: 'RPG' }] }
+        : options.game
+    ),
+  };
+  const postService = {
+    findMany: vi.fn().mockResolvedValue([{ title: 'Elden Ring Beginner Guide: First 10 Hours' }]),
+  };
+  const ideaService = {
+    findMany: vi.fn().mockResolvedValue(options.ideas ?? [{ title: 'How to Beat Margit' }]),
+    create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ documentId: `idea-${String(data.title)}`, ...data })),
+  };
+  const sourceService = {
+    findMany: vi.fn().mockResolvedValue([{ title: 'Patch 1.10 notes', summary: 'Margit health reduced' }]),
+  };
+
+  const services: Record<string, unknown> = {
+    'api::game.game': gameService,
+    'api::post.post': postService,
+    'api::article-idea.article-idea': ideaService,
+    'api::source-content.source-content': sourceService,
+  };
+
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, ideaService, sourceService };
+}
+
+// ============================================================================
+// Duplicate detection
+// ============================================================================
+
+describe('titleSimilarity / findDuplicateTitle', () => {
+  it('should treat reworded titles as duplicates', () => {
+    expect(titleSimilarity('How to Beat Margit', 'Margit Boss Guide: How to Beat Margit')).toBe(1);
+    expect(findDuplicateTitle('Beating Margit: Boss Guide', ['Margit Boss Guide'])).toBe('Margit Boss Guide');
+  });
+
+  it('should keep different topics apart', () => {
+    expect(findDuplicateTitle('Best Early Game Weapons', ['How to Beat Margit', 'Elden Ring Beginner Guide'])).toBeUndefined();
+    expect(findDuplicateTitle('How to Beat Godrick', ['How to Beat Margit'])).toBeUndefined();
+  });
+
+  it('should ignore the game name when comparing', () => {
+    expect(titleSimilarity('Elden Ring Weapons Tier List', 'Elden Ring Talismans Tier List')).toBe(0.8);
+    expect(titleSimilarity('Elden Ring Weapons Tier List', 'Elden Ring Talismans Tier List', 'Elden Ring')).toBe(2 / 3);
+    expect(findDuplicateTitle('Elden Ring Boss Order', ['Elden Ring Beginner Guide'], 'Elden Ring')).toBeUndefined();
+  });
+});
+
+describe('buildIdeaPrompt', () => {
+  it('should list existing titles, cached research and allowed categories', () => {
+    const prompt = buildIdeaPrompt(
+      {
+        game: { name: 'Elden Ring', releaseDate: null, description: null, genres: [], platforms: [], developer: null },
+        existingTitles: ['How to Beat Margit'],
+        sources: [{ title: 'Patch 1.10 notes', summary: 'Margit health reduced' }],
+      },
+      3,
+      ['guides', 'news']
+    );
+
+    expect(prompt).toContain('Propose 3 new article ideas for Elden Ring');
+    expect(prompt).toContain('- How to Beat Margit');
+    expect(prompt).toContain('- Patch 1.10 notes: Margit health reduced');
+    expect(prompt).toContain('one of: guides, news');
+  });
+});
+
+// ============================================================================
+// generateArticleIdeas
+// ============================================================================
+
+describe('generateArticleIdeas', () => {
+  it('should store non-duplicate proposals linked to the game', async () => {
+    const { strapi, ideaService } = createMockStrapi();
+    const propose = vi.fn().mockResolvedValue([
+      proposal(),
+      proposal({ title: 'Margit Boss Guide: How to Beat Margit', categorySlug: 'guides' }),
+      proposal({ title: 'Top Early Game Weapons Elden Ring' }),
+    ]);
+
+    const result = await generateArticleIdeas(strapi, { gameDocumentId: 'game-1' }, { propose });
+
+    expect(result.created).toHaveLength(1);
+    expect(ideaService.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: 'Best Early Game Weapons in Elden Ring',
+        categorySlug: 'lists',
+        done: false,
+        game: { connect: ['game-1'] },
+      }),
+    });
+    expect(result.skipped.map((s) => s.duplicateOf)).toEqual([
+      'How to Beat Margit',
+      'Best Early Game Weapons in Elden Ring',
+    ]);
+    expect(propose.mock.calls[0][0]).toContain('Elden Ring Beginner Guide: First 10 Hours');
+  });
+
+  it('should respect the requested count and categories', async () => {
+    const { strapi, ideaService } = createMockStrapi({ ideas: [] });
+    const propose = vi.fn().mockResolvedValue([
+      proposal({ title: 'Patch 1.10 Nerfs Margit', categorySlug: 'news' }),
+      proposal({ title: 'Godrick the Grafted Strategy', categorySlug: 'guides' }),
+      proposal({ title: 'Rennala Boss Strategy Explained', categorySlug: 'guides' }),
+    ]);
+
+    await generateArticleIdeas(strapi, { gameDocumentId: 'game-1', count: 1, categories: ['guides'] }, { propose });
+
+    expect(ideaService.create).toHaveBeenCalledTimes(1);
+    expect(ideaService.create.mock.calls[0][0].data.title).toBe('Godrick the Grafted Strategy');
+  });
+
+  it('should throw GAME_NOT_FOUND for unknown games', async () => {
+    const { strapi } = createMockStrapi({ game: null });
+
+    await expect(
+      generateArticleIdeas(strapi, { gameDocumentId: 'missing' }, { propose: vi.fn() })
+    ).rejects.toBeInstanceOf(ArticleIdeaError);
+  });
+});
+
+// ============================================================================
+// Batch runner
+// ============================================================================
+
+describe('runPendingArticleIdeas', () => {
+  let queue: { enqueue: ReturnType<typeof vi.fn>; list: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    queue = {
+      enqueue: vi.fn(async () => ({ documentId: `job-${queue.enqueue.mock.calls.length}` })),
+      list: vi.fn().mockResolvedValue([]),
+    };
+  });
+
+  it('should queue a generation job per pending idea with its instruction and category', async () => {
+    const ideas = [createIdea(), createIdea({ documentId: 'idea-2', title: 'Best Talismans', categorySlug: 'lists' })];
+    const { strapi, ideaService } = createMockStrapi({ ideas });
+
+    const result = await runPendingArticleIdeas(strapi, { limit: 2, publish: true }, { queue: queue as any });
+
+    expect(ideaService.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      filters: { done: false },
+      sort: ['createdAt:asc'],
+    }));
+    expect(queue.enqueue).toHaveBeenCalledWith({
+      gameDocumentId: 'game-1',
+      instruction: 'Write a boss guide for Margit aimed at new players.',
+      categorySlug: 'guides',
+      articleIdeaDocumentId: 'idea-1',
+      publish: true,
+    });
+    expect(result.queued.map((q) => [q.idea.documentId, q.job.documentId])).toEqual([
+      ['idea-1', 'job-1'],
+      ['idea-2', 'job-2'],
+    ]);
+  });
+
+  it('should skip ideas that already have an active job', async () => {
+    queue.list.mockImplementation(async ({ status }: { status: string }) =>
+      status === 'running' ? [{ request: { articleIdeaDocumentId: 'idea-1' } }] : []
+    );
+    const { strapi } = createMockStrapi({ ideas: [createIdea()] });
+
+    const result = await runPendingArticleIdeas(strapi, {}, { queue: queue as any });
+
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(result.skipped).toEqual([
+      { idea: { documentId: 'idea-1', title: 'How to Beat Margit' }, reason: expect.stringContaining('already queued') },
+    ]);
+  });
+
+  it('should produce requests the generation endpoint accepts', () => {
+    const request = buildIdeaGenerationRequest(createIdea({ instruction: null }), 'game-1');
+
+    expect(request.instruction).toBe('How to Beat Margit - Boss strategy for Margit, the Fell Omen');
+    expect(generateRequestSchema.safeParse(request).success).toBe(true);
+  });
+});
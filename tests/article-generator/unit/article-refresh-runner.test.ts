@@ -0,0 +1,188 @@
+/**
+ * Article Refresh Runner Unit Tests
+ *
+ * Tests loading the stored plan, saving draft revisions and error mapping
+ * against a mocked Strapi instance with the refresh pipeline stubbed out.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import { runArticleRefresh } from '../../../src/api/article-generator/services/article-refresh-runner';
+import { ArticleGenerationRequestError } from '../../../src/api/article-generator/services/article-generation-runner';
+import type { ArticleRefreshResult } from '../../../src/ai/articles/refresh-article';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createPost(overrides: Record<string, unknown> = {}) {
+  return {
+    documentId: 'post-1',
+    content: '# Guide\n\n## Margit\n\nOld text.\n',
+    aiGeneratedAt: '2026-01-01T00:00:00.000Z',
+    plan: {
+      title: 'Guide',
+      gameName: 'Elden Ring',
+      categorySlug: 'guides',
+      sections: [{ headline: 'Margit', goal: 'Beat Margit', researchQueries: [], mustCover: [] }],
+      requiredElements: [],
+    },
+    sources: { count: 1, uniqueDomains: 1, topDomains: ['old.com'], domainBreakdown: { 'old.com': 1 }, urls: ['https://old.com/a'] },
+    revisions: null,
+    games: [{ documentId: 'game-1' }],
+    ...overrides,
+  };
+}
+
+function createRefreshResult(overrides: Partial<ArticleRefreshResult> = {}): ArticleRefreshResult {
+  return {
+    markdown: '# Guide\n\n## Margit\n\nNew text.\n',
+    changed: true,
+    changelog: [{ section: 'Margit', action: 'regenerated', reason: 'Patch 1.10', severity: 'major' }],
+    since: '2026-01-01T00:00:00.000Z',
+    sources: ['https://new.com/patch'],
+    citations: { sources: [], claims: [], unresolvedIds: [] },
+    models: { scout: 'scout-model', reviewer: 'reviewer-model', fixer: 'fixer-model' },
+    tokenUsage: {
+      scout: { input: 1, output: 1, actualCostUsd: 0.01 },
+      reviewer: { input: 1, output: 1, actualCostUsd: 0.02 },
+      fixer: { input: 1, output: 1 },
+    },
+    durationMs: 1200,
+    ...overrides,
+  };
+}
+
+function createMockStrapi(post: Record<string, unknown> | null) {
+  const postService = {
+    findOne: vi.fn().mockResolvedValue(post),
+    update: vi.fn().mockResolvedValue({}),
+  };
+  const gameService = {
+    findOne: vi.fn().mockResolvedValue({
+      documentId: 'game-1',
+      name: 'Elden Ring',
+      slug: 'elden-ring',
+      releaseDate: '2022-02-25',
+      description: null,
+      genres: [{ name: 'RPG' }],
+      platforms: [],
+    }),
+  };
+  const sourceContentService = {
+    findMany: vi.fn().mockResolvedValue([{ documentId: 'source-1', url: 'https://new.com/patch' }]),
+  };
+  const services: Record<string, unknown> = {
+    'api::post.post': postService,
+    'api::game.game': gameService,
+    'api::source-content.source-content': sourceContentService,
+  };
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, postService, gameService };
+}
+
+// ============================================================================
+// runArticleRefresh
+// ============================================================================
+
+describe('runArticleRefresh', () => {
+  let refresh: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    refresh = vi.fn().mockResolvedValue(createRefreshResult());
+  });
+
+  it('should refresh from the stored plan and save a draft revision', async () => {
+    const { strapi, postService } = createMockStrapi(createPost());
+
+    const result = await runArticleRefresh(strapi, 'post-1', { instruction: 'Patch 1.10' }, { refresh });
+
+    const [input] = refresh.mock.calls[0];
+    expect(input.since).toBe('2026-01-01T00:00:00.000Z');
+    expect(input.plan.categorySlug).toBe('guides');
+    expect(input.plan.sections[0].headline).toBe('Margit');
+    expect(input.context.genres).toEqual(['RPG']);
+    expect(input.context.instruction).toBe('Patch 1.10');
+
+    const update = postService.update.mock.calls[0][0];
+    expect(update.locale).toBe('en');
+    expect(update.status).toBeUndefined();
+    expect(update.data.content).toContain('New text.');
+    expect(update.data.sources.urls).toEqual(['https://old.com/a', 'https://new.com/patch']);
+    expect(update.data.revisions).toEqual([result.revision]);
+    expect(result.revision.changelog).toEqual([
+      { section: 'Margit', action: 'regenerated', reason: 'Patch 1.10', severity: 'major' },
+    ]);
+    expect(result.revision.totalCostUsd).toBeCloseTo(0.03);
+  });
+
+  it('should start the window at the latest revision', async () => {
+    const previous = { refreshedAt: '2026-02-01T00:00:00.000Z', changelog: [] };
+    const { strapi } = createMockStrapi(createPost({ revisions: [previous] }));
+
+    await runArticleRefresh(strapi, 'post-1', {}, { refresh });
+
+    expect(refresh.mock.calls[0][0].since).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('should pass stored citation sources and save the new claim-to-source map', async () => {
+    const oldSource = { id: 'src-00000000', url: 'https://old.com/a', title: 'Old' };
+    const newSource = { id: 'src-11111111', url: 'https://new.com/patch', title: 'Patch notes' };
+    refresh.mockResolvedValue(
+      createRefreshResult({
+        citations: {
+          sources: [oldSource, newSource],
+          claims: [{ section: 'Margit', text: 'Patch 1.10 nerfed Margit.', sourceIds: ['src-11111111'] }],
+          unresolvedIds: [],
+        },
+      })
+    );
+    const { strapi, postService } = createMockStrapi(
+      createPost({ citations: { sources: [oldSource], claims: [], unresolvedIds: [] } })
+    );
+
+    await runArticleRefresh(strapi, 'post-1', {}, { refresh });
+
+    expect(refresh.mock.calls[0][0].citationSources).toEqual([oldSource]);
+    const update = postService.update.mock.calls[0][0];
+    expect(update.data.citations.sources).toEqual([
+      oldSource,
+      { ...newSource, sourceContentDocumentId: 'source-1' },
+    ]);
+    expect(update.data.citations.claims).toHaveLength(1);
+  });
+
+  it('should record a revision without touching content when nothing changed', async () => {
+    refresh.mockResolvedValue(createRefreshResult({ changed: false, changelog: [], markdown: 'ignored' }));
+    const { strapi, postService } = createMockStrapi(createPost());
+
+    const result = await runArticleRefresh(strapi, 'post-1', {}, { refresh });
+
+    const update = postService.update.mock.calls[0][0];
+    expect(update.data).toEqual({ revisions: [result.revision] });
+    expect(result.revision.changed).toBe(false);
+  });
+
+  it('should reject posts without a stored plan', async () => {
+    const { strapi } = createMockStrapi(createPost({ plan: null }));
+
+    await expect(runArticleRefresh(strapi, 'post-1', {}, { refresh })).rejects.toMatchObject({
+      code: 'NOT_REFRESHABLE',
+    });
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('should report missing posts', async () => {
+    const { strapi } = createMockStrapi(null);
+
+    const error = await runArticleRefresh(strapi, 'missing', {}, { refresh }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ArticleGenerationRequestError);
+    expect(error.code).toBe('POST_NOT_FOUND');
+  });
+});
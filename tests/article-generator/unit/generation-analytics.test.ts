@@ -0,0 +1,279 @@
+/**
+ * Generation Analytics Unit Tests
+ *
+ * Tests flattening of stored post costs, aggregation by model/phase/group,
+ * search and quality metrics, CSV export and batched loading against a
+ * mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  analyticsExportQuerySchema,
+  analyticsQuerySchema,
+  buildAnalyticsCsv,
+  loadAnalyticsRows,
+  summarizeGenerationAnalytics,
+  toAnalyticsPostRow,
+  toCsv,
+} from '../../../src/api/article-generator/services/generation-analytics';
+import { extractStoredCosts } from '../../../src/api/article-generator/utils/shared-helpers';
+import type { StoredCosts } from '../../../src/api/article-generator/types';
+import type { GameArticleDraft } from '../../../src/ai/articles/types';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createCosts(overrides: Partial<StoredCosts> = {}): StoredCosts {
+  return {
+    generationId: 'gen-1',
+    totalDurationMs: 60000,
+    totalCostUsd: 0.5,
+    phases: {
+      scout: { model: 'model/cheap', durationMs: 10000, tokens: { input: 1000, output: 100 }, costUsd: 0.05 },
+      editor: { model: 'model/smart', durationMs: 5000, tokens: { input: 2000, output: 500 }, costUsd: 0.1 },
+      specialist: { model: 'model/smart', durationMs: 30000, tokens: { input: 5000, output: 3000 }, costUsd: 0.2 },
+      reviewer: { model: 'model/cheap', durationMs: 8000, costUsd: 0.04 },
+      fixer: { model: 'model/cheap', durationMs: 7000 },
+    },
+    cleaner: { tokens: { input: 3000, output: 300 }, costUsd: 0.01 },
+    search: {
+      tavily: { queries: 10, estimatedCostUsd: 0.08, usefulSources: 16 },
+      exa: { queries: 4, costUsd: 0.02 },
+    },
+    research: { queriesExecuted: 14, sourcesCollected: 20, confidence: 'high' },
+    quality: {
+      fixerIterations: 2,
+      issuesFixed: 3,
+      finalApproved: true,
+      remainingIssues: 1,
+      fixerOutcome: {
+        operationsAttempted: 4,
+        operationsSucceeded: 3,
+        issuesBefore: { critical: 1, major: 2, minor: 2, total: 5 },
+        issuesAfter: { critical: 0, major: 0, minor: 1, total: 1 },
+        netChange: { critical: -1, major: -2, minor: -1, total: -4 },
+        reviewerApproved: true,
+      },
+    },
+    generatedAt: '2026-03-02T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function createPost(overrides: Record<string, unknown> = {}) {
+  return {
+    documentId: 'post-1',
+    title: 'Elden Ring Beginner Guide',
+    aiGeneratedAt: '2026-03-02T10:00:00.000Z',
+    aiWorkflow: 'deep-dive-v1',
+    aiModel: JSON.stringify({ scout: 'model/cheap', cleaner: 'model/cleaner' }),
+    costs: createCosts(),
+    plan: { categorySlug: 'guides', gameName: 'Elden Ring' },
+    category: { slug: 'guides' },
+    games: [{ slug: 'elden-ring', name: 'Elden Ring' }],
+    ...overrides,
+  };
+}
+
+const unreviewedCosts = createCosts({
+  totalCostUsd: 0.3,
+  totalDurationMs: 30000,
+  phases: {
+    scout: { model: 'model/cheap', durationMs: 20000, costUsd: 0.1 },
+    editor: { model: 'model/smart', durationMs: 5000 },
+    specialist: { model: 'model/smart', durationMs: 5000, costUsd: 0.2 },
+  },
+  cleaner: undefined,
+  search: { tavily: { queries: 5, estimatedCostUsd: 0.04 } },
+  quality: { fixerIterations: 0, issuesFixed: 0, finalApproved: true, remainingIssues: 0 },
+});
+
+function createRows() {
+  return [
+    toAnalyticsPostRow(createPost())!,
+    toAnalyticsPostRow(
+      createPost({
+        documentId: 'post-2',
+        title: 'Zelda News',
+        aiGeneratedAt: '2026-04-10T10:00:00.000Z',
+        costs: JSON.stringify(unreviewedCosts),
+        category: { slug: 'news' },
+        games: [{ slug: 'zelda', name: 'Zelda' }],
+      })
+    )!,
+  ];
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Generation Analytics', () => {
+  describe('toAnalyticsPostRow', () => {
+    it('should flatten stored costs, parsing JSON strings', () => {
+      const row = toAnalyticsPostRow(createPost({ costs: JSON.stringify(createCosts()) }))!;
+
+      expect(row).toMatchObject({
+        month: '2026-03',
+        categorySlug: 'guides',
+        gameSlug: 'elden-ring',
+        totalCostUsd: 0.5,
+        cleaner: { model: 'model/cleaner', costUsd: 0.01 },
+        search: { tavily: { queries: 10, usefulSources: 16 }, exa: { queries: 4, usefulSources: null } },
+        reviewed: true,
+        reviewerIssues: 5,
+        fixerOperationsAttempted: 4,
+      });
+      expect(row.phases.fixer).toEqual({ model: 'model/cheap', durationMs: 7000, costUsd: null, inputTokens: 0, outputTokens: 0 });
+    });
+
+    it('should skip posts without cost data and fall back to the plan', () => {
+      expect(toAnalyticsPostRow(createPost({ costs: null }))).toBeNull();
+      expect(toAnalyticsPostRow(createPost({ costs: '{broken' }))).toBeNull();
+
+      const row = toAnalyticsPostRow(createPost({ category: null, games: [], aiGeneratedAt: null }))!;
+      expect(row).toMatchObject({ categorySlug: 'guides', gameSlug: '(none)', gameName: 'Elden Ring', month: '2026-03' });
+    });
+  });
+
+  describe('summarizeGenerationAnalytics', () => {
+    it('should aggregate spend by model, phase and group', () => {
+      const analytics = summarizeGenerationAnalytics(createRows());
+
+      expect(analytics.totals).toEqual({ posts: 2, totalCostUsd: 0.8, avgCostUsd: 0.4, avgDurationMs: 45000, unpricedPosts: 0 });
+
+      const smart = analytics.byModel.find((m) => m.model === 'model/smart')!;
+      expect(smart).toMatchObject({ phases: ['editor', 'specialist'], runs: 4, unpricedRuns: 1 });
+      expect(smart.totalCostUsd).toBeCloseTo(0.5, 10);
+      expect(analytics.byModel.find((m) => m.model === 'model/cleaner')).toMatchObject({ phases: ['cleaner'], runs: 1 });
+
+      const scout = analytics.byPhase.find((p) => p.phase === 'scout')!;
+      expect(scout).toMatchObject({ runs: 2, avgDurationMs: 15000, maxDurationMs: 20000 });
+      expect(analytics.byPhase.find((p) => p.phase === 'reviewer')).toMatchObject({ runs: 1, avgCostUsd: 0.04 });
+
+      expect(analytics.byCategory.map((g) => g.key)).toEqual(['guides', 'news']);
+      expect(analytics.byGame[1]).toMatchObject({ key: 'zelda', label: 'Zelda', posts: 1 });
+      expect(analytics.byMonth.map((g) => g.key)).toEqual(['2026-03', '2026-04']);
+    });
+
+    it('should compute cost per useful source only over posts that recorded it', () => {
+      const [tavily, exa] = summarizeGenerationAnalytics(createRows()).search;
+
+      expect(tavily).toMatchObject({ posts: 2, queries: 15, usefulSources: 16, postsWithSourceCounts: 1 });
+      expect(tavily.totalCostUsd).toBeCloseTo(0.12, 10);
+      expect(tavily.costPerUsefulSourceUsd).toBeCloseTo(0.005, 10);
+      expect(exa).toMatchObject({ posts: 1, usefulSources: 0, costPerUsefulSourceUsd: null });
+    });
+
+    it('should summarize Reviewer and Fixer outcomes', () => {
+      const { reviewer, fixer } = summarizeGenerationAnalytics(createRows()).quality;
+
+      expect(reviewer).toEqual({ reviewedPosts: 1, avgInitialIssues: 5, avgRemainingIssues: 1, approvalRate: 1 });
+      expect(fixer).toMatchObject({
+        fixedPosts: 1,
+        avgIterations: 2,
+        operationsAttempted: 4,
+        operationsSucceeded: 3,
+        operationSuccessRate: 0.75,
+        avgIssuesAfter: { critical: 0, major: 0, minor: 1, total: 1 },
+      });
+    });
+  });
+
+  describe('CSV export', () => {
+    it('should escape quotes, separators and formula characters', () => {
+      expect(toCsv(['a', 'b'], [['Say "hi", then', '=SUM(A1)'], [-1, null]])).toBe(
+        'a,b\r\n"Say ""hi"", then",\'=SUM(A1)\r\n-1,\r\n'
+      );
+    });
+
+    it('should export one row per post or per group', () => {
+      const rows = createRows();
+
+      const posts = buildAnalyticsCsv(rows, 'posts').trim().split('\r\n');
+      expect(posts).toHaveLength(3);
+      expect(posts[0]).toContain('scout_model,scout_cost_usd,scout_duration_ms');
+      expect(posts[1]).toContain('post-1,Elden Ring Beginner Guide,2026-03-02T10:00:00.000Z,guides,elden-ring');
+
+      expect(buildAnalyticsCsv(rows, 'months')).toBe(
+        'key,label,posts,total_cost_usd,avg_cost_usd,avg_duration_ms\r\n2026-03,2026-03,1,0.5,0.5,60000\r\n2026-04,2026-04,1,0.3,0.3,30000\r\n'
+      );
+      expect(buildAnalyticsCsv(rows, 'search').split('\r\n')[1]).toMatch(/^tavily,2,15,/);
+    });
+  });
+
+  describe('query schemas', () => {
+    it('should validate date ranges and export views', () => {
+      expect(analyticsQuerySchema.safeParse({ from: '2026-03-01', to: '2026-03-31' }).success).toBe(true);
+      expect(analyticsQuerySchema.safeParse({ from: '2026-04-01', to: '2026-03-01' }).success).toBe(false);
+      expect(analyticsQuerySchema.safeParse({ from: 'March' }).success).toBe(false);
+      expect(analyticsExportQuerySchema.parse({}).view).toBe('posts');
+      expect(analyticsExportQuerySchema.safeParse({ view: 'authors' }).success).toBe(false);
+    });
+  });
+
+  describe('loadAnalyticsRows', () => {
+    it('should read EN draft rows in batches with the filters applied', async () => {
+      const firstBatch = Array.from({ length: 200 }, (_, i) => createPost({ documentId: `post-${i}` }));
+      const findMany = vi.fn().mockResolvedValueOnce(firstBatch).mockResolvedValueOnce([createPost({ costs: null })]);
+      const strapi = { db: { query: vi.fn().mockReturnValue({ findMany }) } } as unknown as Core.Strapi;
+
+      const rows = await loadAnalyticsRows(strapi, { from: '2026-03-01', gameSlug: 'elden-ring' });
+
+      expect(rows).toHaveLength(200);
+      expect(findMany).toHaveBeenCalledTimes(2);
+      expect(findMany.mock.calls[1][0]).toMatchObject({ offset: 200, limit: 200 });
+      expect(findMany.mock.calls[0][0].where).toEqual({
+        aiAssisted: true,
+        locale: 'en',
+        publishedAt: { $null: true },
+        aiGeneratedAt: { $gte: '2026-03-01T00:00:00.000Z' },
+        games: { slug: 'elden-ring' },
+      });
+    });
+  });
+
+  describe('extractStoredCosts', () => {
+    it('should store useful sources per engine and the Fixer outcome', () => {
+      const outcomeMetrics = {
+        operationsAttempted: 2,
+        operationsSucceeded: 1,
+        issuesBefore: { critical: 0, major: 1, minor: 1, total: 2 },
+        issuesAfter: { critical: 0, major: 0, minor: 1, total: 1 },
+        netChange: { critical: 0, major: -1, minor: 0, total: -1 },
+        reviewerApproved: true,
+        note: 'Issues may change between reviews.',
+      };
+      const draft = {
+        models: { scout: 'a', editor: 'b', specialist: 'c', metadata: 'd' },
+        reviewerIssues: [],
+        metadata: {
+          correlationId: 'gen-1',
+          generatedAt: '2026-03-02T10:00:00.000Z',
+          totalDurationMs: 1000,
+          phaseDurations: { scout: 1, editor: 1, specialist: 1, reviewer: 0, validation: 0 },
+          queriesExecuted: 3,
+          sourcesCollected: 5,
+          researchConfidence: 'high',
+          searchApiCosts: { totalUsd: 0.03, exaSearchCount: 1, tavilySearchCount: 2, exaCostUsd: 0.01, tavilyCostUsd: 0.02, tavilyCredits: 2 },
+          queryStats: [
+            { query: 'a', engine: 'tavily', phase: 'scout', received: 5, duplicates: 1, filtered: 1, used: 3 },
+            { query: 'b', engine: 'tavily', phase: 'specialist', received: 5, duplicates: 0, filtered: 4, used: 1 },
+            { query: 'c', engine: 'exa', phase: 'scout', received: 3, duplicates: 0, filtered: 1, used: 2 },
+          ],
+          recovery: { planRetries: 0, sectionRetries: {}, fixerIterations: 1, fixesApplied: [], outcomeMetrics },
+        },
+      } as unknown as GameArticleDraft;
+
+      const costs = extractStoredCosts(draft);
+
+      expect(costs.search?.tavily?.usefulSources).toBe(4);
+      expect(costs.search?.exa?.usefulSources).toBe(2);
+      expect(costs.quality.fixerOutcome).toEqual({ ...outcomeMetrics, note: undefined });
+      expect(costs.quality.fixerOutcome).not.toHaveProperty('note');
+    });
+  });
+});
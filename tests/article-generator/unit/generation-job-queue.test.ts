@@ -0,0 +1,345 @@
+/**
+ * Generation Job Queue Unit Tests
+ *
+ * Tests job lifecycle, event persistence, cancellation and restart recovery
+ * against an in-memory document service with an injected runner.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  GenerationJobQueue,
+  isTerminalJobEvent,
+  isTerminalJobStatus,
+} from '../../../src/api/article-generator/services/generation-job-queue';
+import type { ArticleGenerationRunResult } from '../../../src/api/article-generator/services/article-generation-runner';
+import { ArticleGenerationError } from '../../../src/ai/articles/types';
+import type { GenerationJobDocument, SSEEvent } from '../../../src/api/article-generator/types';
+import { waitFor } from '../../utils/strapi';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createJobStore() {
+  const jobs = new Map<string, GenerationJobDocument>();
+  let nextId = 1;
+
+  const service = {
+    create: vi.fn(async ({ data }: { data: Partial<GenerationJobDocument> }) => {
+      const id = nextId++;
+      const job = {
+        id,
+        documentId: `job-${id}`,
+        currentPhase: null,
+        errorCode: null,
+        errorMessage: null,
+        result: null,
+        startedAt: null,
+        finishedAt: null,
+        createdAt: new Date(2025, 0, 1, 0, 0, id).toISOString(),
+        ...data,
+      } as GenerationJobDocument;
+      jobs.set(job.documentId, job);
+      return { ...job };
+    }),
+    findOne: vi.fn(async ({ documentId }: { documentId: string }) => {
+      const job = jobs.get(documentId);
+      return job ? { ...job } : null;
+    }),
+    findMany: vi.fn(async (options: any = {}) => {
+      const statuses: string[] | undefined = options.filters?.status?.$in;
+      return [...jobs.values()]
+        .filter((job) => !statuses || statuses.includes(job.status))
+        .map((job) => ({ ...job }));
+    }),
+    update: vi.fn(async ({ documentId, data }: { documentId: string; data: Record<string, unknown> }) => {
+      const job = jobs.get(documentId);
+      if (!job) throw new Error(`Job ${documentId} not found`);
+      const { post: _post, ...fields } = data;
+      Object.assign(job, fields);
+      return { ...job };
+    }),
+  };
+
+  return { jobs, service };
+}
+
+function createMockStrapi(service: unknown): Core.Strapi {
+  return {
+    documents: vi.fn().mockReturnValue(service),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+}
+
+function createRunResult(): ArticleGenerationRunResult {
+  return {
+    post: { id: 7, documentId: 'post-7' },
+    draft: {
+      title: 'Elden Ring Beginner Guide',
+      categorySlug: 'guides',
+      excerpt: 'Excerpt',
+      description: 'Description',
+      markdown: '# Elden Ring',
+      sources: ['https://example.com'],
+      metadata: {
+        totalDurationMs: 1200,
+        totalEstimatedCostUsd: 0.42,
+        sourcesCollected: 1,
+        researchConfidence: 'high',
+      },
+    } as any,
+    game: { documentId: 'game-1', name: 'Elden Ring', slug: 'elden-ring' },
+    author: { documentId: 'author-1', name: 'Author' },
+    published: false,
+  };
+}
+
+function progressEvent(progress: number): SSEEvent {
+  return { type: 'progress', phase: 'scout', progress, timestamp: new Date().toISOString() };
+}
+
+/** A runner that stays in flight until released or aborted */
+function createControllableRun() {
+  let release: () => void = () => {};
+  const run = vi.fn(async (_strapi: unknown, _request: unknown, options: any) => {
+    options.onEvent?.(progressEvent(10));
+    await new Promise<void>((resolve, reject) => {
+      release = resolve;
+      options.signal?.addEventListener('abort', () =>
+        reject(new ArticleGenerationError('CANCELLED', 'Article generation was cancelled'))
+      );
+    });
+    return createRunResult();
+  });
+  return { run, release: () => release() };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Generation Job Queue', () => {
+  let store: ReturnType<typeof createJobStore>;
+  let strapi: Core.Strapi;
+
+  beforeEach(() => {
+    store = createJobStore();
+    strapi = createMockStrapi(store.service);
+  });
+
+  describe('status helpers', () => {
+    it('should treat completed, failed and cancelled as terminal', () => {
+      expect(isTerminalJobStatus('completed')).toBe(true);
+      expect(isTerminalJobStatus('failed')).toBe(true);
+      expect(isTerminalJobStatus('cancelled')).toBe(true);
+      expect(isTerminalJobStatus('queued')).toBe(false);
+      expect(isTerminalJobStatus('running')).toBe(false);
+    });
+
+    it('should treat complete and error events as terminal', () => {
+      expect(isTerminalJobEvent({ type: 'error', code: 'X', message: 'x', timestamp: '' })).toBe(true);
+      expect(isTerminalJobEvent(progressEvent(50))).toBe(false);
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should persist a queued job and return before the run finishes', async () => {
+      const { run, release } = createControllableRun();
+      const queue = new GenerationJobQueue(strapi, { run });
+
+      const job = await queue.enqueue({ gameQuery: 'Elden Ring' });
+
+      expect(job.status).toBe('queued');
+      expect(job.events?.[0].type).toBe('queued');
+      expect(job.maxAttempts).toBe(2);
+
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'running');
+      release();
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'completed');
+    });
+
+    it('should persist progress events and the completion result', async () => {
+      const run = vi.fn(async (_strapi: unknown, _request: unknown, options: any) => {
+        options.onEvent?.({ type: 'start', game: { documentId: 'game-1', name: 'Elden Ring', slug: 'elden-ring' }, timestamp: '' });
+        options.onEvent?.(progressEvent(40));
+        return createRunResult();
+      });
+      const queue = new GenerationJobQueue(strapi, { run });
+
+      const job = await queue.enqueue({ gameQuery: 'Elden Ring', publish: true });
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'completed');
+
+      const stored = store.jobs.get(job.documentId)!;
+      expect(stored.events?.map((e) => e.type)).toEqual(['queued', 'start', 'progress', 'complete']);
+      expect(stored.currentPhase).toBe('scout');
+      expect(stored.progress).toBe(100);
+      expect(stored.attempts).toBe(1);
+      expect(stored.result?.post.documentId).toBe('post-7');
+      expect(stored.result?.totalCostUsd).toBe(0.42);
+      expect(stored.finishedAt).toBeTruthy();
+      expect(run).toHaveBeenCalledWith(
+        strapi,
+        { gameQuery: 'Elden Ring', publish: true },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it('should mark the job failed with the error code when the run throws', async () => {
+      const run = vi.fn().mockRejectedValue(new ArticleGenerationError('SCOUT_FAILED', 'Search failed'));
+      const queue = new GenerationJobQueue(strapi, { run });
+
+      const job = await queue.enqueue({ igdbId: 119133 });
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'failed');
+
+      const stored = store.jobs.get(job.documentId)!;
+      expect(stored.errorCode).toBe('SCOUT_FAILED');
+      expect(stored.errorMessage).toBe('Search failed');
+      expect(stored.events?.at(-1)).toMatchObject({ type: 'error', code: 'SCOUT_FAILED' });
+    });
+
+    it('should run jobs one at a time by default', async () => {
+      const { run, release } = createControllableRun();
+      const queue = new GenerationJobQueue(strapi, { run });
+
+      const first = await queue.enqueue({ gameQuery: 'First' });
+      const second = await queue.enqueue({ gameQuery: 'Second' });
+
+      await waitFor(() => store.jobs.get(first.documentId)?.status === 'running');
+      expect(store.jobs.get(second.documentId)?.status).toBe('queued');
+      expect(queue.isActive(second.documentId)).toBe(true);
+
+      release();
+      await waitFor(() => store.jobs.get(second.documentId)?.status === 'running');
+      release();
+      await waitFor(() => store.jobs.get(second.documentId)?.status === 'completed');
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should deliver live events with their stored index', async () => {
+      const { run, release } = createControllableRun();
+      const queue = new GenerationJobQueue(strapi, { run });
+      const received: Array<{ type: string; index: number }> = [];
+
+      const job = await queue.enqueue({ gameQuery: 'Elden Ring' });
+      const unsubscribe = queue.subscribe(job.documentId, (event, index) => {
+        received.push({ type: event.type, index });
+      });
+
+      await waitFor(() => received.length === 1);
+      release();
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'completed');
+      unsubscribe();
+
+      expect(received).toEqual([
+        { type: 'progress', index: 1 },
+        { type: 'complete', index: 2 },
+      ]);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should abort a running job and mark it cancelled', async () => {
+      const { run } = createControllableRun();
+      const queue = new GenerationJobQueue(strapi, { run });
+
+      const job = await queue.enqueue({ gameQuery: 'Elden Ring' });
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'running');
+
+      await queue.cancel(job.documentId);
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'cancelled');
+
+      const stored = store.jobs.get(job.documentId)!;
+      expect(stored.errorCode).toBe('CANCELLED');
+      expect(queue.isActive(job.documentId)).toBe(false);
+    });
+
+    it('should cancel a queued job without running it', async () => {
+      const { run, release } = createControllableRun();
+      const queue = new GenerationJobQueue(strapi, { run });
+
+      const first = await queue.enqueue({ gameQuery: 'First' });
+      const second = await queue.enqueue({ gameQuery: 'Second' });
+
+      const cancelled = await queue.cancel(second.documentId);
+      expect(cancelled?.status).toBe('cancelled');
+
+      release();
+      await waitFor(() => store.jobs.get(first.documentId)?.status === 'completed');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null for unknown jobs and leave finished jobs unchanged', async () => {
+      const queue = new GenerationJobQueue(strapi, { run: vi.fn().mockResolvedValue(createRunResult()) });
+
+      expect(await queue.cancel('missing')).toBeNull();
+
+      const job = await queue.enqueue({ gameQuery: 'Elden Ring' });
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'completed');
+
+      const result = await queue.cancel(job.documentId);
+      expect(result?.status).toBe('completed');
+    });
+  });
+
+  describe('recover', () => {
+    async function seedJob(data: Partial<GenerationJobDocument>) {
+      return store.service.create({
+        data: { status: 'queued', request: { gameQuery: 'Elden Ring' }, events: [], attempts: 0, maxAttempts: 2, ...data },
+      });
+    }
+
+    it('should re-queue interrupted jobs that have attempts left', async () => {
+      const run = vi.fn().mockResolvedValue(createRunResult());
+      const queue = new GenerationJobQueue(strapi, { run });
+      const job = await seedJob({ status: 'running', attempts: 1 });
+
+      const result = await queue.recover();
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'completed');
+      expect(store.jobs.get(job.documentId)?.attempts).toBe(2);
+    });
+
+    it('should mark interrupted jobs failed once out of attempts', async () => {
+      const run = vi.fn();
+      const queue = new GenerationJobQueue(strapi, { run });
+      const job = await seedJob({ status: 'running', attempts: 2 });
+
+      const result = await queue.recover();
+
+      expect(result).toEqual({ requeued: 0, failed: 1 });
+      expect(store.jobs.get(job.documentId)?.status).toBe('failed');
+      expect(store.jobs.get(job.documentId)?.errorCode).toBe('INTERRUPTED');
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should resume queued jobs and ignore finished ones', async () => {
+      const run = vi.fn().mockResolvedValue(createRunResult());
+      const queue = new GenerationJobQueue(strapi, { run });
+      const queued = await seedJob({ status: 'queued' });
+      await seedJob({ status: 'completed' });
+
+      const result = await queue.recover();
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      await waitFor(() => store.jobs.get(queued.documentId)?.status === 'completed');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail jobs whose stored request is invalid', async () => {
+      const run = vi.fn();
+      const queue = new GenerationJobQueue(strapi, { run });
+      const job = await seedJob({ request: {} });
+
+      await queue.recover();
+      await waitFor(() => store.jobs.get(job.documentId)?.status === 'failed');
+
+      expect(store.jobs.get(job.documentId)?.errorCode).toBe('BAD_REQUEST');
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+});
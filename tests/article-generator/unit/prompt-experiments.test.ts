@@ -0,0 +1,240 @@
+/**
+ * Prompt Experiments Unit Tests
+ *
+ * Tests arm validation, deterministic weighted assignment, experiment
+ * selection and the per-arm report against a mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  assignExperimentArm,
+  getPromptExperimentReport,
+  selectActivePromptExperiment,
+  summarizePromptExperiment,
+  validatePromptExperimentArms,
+} from '../../../src/api/article-generator/services/prompt-experiments';
+import { toAnalyticsPostRow } from '../../../src/api/article-generator/services/generation-analytics';
+import type { PromptExperimentArm, PromptExperimentDocument, StoredCosts } from '../../../src/api/article-generator/types';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const ARMS: PromptExperimentArm[] = [
+  { name: 'control', weight: 1, promptVersions: {} },
+  { name: 'lead-first', weight: 1, promptVersions: { specialist: 'v2' } },
+];
+
+function createExperiment(overrides: Partial<PromptExperimentDocument> = {}): PromptExperimentDocument {
+  return {
+    id: 1,
+    documentId: 'exp-1',
+    name: 'Lead-first sections',
+    slug: 'lead-first',
+    description: null,
+    active: true,
+    categorySlug: null,
+    arms: ARMS,
+    ...overrides,
+  };
+}
+
+function createCosts(totalCostUsd: number, reviewerIssues: number, validationWarnings?: number): StoredCosts {
+  return {
+    generationId: 'gen',
+    totalDurationMs: 1000,
+    totalCostUsd,
+    phases: {
+      scout: { model: 'm', durationMs: 1 },
+      editor: { model: 'm', durationMs: 1 },
+      specialist: { model: 'm', durationMs: 1 },
+      reviewer: { model: 'm', durationMs: 1 },
+    },
+    research: { queriesExecuted: 1, sourcesCollected: 1, confidence: 'high' },
+    quality: {
+      fixerIterations: 0,
+      issuesFixed: 0,
+      finalApproved: true,
+      remainingIssues: reviewerIssues,
+      ...(validationWarnings !== undefined && { validationWarnings }),
+    },
+    generatedAt: '2026-03-02T10:00:00.000Z',
+  };
+}
+
+function createPost(documentId: string, arm: string, costs: StoredCosts, slug = 'lead-first') {
+  return {
+    documentId,
+    title: documentId,
+    aiGeneratedAt: costs.generatedAt,
+    aiWorkflow: 'deep-dive-v1',
+    aiModel: null,
+    costs,
+    plan: null,
+    promptVersions: JSON.stringify({
+      versions: { editor: 'v1', specialist: arm === 'control' ? 'v1' : 'v2', reviewer: 'v1' },
+      experiment: { slug, arm },
+    }),
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Prompt Experiments', () => {
+  describe('validatePromptExperimentArms', () => {
+    it('should apply default weights', () => {
+      expect(
+        validatePromptExperimentArms([
+          { name: 'a', promptVersions: {} },
+          { name: 'b', weight: 3, promptVersions: { specialist: 'v2' } },
+        ])
+      ).toEqual([
+        { name: 'a', weight: 1, promptVersions: {} },
+        { name: 'b', weight: 3, promptVersions: { specialist: 'v2' } },
+      ]);
+    });
+
+    it('should reject fewer than two arms, duplicate names and bad weights', () => {
+      expect(() => validatePromptExperimentArms([ARMS[0]])).toThrow(/Invalid prompt experiment arms/);
+      expect(() => validatePromptExperimentArms([ARMS[0], ARMS[0]])).toThrow(/Arm names must be unique/);
+      expect(() => validatePromptExperimentArms([ARMS[0], { ...ARMS[1], weight: 0 }])).toThrow(/arms\.1\.weight/);
+    });
+
+    it('should reject unregistered prompt versions', () => {
+      expect(() =>
+        validatePromptExperimentArms([ARMS[0], { name: 'b', weight: 1, promptVersions: { editor: 'v2' } }], 'news')
+      ).toThrow(expect.objectContaining({ code: 'CONFIG_ERROR', message: expect.stringContaining('arm "b"') }));
+    });
+  });
+
+  describe('assignExperimentArm', () => {
+    it('should be deterministic per key', () => {
+      expect(assignExperimentArm(ARMS, 'lead-first:abc')).toBe(assignExperimentArm(ARMS, 'lead-first:abc'));
+    });
+
+    it('should split traffic by weight', () => {
+      const weighted = [
+        { ...ARMS[0], weight: 3 },
+        { ...ARMS[1], weight: 1 },
+      ];
+      const counts = { control: 0, 'lead-first': 0 };
+      for (let i = 0; i < 2000; i++) {
+        counts[assignExperimentArm(weighted, `key-${i}`).name as keyof typeof counts]++;
+      }
+
+      expect(counts.control / 2000).toBeGreaterThan(0.7);
+      expect(counts.control / 2000).toBeLessThan(0.8);
+    });
+  });
+
+  describe('selectActivePromptExperiment', () => {
+    it('should filter by category and skip experiments with invalid arms', async () => {
+      const findMany = vi.fn().mockResolvedValue([
+        createExperiment({ slug: 'broken', arms: [ARMS[0]] }),
+        createExperiment({ categorySlug: 'guides' }),
+      ]);
+      const warn = vi.fn();
+      const strapi = { documents: vi.fn().mockReturnValue({ findMany }), log: { warn } } as unknown as Core.Strapi;
+
+      const selected = await selectActivePromptExperiment(strapi, 'guides');
+
+      expect(selected?.experiment.slug).toBe('lead-first');
+      expect(selected?.arms).toEqual(ARMS);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping experiment "broken"'));
+      expect(findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filters: { active: true, $or: [{ categorySlug: { $null: true } }, { categorySlug: 'guides' }] },
+          sort: ['updatedAt:desc'],
+        })
+      );
+    });
+
+    it('should return undefined without an active experiment', async () => {
+      const strapi = {
+        documents: vi.fn().mockReturnValue({ findMany: vi.fn().mockResolvedValue([]) }),
+      } as unknown as Core.Strapi;
+
+      await expect(selectActivePromptExperiment(strapi)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('summarizePromptExperiment', () => {
+    it('should compare issues, warnings, cost and acceptance per arm', () => {
+      const rows = [
+        toAnalyticsPostRow(createPost('p1', 'control', createCosts(0.4, 4, 2)))!,
+        toAnalyticsPostRow(createPost('p2', 'control', createCosts(0.6, 2)))!,
+        toAnalyticsPostRow(createPost('p3', 'lead-first', createCosts(0.5, 1, 0)))!,
+      ];
+
+      const report = summarizePromptExperiment(createExperiment(), rows, new Set(['p1', 'p3']));
+
+      expect(report.arms).toEqual([
+        {
+          arm: 'control',
+          promptVersions: {},
+          posts: 2,
+          published: 1,
+          acceptanceRate: 0.5,
+          avgReviewerIssues: 3,
+          avgRemainingIssues: 3,
+          avgValidationWarnings: 2,
+          totalCostUsd: 1,
+          avgCostUsd: 0.5,
+        },
+        {
+          arm: 'lead-first',
+          promptVersions: { specialist: 'v2' },
+          posts: 1,
+          published: 1,
+          acceptanceRate: 1,
+          avgReviewerIssues: 1,
+          avgRemainingIssues: 1,
+          avgValidationWarnings: 0,
+          totalCostUsd: 0.5,
+          avgCostUsd: 0.5,
+        },
+      ]);
+    });
+  });
+
+  describe('getPromptExperimentReport', () => {
+    it('should return null for an unknown experiment', async () => {
+      const strapi = {
+        documents: vi.fn().mockReturnValue({ findMany: vi.fn().mockResolvedValue([]) }),
+      } as unknown as Core.Strapi;
+
+      await expect(getPromptExperimentReport(strapi, 'missing')).resolves.toBeNull();
+    });
+
+    it('should only include posts from the experiment and look up published rows', async () => {
+      const postFindMany = vi
+        .fn()
+        .mockResolvedValueOnce([
+          createPost('p1', 'control', createCosts(0.4, 4)),
+          createPost('p2', 'control', createCosts(0.4, 4), 'other-experiment'),
+          { ...createPost('p3', 'control', createCosts(0.4, 4)), promptVersions: null },
+        ])
+        .mockResolvedValueOnce([{ documentId: 'p1' }]);
+      const strapi = {
+        documents: vi.fn().mockReturnValue({ findMany: vi.fn().mockResolvedValue([createExperiment()]) }),
+        db: { query: vi.fn().mockReturnValue({ findMany: postFindMany }) },
+      } as unknown as Core.Strapi;
+
+      const report = await getPromptExperimentReport(strapi, 'lead-first');
+
+      expect(report?.arms.map((a) => [a.arm, a.posts, a.published])).toEqual([
+        ['control', 1, 1],
+        ['lead-first', 0, 0],
+      ]);
+      expect(postFindMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { documentId: { $in: ['p1'] }, locale: 'en', publishedAt: { $notNull: true } },
+        })
+      );
+    });
+  });
+});
@@ -106,7 +106,7 @@ describe('Collection Description Service', () => {
       expect(mockDeps.syncCollectionLocales).toHaveBeenCalledWith(
         mockStrapi,
         expect.objectContaining({
-          aiDescription: null,
+          aiDescriptions: {},
         })
       );
     });
@@ -140,7 +140,7 @@ describe('Collection Description Service', () => {
         expect.objectContaining({
           documentId: 'abc123',
           name: 'The Legend of Zelda: Complete Collection',
-          aiDescription: 'Esta colección reúne...',
+          aiDescriptions: { es: 'Esta colección reúne...' },
         })
       );
       expect(result.localesSynced).toHaveLength(1);
@@ -5,13 +5,14 @@
  * with mocked dependencies (no real AI calls or database).
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   generateCompanyDescriptionsAndSync,
   shouldProcessCompanyEvent,
   type CompanyEventData,
   type CompanyDescriptionDependencies,
 } from '../../../src/api/company/services/company-description';
+import { getConfiguredCompanyLocales, syncCompanyLocales } from '../../../src/api/company/locale-sync';
 import type { Core } from '@strapi/strapi';
 
 // Mock Knex query builder
@@ -31,8 +32,10 @@ function createMockKnex() {
 function createMockStrapi() {
   const mockUpdate = vi.fn().mockResolvedValue({ id: 1 });
   const mockPublish = vi.fn().mockResolvedValue({ id: 1 });
+  const mockFindOne = vi.fn().mockResolvedValue(null);
   // Create documents as a plain function that returns the service object
   const mockDocuments = vi.fn((uid: string) => ({
+    findOne: mockFindOne,
     update: mockUpdate,
     publish: mockPublish,
   }));
@@ -141,7 +144,7 @@ describe('Company Description Service', () => {
       expect(mockDeps.syncCompanyLocales).toHaveBeenCalledWith(
         mockStrapiSetup.strapi,
         expect.objectContaining({
-          aiDescription: null,
+          aiDescriptions: {},
         })
       );
     });
@@ -197,7 +200,7 @@ describe('Company Description Service', () => {
           documentId: 'test-doc-id',
           sourceId: 123,
           name: 'FromSoftware',
-          aiDescription: sampleDescriptions.es,
+          aiDescriptions: { es: sampleDescriptions.es },
           companyData: expect.objectContaining({
             slug: 'fromsoftware',
             country: 'Japan',
@@ -365,5 +368,45 @@ describe('Company Description Service', () => {
       });
     });
   });
-});
 
+  describe('with several content locales', () => {
+    const originalLocales = process.env.CONTENT_LOCALES;
+
+    beforeEach(() => {
+      process.env.CONTENT_LOCALES = 'es,fr';
+    });
+
+    afterEach(() => {
+      if (originalLocales === undefined) delete process.env.CONTENT_LOCALES;
+      else process.env.CONTENT_LOCALES = originalLocales;
+    });
+
+    it('should create every configured locale with its own description', async () => {
+      const { strapi, mockUpdate, mockPublish } = createMockStrapi();
+      const descriptions = { ...sampleDescriptions, fr: '**FromSoftware** est un développeur japonais...' };
+
+      const result = await generateCompanyDescriptionsAndSync(createMockKnex().knex as any, strapi, sampleCompany, {
+        isAIConfigured: () => true,
+        generateCompanyDescriptions: vi.fn().mockResolvedValue(descriptions),
+        syncCompanyLocales,
+        log: { info: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      });
+
+      expect(getConfiguredCompanyLocales()).toEqual(['es', 'fr']);
+      expect(result.localesSynced).toEqual([
+        { locale: 'es', success: true },
+        { locale: 'fr', success: true },
+      ]);
+      for (const locale of ['es', 'fr'] as const) {
+        expect(mockUpdate).toHaveBeenCalledWith(
+          expect.objectContaining({
+            documentId: 'test-doc-id',
+            locale,
+            data: expect.objectContaining({ name: 'FromSoftware', description: descriptions[locale] }),
+          })
+        );
+        expect(mockPublish).toHaveBeenCalledWith({ documentId: 'test-doc-id', locale });
+      }
+    });
+  });
+});
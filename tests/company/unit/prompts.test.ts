@@ -141,8 +141,8 @@ describe('Company Description Prompts', () => {
       );
     });
 
-    it('should mention both English and Spanish', () => {
-      expect(companyDescriptionsConfig.systemPrompt).toContain('English or Spanish');
+    it('should mention every supported language', () => {
+      expect(companyDescriptionsConfig.systemPrompt).toContain('English, Spanish, French, German or Portuguese');
     });
 
     it('should include SEO best practices', () => {
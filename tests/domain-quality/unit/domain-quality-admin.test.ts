@@ -0,0 +1,250 @@
+/**
+ * Domain Quality Admin Unit Tests
+ *
+ * Tests listing filters, override previews and saving/clearing overrides
+ * against a mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+vi.mock('../../../src/ai/articles/source-cache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/ai/articles/source-cache')>()),
+  updateDomainQuality: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { updateDomainQuality } from '../../../src/ai/articles/source-cache';
+import {
+  clearDomainQualityOverride,
+  domainListQuerySchema,
+  domainOverrideSchema,
+  listDomainQualities,
+  previewDomainQualityOverride,
+  setDomainQualityOverride,
+  toDomainQualitySummary,
+  DomainQualityAdminError,
+} from '../../../src/api/domain-quality/services/domain-quality-admin';
+import type { DomainQualityDocument } from '../../../src/types/strapi';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createDomain(overrides: Partial<DomainQualityDocument> = {}): DomainQualityDocument {
+  return {
+    id: 1,
+    documentId: 'dq-1',
+    domain: 'example-wiki.com',
+    avgQualityScore: 22,
+    avgRelevanceScore: 90,
+    totalSources: 6,
+    tier: 'poor',
+    isExcluded: true,
+    excludeReason: 'Low quality score (22.0 < 35)',
+    domainType: 'wiki',
+    tavilyAttempts: 10,
+    tavilyScrapeFailures: 8,
+    exaAttempts: 0,
+    exaScrapeFailures: 0,
+    isExcludedTavily: true,
+    isExcludedExa: false,
+    tavilyExcludeReason: 'Scrape failure rate 80%',
+    exaExcludeReason: null,
+    tierOverride: null,
+    exclusionOverride: null,
+    overrideReason: null,
+    overriddenAt: null,
+    scoreHistory: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-02T00:00:00.000Z',
+    publishedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  } as DomainQualityDocument;
+}
+
+const cachedSources = [
+  { documentId: 'src-1', url: 'https://example-wiki.com/a', title: 'A', qualityScore: 20, relevanceScore: 90, accessCount: 5, lastAccessedAt: null },
+  { documentId: 'src-2', url: 'https://example-wiki.com/b', title: 'B', qualityScore: 25, relevanceScore: 85, accessCount: 1, lastAccessedAt: null },
+];
+
+function createMockStrapi(domain: DomainQualityDocument | null = createDomain()) {
+  const domainService = {
+    findFirst: vi.fn().mockResolvedValue(domain),
+    findMany: vi.fn().mockResolvedValue(domain ? [domain] : []),
+    count: vi.fn().mockResolvedValue(domain ? 1 : 0),
+    update: vi.fn().mockResolvedValue({}),
+  };
+  const sourceService = {
+    findMany: vi.fn().mockResolvedValue(cachedSources),
+    count: vi.fn().mockResolvedValue(cachedSources.length),
+  };
+  const services: Record<string, unknown> = {
+    'api::domain-quality.domain-quality': domainService,
+    'api::source-content.source-content': sourceService,
+  };
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, domainService, sourceService };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Domain Quality Admin', () => {
+  beforeEach(() => {
+    vi.mocked(updateDomainQuality).mockClear();
+  });
+
+  describe('schemas', () => {
+    it('should parse list filters from query strings', () => {
+      expect(domainListQuerySchema.parse({ excluded: 'false', overridden: 'true', page: '2' })).toMatchObject({
+        excluded: false,
+        overridden: true,
+        page: 2,
+        pageSize: 25,
+        sort: 'totalSources',
+      });
+      expect(domainListQuerySchema.safeParse({ pageSize: '500' }).success).toBe(false);
+    });
+
+    it('should require at least one override', () => {
+      expect(domainOverrideSchema.safeParse({ reason: 'why' }).success).toBe(false);
+      expect(domainOverrideSchema.safeParse({ tierOverride: 'legendary' }).success).toBe(false);
+      expect(domainOverrideSchema.parse({ exclusionOverride: 'include' })).toEqual({
+        tierOverride: null,
+        exclusionOverride: 'include',
+        reason: null,
+      });
+    });
+  });
+
+  describe('toDomainQualitySummary', () => {
+    it('should compute failure rates and flag hardcoded exclusions', () => {
+      expect(toDomainQualitySummary(createDomain()).failureRates).toEqual({ tavily: 0.8, exa: null });
+      expect(toDomainQualitySummary(createDomain({ domain: 'youtube.com' })).staticallyExcluded).toBe(true);
+    });
+  });
+
+  describe('listDomainQualities', () => {
+    it('should translate filters and paginate', async () => {
+      const { strapi, domainService } = createMockStrapi();
+
+      const result = await listDomainQualities(
+        strapi,
+        domainListQuerySchema.parse({ search: 'wiki', overridden: 'true', page: '2', pageSize: '10' })
+      );
+
+      expect(domainService.findMany).toHaveBeenCalledWith({
+        filters: {
+          domain: { $containsi: 'wiki' },
+          $or: [{ tierOverride: { $notNull: true } }, { exclusionOverride: { $notNull: true } }],
+        },
+        sort: { totalSources: 'desc' },
+        start: 10,
+        limit: 10,
+      });
+      expect(result.pagination).toEqual({ page: 2, pageSize: 10, total: 1, pageCount: 1 });
+    });
+  });
+
+  describe('previewDomainQualityOverride', () => {
+    it('should list cached sources that start being served on a forced include', async () => {
+      const { strapi } = createMockStrapi();
+
+      const preview = await previewDomainQualityOverride(
+        strapi,
+        'www.Example-Wiki.com',
+        domainOverrideSchema.parse({ exclusionOverride: 'include', tierOverride: 'average' })
+      );
+
+      expect(preview).toMatchObject({
+        domain: 'example-wiki.com',
+        before: { tier: 'poor', isExcluded: true },
+        after: { tier: 'average', isExcluded: false },
+        cacheEffect: 'start-serving',
+        affectedSourceCount: 2,
+      });
+      expect(preview.affectedSources.map((s) => s.url)).toEqual(cachedSources.map((s) => s.url));
+    });
+
+    it('should start from the computed values, not the current override', async () => {
+      const { strapi } = createMockStrapi(
+        createDomain({
+          isExcluded: true,
+          exclusionOverride: 'exclude',
+          scoreHistory: [{ at: '2026-01-01T00:00:00.000Z', tier: 'good', isExcluded: false }],
+        })
+      );
+
+      const preview = await previewDomainQualityOverride(
+        strapi,
+        'example-wiki.com',
+        domainOverrideSchema.parse({ tierOverride: 'excellent' })
+      );
+
+      expect(preview.after).toEqual({ tier: 'excellent', isExcluded: false });
+      expect(preview.cacheEffect).toBe('start-serving');
+    });
+
+    it('should report no effect for hardcoded exclusions', async () => {
+      const { strapi, sourceService } = createMockStrapi(createDomain({ domain: 'youtube.com' }));
+
+      const preview = await previewDomainQualityOverride(
+        strapi,
+        'youtube.com',
+        domainOverrideSchema.parse({ exclusionOverride: 'include' })
+      );
+
+      expect(preview).toMatchObject({ staticallyExcluded: true, cacheEffect: 'none', affectedSourceCount: 0 });
+      expect(sourceService.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setDomainQualityOverride / clearDomainQualityOverride', () => {
+    it('should store the override and recompute the domain', async () => {
+      const { strapi, domainService } = createMockStrapi();
+
+      await setDomainQualityOverride(
+        strapi,
+        'example-wiki.com',
+        domainOverrideSchema.parse({ exclusionOverride: 'include', reason: 'Official wiki' })
+      );
+
+      expect(domainService.update).toHaveBeenCalledWith({
+        documentId: 'dq-1',
+        data: {
+          tierOverride: null,
+          exclusionOverride: 'include',
+          overrideReason: 'Official wiki',
+          overriddenAt: expect.any(String),
+        },
+      });
+      expect(updateDomainQuality).toHaveBeenCalledWith(strapi, 'example-wiki.com');
+    });
+
+    it('should clear every override column', async () => {
+      const { strapi, domainService } = createMockStrapi(createDomain({ tierOverride: 'good' }));
+
+      await clearDomainQualityOverride(strapi, 'example-wiki.com');
+
+      expect(domainService.update).toHaveBeenCalledWith({
+        documentId: 'dq-1',
+        data: { tierOverride: null, exclusionOverride: null, overrideReason: null, overriddenAt: null },
+      });
+      expect(updateDomainQuality).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw a 404 DomainQualityAdminError for unknown domains', async () => {
+      const { strapi } = createMockStrapi(null);
+
+      const error = await clearDomainQualityOverride(strapi, 'unknown.com').catch((e) => e);
+
+      expect(error).toBeInstanceOf(DomainQualityAdminError);
+      expect(error.status).toBe(404);
+    });
+  });
+});
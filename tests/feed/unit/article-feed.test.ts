@@ -0,0 +1,253 @@
+/**
+ * Article Feed and Sitemap Unit Tests
+ *
+ * Tests RSS/Atom rendering, sitemap pages with hreflang alternates and image
+ * entries, the sitemap index, and feed cache invalidation against a mocked
+ * Strapi instance.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import { ArticleFeedError, buildArticleFeed } from '../../../src/api/feed/services/article-feed';
+import {
+  changesPublishedFeedContent,
+  clearFeedCache,
+  getCachedFeed,
+  registerFeedCacheInvalidation,
+} from '../../../src/api/feed/services/feed-cache';
+import { buildSitemapIndex, buildSitemapPage, SITEMAP_CONFIG, SitemapError } from '../../../src/api/feed/services/sitemap';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createPost(overrides: Record<string, unknown> = {}) {
+  return {
+    documentId: 'post-1',
+    title: 'Zelda Guide: Tips & Tricks',
+    slug: 'zelda-guide',
+    excerpt: 'Everything you need <before> the first dungeon.',
+    publishedAt: '2026-03-01T10:00:00.000Z',
+    updatedAt: '2026-03-02T08:30:00.000Z',
+    featuredImage: { url: '/uploads/zelda.jpg', mime: 'image/jpeg' },
+    author: { name: 'Ana Pérez' },
+    category: { name: 'Guides' },
+    ...overrides,
+  };
+}
+
+/** Published entries per uid and locale */
+type Catalogue = Record<string, Record<string, Array<Record<string, unknown>>>>;
+
+function createMockStrapi(catalogue: Catalogue = {}) {
+  const service = (uid: string) => ({
+    findMany: vi.fn(
+      async (params: { locale: string; start?: number; filters?: { documentId?: { $in: string[] } } }) => {
+        const entries = (catalogue[uid]?.[params.locale] ?? []).slice(params.start ?? 0);
+        const ids = params.filters?.documentId?.$in;
+        return ids ? entries.filter((entry) => ids.includes(entry.documentId as string)) : entries;
+      }
+    ),
+    findFirst: vi.fn(async ({ filters }: { filters: { slug: string } }) =>
+      ['guides', 'zelda'].includes(filters.slug) ? { name: filters.slug.toUpperCase(), description: null } : null
+    ),
+    count: vi.fn(async ({ locale }: { locale: string }) => (catalogue[uid]?.[locale] ?? []).length),
+  });
+  const services = new Map<string, ReturnType<typeof service>>();
+
+  const strapi = {
+    documents: vi.fn((uid: string) => {
+      if (!services.has(uid)) services.set(uid, service(uid));
+      return services.get(uid);
+    }),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, service: (uid: string) => (strapi.documents as any)(uid) as ReturnType<typeof service> };
+}
+
+beforeEach(() => {
+  clearFeedCache();
+});
+
+// ============================================================================
+// RSS / Atom
+// ============================================================================
+
+describe('buildArticleFeed', () => {
+  it('should render RSS items with escaped text, author, category and image', async () => {
+    const { strapi, service } = createMockStrapi({ 'api::post.post': { es: [createPost()] } });
+
+    const xml = await buildArticleFeed(strapi, { locale: 'es', format: 'rss' });
+
+    expect(service('api::post.post').findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ locale: 'es', status: 'published', sort: 'publishedAt:desc' })
+    );
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('<title>Zelda Guide: Tips &amp; Tricks</title>');
+    expect(xml).toMatch(/<link>[^<]+\/es\/zelda-guide<\/link>/);
+    expect(xml).toContain('<guid isPermaLink="false">post-1:es</guid>');
+    expect(xml).toContain('<pubDate>Sun, 01 Mar 2026 10:00:00 GMT</pubDate>');
+    expect(xml).toContain('Everything you need &lt;before&gt; the first dungeon.');
+    expect(xml).toContain('<dc:creator>Ana Pérez</dc:creator>');
+    expect(xml).toMatch(/<media:content url="[^"]+\/uploads\/zelda.jpg" medium="image" type="image\/jpeg"\/>/);
+    expect(xml).toMatch(/<atom:link href="[^"]+\/api\/feeds\/es\/rss.xml" rel="self"/);
+  });
+
+  it('should render Atom entries with stable ids and the newest update as feed date', async () => {
+    const { strapi } = createMockStrapi({
+      'api::post.post': { en: [createPost(), createPost({ documentId: 'post-2', updatedAt: '2026-03-05T00:00:00.000Z' })] },
+    });
+
+    const xml = await buildArticleFeed(strapi, { locale: 'en', format: 'atom' });
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">');
+    expect(xml).toContain('  <updated>2026-03-05T00:00:00.000Z</updated>');
+    expect(xml).toMatch(/<id>urn:uuid:[0-9a-f-]{36}<\/id>/);
+    expect(xml).toContain('<published>2026-03-01T10:00:00.000Z</published>');
+    expect(xml).toContain('<author><name>Ana Pérez</name></author>');
+    expect(xml).toMatch(/<link rel="self" type="application\/atom\+xml" href="[^"]+\/api\/feeds\/en\/atom.xml"\/>/);
+  });
+
+  it('should scope feeds to a category or game and reject unknown scopes', async () => {
+    const { strapi, service } = createMockStrapi({ 'api::post.post': { en: [createPost()] } });
+
+    const xml = await buildArticleFeed(strapi, { locale: 'en', format: 'rss', game: 'zelda' });
+    expect(xml).toContain('<title>Gamers Wiki: ZELDA</title>');
+    expect(xml).toContain('/api/feeds/en/games/zelda/rss.xml');
+    expect(service('api::post.post').findMany.mock.calls[0][0].filters).toEqual({ games: { slug: 'zelda' } });
+
+    await buildArticleFeed(strapi, { locale: 'en', format: 'rss', category: 'guides' });
+    expect(service('api::post.post').findMany.mock.calls[1][0].filters).toEqual({ category: { slug: 'guides' } });
+
+    await expect(buildArticleFeed(strapi, { locale: 'en', format: 'rss', category: 'missing' })).rejects.toBeInstanceOf(
+      ArticleFeedError
+    );
+    await expect(buildArticleFeed(strapi, { locale: 'xx', format: 'atom' })).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+// ============================================================================
+// Sitemaps
+// ============================================================================
+
+describe('buildSitemapPage', () => {
+  const catalogue: Catalogue = {
+    'api::game.game': {
+      en: [
+        { documentId: 'game-1', slug: 'zelda', updatedAt: '2026-01-01T00:00:00.000Z', heroImage: { url: '/uploads/zelda-hero.jpg' } },
+        { documentId: 'game-2', slug: 'metroid', updatedAt: '2026-01-02T00:00:00.000Z', heroImage: null },
+      ],
+      es: [{ documentId: 'game-1', slug: 'zelda-es', updatedAt: '2026-02-01T00:00:00.000Z' }],
+    },
+  };
+
+  it('should list every locale with hreflang alternates, lastmod and image entries', async () => {
+    const { strapi } = createMockStrapi(catalogue);
+
+    const xml = await buildSitemapPage(strapi, 'games', '1');
+
+    expect(xml).toContain('xmlns:xhtml="http://www.w3.org/1999/xhtml"');
+    expect(xml).toContain('xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"');
+    expect(xml.match(/<url>/g)).toHaveLength(3);
+    expect(xml).toMatch(/<loc>[^<]+\/es\/games\/zelda-es<\/loc>\n    <lastmod>2026-02-01T00:00:00.000Z<\/lastmod>/);
+    expect(xml).toMatch(/<xhtml:link rel="alternate" hreflang="es" href="[^"]+\/es\/games\/zelda-es"\/>/);
+    expect(xml).toMatch(/<xhtml:link rel="alternate" hreflang="x-default" href="[^"]+\/en\/games\/zelda"\/>/);
+    expect(xml.match(/<image:loc>[^<]+\/uploads\/zelda-hero.jpg<\/image:loc>/g)).toHaveLength(2);
+
+    // A game without translations has no alternates
+    const metroid = xml.slice(xml.indexOf('/en/games/metroid'));
+    expect(metroid.slice(0, metroid.indexOf('</url>'))).not.toContain('hreflang');
+  });
+
+  it('should page over source-locale documents', async () => {
+    const { strapi, service } = createMockStrapi(catalogue);
+
+    await buildSitemapPage(strapi, 'games', '1');
+    expect(service('api::game.game').findMany.mock.calls[0][0]).toMatchObject({
+      locale: 'en',
+      start: 0,
+      limit: SITEMAP_CONFIG.PAGE_SIZE,
+      populate: { heroImage: true },
+    });
+    expect(service('api::game.game').findMany.mock.calls[1][0]).toMatchObject({
+      locale: 'es',
+      filters: { documentId: { $in: ['game-1', 'game-2'] } },
+    });
+  });
+
+  it('should 404 for unknown types and pages past the end', async () => {
+    const { strapi } = createMockStrapi(catalogue);
+
+    await expect(buildSitemapPage(strapi, 'tags', '1')).rejects.toBeInstanceOf(SitemapError);
+    await expect(buildSitemapPage(strapi, 'games', '0')).rejects.toMatchObject({ status: 404 });
+    await expect(buildSitemapPage(strapi, 'games', '2')).rejects.toMatchObject({ status: 404 });
+    expect(await buildSitemapPage(strapi, 'franchises', '1')).toContain('<urlset');
+  });
+});
+
+describe('buildSitemapIndex', () => {
+  it('should list one entry per page of each type', async () => {
+    const posts = Array.from({ length: SITEMAP_CONFIG.PAGE_SIZE + 1 }, (_, i) => ({ documentId: `post-${i}` }));
+    const { strapi } = createMockStrapi({
+      'api::post.post': { en: posts },
+      'api::company.company': { en: [{ documentId: 'company-1' }] },
+    });
+
+    const xml = await buildSitemapIndex(strapi);
+
+    expect(xml).toContain('<sitemapindex');
+    expect(xml.match(/<sitemap>/g)).toHaveLength(3);
+    expect(xml).toMatch(/\/api\/sitemaps\/posts\/2.xml<\/loc>/);
+    expect(xml).toMatch(/\/api\/sitemaps\/companies\/1.xml<\/loc>/);
+    expect(xml).not.toContain('/sitemaps/games/');
+  });
+});
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+describe('feed cache', () => {
+  it('should serve cached feeds until content is published', async () => {
+    const { strapi, service } = createMockStrapi({ 'api::post.post': { en: [createPost()] } });
+    let middleware: ((ctx: unknown, next: () => Promise<unknown>) => Promise<unknown>) | undefined;
+    const documentsUse = vi.fn((cb: typeof middleware) => {
+      middleware = cb;
+    });
+    Object.assign(strapi.documents, { use: documentsUse });
+    registerFeedCacheInvalidation(strapi);
+
+    await buildArticleFeed(strapi, { locale: 'en', format: 'rss' });
+    await buildArticleFeed(strapi, { locale: 'en', format: 'rss' });
+    expect(service('api::post.post').findMany).toHaveBeenCalledTimes(1);
+
+    // Draft edits keep the cache
+    await middleware!({ uid: 'api::post.post', action: 'update', params: {} }, async () => ({}));
+    await buildArticleFeed(strapi, { locale: 'en', format: 'rss' });
+    expect(service('api::post.post').findMany).toHaveBeenCalledTimes(1);
+
+    await middleware!({ uid: 'api::post.post', action: 'publish', params: {} }, async () => ({}));
+    await buildArticleFeed(strapi, { locale: 'en', format: 'rss' });
+    expect(service('api::post.post').findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not store a build that raced a clear', async () => {
+    const build = vi.fn(async () => {
+      clearFeedCache();
+      return 'stale';
+    });
+
+    expect(await getCachedFeed('/race', build)).toBe('stale');
+    await getCachedFeed('/race', build);
+    expect(build).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only treat published writes to feed content types as changes', () => {
+    expect(changesPublishedFeedContent({ uid: 'api::game.game', action: 'unpublish' })).toBe(true);
+    expect(changesPublishedFeedContent({ uid: 'api::game.game', action: 'create', params: { status: 'published' } })).toBe(true);
+    expect(changesPublishedFeedContent({ uid: 'api::game.game', action: 'create', params: {} })).toBe(false);
+    expect(changesPublishedFeedContent({ uid: 'api::genre.genre', action: 'publish' })).toBe(false);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Podcast Feed Unit Tests
+ *
+ * Tests MP3 probing (Xing header via range requests, full-file fallback),
+ * RSS rendering with iTunes/Podcasting 2.0 tags, feed caching and JSON
+ * chapters against a mocked Strapi instance. Audio is served by the global
+ * MSW server.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildPodcastChapters,
+  buildPodcastFeed,
+  clearEnclosureCache,
+  getPodcastGuid,
+  probeMp3Enclosure,
+  PodcastFeedError,
+} from '../../../src/api/feed/services/podcast-feed';
+import { clearFeedCache } from '../../../src/api/feed/services/feed-cache';
+import { createSilentTTSProvider } from '../../../src/ai/articles/services/tts-providers';
+import { concatenateMP3Buffers } from '../../../src/ai/articles/services/mp3-builder';
+import { getMP3Duration, readXingHeader } from '../../../src/ai/articles/services/mp3-parser';
+import { server } from '../../mocks/server';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const AUDIO_URL = 'https://cdn.example.com/audio/zelda-guide.mp3';
+
+async function createNarration() {
+  const provider = createSilentTTSProvider();
+  const chunks = await Promise.all(
+    ['First chunk of the narration', 'Second chunk with a few more words'].map(
+      async (text) => (await provider.synthesize({ text, voiceId: 'silent', modelId: 'silent' })).buffer
+    )
+  );
+  return { raw: chunks[0], ...concatenateMP3Buffers(chunks) };
+}
+
+/**
+ * Serves an MP3, honouring Range headers unless `ignoreRange` is set.
+ */
+function serveAudio(buffer: Buffer, options: { ignoreRange?: boolean } = {}) {
+  const requests: Array<string | null> = [];
+  server.use(
+    http.get(AUDIO_URL, ({ request }) => {
+      const range = request.headers.get('range');
+      requests.push(range);
+      const match = range?.match(/bytes=(\d+)-(\d+)/);
+      if (match && !options.ignoreRange) {
+        const end = Math.min(Number(match[2]), buffer.length - 1);
+        return new HttpResponse(buffer.subarray(Number(match[1]), end + 1), {
+          status: 206,
+          headers: { 'content-type': 'audio/mpeg', 'content-range': `bytes ${match[1]}-${end}/${buffer.length}` },
+        });
+      }
+      return new HttpResponse(buffer, { status: 200, headers: { 'content-type': 'audio/mpeg' } });
+    })
+  );
+  return requests;
+}
+
+function createPost(overrides: Record<string, unknown> = {}) {
+  return {
+    documentId: 'post-1',
+    title: 'Zelda Guide: Tips & Tricks',
+    slug: 'zelda-guide',
+    excerpt: 'Everything you need <before> the first dungeon.',
+    publishedAt: '2026-03-01T10:00:00.000Z',
+    audioFile: {
+      url: AUDIO_URL,
+      size: 1,
+      mime: 'audio/mpeg',
+      provider_metadata: {
+        ttsInfo: {
+          chapters: [{ title: 'Getting Started', startTime: 0.8 }],
+          audioDurationSeconds: 3,
+          captions: { vttUrl: 'https://cdn.example.com/audio/zelda-guide-captions.vtt' },
+        },
+      },
+    },
+    audioMetadata: { chapters: [{ title: 'Primeros pasos', startTime: 0.8, endTime: 2 }] },
+    featuredImage: { url: '/uploads/zelda.jpg' },
+    author: { name: 'Ana Pérez', slug: 'ana-perez', avatar: { url: 'https://cdn.example.com/ana.png' } },
+    ...overrides,
+  };
+}
+
+function createMockStrapi(posts: Array<Record<string, unknown>>) {
+  const postService = {
+    findMany: vi.fn().mockResolvedValue(posts),
+    findOne: vi.fn(async ({ documentId }: { documentId: string }) => posts.find((p) => p.documentId === documentId) ?? null),
+  };
+  const categoryService = {
+    findFirst: vi.fn(async ({ filters }: { filters: { slug: string } }) =>
+      filters.slug === 'guides' ? { name: 'Guías', description: 'Guías de juegos' } : null
+    ),
+  };
+  const services: Record<string, unknown> = {
+    'api::post.post': postService,
+    'api::category.category': categoryService,
+  };
+
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, postService };
+}
+
+// ============================================================================
+// MP3 metadata
+// ============================================================================
+
+describe('readXingHeader / getMP3Duration', () => {
+  it('should read the frame count from the Xing header written by mp3-builder', async () => {
+    const narration = await createNarration();
+
+    const xing = readXingHeader(narration.buffer.subarray(0, 1024));
+
+    expect(xing?.frameCount).toBe(narration.frameCount);
+    expect(xing?.duration).toBeCloseTo(narration.duration, 6);
+    expect(getMP3Duration(narration.buffer)).toBeCloseTo(narration.duration, 6);
+  });
+
+  it('should count frames when there is no Xing header', async () => {
+    const { raw } = await createNarration();
+
+    expect(readXingHeader(raw)).toBeNull();
+    expect(getMP3Duration(raw)).toBeGreaterThan(0);
+  });
+});
+
+describe('probeMp3Enclosure', () => {
+  beforeEach(() => {
+    clearEnclosureCache();
+  });
+
+  it('should read length and duration from a range request and cache the result', async () => {
+    const narration = await createNarration();
+    const requests = serveAudio(narration.buffer);
+
+    const info = await probeMp3Enclosure(AUDIO_URL);
+    await probeMp3Enclosure(AUDIO_URL);
+
+    expect(info.length).toBe(narration.buffer.length);
+    expect(info.duration).toBeCloseTo(narration.duration, 6);
+    expect(requests).toEqual(['bytes=0-16383']);
+  });
+
+  it('should fall back to the full file when the server ignores ranges', async () => {
+    const { raw } = await createNarration();
+    serveAudio(raw, { ignoreRange: true });
+
+    const info = await probeMp3Enclosure(AUDIO_URL);
+
+    expect(info).toEqual({ length: raw.length, duration: getMP3Duration(raw) });
+  });
+});
+
+// ============================================================================
+// RSS
+// ============================================================================
+
+describe('buildPodcastFeed', () => {
+  beforeEach(() => {
+    clearEnclosureCache();
+    clearFeedCache();
+  });
+
+  it('should render items with exact enclosures, chapters and author data', async () => {
+    const narration = await createNarration();
+    serveAudio(narration.buffer);
+    const { strapi, postService } = createMockStrapi([createPost(), createPost({ documentId: 'post-2', audioFile: null })]);
+
+    const xml = await buildPodcastFeed(strapi, { locale: 'es' });
+
+    expect(postService.findMany).toHaveBeenCalledWith(expect.objectContaining({ locale: 'es', status: 'published' }));
+    expect(xml).toContain('xmlns:podcast="https://podcastindex.org/namespace/1.0"');
+    expect(xml).toContain('<language>es</language>');
+    expect(xml).toContain('<title>Zelda Guide: Tips &amp; Tricks</title>');
+    expect(xml).toContain('Everything you need &lt;before&gt; the first dungeon.');
+    expect(xml).toContain(`<enclosure url="${AUDIO_URL}" length="${narration.buffer.length}" type="audio/mpeg"/>`);
+    expect(xml).toContain(`<itunes:duration>${Math.round(narration.duration)}</itunes:duration>`);
+    expect(xml).toContain('<itunes:author>Ana Pérez</itunes:author>');
+    expect(xml).toMatch(/<podcast:person role="host" href="[^"]+\/authors\/ana-perez" img="https:\/\/cdn.example.com\/ana.png">Ana Pérez<\/podcast:person>/);
+    expect(xml).toMatch(/<podcast:chapters url="[^"]+\/api\/feeds\/podcast\/es\/chapters\/post-1" type="application\/json\+chapters"\/>/);
+    expect(xml).toContain(
+      '<podcast:transcript url="https://cdn.example.com/audio/zelda-guide-captions.vtt" type="text/vtt" language="es" rel="captions"/>'
+    );
+    expect(xml).toContain('<pubDate>Sun, 01 Mar 2026 10:00:00 GMT</pubDate>');
+    expect(xml.match(/<item>/g)).toHaveLength(1);
+  });
+
+  it('should serve repeat requests from the feed cache until it is cleared', async () => {
+    const narration = await createNarration();
+    serveAudio(narration.buffer);
+    const { strapi, postService } = createMockStrapi([createPost()]);
+
+    const first = await buildPodcastFeed(strapi, { locale: 'es' });
+    expect(await buildPodcastFeed(strapi, { locale: 'es' })).toBe(first);
+    expect(postService.findMany).toHaveBeenCalledTimes(1);
+
+    clearFeedCache();
+    await buildPodcastFeed(strapi, { locale: 'es' });
+    expect(postService.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to upload metadata when the audio cannot be read', async () => {
+    server.use(http.get(AUDIO_URL, () => new HttpResponse(null, { status: 403 })));
+    const { strapi } = createMockStrapi([createPost()]);
+
+    const xml = await buildPodcastFeed(strapi, { locale: 'es' });
+
+    expect(xml).toContain('length="1024"');
+    expect(xml).toContain('<itunes:duration>3</itunes:duration>');
+    expect(strapi.log.warn).toHaveBeenCalled();
+  });
+
+  it('should scope feeds to a category and reject unknown scopes', async () => {
+    const narration = await createNarration();
+    serveAudio(narration.buffer);
+    const { strapi, postService } = createMockStrapi([createPost()]);
+
+    const xml = await buildPodcastFeed(strapi, { locale: 'es', category: 'guides' });
+
+    expect(xml).toContain('Guías de juegos');
+    expect(xml).toContain('/api/feeds/podcast/es/categories/guides" rel="self"');
+    expect(postService.findMany.mock.calls[0][0].filters).toMatchObject({ category: { slug: 'guides' } });
+    await expect(buildPodcastFeed(strapi, { locale: 'es', category: 'missing' })).rejects.toBeInstanceOf(PodcastFeedError);
+    await expect(buildPodcastFeed(strapi, { locale: 'xx' })).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('getPodcastGuid', () => {
+  it('should derive the UUIDv5 defined by the Podcasting 2.0 spec', () => {
+    expect(getPodcastGuid('https://podnews.net/rss')).toBe('9b024349-ccf0-5f69-a609-6b82873eab3c');
+  });
+});
+
+// ============================================================================
+// Chapters
+// ============================================================================
+
+describe('buildPodcastChapters', () => {
+  it('should prefer localized chapter titles over the audio metadata', async () => {
+    const { strapi } = createMockStrapi([createPost(), createPost({ documentId: 'post-en', audioMetadata: null })]);
+
+    expect(await buildPodcastChapters(strapi, 'es', 'post-1')).toEqual({
+      version: '1.2.0',
+      chapters: [{ startTime: 0.8, endTime: 2, title: 'Primeros pasos' }],
+    });
+    expect((await buildPodcastChapters(strapi, 'es', 'post-en')).chapters).toEqual([
+      { startTime: 0.8, title: 'Getting Started' },
+    ]);
+    await expect(buildPodcastChapters(strapi, 'es', 'missing')).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -138,7 +138,7 @@ describe('Franchise Description Service', () => {
       expect(mockDeps.syncFranchiseLocales).toHaveBeenCalledWith(
         mockStrapiSetup.strapi,
         expect.objectContaining({
-          aiDescription: null,
+          aiDescriptions: {},
         })
       );
     });
@@ -192,7 +192,7 @@ describe('Franchise Description Service', () => {
           documentId: 'test-doc-id',
           sourceId: 123,
           name: 'The Legend of Zelda',
-          aiDescription: sampleDescriptions.es,
+          aiDescriptions: { es: sampleDescriptions.es },
           franchiseData: expect.objectContaining({
             slug: 'the-legend-of-zelda',
             igdbId: 1234,
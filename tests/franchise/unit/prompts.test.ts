@@ -34,6 +34,11 @@ describe('Franchise Description Prompts', () => {
       expect(prompt).not.toContain('Write the description in English.');
     });
 
+    it('should include the configured language instruction for other locales', () => {
+      expect(franchiseDescriptionsConfig.buildPrompt(context, 'fr')).toContain('Write the description entirely in French');
+      expect(franchiseDescriptionsConfig.buildPrompt(context, 'pt-BR')).toContain('Write the description entirely in Portuguese');
+    });
+
     it('should include franchise name in prompt', () => {
       const prompt = franchiseDescriptionsConfig.buildPrompt(context, 'en');
       
@@ -131,8 +136,8 @@ describe('Franchise Description Prompts', () => {
       );
     });
 
-    it('should mention both English and Spanish', () => {
-      expect(franchiseDescriptionsConfig.systemPrompt).toContain('English or Spanish');
+    it('should mention every supported language', () => {
+      expect(franchiseDescriptionsConfig.systemPrompt).toContain('English, Spanish, French, German or Portuguese');
     });
 
     it('should include SEO best practices', () => {
@@ -0,0 +1,372 @@
+/**
+ * IGDB Game Sync Unit Tests
+ *
+ * Tests field diffing and the sync flow against a mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  diffGameFields,
+  diffRelation,
+  getUpstreamRelationIds,
+  isSameValue,
+  syncGameFromIGDB,
+  GameSyncError,
+} from '../../../src/api/game-fetcher/services/game-sync';
+import type { GameData } from '../../../src/api/game-fetcher/services/igdb';
+import type { GameDocument } from '../../../src/types/strapi';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createStoredGame(overrides: Partial<GameDocument> = {}): GameDocument {
+  return {
+    id: 1,
+    documentId: 'game-doc-1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    publishedAt: '2024-01-01T00:00:00.000Z',
+    locale: 'en',
+    name: 'Hollow Knight',
+    slug: 'hollow-knight',
+    description: 'Editor-written description',
+    releaseDate: '2017-02-24',
+    gameCategory: 'main_game',
+    gameStatus: 'released',
+    coverImageUrl: 'https://images.igdb.com/cover.jpg',
+    screenshotUrls: ['https://images.igdb.com/s1.jpg'],
+    trailerIds: ['abc'],
+    metacriticScore: 87,
+    userRating: 90.12,
+    userRatingCount: 1000,
+    totalRating: 88.5,
+    totalRatingCount: 1200,
+    hypes: 10,
+    multiplayerModes: [],
+    officialWebsite: 'https://hollowknight.com',
+    steamUrl: 'https://store.steampowered.com/app/367520',
+    epicUrl: null,
+    gogUrl: null,
+    itchUrl: null,
+    discordUrl: null,
+    igdbId: 14593,
+    igdbUrl: 'https://www.igdb.com/games/hollow-knight',
+    igdbSyncedAt: null,
+    isSponsored: false,
+    sponsorTier: null,
+    sponsorStartDate: null,
+    sponsorEndDate: null,
+    sponsorBadgeText: null,
+    ...overrides,
+  };
+}
+
+function createUpstream(overrides: Partial<GameData> = {}): GameData {
+  const stored = createStoredGame();
+  return {
+    name: 'Hollow Knight',
+    slug: 'hollow-knight',
+    localizedNames: {
+      en: { name: 'Hollow Knight', coverUrl: null },
+      es: { name: 'Hollow Knight', coverUrl: null },
+    },
+    description: 'IGDB summary',
+    releaseDate: stored.releaseDate,
+    gameCategory: stored.gameCategory,
+    gameStatus: stored.gameStatus,
+    parentGameId: null,
+    developersData: [],
+    publishersData: [],
+    franchises: [],
+    collections: [],
+    platforms: [],
+    coverImageUrl: stored.coverImageUrl,
+    screenshotUrls: stored.screenshotUrls as string[],
+    artworkUrls: [],
+    trailerIds: stored.trailerIds as string[],
+    metacriticScore: stored.metacriticScore,
+    userRating: 90.1200001,
+    userRatingCount: stored.userRatingCount,
+    totalRating: stored.totalRating,
+    totalRatingCount: stored.totalRatingCount,
+    hypes: stored.hypes,
+    gameModes: [],
+    playerPerspectives: [],
+    themes: [],
+    genres: [],
+    keywords: [],
+    multiplayerModes: [],
+    ageRatings: [],
+    gameEngines: [],
+    similarGameIds: [],
+    remakeIds: [],
+    remasterIds: [],
+    dlcIds: [],
+    expansionIds: [],
+    languages: [],
+    officialWebsite: stored.officialWebsite,
+    steamUrl: stored.steamUrl,
+    epicUrl: null,
+    gogUrl: null,
+    itchUrl: null,
+    discordUrl: null,
+    igdbId: 14593,
+    igdbUrl: stored.igdbUrl,
+    ...overrides,
+  };
+}
+
+function createMockStrapi(options: {
+  stored: (GameDocument & Record<string, unknown>) | null;
+  upstream: GameData | null;
+  localGames?: Array<{ documentId: string; igdbId: number }>;
+  /** Database rows of every game (defaults to a draft and a published row per locale of the synced game) */
+  rows?: Array<{ id: number; documentId: string; locale: string; publishedAt: string | null }>;
+}) {
+  const gameService = {
+    findOne: vi.fn().mockResolvedValue(options.stored),
+    findMany: vi.fn().mockResolvedValue(options.localGames ?? []),
+    update: vi.fn().mockResolvedValue({}),
+    publish: vi.fn().mockResolvedValue({}),
+  };
+  const logService = { create: vi.fn().mockResolvedValue({}) };
+  const rows = options.rows ?? [
+    { id: 1, documentId: 'game-doc-1', locale: 'en', publishedAt: null },
+    { id: 2, documentId: 'game-doc-1', locale: 'en', publishedAt: '2024-01-01T00:00:00.000Z' },
+    { id: 3, documentId: 'game-doc-1', locale: 'es', publishedAt: null },
+    { id: 4, documentId: 'game-doc-1', locale: 'es', publishedAt: '2024-01-01T00:00:00.000Z' },
+  ];
+  const updateMany = vi.fn().mockResolvedValue({ count: rows.length });
+  const rowQuery = {
+    updateMany,
+    update: vi.fn().mockResolvedValue({}),
+    findMany: vi.fn(async ({ where }: { where: Record<string, any> }) =>
+      rows.filter((row) => {
+        if (typeof where.documentId === 'string') return row.documentId === where.documentId;
+        return (
+          where.documentId.$in.includes(row.documentId) &&
+          row.locale === where.locale &&
+          (where.publishedAt.$notNull ? row.publishedAt !== null : row.publishedAt === null)
+        );
+      })
+    ),
+  };
+  const igdbService = {
+    isConfigured: vi.fn().mockReturnValue(true),
+    getGameById: vi.fn().mockResolvedValue(options.upstream),
+  };
+
+  const strapi = {
+    documents: vi.fn((uid: string) => (uid === 'api::game-sync-log.game-sync-log' ? logService : gameService)),
+    service: vi.fn().mockReturnValue(igdbService),
+    db: { query: vi.fn().mockReturnValue(rowQuery) },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, gameService, logService, updateMany, rowQuery, igdbService };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('IGDB Game Sync', () => {
+  describe('isSameValue', () => {
+    it('should treat null, undefined, empty string and empty array as equal', () => {
+      expect(isSameValue(null, undefined)).toBe(true);
+      expect(isSameValue('', null)).toBe(true);
+      expect(isSameValue([], null)).toBe(true);
+    });
+
+    it('should compare decimals stored as strings with tolerance', () => {
+      expect(isSameValue('88.50', 88.5)).toBe(true);
+      expect(isSameValue(88.5, 88.501)).toBe(true);
+      expect(isSameValue(88.5, 89)).toBe(false);
+    });
+
+    it('should detect changed arrays', () => {
+      expect(isSameValue(['a'], ['a'])).toBe(true);
+      expect(isSameValue(['a'], ['a', 'b'])).toBe(false);
+    });
+
+    it('should detect a value appearing or disappearing', () => {
+      expect(isSameValue(null, 'https://store.epicgames.com')).toBe(false);
+      expect(isSameValue('https://gog.com/x', null)).toBe(false);
+    });
+  });
+
+  describe('diffGameFields', () => {
+    it('should return no changes when IGDB matches the stored game', () => {
+      expect(diffGameFields(createStoredGame(), createUpstream())).toEqual([]);
+    });
+
+    it('should report each changed IGDB-owned field', () => {
+      const changes = diffGameFields(
+        createStoredGame(),
+        createUpstream({ totalRating: 91.2, hypes: 25, gameStatus: 'delisted', epicUrl: 'https://store.epicgames.com/hk' })
+      );
+
+      expect(changes).toEqual([
+        { field: 'gameStatus', previousValue: 'released', newValue: 'delisted' },
+        { field: 'totalRating', previousValue: 88.5, newValue: 91.2 },
+        { field: 'hypes', previousValue: 10, newValue: 25 },
+        { field: 'epicUrl', previousValue: null, newValue: 'https://store.epicgames.com/hk' },
+      ]);
+    });
+
+    it('should never diff editor-owned fields', () => {
+      const changes = diffGameFields(
+        createStoredGame({ description: 'Rewritten by an editor', name: 'Hollow Knight (Edited)' }),
+        createUpstream({ description: 'Fresh IGDB summary', name: 'Hollow Knight' })
+      );
+
+      expect(changes).toEqual([]);
+    });
+  });
+
+  describe('getUpstreamRelationIds', () => {
+    it('should merge DLC and expansion ids without duplicates', () => {
+      const ids = getUpstreamRelationIds(createUpstream({ dlcIds: [1, 2], expansionIds: [2, 3], parentGameId: 9 }));
+
+      expect(ids.dlcs).toEqual([1, 2, 3]);
+      expect(ids.parentGame).toEqual([9]);
+    });
+  });
+
+  describe('diffRelation', () => {
+    it('should ignore ordering', () => {
+      const current = [{ documentId: 'a', igdbId: 2 }, { documentId: 'b', igdbId: 1 }];
+      const targets = [{ documentId: 'b', igdbId: 1 }, { documentId: 'a', igdbId: 2 }];
+
+      expect(diffRelation('similarGames', current, targets)).toBeNull();
+    });
+
+    it('should report added and removed links as IGDB ids', () => {
+      const change = diffRelation('dlcs', [{ documentId: 'a', igdbId: 5 }], [{ documentId: 'b', igdbId: 7 }]);
+
+      expect(change).toEqual({ field: 'dlcs', previousValue: [5], newValue: [7] });
+    });
+  });
+
+  describe('syncGameFromIGDB', () => {
+    let stored: GameDocument & Record<string, unknown>;
+
+    beforeEach(() => {
+      stored = { ...createStoredGame(), parentGame: null, dlcs: [], remakes: [], remasters: [], similarGames: [] };
+    });
+
+    it('should update only changed fields and log each change', async () => {
+      const upstream = createUpstream({ totalRating: 92, description: 'New IGDB summary' });
+      const { strapi, gameService, logService, updateMany } = createMockStrapi({ stored, upstream });
+
+      const result = await syncGameFromIGDB(strapi, 'game-doc-1', { trigger: 'scheduled' });
+
+      expect(result.updated).toBe(true);
+      expect(result.changes).toEqual([{ field: 'totalRating', previousValue: 88.5, newValue: 92 }]);
+      expect(updateMany).toHaveBeenCalledWith({ where: { documentId: 'game-doc-1' }, data: { totalRating: 92 } });
+      expect(logService.create).toHaveBeenCalledTimes(1);
+      expect(logService.create.mock.calls[0][0].data).toMatchObject({
+        field: 'totalRating',
+        previousValue: 88.5,
+        newValue: 92,
+        trigger: 'scheduled',
+        igdbId: 14593,
+        game: { connect: ['game-doc-1'] },
+      });
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { documentId: 'game-doc-1' },
+        data: { igdbSyncedAt: expect.any(String) },
+      });
+    });
+
+    it('should link DLCs that are imported locally', async () => {
+      const upstream = createUpstream({ dlcIds: [500, 501] });
+      const { strapi, rowQuery } = createMockStrapi({
+        stored,
+        upstream,
+        localGames: [{ documentId: 'dlc-doc', igdbId: 500 }],
+        rows: [
+          { id: 1, documentId: 'game-doc-1', locale: 'en', publishedAt: null },
+          { id: 2, documentId: 'game-doc-1', locale: 'en', publishedAt: '2024-01-01T00:00:00.000Z' },
+          { id: 3, documentId: 'game-doc-1', locale: 'es', publishedAt: null },
+          { id: 10, documentId: 'dlc-doc', locale: 'en', publishedAt: null },
+          { id: 11, documentId: 'dlc-doc', locale: 'en', publishedAt: '2024-01-01T00:00:00.000Z' },
+        ],
+      });
+
+      const result = await syncGameFromIGDB(strapi, 'game-doc-1');
+
+      expect(result.changes).toEqual([{ field: 'dlcs', previousValue: [], newValue: [500] }]);
+      // Each row links to the DLC row of its own locale and publication state
+      expect(rowQuery.update.mock.calls.map(([args]) => args)).toEqual([
+        { where: { id: 1 }, data: { dlcs: [10] } },
+        { where: { id: 2 }, data: { dlcs: [11] } },
+        { where: { id: 3 }, data: { dlcs: [] } },
+      ]);
+    });
+
+    it('should keep the current parent when the upstream parent is not imported', async () => {
+      stored.parentGame = { documentId: 'old-parent', igdbId: 1 };
+      const upstream = createUpstream({ parentGameId: 2 });
+      const { strapi, gameService } = createMockStrapi({ stored, upstream, localGames: [] });
+
+      const result = await syncGameFromIGDB(strapi, 'game-doc-1');
+
+      expect(result.changes).toEqual([]);
+      expect(gameService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not write anything on a dry run', async () => {
+      const upstream = createUpstream({ hypes: 99 });
+      const { strapi, gameService, logService, updateMany } = createMockStrapi({ stored, upstream });
+
+      const result = await syncGameFromIGDB(strapi, 'game-doc-1', { dryRun: true });
+
+      expect(result.updated).toBe(false);
+      expect(result.changes).toHaveLength(1);
+      expect(gameService.update).not.toHaveBeenCalled();
+      expect(logService.create).not.toHaveBeenCalled();
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should only record the sync time when nothing changed', async () => {
+      const { strapi, gameService, updateMany } = createMockStrapi({ stored, upstream: createUpstream() });
+
+      const result = await syncGameFromIGDB(strapi, 'game-doc-1');
+
+      expect(result.updated).toBe(false);
+      expect(gameService.update).not.toHaveBeenCalled();
+      expect(updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should update every locale and status without publishing the draft', async () => {
+      const upstream = createUpstream({ hypes: 99 });
+      const { strapi, gameService, updateMany } = createMockStrapi({ stored, upstream });
+
+      await syncGameFromIGDB(strapi, 'game-doc-1');
+
+      // Unscoped by locale and status, so published rows change but pending draft edits stay unpublished
+      expect(updateMany.mock.calls[0][0]).toEqual({ where: { documentId: 'game-doc-1' }, data: { hypes: 99 } });
+      expect(gameService.update).not.toHaveBeenCalled();
+      expect(gameService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should throw a 404 GameSyncError for unknown games', async () => {
+      const { strapi } = createMockStrapi({ stored: null, upstream: null });
+
+      await expect(syncGameFromIGDB(strapi, 'missing')).rejects.toMatchObject({
+        name: 'GameSyncError',
+        status: 404,
+      });
+    });
+
+    it('should throw a 400 GameSyncError for games without igdbId', async () => {
+      const { strapi } = createMockStrapi({ stored: { ...stored, igdbId: null }, upstream: null });
+
+      await expect(syncGameFromIGDB(strapi, 'game-doc-1')).rejects.toBeInstanceOf(GameSyncError);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Game Graph Unit Tests
+ *
+ * Tests graph expansion, edge typing, caps and franchise timelines against a
+ * mocked Strapi instance backed by an in-memory game catalogue.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildFranchiseTimeline,
+  buildGameGraph,
+  buildGraphPopulate,
+  compareByReleaseDate,
+  gameGraphQuerySchema,
+  gameTimelineQuerySchema,
+  GameGraphError,
+  type GameNodeData,
+} from '../../../src/api/game/services/game-graph';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function node(slug: string, releaseDate: string | null, gameCategory = 'main_game'): GameNodeData {
+  return { documentId: `doc-${slug}`, name: slug.toUpperCase(), slug, releaseDate, coverImageUrl: null, gameCategory };
+}
+
+const botw = node('botw', '2017-03-03');
+const totk = node('totk', '2023-05-12');
+const oot = node('oot', '1998-11-21');
+const ootRemake = node('oot-3d', '2011-06-16', 'remake');
+const botwDlc = node('botw-champions', '2017-12-07', 'dlc_addon');
+const undated = node('zelda-next', null);
+
+const zelda = { slug: 'zelda', name: 'The Legend of Zelda' };
+
+/** Relations of each game as they would be populated */
+const CATALOGUE: Record<string, Record<string, unknown>> = {
+  [botw.documentId]: {
+    ...botw,
+    parentGame: null,
+    dlcs: [botwDlc],
+    remakes: [],
+    remasters: [],
+    similarGames: [],
+    franchises: [{ ...zelda, games: [botw, totk, oot, ootRemake, botwDlc, undated] }],
+    collections: [],
+  },
+  [totk.documentId]: {
+    ...totk,
+    parentGame: null,
+    dlcs: [],
+    remakes: [],
+    remasters: [],
+    similarGames: [botw],
+    franchises: [],
+    collections: [],
+  },
+  [oot.documentId]: {
+    ...oot,
+    parentGame: null,
+    dlcs: [],
+    remakes: [ootRemake],
+    remasters: [],
+    similarGames: [],
+    franchises: [],
+    collections: [],
+  },
+  [botwDlc.documentId]: {
+    ...botwDlc,
+    parentGame: botw,
+    dlcs: [],
+    remakes: [],
+    remasters: [],
+    similarGames: [],
+    franchises: [],
+    collections: [],
+  },
+};
+
+function createMockStrapi() {
+  const gameService = {
+    findFirst: vi.fn(async (args: any) => {
+      const game = Object.values(CATALOGUE).find((g) => g.slug === args.filters.slug);
+      return game ?? null;
+    }),
+    findMany: vi.fn(async (args: any) =>
+      args.filters.documentId.$in.map((id: string) => CATALOGUE[id]).filter(Boolean)
+    ),
+  };
+  const strapi = {
+    documents: vi.fn().mockReturnValue(gameService),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, gameService };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Game Graph', () => {
+  describe('query schemas', () => {
+    it('should apply defaults and parse edge types', () => {
+      expect(gameGraphQuerySchema.parse({})).toEqual({ locale: 'en', depth: 1 });
+      expect(gameGraphQuerySchema.parse({ depth: '2', types: 'dlc, remake' })).toMatchObject({
+        depth: 2,
+        types: ['dlc', 'remake'],
+      });
+    });
+
+    it('should reject unknown edge types, unsupported locales and excessive depth', () => {
+      expect(gameGraphQuerySchema.safeParse({ types: 'sequel' }).success).toBe(false);
+      expect(gameGraphQuerySchema.safeParse({ locale: 'xx' }).success).toBe(false);
+      expect(gameGraphQuerySchema.safeParse({ depth: '4' }).success).toBe(false);
+      expect(gameTimelineQuerySchema.parse({ includeAll: 'true' }).includeAll).toBe(true);
+    });
+  });
+
+  describe('buildGraphPopulate', () => {
+    it('should only populate relations for the requested edge types', () => {
+      expect(Object.keys(buildGraphPopulate(['dlc', 'franchise-sibling']))).toEqual([
+        'parentGame',
+        'dlcs',
+        'franchises',
+      ]);
+    });
+  });
+
+  describe('buildGameGraph', () => {
+    it('should return typed edges to directly related games', async () => {
+      const { strapi, gameService } = createMockStrapi();
+
+      const graph = await buildGameGraph(strapi, 'botw', { locale: 'es', depth: 1 });
+
+      expect(graph.root).toBe('doc-botw');
+      expect(graph.nodes.find((n) => n.slug === 'botw')?.depth).toBe(0);
+      expect(graph.nodes.filter((n) => n.depth === 1).map((n) => n.slug).sort()).toEqual(
+        ['botw-champions', 'oot', 'oot-3d', 'totk', 'zelda-next'].sort()
+      );
+      expect(graph.edges).toContainEqual({ source: 'doc-botw', target: 'doc-botw-champions', type: 'dlc' });
+      expect(graph.edges).toContainEqual({
+        source: 'doc-botw',
+        target: 'doc-totk',
+        type: 'franchise-sibling',
+        via: zelda,
+      });
+      expect(graph.truncated).toBe(false);
+
+      // One lookup for the root plus one batched query for the frontier
+      expect(gameService.findFirst).toHaveBeenCalledWith(expect.objectContaining({ locale: 'es', status: 'published' }));
+      expect(gameService.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expand one batched query per depth level and dedupe edges', async () => {
+      const { strapi, gameService } = createMockStrapi();
+
+      const graph = await buildGameGraph(strapi, 'botw', { locale: 'en', depth: 2 });
+
+      expect(gameService.findMany).toHaveBeenCalledTimes(2);
+      expect(gameService.findMany.mock.calls[1][0].filters.documentId.$in).toHaveLength(5);
+      expect(graph.edges).toContainEqual({ source: 'doc-oot', target: 'doc-oot-3d', type: 'remake' });
+      expect(graph.edges).toContainEqual({ source: 'doc-totk', target: 'doc-botw', type: 'similar' });
+      // botw -> dlc is found from both ends but listed once
+      expect(graph.edges.filter((e) => e.type === 'dlc')).toHaveLength(1);
+    });
+
+    it('should only follow the requested edge types', async () => {
+      const { strapi } = createMockStrapi();
+
+      const graph = await buildGameGraph(strapi, 'botw', { locale: 'en', depth: 1, types: ['dlc'] });
+
+      expect(graph.nodes.map((n) => n.slug)).toEqual(['botw', 'botw-champions']);
+      expect(graph.edges.every((e) => e.type === 'dlc')).toBe(true);
+    });
+
+    it('should throw a 404 GameGraphError for unknown slugs', async () => {
+      const { strapi } = createMockStrapi();
+
+      const error = await buildGameGraph(strapi, 'missing', { locale: 'en', depth: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(GameGraphError);
+      expect(error.status).toBe(404);
+    });
+  });
+
+  describe('buildFranchiseTimeline', () => {
+    it('should order franchise games by release date and hide DLCs by default', async () => {
+      const { strapi } = createMockStrapi();
+
+      const result = await buildFranchiseTimeline(strapi, 'botw', { locale: 'en' });
+
+      expect(result.franchises).toHaveLength(1);
+      expect(result.franchises[0].games.map((g) => g.slug)).toEqual(['oot', 'oot-3d', 'botw', 'totk', 'zelda-next']);
+      expect(result.franchises[0].games.find((g) => g.isCurrent)?.slug).toBe('botw');
+    });
+
+    it('should include every category when asked', async () => {
+      const { strapi } = createMockStrapi();
+
+      const result = await buildFranchiseTimeline(strapi, 'botw', { locale: 'en', includeAll: true });
+
+      expect(result.franchises[0].games.map((g) => g.slug)).toContain('botw-champions');
+    });
+
+    it('should 404 when the game is not in the requested franchise', async () => {
+      const { strapi } = createMockStrapi();
+
+      await expect(
+        buildFranchiseTimeline(strapi, 'totk', { locale: 'en', franchise: 'metroid' })
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('compareByReleaseDate', () => {
+    it('should put undated games last and break ties by name', () => {
+      const sorted = [undated, node('b', '2020-01-01'), node('a', '2020-01-01')].sort(compareByReleaseDate);
+      expect(sorted.map((g) => g.slug)).toEqual(['a', 'b', 'zelda-next']);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Configured Locale Strategy Unit Tests
+ *
+ * Tests the locale configuration, IGDB localized name resolution and the
+ * config-driven game locale strategy against a mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  getContentLocales,
+  getLocaleDefinition,
+  isSupportedLocale,
+  type LocaleDefinition,
+} from '../../../src/utils/locales';
+import { createLocaleStrategy } from '../../../src/api/game/locale-sync/strategies/configured';
+import { getConfiguredLocales, isLocaleConfigured } from '../../../src/api/game/locale-sync';
+import type { GameLocaleData } from '../../../src/api/game/locale-sync/types';
+import igdbService from '../../../src/api/game-fetcher/services/igdb';
+import type { IGDBGameLocalization } from '../../../src/types/igdb';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createLocaleData(overrides: Partial<GameLocaleData> = {}): GameLocaleData {
+  return {
+    documentId: 'game-doc-1',
+    sourceId: 1,
+    localizedNames: {
+      en: { name: 'The Legend of Zelda: Tears of the Kingdom', coverUrl: 'https://images.igdb.com/en.jpg' },
+      fr: { name: 'The Legend of Zelda : Tears of the Kingdom', coverUrl: 'https://images.igdb.com/fr.jpg' },
+    },
+    gameData: {
+      description: 'Test description',
+      releaseDate: '2023-05-12',
+      gameCategory: 'main_game',
+      gameStatus: 'released',
+      coverImageUrl: 'https://images.igdb.com/en.jpg',
+      screenshotUrls: [],
+      trailerIds: [],
+      metacriticScore: null,
+      userRating: null,
+      userRatingCount: null,
+      totalRating: null,
+      totalRatingCount: null,
+      hypes: null,
+      multiplayerModes: [],
+      officialWebsite: null,
+      steamUrl: null,
+      epicUrl: null,
+      gogUrl: null,
+      itchUrl: null,
+      discordUrl: null,
+      igdbId: 119388,
+      igdbUrl: null,
+    },
+    relationIds: {
+      developers: [],
+      publishers: [],
+      franchises: [],
+      collections: [],
+      platforms: ['platform-switch'],
+      genres: ['genre-adventure', 'genre-rpg'],
+      languages: [],
+      ageRatings: [],
+      gameEngines: [],
+      gameModes: [],
+      playerPerspectives: [],
+      themes: [],
+      keywords: [],
+    },
+    ...overrides,
+  };
+}
+
+/**
+ * Mock Strapi where `localizedDocs` lists the related documentIds that
+ * exist in the target locale
+ */
+function createMockStrapi(localizedDocs: string[] = []) {
+  const gameService = {
+    findOne: vi.fn().mockResolvedValue(null),
+    update: vi.fn().mockResolvedValue({ id: 2 }),
+    publish: vi.fn().mockResolvedValue({}),
+  };
+  const relatedFindMany = vi.fn(async ({ filters }: { filters: { documentId: { $in: string[] } } }) =>
+    filters.documentId.$in
+      .filter(id => localizedDocs.includes(id))
+      .map(documentId => ({ documentId }))
+  );
+
+  const strapi = {
+    documents: vi.fn((uid: string) =>
+      uid === 'api::game.game' ? gameService : { findMany: relatedFindMany }
+    ),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, gameService, relatedFindMany };
+}
+
+// ============================================================================
+// Locale configuration
+// ============================================================================
+
+describe('Locale configuration', () => {
+  const originalContentLocales = process.env.CONTENT_LOCALES;
+
+  afterEach(() => {
+    if (originalContentLocales === undefined) {
+      delete process.env.CONTENT_LOCALES;
+    } else {
+      process.env.CONTENT_LOCALES = originalContentLocales;
+    }
+  });
+
+  it('should define French, German and Portuguese', () => {
+    expect(isSupportedLocale('fr')).toBe(true);
+    expect(isSupportedLocale('de')).toBe(true);
+    expect(isSupportedLocale('pt-BR')).toBe(true);
+    expect(isSupportedLocale('xx')).toBe(false);
+  });
+
+  it('should default to Spanish when CONTENT_LOCALES is not set', () => {
+    delete process.env.CONTENT_LOCALES;
+    expect(getContentLocales().map(l => l.code)).toEqual(['es']);
+  });
+
+  it('should read content locales from CONTENT_LOCALES', () => {
+    process.env.CONTENT_LOCALES = 'es, fr,de,pt-BR';
+    expect(getContentLocales().map(l => l.code)).toEqual(['es', 'fr', 'de', 'pt-BR']);
+  });
+
+  it('should ignore unknown codes, duplicates and the source locale', () => {
+    process.env.CONTENT_LOCALES = 'en,fr,fr,klingon';
+    expect(getContentLocales().map(l => l.code)).toEqual(['fr']);
+  });
+
+  it('should register a sync strategy for every content locale', () => {
+    process.env.CONTENT_LOCALES = 'es,de';
+    expect(getConfiguredLocales()).toEqual(['es', 'de']);
+    expect(isLocaleConfigured('de')).toBe(true);
+    expect(isLocaleConfigured('fr')).toBe(false);
+  });
+});
+
+// ============================================================================
+// IGDB localized names
+// ============================================================================
+
+describe('igdb.getLocalizedName', () => {
+  const mockStrapi = { log: { info: vi.fn(), warn: vi.fn() } } as unknown as Core.Strapi;
+  const igdb = igdbService({ strapi: mockStrapi });
+  const french = getLocaleDefinition('fr') as LocaleDefinition;
+  const german = getLocaleDefinition('de') as LocaleDefinition;
+
+  const localizations = [
+    { id: 1, name: 'Pokémon Écarlate', region: { id: 1, identifier: 'fr_FR', name: 'France' }, cover: { id: 1, image_id: 'frcover' } },
+    { id: 2, name: 'Pokémon Karmesin', region: { id: 2, identifier: 'eu_DE', name: 'Germany' } },
+  ] as unknown as IGDBGameLocalization[];
+
+  it('should use the localization matching a region identifier', () => {
+    const result = igdb.getLocalizedName(localizations, [], 'Pokémon Scarlet', french);
+
+    expect(result.name).toBe('Pokémon Écarlate');
+    expect(result.coverUrl).toContain('frcover');
+  });
+
+  it('should fall back to matching the region name', () => {
+    const result = igdb.getLocalizedName(localizations, [], 'Pokémon Scarlet', german);
+
+    expect(result).toEqual({ name: 'Pokémon Karmesin', coverUrl: null });
+  });
+
+  it('should use alternative names with a matching comment', () => {
+    const result = igdb.getLocalizedName(
+      [],
+      [{ name: 'Pokémon Karmesin', comment: 'German title' }],
+      'Pokémon Scarlet',
+      german
+    );
+
+    expect(result.name).toBe('Pokémon Karmesin');
+  });
+
+  it('should fall back to the English name', () => {
+    const result = igdb.getLocalizedName([], [], 'Pokémon Scarlet', french);
+
+    expect(result).toEqual({ name: 'Pokémon Scarlet', coverUrl: null });
+  });
+});
+
+// ============================================================================
+// Configured locale strategy
+// ============================================================================
+
+describe('createLocaleStrategy', () => {
+  const french = getLocaleDefinition('fr') as LocaleDefinition;
+
+  let mocks: ReturnType<typeof createMockStrapi>;
+
+  beforeEach(() => {
+    mocks = createMockStrapi(['platform-switch', 'genre-adventure']);
+  });
+
+  it('should create and publish the locale with its localized name and description', async () => {
+    const strategy = createLocaleStrategy(french);
+    const data = createLocaleData({ aiDescriptions: { fr: 'Description en français' } });
+
+    await strategy.createLocale(mocks.strapi, data);
+
+    expect(strategy.locale).toBe('fr');
+    const [createCall, descriptionCall] = mocks.gameService.update.mock.calls.map(c => c[0]);
+    expect(createCall.locale).toBe('fr');
+    expect(createCall.data.name).toBe('The Legend of Zelda : Tears of the Kingdom');
+    expect(createCall.data.slug).toBe('the-legend-of-zelda-tears-of-the-kingdom');
+    expect(createCall.data.coverImageUrl).toBe('https://images.igdb.com/fr.jpg');
+    expect(descriptionCall.data.description).toBe('Description en français');
+    expect(mocks.gameService.publish).toHaveBeenCalledWith({ documentId: 'game-doc-1', locale: 'fr' });
+  });
+
+  it('should only connect related documents that exist in the locale', async () => {
+    await createLocaleStrategy(french).createLocale(mocks.strapi, createLocaleData());
+
+    const createCall = mocks.gameService.update.mock.calls[0][0];
+    expect(createCall.data.platforms).toEqual({ connect: ['platform-switch'] });
+    expect(createCall.data.genres).toEqual({ connect: ['genre-adventure'] });
+    expect(mocks.relatedFindMany).toHaveBeenCalledWith(expect.objectContaining({ locale: 'fr' }));
+    expect(mocks.strapi.log.warn).toHaveBeenCalledWith(expect.stringContaining('1/2 genres'));
+  });
+
+  it('should fall back to English name when no localized name is available', async () => {
+    const german = getLocaleDefinition('de') as LocaleDefinition;
+
+    await createLocaleStrategy(german).createLocale(mocks.strapi, createLocaleData());
+
+    const createCall = mocks.gameService.update.mock.calls[0][0];
+    expect(createCall.data.name).toBe('The Legend of Zelda: Tears of the Kingdom');
+    expect(mocks.gameService.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip when the locale already exists', async () => {
+    mocks.gameService.findOne.mockResolvedValue({ id: 3, documentId: 'game-doc-1' });
+
+    await createLocaleStrategy(french).createLocale(mocks.strapi, createLocaleData());
+
+    expect(mocks.gameService.update).not.toHaveBeenCalled();
+    expect(mocks.gameService.publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Game Review Scores Unit Tests
+ *
+ * Tests score aggregation over review posts and query validation against a
+ * mocked Strapi instance.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  gameReviewScoresQuerySchema,
+  getGameReviewScores,
+  GameReviewScoresError,
+} from '../../../src/api/game/services/review-scores';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function review(slug: string, score: number | null) {
+  return {
+    documentId: `post-${slug}`,
+    title: slug.toUpperCase(),
+    slug,
+    publishedAt: '2026-01-01T00:00:00.000Z',
+    verdict: score === null ? null : { score, summary: `${slug} summary`, pros: [], cons: [], playItIf: [], platformNotes: [] },
+  };
+}
+
+function createMockStrapi(posts: unknown[]) {
+  const gameService = {
+    findFirst: vi.fn(async ({ filters }: { filters: { slug: string } }) =>
+      filters.slug === 'elden-ring' ? { documentId: 'game-1', name: 'Elden Ring', slug: 'elden-ring' } : null
+    ),
+  };
+  const postService = { findMany: vi.fn().mockResolvedValue(posts) };
+  const categoryService = {
+    findFirst: vi.fn(async ({ filters, locale }: { filters: { slug: string }; locale: string }) =>
+      // Category slugs are localized: only the English entry is "reviews"
+      locale === 'en' && filters.slug === 'reviews' ? { documentId: 'cat-reviews', slug: 'reviews' } : null
+    ),
+  };
+  const services: Record<string, unknown> = {
+    'api::game.game': gameService,
+    'api::post.post': postService,
+    'api::category.category': categoryService,
+  };
+
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+  } as unknown as Core.Strapi;
+
+  return { strapi, postService, categoryService };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getGameReviewScores', () => {
+  it('should average the verdict scores of published reviews', async () => {
+    const { strapi, postService } = createMockStrapi([review('main', 9), review('dlc', 7.5), review('old', null)]);
+
+    const result = await getGameReviewScores(strapi, 'elden-ring', { locale: 'en' });
+
+    expect(result.averageScore).toBe(8.3);
+    expect(result.bestScore).toBe(10);
+    expect(result.reviewCount).toBe(2);
+    expect(result.reviews.map((entry) => [entry.slug, entry.score])).toEqual([
+      ['main', 9],
+      ['dlc', 7.5],
+    ]);
+    expect(postService.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        locale: 'en',
+        status: 'published',
+        filters: expect.objectContaining({
+          games: { documentId: 'game-1' },
+          category: { documentId: 'cat-reviews' },
+        }),
+      })
+    );
+  });
+
+  it('should match reviews in other locales by the English category', async () => {
+    const { strapi, postService, categoryService } = createMockStrapi([review('analisis', 8)]);
+
+    const result = await getGameReviewScores(strapi, 'elden-ring', { locale: 'es' });
+
+    expect(result).toMatchObject({ locale: 'es', averageScore: 8, reviewCount: 1 });
+    expect(categoryService.findFirst).toHaveBeenCalledWith(expect.objectContaining({ locale: 'en' }));
+    expect(postService.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        locale: 'es',
+        filters: expect.objectContaining({ category: { documentId: 'cat-reviews' } }),
+      })
+    );
+  });
+
+  it('should return a null average without reviews', async () => {
+    const { strapi } = createMockStrapi([]);
+    const result = await getGameReviewScores(strapi, 'elden-ring', { locale: 'en' });
+
+    expect(result).toMatchObject({ averageScore: null, reviewCount: 0, reviews: [] });
+  });
+
+  it('should throw 404 for unknown games', async () => {
+    const { strapi } = createMockStrapi([]);
+    const error = await getGameReviewScores(strapi, 'missing', { locale: 'en' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GameReviewScoresError);
+    expect(error.status).toBe(404);
+  });
+});
+
+describe('gameReviewScoresQuerySchema', () => {
+  it('should default the locale and reject unsupported ones', () => {
+    expect(gameReviewScoresQuerySchema.parse({})).toEqual({ locale: 'en' });
+    expect(gameReviewScoresQuerySchema.safeParse({ locale: 'xx' }).success).toBe(false);
+  });
+});
@@ -193,7 +193,7 @@ describe('Platform Description Service', () => {
           documentId: 'test-doc-id',
           sourceId: 123,
           name: 'Nintendo Switch',
-          aiDescription: sampleDescriptions.es,
+          aiDescriptions: { es: sampleDescriptions.es },
           platformData: expect.objectContaining({
             slug: 'nintendo-switch',
             manufacturer: 'Nintendo',
@@ -34,6 +34,11 @@ describe('Platform Description Prompts', () => {
       expect(prompt).not.toContain('Write the description in English.');
     });
 
+    it('should include the configured language instruction for other locales', () => {
+      expect(platformDescriptionsConfig.buildPrompt(context, 'fr')).toContain('Write the description entirely in French');
+      expect(platformDescriptionsConfig.buildPrompt(context, 'pt-BR')).toContain('Write the description entirely in Portuguese');
+    });
+
     it('should include platform name in prompt', () => {
       const prompt = platformDescriptionsConfig.buildPrompt(context, 'en');
       
@@ -70,8 +75,8 @@ describe('Platform Description Prompts', () => {
       );
     });
 
-    it('should mention both English and Spanish', () => {
-      expect(platformDescriptionsConfig.systemPrompt).toContain('English or Spanish');
+    it('should mention every supported language', () => {
+      expect(platformDescriptionsConfig.systemPrompt).toContain('English, Spanish, French, German or Portuguese');
     });
   });
 
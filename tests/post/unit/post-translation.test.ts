@@ -0,0 +1,472 @@
+/**
+ * Post Translation Unit Tests
+ *
+ * Tests reference protection, translation validation and the per-locale
+ * fan-out against a mocked Strapi instance (no AI calls).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildLocalizedDraft,
+  getHeadingOutline,
+  protectReferences,
+  restoreReferences,
+  PostTranslationError,
+  type LocalizedPostDraft,
+  type SourcePostForTranslation,
+} from '../../../src/api/post/services/post-translation';
+import { syncPostLocales } from '../../../src/api/post/services/post-locale-sync';
+import { generateAudioFromMarkdown } from '../../../src/ai/articles/services/tts-generator';
+import type { GenerateArticleAudioInput } from '../../../src/ai/articles/services/article-audio-generator';
+import { getLocaleDefinition, type LocaleDefinition } from '../../../src/utils/locales';
+
+// Narration is opt-in per test via the `narrate` option
+vi.mock('../../../src/ai/articles/services/article-audio-generator', () => ({
+  generateAndUploadArticleAudio: vi.fn().mockResolvedValue(null),
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const CONTENT = `## Getting Started
+
+![Map of Hyrule](https://cdn.example.com/map.png "Hyrule")
+
+Read our [beginner guide](/guides/zelda-beginner) first.
+
+## Bosses
+
+<img src="https://cdn.example.com/boss.png" alt="Boss">
+`;
+
+const es = getLocaleDefinition('es') as LocaleDefinition;
+const fr = getLocaleDefinition('fr') as LocaleDefinition;
+const de = getLocaleDefinition('de') as LocaleDefinition;
+
+function createOutput(content: string, overrides: Record<string, unknown> = {}) {
+  return {
+    title: 'Guía de Zelda',
+    excerpt: 'x'.repeat(130),
+    content,
+    tags: [],
+    chapterTitles: [],
+    ...overrides,
+  };
+}
+
+function createMockStrapi(content: string = CONTENT) {
+  const posts = new Map<string, Record<string, unknown>>();
+  let translationStatus: Record<string, unknown> | null = null;
+
+  const enPost = {
+    documentId: 'post-1',
+    title: 'Zelda Guide',
+    excerpt: 'Excerpt',
+    content,
+    category: { documentId: 'cat-1' },
+    author: { documentId: 'author-1' },
+    games: [{ documentId: 'game-1' }],
+    tags: [{ documentId: 'tag-1', name: 'Boss Guide' }, { documentId: 'tag-2', name: 'Beginner Tips' }],
+    audioFile: {
+      alternativeText: 'Audio narration for Zelda Guide',
+      provider_metadata: { ttsInfo: { chapters: [{ title: 'Getting Started', startTime: 0 }, { title: 'Bosses', startTime: 42 }] } },
+    },
+  };
+
+  const published = new Set<string>();
+
+  const postService = {
+    findOne: vi.fn(async ({ locale, status }: { locale: string; status?: string }) => {
+      if (locale === 'en') return enPost;
+      if (status === 'published' && !published.has(locale)) return null;
+      return posts.get(locale) ?? null;
+    }),
+    update: vi.fn(async ({ locale, data }: { locale: string; data: Record<string, unknown> }) => {
+      posts.set(locale, data);
+      return data;
+    }),
+    publish: vi.fn(async ({ locale }: { locale: string }) => {
+      published.add(locale);
+      return {};
+    }),
+  };
+  // Games exist in es/fr only
+  const gameService = {
+    findOne: vi.fn(async ({ locale }: { locale: string }) => (['es', 'fr'].includes(locale) ? { documentId: 'game-1' } : null)),
+  };
+  // tag-1 already has an es locale
+  const tagService = {
+    findOne: vi.fn(async ({ documentId, locale }: { documentId: string; locale: string }) =>
+      documentId === 'tag-1' && locale === 'es' ? { documentId } : null
+    ),
+    update: vi.fn().mockResolvedValue({}),
+    publish: vi.fn().mockResolvedValue({}),
+  };
+  const query = {
+    findOne: vi.fn(async () => ({ translationStatus })),
+    updateMany: vi.fn(async ({ data }: { data: { translationStatus: Record<string, unknown> } }) => {
+      translationStatus = data.translationStatus;
+      return { count: 1 };
+    }),
+  };
+
+  const services: Record<string, unknown> = {
+    'api::post.post': postService,
+    'api::game.game': gameService,
+    'api::tag.tag': tagService,
+  };
+
+  const strapi = {
+    documents: vi.fn((uid: string) => services[uid]),
+    db: { query: vi.fn(() => query) },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, posts, published, postService, tagService, getStatus: () => translationStatus };
+}
+
+function fakeTranslate(input: SourcePostForTranslation, locale: LocaleDefinition): Promise<LocalizedPostDraft> {
+  return Promise.resolve({
+    locale: locale.code,
+    title: `[${locale.code}] ${input.title}`,
+    slug: `${locale.code}-zelda-guide`,
+    excerpt: input.excerpt ?? '',
+    content: input.content,
+    tags: (input.tags ?? []).map(name => `[${locale.code}] ${name}`),
+    ...(input.audio
+      ? { audio: { ...input.audio, chapters: input.audio.chapters.map(c => ({ ...c, title: `[${locale.code}] ${c.title}` })) } }
+      : {}),
+  });
+}
+
+// ============================================================================
+// Reference protection
+// ============================================================================
+
+describe('protectReferences / restoreReferences', () => {
+  it('should replace image, link and HTML targets with placeholders', () => {
+    const { text, references } = protectReferences(CONTENT);
+
+    expect(references.map(r => r.value)).toEqual([
+      'https://cdn.example.com/map.png',
+      '/guides/zelda-beginner',
+      'https://cdn.example.com/boss.png',
+    ]);
+    expect(text).toContain('![Map of Hyrule]({{ref:0}} "Hyrule")');
+    expect(text).toContain('[beginner guide]({{ref:1}})');
+    expect(text).toContain('<img src="{{ref:2}}"');
+    expect(text).not.toContain('cdn.example.com');
+  });
+
+  it('should protect reference-style link definitions', () => {
+    const { text, references } = protectReferences('See [the wiki][1].\n\n[1]: https://example.com/wiki');
+
+    expect(references[0].value).toBe('https://example.com/wiki');
+    expect(text).toContain('[1]: {{ref:0}}');
+  });
+
+  it('should round-trip translated text', () => {
+    const { text, references } = protectReferences(CONTENT);
+    const translated = text.replace('Map of Hyrule', 'Mapa de Hyrule').replace('beginner guide', 'guía para principiantes');
+
+    const restored = restoreReferences(translated, references);
+
+    expect(restored).toContain('![Mapa de Hyrule](https://cdn.example.com/map.png "Hyrule")');
+    expect(restored).toContain('[guía para principiantes](/guides/zelda-beginner)');
+  });
+
+  it('should protect citation markers', () => {
+    const { text, references } = protectReferences('Launched in 2023. [^src-1a2b3c4d] Sold 10M copies.[^src-0f0f0f0f]');
+
+    expect(references.map(r => r.value)).toEqual(['[^src-1a2b3c4d]', '[^src-0f0f0f0f]']);
+    expect(text).toBe('Launched in 2023. {{ref:0}} Sold 10M copies.{{ref:1}}');
+  });
+
+  it('should throw when a placeholder is dropped', () => {
+    const { text, references } = protectReferences(CONTENT);
+
+    expect(() => restoreReferences(text.replace('{{ref:1}}', '/otra-url'), references))
+      .toThrow(PostTranslationError);
+  });
+});
+
+describe('getHeadingOutline', () => {
+  it('should list heading levels outside code fences', () => {
+    expect(getHeadingOutline('# A\n## B\n```\n## not a heading\n```\n### C')).toEqual([1, 2, 3]);
+  });
+});
+
+// ============================================================================
+// Draft validation
+// ============================================================================
+
+describe('buildLocalizedDraft', () => {
+  const input: SourcePostForTranslation = {
+    title: 'Zelda Guide',
+    content: CONTENT,
+    tags: ['Boss Guide'],
+    audio: { alternativeText: 'Audio narration', chapters: [{ title: 'Getting Started', startTime: 0 }, { title: 'Bosses', startTime: 42 }] },
+  };
+
+  it('should restore references and map translated chapters onto source timings', () => {
+    const { text, references } = protectReferences(CONTENT);
+    const draft = buildLocalizedDraft('es', input, createOutput(text.replace('Bosses', 'Jefes'), {
+      tags: ['Guía de jefes'],
+      chapterTitles: ['Primeros pasos', 'Jefes'],
+      audioAlternativeText: 'Narración de audio',
+    }), references);
+
+    expect(draft.slug).toBe('guia-de-zelda');
+    expect(draft.content).toContain('https://cdn.example.com/map.png');
+    expect(draft.tags).toEqual(['Guía de jefes']);
+    expect(draft.audio).toEqual({
+      alternativeText: 'Narración de audio',
+      chapters: [{ title: 'Primeros pasos', startTime: 0 }, { title: 'Jefes', startTime: 42 }],
+    });
+  });
+
+  it('should reject a translation that changes the heading structure', () => {
+    const { text, references } = protectReferences(CONTENT);
+    const flattened = text.replace('## Bosses', 'Bosses');
+
+    expect(() => buildLocalizedDraft('es', input, createOutput(flattened, {
+      tags: ['x'], chapterTitles: ['a', 'b'],
+    }), references)).toThrow(/Heading structure changed/);
+  });
+
+  it('should reject a translation with the wrong number of chapter titles', () => {
+    const { text, references } = protectReferences(CONTENT);
+
+    expect(() => buildLocalizedDraft('es', input, createOutput(text, {
+      tags: ['x'], chapterTitles: ['a'],
+    }), references)).toThrow(/chapter titles/);
+  });
+
+  it('should translate the review verdict and keep its score and platforms', () => {
+    const verdict = {
+      score: 8.5,
+      summary: 'A confident return to form with a few rough edges.',
+      pros: ['Tight combat', 'Huge world'],
+      cons: ['Frame drops'],
+      playItIf: ['You loved Breath of the Wild'],
+      platformNotes: [{ platform: 'Switch', note: 'Dips below 30fps in towns' }],
+    };
+    const { text, references } = protectReferences(CONTENT);
+    const output = {
+      tags: ['x'],
+      chapterTitles: ['a', 'b'],
+      verdictSummary: 'Un regreso seguro con algunas asperezas.',
+      verdictPros: ['Combate preciso', 'Mundo enorme'],
+      verdictCons: ['Caídas de fps'],
+      verdictPlayItIf: ['Te encantó Breath of the Wild'],
+      verdictPlatformNotes: ['Baja de 30 fps en los pueblos'],
+    };
+
+    const draft = buildLocalizedDraft('es', { ...input, verdict }, createOutput(text, output), references);
+    expect(draft.verdict).toEqual({
+      score: 8.5,
+      summary: 'Un regreso seguro con algunas asperezas.',
+      pros: ['Combate preciso', 'Mundo enorme'],
+      cons: ['Caídas de fps'],
+      playItIf: ['Te encantó Breath of the Wild'],
+      platformNotes: [{ platform: 'Switch', note: 'Baja de 30 fps en los pueblos' }],
+    });
+
+    expect(() => buildLocalizedDraft('es', { ...input, verdict }, createOutput(text, {
+      ...output, verdictPros: ['Combate preciso'],
+    }), references)).toThrow(/Expected 2 verdict pros, got 1/);
+  });
+});
+
+// ============================================================================
+// Locale fan-out
+// ============================================================================
+
+describe('syncPostLocales', () => {
+  let mocks: ReturnType<typeof createMockStrapi>;
+
+  beforeEach(() => {
+    mocks = createMockStrapi();
+  });
+
+  it('should translate into every locale and record per-locale status', async () => {
+    const results = await syncPostLocales(mocks.strapi, 'post-1', { locales: [es, fr, de], translate: fakeTranslate });
+
+    expect(results.map(r => [r.locale, r.status])).toEqual([
+      ['es', 'completed'],
+      ['fr', 'completed'],
+      ['de', 'skipped'],
+    ]);
+    const status = mocks.getStatus() as Record<string, { status: string; error?: string }>;
+    expect(status.es.status).toBe('completed');
+    expect(status.fr.status).toBe('completed');
+    expect(status.de.status).toBe('skipped');
+    expect(status.de.error).toContain('Game missing de locale');
+  });
+
+  it('should connect relations and store localized audio metadata', async () => {
+    await syncPostLocales(mocks.strapi, 'post-1', { locales: [fr], translate: fakeTranslate });
+
+    const frPost = mocks.posts.get('fr') as Record<string, any>;
+    expect(frPost.title).toBe('[fr] Zelda Guide');
+    expect(frPost.games).toEqual({ connect: ['game-1'] });
+    expect(frPost.tags).toEqual({ connect: ['tag-1', 'tag-2'] });
+    expect(frPost.audioMetadata.chapters.map((c: { title: string }) => c.title))
+      .toEqual(['[fr] Getting Started', '[fr] Bosses']);
+    expect(mocks.postService.publish).toHaveBeenCalledWith({ documentId: 'post-1', locale: 'fr' });
+  });
+
+  it('should only translate tags that lack the locale', async () => {
+    const translate = vi.fn(fakeTranslate);
+
+    await syncPostLocales(mocks.strapi, 'post-1', { locales: [es], translate });
+
+    expect(translate.mock.calls[0][0].tags).toEqual(['Beginner Tips']);
+    expect(mocks.tagService.update).toHaveBeenCalledTimes(1);
+    expect(mocks.tagService.update).toHaveBeenCalledWith(expect.objectContaining({
+      documentId: 'tag-2',
+      locale: 'es',
+      data: { name: '[es] Beginner Tips', slug: 'es-beginner-tips' },
+    }));
+  });
+
+  it('should not let one failed locale block the others', async () => {
+    const translate = vi.fn(async (input: SourcePostForTranslation, locale: LocaleDefinition) => {
+      if (locale.code === 'es') throw new Error('Model timeout');
+      return fakeTranslate(input, locale);
+    });
+
+    const results = await syncPostLocales(mocks.strapi, 'post-1', { locales: [es, fr], translate });
+
+    expect(results).toEqual([
+      { locale: 'es', status: 'failed', error: 'Model timeout' },
+      { locale: 'fr', status: 'completed' },
+    ]);
+    const status = mocks.getStatus() as Record<string, { status: string; error?: string }>;
+    expect(status.es).toMatchObject({ status: 'failed', error: 'Model timeout' });
+    expect(mocks.posts.has('es')).toBe(false);
+  });
+
+  it('should narrate each locale and attach audio with chapters from the translated headings', async () => {
+    // Silent engine runs the real chunking/chapter pipeline offline
+    const narrate = vi.fn(async (input: GenerateArticleAudioInput) => {
+      const audio = await generateAudioFromMarkdown(input.markdown, { provider: 'silent', locale: input.locale });
+      return {
+        id: 77, documentId: 'audio-fr', url: 'https://cdn.example.com/audio.mp3', durationMs: 1,
+        chunkCount: audio.chunkCount, chapterFileId: 78, chapters: audio.chapters, voice: audio.voiceId,
+      };
+    });
+    const translate = vi.fn(async (input: SourcePostForTranslation, locale: LocaleDefinition) => {
+      const draft = await fakeTranslate(input, locale);
+      return { ...draft, content: draft.content.replace('## Getting Started', '## Premiers pas').replace('## Bosses', '## Boss') };
+    });
+
+    await syncPostLocales(mocks.strapi, 'post-1', { locales: [fr], translate, narrate });
+
+    expect(narrate).toHaveBeenCalledWith(expect.objectContaining({
+      locale: 'fr',
+      articleTitle: '[fr] Zelda Guide',
+      articleSlug: 'fr-zelda-guide',
+    }));
+    expect(narrate.mock.calls[0][0].markdown).not.toContain('cdn.example.com/map.png');
+
+    const frPost = mocks.posts.get('fr') as Record<string, any>;
+    expect(frPost.audioFile).toBe(77);
+    expect(frPost.chapterFile).toBe(78);
+    expect(frPost.audioMetadata.alternativeText).toBe('Audio narration for Zelda Guide');
+    expect(frPost.audioMetadata.chapters.map((c: { title: string }) => c.title)).toEqual(['Premiers pas', 'Boss']);
+    expect(frPost.audioMetadata.chapters[1].startTime).toBeGreaterThan(frPost.audioMetadata.chapters[0].startTime);
+
+    const status = mocks.getStatus() as Record<string, any>;
+    expect(status.fr.audio).toMatchObject({ status: 'completed', voice: 'silent' });
+  });
+
+  it('should keep citation markers through translation and leave them out of the narration', async () => {
+    const cited = `## Getting Started
+
+Released in 2023 on Switch.[^src-1a2b3c4d] It sold 10 million copies in three days.[^src-0f0f0f0f]
+`;
+    const citedMocks = createMockStrapi(cited);
+    // Real placeholder round-trip; the "model" translates around the placeholders
+    const translate = vi.fn(async (input: SourcePostForTranslation, locale: LocaleDefinition) => {
+      const { text, references } = protectReferences(input.content);
+      const translated = text
+        .replace('Getting Started', 'Premiers pas')
+        .replace('Released in 2023 on Switch.', 'Sorti en 2023 sur Switch.')
+        .replace('It sold 10 million copies in three days.', 'Il s’est vendu à 10 millions d’exemplaires en trois jours.');
+      return buildLocalizedDraft(locale.code, input, createOutput(translated, {
+        title: 'Guide de Zelda',
+        tags: (input.tags ?? []).map(name => `[fr] ${name}`),
+        chapterTitles: (input.audio?.chapters ?? []).map(c => `[fr] ${c.title}`),
+      }), references);
+    });
+    const narrate = vi.fn(async (input: GenerateArticleAudioInput) => {
+      const audio = await generateAudioFromMarkdown(input.markdown, { provider: 'silent', locale: input.locale });
+      return {
+        id: 77, documentId: 'audio-fr', url: 'https://cdn.example.com/audio.mp3', durationMs: 1,
+        chunkCount: audio.chunkCount, chapterFileId: 78, chapters: audio.chapters, voice: audio.voiceId,
+      };
+    });
+
+    const results = await syncPostLocales(citedMocks.strapi, 'post-1', { locales: [fr], translate, narrate });
+
+    expect(results).toEqual([{ locale: 'fr', status: 'completed' }]);
+    const frPost = citedMocks.posts.get('fr') as Record<string, any>;
+    expect(frPost.content).toContain('Sorti en 2023 sur Switch.[^src-1a2b3c4d]');
+    expect(frPost.content).toContain('trois jours.[^src-0f0f0f0f]');
+    expect(narrate.mock.calls[0][0].markdown).toContain('Sorti en 2023 sur Switch. Il s’est vendu');
+    expect(narrate.mock.calls[0][0].markdown).not.toContain('src-');
+  });
+
+  it('should keep the translation when narration fails', async () => {
+    const narrate = vi.fn().mockRejectedValue(new Error('Inworld API error (500): boom'));
+
+    const results = await syncPostLocales(mocks.strapi, 'post-1', { locales: [fr], translate: fakeTranslate, narrate });
+
+    expect(results).toEqual([{ locale: 'fr', status: 'completed' }]);
+    const frPost = mocks.posts.get('fr') as Record<string, any>;
+    expect(frPost.audioFile).toBeUndefined();
+    expect(frPost.audioMetadata.chapters.map((c: { title: string }) => c.title))
+      .toEqual(['[fr] Getting Started', '[fr] Bosses']);
+    const status = mocks.getStatus() as Record<string, any>;
+    expect(status.fr.audio).toMatchObject({ status: 'failed', error: 'Inworld API error (500): boom' });
+  });
+
+  it('should leave existing locales untouched', async () => {
+    mocks.posts.set('es', { title: 'Existing' });
+    const translate = vi.fn(fakeTranslate);
+
+    const results = await syncPostLocales(mocks.strapi, 'post-1', { locales: [es], translate });
+
+    expect(results).toEqual([{ locale: 'es', status: 'exists' }]);
+    expect(translate).not.toHaveBeenCalled();
+    expect(mocks.postService.publish).not.toHaveBeenCalled();
+  });
+
+  it('should finish a locale whose previous sync failed after creating the draft', async () => {
+    mocks.postService.publish.mockRejectedValueOnce(new Error('Publish failed'));
+    const translate = vi.fn(fakeTranslate);
+
+    const failed = await syncPostLocales(mocks.strapi, 'post-1', { locales: [es], translate });
+
+    expect(failed).toEqual([{ locale: 'es', status: 'failed', error: 'Publish failed' }]);
+    expect(mocks.posts.has('es')).toBe(true);
+    expect(mocks.published.has('es')).toBe(false);
+
+    const retried = await syncPostLocales(mocks.strapi, 'post-1', { locales: [es], translate });
+
+    expect(retried).toEqual([{ locale: 'es', status: 'completed' }]);
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(mocks.published.has('es')).toBe(true);
+    const status = mocks.getStatus() as Record<string, { status: string; error?: string }>;
+    expect(status.es).toEqual({ status: 'completed', updatedAt: expect.any(String) });
+
+    // Done now: a third run leaves it alone
+    expect(await syncPostLocales(mocks.strapi, 'post-1', { locales: [es], translate })).toEqual([
+      { locale: 'es', status: 'exists' },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Related Posts Service Unit Tests
+ *
+ * Tests candidate scoring, relation updates and locale-specific links
+ * against a mocked Strapi document service.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  linkRelatedPosts,
+  linkRelatedPostsForLocales,
+  rebuildRelatedPosts,
+} from '../../../src/api/post/services/related-posts';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const ELDEN_RING = { documentId: 'game-er', name: 'Elden Ring', slug: 'elden-ring', franchises: [{ documentId: 'souls' }] };
+
+function createPost(locale: string) {
+  return {
+    documentId: 'post-1',
+    title: 'Malenia Guide',
+    slug: locale === 'es' ? 'guia-de-malenia' : 'malenia-guide',
+    content: '# Malenia Guide\n\nMalenia is optional in Elden Ring.\n\n## Phase Two\n\nScarlet Rot builds up fast.\n',
+    category: { slug: 'guides' },
+    games: [ELDEN_RING],
+    tags: [{ documentId: 'tag-bosses', name: 'Bosses' }],
+  };
+}
+
+const CANDIDATES = [
+  {
+    documentId: 'post-rot',
+    title: 'Scarlet Rot Explained',
+    slug: 'scarlet-rot',
+    publishedAt: '2026-01-01T00:00:00.000Z',
+    category: { slug: 'guides' },
+    games: [ELDEN_RING],
+    tags: [{ documentId: 'tag-rot', name: 'Scarlet Rot' }],
+  },
+  {
+    documentId: 'post-ds3',
+    title: 'Dark Souls 3 Bosses',
+    slug: 'ds3-bosses',
+    publishedAt: '2025-01-01T00:00:00.000Z',
+    category: { slug: 'lists' },
+    games: [{ documentId: 'game-ds3', name: 'Dark Souls 3', slug: 'dark-souls-3', franchises: [{ documentId: 'souls' }] }],
+    tags: [],
+  },
+  {
+    documentId: 'post-weak',
+    title: 'Unrelated News',
+    slug: 'unrelated',
+    publishedAt: '2026-02-01T00:00:00.000Z',
+    category: { slug: 'news' },
+    games: [],
+    tags: [{ documentId: 'tag-bosses', name: 'Bosses' }],
+  },
+];
+
+function createMockStrapi(locales: string[] = ['en']) {
+  const postService = {
+    findOne: vi.fn(async ({ locale }: { locale: string }) => (locales.includes(locale) ? createPost(locale) : null)),
+    findMany: vi.fn(async (options: { status?: string }) =>
+      options.status === 'published' ? CANDIDATES : [{ documentId: 'post-1' }]
+    ),
+    update: vi.fn().mockResolvedValue({}),
+  };
+  const strapi = {
+    documents: vi.fn(() => postService),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, postService };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('linkRelatedPosts', () => {
+  it('should store scored related posts and link the game and related posts', async () => {
+    const { strapi, postService } = createMockStrapi();
+
+    const result = await linkRelatedPosts(strapi, 'post-1', 'en');
+
+    const query = postService.findMany.mock.calls[0][0];
+    expect(query.locale).toBe('en');
+    expect(query.filters.documentId).toEqual({ $ne: 'post-1' });
+
+    expect(result?.relatedPosts.map((p) => [p.documentId, p.score])).toEqual([
+      ['post-rot', 5 + 3 + 1],
+      ['post-ds3', 3],
+    ]);
+
+    const update = postService.update.mock.calls[0][0];
+    expect(update.locale).toBe('en');
+    expect(update.data.relatedPosts).toEqual({ set: ['post-rot', 'post-ds3'] });
+    expect(update.data.content).toContain('optional in [Elden Ring](/en/games/elden-ring).');
+    expect(update.data.content).toContain('[Scarlet Rot](/en/scarlet-rot) builds up fast');
+  });
+
+  it('should return null when the post has no entry in the locale', async () => {
+    const { strapi, postService } = createMockStrapi(['en']);
+
+    expect(await linkRelatedPosts(strapi, 'post-1', 'es')).toBeNull();
+    expect(postService.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('linkRelatedPostsForLocales / rebuildRelatedPosts', () => {
+  it('should relink each locale the post exists in with that locale\'s URLs', async () => {
+    const { strapi, postService } = createMockStrapi(['en', 'es']);
+
+    const results = await linkRelatedPostsForLocales(strapi, 'post-1');
+
+    expect(results.map((r) => r.locale)).toEqual(['en', 'es']);
+    const esUpdate = postService.update.mock.calls.find(([options]) => options.locale === 'es')![0];
+    expect(esUpdate.data.content).toContain('](/es/games/elden-ring)');
+  });
+
+  it('should report failures per post and keep going', async () => {
+    const { strapi, postService } = createMockStrapi(['en']);
+    postService.update.mockRejectedValueOnce(new Error('db down'));
+
+    const entries = await rebuildRelatedPosts(strapi, { locale: 'en', gameDocumentId: 'game-er' });
+
+    expect(postService.findMany.mock.calls[0][0].filters).toEqual({ games: { documentId: 'game-er' } });
+    expect(entries).toEqual([{ documentId: 'post-1', locale: 'en', status: 'failed', error: 'db down' }]);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Structured Data Unit Tests
+ *
+ * Tests JSON-LD building for each post category and for game pages,
+ * validation against our schema set, and storage against a mocked Strapi
+ * instance.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Core } from '@strapi/strapi';
+
+import {
+  buildGameJsonLd,
+  buildPostJsonLd,
+  toIsoDuration,
+  type StructuredDataGame,
+  type StructuredDataPost,
+} from '../../../src/api/structured-data/services/json-ld-builders';
+import { validateJsonLd } from '../../../src/api/structured-data/services/json-ld-schemas';
+import { extractReviewScore } from '../../../src/ai/articles/review-verdict';
+import {
+  getStructuredData,
+  rebuildStructuredData,
+  refreshDependentStructuredData,
+  StructuredDataError,
+} from '../../../src/api/structured-data/services/structured-data';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const AUTHOR = {
+  name: 'Christian Kuri',
+  bio: '<p>Founder of Gamers.Wiki with over 15 years of experience.</p>',
+  jobTitle: 'Founder & Editor-in-Chief',
+  socialLinks: { twitter: 'https://twitter.com/christiankuri', note: 'not a url' },
+  specializations: 'Souls-like, Roguelite, Indie Games',
+  experience_since: '2010-01-01',
+  verified_credentials: 'Gamers.Wiki Founder',
+};
+
+function createPost(overrides: Partial<StructuredDataPost> = {}): StructuredDataPost {
+  return {
+    documentId: 'post-1',
+    title: 'Elden Ring Malenia Guide',
+    slug: 'elden-ring-malenia-guide',
+    excerpt: 'How to beat Malenia.',
+    description: 'Everything you need to beat **Malenia**, Blade of Miquella.',
+    content:
+      '# Elden Ring Malenia Guide\n\nIntro.\n\n## Preparation\n\nLevel up at a [Site of Grace](/en/grace).[^src-1a2b3c4d]\n\n' +
+      '## Phase Two\n\nDodge the Scarlet Aeonia.\n\n## Sources\n\n- https://example.com\n',
+    publishedAt: '2026-03-01T10:00:00.000Z',
+    updatedAt: '2026-03-02T10:00:00.000Z',
+    featuredImage: { url: '/uploads/malenia.jpg', width: 1200, height: 630 },
+    category: { slug: 'guides', name: 'Guides' },
+    author: AUTHOR,
+    games: [{ name: 'Elden Ring', slug: 'elden-ring' }],
+    tags: [{ name: 'Bosses' }],
+    ...overrides,
+  };
+}
+
+const GAME: StructuredDataGame = {
+  documentId: 'game-er',
+  name: 'Elden Ring',
+  slug: 'elden-ring',
+  description: 'An action RPG from **FromSoftware**.',
+  releaseDate: '2022-02-25',
+  coverImageUrl: 'https://images.igdb.com/cover.jpg',
+  totalRating: '94.23',
+  totalRatingCount: 812,
+  officialWebsite: 'https://en.bandainamcoent.eu/elden-ring',
+  platforms: [{ name: 'PC (Microsoft Windows)' }, { name: 'PlayStation 5' }],
+  genres: [{ name: 'Role-playing (RPG)' }],
+  developers: [{ name: 'FromSoftware' }],
+  publishers: [{ name: 'Bandai Namco Entertainment' }],
+  ageRatings: [
+    { category: 'ESRB', rating: 'M' },
+    { category: 'PEGI', rating: '16' },
+  ],
+};
+
+function nodeOfType(document: { '@graph': Array<Record<string, any>> }, type: string) {
+  return document['@graph'].find((node) => node['@type'] === type);
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+describe('buildPostJsonLd', () => {
+  it('should build a valid Article with the author profile and a HowTo for guides', () => {
+    const jsonLd = buildPostJsonLd(createPost(), 'en');
+
+    expect(validateJsonLd(jsonLd)).toEqual([]);
+    const article = nodeOfType(jsonLd, 'Article')!;
+    expect(article.mainEntityOfPage).toBe('https://gamers.wiki/en/elden-ring-malenia-guide');
+    expect(article.description).toBe('Everything you need to beat Malenia, Blade of Miquella.');
+    expect(article.about).toEqual([
+      { '@type': 'VideoGame', name: 'Elden Ring', url: 'https://gamers.wiki/en/games/elden-ring' },
+    ]);
+    expect(article.author[0]).toMatchObject({
+      name: 'Christian Kuri',
+      description: 'Founder of Gamers.Wiki with over 15 years of experience.',
+      knowsAbout: ['Souls-like', 'Roguelite', 'Indie Games'],
+      hasCredential: [{ '@type': 'EducationalOccupationalCredential', name: 'Gamers.Wiki Founder' }],
+      hasOccupation: { '@type': 'Role', roleName: 'Founder & Editor-in-Chief', startDate: '2010-01-01' },
+      sameAs: ['https://twitter.com/christiankuri'],
+    });
+
+    const howTo = nodeOfType(jsonLd, 'HowTo')!;
+    expect(howTo.step).toEqual([
+      { '@type': 'HowToStep', position: 1, name: 'Preparation', text: 'Level up at a Site of Grace.' },
+      { '@type': 'HowToStep', position: 2, name: 'Phase Two', text: 'Dodge the Scarlet Aeonia.' },
+    ]);
+  });
+
+  it('should build a NewsArticle with an AudioObject for narrated news', () => {
+    const jsonLd = buildPostJsonLd(
+      createPost({
+        category: { slug: 'noticias', name: 'Noticias' },
+        categoryType: 'news',
+        audioFile: {
+          url: 'https://cdn.example.com/audio.mp3',
+          mime: 'audio/mpeg',
+          provider_metadata: { ttsInfo: { audioDurationSeconds: 754.4 } as any },
+        },
+      }),
+      'es'
+    );
+
+    expect(validateJsonLd(jsonLd)).toEqual([]);
+    expect(jsonLd['@graph'].map((node) => node['@type'])).toEqual(['NewsArticle']);
+    expect((jsonLd['@graph'][0] as any).audio).toEqual({
+      '@type': 'AudioObject',
+      name: 'Elden Ring Malenia Guide',
+      contentUrl: 'https://cdn.example.com/audio.mp3',
+      encodingFormat: 'audio/mpeg',
+      duration: 'PT12M34S',
+      inLanguage: 'es',
+    });
+  });
+
+  it('should build a Review with the stated score and an ItemList for lists', () => {
+    const review = buildPostJsonLd(
+      createPost({
+        category: { slug: 'reviews', name: 'Reviews' },
+        content: '## Combat\n\nIt has 3 out of 5 bosses worth fighting.\n\n## Verdict\n\n**Score: 9.5/10**\n',
+      }),
+      'en'
+    );
+    expect(validateJsonLd(review)).toEqual([]);
+    expect(nodeOfType(review, 'Review')).toMatchObject({
+      itemReviewed: { name: 'Elden Ring' },
+      reviewRating: { '@type': 'Rating', ratingValue: 9.5, bestRating: 10, worstRating: 0 },
+    });
+
+    const list = buildPostJsonLd(createPost({ category: { slug: 'lists', name: 'Lists' } }), 'en');
+    expect(validateJsonLd(list)).toEqual([]);
+    expect(nodeOfType(list, 'ItemList')).toMatchObject({
+      numberOfItems: 2,
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Preparation' },
+        { '@type': 'ListItem', position: 2, name: 'Phase Two' },
+      ],
+    });
+  });
+});
+
+describe('extractReviewScore / toIsoDuration', () => {
+  it('should find the last stated score and ignore counts', () => {
+    expect(extractReviewScore('Early take: 7/10.\n\n## Verdict\n\nFinal score: 85/100')).toEqual({
+      ratingValue: 85,
+      bestRating: 100,
+    });
+    expect(extractReviewScore('Nota final: 8,5 de 10')).toEqual({ ratingValue: 8.5, bestRating: 10 });
+    expect(extractReviewScore('Beat 3 out of 5 bosses and 12/10 hype.')).toBeNull();
+  });
+
+  it('should format durations', () => {
+    expect(toIsoDuration(3725)).toBe('PT1H2M5S');
+    expect(toIsoDuration(60)).toBe('PT1M');
+  });
+});
+
+describe('buildGameJsonLd', () => {
+  it('should build a valid VideoGame with ratings, companies and age ratings', () => {
+    const jsonLd = buildGameJsonLd(GAME, 'en');
+
+    expect(validateJsonLd(jsonLd)).toEqual([]);
+    expect(jsonLd['@graph'][0]).toMatchObject({
+      '@type': 'VideoGame',
+      url: 'https://gamers.wiki/en/games/elden-ring',
+      description: 'An action RPG from FromSoftware.',
+      datePublished: '2022-02-25',
+      gamePlatform: ['PC (Microsoft Windows)', 'PlayStation 5'],
+      author: [{ '@type': 'Organization', name: 'FromSoftware' }],
+      publisher: [{ '@type': 'Organization', name: 'Bandai Namco Entertainment' }],
+      contentRating: ['ESRB M', 'PEGI 16'],
+      aggregateRating: { '@type': 'AggregateRating', ratingValue: 94.2, bestRating: 100, worstRating: 0, ratingCount: 812 },
+    });
+  });
+
+  it('should omit the aggregate rating without votes', () => {
+    const jsonLd = buildGameJsonLd({ ...GAME, totalRatingCount: 0, platforms: [] }, 'en');
+
+    expect(validateJsonLd(jsonLd)).toEqual([]);
+    expect(jsonLd['@graph'][0]).not.toHaveProperty('aggregateRating');
+    expect(jsonLd['@graph'][0]).not.toHaveProperty('gamePlatform');
+  });
+});
+
+describe('validateJsonLd', () => {
+  it('should report missing required fields and out-of-range ratings with paths', () => {
+    const jsonLd = buildPostJsonLd(createPost({ category: { slug: 'reviews', name: 'Reviews' } }), 'en') as any;
+    jsonLd['@graph'][0].headline = '';
+    jsonLd['@graph'][1].reviewRating = { '@type': 'Rating', ratingValue: 11, bestRating: 10, worstRating: 0 };
+
+    const paths = validateJsonLd(jsonLd).map((issue) => issue.path);
+
+    expect(paths).toContain('@graph.0.headline');
+    expect(paths).toContain('@graph.1.reviewRating');
+  });
+});
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function createMockStrapi(entry: Record<string, unknown> | null) {
+  const service = {
+    findFirst: vi.fn().mockResolvedValue(entry),
+    findOne: vi.fn().mockResolvedValue(null),
+    findMany: vi.fn().mockResolvedValue(entry ? [entry] : []),
+  };
+  const query = { updateMany: vi.fn().mockResolvedValue({ count: 1 }) };
+  const strapi = {
+    documents: vi.fn(() => service),
+    db: { query: vi.fn(() => query) },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, service, query };
+}
+
+describe('getStructuredData', () => {
+  it('should build JSON-LD on a miss without writing to the database', async () => {
+    const { strapi, service, query } = createMockStrapi(createPost());
+
+    const jsonLd = await getStructuredData(strapi, 'post', 'en', 'elden-ring-malenia-guide');
+
+    expect(service.findFirst.mock.calls[0][0]).toMatchObject({
+      locale: 'en',
+      status: 'published',
+      filters: { slug: 'elden-ring-malenia-guide' },
+    });
+    expect(nodeOfType(jsonLd as any, 'HowTo')).toBeDefined();
+    expect(query.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should serve stored JSON-LD while neither the entry nor anything it shows changed', async () => {
+    const stored = { jsonLd: { '@context': 'https://schema.org', '@graph': [] }, sourceUpdatedAt: '2026-03-02T10:00:00.000Z' };
+    const post = {
+      ...createPost(),
+      author: { ...AUTHOR, updatedAt: '2026-01-01T10:00:00.000Z' },
+      structuredData: stored,
+    };
+    const { strapi, query } = createMockStrapi(post);
+
+    expect(await getStructuredData(strapi, 'post', 'en', 'elden-ring-malenia-guide')).toBe(stored.jsonLd);
+
+    // The author profile was edited after the JSON-LD was stored
+    const { strapi: edited } = createMockStrapi({
+      ...post,
+      author: { ...AUTHOR, updatedAt: '2026-04-01T10:00:00.000Z' },
+    });
+    const rebuilt = await getStructuredData(edited, 'post', 'en', 'elden-ring-malenia-guide');
+    expect(rebuilt).not.toBe(stored.jsonLd);
+    expect(nodeOfType(rebuilt as any, 'Article')?.author).toEqual([
+      expect.objectContaining({ name: 'Christian Kuri' }),
+    ]);
+    expect(query.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown entries and locales, and never store invalid JSON-LD', async () => {
+    await expect(getStructuredData(createMockStrapi(null).strapi, 'game', 'en', 'missing')).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(getStructuredData(createMockStrapi(GAME as any).strapi, 'game', 'xx', 'elden-ring')).rejects.toThrow(
+      StructuredDataError
+    );
+
+    const { strapi, query } = createMockStrapi({ ...GAME, name: '' });
+    await expect(getStructuredData(strapi, 'game', 'en', 'elden-ring')).rejects.toMatchObject({ status: 422 });
+    expect(query.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should pick the type from the English category in other locales', async () => {
+    const { strapi, service } = createMockStrapi(
+      createPost({
+        slug: 'analisis-elden-ring',
+        category: { documentId: 'cat-reviews', slug: 'resenas', name: 'Reseñas' },
+        content: '## Combate\n\nExigente.\n\n## Veredicto\n\n**Puntuación: 9/10**\n',
+      })
+    );
+    service.findOne.mockResolvedValue({ documentId: 'cat-reviews', slug: 'reviews' });
+
+    const jsonLd = await getStructuredData(strapi, 'post', 'es', 'analisis-elden-ring');
+
+    expect(service.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ documentId: 'cat-reviews', locale: 'en' })
+    );
+    expect(nodeOfType(jsonLd as any, 'Review')).toMatchObject({
+      reviewRating: { ratingValue: 9, bestRating: 10 },
+      inLanguage: 'es',
+    });
+    expect(nodeOfType(jsonLd as any, 'Article')).toMatchObject({ articleSection: 'Reseñas' });
+  });
+});
+
+describe('rebuildStructuredData', () => {
+  it('should report stored and invalid entries per locale', async () => {
+    const { strapi, service, query } = createMockStrapi(null);
+    service.findMany.mockResolvedValueOnce([GAME, { ...GAME, documentId: 'game-bad', name: '' }]);
+
+    const results = await rebuildStructuredData(strapi, { kind: 'game', locale: 'en' });
+
+    expect(results.map((r) => [r.documentId, r.status])).toEqual([
+      ['game-er', 'stored'],
+      ['game-bad', 'invalid'],
+    ]);
+    expect(results[1].issues?.[0].path).toBe('@graph.0.name');
+    expect(query.updateMany).toHaveBeenCalledTimes(1);
+    expect(service.findMany.mock.calls[0][0]).toMatchObject({ locale: 'en', status: 'published', start: 0 });
+  });
+});
+
+describe('refreshDependentStructuredData', () => {
+  it('should store the JSON-LD of every published post showing an edited author', async () => {
+    const post = { ...createPost(), author: { ...AUTHOR, updatedAt: '2026-04-01T10:00:00.000Z' } };
+    const { strapi, service, query } = createMockStrapi(post);
+
+    const results = await refreshDependentStructuredData(strapi, 'api::author.author', 'author-1');
+
+    expect(results.map((r) => [r.documentId, r.locale, r.status])).toEqual([
+      ['post-1', 'en', 'stored'],
+      ['post-1', 'es', 'stored'],
+    ]);
+    expect(service.findMany.mock.calls[0][0]).toMatchObject({
+      status: 'published',
+      filters: { author: { documentId: 'author-1' } },
+    });
+    const update = query.updateMany.mock.calls[0][0];
+    expect(update.where).toEqual({ documentId: 'post-1', locale: 'en', publishedAt: { $notNull: true } });
+    expect(update.data.structuredData).toMatchObject({ sourceUpdatedAt: '2026-04-01T10:00:00.000Z' });
+
+    expect(await refreshDependentStructuredData(strapi, 'api::keyword.keyword', 'keyword-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Webhook Dispatcher Unit Tests
+ *
+ * Delivers events to a local HTTP receiver and checks signing, subscription
+ * filtering, retry scheduling, the retry run (including stuck deliveries and
+ * claiming) and redelivery against an in-memory Strapi document store.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { http, passthrough } from 'msw';
+import type { Core } from '@strapi/strapi';
+
+import {
+  WEBHOOK_CONFIG,
+  dispatchWebhookEvent,
+  getWebhookBackoffMs,
+  redeliverWebhook,
+  retryDueWebhookDeliveries,
+  signWebhookPayload,
+  validateWebhookSubscription,
+  verifyWebhookSignature,
+  WebhookError,
+  type WebhookDeliveryDocument,
+} from '../../../src/api/webhook-subscription/services/webhook-dispatcher';
+import { server as mswServer } from '../../mocks/server';
+
+// ============================================================================
+// Local receiver
+// ============================================================================
+
+interface ReceivedRequest {
+  readonly path: string;
+  readonly headers: IncomingHttpHeaders;
+  readonly body: string;
+}
+
+const received: ReceivedRequest[] = [];
+/** Status codes answered in order; 200 once exhausted */
+let responses: number[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', headers: req.headers, body });
+      res.statusCode = responses.shift() ?? 200;
+      res.end(res.statusCode === 200 ? 'ok' : 'nope');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+// ============================================================================
+// In-memory Strapi
+// ============================================================================
+
+const SECRET = 'test-secret-0123456789';
+
+type DueConditions = Array<{ status: string; nextAttemptAt?: { $lte: string }; updatedAt?: { $lte: string } }>;
+
+/** Matches the `$or` due conditions built by the dispatcher */
+function isDue(delivery: Record<string, unknown>, conditions: DueConditions): boolean {
+  return conditions.some(
+    ({ status, nextAttemptAt, updatedAt }) =>
+      delivery.status === status &&
+      (!nextAttemptAt || (delivery.nextAttemptAt != null && String(delivery.nextAttemptAt) <= nextAttemptAt.$lte)) &&
+      (!updatedAt || String(delivery.updatedAt) <= updatedAt.$lte)
+  );
+}
+
+function createMockStrapi(subscriptions: Array<Record<string, unknown>>) {
+  const deliveries = new Map<string, Record<string, unknown>>();
+  let nextId = 1;
+
+  const withSubscription = (delivery: Record<string, unknown>) => ({
+    ...delivery,
+    subscription: subscriptions.find((s) => s.documentId === delivery.subscriptionId) ?? null,
+  });
+
+  const subscriptionService = {
+    findMany: vi.fn(async ({ filters }: { filters: { enabled: boolean } }) =>
+      subscriptions.filter((s) => s.enabled === filters.enabled)
+    ),
+  };
+  const deliveryService = {
+    create: vi.fn(async ({ data }: { data: Record<string, any> }) => {
+      const { subscription, ...rest } = data;
+      const delivery = {
+        ...rest,
+        documentId: `delivery-${nextId++}`,
+        subscriptionId: subscription.connect[0],
+        updatedAt: new Date().toISOString(),
+      };
+      deliveries.set(delivery.documentId, delivery);
+      return delivery;
+    }),
+    findOne: vi.fn(async ({ documentId }: { documentId: string }) => {
+      const delivery = deliveries.get(documentId);
+      return delivery ? withSubscription(delivery) : null;
+    }),
+    update: vi.fn(async ({ documentId, data }: { documentId: string; data: Record<string, unknown> }) => {
+      const delivery = { ...deliveries.get(documentId), ...data, updatedAt: new Date().toISOString() };
+      deliveries.set(documentId, delivery);
+      return withSubscription(delivery);
+    }),
+    findMany: vi.fn(async ({ filters }: { filters: { $or: DueConditions } }) =>
+      [...deliveries.values()].filter((d) => isDue(d, filters.$or))
+    ),
+  };
+  const deliveryQuery = {
+    updateMany: vi.fn(
+      async ({ where, data }: { where: { documentId: string; $or: DueConditions }; data: Record<string, unknown> }) => {
+        const delivery = deliveries.get(where.documentId);
+        if (!delivery || !isDue(delivery, where.$or)) return { count: 0 };
+        deliveries.set(where.documentId, { ...delivery, ...data });
+        return { count: 1 };
+      }
+    ),
+  };
+
+  const strapi = {
+    documents: vi.fn((uid: string) =>
+      uid === 'api::webhook-subscription.webhook-subscription' ? subscriptionService : deliveryService
+    ),
+    db: { query: vi.fn().mockReturnValue(deliveryQuery) },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as unknown as Core.Strapi;
+
+  return { strapi, deliveries, deliveryQuery };
+}
+
+function subscription(path: string, events: string[], overrides: Record<string, unknown> = {}) {
+  return { documentId: `sub${path}`, name: path, url: `${baseUrl}${path}`, secret: SECRET, events, enabled: true, ...overrides };
+}
+
+const POST_DATA = { documentId: 'post-1', locale: 'es', slug: 'guia', title: 'Guía' };
+
+beforeEach(() => {
+  received.length = 0;
+  responses = [];
+  // Let requests reach the local receiver (and the unreachable port)
+  mswServer.use(http.post(/^http:\/\/127\.0\.0\.1:\d+\//, () => passthrough()));
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('dispatchWebhookEvent', () => {
+  it('should deliver a signed payload only to enabled subscribers of the event', async () => {
+    const { strapi } = createMockStrapi([
+      subscription('/frontend', ['post.translated', 'post.published']),
+      subscription('/search', ['game.imported']),
+      subscription('/disabled', ['post.translated'], { enabled: false }),
+    ]);
+
+    const [delivery] = await dispatchWebhookEvent(strapi, 'post.translated', POST_DATA);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.path).toBe('/frontend');
+    expect(request.headers['x-webhook-event']).toBe('post.translated');
+    expect(request.headers['x-webhook-delivery']).toBe(delivery.documentId);
+
+    const timestamp = Number(request.headers['x-webhook-timestamp']);
+    const signature = String(request.headers['x-webhook-signature']);
+    expect(signature).toBe(signWebhookPayload(SECRET, timestamp, request.body));
+    expect(verifyWebhookSignature(SECRET, timestamp, request.body, signature)).toBe(true);
+    expect(verifyWebhookSignature('wrong-secret-000000', timestamp, request.body, signature)).toBe(false);
+
+    expect(JSON.parse(request.body)).toMatchObject({ id: delivery.documentId, event: 'post.translated', data: POST_DATA });
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200, responseBody: 'ok' });
+  });
+
+  it('should schedule retries with backoff for server errors', async () => {
+    const { strapi } = createMockStrapi([subscription('/flaky', ['post.translated'])]);
+    responses = [503];
+
+    const before = Date.now();
+    const [delivery] = await dispatchWebhookEvent(strapi, 'post.translated', POST_DATA);
+
+    expect(delivery).toMatchObject({ status: 'retrying', attempts: 1, responseStatus: 503 });
+    const delay = new Date(delivery.nextAttemptAt as string).getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(getWebhookBackoffMs(1) - 1000);
+    expect(delay).toBeLessThanOrEqual(getWebhookBackoffMs(1) + 1000);
+  });
+
+  it('should fail immediately on client errors and on unreachable receivers after the last attempt', async () => {
+    const { strapi, deliveries } = createMockStrapi([
+      subscription('/gone', ['game.synced']),
+      subscription('/down', ['game.synced'], { url: 'http://127.0.0.1:1/down' }),
+    ]);
+    responses = [410];
+
+    const results = await dispatchWebhookEvent(strapi, 'game.synced', {
+      documentId: 'game-1',
+      igdbId: 1,
+      name: 'Zelda',
+      trigger: 'manual',
+      fields: ['totalRating'],
+    });
+
+    const gone = results.find((d) => d.responseStatus === 410) as WebhookDeliveryDocument;
+    expect(gone).toMatchObject({ status: 'failed', attempts: 1, nextAttemptAt: null });
+
+    const down = results.find((d) => d !== gone) as WebhookDeliveryDocument;
+    expect(down).toMatchObject({ status: 'retrying', responseStatus: null });
+    expect(down.errorMessage).toBeTruthy();
+
+    // Out of attempts: the next network error is final
+    deliveries.set(down.documentId, {
+      ...deliveries.get(down.documentId),
+      attempts: WEBHOOK_CONFIG.MAX_ATTEMPTS - 1,
+      nextAttemptAt: '2000-01-01T00:00:00.000Z',
+    });
+    const retry = await retryDueWebhookDeliveries(strapi);
+    expect(retry).toEqual({ attempted: 1, succeeded: 0, failed: 1 });
+    expect(deliveries.get(down.documentId)).toMatchObject({ status: 'failed', attempts: WEBHOOK_CONFIG.MAX_ATTEMPTS });
+  });
+});
+
+describe('retryDueWebhookDeliveries', () => {
+  it('should only resend deliveries whose backoff has elapsed, with the same id', async () => {
+    const { strapi, deliveries } = createMockStrapi([subscription('/flaky', ['post.translated'])]);
+    responses = [500];
+    const [delivery] = await dispatchWebhookEvent(strapi, 'post.translated', POST_DATA);
+
+    expect(await retryDueWebhookDeliveries(strapi)).toEqual({ attempted: 0, succeeded: 0, failed: 0 });
+
+    const later = new Date(Date.now() + getWebhookBackoffMs(1) + 1000);
+    expect(await retryDueWebhookDeliveries(strapi, { now: later })).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+
+    expect(received).toHaveLength(2);
+    expect(JSON.parse(received[1].body).id).toBe(JSON.parse(received[0].body).id);
+    expect(deliveries.get(delivery.documentId)).toMatchObject({ status: 'succeeded', attempts: 2 });
+  });
+
+  it('should resend pending deliveries whose first attempt never finished', async () => {
+    const { strapi, deliveries } = createMockStrapi([subscription('/frontend', ['post.translated'])]);
+    const stuck = {
+      documentId: 'delivery-stuck',
+      subscriptionId: 'sub/frontend',
+      event: 'post.translated',
+      payload: { event: 'post.translated', createdAt: '2000-01-01T00:00:00.000Z', data: POST_DATA },
+      status: 'pending',
+      attempts: 0,
+      updatedAt: new Date().toISOString(),
+    };
+    deliveries.set(stuck.documentId, stuck);
+
+    // Still within the request timeout: the attempt may be in flight
+    expect(await retryDueWebhookDeliveries(strapi)).toEqual({ attempted: 0, succeeded: 0, failed: 0 });
+
+    const later = new Date(Date.now() + WEBHOOK_CONFIG.STALE_PENDING_MS + 1000);
+    expect(await retryDueWebhookDeliveries(strapi, { now: later })).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    expect(received).toHaveLength(1);
+    expect(deliveries.get(stuck.documentId)).toMatchObject({ status: 'succeeded', attempts: 1 });
+  });
+
+  it('should skip deliveries claimed by another instance', async () => {
+    const { strapi, deliveries, deliveryQuery } = createMockStrapi([subscription('/flaky', ['post.translated'])]);
+    responses = [500];
+    const [delivery] = await dispatchWebhookEvent(strapi, 'post.translated', POST_DATA);
+    const later = new Date(Date.now() + getWebhookBackoffMs(1) + 1000);
+
+    // Another instance moves the delivery on between our query and our claim
+    deliveryQuery.updateMany.mockImplementationOnce(async () => {
+      deliveries.set(delivery.documentId, { ...deliveries.get(delivery.documentId), status: 'pending' });
+      return { count: 0 };
+    });
+
+    expect(await retryDueWebhookDeliveries(strapi, { now: later })).toEqual({ attempted: 0, succeeded: 0, failed: 0 });
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('redeliverWebhook', () => {
+  it('should resend a failed delivery with a fresh attempt budget', async () => {
+    const { strapi } = createMockStrapi([subscription('/gone', ['post.translated'])]);
+    responses = [404];
+    const [delivery] = await dispatchWebhookEvent(strapi, 'post.translated', POST_DATA);
+    expect(delivery.status).toBe('failed');
+
+    const summary = await redeliverWebhook(strapi, delivery.documentId);
+
+    expect(summary).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(summary.subscription).toEqual({ documentId: 'sub/gone', name: '/gone', url: `${baseUrl}/gone` });
+    await expect(redeliverWebhook(strapi, 'missing')).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('validateWebhookSubscription', () => {
+  it('should reject unknown events and non-http URLs', () => {
+    expect(() => validateWebhookSubscription({ url: 'https://example.com/hook', events: ['post.published'] })).not.toThrow();
+    expect(() => validateWebhookSubscription({ events: ['post.deleted'] })).toThrow(WebhookError);
+    expect(() => validateWebhookSubscription({ events: [] })).toThrow(/at least one event/);
+    expect(() => validateWebhookSubscription({ url: 'ftp://example.com/hook' })).toThrow(/http or https/);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  it('should reject stale timestamps', () => {
+    const timestamp = 1_700_000_000;
+    const signature = signWebhookPayload(SECRET, timestamp, '{}');
+    const now = new Date((timestamp + WEBHOOK_CONFIG.SIGNATURE_TOLERANCE_SECONDS + 1) * 1000);
+
+    expect(verifyWebhookSignature(SECRET, timestamp, '{}', signature, new Date(timestamp * 1000))).toBe(true);
+    expect(verifyWebhookSignature(SECRET, timestamp, '{}', signature, now)).toBe(false);
+  });
+});
@@ -496,6 +496,18 @@ export interface ApiAffiliateLinkAffiliateLink
         };
       }> &
       Schema.Attribute.DefaultTo<true>;
+    lastCheckedAt: Schema.Attribute.DateTime &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }>;
+    lastStatusCode: Schema.Attribute.Integer &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }>;
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
@@ -607,6 +619,13 @@ export interface ApiAffiliatePlatformAffiliatePlatform
           localized: false;
         };
       }>;
+    priority: Schema.Attribute.Integer &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }> &
+      Schema.Attribute.DefaultTo<0>;
     publishedAt: Schema.Attribute.DateTime;
     slug: Schema.Attribute.UID<'name'> &
       Schema.Attribute.Required &
@@ -737,6 +756,7 @@ export interface ApiArticleIdeaArticleIdea extends Struct.CollectionTypeSchema {
       'api::article-idea.article-idea'
     > &
       Schema.Attribute.Private;
+    post: Schema.Attribute.Relation<'manyToOne', 'api::post.post'>;
     publishedAt: Schema.Attribute.DateTime;
     sourcePost: Schema.Attribute.Relation<'manyToOne', 'api::post.post'>;
     title: Schema.Attribute.String &
@@ -1128,6 +1148,7 @@ export interface ApiDomainQualityDomainQuality
       > &
       Schema.Attribute.DefaultTo<0>;
     excludeReason: Schema.Attribute.Text;
+    exclusionOverride: Schema.Attribute.Enumeration<['include', 'exclude']>;
     isExcluded: Schema.Attribute.Boolean &
       Schema.Attribute.Required &
       Schema.Attribute.DefaultTo<false>;
@@ -1143,7 +1164,10 @@ export interface ApiDomainQualityDomainQuality
       'api::domain-quality.domain-quality'
     > &
       Schema.Attribute.Private;
+    overriddenAt: Schema.Attribute.DateTime;
+    overrideReason: Schema.Attribute.Text;
     publishedAt: Schema.Attribute.DateTime;
+    scoreHistory: Schema.Attribute.JSON;
     tavilyAttempts: Schema.Attribute.Integer &
       Schema.Attribute.Required &
       Schema.Attribute.SetMinMax<
@@ -1168,6 +1192,9 @@ export interface ApiDomainQualityDomainQuality
     > &
       Schema.Attribute.Required &
       Schema.Attribute.DefaultTo<'average'>;
+    tierOverride: Schema.Attribute.Enumeration<
+      ['excellent', 'good', 'average', 'poor', 'excluded']
+    >;
     totalSources: Schema.Attribute.Integer &
       Schema.Attribute.Required &
       Schema.Attribute.SetMinMax<
@@ -1377,6 +1404,48 @@ export interface ApiGameModeGameMode extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiGameSyncLogGameSyncLog
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'game_sync_logs';
+  info: {
+    description: 'Per-field changes applied to games by the IGDB re-sync';
+    displayName: 'Game Sync Log';
+    pluralName: 'game-sync-logs';
+    singularName: 'game-sync-log';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    field: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    game: Schema.Attribute.Relation<'manyToOne', 'api::game.game'>;
+    igdbId: Schema.Attribute.Integer & Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::game-sync-log.game-sync-log'
+    > &
+      Schema.Attribute.Private;
+    newValue: Schema.Attribute.JSON;
+    previousValue: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    syncedAt: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    trigger: Schema.Attribute.Enumeration<['scheduled', 'manual']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'manual'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiGameGame extends Struct.CollectionTypeSchema {
   collectionName: 'games';
   info: {
@@ -1516,6 +1585,12 @@ export interface ApiGameGame extends Struct.CollectionTypeSchema {
           localized: false;
         };
       }>;
+    igdbSyncedAt: Schema.Attribute.DateTime &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }>;
     igdbUrl: Schema.Attribute.String &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
@@ -1643,6 +1718,13 @@ export interface ApiGameGame extends Struct.CollectionTypeSchema {
           localized: false;
         };
       }>;
+    structuredData: Schema.Attribute.JSON &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: true;
+        };
+      }>;
     themes: Schema.Attribute.Relation<'manyToMany', 'api::theme.theme'>;
     totalRating: Schema.Attribute.Decimal &
       Schema.Attribute.SetPluginOptions<{
@@ -1694,6 +1776,122 @@ export interface ApiGameGame extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiGenerationJobGenerationJob
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'generation_jobs';
+  info: {
+    description: 'Background article generation jobs with persisted progress events';
+    displayName: 'Generation Job';
+    pluralName: 'generation-jobs';
+    singularName: 'generation-job';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    attempts: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    currentPhase: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    errorCode: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    errorMessage: Schema.Attribute.Text;
+    events: Schema.Attribute.JSON;
+    finishedAt: Schema.Attribute.DateTime;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::generation-job.generation-job'
+    > &
+      Schema.Attribute.Private;
+    maxAttempts: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<2>;
+    post: Schema.Attribute.Relation<'manyToOne', 'api::post.post'>;
+    progress: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    publishedAt: Schema.Attribute.DateTime;
+    request: Schema.Attribute.JSON & Schema.Attribute.Required;
+    result: Schema.Attribute.JSON;
+    startedAt: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['queued', 'running', 'completed', 'failed', 'cancelled']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'queued'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiGenerationProfileGenerationProfile
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'generation_profiles';
+  info: {
+    description: 'Per-agent model, temperature and token limit overrides for article generation';
+    displayName: 'Generation Profile';
+    pluralName: 'generation-profiles';
+    singularName: 'generation-profile';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text;
+    isDefault: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::generation-profile.generation-profile'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    settings: Schema.Attribute.JSON & Schema.Attribute.Required;
+    slug: Schema.Attribute.UID<'name'> & Schema.Attribute.Required;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiGenreGenre extends Struct.CollectionTypeSchema {
   collectionName: 'genres';
   info: {
@@ -2095,7 +2293,13 @@ export interface ApiPostPost extends Struct.CollectionTypeSchema {
     audioFile: Schema.Attribute.Media<'audios'> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
-          localized: false;
+          localized: true;
+        };
+      }>;
+    audioMetadata: Schema.Attribute.JSON &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: true;
         };
       }>;
     author: Schema.Attribute.Relation<'manyToOne', 'api::author.author'> &
@@ -2103,6 +2307,12 @@ export interface ApiPostPost extends Struct.CollectionTypeSchema {
     category: Schema.Attribute.Relation<'manyToOne', 'api::category.category'> &
       Schema.Attribute.Required;
     chapterFile: Schema.Attribute.Media<'files'> &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: true;
+        };
+      }>;
+    citations: Schema.Attribute.JSON &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
           localized: false;
@@ -2159,8 +2369,22 @@ export interface ApiPostPost extends Struct.CollectionTypeSchema {
           localized: false;
         };
       }>;
+    promptVersions: Schema.Attribute.JSON &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }>;
     publishedAt: Schema.Attribute.DateTime;
     relatedPosts: Schema.Attribute.Relation<'manyToMany', 'api::post.post'>;
+    revisions: Schema.Attribute.JSON &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }>;
     slug: Schema.Attribute.UID<'title'> &
       Schema.Attribute.Required &
       Schema.Attribute.SetPluginOptions<{
@@ -2175,6 +2399,13 @@ export interface ApiPostPost extends Struct.CollectionTypeSchema {
           localized: false;
         };
       }>;
+    structuredData: Schema.Attribute.JSON &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: true;
+        };
+      }>;
     tags: Schema.Attribute.Relation<'manyToMany', 'api::tag.tag'>;
     title: Schema.Attribute.String &
       Schema.Attribute.Required &
@@ -2183,6 +2414,62 @@ export interface ApiPostPost extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
+    translationStatus: Schema.Attribute.JSON &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: false;
+        };
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    verdict: Schema.Attribute.JSON &
+      Schema.Attribute.SetPluginOptions<{
+        i18n: {
+          localized: true;
+        };
+      }>;
+  };
+}
+
+export interface ApiPromptExperimentPromptExperiment
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'prompt_experiments';
+  info: {
+    description: 'A/B experiments that assign generation requests to arms of prompt versions';
+    displayName: 'Prompt Experiment';
+    pluralName: 'prompt-experiments';
+    singularName: 'prompt-experiment';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    active: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    arms: Schema.Attribute.JSON & Schema.Attribute.Required;
+    categorySlug: Schema.Attribute.Enumeration<
+      ['guides', 'news', 'reviews', 'lists']
+    >;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::prompt-experiment.prompt-experiment'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    slug: Schema.Attribute.UID<'name'> & Schema.Attribute.Required;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -2396,6 +2683,122 @@ export interface ApiThemeTheme extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiWebhookDeliveryWebhookDelivery
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'webhook_deliveries';
+  info: {
+    description: 'Delivery log of outbound webhook events with retry state';
+    displayName: 'Webhook Delivery';
+    pluralName: 'webhook-deliveries';
+    singularName: 'webhook-delivery';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    attempts: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    deliveredAt: Schema.Attribute.DateTime;
+    durationMs: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    errorMessage: Schema.Attribute.Text;
+    event: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::webhook-delivery.webhook-delivery'
+    > &
+      Schema.Attribute.Private;
+    nextAttemptAt: Schema.Attribute.DateTime;
+    payload: Schema.Attribute.JSON & Schema.Attribute.Required;
+    publishedAt: Schema.Attribute.DateTime;
+    responseBody: Schema.Attribute.Text;
+    responseStatus: Schema.Attribute.Integer;
+    status: Schema.Attribute.Enumeration<
+      ['pending', 'retrying', 'succeeded', 'failed']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'pending'>;
+    subscription: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::webhook-subscription.webhook-subscription'
+    >;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiWebhookSubscriptionWebhookSubscription
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'webhook_subscriptions';
+  info: {
+    description: 'Outbound webhook endpoints notified of content lifecycle events';
+    displayName: 'Webhook Subscription';
+    pluralName: 'webhook-subscriptions';
+    singularName: 'webhook-subscription';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text;
+    enabled: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<true>;
+    events: Schema.Attribute.JSON & Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::webhook-subscription.webhook-subscription'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    secret: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+        minLength: 16;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    url: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 2000;
+      }>;
+  };
+}
+
 export interface PluginContentReleasesRelease
   extends Struct.CollectionTypeSchema {
   collectionName: 'strapi_releases';
@@ -2919,16 +3322,22 @@ declare module '@strapi/strapi' {
       'api::franchise.franchise': ApiFranchiseFranchise;
       'api::game-engine.game-engine': ApiGameEngineGameEngine;
       'api::game-mode.game-mode': ApiGameModeGameMode;
+      'api::game-sync-log.game-sync-log': ApiGameSyncLogGameSyncLog;
       'api::game.game': ApiGameGame;
+      'api::generation-job.generation-job': ApiGenerationJobGenerationJob;
+      'api::generation-profile.generation-profile': ApiGenerationProfileGenerationProfile;
       'api::genre.genre': ApiGenreGenre;
       'api::keyword.keyword': ApiKeywordKeyword;
       'api::language.language': ApiLanguageLanguage;
       'api::platform.platform': ApiPlatformPlatform;
       'api::player-perspective.player-perspective': ApiPlayerPerspectivePlayerPerspective;
       'api::post.post': ApiPostPost;
+      'api::prompt-experiment.prompt-experiment': ApiPromptExperimentPromptExperiment;
       'api::source-content.source-content': ApiSourceContentSourceContent;
       'api::tag.tag': ApiTagTag;
       'api::theme.theme': ApiThemeTheme;
+      'api::webhook-delivery.webhook-delivery': ApiWebhookDeliveryWebhookDelivery;
+      'api::webhook-subscription.webhook-subscription': ApiWebhookSubscriptionWebhookSubscription;
       'plugin::content-releases.release': PluginContentReleasesRelease;
       'plugin::content-releases.release-action': PluginContentReleasesReleaseAction;
       'plugin::i18n.locale': PluginI18NLocale;